@@ -4,10 +4,35 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import StoreSettingsProvider from "@/components/StoreSettingsProvider";
+import OfflineSyncProvider from "@/components/OfflineSyncProvider";
 import Layout from "@/components/Layout";
+import RequireRole from "@/components/RequireRole";
 import Auth from "./pages/Auth";
+import Onboarding from "./pages/Onboarding";
 import Dashboard from "./pages/Dashboard";
 import POS from "./pages/POS";
+import Inventory from "./pages/Inventory";
+import Promotions from "./pages/Promotions";
+import Suppliers from "./pages/Suppliers";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import PurchaseOrderDetails from "./pages/PurchaseOrderDetails";
+import ReorderPlanner from "./pages/ReorderPlanner";
+import Stocktakes from "./pages/Stocktakes";
+import StocktakeDetails from "./pages/StocktakeDetails";
+import Transfers from "./pages/Transfers";
+import TransferDetails from "./pages/TransferDetails";
+import Stores from "./pages/Stores";
+import Catalogue from "./pages/Catalogue";
+import Shifts from "./pages/Shifts";
+import Reports from "./pages/Reports";
+import StockHistory from "./pages/StockHistory";
+import Sales from "./pages/Sales";
+import Customers from "./pages/Customers";
+import CustomerDetails from "./pages/CustomerDetails";
+import SaleDetails from "./pages/SaleDetails";
+import Settings from "./pages/Settings";
+import Staff from "./pages/Staff";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -19,16 +44,39 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <AuthProvider>
-          <Routes>
-            <Route path="/auth" element={<Auth />} />
-            <Route path="/" element={<Layout><Dashboard /></Layout>} />
-            <Route path="/pos" element={<Layout><POS /></Layout>} />
-            <Route path="/inventory" element={<Layout><div className="text-center py-12"><h2 className="text-2xl font-bold">Inventory</h2><p className="text-muted-foreground mt-2">Coming soon...</p></div></Layout>} />
-            <Route path="/reports" element={<Layout><div className="text-center py-12"><h2 className="text-2xl font-bold">Reports</h2><p className="text-muted-foreground mt-2">Coming soon...</p></div></Layout>} />
-            <Route path="/settings" element={<Layout><div className="text-center py-12"><h2 className="text-2xl font-bold">Settings</h2><p className="text-muted-foreground mt-2">Coming soon...</p></div></Layout>} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
+          <StoreSettingsProvider>
+            <OfflineSyncProvider>
+              <Routes>
+                <Route path="/auth" element={<Auth />} />
+                <Route path="/onboarding" element={<Onboarding />} />
+                <Route path="/" element={<Layout><Dashboard /></Layout>} />
+                <Route path="/pos" element={<Layout><POS /></Layout>} />
+                <Route path="/inventory" element={<Layout><Inventory /></Layout>} />
+                <Route path="/inventory/:productId/history" element={<Layout><StockHistory /></Layout>} />
+                <Route path="/sales" element={<Layout><Sales /></Layout>} />
+                <Route path="/sales/:saleId" element={<Layout><SaleDetails /></Layout>} />
+                <Route path="/customers" element={<Layout><Customers /></Layout>} />
+                <Route path="/customers/:customerId" element={<Layout><CustomerDetails /></Layout>} />
+                <Route path="/promotions" element={<Layout><RequireRole roles={["manager"]}><Promotions /></RequireRole></Layout>} />
+                <Route path="/suppliers" element={<Layout><RequireRole roles={["manager"]}><Suppliers /></RequireRole></Layout>} />
+                <Route path="/purchase-orders" element={<Layout><RequireRole roles={["manager"]}><PurchaseOrders /></RequireRole></Layout>} />
+                <Route path="/purchase-orders/:purchaseOrderId" element={<Layout><RequireRole roles={["manager"]}><PurchaseOrderDetails /></RequireRole></Layout>} />
+                <Route path="/reorder" element={<Layout><RequireRole roles={["manager"]}><ReorderPlanner /></RequireRole></Layout>} />
+                <Route path="/stocktakes" element={<Layout><Stocktakes /></Layout>} />
+                <Route path="/stocktakes/:stocktakeId" element={<Layout><StocktakeDetails /></Layout>} />
+                <Route path="/transfers" element={<Layout><RequireRole roles={["manager"]}><Transfers /></RequireRole></Layout>} />
+                <Route path="/transfers/:transferId" element={<Layout><RequireRole roles={["manager"]}><TransferDetails /></RequireRole></Layout>} />
+                <Route path="/shifts" element={<Layout><RequireRole roles={["manager"]}><Shifts /></RequireRole></Layout>} />
+                <Route path="/reports" element={<Layout><RequireRole roles={["manager"]}><Reports /></RequireRole></Layout>} />
+                <Route path="/stores" element={<Layout><RequireRole roles={["admin"]}><Stores /></RequireRole></Layout>} />
+                <Route path="/catalogue" element={<Layout><RequireRole roles={["admin"]}><Catalogue /></RequireRole></Layout>} />
+                <Route path="/staff" element={<Layout><RequireRole roles={["admin"]}><Staff /></RequireRole></Layout>} />
+                <Route path="/settings" element={<Layout><RequireRole roles={["manager"]}><Settings /></RequireRole></Layout>} />
+                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                <Route path="*" element={<NotFound />} />
+              </Routes>
+            </OfflineSyncProvider>
+          </StoreSettingsProvider>
         </AuthProvider>
       </BrowserRouter>
     </TooltipProvider>
@@ -1,34 +1,82 @@
-import { ReactNode, useEffect } from "react";
+import { ReactNode, useEffect, useState } from "react";
 import { useNavigate, Link, useLocation } from "react-router-dom";
-import { useAuth } from "@/hooks/useAuth";
+import { AppRole, useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import SyncStatusDialog from "@/components/offline/SyncStatusDialog";
+import StoreSwitcher from "@/components/stores/StoreSwitcher";
 import { 
   LayoutDashboard, 
   ShoppingCart, 
+  Receipt,
+  Contact,
   Package, 
+  Tag,
+  Truck,
+  ClipboardList,
+  ClipboardCheck,
+  PackagePlus,
+  ArrowLeftRight,
+  Vault,
   FileText, 
   Settings, 
+  Users,
   LogOut,
-  Store
+  Store,
+  Building2,
+  BookOpen,
+  Wifi,
+  WifiOff
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
+// Items without roles are open to every signed-in user; admins see everything
+const menuItems: { icon: typeof LayoutDashboard; label: string; path: string; roles?: AppRole[] }[] = [
+  { icon: LayoutDashboard, label: "Dashboard", path: "/" },
+  { icon: ShoppingCart, label: "POS", path: "/pos" },
+  { icon: Receipt, label: "Sales", path: "/sales" },
+  { icon: Contact, label: "Customers", path: "/customers" },
+  { icon: Package, label: "Inventory", path: "/inventory" },
+  { icon: Tag, label: "Promotions", path: "/promotions", roles: ["manager"] },
+  { icon: Truck, label: "Suppliers", path: "/suppliers", roles: ["manager"] },
+  { icon: ClipboardList, label: "Purchase Orders", path: "/purchase-orders", roles: ["manager"] },
+  { icon: PackagePlus, label: "Reorder", path: "/reorder", roles: ["manager"] },
+  { icon: ClipboardCheck, label: "Stocktakes", path: "/stocktakes" },
+  { icon: ArrowLeftRight, label: "Transfers", path: "/transfers", roles: ["manager"] },
+  { icon: Vault, label: "Shifts", path: "/shifts", roles: ["manager"] },
+  { icon: FileText, label: "Reports", path: "/reports", roles: ["manager"] },
+  { icon: Building2, label: "Stores", path: "/stores", roles: ["admin"] },
+  { icon: BookOpen, label: "Catalogue", path: "/catalogue", roles: ["admin"] },
+  { icon: Users, label: "Staff", path: "/staff", roles: ["admin"] },
+  { icon: Settings, label: "Settings", path: "/settings", roles: ["manager"] },
+];
+
 interface LayoutProps {
   children: ReactNode;
 }
 
 const Layout = ({ children }: LayoutProps) => {
-  const { user, loading, signOut } = useAuth();
+  const { user, roles, loading, hasRole, signOut } = useAuth();
+  const { store, loading: storeLoading } = useStoreSettings();
+  const { online, queuedCount, rejectedCount, syncing } = useOfflineSync();
+  const [syncStatusOpen, setSyncStatusOpen] = useState(false);
   const navigate = useNavigate();
   const location = useLocation();
 
+  // New sign-ups have neither a store nor roles; invited staff always have a role
+  const needsOnboarding = !!user && !storeLoading && !store && roles.length === 0;
+
   useEffect(() => {
     if (!loading && !user) {
       navigate("/auth");
+    } else if (!loading && needsOnboarding) {
+      navigate("/onboarding");
     }
-  }, [user, loading, navigate]);
+  }, [user, loading, needsOnboarding, navigate]);
 
-  if (loading) {
+  if (loading || storeLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
@@ -36,17 +84,11 @@ const Layout = ({ children }: LayoutProps) => {
     );
   }
 
-  if (!user) {
+  if (!user || needsOnboarding) {
     return null;
   }
 
-  const menuItems = [
-    { icon: LayoutDashboard, label: "Dashboard", path: "/" },
-    { icon: ShoppingCart, label: "POS", path: "/pos" },
-    { icon: Package, label: "Inventory", path: "/inventory" },
-    { icon: FileText, label: "Reports", path: "/reports" },
-    { icon: Settings, label: "Settings", path: "/settings" },
-  ];
+  const visibleMenuItems = menuItems.filter((item) => !item.roles || hasRole(...item.roles));
 
   return (
     <div className="min-h-screen bg-background">
@@ -58,14 +100,15 @@ const Layout = ({ children }: LayoutProps) => {
               <Store className="w-5 h-5 text-white" />
             </div>
             <div>
-              <h1 className="font-bold text-lg">RetailPro</h1>
+              <h1 className="font-bold text-lg truncate">{store?.name ?? "RetailPro"}</h1>
               <p className="text-xs text-muted-foreground">POS System</p>
             </div>
           </div>
+          {hasRole("admin") && <StoreSwitcher />}
         </div>
         
         <nav className="flex-1 p-4 space-y-1">
-          {menuItems.map((item) => {
+          {visibleMenuItems.map((item) => {
             const Icon = item.icon;
             const isActive = location.pathname === item.path;
             return (
@@ -85,7 +128,25 @@ const Layout = ({ children }: LayoutProps) => {
           })}
         </nav>
 
-        <div className="p-4 border-t border-border">
+        <div className="p-4 border-t border-border space-y-1">
+          <Button
+            variant="ghost"
+            className={cn("w-full justify-start gap-3", !online && "text-destructive hover:text-destructive")}
+            onClick={() => setSyncStatusOpen(true)}
+          >
+            {online ? <Wifi className="w-4 h-4" /> : <WifiOff className="w-4 h-4" />}
+            {online ? (syncing ? "Syncing..." : "Online") : "Offline"}
+            {queuedCount > 0 && (
+              <Badge variant="secondary" className="ml-auto">
+                {queuedCount} to sync
+              </Badge>
+            )}
+            {rejectedCount > 0 && (
+              <Badge variant="destructive" className={cn(queuedCount === 0 && "ml-auto")}>
+                {rejectedCount} rejected
+              </Badge>
+            )}
+          </Button>
           <Button
             variant="ghost"
             className="w-full justify-start gap-3 text-destructive hover:text-destructive hover:bg-destructive/10"
@@ -98,9 +159,12 @@ const Layout = ({ children }: LayoutProps) => {
       </aside>
 
       {/* Main Content */}
-      <main className="ml-64 p-8">
+      {/* Keyed by store so pages reload when an admin switches store */}
+      <main key={store?.id} className="ml-64 p-8">
         {children}
       </main>
+
+      <SyncStatusDialog open={syncStatusOpen} onOpenChange={setSyncStatusOpen} />
     </div>
   );
 };
@@ -0,0 +1,91 @@
+import { ReactNode, useCallback, useEffect, useRef, useState } from "react";
+import { OfflineSyncContext } from "@/hooks/useOfflineSync";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { getOfflineSales, syncOfflineSales } from "@/lib/offlineSales";
+import { toast } from "sonner";
+
+// Retry queued sales this often while online, in case the browser's online
+// event fired before the connection actually worked
+const SYNC_INTERVAL_MS = 60 * 1000;
+
+const OfflineSyncProvider = ({ children }: { children: ReactNode }) => {
+  const { store } = useStoreSettings();
+  const [online, setOnline] = useState(navigator.onLine);
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [rejectedCount, setRejectedCount] = useState(0);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  const storeId = store?.id;
+
+  const refreshQueue = useCallback(async () => {
+    if (!storeId) {
+      setQueuedCount(0);
+      setRejectedCount(0);
+      return;
+    }
+    try {
+      const sales = await getOfflineSales(storeId);
+      setQueuedCount(sales.filter((sale) => sale.status === "queued").length);
+      setRejectedCount(sales.filter((sale) => sale.status === "rejected").length);
+    } catch (error) {
+      console.error("Error reading offline sales:", error);
+    }
+  }, [storeId]);
+
+  const syncNow = useCallback(async () => {
+    if (!storeId || syncingRef.current || !navigator.onLine) return;
+    syncingRef.current = true;
+    setSyncing(true);
+    try {
+      const { synced, conflicts, rejected } = await syncOfflineSales(storeId);
+      if (synced > 0) {
+        toast.success(`${synced} offline sale${synced === 1 ? "" : "s"} synced`);
+      }
+      if (conflicts > 0) {
+        toast.warning(`${conflicts} stock or price conflict${conflicts === 1 ? "" : "s"} need a manager's review`);
+      }
+      if (rejected > 0) {
+        toast.error(`${rejected} offline sale${rejected === 1 ? " was" : "s were"} rejected by the server`);
+      }
+    } catch (error) {
+      console.error("Error syncing offline sales:", error);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+      refreshQueue();
+    }
+  }, [storeId, refreshQueue]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [syncNow]);
+
+  useEffect(() => {
+    syncNow();
+  }, [syncNow]);
+
+  useEffect(() => {
+    if (queuedCount === 0) return;
+    const timer = window.setInterval(syncNow, SYNC_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [queuedCount, syncNow]);
+
+  return (
+    <OfflineSyncContext.Provider value={{ online, queuedCount, rejectedCount, syncing, refreshQueue, syncNow }}>
+      {children}
+    </OfflineSyncContext.Provider>
+  );
+};
+
+export default OfflineSyncProvider;
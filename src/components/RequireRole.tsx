@@ -0,0 +1,41 @@
+import { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { AppRole, useAuth } from "@/hooks/useAuth";
+import { Button } from "@/components/ui/button";
+import { ShieldAlert } from "lucide-react";
+
+interface RequireRoleProps {
+  roles: AppRole[];
+  children: ReactNode;
+}
+
+// Route guard for pages backed by role-restricted RLS policies. The database
+// still enforces access; this only keeps users away from screens that would fail.
+const RequireRole = ({ roles, children }: RequireRoleProps) => {
+  const { loading, hasRole } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!hasRole(...roles)) {
+    return (
+      <div className="text-center py-12">
+        <ShieldAlert className="w-12 h-12 mx-auto text-muted-foreground" />
+        <h2 className="text-2xl font-bold mt-4">Access restricted</h2>
+        <p className="text-muted-foreground mt-2">You don't have permission to view this page.</p>
+        <Button asChild variant="outline" className="mt-6">
+          <Link to="/">Back to Dashboard</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
+
+export default RequireRole;
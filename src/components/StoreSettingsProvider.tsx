@@ -0,0 +1,90 @@
+import { ReactNode, useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  DEFAULT_STORE_SETTINGS,
+  Store,
+  StoreSettingsContext,
+  StoreSettingsContextType,
+} from "@/hooks/useStoreSettings";
+import { formatMoney } from "@/lib/format";
+
+const StoreSettingsProvider = ({ children }: { children: ReactNode }) => {
+  const { user, refreshRoles } = useAuth();
+  const [store, setStore] = useState<Store | null>(null);
+  const [settings, setSettings] = useState<StoreSettingsContextType["settings"]>(DEFAULT_STORE_SETTINGS);
+  // The user the current store was loaded for
+  const [loadedUserId, setLoadedUserId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setStore(null);
+      setSettings(DEFAULT_STORE_SETTINGS);
+      setLoadedUserId(null);
+      return;
+    }
+
+    try {
+      // Errors keep the store already loaded, so a dropped connection does not
+      // sign the POS out of its store
+      const { data: profile, error: profileError } = await supabase
+        .from("profiles")
+        .select("store_id")
+        .eq("id", user.id)
+        .single();
+      if (profileError) throw profileError;
+
+      if (!profile?.store_id) {
+        setStore(null);
+        setSettings(DEFAULT_STORE_SETTINGS);
+        return;
+      }
+
+      const [{ data: storeData, error: storeError }, { data: settingsData, error: settingsError }] =
+        await Promise.all([
+          supabase.from("stores").select("*").eq("id", profile.store_id).single(),
+          supabase.from("store_settings").select("*").eq("store_id", profile.store_id).maybeSingle(),
+        ]);
+      if (storeError) throw storeError;
+      if (settingsError) throw settingsError;
+
+      setStore(storeData);
+      setSettings({ ...DEFAULT_STORE_SETTINGS, ...settingsData });
+    } catch (error) {
+      console.error("Error fetching store settings:", error);
+    } finally {
+      setLoadedUserId(user.id);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const switchStore = useCallback(
+    async (storeId: string) => {
+      if (!user) return;
+      const { error } = await supabase.from("profiles").update({ store_id: storeId }).eq("id", user.id);
+      if (error) throw error;
+      // Roles are held per store, so they change with it
+      await Promise.all([refresh(), refreshRoles()]);
+    },
+    [user, refresh, refreshRoles]
+  );
+
+  const loading = !!user && loadedUserId !== user.id;
+
+  const formatCurrency = useCallback(
+    (amount: number, fixedDecimals?: boolean) =>
+      formatMoney(amount, { currency: settings.currency, locale: settings.locale }, fixedDecimals),
+    [settings.currency, settings.locale]
+  );
+
+  return (
+    <StoreSettingsContext.Provider value={{ store, settings, loading, refresh, switchStore, formatCurrency }}>
+      {children}
+    </StoreSettingsContext.Provider>
+  );
+};
+
+export default StoreSettingsProvider;
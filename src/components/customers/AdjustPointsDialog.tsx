@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+interface AdjustPointsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customer: Pick<Tables<"customers">, "id" | "name" | "loyalty_points">;
+  onAdjusted: () => void;
+}
+
+const AdjustPointsDialog = ({ open, onOpenChange, customer, onAdjusted }: AdjustPointsDialogProps) => {
+  const [points, setPoints] = useState("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setPoints("");
+      setReason("");
+    }
+  }, [open]);
+
+  const handleSave = async () => {
+    const change = Number(points);
+    if (!Number.isInteger(change) || change === 0) {
+      toast.error("Enter a whole number of points, negative to remove");
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error("Enter a reason for the adjustment");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("adjust_loyalty_points", {
+      _customer_id: customer.id,
+      _points: change,
+      _reason: reason.trim(),
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error adjusting loyalty points:", error);
+      toast.error(error.message || "Failed to adjust points");
+      return;
+    }
+
+    toast.success(`${change > 0 ? "Added" : "Removed"} ${Math.abs(change)} points`);
+    onOpenChange(false);
+    onAdjusted();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Adjust Points</DialogTitle>
+          <DialogDescription>
+            {customer.name} has {customer.loyalty_points} points. Adjustments are recorded with your name.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="adjust-points">Points</Label>
+            <Input
+              id="adjust-points"
+              type="number"
+              step="1"
+              placeholder="e.g. 50 or -20"
+              value={points}
+              onChange={(e) => setPoints(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="adjust-reason">Reason</Label>
+            <Textarea id="adjust-reason" rows={2} value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || !points || !reason.trim()}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Adjustment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AdjustPointsDialog;
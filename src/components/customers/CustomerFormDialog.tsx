@@ -0,0 +1,188 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { formatPhone, normalizePhone } from "@/lib/phone";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+const customerSchema = z.object({
+  name: z.string().trim().min(2, { message: "Name must be at least 2 characters" }),
+  phone: z
+    .string()
+    .trim()
+    .refine((phone) => !!normalizePhone(phone), { message: "Enter a Kenyan mobile number, e.g. 0712 345 678" }),
+  email: z.union([z.literal(""), z.string().trim().email({ message: "Enter a valid email address" })]),
+  address: z.string().trim().optional(),
+});
+
+type CustomerFormValues = z.infer<typeof customerSchema>;
+
+interface CustomerFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storeId: string;
+  customer: Tables<"customers"> | null;
+  // Prefills a new customer, e.g. with the number typed into the POS search
+  initialPhone?: string;
+  onSaved: (customer: Tables<"customers">) => void;
+}
+
+const CustomerFormDialog = ({
+  open,
+  onOpenChange,
+  storeId,
+  customer,
+  initialPhone = "",
+  onSaved,
+}: CustomerFormDialogProps) => {
+  const isEditing = !!customer;
+  const form = useForm<CustomerFormValues>({
+    resolver: zodResolver(customerSchema),
+    defaultValues: { name: "", phone: "", email: "", address: "" },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(
+      customer
+        ? {
+            name: customer.name,
+            phone: formatPhone(customer.phone),
+            email: customer.email ?? "",
+            address: customer.address ?? "",
+          }
+        : { name: "", phone: initialPhone, email: "", address: "" }
+    );
+  }, [open, customer, initialPhone, form]);
+
+  const onSubmit = async (values: CustomerFormValues) => {
+    const fields = {
+      name: values.name,
+      phone: normalizePhone(values.phone)!,
+      email: values.email || null,
+      address: values.address || null,
+    };
+
+    const { data, error } = isEditing
+      ? await supabase.from("customers").update(fields).eq("id", customer.id).select().single()
+      : await supabase.from("customers").insert({ ...fields, store_id: storeId }).select().single();
+
+    if (error) {
+      console.error("Error saving customer:", error);
+      if (error.code === "23505") {
+        form.setError("phone", { message: "Another customer already has this phone number" });
+      } else {
+        toast.error("Failed to save customer");
+      }
+      return;
+    }
+
+    toast.success(isEditing ? "Customer updated" : `${data.name} added`);
+    onOpenChange(false);
+    onSaved(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Customer" : "New Customer"}</DialogTitle>
+          <DialogDescription>
+            {isEditing ? "Update the customer's contact details." : "Customers are found at the till by phone number."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="phone"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Phone</FormLabel>
+                  <FormControl>
+                    <Input type="tel" placeholder="07XX XXX XXX" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEditing ? "Save Changes" : "Add Customer"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CustomerFormDialog;
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { toast } from "sonner";
+import { Check, Pencil, Plus, Trash2, X } from "lucide-react";
+
+interface CategoryManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storeId: string;
+  categories: Tables<"categories">[];
+  onChanged: () => void;
+}
+
+const CategoryManager = ({ open, onOpenChange, storeId, categories, onChanged }: CategoryManagerProps) => {
+  const [newName, setNewName] = useState("");
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const handleAdd = async () => {
+    const name = newName.trim();
+    if (name.length < 2) {
+      toast.error("Category name must be at least 2 characters");
+      return;
+    }
+    if (categories.some((c) => c.name.toLowerCase() === name.toLowerCase())) {
+      toast.error("A category with that name already exists");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.from("categories").insert({ name, store_id: storeId });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error creating category:", error);
+      toast.error("Failed to create category");
+      return;
+    }
+    setNewName("");
+    onChanged();
+  };
+
+  const handleRename = async (id: string) => {
+    const name = editingName.trim();
+    if (name.length < 2) {
+      toast.error("Category name must be at least 2 characters");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.from("categories").update({ name }).eq("id", id);
+    setSaving(false);
+
+    if (error) {
+      console.error("Error renaming category:", error);
+      toast.error("Failed to rename category");
+      return;
+    }
+    setEditingId(null);
+    onChanged();
+  };
+
+  const handleDelete = async (category: Tables<"categories">) => {
+    const { count } = await supabase
+      .from("products")
+      .select("id", { count: "exact", head: true })
+      .eq("category_id", category.id);
+
+    if (count) {
+      toast.error(`${category.name} still has ${count} product(s). Move them to another category first.`);
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.from("categories").delete().eq("id", category.id);
+    setSaving(false);
+
+    if (error) {
+      console.error("Error deleting category:", error);
+      toast.error("Failed to delete category");
+      return;
+    }
+    onChanged();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Categories</DialogTitle>
+          <DialogDescription>Group products for reporting and quicker browsing.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="New category name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          />
+          <Button onClick={handleAdd} disabled={saving}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add
+          </Button>
+        </div>
+
+        <ScrollArea className="max-h-80">
+          <div className="space-y-2">
+            {categories.length === 0 && (
+              <p className="text-center text-sm text-muted-foreground py-4">No categories yet.</p>
+            )}
+            {categories.map((category) => (
+              <div key={category.id} className="flex items-center gap-2 p-2 rounded-lg bg-accent">
+                {editingId === category.id ? (
+                  <>
+                    <Input
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && handleRename(category.id)}
+                      className="h-8"
+                      autoFocus
+                    />
+                    <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => handleRename(category.id)}>
+                      <Check className="w-3 h-3" />
+                    </Button>
+                    <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditingId(null)}>
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 font-medium">{category.name}</span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      onClick={() => {
+                        setEditingId(category.id);
+                        setEditingName(category.name);
+                      }}
+                    >
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => handleDelete(category)}
+                      disabled={saving}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CategoryManager;
@@ -0,0 +1,371 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+const NO_CATEGORY = "none";
+const NO_SUPPLIER = "none";
+
+const productSchema = z
+  .object({
+    name: z.string().trim().min(2, { message: "Name must be at least 2 characters" }),
+    description: z.string().trim().optional(),
+    sku: z.string().trim().optional(),
+    barcode: z.string().trim().optional(),
+    category_id: z.string(),
+    supplier_id: z.string(),
+    cost_price: z.coerce.number().min(0, { message: "Cost price cannot be negative" }),
+    selling_price: z.coerce.number().positive({ message: "Selling price must be greater than zero" }),
+    vat_rate: z.coerce.number().min(0).max(100, { message: "VAT rate must be between 0 and 100" }),
+    reorder_level: z.coerce.number().int().min(0, { message: "Reorder level cannot be negative" }),
+    stock_quantity: z.coerce.number().int().min(0, { message: "Opening stock cannot be negative" }),
+  })
+  .refine((values) => values.selling_price >= values.cost_price, {
+    message: "Selling price is below cost price",
+    path: ["selling_price"],
+  });
+
+type ProductFormValues = z.infer<typeof productSchema>;
+
+interface ProductFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storeId: string;
+  categories: Tables<"categories">[];
+  suppliers: Pick<Tables<"suppliers">, "id" | "name">[];
+  product: Tables<"products"> | null;
+  onSaved: () => void;
+}
+
+const emptyValues: ProductFormValues = {
+  name: "",
+  description: "",
+  sku: "",
+  barcode: "",
+  category_id: NO_CATEGORY,
+  supplier_id: NO_SUPPLIER,
+  cost_price: 0,
+  selling_price: 0,
+  vat_rate: 16,
+  reorder_level: 10,
+  stock_quantity: 0,
+};
+
+const ProductFormDialog = ({
+  open,
+  onOpenChange,
+  storeId,
+  categories,
+  suppliers,
+  product,
+  onSaved,
+}: ProductFormDialogProps) => {
+  const isEditing = !!product;
+  const { settings } = useStoreSettings();
+  const form = useForm<ProductFormValues>({
+    resolver: zodResolver(productSchema),
+    defaultValues: emptyValues,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(
+      product
+        ? {
+            name: product.name,
+            description: product.description ?? "",
+            sku: product.sku ?? "",
+            barcode: product.barcode ?? "",
+            category_id: product.category_id ?? NO_CATEGORY,
+            supplier_id: product.supplier_id ?? NO_SUPPLIER,
+            cost_price: Number(product.cost_price),
+            selling_price: Number(product.selling_price),
+            vat_rate: Number(product.vat_rate ?? 0),
+            reorder_level: product.reorder_level ?? 0,
+            stock_quantity: product.stock_quantity,
+          }
+        : {
+            ...emptyValues,
+            vat_rate: Number(settings.default_vat_rate),
+            reorder_level: settings.default_reorder_level,
+          }
+    );
+  }, [open, product, form, settings.default_vat_rate, settings.default_reorder_level]);
+
+  const onSubmit = async (values: ProductFormValues) => {
+    const fields = {
+      name: values.name,
+      description: values.description || null,
+      sku: values.sku || null,
+      barcode: values.barcode || null,
+      category_id: values.category_id === NO_CATEGORY ? null : values.category_id,
+      supplier_id: values.supplier_id === NO_SUPPLIER ? null : values.supplier_id,
+      cost_price: values.cost_price,
+      selling_price: values.selling_price,
+      vat_rate: values.vat_rate,
+      reorder_level: values.reorder_level,
+    };
+
+    try {
+      if (isEditing) {
+        // Stock is changed through adjustments, never by editing the product
+        const { error } = await supabase.from("products").update(fields).eq("id", product.id);
+        if (error) throw error;
+        toast.success("Product updated");
+      } else {
+        const { error } = await supabase
+          .from("products")
+          .insert({ ...fields, store_id: storeId, stock_quantity: values.stock_quantity });
+        if (error) throw error;
+        toast.success("Product created");
+      }
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error("Error saving product:", error);
+      toast.error("Failed to save product");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Product" : "New Product"}</DialogTitle>
+          <DialogDescription>
+            {isEditing ? "Update product details and pricing." : "Add a product to this store's catalogue."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. Sugar 1kg" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="sku"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>SKU</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="barcode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Barcode</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="category_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_CATEGORY}>Uncategorised</SelectItem>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={category.id}>
+                            {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="cost_price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cost price ({settings.currency})</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="selling_price"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Selling price ({settings.currency})</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" {...field} />
+                    </FormControl>
+                    <FormDescription>VAT inclusive</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="vat_rate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>VAT rate (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" max="100" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="supplier_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Supplier</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select supplier" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_SUPPLIER}>No usual supplier</SelectItem>
+                        {suppliers.map((supplier) => (
+                          <SelectItem key={supplier.id} value={supplier.id}>
+                            {supplier.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Used for reorder suggestions</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="reorder_level"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reorder level</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="1" min="0" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="stock_quantity"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{isEditing ? "Current stock" : "Opening stock"}</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="1" min="0" disabled={isEditing} {...field} />
+                    </FormControl>
+                    {isEditing && <FormDescription>Use a stock adjustment to change stock</FormDescription>}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEditing ? "Save Changes" : "Create Product"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ProductFormDialog;
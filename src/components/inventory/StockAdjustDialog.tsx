@@ -0,0 +1,170 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+const reasons = ["Damaged", "Expired", "Theft or loss", "Found stock", "Count correction", "Other"];
+
+interface StockAdjustDialogProps {
+  product: { id: string; name: string; stock_quantity: number } | null;
+  onOpenChange: (open: boolean) => void;
+  onAdjusted: () => void;
+}
+
+const StockAdjustDialog = ({ product, onOpenChange, onAdjusted }: StockAdjustDialogProps) => {
+  const [direction, setDirection] = useState<"add" | "remove">("remove");
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState(reasons[0]);
+  const [note, setNote] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (product) {
+      setDirection("remove");
+      setQuantity("");
+      setReason(reasons[0]);
+      setNote("");
+    }
+  }, [product]);
+
+  const delta = (direction === "add" ? 1 : -1) * Math.trunc(Number(quantity) || 0);
+
+  const handleSave = async () => {
+    if (!product) return;
+
+    if (delta === 0) {
+      toast.error("Enter a quantity");
+      return;
+    }
+
+    if (product.stock_quantity + delta < 0) {
+      toast.error("Adjustment would leave negative stock");
+      return;
+    }
+
+    const fullReason = note.trim() ? `${reason}: ${note.trim()}` : reason;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc("adjust_stock", {
+        _product_id: product.id,
+        _quantity: delta,
+        _reason: fullReason,
+      });
+      if (error) throw error;
+      toast.success(`Stock for ${product.name} is now ${product.stock_quantity + delta}`);
+      onOpenChange(false);
+      onAdjusted();
+    } catch (error) {
+      console.error("Error adjusting stock:", error);
+      toast.error("Failed to adjust stock");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!product} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Adjust Stock</DialogTitle>
+          <DialogDescription>
+            {product?.name} · Current stock: {product?.stock_quantity}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              type="button"
+              variant={direction === "remove" ? "default" : "outline"}
+              onClick={() => setDirection("remove")}
+            >
+              Remove stock
+            </Button>
+            <Button
+              type="button"
+              variant={direction === "add" ? "default" : "outline"}
+              onClick={() => setDirection("add")}
+            >
+              Add stock
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="adjust-quantity">Quantity</Label>
+            <Input
+              id="adjust-quantity"
+              type="number"
+              min="1"
+              step="1"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+            />
+            {delta !== 0 && product && (
+              <p className="text-sm text-muted-foreground">
+                New stock: {product.stock_quantity + delta}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {reasons.map((r) => (
+                  <SelectItem key={r} value={r}>
+                    {r}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="adjust-note">Note</Label>
+            <Input
+              id="adjust-note"
+              placeholder={reason === "Other" ? "Required" : "Optional"}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || (reason === "Other" && !note.trim())}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Adjustment
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StockAdjustDialog;
@@ -0,0 +1,211 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import {
+  conflictLabels,
+  discardOfflineSale,
+  getOfflineSales,
+  OfflineSale,
+  requeueOfflineSale,
+} from "@/lib/offlineSales";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { Loader2, RefreshCw } from "lucide-react";
+
+type Conflict = Tables<"sale_sync_conflicts"> & {
+  sale: { receipt_number: string; provisional_receipt_number: string | null } | null;
+  product: { name: string } | null;
+  shift: { shift_number: number } | null;
+};
+
+interface SyncStatusDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SyncStatusDialog = ({ open, onOpenChange }: SyncStatusDialogProps) => {
+  const { user, hasRole } = useAuth();
+  const { store, formatCurrency } = useStoreSettings();
+  const { online, queuedCount, syncing, refreshQueue, syncNow } = useOfflineSync();
+  const [localSales, setLocalSales] = useState<OfflineSale[]>([]);
+  const [conflicts, setConflicts] = useState<Conflict[]>([]);
+  const isManager = hasRole("manager");
+
+  const load = useCallback(async () => {
+    if (!store) return;
+    setLocalSales(await getOfflineSales(store.id).catch(() => []));
+
+    if (!online) return;
+    const { data, error } = await supabase
+      .from("sale_sync_conflicts")
+      .select("*, sale:sales(receipt_number, provisional_receipt_number), product:products(name), shift:till_shifts(shift_number)")
+      .eq("store_id", store.id)
+      .is("resolved_at", null)
+      .order("created_at", { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error("Error fetching sync conflicts:", error);
+      toast.error("Failed to load sync conflicts");
+      return;
+    }
+    setConflicts(data);
+  }, [store, online]);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load, queuedCount]);
+
+  const handleSync = async () => {
+    await syncNow();
+    load();
+  };
+
+  const handleRetry = async (sale: OfflineSale) => {
+    await requeueOfflineSale(sale);
+    await refreshQueue();
+    handleSync();
+  };
+
+  const handleDiscard = async (sale: OfflineSale) => {
+    await discardOfflineSale(sale.id);
+    await refreshQueue();
+    toast.success(`Offline sale ${sale.provisional_receipt_number} discarded`);
+    load();
+  };
+
+  const handleResolve = async (conflict: Conflict) => {
+    const { error } = await supabase
+      .from("sale_sync_conflicts")
+      .update({ resolved_at: new Date().toISOString(), resolved_by: user?.id ?? null })
+      .eq("id", conflict.id);
+
+    if (error) {
+      console.error("Error resolving conflict:", error);
+      toast.error("Failed to resolve conflict");
+      return;
+    }
+    setConflicts((current) => current.filter((c) => c.id !== conflict.id));
+  };
+
+  const conflictDetail = (conflict: Conflict) => {
+    if (conflict.conflict_type === "oversold") {
+      return `Sold ${conflict.quantity} with ${conflict.available ?? 0} in stock`;
+    }
+    if (conflict.conflict_type === "price_changed") {
+      return `Charged ${formatCurrency(Number(conflict.charged_price))}, price is ${formatCurrency(Number(conflict.expected_price))}`;
+    }
+    if (conflict.conflict_type === "promotion_changed") {
+      return `Charged ${formatCurrency(Number(conflict.charged_price))}, promotions give ${formatCurrency(Number(conflict.expected_price))}`;
+    }
+    if (conflict.conflict_type === "shift_closed") {
+      return `Rung up in shift #${conflict.shift?.shift_number ?? "?"}, which closed before it synced`;
+    }
+    return `Sold ${conflict.quantity} after it was deactivated`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Offline Sales</DialogTitle>
+          <DialogDescription>
+            {online ? "Online." : "Offline."} {queuedCount} sale{queuedCount === 1 ? "" : "s"} waiting to sync from this device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 max-h-[60vh] overflow-y-auto">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">On this device</h3>
+              <Button variant="outline" size="sm" onClick={handleSync} disabled={!online || syncing || queuedCount === 0}>
+                {syncing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+                Sync now
+              </Button>
+            </div>
+            {localSales.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Every sale from this device has been synced.</p>
+            ) : (
+              localSales.map((sale) => (
+                <div key={sale.id} className="flex items-center justify-between gap-4 rounded-lg border p-3 text-sm">
+                  <div>
+                    <p className="font-medium">{sale.provisional_receipt_number}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(sale.captured_at), "dd MMM yyyy HH:mm")} · {formatCurrency(sale.total_amount)}
+                    </p>
+                    {sale.last_error && <p className="text-xs text-destructive">{sale.last_error}</p>}
+                  </div>
+                  {sale.status === "rejected" ? (
+                    <div className="flex items-center gap-2">
+                      <Button variant="outline" size="sm" onClick={() => handleRetry(sale)} disabled={!online}>
+                        Retry
+                      </Button>
+                      {isManager && (
+                        <Button variant="ghost" size="sm" className="text-destructive" onClick={() => handleDiscard(sale)}>
+                          Discard
+                        </Button>
+                      )}
+                    </div>
+                  ) : (
+                    <Badge variant="outline">Waiting</Badge>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="font-semibold">Conflicts to review</h3>
+            {!online ? (
+              <p className="text-sm text-muted-foreground">Conflicts are shown once the connection is back.</p>
+            ) : conflicts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No open conflicts.</p>
+            ) : (
+              conflicts.map((conflict) => (
+                <div key={conflict.id} className="flex items-center justify-between gap-4 rounded-lg border p-3 text-sm">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={conflict.conflict_type === "oversold" ? "destructive" : "secondary"}>
+                        {conflictLabels[conflict.conflict_type]}
+                      </Badge>
+                      {conflict.product_id && (
+                        <span className="font-medium">{conflict.product?.name ?? "Unknown product"}</span>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {conflictDetail(conflict)} ·{" "}
+                      <Link to={`/sales/${conflict.sale_id}`} className="hover:underline" onClick={() => onOpenChange(false)}>
+                        {conflict.sale?.receipt_number ?? "Sale"}
+                        {conflict.sale?.provisional_receipt_number && ` (${conflict.sale.provisional_receipt_number})`}
+                      </Link>
+                    </p>
+                  </div>
+                  {isManager && (
+                    <Button variant="outline" size="sm" onClick={() => handleResolve(conflict)}>
+                      Mark resolved
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SyncStatusDialog;
@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "sonner";
+import { Loader2, Smartphone } from "lucide-react";
+
+// How long the till waits for the customer to approve the STK prompt
+const MPESA_TIMEOUT_SECONDS = 90;
+const POLL_INTERVAL_MS = 3000;
+
+interface PendingSale {
+  id: string;
+  receipt_number: string;
+}
+
+interface AwaitingPaymentDialogProps {
+  sale: PendingSale | null;
+  onResolved: (status: "completed" | "voided", message?: string) => void;
+}
+
+const AwaitingPaymentDialog = ({ sale, onResolved }: AwaitingPaymentDialogProps) => {
+  const [secondsLeft, setSecondsLeft] = useState(MPESA_TIMEOUT_SECONDS);
+  const [cancelling, setCancelling] = useState(false);
+  const resolvedRef = useRef(false);
+  // Kept in a ref so a re-render of the POS does not restart the countdown
+  const onResolvedRef = useRef(onResolved);
+  onResolvedRef.current = onResolved;
+
+  const sendPrompts = useCallback(async (saleId: string) => {
+    const { data: payments } = await supabase
+      .from("payments")
+      .select("id")
+      .eq("sale_id", saleId)
+      .eq("payment_method", "mpesa")
+      .is("reference_number", null);
+
+    for (const payment of payments || []) {
+      const { data, error } = await supabase.functions.invoke("mpesa-stk-push", {
+        body: { payment_id: payment.id },
+      });
+      if (error) {
+        console.error("STK push error:", error);
+        toast.error("Could not send the M-Pesa prompt");
+      } else if (data?.customer_message) {
+        toast.info(data.customer_message);
+      }
+    }
+  }, []);
+
+  const cancelSale = useCallback(async (saleId: string, status: "cancelled" | "timeout") => {
+    const { data, error } = await supabase.rpc("cancel_pending_sale", {
+      _sale_id: saleId,
+      _status: status,
+      _reason: status === "timeout" ? "M-Pesa prompt timed out" : "Cancelled at the till",
+    });
+    if (error) throw error;
+    return data;
+  }, []);
+
+  const resolve = useCallback((status: "completed" | "voided", message?: string) => {
+    if (resolvedRef.current) return;
+    resolvedRef.current = true;
+    onResolvedRef.current(status, message);
+  }, []);
+
+  useEffect(() => {
+    if (!sale) return;
+
+    resolvedRef.current = false;
+    setSecondsLeft(MPESA_TIMEOUT_SECONDS);
+    sendPrompts(sale.id);
+
+    const startedAt = Date.now();
+
+    const checkStatus = async () => {
+      const { data } = await supabase
+        .from("sales")
+        .select("status, notes")
+        .eq("id", sale.id)
+        .single();
+
+      if (data?.status === "completed") {
+        resolve("completed");
+      } else if (data?.status === "voided") {
+        resolve("voided", data.notes?.split("\n").pop());
+      } else if (Date.now() - startedAt >= MPESA_TIMEOUT_SECONDS * 1000) {
+        try {
+          const cancelled = await cancelSale(sale.id, "timeout");
+          // The callback may have landed just before the timeout
+          resolve(cancelled.status === "completed" ? "completed" : "voided", "M-Pesa prompt timed out");
+        } catch (error) {
+          console.error("Timeout cancel error:", error);
+        }
+      }
+    };
+
+    const poll = setInterval(checkStatus, POLL_INTERVAL_MS);
+    const countdown = setInterval(() => {
+      setSecondsLeft(Math.max(0, MPESA_TIMEOUT_SECONDS - Math.floor((Date.now() - startedAt) / 1000)));
+    }, 1000);
+
+    return () => {
+      clearInterval(poll);
+      clearInterval(countdown);
+    };
+  }, [sale, sendPrompts, cancelSale, resolve]);
+
+  const handleCancel = async () => {
+    if (!sale) return;
+    setCancelling(true);
+    try {
+      const cancelled = await cancelSale(sale.id, "cancelled");
+      resolve(cancelled.status === "completed" ? "completed" : "voided", "Cancelled at the till");
+    } catch (error) {
+      console.error("Cancel error:", error);
+      toast.error("Failed to cancel the sale");
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!sale}>
+      <DialogContent className="max-w-sm [&>button]:hidden" onInteractOutside={(e) => e.preventDefault()}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Smartphone className="w-5 h-5 text-success" />
+            Awaiting M-Pesa payment
+          </DialogTitle>
+          <DialogDescription>
+            Ask the customer to enter their M-Pesa PIN on their phone. Receipt {sale?.receipt_number}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          <div className="flex items-center justify-center gap-2 text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Waiting for confirmation… {secondsLeft}s
+          </div>
+          <Progress value={(secondsLeft / MPESA_TIMEOUT_SECONDS) * 100} />
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={() => sale && sendPrompts(sale.id)} disabled={cancelling}>
+            Resend prompt
+          </Button>
+          <Button variant="destructive" onClick={handleCancel} disabled={cancelling}>
+            {cancelling && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Cancel sale
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AwaitingPaymentDialog;
@@ -0,0 +1,90 @@
+import { useEffect, useRef, useState } from "react";
+import { getBarcodeDetector } from "@/lib/barcode";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+const FORMATS = ["ean_13", "ean_8", "upc_a", "upc_e", "code_128", "code_39", "itf", "qr_code"];
+const SCAN_INTERVAL_MS = 200;
+
+interface CameraScanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onScan: (code: string) => void;
+}
+
+const CameraScanDialog = ({ open, onOpenChange, onScan }: CameraScanDialogProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setError(null);
+
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+        if (stopped) return;
+        const video = videoRef.current!;
+        video.srcObject = stream;
+        await video.play();
+
+        const detector = new Detector({ formats: FORMATS });
+        const scan = async () => {
+          if (stopped) return;
+          const [barcode] = await detector.detect(video).catch(() => []);
+          if (barcode?.rawValue) {
+            onScanRef.current(barcode.rawValue);
+            onOpenChange(false);
+            return;
+          }
+          timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+        };
+        scan();
+      } catch (err) {
+        console.error("Camera error:", err);
+        setError(err instanceof DOMException && err.name === "NotAllowedError"
+          ? "Camera access was blocked. Allow it in the browser's site settings."
+          : "Could not start the camera.");
+      }
+    };
+
+    start();
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [open, onOpenChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Scan with Camera</DialogTitle>
+          <DialogDescription>Hold the barcode steady in front of the camera.</DialogDescription>
+        </DialogHeader>
+        {error ? (
+          <p className="text-center text-muted-foreground py-8">{error}</p>
+        ) : (
+          <video ref={videoRef} muted playsInline className="w-full aspect-video rounded-md bg-black object-cover" />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CameraScanDialog;
@@ -0,0 +1,143 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { customerSearchFilter } from "@/lib/customers";
+import { formatPhone, normalizePhone } from "@/lib/phone";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import CustomerFormDialog from "@/components/customers/CustomerFormDialog";
+import { Loader2, UserPlus, UserRound, X } from "lucide-react";
+
+export type SaleCustomer = Pick<Tables<"customers">, "id" | "name" | "phone">;
+
+interface CustomerPickerProps {
+  storeId: string;
+  customer: SaleCustomer | null;
+  onChange: (customer: SaleCustomer | null) => void;
+}
+
+const CustomerPicker = ({ storeId, customer, onChange }: CustomerPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SaleCustomer[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [addOpen, setAddOpen] = useState(false);
+
+  useEffect(() => {
+    if (open) setQuery("");
+  }, [open]);
+
+  useEffect(() => {
+    const term = query.trim();
+    if (!open || term.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      setSearching(true);
+      const { data, error } = await supabase
+        .from("customers")
+        .select("id, name, phone")
+        .eq("store_id", storeId)
+        .or(customerSearchFilter(term))
+        .order("name")
+        .limit(8);
+      setSearching(false);
+
+      if (error) {
+        console.error("Error searching customers:", error);
+        return;
+      }
+      setResults(data);
+    }, 250);
+    return () => clearTimeout(timeout);
+  }, [open, query, storeId]);
+
+  const select = (selected: SaleCustomer) => {
+    onChange(selected);
+    setOpen(false);
+  };
+
+  if (customer) {
+    return (
+      <div className="flex items-center justify-between rounded-lg border px-3 py-2 text-sm">
+        <div className="flex items-center gap-2">
+          <UserRound className="w-4 h-4 text-muted-foreground" />
+          <span className="font-medium">{customer.name}</span>
+          <span className="text-muted-foreground">{formatPhone(customer.phone)}</span>
+        </div>
+        <Button size="icon" variant="ghost" className="h-6 w-6" onClick={() => onChange(null)} title="Remove customer">
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+    );
+  }
+
+  // A complete number with no match can be added straight away
+  const newPhone = normalizePhone(query) && !results.some((r) => r.phone === normalizePhone(query)) ? query : "";
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" className="w-full justify-start text-muted-foreground">
+            <UserRound className="w-4 h-4 mr-2" />
+            Add customer (optional)
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 p-2" align="start">
+          <div className="relative">
+            <Input
+              autoFocus
+              placeholder="Phone number or name"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            {searching && (
+              <Loader2 className="absolute right-3 top-1/2 -translate-y-1/2 h-4 w-4 animate-spin text-muted-foreground" />
+            )}
+          </div>
+          <div className="mt-2 space-y-1">
+            {results.map((result) => (
+              <button
+                key={result.id}
+                className="flex w-full items-center justify-between rounded-md px-2 py-1.5 text-sm hover:bg-accent"
+                onClick={() => select(result)}
+              >
+                <span className="font-medium">{result.name}</span>
+                <span className="text-muted-foreground">{formatPhone(result.phone)}</span>
+              </button>
+            ))}
+            {query.trim().length >= 2 && !searching && results.length === 0 && (
+              <p className="px-2 py-1.5 text-sm text-muted-foreground">No matching customers.</p>
+            )}
+            <Button
+              variant="ghost"
+              className="w-full justify-start"
+              onClick={() => {
+                setOpen(false);
+                setAddOpen(true);
+              }}
+            >
+              <UserPlus className="w-4 h-4 mr-2" />
+              {newPhone ? `Add ${formatPhone(newPhone)}` : "New customer"}
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <CustomerFormDialog
+        open={addOpen}
+        onOpenChange={setAddOpen}
+        storeId={storeId}
+        customer={null}
+        initialPhone={newPhone}
+        onSaved={select}
+      />
+    </>
+  );
+};
+
+export default CustomerPicker;
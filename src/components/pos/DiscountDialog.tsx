@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { DiscountInput, manualDiscountCents, needsApproval } from "@/lib/pricing";
+
+interface DiscountDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // What the discount is on, e.g. a product name or "the whole sale"
+  title: string;
+  // The amount the discount comes off, after promotions
+  base: number;
+  discount: DiscountInput | null;
+  // A manager has already entered their PIN for this sale
+  approved: boolean;
+  offline?: boolean;
+  onApply: (discount: DiscountInput | null, managerPin?: string) => void;
+}
+
+const DiscountDialog = ({
+  open,
+  onOpenChange,
+  title,
+  base,
+  discount,
+  approved,
+  offline = false,
+  onApply,
+}: DiscountDialogProps) => {
+  const { settings, formatCurrency } = useStoreSettings();
+  const [type, setType] = useState<DiscountInput["type"]>("percent");
+  const [value, setValue] = useState("");
+  const [pin, setPin] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setType(discount?.type ?? "percent");
+      setValue(discount ? String(discount.value) : "");
+      setPin("");
+    }
+  }, [open, discount]);
+
+  // Sent to two decimal places so the till and the server round the same way
+  const amount = Math.round(Number(value) * 100) / 100;
+  const valid = amount > 0 && (type === "amount" || amount <= 100);
+  const baseCents = Math.round(base * 100);
+  const offCents = valid ? manualDiscountCents({ type, value: amount }, baseCents) : 0;
+  const approvalPercent = settings.discount_approval_percent === null ? null : Number(settings.discount_approval_percent);
+  const needsPin = !approved && needsApproval(offCents, baseCents, approvalPercent);
+
+  const handleApply = () => {
+    if (!valid) {
+      toast.error(type === "percent" ? "Enter a percentage between 0 and 100" : "Enter an amount above 0");
+      return;
+    }
+    if (needsPin && offline) {
+      toast.error(`Discounts above ${approvalPercent}% need the till to be online`);
+      return;
+    }
+    if (needsPin && !pin) {
+      toast.error("A manager must enter their PIN");
+      return;
+    }
+    onApply({ type, value: amount }, needsPin ? pin : undefined);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Discount</DialogTitle>
+          <DialogDescription>
+            On {title}, currently {formatCurrency(base)}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant={type === "percent" ? "default" : "outline"} onClick={() => setType("percent")}>
+              Percentage
+            </Button>
+            <Button variant={type === "amount" ? "default" : "outline"} onClick={() => setType("amount")}>
+              Amount
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="discount-value">{type === "percent" ? "Percentage off" : "Amount off"}</Label>
+            <Input
+              id="discount-value"
+              type="number"
+              min="0"
+              max={type === "percent" ? "100" : undefined}
+              step="0.01"
+              autoFocus
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleApply()}
+            />
+            {valid && (
+              <p className="text-sm text-muted-foreground">
+                {formatCurrency(offCents / 100)} off, leaving {formatCurrency((baseCents - offCents) / 100)}
+              </p>
+            )}
+          </div>
+          {needsPin &&
+            (offline ? (
+              <p className="text-sm text-destructive">
+                Discounts above {approvalPercent}% need a manager's PIN, which can only be checked online.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="discount-pin">Manager PIN</Label>
+                <Input
+                  id="discount-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={8}
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+                  onKeyDown={(e) => e.key === "Enter" && handleApply()}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Discounts above {approvalPercent}% need a manager's approval.
+                </p>
+              </div>
+            ))}
+        </div>
+
+        <DialogFooter>
+          {discount && (
+            <Button
+              variant="ghost"
+              className="mr-auto"
+              onClick={() => {
+                onApply(null);
+                onOpenChange(false);
+              }}
+            >
+              Remove
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={needsPin && offline}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DiscountDialog;
@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+interface FindSaleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FindSaleDialog = ({ open, onOpenChange }: FindSaleDialogProps) => {
+  const navigate = useNavigate();
+  const [receiptNumber, setReceiptNumber] = useState("");
+  const [searching, setSearching] = useState(false);
+
+  useEffect(() => {
+    if (open) setReceiptNumber("");
+  }, [open]);
+
+  const handleFind = async () => {
+    const query = receiptNumber.trim();
+    if (!query) return;
+
+    // Offline receipts carry a provisional number until the sale has synced
+    const quoted = `"${query.replace(/"/g, "")}"`;
+    setSearching(true);
+    const { data, error } = await supabase
+      .from("sales")
+      .select("id")
+      .or(`receipt_number.ilike.${quoted},provisional_receipt_number.ilike.${quoted}`)
+      .limit(1)
+      .maybeSingle();
+    setSearching(false);
+
+    if (error) {
+      console.error("Error finding sale:", error);
+      toast.error("Failed to look up receipt");
+      return;
+    }
+    if (!data) {
+      toast.error(`No sale found for receipt ${query}`);
+      return;
+    }
+
+    onOpenChange(false);
+    navigate(`/sales/${data.id}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Void or Return</DialogTitle>
+          <DialogDescription>Look up the original sale by its receipt number.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="receipt-number">Receipt number</Label>
+          <Input
+            id="receipt-number"
+            autoFocus
+            value={receiptNumber}
+            onChange={(e) => setReceiptNumber(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleFind()}
+          />
+        </div>
+        <DialogFooter>
+          <Button onClick={handleFind} disabled={searching || !receiptNumber.trim()}>
+            {searching && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Find Sale
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FindSaleDialog;
@@ -0,0 +1,373 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "sonner";
+import { Banknote, CreditCard, Gift, Loader2, Smartphone, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+
+export type PaymentMethod = "mpesa" | "cash" | "card" | "loyalty";
+
+export interface Tender {
+  payment_method: PaymentMethod;
+  amount: number;
+  tendered_amount: number;
+  reference_number?: string;
+  payer_phone?: string;
+}
+
+interface TenderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  total: number;
+  processing: boolean;
+  // Offline there is no STK push, so M-Pesa needs the customer's receipt code
+  offline?: boolean;
+  // The customer's points balance; points are offered as a tender when set
+  loyaltyPoints?: number | null;
+  onComplete: (tenders: Tender[]) => void;
+}
+
+const methods: { value: PaymentMethod; label: string; icon: typeof Banknote }[] = [
+  { value: "mpesa", label: "M-Pesa", icon: Smartphone },
+  { value: "cash", label: "Cash", icon: Banknote },
+  { value: "card", label: "Card", icon: CreditCard },
+  { value: "loyalty", label: "Points", icon: Gift },
+];
+
+// Work in cents so repeated tenders do not accumulate floating point error
+const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: number) => cents / 100;
+
+const TenderDialog = ({
+  open,
+  onOpenChange,
+  total,
+  processing,
+  offline = false,
+  loyaltyPoints = null,
+  onComplete,
+}: TenderDialogProps) => {
+  const { settings, formatCurrency } = useStoreSettings();
+  const offersPoints = settings.loyalty_enabled && !offline && loyaltyPoints !== null && loyaltyPoints > 0;
+  const enabledMethods = methods.filter((m) =>
+    m.value === "loyalty" ? offersPoints : settings.enabled_payment_methods.includes(m.value)
+  );
+  const defaultMethod = enabledMethods.some((m) => m.value === "cash") ? "cash" : enabledMethods[0]?.value ?? "cash";
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [method, setMethod] = useState<PaymentMethod>("cash");
+  const [amount, setAmount] = useState("");
+  const [reference, setReference] = useState("");
+  const [phone, setPhone] = useState("");
+
+  const paidCents = tenders.reduce((sum, t) => sum + toCents(t.amount), 0);
+  const balanceCents = Math.max(0, toCents(total) - paidCents);
+  const changeCents = tenders.reduce((sum, t) => sum + toCents(t.tendered_amount) - toCents(t.amount), 0);
+
+  const pointCents = toCents(Number(settings.loyalty_point_value));
+  const pointsUsed = tenders.reduce(
+    (sum, t) => sum + (t.payment_method === "loyalty" ? toCents(t.amount) / pointCents : 0),
+    0
+  );
+  const pointsLeft = Math.max(0, (loyaltyPoints ?? 0) - pointsUsed);
+  // The most points that fit within what is still due
+  const maxPoints = (dueCents: number) => Math.min(pointsLeft, Math.floor(dueCents / pointCents));
+
+  useEffect(() => {
+    if (open) {
+      setTenders([]);
+      setMethod(defaultMethod);
+      setAmount(fromCents(toCents(total)).toFixed(2));
+      setReference("");
+      setPhone("");
+    }
+  }, [open, total, defaultMethod]);
+
+  const selectMethod = (value: PaymentMethod) => {
+    setMethod(value);
+    setAmount(value === "loyalty" ? String(maxPoints(balanceCents)) : fromCents(balanceCents).toFixed(2));
+  };
+
+  const addTender = () => {
+    if (method === "loyalty") {
+      addPointsTender();
+      return;
+    }
+
+    const enteredCents = toCents(Number(amount));
+
+    if (!enteredCents || enteredCents <= 0) {
+      toast.error("Enter a valid amount");
+      return;
+    }
+
+    if (balanceCents === 0) {
+      toast.error("The sale is already fully paid");
+      return;
+    }
+
+    if (method !== "cash" && enteredCents > balanceCents) {
+      toast.error("Only cash can be more than the balance due");
+      return;
+    }
+
+    // M-Pesa without a receipt code is confirmed by an STK push to this phone
+    const stkPhone = method === "mpesa" && !reference.trim() ? phone.trim() : "";
+    if (method === "mpesa" && !reference.trim()) {
+      if (offline) {
+        toast.error("Offline, enter the M-Pesa receipt code from the customer's message");
+        return;
+      }
+      if (!/^(?:\+?254|0)?[17]\d{8}$/.test(stkPhone.replace(/\s/g, ""))) {
+        toast.error("Enter the customer's M-Pesa phone number or a receipt code");
+        return;
+      }
+      if (enteredCents % 100 !== 0) {
+        toast.error("M-Pesa prompts must be for whole shillings");
+        return;
+      }
+    }
+
+    const appliedCents = Math.min(enteredCents, balanceCents);
+    const next = [
+      ...tenders,
+      {
+        payment_method: method,
+        amount: fromCents(appliedCents),
+        tendered_amount: fromCents(enteredCents),
+        reference_number: reference.trim() || undefined,
+        payer_phone: stkPhone || undefined,
+      },
+    ];
+
+    setTenders(next);
+    setReference("");
+    setPhone("");
+    setAmount(fromCents(balanceCents - appliedCents).toFixed(2));
+  };
+
+  // Points are entered as a count and charged at the store's point value
+  const addPointsTender = () => {
+    const points = Number(amount);
+
+    if (!Number.isInteger(points) || points <= 0) {
+      toast.error("Enter a whole number of points");
+      return;
+    }
+    if (points > pointsLeft) {
+      toast.error(`Only ${pointsLeft} points available`);
+      return;
+    }
+    if (points < settings.loyalty_min_redemption) {
+      toast.error(`At least ${settings.loyalty_min_redemption} points must be redeemed`);
+      return;
+    }
+    if (points * pointCents > balanceCents) {
+      toast.error(`That is more than the balance due. Redeem up to ${maxPoints(balanceCents)} points`);
+      return;
+    }
+
+    const appliedCents = points * pointCents;
+    setTenders([
+      ...tenders,
+      {
+        payment_method: "loyalty",
+        amount: fromCents(appliedCents),
+        tendered_amount: fromCents(appliedCents),
+        reference_number: `${points} points`,
+      },
+    ]);
+    setMethod(defaultMethod);
+    setAmount(fromCents(balanceCents - appliedCents).toFixed(2));
+  };
+
+  const removeTender = (index: number) => {
+    const next = tenders.filter((_, i) => i !== index);
+    const nextPaid = next.reduce((sum, t) => sum + toCents(t.amount), 0);
+    setTenders(next);
+    setMethod(defaultMethod);
+    setAmount(fromCents(toCents(total) - nextPaid).toFixed(2));
+  };
+
+  const methodLabel = (value: PaymentMethod) => methods.find((m) => m.value === value)?.label ?? value;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Take Payment</DialogTitle>
+          <DialogDescription>
+            Add one or more tenders until the balance is zero.
+            {offline && " Offline: M-Pesa prompts are unavailable."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className={cn("grid gap-2", enabledMethods.length > 3 ? "grid-cols-4" : "grid-cols-3")}>
+            {enabledMethods.map(({ value, label, icon: Icon }) => (
+              <Button
+                key={value}
+                type="button"
+                variant={method === value ? "default" : "outline"}
+                onClick={() => selectMethod(value)}
+                disabled={balanceCents === 0}
+              >
+                <Icon className="w-4 h-4 mr-2" />
+                {label}
+              </Button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="tender-amount">
+                {method === "cash" ? "Amount received" : method === "loyalty" ? "Points to redeem" : "Amount"}
+              </Label>
+              <Input
+                id="tender-amount"
+                type="number"
+                min="0"
+                step={method === "loyalty" ? "1" : "0.01"}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && addTender()}
+                disabled={balanceCents === 0}
+              />
+            </div>
+            {method === "mpesa" && !offline && (
+              <div className="space-y-2">
+                <Label htmlFor="tender-phone">Customer phone</Label>
+                <Input
+                  id="tender-phone"
+                  type="tel"
+                  placeholder="07XX XXX XXX"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  disabled={balanceCents === 0 || !!reference.trim()}
+                />
+              </div>
+            )}
+            {method === "loyalty" && (
+              <div className="space-y-2 text-sm">
+                <Label>Available</Label>
+                <p className="pt-2">
+                  {pointsLeft} points · {formatCurrency(fromCents(pointsLeft * pointCents))}
+                </p>
+              </div>
+            )}
+            {(method === "mpesa" || method === "card") && (
+              <div className={cn("space-y-2", method === "mpesa" && !offline && "col-span-2")}>
+                <Label htmlFor="tender-reference">
+                  {method === "mpesa" ? (offline ? "Receipt code" : "Receipt code (if already paid)") : "Reference"}
+                </Label>
+                <Input
+                  id="tender-reference"
+                  placeholder={method === "mpesa" ? "e.g. QJK3XXXXXX" : "Approval code"}
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  disabled={balanceCents === 0}
+                />
+              </div>
+            )}
+          </div>
+
+          <Button
+            type="button"
+            variant="secondary"
+            className="w-full"
+            onClick={addTender}
+            disabled={balanceCents === 0}
+          >
+            Add {methodLabel(method)} tender
+          </Button>
+
+          {tenders.length > 0 && (
+            <div className="space-y-2">
+              {tenders.map((tender, index) => (
+                <div key={index} className="flex items-center justify-between p-3 rounded-lg bg-accent">
+                  <div>
+                    <p className="font-medium">{methodLabel(tender.payment_method)}</p>
+                    {tender.reference_number && (
+                      <p className="text-xs text-muted-foreground">Ref: {tender.reference_number}</p>
+                    )}
+                    {tender.payer_phone && (
+                      <p className="text-xs text-muted-foreground">STK push to {tender.payer_phone}</p>
+                    )}
+                    {tender.tendered_amount > tender.amount && (
+                      <p className="text-xs text-muted-foreground">
+                        Received {formatCurrency(tender.tendered_amount)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-bold">{formatCurrency(tender.amount)}</span>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => removeTender(index)}
+                      disabled={processing}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <Separator />
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Total</span>
+              <span className="font-medium">{formatCurrency(total)}</span>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Paid</span>
+              <span className="font-medium">{formatCurrency(fromCents(paidCents))}</span>
+            </div>
+            <div className="flex justify-between text-lg font-bold">
+              <span>Balance</span>
+              <span className={cn(balanceCents > 0 ? "text-destructive" : "text-success")}>
+                {formatCurrency(fromCents(balanceCents))}
+              </span>
+            </div>
+            {changeCents > 0 && (
+              <div className="flex justify-between text-lg font-bold">
+                <span>Change due</span>
+                <span className="text-warning">{formatCurrency(fromCents(changeCents))}</span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={processing}>
+            Cancel
+          </Button>
+          <Button
+            className="bg-success hover:bg-success/90"
+            onClick={() => onComplete(tenders)}
+            disabled={processing || balanceCents > 0 || tenders.length === 0}
+          >
+            {processing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Complete Sale
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TenderDialog;
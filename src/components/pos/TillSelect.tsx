@@ -0,0 +1,69 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { setDeviceTillId } from "@/lib/tills";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+
+interface TillSelectProps {
+  storeId: string;
+  value: string | null;
+  onChange: (tillId: string) => void;
+}
+
+const TillSelect = ({ storeId, value, onChange }: TillSelectProps) => {
+  const [tills, setTills] = useState<Tables<"tills">[]>([]);
+
+  useEffect(() => {
+    const fetchTills = async () => {
+      const { data, error } = await supabase
+        .from("tills")
+        .select("*")
+        .eq("store_id", storeId)
+        .eq("active", true)
+        .order("code");
+
+      if (error) {
+        console.error("Error fetching tills:", error);
+        toast.error("Failed to load tills");
+        return;
+      }
+      setTills(data);
+    };
+
+    fetchTills();
+  }, [storeId]);
+
+  // Fall back to the first till when this device has none or its till was deactivated
+  useEffect(() => {
+    if (tills.length > 0 && !tills.some((till) => till.id === value)) {
+      setDeviceTillId(tills[0].id);
+      onChange(tills[0].id);
+    }
+  }, [tills, value, onChange]);
+
+  if (tills.length <= 1) return null;
+
+  return (
+    <Select
+      value={value ?? undefined}
+      onValueChange={(tillId) => {
+        setDeviceTillId(tillId);
+        onChange(tillId);
+      }}
+    >
+      <SelectTrigger className="h-9 w-36">
+        <SelectValue placeholder="Till" />
+      </SelectTrigger>
+      <SelectContent>
+        {tills.map((till) => (
+          <SelectItem key={till.id} value={till.id}>
+            {till.name} ({till.code})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default TillSelect;
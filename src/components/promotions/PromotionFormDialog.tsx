@@ -0,0 +1,545 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { promotionTypeLabels } from "@/lib/pricing";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+const NO_CATEGORY = "none";
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const promotionSchema = z
+  .object({
+    name: z.string().trim().min(2, { message: "Name must be at least 2 characters" }),
+    promotion_type: z.enum(["buy_x_get_y", "bundle", "happy_hour", "category_sale"]),
+    product_ids: z.array(z.string()),
+    category_id: z.string(),
+    buy_quantity: z.coerce.number().int().min(1, { message: "At least 1" }),
+    get_quantity: z.coerce.number().int().min(1, { message: "At least 1" }),
+    bundle_quantity: z.coerce.number().int().min(2, { message: "A bundle has at least 2 items" }),
+    bundle_price: z.coerce.number().min(0, { message: "Bundle price cannot be negative" }),
+    discount_percent: z.coerce
+      .number()
+      .gt(0, { message: "Enter a percentage above 0" })
+      .max(100, { message: "A discount cannot be more than 100%" }),
+    start_time: z.string(),
+    end_time: z.string(),
+    days_of_week: z.array(z.number()),
+    starts_at: z.string(),
+    ends_at: z.string(),
+    active: z.boolean(),
+  })
+  .superRefine((values, ctx) => {
+    const type = values.promotion_type;
+    if (type === "category_sale" && values.category_id === NO_CATEGORY) {
+      ctx.addIssue({ code: "custom", message: "Choose the category on sale", path: ["category_id"] });
+    }
+    if (type !== "category_sale" && values.product_ids.length === 0 && values.category_id === NO_CATEGORY) {
+      ctx.addIssue({ code: "custom", message: "Choose products or a category", path: ["product_ids"] });
+    }
+    if (type === "happy_hour") {
+      if (!values.start_time) ctx.addIssue({ code: "custom", message: "Required", path: ["start_time"] });
+      if (!values.end_time) ctx.addIssue({ code: "custom", message: "Required", path: ["end_time"] });
+      if (values.start_time && values.start_time === values.end_time) {
+        ctx.addIssue({ code: "custom", message: "Must differ from the start", path: ["end_time"] });
+      }
+      if (values.days_of_week.length === 0) {
+        ctx.addIssue({ code: "custom", message: "Choose at least one day", path: ["days_of_week"] });
+      }
+    }
+    if (values.starts_at && values.ends_at && new Date(values.ends_at) <= new Date(values.starts_at)) {
+      ctx.addIssue({ code: "custom", message: "Must be after the start", path: ["ends_at"] });
+    }
+  });
+
+type PromotionFormValues = z.infer<typeof promotionSchema>;
+
+interface PromotionFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storeId: string;
+  categories: Tables<"categories">[];
+  products: Pick<Tables<"products">, "id" | "name" | "selling_price">[];
+  promotion: Tables<"promotions"> | null;
+  onSaved: () => void;
+}
+
+const emptyValues: PromotionFormValues = {
+  name: "",
+  promotion_type: "buy_x_get_y",
+  product_ids: [],
+  category_id: NO_CATEGORY,
+  buy_quantity: 2,
+  get_quantity: 1,
+  bundle_quantity: 3,
+  bundle_price: 0,
+  discount_percent: 10,
+  start_time: "",
+  end_time: "",
+  days_of_week: [0, 1, 2, 3, 4, 5, 6],
+  starts_at: "",
+  ends_at: "",
+  active: true,
+};
+
+// datetime-local inputs work in the browser's time zone
+const toLocalInput = (timestamp: string | null) => (timestamp ? format(new Date(timestamp), "yyyy-MM-dd'T'HH:mm") : "");
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const PromotionFormDialog = ({
+  open,
+  onOpenChange,
+  storeId,
+  categories,
+  products,
+  promotion,
+  onSaved,
+}: PromotionFormDialogProps) => {
+  const { user } = useAuth();
+  const { settings } = useStoreSettings();
+  const [productSearch, setProductSearch] = useState("");
+  const isEditing = !!promotion;
+  const form = useForm<PromotionFormValues>({
+    resolver: zodResolver(promotionSchema),
+    defaultValues: emptyValues,
+  });
+  const type = form.watch("promotion_type");
+
+  useEffect(() => {
+    if (!open) return;
+    setProductSearch("");
+    form.reset(
+      promotion
+        ? {
+            name: promotion.name,
+            promotion_type: promotion.promotion_type,
+            product_ids: promotion.product_ids,
+            category_id: promotion.category_id ?? NO_CATEGORY,
+            buy_quantity: promotion.buy_quantity ?? emptyValues.buy_quantity,
+            get_quantity: promotion.get_quantity ?? emptyValues.get_quantity,
+            bundle_quantity: promotion.bundle_quantity ?? emptyValues.bundle_quantity,
+            bundle_price: Number(promotion.bundle_price ?? 0),
+            discount_percent: Number(promotion.discount_percent ?? emptyValues.discount_percent),
+            start_time: promotion.start_time?.slice(0, 5) ?? "",
+            end_time: promotion.end_time?.slice(0, 5) ?? "",
+            days_of_week: promotion.days_of_week ?? emptyValues.days_of_week,
+            starts_at: toLocalInput(promotion.starts_at),
+            ends_at: toLocalInput(promotion.ends_at),
+            active: promotion.active,
+          }
+        : emptyValues
+    );
+  }, [open, promotion, form]);
+
+  const onSubmit = async (values: PromotionFormValues) => {
+    const quantityDeal = values.promotion_type === "buy_x_get_y" || values.promotion_type === "bundle";
+    // Only the fields for the chosen type are kept
+    const fields = {
+      name: values.name,
+      promotion_type: values.promotion_type,
+      active: values.active,
+      product_ids: values.promotion_type === "category_sale" ? [] : values.product_ids,
+      category_id: values.category_id === NO_CATEGORY ? null : values.category_id,
+      buy_quantity: values.promotion_type === "buy_x_get_y" ? values.buy_quantity : null,
+      get_quantity: values.promotion_type === "buy_x_get_y" ? values.get_quantity : null,
+      bundle_quantity: values.promotion_type === "bundle" ? values.bundle_quantity : null,
+      bundle_price: values.promotion_type === "bundle" ? values.bundle_price : null,
+      discount_percent: quantityDeal ? null : values.discount_percent,
+      start_time: values.promotion_type === "happy_hour" ? values.start_time : null,
+      end_time: values.promotion_type === "happy_hour" ? values.end_time : null,
+      days_of_week:
+        values.promotion_type === "happy_hour" && values.days_of_week.length < 7 ? values.days_of_week : null,
+      starts_at: fromLocalInput(values.starts_at),
+      ends_at: fromLocalInput(values.ends_at),
+    };
+
+    const { error } = isEditing
+      ? await supabase.from("promotions").update(fields).eq("id", promotion.id)
+      : await supabase.from("promotions").insert({ ...fields, store_id: storeId, created_by: user?.id });
+
+    if (error) {
+      console.error("Error saving promotion:", error);
+      toast.error(`Failed to save promotion: ${error.message}`);
+      return;
+    }
+
+    toast.success(isEditing ? "Promotion updated" : `${values.name} created`);
+    onOpenChange(false);
+    onSaved();
+  };
+
+  const term = productSearch.trim().toLowerCase();
+  const visibleProducts = products.filter((product) => !term || product.name.toLowerCase().includes(term));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Promotion" : "New Promotion"}</DialogTitle>
+          <DialogDescription>
+            Promotions are applied automatically at the till. Each item takes part in one promotion at most.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Soda 3 for 100" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="promotion_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {Object.entries(promotionTypeLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {type === "buy_x_get_y" && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="buy_quantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Buy</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" step="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="get_quantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Get free</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="1" step="1" {...field} />
+                      </FormControl>
+                      <FormDescription>The cheapest items in each group are free.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            {type === "bundle" && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="bundle_quantity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Items in the bundle</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="2" step="1" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="bundle_price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Bundle price ({settings.currency})</FormLabel>
+                      <FormControl>
+                        <Input type="number" min="0" step="0.01" {...field} />
+                      </FormControl>
+                      <FormDescription>Any mix of the chosen items.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            {(type === "happy_hour" || type === "category_sale") && (
+              <FormField
+                control={form.control}
+                name="discount_percent"
+                render={({ field }) => (
+                  <FormItem className="max-w-[12rem]">
+                    <FormLabel>Percentage off</FormLabel>
+                    <FormControl>
+                      <Input type="number" min="0" max="100" step="0.01" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {type === "happy_hour" && (
+              <div className="space-y-4 rounded-lg border p-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="start_time"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>From</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="end_time"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Until</FormLabel>
+                        <FormControl>
+                          <Input type="time" {...field} />
+                        </FormControl>
+                        <FormDescription>An end before the start runs past midnight.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="days_of_week"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Days</FormLabel>
+                      <div className="flex flex-wrap gap-2">
+                        {DAYS.map((day, index) => {
+                          const selected = field.value.includes(index);
+                          return (
+                            <Button
+                              key={day}
+                              type="button"
+                              size="sm"
+                              variant={selected ? "default" : "outline"}
+                              onClick={() =>
+                                field.onChange(
+                                  selected
+                                    ? field.value.filter((d) => d !== index)
+                                    : [...field.value, index].sort((a, b) => a - b)
+                                )
+                              }
+                            >
+                              {day}
+                            </Button>
+                          );
+                        })}
+                      </div>
+                      <FormDescription>Times are in the store's time zone, {settings.timezone}.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <FormField
+              control={form.control}
+              name="category_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{type === "category_sale" ? "Category on sale" : "Category"}</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select category" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_CATEGORY}>
+                        {type === "category_sale" ? "Select category" : "No category, chosen products only"}
+                      </SelectItem>
+                      {categories.map((category) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {type !== "category_sale" && (
+                    <FormDescription>Everything in the category qualifies, as well as the products below.</FormDescription>
+                  )}
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {type !== "category_sale" && (
+              <FormField
+                control={form.control}
+                name="product_ids"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Products ({field.value.length} chosen)</FormLabel>
+                    <Input
+                      placeholder="Search products..."
+                      value={productSearch}
+                      onChange={(e) => setProductSearch(e.target.value)}
+                    />
+                    <ScrollArea className="h-40 rounded-md border">
+                      <div className="p-2 space-y-1">
+                        {visibleProducts.map((product) => (
+                          <label
+                            key={product.id}
+                            className="flex items-center gap-2 rounded px-2 py-1 text-sm hover:bg-accent cursor-pointer"
+                          >
+                            <Checkbox
+                              checked={field.value.includes(product.id)}
+                              onCheckedChange={(checked) =>
+                                field.onChange(
+                                  checked
+                                    ? [...field.value, product.id]
+                                    : field.value.filter((id) => id !== product.id)
+                                )
+                              }
+                            />
+                            <span className="flex-1">{product.name}</span>
+                          </label>
+                        ))}
+                        {visibleProducts.length === 0 && (
+                          <p className="px-2 py-1 text-sm text-muted-foreground">No matching products.</p>
+                        )}
+                      </div>
+                    </ScrollArea>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="starts_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Starts</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave blank to start now.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="ends_at"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends</FormLabel>
+                    <FormControl>
+                      <Input type="datetime-local" {...field} />
+                    </FormControl>
+                    <FormDescription>Leave blank to run until switched off.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="active"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <FormLabel>Active</FormLabel>
+                    <FormDescription>Inactive promotions are never applied.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEditing ? "Save Changes" : "Create Promotion"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PromotionFormDialog;
@@ -0,0 +1,268 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { PurchaseOrderLineInput } from "@/lib/purchasing";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Loader2, Search, X } from "lucide-react";
+
+export type OrderableProduct = Pick<Tables<"products">, "id" | "name" | "sku" | "cost_price" | "stock_quantity">;
+
+interface PurchaseOrderFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  suppliers: Pick<Tables<"suppliers">, "id" | "name">[];
+  products: OrderableProduct[];
+  // A draft being edited, with its current lines
+  order: (Tables<"purchase_orders"> & { items: PurchaseOrderLineInput[] }) | null;
+  onSaved: (order: Tables<"purchase_orders">) => void;
+}
+
+const PurchaseOrderFormDialog = ({
+  open,
+  onOpenChange,
+  suppliers,
+  products,
+  order,
+  onSaved,
+}: PurchaseOrderFormDialogProps) => {
+  const { formatCurrency } = useStoreSettings();
+  const [supplierId, setSupplierId] = useState("");
+  const [lines, setLines] = useState<PurchaseOrderLineInput[]>([]);
+  const [expectedAt, setExpectedAt] = useState("");
+  const [notes, setNotes] = useState("");
+  const [productSearch, setProductSearch] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setSupplierId(order?.supplier_id ?? "");
+    setLines(order?.items ?? []);
+    setExpectedAt(order?.expected_at ?? "");
+    setNotes(order?.notes ?? "");
+    setProductSearch("");
+  }, [open, order]);
+
+  const productById = new Map(products.map((product) => [product.id, product]));
+  const term = productSearch.trim().toLowerCase();
+  const matches = term
+    ? products
+        .filter(
+          (product) =>
+            !lines.some((line) => line.product_id === product.id) &&
+            (product.name.toLowerCase().includes(term) || product.sku?.toLowerCase().includes(term))
+        )
+        .slice(0, 8)
+    : [];
+  const total = lines.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0);
+
+  const addLine = (product: OrderableProduct) => {
+    setLines([...lines, { product_id: product.id, quantity: 1, unit_cost: Number(product.cost_price) }]);
+    setProductSearch("");
+  };
+
+  const updateLine = (productId: string, changes: Partial<PurchaseOrderLineInput>) => {
+    setLines(lines.map((line) => (line.product_id === productId ? { ...line, ...changes } : line)));
+  };
+
+  const handleSave = async () => {
+    if (!supplierId) {
+      toast.error("Choose a supplier");
+      return;
+    }
+    if (lines.length === 0) {
+      toast.error("Add at least one product to the order");
+      return;
+    }
+    if (lines.some((line) => line.quantity <= 0)) {
+      toast.error("Quantities must be above zero");
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await supabase.rpc("save_purchase_order", {
+      _supplier_id: supplierId,
+      _items: lines,
+      _purchase_order_id: order?.id,
+      _expected_at: expectedAt || undefined,
+      _notes: notes.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error saving purchase order:", error);
+      toast.error(`Failed to save purchase order: ${error.message}`);
+      return;
+    }
+
+    toast.success(order ? `${data.po_number} updated` : `${data.po_number} saved as a draft`);
+    onOpenChange(false);
+    onSaved(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{order ? `Edit ${order.po_number}` : "New Purchase Order"}</DialogTitle>
+          <DialogDescription>Orders stay as drafts and can be changed until they are sent.</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Supplier</Label>
+            <Select value={supplierId} onValueChange={setSupplierId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select supplier" />
+              </SelectTrigger>
+              <SelectContent>
+                {suppliers.map((supplier) => (
+                  <SelectItem key={supplier.id} value={supplier.id}>
+                    {supplier.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="po-expected">Expected delivery</Label>
+            <Input id="po-expected" type="date" value={expectedAt} onChange={(e) => setExpectedAt(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Products</Label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+            <Input
+              placeholder="Search products to add..."
+              value={productSearch}
+              onChange={(e) => setProductSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          {matches.length > 0 && (
+            <div className="border rounded-md divide-y">
+              {matches.map((product) => (
+                <button
+                  key={product.id}
+                  type="button"
+                  className="w-full flex items-center justify-between px-3 py-2 text-sm text-left hover:bg-muted"
+                  onClick={() => addLine(product)}
+                >
+                  <span>
+                    {product.name}
+                    {product.sku && <span className="text-muted-foreground ml-2">{product.sku}</span>}
+                  </span>
+                  <span className="text-muted-foreground">{product.stock_quantity} in stock</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {lines.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="w-24">Quantity</TableHead>
+                <TableHead className="w-32">Unit cost</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="w-10"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line) => (
+                <TableRow key={line.product_id}>
+                  <TableCell className="font-medium">{productById.get(line.product_id)?.name ?? "Product"}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="1"
+                      step="1"
+                      className="h-8"
+                      value={line.quantity}
+                      onChange={(e) =>
+                        updateLine(line.product_id, { quantity: Math.max(0, Math.floor(Number(e.target.value) || 0)) })
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="h-8"
+                      value={line.unit_cost}
+                      onChange={(e) => updateLine(line.product_id, { unit_cost: Math.max(0, Number(e.target.value) || 0) })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(line.quantity * line.unit_cost, true)}</TableCell>
+                  <TableCell>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      title="Remove"
+                      onClick={() => setLines(lines.filter((l) => l.product_id !== line.product_id))}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="po-notes">Notes</Label>
+          <Textarea id="po-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+        </div>
+
+        <DialogFooter className="sm:justify-between items-center">
+          <p className="text-lg font-bold">Total {formatCurrency(total, true)}</p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {order ? "Save Changes" : "Save Draft"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PurchaseOrderFormDialog;
@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+export interface ReceivableItem {
+  id: string;
+  product_name: string;
+  quantity: number;
+  received_quantity: number;
+  unit_cost: number;
+}
+
+interface ReceiveGoodsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: { id: string; po_number: string };
+  items: ReceivableItem[];
+  onReceived: () => void;
+}
+
+const ReceiveGoodsDialog = ({ open, onOpenChange, order, items, onReceived }: ReceiveGoodsDialogProps) => {
+  const { formatCurrency } = useStoreSettings();
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [costs, setCosts] = useState<Record<string, number>>({});
+  const [deliveryReference, setDeliveryReference] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Start from everything still outstanding at the agreed cost
+  useEffect(() => {
+    if (!open) return;
+    setQuantities(Object.fromEntries(items.map((item) => [item.id, item.quantity - item.received_quantity])));
+    setCosts(Object.fromEntries(items.map((item) => [item.id, Number(item.unit_cost)])));
+    setDeliveryReference("");
+    setNotes("");
+  }, [open, items]);
+
+  const selected = items.filter((item) => (quantities[item.id] ?? 0) > 0);
+  const total = selected.reduce((sum, item) => sum + quantities[item.id] * (costs[item.id] ?? 0), 0);
+
+  const setQuantity = (item: ReceivableItem, value: string) => {
+    const remaining = item.quantity - item.received_quantity;
+    const quantity = Math.max(0, Math.min(remaining, Math.floor(Number(value) || 0)));
+    setQuantities({ ...quantities, [item.id]: quantity });
+  };
+
+  const handleReceive = async () => {
+    if (selected.length === 0) {
+      toast.error("Enter the quantity received for at least one product");
+      return;
+    }
+
+    setSaving(true);
+    const { data: note, error } = await supabase.rpc("receive_goods", {
+      _purchase_order_id: order.id,
+      _items: selected.map((item) => ({
+        purchase_order_item_id: item.id,
+        quantity: quantities[item.id],
+        unit_cost: costs[item.id],
+      })),
+      _delivery_reference: deliveryReference.trim() || undefined,
+      _notes: notes.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error receiving goods:", error);
+      toast.error(`Failed to receive goods: ${error.message}`);
+      return;
+    }
+
+    toast.success(`${note.grn_number} recorded, stock updated`);
+    onOpenChange(false);
+    onReceived();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Receive Goods</DialogTitle>
+          <DialogDescription>
+            Record what arrived against {order.po_number}. Stock goes up and product costs move to the weighted
+            average.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead className="text-right">Ordered</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              <TableHead className="w-24">Now</TableHead>
+              <TableHead className="w-32">Unit cost</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item) => {
+              const remaining = item.quantity - item.received_quantity;
+              return (
+                <TableRow key={item.id} className={remaining === 0 ? "opacity-50" : undefined}>
+                  <TableCell className="font-medium">{item.product_name}</TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                  <TableCell className="text-right">{item.received_quantity}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={remaining}
+                      step="1"
+                      className="h-8"
+                      value={quantities[item.id] ?? 0}
+                      disabled={remaining === 0}
+                      onChange={(e) => setQuantity(item, e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="h-8"
+                      value={costs[item.id] ?? 0}
+                      disabled={remaining === 0}
+                      onChange={(e) => setCosts({ ...costs, [item.id]: Math.max(0, Number(e.target.value) || 0) })}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="grn-reference">Delivery note number</Label>
+            <Input
+              id="grn-reference"
+              placeholder="The supplier's reference"
+              value={deliveryReference}
+              onChange={(e) => setDeliveryReference(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="grn-notes">Notes</Label>
+            <Textarea
+              id="grn-notes"
+              rows={2}
+              placeholder="e.g. Two cartons short, driver to return Friday"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter className="sm:justify-between items-center">
+          <p className="text-lg font-bold">Value {formatCurrency(total, true)}</p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleReceive} disabled={saving || selected.length === 0}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Receive Goods
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReceiveGoodsDialog;
@@ -0,0 +1,215 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+const supplierSchema = z.object({
+  name: z.string().trim().min(2, { message: "Name must be at least 2 characters" }),
+  contact_name: z.string().trim().optional(),
+  phone: z.string().trim().optional(),
+  email: z.union([z.literal(""), z.string().trim().email({ message: "Enter a valid email address" })]),
+  kra_pin: z.union([
+    z.literal(""),
+    z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[AP]\d{9}[A-Z]$/, { message: "KRA PINs look like P051234567X" }),
+  ]),
+  lead_time_days: z.coerce
+    .number()
+    .int()
+    .min(0, { message: "Use 0 to 365 days" })
+    .max(365, { message: "Use 0 to 365 days" }),
+  address: z.string().trim().optional(),
+  notes: z.string().trim().optional(),
+});
+
+type SupplierFormValues = z.infer<typeof supplierSchema>;
+
+const emptyValues: SupplierFormValues = {
+  name: "",
+  contact_name: "",
+  phone: "",
+  email: "",
+  kra_pin: "",
+  lead_time_days: 7,
+  address: "",
+  notes: "",
+};
+
+interface SupplierFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storeId: string;
+  supplier: Tables<"suppliers"> | null;
+  onSaved: (supplier: Tables<"suppliers">) => void;
+}
+
+const SupplierFormDialog = ({ open, onOpenChange, storeId, supplier, onSaved }: SupplierFormDialogProps) => {
+  const isEditing = !!supplier;
+  const form = useForm<SupplierFormValues>({
+    resolver: zodResolver(supplierSchema),
+    defaultValues: emptyValues,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(
+      supplier
+        ? {
+            name: supplier.name,
+            contact_name: supplier.contact_name ?? "",
+            phone: supplier.phone ?? "",
+            email: supplier.email ?? "",
+            kra_pin: supplier.kra_pin ?? "",
+            lead_time_days: supplier.lead_time_days,
+            address: supplier.address ?? "",
+            notes: supplier.notes ?? "",
+          }
+        : emptyValues
+    );
+  }, [open, supplier, form]);
+
+  const onSubmit = async (values: SupplierFormValues) => {
+    const fields = {
+      name: values.name,
+      contact_name: values.contact_name || null,
+      phone: values.phone || null,
+      email: values.email || null,
+      kra_pin: values.kra_pin || null,
+      lead_time_days: values.lead_time_days,
+      address: values.address || null,
+      notes: values.notes || null,
+    };
+
+    const { data, error } = isEditing
+      ? await supabase.from("suppliers").update(fields).eq("id", supplier.id).select().single()
+      : await supabase.from("suppliers").insert({ ...fields, store_id: storeId }).select().single();
+
+    if (error) {
+      console.error("Error saving supplier:", error);
+      toast.error("Failed to save supplier");
+      return;
+    }
+
+    toast.success(isEditing ? "Supplier updated" : `${data.name} added`);
+    onOpenChange(false);
+    onSaved(data);
+  };
+
+  const textField = (name: keyof SupplierFormValues, label: string, type = "text") => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input type={type} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? "Edit Supplier" : "New Supplier"}</DialogTitle>
+          <DialogDescription>Purchase orders are raised against a supplier.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {textField("name", "Name")}
+            <div className="grid grid-cols-2 gap-4">
+              {textField("contact_name", "Contact person")}
+              {textField("phone", "Phone", "tel")}
+              {textField("email", "Email", "email")}
+              {textField("kra_pin", "KRA PIN")}
+            </div>
+            <FormField
+              control={form.control}
+              name="lead_time_days"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Lead time (days)</FormLabel>
+                  <FormControl>
+                    <Input type="number" step="1" min="0" max="365" className="w-32" {...field} />
+                  </FormControl>
+                  <FormDescription>From placing an order to the goods arriving</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} placeholder="e.g. Delivers Tuesdays, pays on 30 days" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEditing ? "Save Changes" : "Add Supplier"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SupplierFormDialog;
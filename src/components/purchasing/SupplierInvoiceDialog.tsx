@@ -0,0 +1,205 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface InvoiceableItem {
+  id: string;
+  product_name: string;
+  received_quantity: number;
+  invoiced_quantity: number;
+  unit_cost: number;
+}
+
+interface SupplierInvoiceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: { id: string; po_number: string };
+  items: InvoiceableItem[];
+  onRecorded: () => void;
+}
+
+const SupplierInvoiceDialog = ({ open, onOpenChange, order, items, onRecorded }: SupplierInvoiceDialogProps) => {
+  const { formatCurrency } = useStoreSettings();
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [invoiceDate, setInvoiceDate] = useState("");
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [costs, setCosts] = useState<Record<string, number>>({});
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Prefilled with what the invoice should say; the clerk corrects it to what it does say
+  useEffect(() => {
+    if (!open) return;
+    setInvoiceNumber("");
+    setInvoiceDate(format(new Date(), "yyyy-MM-dd"));
+    setQuantities(
+      Object.fromEntries(items.map((item) => [item.id, Math.max(item.received_quantity - item.invoiced_quantity, 0)]))
+    );
+    setCosts(Object.fromEntries(items.map((item) => [item.id, Number(item.unit_cost)])));
+    setNotes("");
+  }, [open, items]);
+
+  const expectedQuantity = (item: InvoiceableItem) => Math.max(item.received_quantity - item.invoiced_quantity, 0);
+  const lines = items.filter((item) => (quantities[item.id] ?? 0) > 0 || expectedQuantity(item) > 0);
+  const total = lines.reduce((sum, item) => sum + (quantities[item.id] ?? 0) * (costs[item.id] ?? 0), 0);
+
+  const handleRecord = async () => {
+    if (!invoiceNumber.trim() || !invoiceDate) {
+      toast.error("Enter the invoice number and date");
+      return;
+    }
+    if (lines.length === 0) {
+      toast.error("Nothing has been received to invoice yet");
+      return;
+    }
+
+    setSaving(true);
+    const { data: invoice, error } = await supabase.rpc("record_supplier_invoice", {
+      _purchase_order_id: order.id,
+      _invoice_number: invoiceNumber.trim(),
+      _invoice_date: invoiceDate,
+      _items: lines.map((item) => ({
+        purchase_order_item_id: item.id,
+        quantity: quantities[item.id] ?? 0,
+        unit_cost: costs[item.id] ?? 0,
+      })),
+      _notes: notes.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error recording supplier invoice:", error);
+      toast.error(
+        error.code === "23505"
+          ? `Invoice ${invoiceNumber.trim()} has already been recorded for this supplier`
+          : `Failed to record invoice: ${error.message}`
+      );
+      return;
+    }
+
+    if (invoice.match_status === "matched") {
+      toast.success(`Invoice ${invoice.invoice_number} matches the order`);
+    } else {
+      toast.warning(`Invoice ${invoice.invoice_number} does not match and needs a manager's approval`);
+    }
+    onOpenChange(false);
+    onRecorded();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Record Supplier Invoice</DialogTitle>
+          <DialogDescription>
+            Enter the invoice as billed. Each line is checked against what was received on {order.po_number} and the
+            agreed cost.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="invoice-number">Invoice number</Label>
+            <Input id="invoice-number" value={invoiceNumber} onChange={(e) => setInvoiceNumber(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="invoice-date">Invoice date</Label>
+            <Input id="invoice-date" type="date" value={invoiceDate} onChange={(e) => setInvoiceDate(e.target.value)} />
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead className="text-right">Expected</TableHead>
+              <TableHead className="w-24">Invoiced</TableHead>
+              <TableHead className="w-32">Unit cost</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item) => {
+              const expected = expectedQuantity(item);
+              const quantity = quantities[item.id] ?? 0;
+              const cost = costs[item.id] ?? 0;
+              return (
+                <TableRow key={item.id}>
+                  <TableCell className="font-medium">{item.product_name}</TableCell>
+                  <TableCell className="text-right text-sm text-muted-foreground">
+                    {expected} × {formatCurrency(Number(item.unit_cost), true)}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="1"
+                      className={cn("h-8", quantity !== expected && "border-warning")}
+                      value={quantity}
+                      onChange={(e) =>
+                        setQuantities({ ...quantities, [item.id]: Math.max(0, Math.floor(Number(e.target.value) || 0)) })
+                      }
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className={cn("h-8", cost !== Number(item.unit_cost) && "border-warning")}
+                      value={cost}
+                      onChange={(e) => setCosts({ ...costs, [item.id]: Math.max(0, Number(e.target.value) || 0) })}
+                    />
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <div className="space-y-2">
+          <Label htmlFor="invoice-notes">Notes</Label>
+          <Textarea id="invoice-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+        </div>
+
+        <DialogFooter className="sm:justify-between items-center">
+          <p className="text-lg font-bold">Invoice total {formatCurrency(total, true)}</p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleRecord} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Record Invoice
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SupplierInvoiceDialog;
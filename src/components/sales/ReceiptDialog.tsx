@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { encodeReceipt, logoMaxWidth, RasterImage, rasterizeImage } from "@/lib/escpos";
+import {
+  downloadBytes,
+  getPrinterConnection,
+  isSerialSupported,
+  isUsbSupported,
+  pairPrinter,
+  PrinterConnection,
+  sendToPrinter,
+} from "@/lib/printers";
+import {
+  fetchReceiptData,
+  PaperWidth,
+  printHtml,
+  ReceiptData,
+  receiptQrDataUrl,
+  renderReceiptHtml,
+} from "@/lib/receipt";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { ChevronDown, Download, Loader2, Printer } from "lucide-react";
+
+interface ReceiptDialogProps {
+  saleId: string | null;
+  // A receipt built on the till, for sales made offline
+  localReceipt?: ReceiptData | null;
+  reprint?: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const connectionLabels: Record<PrinterConnection, string> = {
+  usb: "USB printer",
+  serial: "Serial printer",
+};
+
+const ReceiptDialog = ({ saleId, localReceipt = null, reprint = false, onOpenChange }: ReceiptDialogProps) => {
+  const { store, settings } = useStoreSettings();
+  const [receipt, setReceipt] = useState<ReceiptData | null>(null);
+  const [html, setHtml] = useState<string | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [connection, setConnection] = useState<PrinterConnection | null>(getPrinterConnection);
+  const [printing, setPrinting] = useState(false);
+
+  const paperWidth = (settings.receipt_paper_width === 58 ? 58 : 80) as PaperWidth;
+
+  useEffect(() => {
+    if ((!saleId && !localReceipt) || !store) return;
+    setReceipt(null);
+    setHtml(null);
+    setLoadFailed(false);
+
+    const loadReceipt = async () => {
+      try {
+        const data = localReceipt ?? (await fetchReceiptData(saleId!, store, settings, reprint));
+        const qr = await receiptQrDataUrl(data);
+        setReceipt(data);
+        setHtml(renderReceiptHtml(data, paperWidth, qr));
+      } catch (error) {
+        console.error("Error loading receipt:", error);
+        setLoadFailed(true);
+      }
+    };
+
+    loadReceipt();
+  }, [saleId, localReceipt, reprint, store, settings, paperWidth]);
+
+  // The logo is optional on thermal receipts; print without it if it will not load
+  const encode = async (data: ReceiptData) => {
+    let logo: RasterImage | null = null;
+    if (data.settings.receipt_logo_url) {
+      logo = await rasterizeImage(data.settings.receipt_logo_url, logoMaxWidth(paperWidth)).catch((error) => {
+        console.error("Error loading receipt logo:", error);
+        return null;
+      });
+    }
+    return encodeReceipt(data, paperWidth, logo);
+  };
+
+  const handleThermalPrint = async (pairWith?: PrinterConnection) => {
+    if (!receipt) return;
+    setPrinting(true);
+    try {
+      if (pairWith) {
+        await pairPrinter(pairWith);
+        setConnection(pairWith);
+      }
+      await sendToPrinter(await encode(receipt));
+      toast.success("Receipt sent to printer");
+    } catch (error) {
+      console.error("Error printing receipt:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to print receipt");
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (!receipt) return;
+    downloadBytes(await encode(receipt), `${receipt.receipt_number}-${paperWidth}mm.bin`);
+  };
+
+  const pairOptions = (["usb", "serial"] as PrinterConnection[]).filter((c) =>
+    c === "usb" ? isUsbSupported() : isSerialSupported()
+  );
+
+  return (
+    <Dialog open={!!saleId || !!localReceipt} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Receipt {receipt?.receipt_number}</DialogTitle>
+          <DialogDescription>
+            {receipt?.provisional && "Provisional until the sale syncs. "}
+            {paperWidth}mm paper. Change the layout in Settings.
+          </DialogDescription>
+        </DialogHeader>
+
+        {html ? (
+          <iframe
+            title="Receipt preview"
+            srcDoc={html}
+            className="w-full h-[26rem] rounded-md border bg-white"
+          />
+        ) : loadFailed ? (
+          <p className="text-center text-muted-foreground py-8">Failed to load receipt.</p>
+        ) : (
+          <div className="flex items-center justify-center h-[26rem]">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="ghost" onClick={handleDownload} disabled={!receipt}>
+            <Download className="w-4 h-4 mr-2" />
+            .bin
+          </Button>
+          {pairOptions.length > 0 && (
+            <div className="flex">
+              <Button
+                variant="outline"
+                className="rounded-r-none"
+                onClick={() => (connection ? handleThermalPrint() : handleThermalPrint(pairOptions[0]))}
+                disabled={!receipt || printing}
+              >
+                {printing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {connection ? connectionLabels[connection] : `Pair ${connectionLabels[pairOptions[0]]}`}
+              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="icon" className="rounded-l-none border-l-0" disabled={printing}>
+                    <ChevronDown className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {pairOptions.map((option) => (
+                    <DropdownMenuItem key={option} onClick={() => handleThermalPrint(option)}>
+                      Pair {connectionLabels[option]}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          )}
+          <Button onClick={() => html && printHtml(html)} disabled={!html}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReceiptDialog;
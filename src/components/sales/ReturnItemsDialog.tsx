@@ -0,0 +1,263 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants, Enums } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { paymentMethodLabels } from "@/lib/payments";
+import { getDeviceTillId } from "@/lib/tills";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+export interface ReturnableItem {
+  id: string;
+  product_name: string;
+  quantity: number;
+  line_total: number;
+  returned: number;
+}
+
+interface ReturnItemsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sale: { id: string; receipt_number: string; customer_id: string | null };
+  items: ReturnableItem[];
+  defaultRefundMethod: Enums<"payment_method">;
+  // The tenders the sale was paid with
+  tenders: Enums<"payment_method">[];
+  onReturned: () => void;
+}
+
+const ReturnItemsDialog = ({
+  open,
+  onOpenChange,
+  sale,
+  items,
+  defaultRefundMethod,
+  tenders,
+  onReturned,
+}: ReturnItemsDialogProps) => {
+  const { settings, formatCurrency } = useStoreSettings();
+  // Money goes back the way it was paid; refunds go back as points only to the
+  // customer who earned them
+  const refundMethods = Constants.public.Enums.payment_method.filter((method) =>
+    method === "loyalty" ? !!sale.customer_id && settings.loyalty_enabled : tenders.includes(method)
+  );
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [restock, setRestock] = useState<Record<string, boolean>>({});
+  const [refundMethod, setRefundMethod] = useState<Enums<"payment_method">>(defaultRefundMethod);
+  const [reason, setReason] = useState("");
+  const [pin, setPin] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setQuantities({});
+      setRestock({});
+      setRefundMethod(defaultRefundMethod);
+      setReason("");
+      setPin("");
+    }
+  }, [open, defaultRefundMethod]);
+
+  // Mirrors the server: refunds are at the price actually paid for the line
+  const refundFor = (item: ReturnableItem, quantity: number) =>
+    Math.round((Number(item.line_total) * quantity * 100) / item.quantity) / 100;
+
+  const selected = items.filter((item) => (quantities[item.id] ?? 0) > 0);
+  const refundTotal = selected.reduce((sum, item) => sum + refundFor(item, quantities[item.id]), 0);
+
+  const setQuantity = (item: ReturnableItem, value: string) => {
+    const remaining = item.quantity - item.returned;
+    const quantity = Math.max(0, Math.min(remaining, Math.floor(Number(value) || 0)));
+    setQuantities({ ...quantities, [item.id]: quantity });
+  };
+
+  const handleReturn = async () => {
+    if (selected.length === 0) {
+      toast.error("Select at least one item to return");
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error("Enter a reason for the return");
+      return;
+    }
+    if (!pin) {
+      toast.error("A manager must enter their PIN");
+      return;
+    }
+
+    setSaving(true);
+    const { data: creditNote, error } = await supabase.rpc("create_return", {
+      _sale_id: sale.id,
+      _items: selected.map((item) => ({
+        sale_item_id: item.id,
+        quantity: quantities[item.id],
+        restock: restock[item.id] ?? true,
+      })),
+      _reason: reason.trim(),
+      _refund_method: refundMethod,
+      _manager_pin: pin,
+      _till_id: getDeviceTillId() ?? undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error creating return:", error);
+      toast.error(`Failed to process return: ${error.message}`);
+      setPin("");
+      return;
+    }
+
+    toast.success(
+      `Credit note ${creditNote.credit_note_number}: refund ${formatCurrency(Number(creditNote.total_amount))} by ${paymentMethodLabels[refundMethod]}`
+    );
+    onOpenChange(false);
+    onReturned();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Return Items</DialogTitle>
+          <DialogDescription>
+            Choose what is coming back from receipt {sale.receipt_number}. A credit note is issued for the refund.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead className="text-right">Sold</TableHead>
+              <TableHead className="text-right">Returned</TableHead>
+              <TableHead className="w-24">Return</TableHead>
+              <TableHead className="text-center">Restock</TableHead>
+              <TableHead className="text-right">Refund</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item) => {
+              const remaining = item.quantity - item.returned;
+              const quantity = quantities[item.id] ?? 0;
+              return (
+                <TableRow key={item.id} className={remaining === 0 ? "opacity-50" : undefined}>
+                  <TableCell className="font-medium">{item.product_name}</TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                  <TableCell className="text-right">{item.returned}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      max={remaining}
+                      step="1"
+                      className="h-8"
+                      value={quantity}
+                      disabled={remaining === 0}
+                      onChange={(e) => setQuantity(item, e.target.value)}
+                    />
+                  </TableCell>
+                  <TableCell className="text-center">
+                    <Checkbox
+                      checked={restock[item.id] ?? true}
+                      disabled={quantity === 0}
+                      onCheckedChange={(checked) => setRestock({ ...restock, [item.id]: checked === true })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {quantity > 0 ? formatCurrency(refundFor(item, quantity), true) : "—"}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+        <p className="text-xs text-muted-foreground">Untick restock for damaged goods that should not go back on the shelf.</p>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="return-reason">Reason</Label>
+            <Textarea
+              id="return-reason"
+              rows={2}
+              placeholder="e.g. Expired on purchase"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Refund by</Label>
+              <Select value={refundMethod} onValueChange={(value) => setRefundMethod(value as Enums<"payment_method">)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {refundMethods.map((method) => (
+                    <SelectItem key={method} value={method}>
+                      {paymentMethodLabels[method]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="return-pin">Manager PIN</Label>
+              <Input
+                id="return-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                maxLength={8}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="sm:justify-between items-center">
+          <p className="text-lg font-bold">Refund {formatCurrency(refundTotal, true)}</p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleReturn} disabled={saving || selected.length === 0}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Issue Credit Note
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReturnItemsDialog;
@@ -0,0 +1,398 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { paymentMethodLabels } from "@/lib/payments";
+import { etimsStatusLabels, submitToEtims } from "@/lib/etims";
+import { conflictLabels } from "@/lib/offlineSales";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import VoidSaleDialog from "./VoidSaleDialog";
+import ReturnItemsDialog from "./ReturnItemsDialog";
+import ReceiptDialog from "./ReceiptDialog";
+import { toast } from "sonner";
+import { Ban, Loader2, Printer, RefreshCw, Undo2 } from "lucide-react";
+
+type SaleWithDetails = Tables<"sales"> & {
+  cashier: { full_name: string } | null;
+  approver: { full_name: string } | null;
+  discount_approver: { full_name: string } | null;
+  customer: { id: string; name: string } | null;
+  shift: Pick<Tables<"till_shifts">, "shift_number" | "status"> | null;
+  sale_items: (Tables<"sale_items"> & { promotion: { name: string } | null })[];
+  payments: Tables<"payments">[];
+  credit_notes: (Tables<"credit_notes"> & { credit_note_items: Tables<"credit_note_items">[] })[];
+  etims_submissions: Tables<"etims_submissions"> | null;
+  sale_sync_conflicts: (Tables<"sale_sync_conflicts"> & {
+    product: { name: string } | null;
+    shift: { shift_number: number } | null;
+  })[];
+};
+
+const statusVariants: Record<string, "secondary" | "destructive" | "outline"> = {
+  completed: "secondary",
+  voided: "destructive",
+  pending: "outline",
+};
+
+const etimsVariants: Record<string, "secondary" | "destructive" | "outline"> = {
+  signed: "secondary",
+  failed: "destructive",
+  pending: "outline",
+  submitting: "outline",
+};
+
+interface SaleDetailProps {
+  saleId: string;
+  onChanged?: () => void;
+}
+
+const SaleDetail = ({ saleId, onChanged }: SaleDetailProps) => {
+  const { formatCurrency } = useStoreSettings();
+  const [sale, setSale] = useState<SaleWithDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [voidOpen, setVoidOpen] = useState(false);
+  const [returnOpen, setReturnOpen] = useState(false);
+  const [receiptOpen, setReceiptOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchSale = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from("sales")
+        .select(
+          "*, cashier:profiles!sales_cashier_id_fkey(full_name), approver:profiles!sales_void_approved_by_fkey(full_name), discount_approver:profiles!sales_discount_approved_by_fkey(full_name), customer:customers(id, name), shift:till_shifts(shift_number, status), sale_items(*, promotion:promotions(name)), payments(*), credit_notes(*, credit_note_items(*)), etims_submissions(*), sale_sync_conflicts(*, product:products(name), shift:till_shifts(shift_number))"
+        )
+        .eq("id", saleId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setSale(data);
+    } catch (error) {
+      console.error("Error fetching sale:", error);
+      toast.error("Failed to load sale");
+    } finally {
+      setLoading(false);
+    }
+  }, [saleId]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchSale();
+  }, [fetchSale]);
+
+  const handleChanged = () => {
+    fetchSale();
+    onChanged?.();
+  };
+
+  const handleEtimsSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const { results } = await submitToEtims({ sale_id: saleId });
+      const result = results.find((r) => r.sale_id === saleId);
+      if (result?.status === "signed") {
+        toast.success("Signed by eTIMS");
+      } else if (result) {
+        toast.error(`eTIMS rejected the sale: ${result.error}`);
+      }
+    } catch (error) {
+      console.error("eTIMS submission error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to submit to eTIMS");
+    } finally {
+      setSubmitting(false);
+      fetchSale();
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!sale) {
+    return <p className="text-center text-muted-foreground py-8">Sale not found.</p>;
+  }
+
+  const returnedBySaleItem = new Map<string, number>();
+  for (const note of sale.credit_notes) {
+    for (const item of note.credit_note_items) {
+      returnedBySaleItem.set(item.sale_item_id, (returnedBySaleItem.get(item.sale_item_id) ?? 0) + item.quantity);
+    }
+  }
+
+  const items = sale.sale_items.map((item) => ({ ...item, returned: returnedBySaleItem.get(item.id) ?? 0 }));
+  const isCompleted = sale.status === "completed";
+  // A closed shift's takings have been counted and reported
+  const canVoid = isCompleted && sale.credit_notes.length === 0 && sale.shift?.status !== "closed";
+  const canReturn = isCompleted && items.some((item) => item.returned < item.quantity);
+  const refunded = sale.credit_notes.reduce((sum, note) => sum + Number(note.total_amount), 0);
+  const defaultRefundMethod = sale.payments[0]?.payment_method ?? "cash";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1 text-sm">
+          <div className="flex items-center gap-2">
+            <span className="text-lg font-semibold">{sale.receipt_number}</span>
+            <Badge variant={statusVariants[sale.status ?? "completed"]} className="capitalize">
+              {sale.status}
+            </Badge>
+            {refunded > 0 && <Badge variant="outline">Partly returned</Badge>}
+            {sale.captured_offline_at && <Badge variant="outline">Captured offline</Badge>}
+            {sale.shift?.status === "closed" && <Badge variant="outline">Shift #{sale.shift.shift_number} closed</Badge>}
+          </div>
+          <p className="text-muted-foreground">
+            {new Date(sale.created_at).toLocaleString()} · {sale.cashier?.full_name ?? "Unknown cashier"}
+            {sale.customer && (
+              <>
+                {" · "}
+                <Link to={`/customers/${sale.customer.id}`} className="hover:underline">
+                  {sale.customer.name}
+                </Link>
+              </>
+            )}
+          </p>
+          {sale.provisional_receipt_number && (
+            <p className="text-muted-foreground">Provisional receipt {sale.provisional_receipt_number}</p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          {sale.status !== "pending" && (
+            <Button variant="outline" onClick={() => setReceiptOpen(true)}>
+              <Printer className="w-4 h-4 mr-2" />
+              Reprint
+            </Button>
+          )}
+          {canReturn && (
+            <Button variant="outline" onClick={() => setReturnOpen(true)}>
+              <Undo2 className="w-4 h-4 mr-2" />
+              Return Items
+            </Button>
+          )}
+          {canVoid && (
+            <Button variant="destructive" onClick={() => setVoidOpen(true)}>
+              <Ban className="w-4 h-4 mr-2" />
+              Void
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {sale.status === "voided" && (
+        <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-4 text-sm">
+          Voided {sale.voided_at && new Date(sale.voided_at).toLocaleString()}
+          {sale.approver && ` · approved by ${sale.approver.full_name}`}
+          {sale.void_reason && <p className="text-muted-foreground mt-1">{sale.void_reason}</p>}
+        </div>
+      )}
+
+      {sale.sale_sync_conflicts.length > 0 && (
+        <div className="rounded-lg border border-warning/50 bg-warning/10 p-4 text-sm space-y-1">
+          <p className="font-medium">Found when this offline sale synced</p>
+          {sale.sale_sync_conflicts.map((conflict) => (
+            <p key={conflict.id} className={conflict.resolved_at ? "text-muted-foreground line-through" : undefined}>
+              {conflictLabels[conflict.conflict_type]}
+              {conflict.product_id && `: ${conflict.product?.name ?? "Unknown product"}`}
+              {conflict.conflict_type === "shift_closed" &&
+                ` · rung up in shift #${conflict.shift?.shift_number ?? "?"}, not in its cash count`}
+              {conflict.conflict_type === "oversold" && ` · sold ${conflict.quantity}, ${conflict.available ?? 0} in stock`}
+              {conflict.conflict_type === "price_changed" &&
+                ` · charged ${formatCurrency(Number(conflict.charged_price), true)}, price ${formatCurrency(Number(conflict.expected_price), true)}`}
+              {conflict.conflict_type === "promotion_changed" &&
+                ` · charged ${formatCurrency(Number(conflict.charged_price), true)}, promotions give ${formatCurrency(Number(conflict.expected_price), true)}`}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Item</TableHead>
+            <TableHead className="text-right">Qty</TableHead>
+            <TableHead className="text-right">Price</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {items.map((item) => (
+            <TableRow key={item.id}>
+              <TableCell>
+                <p className="font-medium">{item.product_name}</p>
+                {Number(item.discount_amount) > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {item.promotion ? `${item.promotion.name} · ` : ""}
+                    {formatCurrency(Number(item.discount_amount), true)} off
+                  </p>
+                )}
+                {item.returned > 0 && <p className="text-xs text-muted-foreground">{item.returned} returned</p>}
+              </TableCell>
+              <TableCell className="text-right">{item.quantity}</TableCell>
+              <TableCell className="text-right">{formatCurrency(Number(item.unit_price), true)}</TableCell>
+              <TableCell className="text-right">{formatCurrency(Number(item.line_total), true)}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <div className="ml-auto max-w-xs space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Subtotal</span>
+          <span>{formatCurrency(Number(sale.subtotal), true)}</span>
+        </div>
+        {Number(sale.discount_amount) > 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">
+              Discounts{sale.discount_approver && ` (approved by ${sale.discount_approver.full_name})`}
+            </span>
+            <span>-{formatCurrency(Number(sale.discount_amount), true)}</span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">VAT (incl.)</span>
+          <span>{formatCurrency(Number(sale.vat_amount), true)}</span>
+        </div>
+        <div className="flex justify-between font-bold text-base">
+          <span>Total</span>
+          <span>{formatCurrency(Number(sale.total_amount), true)}</span>
+        </div>
+        {refunded > 0 && (
+          <div className="flex justify-between text-destructive">
+            <span>Refunded</span>
+            <span>-{formatCurrency(refunded, true)}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-semibold">Payments</h3>
+        {sale.payments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No payments recorded.</p>
+        ) : (
+          sale.payments.map((payment) => (
+            <div key={payment.id} className="flex items-center justify-between rounded-lg border p-3 text-sm">
+              <div>
+                <p className="font-medium">
+                  {paymentMethodLabels[payment.payment_method]}
+                  {payment.reversed_at && (
+                    <Badge variant="destructive" className="ml-2">
+                      Reversed
+                    </Badge>
+                  )}
+                </p>
+                {payment.reference_number && (
+                  <p className="text-xs text-muted-foreground">Ref {payment.reference_number}</p>
+                )}
+              </div>
+              <div className="text-right">
+                <p className="font-medium">{formatCurrency(Number(payment.amount), true)}</p>
+                {Number(payment.change_amount) > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    Change {formatCurrency(Number(payment.change_amount), true)}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {sale.etims_submissions && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="font-semibold">KRA eTIMS</h3>
+            <Badge variant={etimsVariants[sale.etims_submissions.status]}>
+              {etimsStatusLabels[sale.etims_submissions.status]}
+            </Badge>
+          </div>
+          {sale.etims_submissions.status === "signed" ? (
+            <div className="rounded-lg border p-3 text-sm space-y-1">
+              <p>
+                <span className="text-muted-foreground">CU invoice </span>
+                {sale.etims_cu_invoice_number}
+              </p>
+              <p className="break-all">
+                <span className="text-muted-foreground">Signature </span>
+                {sale.etims_signature}
+              </p>
+              {sale.etims_signed_at && (
+                <p className="text-xs text-muted-foreground">
+                  Signed {new Date(sale.etims_signed_at).toLocaleString()}
+                </p>
+              )}
+            </div>
+          ) : (
+            <div className="flex items-center justify-between gap-4 rounded-lg border p-3 text-sm">
+              <div className="text-muted-foreground">
+                <p>
+                  Invoice {sale.etims_submissions.invoice_number} · {sale.etims_submissions.attempts} attempt
+                  {sale.etims_submissions.attempts === 1 ? "" : "s"}
+                </p>
+                {sale.etims_submissions.last_error && (
+                  <p className="text-destructive">{sale.etims_submissions.last_error}</p>
+                )}
+              </div>
+              <Button variant="outline" size="sm" onClick={handleEtimsSubmit} disabled={submitting}>
+                {submitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+                Submit now
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {sale.credit_notes.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="font-semibold">Credit Notes</h3>
+          {sale.credit_notes.map((note) => (
+            <div key={note.id} className="rounded-lg border p-3 text-sm space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">{note.credit_note_number}</span>
+                <span className="font-medium text-destructive">-{formatCurrency(Number(note.total_amount), true)}</span>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {new Date(note.created_at).toLocaleString()} · refunded by {paymentMethodLabels[note.refund_method]} ·{" "}
+                {note.reason}
+              </p>
+              <ul className="text-xs text-muted-foreground">
+                {note.credit_note_items.map((item) => (
+                  <li key={item.id}>
+                    {item.quantity} × {item.product_name}
+                    {!item.restocked && " (not restocked)"}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <VoidSaleDialog open={voidOpen} onOpenChange={setVoidOpen} sale={sale} onVoided={handleChanged} />
+      <ReturnItemsDialog
+        open={returnOpen}
+        onOpenChange={setReturnOpen}
+        sale={sale}
+        items={items}
+        defaultRefundMethod={defaultRefundMethod}
+        tenders={sale.payments.filter((payment) => !payment.reversed_at).map((payment) => payment.payment_method)}
+        onReturned={handleChanged}
+      />
+      <ReceiptDialog saleId={receiptOpen ? sale.id : null} reprint onOpenChange={setReceiptOpen} />
+    </div>
+  );
+};
+
+export default SaleDetail;
@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+interface VoidSaleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sale: { id: string; receipt_number: string; total_amount: number };
+  onVoided: () => void;
+}
+
+const VoidSaleDialog = ({ open, onOpenChange, sale, onVoided }: VoidSaleDialogProps) => {
+  const { formatCurrency } = useStoreSettings();
+  const [reason, setReason] = useState("");
+  const [pin, setPin] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+      setPin("");
+    }
+  }, [open]);
+
+  const handleVoid = async () => {
+    if (!reason.trim()) {
+      toast.error("Enter a reason for the void");
+      return;
+    }
+    if (!pin) {
+      toast.error("A manager must enter their PIN");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("void_sale", {
+      _sale_id: sale.id,
+      _reason: reason.trim(),
+      _manager_pin: pin,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error voiding sale:", error);
+      toast.error(`Failed to void sale: ${error.message}`);
+      setPin("");
+      return;
+    }
+
+    toast.success(`Sale ${sale.receipt_number} voided`);
+    onOpenChange(false);
+    onVoided();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Void Sale {sale.receipt_number}</DialogTitle>
+          <DialogDescription>
+            All items go back into stock and the {formatCurrency(Number(sale.total_amount))} paid is reversed.
+            This cannot be undone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="void-reason">Reason</Label>
+            <Textarea
+              id="void-reason"
+              rows={2}
+              placeholder="e.g. Rung up twice"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="void-pin">Manager PIN</Label>
+            <Input
+              id="void-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={8}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+              onKeyDown={(e) => e.key === "Enter" && handleVoid()}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleVoid} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Void Sale
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VoidSaleDialog;
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { etimsStatusLabels, submitToEtims } from "@/lib/etims";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { Loader2, RefreshCw } from "lucide-react";
+
+type WaitingSubmission = Tables<"etims_submissions"> & { sale: { receipt_number: string } | null };
+
+const EtimsQueueCard = () => {
+  const { store } = useStoreSettings();
+  const [waiting, setWaiting] = useState<WaitingSubmission[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchQueue = useCallback(async () => {
+    if (!store) return;
+    const { data, error } = await supabase
+      .from("etims_submissions")
+      .select("*, sale:sales(receipt_number)")
+      .eq("store_id", store.id)
+      .neq("status", "signed")
+      .order("invoice_number")
+      .limit(50);
+
+    if (error) {
+      console.error("Error fetching eTIMS queue:", error);
+      toast.error("Failed to load the eTIMS queue");
+      return;
+    }
+    setWaiting(data);
+  }, [store]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const handleSubmitAll = async () => {
+    if (!store) return;
+    setSubmitting(true);
+    try {
+      const { results } = await submitToEtims({ store_id: store.id });
+      const failed = results.filter((r) => r.status === "failed").length;
+      if (failed > 0) {
+        toast.error(`${results.length - failed} signed, ${failed} still failing`);
+      } else {
+        toast.success(results.length ? `${results.length} sales signed` : "Nothing waiting");
+      }
+    } catch (error) {
+      console.error("eTIMS submission error:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to submit to eTIMS");
+    } finally {
+      setSubmitting(false);
+      fetchQueue();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>eTIMS queue</CardTitle>
+          <CardDescription>
+            Sales not yet signed by KRA. Failed submissions are retried automatically.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleSubmitAll} disabled={submitting || waiting.length === 0}>
+          {submitting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+          Submit now
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {waiting.length === 0 ? (
+          <p className="text-sm text-muted-foreground">All sales have been signed.</p>
+        ) : (
+          waiting.map((submission) => (
+            <div key={submission.id} className="flex items-center justify-between gap-4 rounded-lg border p-3 text-sm">
+              <div>
+                <Link to={`/sales/${submission.sale_id}`} className="font-medium hover:underline">
+                  {submission.sale?.receipt_number ?? submission.sale_id}
+                </Link>
+                {submission.last_error && <p className="text-xs text-destructive">{submission.last_error}</p>}
+              </div>
+              <div className="text-right">
+                <Badge variant={submission.status === "failed" ? "destructive" : "outline"}>
+                  {etimsStatusLabels[submission.status]}
+                </Badge>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {submission.attempts} attempt{submission.attempts === 1 ? "" : "s"}
+                </p>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default EtimsQueueCard;
@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+
+const LoyaltyTiersCard = () => {
+  const { store, formatCurrency } = useStoreSettings();
+  const [tiers, setTiers] = useState<Tables<"loyalty_tiers">[]>([]);
+  const [name, setName] = useState("");
+  const [minSpend, setMinSpend] = useState("");
+  const [multiplier, setMultiplier] = useState("1");
+  const [adding, setAdding] = useState(false);
+
+  const fetchTiers = useCallback(async () => {
+    if (!store) return;
+    const { data, error } = await supabase
+      .from("loyalty_tiers")
+      .select("*")
+      .eq("store_id", store.id)
+      .order("min_spend");
+    if (error) {
+      console.error("Error fetching loyalty tiers:", error);
+      toast.error("Failed to load loyalty tiers");
+      return;
+    }
+    setTiers(data);
+  }, [store]);
+
+  useEffect(() => {
+    fetchTiers();
+  }, [fetchTiers]);
+
+  const handleAdd = async () => {
+    if (!store) return;
+    const spend = Number(minSpend);
+    const earnMultiplier = Number(multiplier);
+    if (!name.trim()) {
+      toast.error("Enter a name for the tier");
+      return;
+    }
+    if (minSpend === "" || !(spend >= 0)) {
+      toast.error("Enter the total purchases needed to reach the tier");
+      return;
+    }
+    if (!(earnMultiplier > 0) || earnMultiplier >= 100) {
+      toast.error("The multiplier must be above 0 and below 100");
+      return;
+    }
+
+    setAdding(true);
+    const { error } = await supabase
+      .from("loyalty_tiers")
+      .insert({ store_id: store.id, name: name.trim(), min_spend: spend, earn_multiplier: earnMultiplier });
+    setAdding(false);
+
+    if (error) {
+      console.error("Error adding loyalty tier:", error);
+      toast.error(error.code === "23505" ? "A tier with this name or threshold already exists" : "Failed to add tier");
+      return;
+    }
+
+    toast.success(`${name.trim()} tier added`);
+    setName("");
+    setMinSpend("");
+    setMultiplier("1");
+    fetchTiers();
+  };
+
+  const deleteTier = async (tier: Tables<"loyalty_tiers">) => {
+    const { error } = await supabase.from("loyalty_tiers").delete().eq("id", tier.id);
+    if (error) {
+      console.error("Error deleting loyalty tier:", error);
+      toast.error("Failed to delete tier");
+      return;
+    }
+    fetchTiers();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Loyalty tiers</CardTitle>
+        <CardDescription>
+          Customers move up a tier once their total purchases reach its threshold, and earn points faster.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {tiers.length === 0 && (
+            <p className="text-sm text-muted-foreground">No tiers yet. Every customer earns at the standard rate.</p>
+          )}
+          {tiers.map((tier) => (
+            <div key={tier.id} className="flex items-center gap-3 rounded-lg border p-3 text-sm">
+              <span className="font-medium flex-1">{tier.name}</span>
+              <span className="text-muted-foreground">From {formatCurrency(Number(tier.min_spend))}</span>
+              <Badge variant="secondary">{Number(tier.earn_multiplier)}× points</Badge>
+              <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => deleteTier(tier)} title="Delete tier">
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-[1fr_8rem_6rem_auto] items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="tier-name">Name</Label>
+            <Input id="tier-name" placeholder="e.g. Gold" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tier-min-spend">Total purchases</Label>
+            <Input
+              id="tier-min-spend"
+              type="number"
+              min="0"
+              step="0.01"
+              value={minSpend}
+              onChange={(e) => setMinSpend(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tier-multiplier">Multiplier</Label>
+            <Input
+              id="tier-multiplier"
+              type="number"
+              min="0.01"
+              step="0.01"
+              value={multiplier}
+              onChange={(e) => setMultiplier(e.target.value)}
+            />
+          </div>
+          <Button variant="outline" onClick={handleAdd} disabled={adding || !name.trim()}>
+            {adding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Add Tier
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default LoyaltyTiersCard;
@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+const ManagerPinCard = () => {
+  const [hasPin, setHasPin] = useState<boolean | null>(null);
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchPinStatus = async () => {
+      const { data, error } = await supabase.rpc("has_manager_pin");
+      if (error) {
+        console.error("Error checking manager PIN:", error);
+        return;
+      }
+      setHasPin(data);
+    };
+
+    fetchPinStatus();
+  }, []);
+
+  const handleSave = async () => {
+    if (!/^\d{4,8}$/.test(pin)) {
+      toast.error("PIN must be 4 to 8 digits");
+      return;
+    }
+    if (pin !== confirmPin) {
+      toast.error("PINs do not match");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("set_manager_pin", { _pin: pin });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error setting manager PIN:", error);
+      toast.error(`Failed to set PIN: ${error.message}`);
+      return;
+    }
+
+    toast.success(hasPin ? "Approval PIN changed" : "Approval PIN set");
+    setHasPin(true);
+    setPin("");
+    setConfirmPin("");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <CardTitle>Approval PIN</CardTitle>
+          {hasPin !== null && (
+            <Badge variant={hasPin ? "secondary" : "outline"}>{hasPin ? "Set" : "Not set"}</Badge>
+          )}
+        </div>
+        <CardDescription>
+          Your personal PIN for approving voids and returns at the till. It is never shown to cashiers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="manager-pin">{hasPin ? "New PIN" : "PIN"}</Label>
+            <Input
+              id="manager-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              maxLength={8}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="manager-pin-confirm">Confirm PIN</Label>
+            <Input
+              id="manager-pin-confirm"
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              maxLength={8}
+              value={confirmPin}
+              onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ""))}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={handleSave} disabled={saving || !pin}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {hasPin ? "Change PIN" : "Set PIN"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ManagerPinCard;
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { Loader2, Plus } from "lucide-react";
+
+const TillsCard = () => {
+  const { store } = useStoreSettings();
+  const [tills, setTills] = useState<Tables<"tills">[]>([]);
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [adding, setAdding] = useState(false);
+
+  const fetchTills = useCallback(async () => {
+    if (!store) return;
+    const { data, error } = await supabase.from("tills").select("*").eq("store_id", store.id).order("code");
+    if (error) {
+      console.error("Error fetching tills:", error);
+      toast.error("Failed to load tills");
+      return;
+    }
+    setTills(data);
+  }, [store]);
+
+  useEffect(() => {
+    fetchTills();
+  }, [fetchTills]);
+
+  const handleAdd = async () => {
+    if (!store) return;
+    const tillCode = code.trim().toUpperCase();
+    if (!/^[A-Z0-9]{1,6}$/.test(tillCode)) {
+      toast.error("Till code must be up to 6 letters or digits");
+      return;
+    }
+    if (!name.trim()) {
+      toast.error("Enter a name for the till");
+      return;
+    }
+
+    setAdding(true);
+    const { error } = await supabase.from("tills").insert({ store_id: store.id, code: tillCode, name: name.trim() });
+    setAdding(false);
+
+    if (error) {
+      console.error("Error adding till:", error);
+      toast.error(error.code === "23505" ? `Till ${tillCode} already exists` : "Failed to add till");
+      return;
+    }
+
+    toast.success(`Till ${tillCode} added`);
+    setCode("");
+    setName("");
+    fetchTills();
+  };
+
+  const updateTill = async (till: Tables<"tills">, changes: Partial<Pick<Tables<"tills">, "name" | "active">>) => {
+    const { error } = await supabase.from("tills").update(changes).eq("id", till.id);
+    if (error) {
+      console.error("Error updating till:", error);
+      toast.error("Failed to update till");
+    }
+    fetchTills();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Tills</CardTitle>
+        <CardDescription>
+          Each checkout picks its till on the POS screen. The till code replaces {"{till}"} in receipt numbers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {tills.map((till) => (
+            <div key={till.id} className="flex items-center gap-3 rounded-lg border p-3">
+              <Badge variant="outline" className="font-mono">
+                {till.code}
+              </Badge>
+              <Input
+                defaultValue={till.name}
+                className="h-8"
+                onBlur={(e) => {
+                  const value = e.target.value.trim();
+                  if (value && value !== till.name) updateTill(till, { name: value });
+                }}
+              />
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`till-active-${till.id}`}
+                  checked={till.active}
+                  onCheckedChange={(active) => updateTill(till, { active })}
+                />
+                <Label htmlFor={`till-active-${till.id}`} className="text-sm text-muted-foreground">
+                  Active
+                </Label>
+              </div>
+            </div>
+          ))}
+        </div>
+        <div className="grid grid-cols-[6rem_1fr_auto] items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="till-code">Code</Label>
+            <Input id="till-code" maxLength={6} value={code} onChange={(e) => setCode(e.target.value.toUpperCase())} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="till-name">Name</Label>
+            <Input id="till-name" placeholder="e.g. Front counter" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={handleAdd} disabled={adding || !code.trim()}>
+            {adding ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+            Add Till
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TillsCard;
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Enums } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { cashMovementLabels } from "@/lib/shifts";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+type MovementType = Enums<"cash_movement_type">;
+
+const descriptions: Record<MovementType, string> = {
+  pay_in: "Cash put into the drawer that did not come from a sale, such as extra change.",
+  pay_out: "Cash taken from the drawer to pay for something, such as a delivery.",
+  drop: "Cash moved from the drawer to the safe to keep the drawer low.",
+};
+
+interface CashMovementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shiftId: string;
+  movementType: MovementType;
+  onRecorded: () => void;
+}
+
+const CashMovementDialog = ({ open, onOpenChange, shiftId, movementType, onRecorded }: CashMovementDialogProps) => {
+  const { formatCurrency } = useStoreSettings();
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setAmount("");
+      setReason("");
+    }
+  }, [open]);
+
+  const value = Math.round(Number(amount) * 100) / 100;
+  const needsReason = movementType !== "drop";
+
+  const handleSave = async () => {
+    if (!(value > 0)) {
+      toast.error("Enter an amount above 0");
+      return;
+    }
+    if (needsReason && !reason.trim()) {
+      toast.error(`Enter a reason for the ${cashMovementLabels[movementType].toLowerCase()}`);
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("record_cash_movement", {
+      _shift_id: shiftId,
+      _movement_type: movementType,
+      _amount: value,
+      _reason: reason.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error recording cash movement:", error);
+      toast.error(`Failed to record ${cashMovementLabels[movementType].toLowerCase()}: ${error.message}`);
+      return;
+    }
+
+    toast.success(`${cashMovementLabels[movementType]} of ${formatCurrency(value)} recorded`);
+    onOpenChange(false);
+    onRecorded();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{cashMovementLabels[movementType]}</DialogTitle>
+          <DialogDescription>{descriptions[movementType]}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="movement-amount">Amount</Label>
+            <Input
+              id="movement-amount"
+              type="number"
+              min="0"
+              step="0.01"
+              autoFocus
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="movement-reason">{needsReason ? "Reason" : "Note (optional)"}</Label>
+            <Textarea
+              id="movement-reason"
+              rows={2}
+              placeholder={movementType === "pay_out" ? "e.g. Bread delivery" : undefined}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Record
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CashMovementDialog;
@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { countDenominations, DenominationCounts, Shift } from "@/lib/shifts";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import DenominationCounter from "@/components/shifts/DenominationCounter";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+interface CloseShiftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shift: Shift;
+  onClosed: (shift: Shift) => void;
+}
+
+// The count is blind: what the drawer should hold is only shown on the Z report
+const CloseShiftDialog = ({ open, onOpenChange, shift, onClosed }: CloseShiftDialogProps) => {
+  const { formatCurrency } = useStoreSettings();
+  const { queuedCount } = useOfflineSync();
+  const [counts, setCounts] = useState<DenominationCounts>({});
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setCounts({});
+      setNotes("");
+    }
+  }, [open]);
+
+  const handleClose = async () => {
+    setSaving(true);
+    const { data: closed, error } = await supabase.rpc("close_shift", {
+      _shift_id: shift.id,
+      _denominations: counts,
+      _notes: notes.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error closing shift:", error);
+      toast.error(`Failed to close shift: ${error.message}`);
+      return;
+    }
+
+    toast.success(`Shift #${closed.shift_number} closed`);
+    onOpenChange(false);
+    onClosed(closed);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Close Shift #{shift.shift_number}</DialogTitle>
+          <DialogDescription>
+            Count everything in the drawer, including the float. Sales can no longer be voided once the shift is closed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {queuedCount > 0 && (
+          <p className="rounded-md border border-warning bg-warning/10 px-3 py-2 text-sm">
+            {queuedCount} offline sale{queuedCount === 1 ? " is" : "s are"} still waiting to sync and will not be on
+            this shift's report.
+          </p>
+        )}
+
+        <DenominationCounter idPrefix="count" counts={counts} onChange={setCounts} />
+
+        <div className="space-y-2">
+          <Label htmlFor="close-notes">Notes (optional)</Label>
+          <Textarea id="close-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleClose} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Close with {formatCurrency(countDenominations(counts))}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CloseShiftDialog;
@@ -0,0 +1,46 @@
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { countDenominations, DENOMINATIONS, DenominationCounts } from "@/lib/shifts";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface DenominationCounterProps {
+  idPrefix: string;
+  counts: DenominationCounts;
+  onChange: (counts: DenominationCounts) => void;
+}
+
+const DenominationCounter = ({ idPrefix, counts, onChange }: DenominationCounterProps) => {
+  const { formatCurrency } = useStoreSettings();
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-3">
+        {DENOMINATIONS.map((value) => (
+          <div key={value} className="space-y-1">
+            <Label htmlFor={`${idPrefix}-${value}`} className="text-xs text-muted-foreground">
+              {formatCurrency(value)}
+            </Label>
+            <Input
+              id={`${idPrefix}-${value}`}
+              type="number"
+              min="0"
+              step="1"
+              inputMode="numeric"
+              value={counts[value] ?? ""}
+              onChange={(e) => {
+                const count = Math.max(0, Math.floor(Number(e.target.value) || 0));
+                onChange({ ...counts, [value]: count });
+              }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between rounded-md bg-accent px-3 py-2 font-semibold">
+        <span>Total counted</span>
+        <span>{formatCurrency(countDenominations(counts))}</span>
+      </div>
+    </div>
+  );
+};
+
+export default DenominationCounter;
@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { countDenominations, DenominationCounts, Shift } from "@/lib/shifts";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import DenominationCounter from "@/components/shifts/DenominationCounter";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+interface OpenShiftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  tillId: string;
+  onOpened: (shift: Shift) => void;
+}
+
+const OpenShiftDialog = ({ open, onOpenChange, tillId, onOpened }: OpenShiftDialogProps) => {
+  const { formatCurrency } = useStoreSettings();
+  const [counts, setCounts] = useState<DenominationCounts>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setCounts({});
+  }, [open]);
+
+  const handleOpen = async () => {
+    setSaving(true);
+    const { data: shift, error } = await supabase.rpc("open_shift", {
+      _till_id: tillId,
+      _denominations: counts,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error opening shift:", error);
+      toast.error(`Failed to open shift: ${error.message}`);
+      return;
+    }
+
+    toast.success(`Shift opened with a float of ${formatCurrency(Number(shift.opening_float))}`);
+    onOpenChange(false);
+    onOpened(shift);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Open Shift</DialogTitle>
+          <DialogDescription>Count the float in the drawer before the first sale.</DialogDescription>
+        </DialogHeader>
+
+        <DenominationCounter idPrefix="float" counts={counts} onChange={setCounts} />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleOpen} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Open with {formatCurrency(countDenominations(counts))}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OpenShiftDialog;
@@ -0,0 +1,78 @@
+import { useState } from "react";
+import { Enums } from "@/integrations/supabase/types";
+import { cashMovementLabels, Shift } from "@/lib/shifts";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Button } from "@/components/ui/button";
+import CashMovementDialog from "@/components/shifts/CashMovementDialog";
+import CloseShiftDialog from "@/components/shifts/CloseShiftDialog";
+import { ChevronDown, Vault } from "lucide-react";
+
+interface ShiftMenuProps {
+  shift: Shift;
+  onChanged: () => void;
+  onShowReport: (shiftId: string) => void;
+}
+
+const ShiftMenu = ({ shift, onChanged, onShowReport }: ShiftMenuProps) => {
+  const [movementType, setMovementType] = useState<Enums<"cash_movement_type">>("pay_in");
+  const [movementOpen, setMovementOpen] = useState(false);
+  const [closeOpen, setCloseOpen] = useState(false);
+
+  const recordMovement = (type: Enums<"cash_movement_type">) => {
+    setMovementType(type);
+    setMovementOpen(true);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Vault className="w-4 h-4 mr-2" />
+            Shift #{shift.shift_number}
+            <ChevronDown className="w-3 h-3 ml-1" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem onClick={() => onShowReport(shift.id)}>X report</DropdownMenuItem>
+          <DropdownMenuSeparator />
+          {(["pay_in", "pay_out", "drop"] as const).map((type) => (
+            <DropdownMenuItem key={type} onClick={() => recordMovement(type)}>
+              {cashMovementLabels[type]}
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem className="text-destructive" onClick={() => setCloseOpen(true)}>
+            Close shift
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <CashMovementDialog
+        open={movementOpen}
+        onOpenChange={setMovementOpen}
+        shiftId={shift.id}
+        movementType={movementType}
+        onRecorded={onChanged}
+      />
+
+      <CloseShiftDialog
+        open={closeOpen}
+        onOpenChange={setCloseOpen}
+        shift={shift}
+        onClosed={(closed) => {
+          onShowReport(closed.id);
+          onChanged();
+        }}
+      />
+    </>
+  );
+};
+
+export default ShiftMenu;
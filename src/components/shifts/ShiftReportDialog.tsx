@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { PaperWidth, printHtml } from "@/lib/receipt";
+import { fetchShiftReport, renderShiftReportHtml, ShiftReportData, shiftReportKind } from "@/lib/shifts";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Printer } from "lucide-react";
+
+interface ShiftReportDialogProps {
+  shiftId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ShiftReportDialog = ({ shiftId, onOpenChange }: ShiftReportDialogProps) => {
+  const { store, settings } = useStoreSettings();
+  const [report, setReport] = useState<ShiftReportData | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const paperWidth = (settings.receipt_paper_width === 58 ? 58 : 80) as PaperWidth;
+
+  useEffect(() => {
+    setReport(null);
+    setLoadFailed(false);
+    if (!shiftId || !store) return;
+
+    fetchShiftReport(shiftId, store.name, settings.locale)
+      .then(setReport)
+      .catch((error) => {
+        console.error("Error loading shift report:", error);
+        setLoadFailed(true);
+      });
+  }, [shiftId, store, settings.locale]);
+
+  const html = report ? renderShiftReportHtml(report, paperWidth) : null;
+  const kind = report ? shiftReportKind(report.shift) : null;
+
+  return (
+    <Dialog open={!!shiftId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{kind ? `${kind} Report` : "Shift Report"}</DialogTitle>
+          <DialogDescription>
+            {kind === "Z"
+              ? "Closing report. The shift's sales are locked."
+              : "Mid-shift reading. Nothing is reset or closed."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {html ? (
+          <iframe title="Shift report preview" srcDoc={html} className="w-full h-[26rem] rounded-md border bg-white" />
+        ) : loadFailed ? (
+          <p className="text-center text-muted-foreground py-8">Failed to load report.</p>
+        ) : (
+          <div className="flex items-center justify-center h-[26rem]">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button onClick={() => html && printHtml(html)} disabled={!html}>
+            <Printer className="w-4 h-4 mr-2" />
+            Print
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShiftReportDialog;
@@ -0,0 +1,273 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Constants, Tables } from "@/integrations/supabase/types";
+import { AppRole } from "@/hooks/useAuth";
+import { invokeFunction } from "@/lib/functions";
+import { roleLabels } from "@/lib/roles";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+export interface StaffMember {
+  id: string;
+  full_name: string;
+  phone: string | null;
+  email: string | null;
+  store_id: string | null;
+  active: boolean;
+  roles: AppRole[];
+  last_sign_in_at: string | null;
+  pending_invite: boolean;
+}
+
+const roleDescriptions: Record<AppRole, string> = {
+  admin: "Full access to the store, including its staff",
+  manager: "Inventory, pricing, voids, reports and settings",
+  cashier: "Sell at the POS",
+};
+
+const NO_STORE = "none";
+
+const staffSchema = z.object({
+  email: z.string().trim().email({ message: "Enter a valid email address" }),
+  full_name: z.string().trim().min(2, { message: "Name must be at least 2 characters" }),
+  store_id: z.string().min(1, { message: "Choose a store" }),
+  roles: z.array(z.enum(Constants.public.Enums.app_role)).min(1, { message: "Grant at least one role" }),
+  active: z.boolean(),
+});
+
+// Name and email are fixed once the invite has been sent
+const editSchema = staffSchema.extend({ email: z.string(), full_name: z.string() });
+
+type StaffFormValues = z.infer<typeof staffSchema>;
+
+interface StaffFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  stores: Tables<"stores">[];
+  member: StaffMember | null;
+  isSelf: boolean;
+  onSaved: () => void;
+}
+
+const StaffFormDialog = ({ open, onOpenChange, stores, member, isSelf, onSaved }: StaffFormDialogProps) => {
+  const isEditing = !!member;
+  const form = useForm<StaffFormValues>({
+    resolver: zodResolver(isEditing ? editSchema : staffSchema),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(
+      member
+        ? {
+            email: member.email ?? "",
+            full_name: member.full_name,
+            store_id: member.store_id ?? NO_STORE,
+            roles: member.roles,
+            active: member.active,
+          }
+        : {
+            email: "",
+            full_name: "",
+            store_id: stores.length === 1 ? stores[0].id : "",
+            roles: ["cashier"],
+            active: true,
+          }
+    );
+  }, [open, member, stores, form]);
+
+  const onSubmit = async (values: StaffFormValues) => {
+    const storeId = values.store_id === NO_STORE ? null : values.store_id;
+
+    try {
+      if (isEditing) {
+        await invokeFunction("manage-staff", {
+          action: "update",
+          user_id: member.id,
+          store_id: storeId,
+          roles: values.roles,
+          active: values.active,
+        });
+        toast.success("Staff member updated");
+      } else {
+        await invokeFunction("manage-staff", {
+          action: "invite",
+          email: values.email,
+          full_name: values.full_name,
+          store_id: storeId,
+          roles: values.roles,
+        });
+        toast.success(`Invitation sent to ${values.email}`);
+      }
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      console.error("Error saving staff member:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save staff member");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? member.full_name : "Invite Staff"}</DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? "Change store assignment, roles or account status."
+              : "We'll email them a link to set a password and sign in."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="full_name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Full name</FormLabel>
+                    <FormControl>
+                      <Input disabled={isEditing} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" disabled={isEditing} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="store_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Store</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select store" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {isEditing && <SelectItem value={NO_STORE}>Not assigned</SelectItem>}
+                      {stores.map((store) => (
+                        <SelectItem key={store.id} value={store.id}>
+                          {store.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="roles"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Roles</FormLabel>
+                  <div className="space-y-2">
+                    {Constants.public.Enums.app_role.map((role) => (
+                      <label key={role} className="flex items-start gap-3 rounded-lg border p-3 cursor-pointer">
+                        <Checkbox
+                          checked={field.value?.includes(role)}
+                          disabled={isSelf && role === "admin"}
+                          onCheckedChange={(checked) =>
+                            field.onChange(
+                              checked ? [...(field.value ?? []), role] : field.value?.filter((r) => r !== role)
+                            )
+                          }
+                        />
+                        <div>
+                          <p className="font-medium leading-none">{roleLabels[role]}</p>
+                          <p className="text-xs text-muted-foreground mt-1">{roleDescriptions[role]}</p>
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {isEditing && (
+              <FormField
+                control={form.control}
+                name="active"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                    <div>
+                      <FormLabel>Active</FormLabel>
+                      <FormDescription>Deactivated staff cannot sign in</FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} disabled={isSelf} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {isEditing ? "Save Changes" : "Send Invite"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StaffFormDialog;
@@ -0,0 +1,112 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+const FULL_COUNT = "all";
+
+interface StartStocktakeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  categories: Pick<Tables<"categories">, "id" | "name">[];
+  onStarted: (stocktake: Tables<"stocktakes">) => void;
+}
+
+const StartStocktakeDialog = ({ open, onOpenChange, categories, onStarted }: StartStocktakeDialogProps) => {
+  const [categoryId, setCategoryId] = useState(FULL_COUNT);
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setCategoryId(FULL_COUNT);
+    setNotes("");
+  }, [open]);
+
+  const handleStart = async () => {
+    setSaving(true);
+    const { data: stocktake, error } = await supabase.rpc("start_stocktake", {
+      _category_id: categoryId === FULL_COUNT ? undefined : categoryId,
+      _notes: notes.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error starting stocktake:", error);
+      toast.error(`Failed to start stocktake: ${error.message}`);
+      return;
+    }
+
+    toast.success(`${stocktake.stocktake_number} started`);
+    onOpenChange(false);
+    onStarted(stocktake);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>New Stocktake</DialogTitle>
+          <DialogDescription>
+            Current stock levels are recorded now as the expected quantities. Stock only changes once the count is
+            approved.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>What to count</Label>
+            <Select value={categoryId} onValueChange={setCategoryId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={FULL_COUNT}>Every product</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="stocktake-notes">Notes</Label>
+            <Textarea
+              id="stocktake-notes"
+              rows={2}
+              placeholder="e.g. Month-end count"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleStart} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Start Stocktake
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StartStocktakeDialog;
@@ -0,0 +1,125 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+const storeSchema = z.object({
+  name: z.string().trim().min(2, { message: "Name must be at least 2 characters" }),
+  location: z.string().trim().optional(),
+  phone: z.string().trim().optional(),
+  email: z.union([z.literal(""), z.string().trim().email({ message: "Enter a valid email address" })]),
+});
+
+type StoreFormValues = z.infer<typeof storeSchema>;
+
+const emptyValues: StoreFormValues = {
+  name: "",
+  location: "",
+  phone: "",
+  email: "",
+};
+
+interface StoreFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (store: Tables<"stores">) => void;
+}
+
+const StoreFormDialog = ({ open, onOpenChange, onSaved }: StoreFormDialogProps) => {
+  const form = useForm<StoreFormValues>({
+    resolver: zodResolver(storeSchema),
+    defaultValues: emptyValues,
+  });
+
+  useEffect(() => {
+    if (open) form.reset(emptyValues);
+  }, [open, form]);
+
+  const onSubmit = async (values: StoreFormValues) => {
+    // create_store also makes the current admin an admin of the new store
+    const { data, error } = await supabase.rpc("create_store", {
+      _name: values.name,
+      _location: values.location || undefined,
+      _phone: values.phone || undefined,
+      _email: values.email || undefined,
+    });
+
+    if (error) {
+      console.error("Error creating store:", error);
+      toast.error("Failed to create store");
+      return;
+    }
+
+    toast.success(`${data.name} added`);
+    onOpenChange(false);
+    onSaved(data);
+  };
+
+  const textField = (name: keyof StoreFormValues, label: string, type = "text") => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input type={type} {...field} />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Store</DialogTitle>
+          <DialogDescription>
+            The store starts with default settings and one till. Switch to it to set it up and list products from the
+            catalogue.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {textField("name", "Name")}
+            {textField("location", "Location")}
+            <div className="grid grid-cols-2 gap-4">
+              {textField("phone", "Phone", "tel")}
+              {textField("email", "Email", "email")}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Add Store
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StoreFormDialog;
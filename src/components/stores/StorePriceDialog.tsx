@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+// A catalogue item in one store, listed there or not yet
+export interface StorePriceTarget {
+  catalogue_item_id: string;
+  item_name: string;
+  store_id: string;
+  store_name: string;
+  selling_price: number | null;
+}
+
+interface StorePriceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  target: StorePriceTarget | null;
+  onSaved: () => void;
+}
+
+const StorePriceDialog = ({ open, onOpenChange, target, onSaved }: StorePriceDialogProps) => {
+  const [price, setPrice] = useState("");
+  const [saving, setSaving] = useState(false);
+  const listed = target?.selling_price !== null;
+
+  useEffect(() => {
+    if (open) setPrice(target?.selling_price?.toString() ?? "");
+  }, [open, target]);
+
+  const handleSave = async () => {
+    if (!target) return;
+    const value = Number(price);
+    if (price.trim() === "" || !Number.isFinite(value) || value < 0) {
+      toast.error("Enter a price of zero or more");
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await supabase.rpc("set_catalogue_store_price", {
+      _catalogue_item_id: target.catalogue_item_id,
+      _store_id: target.store_id,
+      _selling_price: value,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error setting store price:", error);
+      toast.error(`Failed to set price: ${error.message}`);
+      return;
+    }
+
+    toast.success(listed ? "Price updated" : `${target.item_name} listed at ${target.store_name}`);
+    onOpenChange(false);
+    onSaved();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{listed ? "Set Price" : "List in Store"}</DialogTitle>
+          <DialogDescription>
+            {target?.item_name} at {target?.store_name}.
+            {!listed && " It starts with no stock; send some with a transfer or receive it on a purchase order."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="store-price">Selling price</Label>
+          <Input
+            id="store-price"
+            type="number"
+            min="0"
+            step="0.01"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            autoFocus
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {listed ? "Save Price" : "List Item"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StorePriceDialog;
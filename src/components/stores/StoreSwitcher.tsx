@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { fetchAdminStores, StoreOption } from "@/lib/stores";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+
+// Lets admins move between the stores they are an admin of; every page then
+// shows the chosen store
+const StoreSwitcher = () => {
+  const { user } = useAuth();
+  const { store, switchStore } = useStoreSettings();
+  const [stores, setStores] = useState<StoreOption[]>([]);
+  const [switching, setSwitching] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchAdminStores(user.id)
+      .then(setStores)
+      .catch((error) => console.error("Error fetching stores:", error));
+  }, [user, store?.id]);
+
+  const handleSwitch = async (storeId: string) => {
+    setSwitching(true);
+    try {
+      await switchStore(storeId);
+      toast.success(`Switched to ${stores.find((s) => s.id === storeId)?.name}`);
+    } catch (error) {
+      console.error("Error switching store:", error);
+      toast.error("Failed to switch store");
+    } finally {
+      setSwitching(false);
+    }
+  };
+
+  if (stores.length < 2) return null;
+
+  return (
+    <Select value={store?.id} onValueChange={handleSwitch} disabled={switching}>
+      <SelectTrigger className="h-8 mt-3">
+        <SelectValue placeholder="Choose a store" />
+      </SelectTrigger>
+      <SelectContent>
+        {stores.map((s) => (
+          <SelectItem key={s.id} value={s.id}>
+            {s.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default StoreSwitcher;
@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface ArrivingItem {
+  id: string;
+  product_name: string;
+  quantity: number;
+}
+
+interface ReceiveTransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  transfer: { id: string; transfer_number: string };
+  items: ArrivingItem[];
+  onReceived: () => void;
+}
+
+const ReceiveTransferDialog = ({ open, onOpenChange, transfer, items, onReceived }: ReceiveTransferDialogProps) => {
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [saving, setSaving] = useState(false);
+
+  // Start from everything that was sent
+  useEffect(() => {
+    if (!open) return;
+    setQuantities(Object.fromEntries(items.map((item) => [item.id, item.quantity])));
+  }, [open, items]);
+
+  const shortfall = items.reduce((sum, item) => sum + item.quantity - (quantities[item.id] ?? item.quantity), 0);
+
+  const setQuantity = (item: ArrivingItem, value: string) => {
+    const quantity = Math.max(0, Math.min(item.quantity, Math.floor(Number(value) || 0)));
+    setQuantities({ ...quantities, [item.id]: quantity });
+  };
+
+  const handleReceive = async () => {
+    setSaving(true);
+    const { error } = await supabase.rpc("receive_stock_transfer", {
+      _stock_transfer_id: transfer.id,
+      _items: items.map((item) => ({
+        stock_transfer_item_id: item.id,
+        quantity: quantities[item.id] ?? item.quantity,
+      })),
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error receiving stock transfer:", error);
+      toast.error(`Failed to receive transfer: ${error.message}`);
+      return;
+    }
+
+    toast.success(`${transfer.transfer_number} received, stock updated`);
+    onOpenChange(false);
+    onReceived();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Receive Transfer</DialogTitle>
+          <DialogDescription>
+            Confirm what arrived on {transfer.transfer_number}. Anything short is written off, it does not go back to
+            the sending store.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Product</TableHead>
+              <TableHead className="text-right">Sent</TableHead>
+              <TableHead className="w-28">Arrived</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item) => (
+              <TableRow key={item.id}>
+                <TableCell className="font-medium">{item.product_name}</TableCell>
+                <TableCell className="text-right">{item.quantity}</TableCell>
+                <TableCell>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={item.quantity}
+                    step="1"
+                    className={cn("h-8", (quantities[item.id] ?? item.quantity) < item.quantity && "text-warning")}
+                    value={quantities[item.id] ?? item.quantity}
+                    onChange={(e) => setQuantity(item, e.target.value)}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <DialogFooter className="sm:justify-between items-center">
+          <p className={cn("text-sm", shortfall > 0 ? "text-warning" : "text-muted-foreground")}>
+            {shortfall > 0 ? `${shortfall} unit${shortfall === 1 ? "" : "s"} short` : "Everything arrived"}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleReceive} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirm Receipt
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReceiveTransferDialog;
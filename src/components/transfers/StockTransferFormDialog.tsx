@@ -0,0 +1,262 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { StockTransferLineInput } from "@/lib/transfers";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { Loader2, Search, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export type TransferableProduct = Pick<Tables<"products">, "id" | "name" | "sku" | "stock_quantity">;
+
+interface StockTransferFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The other stores stock can be sent to
+  stores: Pick<Tables<"stores">, "id" | "name">[];
+  products: TransferableProduct[];
+  // A draft being edited, with its current lines
+  transfer: (Tables<"stock_transfers"> & { items: StockTransferLineInput[] }) | null;
+  onSaved: (transfer: Tables<"stock_transfers">) => void;
+}
+
+const StockTransferFormDialog = ({
+  open,
+  onOpenChange,
+  stores,
+  products,
+  transfer,
+  onSaved,
+}: StockTransferFormDialogProps) => {
+  const [toStoreId, setToStoreId] = useState("");
+  const [lines, setLines] = useState<StockTransferLineInput[]>([]);
+  const [notes, setNotes] = useState("");
+  const [productSearch, setProductSearch] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setToStoreId(transfer?.to_store_id ?? "");
+    setLines(transfer?.items ?? []);
+    setNotes(transfer?.notes ?? "");
+    setProductSearch("");
+  }, [open, transfer]);
+
+  const productById = new Map(products.map((product) => [product.id, product]));
+  const term = productSearch.trim().toLowerCase();
+  const matches = term
+    ? products
+        .filter(
+          (product) =>
+            !lines.some((line) => line.product_id === product.id) &&
+            (product.name.toLowerCase().includes(term) || product.sku?.toLowerCase().includes(term))
+        )
+        .slice(0, 8)
+    : [];
+  const units = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+  const addLine = (product: TransferableProduct) => {
+    setLines([...lines, { product_id: product.id, quantity: 1 }]);
+    setProductSearch("");
+  };
+
+  const updateQuantity = (productId: string, quantity: number) => {
+    setLines(lines.map((line) => (line.product_id === productId ? { ...line, quantity } : line)));
+  };
+
+  const handleSave = async () => {
+    if (!toStoreId) {
+      toast.error("Choose the store to send to");
+      return;
+    }
+    if (lines.length === 0) {
+      toast.error("Add at least one product to the transfer");
+      return;
+    }
+    if (lines.some((line) => line.quantity <= 0)) {
+      toast.error("Quantities must be above zero");
+      return;
+    }
+
+    setSaving(true);
+    const { data, error } = await supabase.rpc("save_stock_transfer", {
+      _to_store_id: toStoreId,
+      _items: lines,
+      _stock_transfer_id: transfer?.id,
+      _notes: notes.trim() || undefined,
+    });
+    setSaving(false);
+
+    if (error) {
+      console.error("Error saving stock transfer:", error);
+      toast.error(`Failed to save transfer: ${error.message}`);
+      return;
+    }
+
+    toast.success(transfer ? `${data.transfer_number} updated` : `${data.transfer_number} saved as a draft`);
+    onOpenChange(false);
+    onSaved(data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{transfer ? `Edit ${transfer.transfer_number}` : "New Transfer"}</DialogTitle>
+          <DialogDescription>
+            Stock leaves this store when the transfer is dispatched, and arrives when the other store confirms receipt.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Send to</Label>
+          <Select value={toStoreId} onValueChange={setToStoreId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select store" />
+            </SelectTrigger>
+            <SelectContent>
+              {stores.map((store) => (
+                <SelectItem key={store.id} value={store.id}>
+                  {store.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Products</Label>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+            <Input
+              placeholder="Search products to add..."
+              value={productSearch}
+              onChange={(e) => setProductSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+          {matches.length > 0 && (
+            <div className="border rounded-md divide-y">
+              {matches.map((product) => (
+                <button
+                  key={product.id}
+                  type="button"
+                  className="w-full flex items-center justify-between px-3 py-2 text-sm text-left hover:bg-muted"
+                  onClick={() => addLine(product)}
+                >
+                  <span>
+                    {product.name}
+                    {product.sku && <span className="text-muted-foreground ml-2">{product.sku}</span>}
+                  </span>
+                  <span className="text-muted-foreground">{product.stock_quantity} in stock</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {lines.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">In stock</TableHead>
+                <TableHead className="w-24">Send</TableHead>
+                <TableHead className="w-10"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line) => {
+                const product = productById.get(line.product_id);
+                return (
+                  <TableRow key={line.product_id}>
+                    <TableCell className="font-medium">{product?.name ?? "Product"}</TableCell>
+                    <TableCell
+                      className={cn(
+                        "text-right",
+                        product && line.quantity > product.stock_quantity && "text-destructive"
+                      )}
+                    >
+                      {product?.stock_quantity}
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="1"
+                        step="1"
+                        className="h-8"
+                        value={line.quantity}
+                        onChange={(e) =>
+                          updateQuantity(line.product_id, Math.max(0, Math.floor(Number(e.target.value) || 0)))
+                        }
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        title="Remove"
+                        onClick={() => setLines(lines.filter((l) => l.product_id !== line.product_id))}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="transfer-notes">Notes</Label>
+          <Textarea id="transfer-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+        </div>
+
+        <DialogFooter className="sm:justify-between items-center">
+          <p className="text-lg font-bold">
+            {units} unit{units === 1 ? "" : "s"}
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {transfer ? "Save Changes" : "Save Draft"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StockTransferFormDialog;
@@ -1,19 +1,28 @@
-import { useState, useEffect, createContext, useContext, ReactNode } from "react";
+import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from "react";
 import { User, Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { Enums } from "@/integrations/supabase/types";
 import { useNavigate } from "react-router-dom";
 
+export type AppRole = Enums<"app_role">;
+
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  roles: AppRole[];
   loading: boolean;
+  hasRole: (...roles: AppRole[]) => boolean;
+  refreshRoles: () => Promise<void>;
   signOut: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
   session: null,
+  roles: [],
   loading: true,
+  hasRole: () => false,
+  refreshRoles: async () => {},
   signOut: async () => {},
 });
 
@@ -28,7 +37,10 @@ export const useAuth = () => {
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [sessionLoading, setSessionLoading] = useState(true);
+  // The user the current roles were loaded for
+  const [rolesUserId, setRolesUserId] = useState<string | null>(null);
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -37,7 +49,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       (event, session) => {
         setSession(session);
         setUser(session?.user ?? null);
-        setLoading(false);
+        setSessionLoading(false);
       }
     );
 
@@ -45,19 +57,65 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
-      setLoading(false);
+      setSessionLoading(false);
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
+  // Roles are loaded outside onAuthStateChange: awaiting Supabase calls inside
+  // the listener can deadlock the auth client
+  const userId = user?.id;
+  // Only the roles held in the store the user is working in apply
+  const fetchRoles = useCallback(async (id: string) => {
+    const [{ data: profile, error: profileError }, { data, error }] = await Promise.all([
+      supabase.from("profiles").select("store_id").eq("id", id).maybeSingle(),
+      supabase.from("user_roles").select("role, store_id").eq("user_id", id),
+    ]);
+    if (profileError) console.error("Error fetching profile:", profileError);
+    if (error) console.error("Error fetching roles:", error);
+    return data?.filter((r) => r.store_id === profile?.store_id).map((r) => r.role) ?? [];
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      setRoles([]);
+      setRolesUserId(null);
+      return;
+    }
+
+    let cancelled = false;
+    fetchRoles(userId).then((loaded) => {
+      if (cancelled) return;
+      setRoles(loaded);
+      setRolesUserId(userId);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, fetchRoles]);
+
+  const refreshRoles = useCallback(async () => {
+    if (userId) setRoles(await fetchRoles(userId));
+  }, [userId, fetchRoles]);
+
+  const loading = sessionLoading || (!!userId && rolesUserId !== userId);
+
+  // Admins can do everything a manager or cashier can
+  const hasRole = useCallback(
+    (...required: AppRole[]) =>
+      roles.includes("admin") || required.some((role) => roles.includes(role)),
+    [roles]
+  );
+
   const signOut = async () => {
     await supabase.auth.signOut();
     navigate("/auth");
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, loading, signOut }}>
+    <AuthContext.Provider value={{ user, session, roles, loading, hasRole, refreshRoles, signOut }}>
       {children}
     </AuthContext.Provider>
   );
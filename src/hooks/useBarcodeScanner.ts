@@ -0,0 +1,53 @@
+import { useEffect, useRef } from "react";
+
+// Keyboard-wedge scanners "type" a code far faster than a person and finish
+// with Enter. Keystrokes closer together than MAX_KEY_GAP_MS are collected;
+// a burst of at least MIN_LENGTH characters ending in Enter counts as a scan.
+const MAX_KEY_GAP_MS = 50;
+const MIN_LENGTH = 4;
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+interface BarcodeScannerOptions {
+  enabled: boolean;
+  onScan: (code: string) => void;
+  // Inputs that scans may pass through, such as the product search box.
+  // Scans are ignored while any other field has focus.
+  allowIn?: React.RefObject<HTMLElement>;
+}
+
+export const useBarcodeScanner = ({ enabled, onScan, allowIn }: BarcodeScannerOptions) => {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isEditable(event.target) && event.target !== allowIn?.current) return;
+      if (event.ctrlKey || event.altKey || event.metaKey) return;
+
+      const now = performance.now();
+      if (now - lastKeyAt > MAX_KEY_GAP_MS) buffer = "";
+      lastKeyAt = now;
+
+      if (event.key === "Enter") {
+        if (buffer.length >= MIN_LENGTH) {
+          event.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = "";
+      } else if (event.key.length === 1) {
+        buffer += event.key;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [enabled, allowIn]);
+};
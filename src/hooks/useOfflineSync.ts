@@ -0,0 +1,23 @@
+import { createContext, useContext } from "react";
+
+export interface OfflineSyncContextType {
+  online: boolean;
+  queuedCount: number;
+  rejectedCount: number;
+  syncing: boolean;
+  // Re-reads the queue after the POS adds or discards a sale
+  refreshQueue: () => Promise<void>;
+  syncNow: () => Promise<void>;
+}
+
+// Provided by OfflineSyncProvider
+export const OfflineSyncContext = createContext<OfflineSyncContextType>({
+  online: true,
+  queuedCount: 0,
+  rejectedCount: 0,
+  syncing: false,
+  refreshQueue: async () => {},
+  syncNow: async () => {},
+});
+
+export const useOfflineSync = () => useContext(OfflineSyncContext);
@@ -0,0 +1,59 @@
+import { createContext, useContext } from "react";
+import { Tables } from "@/integrations/supabase/types";
+import { DEFAULT_MONEY_FORMAT, formatMoney } from "@/lib/format";
+
+export type StoreSettings = Tables<"store_settings">;
+export type Store = Tables<"stores">;
+
+// Used until the store's own settings have loaded, and for users without a store
+export const DEFAULT_STORE_SETTINGS: Omit<StoreSettings, "store_id" | "created_at" | "updated_at"> = {
+  currency: DEFAULT_MONEY_FORMAT.currency,
+  locale: DEFAULT_MONEY_FORMAT.locale,
+  timezone: "Africa/Nairobi",
+  default_vat_rate: 16,
+  kra_pin: null,
+  receipt_header: null,
+  receipt_footer: "Thank you for shopping with us!",
+  receipt_prefix: "RCP",
+  receipt_number_format: "{store}-{till}-{seq}",
+  credit_note_number_format: "CN-{store}-{till}-{seq}",
+  store_code: "STORE",
+  document_number_digits: 6,
+  receipt_paper_width: 80,
+  receipt_logo_url: null,
+  default_reorder_level: 10,
+  reorder_sales_days: 30,
+  reorder_cover_days: 14,
+  etims_enabled: false,
+  etims_branch_id: "00",
+  etims_device_serial: null,
+  enabled_payment_methods: ["mpesa", "cash", "card"],
+  loyalty_enabled: false,
+  loyalty_spend_per_point: 100,
+  loyalty_point_value: 1,
+  loyalty_min_redemption: 0,
+  loyalty_expiry_months: null,
+  discount_approval_percent: 10,
+};
+
+export interface StoreSettingsContextType {
+  store: Store | null;
+  settings: typeof DEFAULT_STORE_SETTINGS & Partial<StoreSettings>;
+  loading: boolean;
+  refresh: () => Promise<void>;
+  // Admins move between stores by changing the store on their own profile
+  switchStore: (storeId: string) => Promise<void>;
+  formatCurrency: (amount: number, fixedDecimals?: boolean) => string;
+}
+
+// Provided by StoreSettingsProvider
+export const StoreSettingsContext = createContext<StoreSettingsContextType>({
+  store: null,
+  settings: DEFAULT_STORE_SETTINGS,
+  loading: true,
+  refresh: async () => {},
+  switchStore: async () => {},
+  formatCurrency: (amount, fixedDecimals) => formatMoney(amount, DEFAULT_MONEY_FORMAT, fixedDecimals),
+});
+
+export const useStoreSettings = () => useContext(StoreSettingsContext);
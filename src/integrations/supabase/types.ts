@@ -14,217 +14,116 @@ export type Database = {
   }
   public: {
     Tables: {
-      categories: {
+      cash_movements: {
         Row: {
+          amount: number
           created_at: string
-          description: string | null
+          created_by: string
           id: string
-          name: string
-          store_id: string | null
+          movement_type: Database["public"]["Enums"]["cash_movement_type"]
+          reason: string | null
+          shift_id: string
+          store_id: string
         }
         Insert: {
+          amount: number
           created_at?: string
-          description?: string | null
+          created_by: string
           id?: string
-          name: string
-          store_id?: string | null
+          movement_type: Database["public"]["Enums"]["cash_movement_type"]
+          reason?: string | null
+          shift_id: string
+          store_id: string
         }
         Update: {
+          amount?: number
           created_at?: string
-          description?: string | null
+          created_by?: string
           id?: string
-          name?: string
-          store_id?: string | null
+          movement_type?: Database["public"]["Enums"]["cash_movement_type"]
+          reason?: string | null
+          shift_id?: string
+          store_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "categories_store_id_fkey"
-            columns: ["store_id"]
+            foreignKeyName: "cash_movements_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "stores"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
-        ]
-      }
-      customers: {
-        Row: {
-          address: string | null
-          created_at: string
-          email: string | null
-          id: string
-          name: string
-          phone: string
-          store_id: string | null
-          total_purchases: number | null
-          updated_at: string
-        }
-        Insert: {
-          address?: string | null
-          created_at?: string
-          email?: string | null
-          id?: string
-          name: string
-          phone: string
-          store_id?: string | null
-          total_purchases?: number | null
-          updated_at?: string
-        }
-        Update: {
-          address?: string | null
-          created_at?: string
-          email?: string | null
-          id?: string
-          name?: string
-          phone?: string
-          store_id?: string | null
-          total_purchases?: number | null
-          updated_at?: string
-        }
-        Relationships: [
           {
-            foreignKeyName: "customers_store_id_fkey"
-            columns: ["store_id"]
+            foreignKeyName: "cash_movements_shift_id_fkey"
+            columns: ["shift_id"]
             isOneToOne: false
-            referencedRelation: "stores"
+            referencedRelation: "till_shifts"
             referencedColumns: ["id"]
           },
-        ]
-      }
-      payments: {
-        Row: {
-          amount: number
-          created_at: string
-          id: string
-          payment_method: Database["public"]["Enums"]["payment_method"]
-          reference_number: string | null
-          sale_id: string
-        }
-        Insert: {
-          amount: number
-          created_at?: string
-          id?: string
-          payment_method: Database["public"]["Enums"]["payment_method"]
-          reference_number?: string | null
-          sale_id: string
-        }
-        Update: {
-          amount?: number
-          created_at?: string
-          id?: string
-          payment_method?: Database["public"]["Enums"]["payment_method"]
-          reference_number?: string | null
-          sale_id?: string
-        }
-        Relationships: [
           {
-            foreignKeyName: "payments_sale_id_fkey"
-            columns: ["sale_id"]
+            foreignKeyName: "cash_movements_store_id_fkey"
+            columns: ["store_id"]
             isOneToOne: false
-            referencedRelation: "sales"
+            referencedRelation: "stores"
             referencedColumns: ["id"]
           },
         ]
       }
-      products: {
+      catalogue_items: {
         Row: {
-          active: boolean | null
           barcode: string | null
-          category_id: string | null
-          cost_price: number
           created_at: string
           description: string | null
           id: string
           name: string
-          reorder_level: number | null
-          selling_price: number
           sku: string | null
-          stock_quantity: number
-          store_id: string
           updated_at: string
-          vat_rate: number | null
         }
         Insert: {
-          active?: boolean | null
           barcode?: string | null
-          category_id?: string | null
-          cost_price?: number
           created_at?: string
           description?: string | null
           id?: string
           name: string
-          reorder_level?: number | null
-          selling_price: number
           sku?: string | null
-          stock_quantity?: number
-          store_id: string
           updated_at?: string
-          vat_rate?: number | null
         }
         Update: {
-          active?: boolean | null
           barcode?: string | null
-          category_id?: string | null
-          cost_price?: number
           created_at?: string
           description?: string | null
           id?: string
           name?: string
-          reorder_level?: number | null
-          selling_price?: number
           sku?: string | null
-          stock_quantity?: number
-          store_id?: string
           updated_at?: string
-          vat_rate?: number | null
         }
-        Relationships: [
-          {
-            foreignKeyName: "products_category_id_fkey"
-            columns: ["category_id"]
-            isOneToOne: false
-            referencedRelation: "categories"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "products_store_id_fkey"
-            columns: ["store_id"]
-            isOneToOne: false
-            referencedRelation: "stores"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
-      profiles: {
+      categories: {
         Row: {
-          active: boolean | null
           created_at: string
-          full_name: string
+          description: string | null
           id: string
-          phone: string | null
+          name: string
           store_id: string | null
-          updated_at: string
         }
         Insert: {
-          active?: boolean | null
           created_at?: string
-          full_name: string
-          id: string
-          phone?: string | null
+          description?: string | null
+          id?: string
+          name: string
           store_id?: string | null
-          updated_at?: string
         }
         Update: {
-          active?: boolean | null
           created_at?: string
-          full_name?: string
+          description?: string | null
           id?: string
-          phone?: string | null
+          name?: string
           store_id?: string | null
-          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "profiles_store_id_fkey"
+            foreignKeyName: "categories_store_id_fkey"
             columns: ["store_id"]
             isOneToOne: false
             referencedRelation: "stores"
@@ -232,180 +131,2591 @@ export type Database = {
           },
         ]
       }
-      sale_items: {
+      credit_note_items: {
         Row: {
           created_at: string
+          credit_note_id: string
           id: string
           line_total: number
           product_id: string
           product_name: string
           quantity: number
-          sale_id: string
+          restocked: boolean
+          sale_item_id: string
           unit_price: number
           vat_rate: number
         }
         Insert: {
           created_at?: string
+          credit_note_id: string
           id?: string
           line_total: number
           product_id: string
           product_name: string
           quantity: number
-          sale_id: string
+          restocked?: boolean
+          sale_item_id: string
           unit_price: number
           vat_rate: number
         }
         Update: {
           created_at?: string
+          credit_note_id?: string
           id?: string
           line_total?: number
           product_id?: string
           product_name?: string
           quantity?: number
-          sale_id?: string
+          restocked?: boolean
+          sale_item_id?: string
           unit_price?: number
           vat_rate?: number
         }
         Relationships: [
           {
-            foreignKeyName: "sale_items_product_id_fkey"
+            foreignKeyName: "credit_note_items_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "credit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_note_items_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "sale_items_sale_id_fkey"
-            columns: ["sale_id"]
+            foreignKeyName: "credit_note_items_sale_item_id_fkey"
+            columns: ["sale_item_id"]
             isOneToOne: false
-            referencedRelation: "sales"
+            referencedRelation: "sale_items"
             referencedColumns: ["id"]
           },
         ]
       }
-      sales: {
+      credit_notes: {
         Row: {
-          cashier_id: string
+          approved_by: string
           created_at: string
-          customer_id: string | null
+          created_by: string
+          credit_note_number: string
           id: string
-          notes: string | null
-          receipt_number: string
-          status: Database["public"]["Enums"]["sale_status"] | null
+          reason: string
+          refund_method: Database["public"]["Enums"]["payment_method"]
+          sale_id: string
+          shift_id: string | null
           store_id: string
-          subtotal: number
+          till_id: string | null
           total_amount: number
-          updated_at: string
           vat_amount: number
         }
         Insert: {
-          cashier_id: string
+          approved_by: string
           created_at?: string
-          customer_id?: string | null
+          created_by: string
+          credit_note_number: string
           id?: string
-          notes?: string | null
-          receipt_number: string
-          status?: Database["public"]["Enums"]["sale_status"] | null
+          reason: string
+          refund_method: Database["public"]["Enums"]["payment_method"]
+          sale_id: string
+          shift_id?: string | null
           store_id: string
-          subtotal: number
-          total_amount: number
-          updated_at?: string
+          till_id?: string | null
+          total_amount?: number
           vat_amount?: number
         }
         Update: {
-          cashier_id?: string
+          approved_by?: string
           created_at?: string
-          customer_id?: string | null
+          created_by?: string
+          credit_note_number?: string
           id?: string
-          notes?: string | null
-          receipt_number?: string
-          status?: Database["public"]["Enums"]["sale_status"] | null
+          reason?: string
+          refund_method?: Database["public"]["Enums"]["payment_method"]
+          sale_id?: string
+          shift_id?: string | null
           store_id?: string
-          subtotal?: number
+          till_id?: string | null
           total_amount?: number
-          updated_at?: string
           vat_amount?: number
         }
         Relationships: [
           {
-            foreignKeyName: "sales_cashier_id_fkey"
-            columns: ["cashier_id"]
+            foreignKeyName: "credit_notes_approved_by_fkey"
+            columns: ["approved_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "sales_customer_id_fkey"
-            columns: ["customer_id"]
+            foreignKeyName: "credit_notes_created_by_fkey"
+            columns: ["created_by"]
             isOneToOne: false
-            referencedRelation: "customers"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "sales_store_id_fkey"
+            foreignKeyName: "credit_notes_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_notes_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "till_shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_notes_store_id_fkey"
             columns: ["store_id"]
             isOneToOne: false
             referencedRelation: "stores"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "credit_notes_till_id_fkey"
+            columns: ["till_id"]
+            isOneToOne: false
+            referencedRelation: "tills"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      stores: {
+      customers: {
         Row: {
-          active: boolean | null
+          address: string | null
           created_at: string
           email: string | null
           id: string
-          location: string | null
+          loyalty_points: number
           name: string
-          phone: string | null
+          phone: string
+          store_id: string
+          total_purchases: number
           updated_at: string
         }
         Insert: {
-          active?: boolean | null
+          address?: string | null
           created_at?: string
           email?: string | null
           id?: string
-          location?: string | null
+          loyalty_points?: number
           name: string
-          phone?: string | null
+          phone: string
+          store_id: string
+          total_purchases?: number
           updated_at?: string
         }
         Update: {
-          active?: boolean | null
+          address?: string | null
           created_at?: string
           email?: string | null
           id?: string
-          location?: string | null
+          loyalty_points?: number
           name?: string
-          phone?: string | null
+          phone?: string
+          store_id?: string
+          total_purchases?: number
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "customers_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      user_roles: {
+      document_counters: {
         Row: {
-          id: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
+          last_number: number
+          scope: string
+          series: string
+          store_id: string
+          updated_at: string
         }
         Insert: {
-          id?: string
-          role: Database["public"]["Enums"]["app_role"]
-          user_id: string
-        }
+          last_number?: number
+          scope?: string
+          series: string
+          store_id: string
+          updated_at?: string
+        }
+        Update: {
+          last_number?: number
+          scope?: string
+          series?: string
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_counters_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      etims_submissions: {
+        Row: {
+          attempts: number
+          created_at: string
+          id: string
+          invoice_number: number
+          last_error: string | null
+          next_attempt_at: string
+          sale_id: string
+          status: Database["public"]["Enums"]["etims_status"]
+          store_id: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          invoice_number: number
+          last_error?: string | null
+          next_attempt_at?: string
+          sale_id: string
+          status?: Database["public"]["Enums"]["etims_status"]
+          store_id: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          id?: string
+          invoice_number?: number
+          last_error?: string | null
+          next_attempt_at?: string
+          sale_id?: string
+          status?: Database["public"]["Enums"]["etims_status"]
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "etims_submissions_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: true
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "etims_submissions_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goods_received_items: {
+        Row: {
+          goods_received_note_id: string
+          id: string
+          product_id: string
+          purchase_order_item_id: string
+          quantity: number
+          unit_cost: number
+        }
+        Insert: {
+          goods_received_note_id: string
+          id?: string
+          product_id: string
+          purchase_order_item_id: string
+          quantity: number
+          unit_cost: number
+        }
+        Update: {
+          goods_received_note_id?: string
+          id?: string
+          product_id?: string
+          purchase_order_item_id?: string
+          quantity?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_received_items_goods_received_note_id_fkey"
+            columns: ["goods_received_note_id"]
+            isOneToOne: false
+            referencedRelation: "goods_received_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_received_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_received_items_purchase_order_item_id_fkey"
+            columns: ["purchase_order_item_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goods_received_notes: {
+        Row: {
+          delivery_reference: string | null
+          grn_number: string
+          id: string
+          notes: string | null
+          purchase_order_id: string
+          received_at: string
+          received_by: string | null
+          store_id: string
+        }
+        Insert: {
+          delivery_reference?: string | null
+          grn_number: string
+          id?: string
+          notes?: string | null
+          purchase_order_id: string
+          received_at?: string
+          received_by?: string | null
+          store_id: string
+        }
+        Update: {
+          delivery_reference?: string | null
+          grn_number?: string
+          id?: string
+          notes?: string | null
+          purchase_order_id?: string
+          received_at?: string
+          received_by?: string | null
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_received_notes_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_received_notes_received_by_fkey"
+            columns: ["received_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_received_notes_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loyalty_tiers: {
+        Row: {
+          created_at: string
+          earn_multiplier: number
+          id: string
+          min_spend: number
+          name: string
+          store_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          earn_multiplier?: number
+          id?: string
+          min_spend: number
+          name: string
+          store_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          earn_multiplier?: number
+          id?: string
+          min_spend?: number
+          name?: string
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loyalty_tiers_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loyalty_transactions: {
+        Row: {
+          balance_after: number
+          created_at: string
+          created_by: string | null
+          credit_note_id: string | null
+          customer_id: string
+          entry_type: Database["public"]["Enums"]["loyalty_entry_type"]
+          expires_at: string | null
+          id: string
+          points: number
+          reason: string | null
+          remaining: number
+          sale_id: string | null
+          store_id: string
+        }
+        Insert: {
+          balance_after?: number
+          created_at?: string
+          created_by?: string | null
+          credit_note_id?: string | null
+          customer_id: string
+          entry_type: Database["public"]["Enums"]["loyalty_entry_type"]
+          expires_at?: string | null
+          id?: string
+          points: number
+          reason?: string | null
+          remaining?: number
+          sale_id?: string | null
+          store_id: string
+        }
+        Update: {
+          balance_after?: number
+          created_at?: string
+          created_by?: string | null
+          credit_note_id?: string | null
+          customer_id?: string
+          entry_type?: Database["public"]["Enums"]["loyalty_entry_type"]
+          expires_at?: string | null
+          id?: string
+          points?: number
+          reason?: string | null
+          remaining?: number
+          sale_id?: string | null
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loyalty_transactions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loyalty_transactions_credit_note_id_fkey"
+            columns: ["credit_note_id"]
+            isOneToOne: false
+            referencedRelation: "credit_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loyalty_transactions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loyalty_transactions_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loyalty_transactions_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      manager_pins: {
+        Row: {
+          pin_hash: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          pin_hash: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          pin_hash?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "manager_pins_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mpesa_transactions: {
+        Row: {
+          amount: number
+          checkout_request_id: string | null
+          created_at: string
+          id: string
+          merchant_request_id: string | null
+          mpesa_receipt_number: string | null
+          payment_id: string
+          phone_number: string
+          result_code: number | null
+          result_desc: string | null
+          sale_id: string
+          status: Database["public"]["Enums"]["mpesa_request_status"]
+          store_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          checkout_request_id?: string | null
+          created_at?: string
+          id?: string
+          merchant_request_id?: string | null
+          mpesa_receipt_number?: string | null
+          payment_id: string
+          phone_number: string
+          result_code?: number | null
+          result_desc?: string | null
+          sale_id: string
+          status?: Database["public"]["Enums"]["mpesa_request_status"]
+          store_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          checkout_request_id?: string | null
+          created_at?: string
+          id?: string
+          merchant_request_id?: string | null
+          mpesa_receipt_number?: string | null
+          payment_id?: string
+          phone_number?: string
+          result_code?: number | null
+          result_desc?: string | null
+          sale_id?: string
+          status?: Database["public"]["Enums"]["mpesa_request_status"]
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mpesa_transactions_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mpesa_transactions_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mpesa_transactions_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          change_amount: number
+          created_at: string
+          id: string
+          payer_phone: string | null
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          reference_number: string | null
+          reversed_at: string | null
+          sale_id: string
+          tendered_amount: number | null
+        }
+        Insert: {
+          amount: number
+          change_amount?: number
+          created_at?: string
+          id?: string
+          payer_phone?: string | null
+          payment_method: Database["public"]["Enums"]["payment_method"]
+          reference_number?: string | null
+          reversed_at?: string | null
+          sale_id: string
+          tendered_amount?: number | null
+        }
+        Update: {
+          amount?: number
+          change_amount?: number
+          created_at?: string
+          id?: string
+          payer_phone?: string | null
+          payment_method?: Database["public"]["Enums"]["payment_method"]
+          reference_number?: string | null
+          reversed_at?: string | null
+          sale_id?: string
+          tendered_amount?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          active: boolean | null
+          barcode: string | null
+          catalogue_item_id: string
+          category_id: string | null
+          cost_price: number
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          reorder_level: number | null
+          selling_price: number
+          sku: string | null
+          stock_quantity: number
+          store_id: string
+          supplier_id: string | null
+          updated_at: string
+          vat_rate: number | null
+        }
+        Insert: {
+          active?: boolean | null
+          barcode?: string | null
+          catalogue_item_id?: string
+          category_id?: string | null
+          cost_price?: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          name: string
+          reorder_level?: number | null
+          selling_price: number
+          sku?: string | null
+          stock_quantity?: number
+          store_id: string
+          supplier_id?: string | null
+          updated_at?: string
+          vat_rate?: number | null
+        }
+        Update: {
+          active?: boolean | null
+          barcode?: string | null
+          catalogue_item_id?: string
+          category_id?: string | null
+          cost_price?: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          name?: string
+          reorder_level?: number | null
+          selling_price?: number
+          sku?: string | null
+          stock_quantity?: number
+          store_id?: string
+          supplier_id?: string | null
+          updated_at?: string
+          vat_rate?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_catalogue_item_id_fkey"
+            columns: ["catalogue_item_id"]
+            isOneToOne: false
+            referencedRelation: "catalogue_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          active: boolean
+          created_at: string
+          full_name: string
+          id: string
+          phone: string | null
+          store_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean | null
+          created_at?: string
+          full_name: string
+          id: string
+          phone?: string | null
+          store_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean | null
+          created_at?: string
+          full_name?: string
+          id?: string
+          phone?: string | null
+          store_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promotions: {
+        Row: {
+          active: boolean
+          bundle_price: number | null
+          bundle_quantity: number | null
+          buy_quantity: number | null
+          category_id: string | null
+          created_at: string
+          created_by: string | null
+          days_of_week: number[] | null
+          discount_percent: number | null
+          end_time: string | null
+          ends_at: string | null
+          get_quantity: number | null
+          id: string
+          name: string
+          product_ids: string[]
+          promotion_type: Database["public"]["Enums"]["promotion_type"]
+          start_time: string | null
+          starts_at: string | null
+          store_id: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          bundle_price?: number | null
+          bundle_quantity?: number | null
+          buy_quantity?: number | null
+          category_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          days_of_week?: number[] | null
+          discount_percent?: number | null
+          end_time?: string | null
+          ends_at?: string | null
+          get_quantity?: number | null
+          id?: string
+          name: string
+          product_ids?: string[]
+          promotion_type: Database["public"]["Enums"]["promotion_type"]
+          start_time?: string | null
+          starts_at?: string | null
+          store_id: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          bundle_price?: number | null
+          bundle_quantity?: number | null
+          buy_quantity?: number | null
+          category_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          days_of_week?: number[] | null
+          discount_percent?: number | null
+          end_time?: string | null
+          ends_at?: string | null
+          get_quantity?: number | null
+          id?: string
+          name?: string
+          product_ids?: string[]
+          promotion_type?: Database["public"]["Enums"]["promotion_type"]
+          start_time?: string | null
+          starts_at?: string | null
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotions_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotions_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_items: {
+        Row: {
+          id: string
+          product_id: string
+          purchase_order_id: string
+          quantity: number
+          received_quantity: number
+          unit_cost: number
+        }
+        Insert: {
+          id?: string
+          product_id: string
+          purchase_order_id: string
+          quantity: number
+          received_quantity?: number
+          unit_cost: number
+        }
+        Update: {
+          id?: string
+          product_id?: string
+          purchase_order_id?: string
+          quantity?: number
+          received_quantity?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          expected_at: string | null
+          id: string
+          notes: string | null
+          po_number: string
+          sent_at: string | null
+          status: Database["public"]["Enums"]["purchase_order_status"]
+          store_id: string
+          supplier_id: string
+          total_amount: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          expected_at?: string | null
+          id?: string
+          notes?: string | null
+          po_number: string
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["purchase_order_status"]
+          store_id: string
+          supplier_id: string
+          total_amount?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          expected_at?: string | null
+          id?: string
+          notes?: string | null
+          po_number?: string
+          sent_at?: string | null
+          status?: Database["public"]["Enums"]["purchase_order_status"]
+          store_id?: string
+          supplier_id?: string
+          total_amount?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_items: {
+        Row: {
+          basket_discount: number
+          created_at: string
+          discount_amount: number
+          id: string
+          line_total: number
+          manual_discount: number
+          product_id: string
+          product_name: string
+          promotion_discount: number
+          promotion_id: string | null
+          quantity: number
+          sale_id: string
+          unit_price: number
+          vat_rate: number
+        }
+        Insert: {
+          basket_discount?: number
+          created_at?: string
+          discount_amount?: never
+          id?: string
+          line_total: number
+          manual_discount?: number
+          product_id: string
+          product_name: string
+          promotion_discount?: number
+          promotion_id?: string | null
+          quantity: number
+          sale_id: string
+          unit_price: number
+          vat_rate: number
+        }
+        Update: {
+          basket_discount?: number
+          created_at?: string
+          discount_amount?: never
+          id?: string
+          line_total?: number
+          manual_discount?: number
+          product_id?: string
+          product_name?: string
+          promotion_discount?: number
+          promotion_id?: string | null
+          quantity?: number
+          sale_id?: string
+          unit_price?: number
+          vat_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_items_promotion_id_fkey"
+            columns: ["promotion_id"]
+            isOneToOne: false
+            referencedRelation: "promotions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_items_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_sync_conflicts: {
+        Row: {
+          available: number | null
+          charged_price: number | null
+          conflict_type: Database["public"]["Enums"]["sale_conflict_type"]
+          created_at: string
+          expected_price: number | null
+          id: string
+          product_id: string | null
+          quantity: number | null
+          resolved_at: string | null
+          resolved_by: string | null
+          sale_id: string
+          shift_id: string | null
+          store_id: string
+        }
+        Insert: {
+          available?: number | null
+          charged_price?: number | null
+          conflict_type: Database["public"]["Enums"]["sale_conflict_type"]
+          created_at?: string
+          expected_price?: number | null
+          id?: string
+          product_id?: string | null
+          quantity?: number | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          sale_id: string
+          shift_id?: string | null
+          store_id: string
+        }
+        Update: {
+          available?: number | null
+          charged_price?: number | null
+          conflict_type?: Database["public"]["Enums"]["sale_conflict_type"]
+          created_at?: string
+          expected_price?: number | null
+          id?: string
+          product_id?: string | null
+          quantity?: number | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          sale_id?: string
+          shift_id?: string | null
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_sync_conflicts_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_sync_conflicts_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_sync_conflicts_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_sync_conflicts_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "till_shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_sync_conflicts_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales: {
+        Row: {
+          captured_offline_at: string | null
+          cashier_id: string
+          created_at: string
+          customer_id: string | null
+          discount_amount: number
+          discount_approved_by: string | null
+          etims_cu_invoice_number: string | null
+          etims_cu_number: string | null
+          etims_internal_data: string | null
+          etims_qr_data: string | null
+          etims_signature: string | null
+          etims_signed_at: string | null
+          expires_at: string | null
+          id: string
+          notes: string | null
+          provisional_receipt_number: string | null
+          receipt_number: string
+          shift_id: string | null
+          status: Database["public"]["Enums"]["sale_status"] | null
+          store_id: string
+          subtotal: number
+          till_id: string | null
+          total_amount: number
+          updated_at: string
+          vat_amount: number
+          void_approved_by: string | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+        Insert: {
+          captured_offline_at?: string | null
+          cashier_id: string
+          created_at?: string
+          customer_id?: string | null
+          discount_amount?: number
+          discount_approved_by?: string | null
+          etims_cu_invoice_number?: string | null
+          etims_cu_number?: string | null
+          etims_internal_data?: string | null
+          etims_qr_data?: string | null
+          etims_signature?: string | null
+          etims_signed_at?: string | null
+          expires_at?: string | null
+          id?: string
+          notes?: string | null
+          provisional_receipt_number?: string | null
+          receipt_number: string
+          shift_id?: string | null
+          status?: Database["public"]["Enums"]["sale_status"] | null
+          store_id: string
+          subtotal: number
+          till_id?: string | null
+          total_amount: number
+          updated_at?: string
+          vat_amount?: number
+          void_approved_by?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Update: {
+          captured_offline_at?: string | null
+          cashier_id?: string
+          created_at?: string
+          customer_id?: string | null
+          discount_amount?: number
+          discount_approved_by?: string | null
+          etims_cu_invoice_number?: string | null
+          etims_cu_number?: string | null
+          etims_internal_data?: string | null
+          etims_qr_data?: string | null
+          etims_signature?: string | null
+          etims_signed_at?: string | null
+          expires_at?: string | null
+          id?: string
+          notes?: string | null
+          provisional_receipt_number?: string | null
+          receipt_number?: string
+          shift_id?: string | null
+          status?: Database["public"]["Enums"]["sale_status"] | null
+          store_id?: string
+          subtotal?: number
+          till_id?: string | null
+          total_amount?: number
+          updated_at?: string
+          vat_amount?: number
+          void_approved_by?: string | null
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_cashier_id_fkey"
+            columns: ["cashier_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_discount_approved_by_fkey"
+            columns: ["discount_approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "till_shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_till_id_fkey"
+            columns: ["till_id"]
+            isOneToOne: false
+            referencedRelation: "tills"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_void_approved_by_fkey"
+            columns: ["void_approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_voided_by_fkey"
+            columns: ["voided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_movements: {
+        Row: {
+          balance_after: number
+          created_at: string
+          created_by: string | null
+          id: string
+          movement_type: Database["public"]["Enums"]["stock_movement_type"]
+          product_id: string
+          quantity: number
+          reason: string | null
+          reference_id: string | null
+          reference_type: string | null
+          store_id: string
+        }
+        Insert: {
+          balance_after?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type: Database["public"]["Enums"]["stock_movement_type"]
+          product_id: string
+          quantity: number
+          reason?: string | null
+          reference_id?: string | null
+          reference_type?: string | null
+          store_id: string
+        }
+        Update: {
+          balance_after?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          movement_type?: Database["public"]["Enums"]["stock_movement_type"]
+          product_id?: string
+          quantity?: number
+          reason?: string | null
+          reference_id?: string | null
+          reference_type?: string | null
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_movements_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_movements_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfer_items: {
+        Row: {
+          catalogue_item_id: string
+          from_product_id: string
+          id: string
+          quantity: number
+          received_quantity: number | null
+          stock_transfer_id: string
+          to_product_id: string | null
+        }
+        Insert: {
+          catalogue_item_id: string
+          from_product_id: string
+          id?: string
+          quantity: number
+          received_quantity?: number | null
+          stock_transfer_id: string
+          to_product_id?: string | null
+        }
+        Update: {
+          catalogue_item_id?: string
+          from_product_id?: string
+          id?: string
+          quantity?: number
+          received_quantity?: number | null
+          stock_transfer_id?: string
+          to_product_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfer_items_catalogue_item_id_fkey"
+            columns: ["catalogue_item_id"]
+            isOneToOne: false
+            referencedRelation: "catalogue_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfer_items_from_product_id_fkey"
+            columns: ["from_product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfer_items_stock_transfer_id_fkey"
+            columns: ["stock_transfer_id"]
+            isOneToOne: false
+            referencedRelation: "stock_transfers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfer_items_to_product_id_fkey"
+            columns: ["to_product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfers: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          dispatched_at: string | null
+          dispatched_by: string | null
+          from_store_id: string
+          id: string
+          notes: string | null
+          received_at: string | null
+          received_by: string | null
+          status: Database["public"]["Enums"]["stock_transfer_status"]
+          to_store_id: string
+          transfer_number: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          dispatched_at?: string | null
+          dispatched_by?: string | null
+          from_store_id: string
+          id?: string
+          notes?: string | null
+          received_at?: string | null
+          received_by?: string | null
+          status?: Database["public"]["Enums"]["stock_transfer_status"]
+          to_store_id: string
+          transfer_number: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          dispatched_at?: string | null
+          dispatched_by?: string | null
+          from_store_id?: string
+          id?: string
+          notes?: string | null
+          received_at?: string | null
+          received_by?: string | null
+          status?: Database["public"]["Enums"]["stock_transfer_status"]
+          to_store_id?: string
+          transfer_number?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfers_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_dispatched_by_fkey"
+            columns: ["dispatched_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_from_store_id_fkey"
+            columns: ["from_store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_received_by_fkey"
+            columns: ["received_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_to_store_id_fkey"
+            columns: ["to_store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stocktake_items: {
+        Row: {
+          cost_price: number
+          counted_at: string | null
+          counted_by: string | null
+          counted_quantity: number | null
+          expected_quantity: number
+          id: string
+          product_id: string
+          stocktake_id: string
+          variance: number | null
+        }
+        Insert: {
+          cost_price: number
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
+          expected_quantity: number
+          id?: string
+          product_id: string
+          stocktake_id: string
+          variance?: never
+        }
+        Update: {
+          cost_price?: number
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
+          expected_quantity?: number
+          id?: string
+          product_id?: string
+          stocktake_id?: string
+          variance?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stocktake_items_counted_by_fkey"
+            columns: ["counted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktake_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktake_items_stocktake_id_fkey"
+            columns: ["stocktake_id"]
+            isOneToOne: false
+            referencedRelation: "stocktakes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stocktakes: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          category_id: string | null
+          id: string
+          notes: string | null
+          started_at: string
+          started_by: string | null
+          status: Database["public"]["Enums"]["stocktake_status"]
+          stocktake_number: string
+          store_id: string
+          submitted_at: string | null
+          submitted_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          category_id?: string | null
+          id?: string
+          notes?: string | null
+          started_at?: string
+          started_by?: string | null
+          status?: Database["public"]["Enums"]["stocktake_status"]
+          stocktake_number: string
+          store_id: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          category_id?: string | null
+          id?: string
+          notes?: string | null
+          started_at?: string
+          started_by?: string | null
+          status?: Database["public"]["Enums"]["stocktake_status"]
+          stocktake_number?: string
+          store_id?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stocktakes_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktakes_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktakes_started_by_fkey"
+            columns: ["started_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktakes_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktakes_submitted_by_fkey"
+            columns: ["submitted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      store_settings: {
+        Row: {
+          created_at: string
+          credit_note_number_format: string
+          currency: string
+          default_reorder_level: number
+          default_vat_rate: number
+          discount_approval_percent: number | null
+          document_number_digits: number
+          enabled_payment_methods: Database["public"]["Enums"]["payment_method"][]
+          etims_branch_id: string
+          etims_device_serial: string | null
+          etims_enabled: boolean
+          kra_pin: string | null
+          locale: string
+          loyalty_enabled: boolean
+          loyalty_expiry_months: number | null
+          loyalty_min_redemption: number
+          loyalty_point_value: number
+          loyalty_spend_per_point: number
+          receipt_footer: string | null
+          receipt_header: string | null
+          receipt_logo_url: string | null
+          receipt_number_format: string
+          receipt_paper_width: number
+          receipt_prefix: string
+          reorder_cover_days: number
+          reorder_sales_days: number
+          store_code: string
+          store_id: string
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          credit_note_number_format?: string
+          currency?: string
+          default_reorder_level?: number
+          default_vat_rate?: number
+          discount_approval_percent?: number | null
+          document_number_digits?: number
+          enabled_payment_methods?: Database["public"]["Enums"]["payment_method"][]
+          etims_branch_id?: string
+          etims_device_serial?: string | null
+          etims_enabled?: boolean
+          kra_pin?: string | null
+          locale?: string
+          loyalty_enabled?: boolean
+          loyalty_expiry_months?: number | null
+          loyalty_min_redemption?: number
+          loyalty_point_value?: number
+          loyalty_spend_per_point?: number
+          receipt_footer?: string | null
+          receipt_header?: string | null
+          receipt_logo_url?: string | null
+          receipt_number_format?: string
+          receipt_paper_width?: number
+          receipt_prefix?: string
+          reorder_cover_days?: number
+          reorder_sales_days?: number
+          store_code?: string
+          store_id: string
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          credit_note_number_format?: string
+          currency?: string
+          default_reorder_level?: number
+          default_vat_rate?: number
+          discount_approval_percent?: number | null
+          document_number_digits?: number
+          enabled_payment_methods?: Database["public"]["Enums"]["payment_method"][]
+          etims_branch_id?: string
+          etims_device_serial?: string | null
+          etims_enabled?: boolean
+          kra_pin?: string | null
+          locale?: string
+          loyalty_enabled?: boolean
+          loyalty_expiry_months?: number | null
+          loyalty_min_redemption?: number
+          loyalty_point_value?: number
+          loyalty_spend_per_point?: number
+          receipt_footer?: string | null
+          receipt_header?: string | null
+          receipt_logo_url?: string | null
+          receipt_number_format?: string
+          receipt_paper_width?: number
+          receipt_prefix?: string
+          reorder_cover_days?: number
+          reorder_sales_days?: number
+          store_code?: string
+          store_id?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "store_settings_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: true
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stores: {
+        Row: {
+          active: boolean | null
+          created_at: string
+          email: string | null
+          id: string
+          location: string | null
+          name: string
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          location?: string | null
+          name: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          location?: string | null
+          name?: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      supplier_invoice_items: {
+        Row: {
+          expected_quantity: number
+          expected_unit_cost: number
+          id: string
+          matched: boolean | null
+          purchase_order_item_id: string
+          quantity: number
+          supplier_invoice_id: string
+          unit_cost: number
+        }
+        Insert: {
+          expected_quantity: number
+          expected_unit_cost: number
+          id?: string
+          matched?: never
+          purchase_order_item_id: string
+          quantity: number
+          supplier_invoice_id: string
+          unit_cost: number
+        }
+        Update: {
+          expected_quantity?: number
+          expected_unit_cost?: number
+          id?: string
+          matched?: never
+          purchase_order_item_id?: string
+          quantity?: number
+          supplier_invoice_id?: string
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_invoice_items_purchase_order_item_id_fkey"
+            columns: ["purchase_order_item_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_invoice_items_supplier_invoice_id_fkey"
+            columns: ["supplier_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "supplier_invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      supplier_invoices: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          invoice_date: string
+          invoice_number: string
+          match_status: Database["public"]["Enums"]["invoice_match_status"]
+          notes: string | null
+          purchase_order_id: string
+          store_id: string
+          supplier_id: string
+          total_amount: number
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invoice_date: string
+          invoice_number: string
+          match_status: Database["public"]["Enums"]["invoice_match_status"]
+          notes?: string | null
+          purchase_order_id: string
+          store_id: string
+          supplier_id: string
+          total_amount: number
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invoice_date?: string
+          invoice_number?: string
+          match_status?: Database["public"]["Enums"]["invoice_match_status"]
+          notes?: string | null
+          purchase_order_id?: string
+          store_id?: string
+          supplier_id?: string
+          total_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "supplier_invoices_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_invoices_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_invoices_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_invoices_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "supplier_invoices_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppliers: {
+        Row: {
+          active: boolean
+          address: string | null
+          contact_name: string | null
+          created_at: string
+          email: string | null
+          id: string
+          kra_pin: string | null
+          lead_time_days: number
+          name: string
+          notes: string | null
+          phone: string | null
+          store_id: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          address?: string | null
+          contact_name?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          kra_pin?: string | null
+          lead_time_days?: number
+          name: string
+          notes?: string | null
+          phone?: string | null
+          store_id: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          address?: string | null
+          contact_name?: string | null
+          created_at?: string
+          email?: string | null
+          id?: string
+          kra_pin?: string | null
+          lead_time_days?: number
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "suppliers_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      till_shifts: {
+        Row: {
+          closed_at: string | null
+          closed_by: string | null
+          closing_denominations: Json | null
+          counted_cash: number | null
+          expected_cash: number | null
+          id: string
+          notes: string | null
+          opened_at: string
+          opened_by: string
+          opening_denominations: Json
+          opening_float: number
+          shift_number: number
+          status: Database["public"]["Enums"]["shift_status"]
+          store_id: string
+          till_id: string
+          variance: number | null
+        }
+        Insert: {
+          closed_at?: string | null
+          closed_by?: string | null
+          closing_denominations?: Json | null
+          counted_cash?: number | null
+          expected_cash?: number | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opened_by: string
+          opening_denominations?: Json
+          opening_float: number
+          shift_number: number
+          status?: Database["public"]["Enums"]["shift_status"]
+          store_id: string
+          till_id: string
+          variance?: never
+        }
+        Update: {
+          closed_at?: string | null
+          closed_by?: string | null
+          closing_denominations?: Json | null
+          counted_cash?: number | null
+          expected_cash?: number | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opened_by?: string
+          opening_denominations?: Json
+          opening_float?: number
+          shift_number?: number
+          status?: Database["public"]["Enums"]["shift_status"]
+          store_id?: string
+          till_id?: string
+          variance?: never
+        }
+        Relationships: [
+          {
+            foreignKeyName: "till_shifts_closed_by_fkey"
+            columns: ["closed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "till_shifts_opened_by_fkey"
+            columns: ["opened_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "till_shifts_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "till_shifts_till_id_fkey"
+            columns: ["till_id"]
+            isOneToOne: false
+            referencedRelation: "tills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tills: {
+        Row: {
+          active: boolean
+          code: string
+          created_at: string
+          id: string
+          name: string
+          store_id: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          code: string
+          created_at?: string
+          id?: string
+          name: string
+          store_id: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          code?: string
+          created_at?: string
+          id?: string
+          name?: string
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tills_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          store_id: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          store_id: string
+          user_id: string
+        }
         Update: {
           id?: string
           role?: Database["public"]["Enums"]["app_role"]
+          store_id?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      reorder_suggestions: {
+        Row: {
+          average_daily_sales: number | null
+          cost_price: number | null
+          days_of_cover: number | null
+          lead_time_days: number | null
+          name: string | null
+          needs_reorder: boolean | null
+          on_order: number | null
+          product_id: string | null
+          reorder_level: number | null
+          sku: string | null
+          stock_quantity: number | null
+          store_id: string | null
+          suggested_quantity: number | null
+          supplier_id: string | null
+          supplier_name: string | null
+          units_sold: number | null
+        }
+        Relationships: []
+      }
+      stock_movement_history: {
+        Row: {
+          balance_after: number | null
+          created_at: string | null
+          created_by: string | null
+          created_by_name: string | null
+          id: string | null
+          movement_type: Database["public"]["Enums"]["stock_movement_type"] | null
+          product_id: string | null
+          product_name: string | null
+          quantity: number | null
+          reason: string | null
+          reference_id: string | null
+          reference_type: string | null
+          store_id: string | null
+        }
+        Relationships: []
+      }
+      stock_reconciliation: {
+        Row: {
+          difference: number | null
+          ledger_quantity: number | null
+          name: string | null
+          product_id: string | null
+          stock_quantity: number | null
+          store_id: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      adjust_loyalty_points: {
+        Args: {
+          _customer_id: string
+          _points: number
+          _reason: string
+        }
+        Returns: {
+          balance_after: number
+          created_at: string
+          created_by: string | null
+          credit_note_id: string | null
+          customer_id: string
+          entry_type: Database["public"]["Enums"]["loyalty_entry_type"]
+          expires_at: string | null
+          id: string
+          points: number
+          reason: string | null
+          remaining: number
+          sale_id: string | null
+          store_id: string
+        }
+      }
+      adjust_stock: {
+        Args: {
+          _movement_type?: Database["public"]["Enums"]["stock_movement_type"]
+          _product_id: string
+          _quantity: number
+          _reason: string
+        }
+        Returns: {
+          balance_after: number
+          created_at: string
+          created_by: string | null
+          id: string
+          movement_type: Database["public"]["Enums"]["stock_movement_type"]
+          product_id: string
+          quantity: number
+          reason: string | null
+          reference_id: string | null
+          reference_type: string | null
+          store_id: string
+        }
+      }
+      approve_stocktake: {
+        Args: {
+          _stocktake_id: string
+        }
+        Returns: {
+          approved_at: string | null
+          approved_by: string | null
+          category_id: string | null
+          id: string
+          notes: string | null
+          started_at: string
+          started_by: string | null
+          status: Database["public"]["Enums"]["stocktake_status"]
+          stocktake_number: string
+          store_id: string
+          submitted_at: string | null
+          submitted_by: string | null
+          updated_at: string
+        }
+      }
+      approve_supplier_invoice: {
+        Args: {
+          _supplier_invoice_id: string
+        }
+        Returns: {
+          approved_at: string | null
+          approved_by: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          invoice_date: string
+          invoice_number: string
+          match_status: Database["public"]["Enums"]["invoice_match_status"]
+          notes: string | null
+          purchase_order_id: string
+          store_id: string
+          supplier_id: string
+          total_amount: number
+        }
+      }
+      cancel_pending_sale: {
+        Args: {
+          _reason?: string
+          _sale_id: string
+          _status?: Database["public"]["Enums"]["mpesa_request_status"]
+        }
+        Returns: {
+          captured_offline_at: string | null
+          cashier_id: string
+          created_at: string
+          customer_id: string | null
+          discount_amount: number
+          discount_approved_by: string | null
+          etims_cu_invoice_number: string | null
+          etims_cu_number: string | null
+          etims_internal_data: string | null
+          etims_qr_data: string | null
+          etims_signature: string | null
+          etims_signed_at: string | null
+          expires_at: string | null
+          id: string
+          notes: string | null
+          provisional_receipt_number: string | null
+          receipt_number: string
+          shift_id: string | null
+          status: Database["public"]["Enums"]["sale_status"] | null
+          store_id: string
+          subtotal: number
+          till_id: string | null
+          total_amount: number
+          updated_at: string
+          vat_amount: number
+          void_approved_by: string | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+      }
+      can_edit_catalogue_item: {
+        Args: {
+          _catalogue_item_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      can_view_catalogue_item: {
+        Args: {
+          _catalogue_item_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      cancel_stock_transfer: {
+        Args: {
+          _stock_transfer_id: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          dispatched_at: string | null
+          dispatched_by: string | null
+          from_store_id: string
+          id: string
+          notes: string | null
+          received_at: string | null
+          received_by: string | null
+          status: Database["public"]["Enums"]["stock_transfer_status"]
+          to_store_id: string
+          transfer_number: string
+          updated_at: string
+        }
+      }
+      catalogue_listings: {
+        Args: {
+          _catalogue_item_ids: string[]
+        }
+        Returns: {
+          active: boolean
+          catalogue_item_id: string
+          cost_price: number
+          product_id: string
+          selling_price: number
+          stock_quantity: number
+          store_id: string
+        }[]
+      }
+      claim_etims_submissions: {
+        Args: {
+          _limit: number
+          _sale_id?: string
+          _store_id?: string
+        }
+        Returns: {
+          attempts: number
+          created_at: string
+          id: string
+          invoice_number: number
+          last_error: string | null
+          next_attempt_at: string
+          sale_id: string
+          status: Database["public"]["Enums"]["etims_status"]
+          store_id: string
+          updated_at: string
+        }[]
+      }
+      close_shift: {
+        Args: {
+          _denominations: Json
+          _notes?: string
+          _shift_id: string
+        }
+        Returns: {
+          closed_at: string | null
+          closed_by: string | null
+          closing_denominations: Json | null
+          counted_cash: number | null
+          expected_cash: number | null
+          id: string
+          notes: string | null
+          opened_at: string
+          opened_by: string
+          opening_denominations: Json
+          opening_float: number
+          shift_number: number
+          status: Database["public"]["Enums"]["shift_status"]
+          store_id: string
+          till_id: string
+          variance: number | null
+        }
+      }
+      confirm_mpesa_payment: {
+        Args: {
+          _amount: number
+          _checkout_request_id: string
+          _receipt_number: string
+          _result_desc?: string
+        }
+        Returns: {
+          captured_offline_at: string | null
+          cashier_id: string
+          created_at: string
+          customer_id: string | null
+          discount_amount: number
+          discount_approved_by: string | null
+          etims_cu_invoice_number: string | null
+          etims_cu_number: string | null
+          etims_internal_data: string | null
+          etims_qr_data: string | null
+          etims_signature: string | null
+          etims_signed_at: string | null
+          expires_at: string | null
+          id: string
+          notes: string | null
+          provisional_receipt_number: string | null
+          receipt_number: string
+          shift_id: string | null
+          status: Database["public"]["Enums"]["sale_status"] | null
+          store_id: string
+          subtotal: number
+          till_id: string | null
+          total_amount: number
+          updated_at: string
+          vat_amount: number
+          void_approved_by: string | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+      }
+      create_reorder_purchase_orders: {
+        Args: {
+          _items: Json
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          expected_at: string | null
+          id: string
+          notes: string | null
+          po_number: string
+          sent_at: string | null
+          status: Database["public"]["Enums"]["purchase_order_status"]
+          store_id: string
+          supplier_id: string
+          total_amount: number
+          updated_at: string
+        }[]
+      }
+      create_return: {
+        Args: {
+          _items: Json
+          _manager_pin: string
+          _reason: string
+          _refund_method: Database["public"]["Enums"]["payment_method"]
+          _sale_id: string
+          _till_id?: string
+        }
+        Returns: {
+          approved_by: string
+          created_at: string
+          created_by: string
+          credit_note_number: string
+          id: string
+          reason: string
+          refund_method: Database["public"]["Enums"]["payment_method"]
+          sale_id: string
+          shift_id: string | null
+          store_id: string
+          till_id: string | null
+          total_amount: number
+          vat_amount: number
+        }
+      }
+      create_sale: {
+        Args: {
+          _basket_discount?: Json
+          _captured_at?: string
+          _customer_id?: string
+          _items: Json
+          _manager_pin?: string
+          _notes?: string
+          _payments: Json
+          _provisional_receipt_number?: string
+          _sale_id?: string
+          _store_id: string
+          _till_id?: string
+        }
+        Returns: {
+          captured_offline_at: string | null
+          cashier_id: string
+          created_at: string
+          customer_id: string | null
+          discount_amount: number
+          discount_approved_by: string | null
+          etims_cu_invoice_number: string | null
+          etims_cu_number: string | null
+          etims_internal_data: string | null
+          etims_qr_data: string | null
+          etims_signature: string | null
+          etims_signed_at: string | null
+          expires_at: string | null
+          id: string
+          notes: string | null
+          provisional_receipt_number: string | null
+          receipt_number: string
+          shift_id: string | null
+          status: Database["public"]["Enums"]["sale_status"] | null
+          store_id: string
+          subtotal: number
+          till_id: string | null
+          total_amount: number
+          updated_at: string
+          vat_amount: number
+          void_approved_by: string | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+      }
+      create_store: {
+        Args: {
+          _email?: string
+          _location?: string
+          _name: string
+          _phone?: string
+        }
+        Returns: {
+          active: boolean | null
+          created_at: string
+          email: string | null
+          id: string
+          location: string | null
+          name: string
+          phone: string | null
+          updated_at: string
+        }
+      }
+      create_store_for_user: {
+        Args: {
+          _kra_pin?: string
+          _location?: string
+          _name: string
+          _phone?: string
+          _seed_categories?: boolean
+          _seed_products?: boolean
+        }
+        Returns: {
+          active: boolean | null
+          created_at: string
+          email: string | null
+          id: string
+          location: string | null
+          name: string
+          phone: string | null
+          updated_at: string
+        }
+      }
+      dispatch_stock_transfer: {
+        Args: {
+          _stock_transfer_id: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          dispatched_at: string | null
+          dispatched_by: string | null
+          from_store_id: string
+          id: string
+          notes: string | null
+          received_at: string | null
+          received_by: string | null
+          status: Database["public"]["Enums"]["stock_transfer_status"]
+          to_store_id: string
+          transfer_number: string
+          updated_at: string
+        }
+      }
+      has_manager_pin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -413,11 +2723,440 @@ export type Database = {
         }
         Returns: boolean
       }
+      has_store_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _store_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      linked_store_ids: {
+        Args: {
+          _store_id: string
+        }
+        Returns: string[]
+      }
+      loyalty_balance: {
+        Args: {
+          _customer_id: string
+        }
+        Returns: number
+      }
+      open_shift: {
+        Args: {
+          _denominations: Json
+          _till_id: string
+        }
+        Returns: {
+          closed_at: string | null
+          closed_by: string | null
+          closing_denominations: Json | null
+          counted_cash: number | null
+          expected_cash: number | null
+          id: string
+          notes: string | null
+          opened_at: string
+          opened_by: string
+          opening_denominations: Json
+          opening_float: number
+          shift_number: number
+          status: Database["public"]["Enums"]["shift_status"]
+          store_id: string
+          till_id: string
+          variance: number | null
+        }
+      }
+      receive_goods: {
+        Args: {
+          _delivery_reference?: string
+          _items: Json
+          _notes?: string
+          _purchase_order_id: string
+        }
+        Returns: {
+          delivery_reference: string | null
+          grn_number: string
+          id: string
+          notes: string | null
+          purchase_order_id: string
+          received_at: string
+          received_by: string | null
+          store_id: string
+        }
+      }
+      receive_stock_transfer: {
+        Args: {
+          _items?: Json
+          _stock_transfer_id: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          dispatched_at: string | null
+          dispatched_by: string | null
+          from_store_id: string
+          id: string
+          notes: string | null
+          received_at: string | null
+          received_by: string | null
+          status: Database["public"]["Enums"]["stock_transfer_status"]
+          to_store_id: string
+          transfer_number: string
+          updated_at: string
+        }
+      }
+      record_cash_movement: {
+        Args: {
+          _amount: number
+          _movement_type: Database["public"]["Enums"]["cash_movement_type"]
+          _reason?: string
+          _shift_id: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          created_by: string
+          id: string
+          movement_type: Database["public"]["Enums"]["cash_movement_type"]
+          reason: string | null
+          shift_id: string
+          store_id: string
+        }
+      }
+      record_etims_result: {
+        Args: {
+          _error?: string
+          _result: Json
+          _submission_id: string
+        }
+        Returns: {
+          attempts: number
+          created_at: string
+          id: string
+          invoice_number: number
+          last_error: string | null
+          next_attempt_at: string
+          sale_id: string
+          status: Database["public"]["Enums"]["etims_status"]
+          store_id: string
+          updated_at: string
+        }
+      }
+      record_stocktake_count: {
+        Args: {
+          _add?: boolean
+          _product_id: string
+          _quantity: number
+          _stocktake_id: string
+        }
+        Returns: {
+          counted_at: string
+          counted_by: string
+          counted_quantity: number
+          id: string
+          product_id: string
+          stocktake_id: string
+        }[]
+      }
+      record_supplier_invoice: {
+        Args: {
+          _invoice_date: string
+          _invoice_number: string
+          _items: Json
+          _notes?: string
+          _purchase_order_id: string
+        }
+        Returns: {
+          approved_at: string | null
+          approved_by: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          invoice_date: string
+          invoice_number: string
+          match_status: Database["public"]["Enums"]["invoice_match_status"]
+          notes: string | null
+          purchase_order_id: string
+          store_id: string
+          supplier_id: string
+          total_amount: number
+        }
+      }
+      sales_report: {
+        Args: {
+          _from: string
+          _store_id: string
+          _to: string
+          _tz?: string
+        }
+        Returns: Json
+      }
+      save_purchase_order: {
+        Args: {
+          _expected_at?: string
+          _items: Json
+          _notes?: string
+          _purchase_order_id?: string
+          _supplier_id: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          expected_at: string | null
+          id: string
+          notes: string | null
+          po_number: string
+          sent_at: string | null
+          status: Database["public"]["Enums"]["purchase_order_status"]
+          store_id: string
+          supplier_id: string
+          total_amount: number
+          updated_at: string
+        }
+      }
+      save_stock_transfer: {
+        Args: {
+          _items: Json
+          _notes?: string
+          _stock_transfer_id?: string
+          _to_store_id: string
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          dispatched_at: string | null
+          dispatched_by: string | null
+          from_store_id: string
+          id: string
+          notes: string | null
+          received_at: string | null
+          received_by: string | null
+          status: Database["public"]["Enums"]["stock_transfer_status"]
+          to_store_id: string
+          transfer_number: string
+          updated_at: string
+        }
+      }
+      set_catalogue_store_price: {
+        Args: {
+          _catalogue_item_id: string
+          _selling_price: number
+          _store_id: string
+        }
+        Returns: {
+          active: boolean | null
+          barcode: string | null
+          catalogue_item_id: string
+          category_id: string | null
+          cost_price: number
+          created_at: string
+          description: string | null
+          id: string
+          name: string
+          reorder_level: number | null
+          selling_price: number
+          sku: string | null
+          stock_quantity: number
+          store_id: string
+          supplier_id: string | null
+          updated_at: string
+          vat_rate: number | null
+        }
+      }
+      set_manager_pin: {
+        Args: {
+          _pin: string
+        }
+        Returns: undefined
+      }
+      set_purchase_order_status: {
+        Args: {
+          _purchase_order_id: string
+          _status: Database["public"]["Enums"]["purchase_order_status"]
+        }
+        Returns: {
+          created_at: string
+          created_by: string | null
+          expected_at: string | null
+          id: string
+          notes: string | null
+          po_number: string
+          sent_at: string | null
+          status: Database["public"]["Enums"]["purchase_order_status"]
+          store_id: string
+          supplier_id: string
+          total_amount: number
+          updated_at: string
+        }
+      }
+      set_stocktake_status: {
+        Args: {
+          _status: Database["public"]["Enums"]["stocktake_status"]
+          _stocktake_id: string
+        }
+        Returns: {
+          approved_at: string | null
+          approved_by: string | null
+          category_id: string | null
+          id: string
+          notes: string | null
+          started_at: string
+          started_by: string | null
+          status: Database["public"]["Enums"]["stocktake_status"]
+          stocktake_number: string
+          store_id: string
+          submitted_at: string | null
+          submitted_by: string | null
+          updated_at: string
+        }
+      }
+      shift_report: {
+        Args: {
+          _shift_id: string
+        }
+        Returns: Json
+      }
+      start_stocktake: {
+        Args: {
+          _category_id?: string
+          _notes?: string
+        }
+        Returns: {
+          approved_at: string | null
+          approved_by: string | null
+          category_id: string | null
+          id: string
+          notes: string | null
+          started_at: string
+          started_by: string | null
+          status: Database["public"]["Enums"]["stocktake_status"]
+          stocktake_number: string
+          store_id: string
+          submitted_at: string | null
+          submitted_by: string | null
+          updated_at: string
+        }
+      }
+      stocktake_expected_quantities: {
+        Args: {
+          _product_id?: string
+          _stocktake_id: string
+        }
+        Returns: {
+          expected_quantity: number
+          id: string
+          product_id: string
+          variance: number
+        }[]
+      }
+      store_summaries: {
+        Args: {
+          _from: string
+          _to?: string
+        }
+        Returns: {
+          active: boolean
+          low_stock_count: number
+          sales_count: number
+          sales_total: number
+          stock_units: number
+          stock_value: number
+          store_id: string
+          store_name: string
+          transfers_in_transit: number
+        }[]
+      }
+      verify_manager_pin: {
+        Args: {
+          _pin: string
+          _store_id: string
+        }
+        Returns: string
+      }
+      void_sale: {
+        Args: {
+          _manager_pin: string
+          _reason: string
+          _sale_id: string
+        }
+        Returns: {
+          captured_offline_at: string | null
+          cashier_id: string
+          created_at: string
+          customer_id: string | null
+          discount_amount: number
+          discount_approved_by: string | null
+          etims_cu_invoice_number: string | null
+          etims_cu_number: string | null
+          etims_internal_data: string | null
+          etims_qr_data: string | null
+          etims_signature: string | null
+          etims_signed_at: string | null
+          expires_at: string | null
+          id: string
+          notes: string | null
+          provisional_receipt_number: string | null
+          receipt_number: string
+          shift_id: string | null
+          status: Database["public"]["Enums"]["sale_status"] | null
+          store_id: string
+          subtotal: number
+          till_id: string | null
+          total_amount: number
+          updated_at: string
+          vat_amount: number
+          void_approved_by: string | null
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+      }
     }
     Enums: {
       app_role: "admin" | "manager" | "cashier"
-      payment_method: "mpesa" | "cash" | "card"
+      cash_movement_type: "pay_in" | "pay_out" | "drop"
+      etims_status: "pending" | "submitting" | "signed" | "failed"
+      invoice_match_status: "matched" | "mismatched" | "approved"
+      loyalty_entry_type:
+        | "earn"
+        | "redeem"
+        | "reverse_earn"
+        | "refund_redeem"
+        | "return_credit"
+        | "expire"
+        | "adjust"
+      mpesa_request_status:
+        | "pending"
+        | "completed"
+        | "failed"
+        | "cancelled"
+        | "timeout"
+      payment_method: "mpesa" | "cash" | "card" | "loyalty"
+      promotion_type: "buy_x_get_y" | "bundle" | "happy_hour" | "category_sale"
+      purchase_order_status:
+        | "draft"
+        | "sent"
+        | "partially_received"
+        | "received"
+        | "cancelled"
+      sale_conflict_type:
+        | "oversold"
+        | "price_changed"
+        | "product_unavailable"
+        | "promotion_changed"
+        | "shift_closed"
       sale_status: "completed" | "voided" | "pending"
+      shift_status: "open" | "closed"
+      stock_movement_type:
+        | "sale"
+        | "return"
+        | "receipt"
+        | "adjustment"
+        | "transfer"
+        | "stocktake"
+      stock_transfer_status: "draft" | "dispatched" | "received" | "cancelled"
+      stocktake_status: "counting" | "submitted" | "approved" | "cancelled"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -546,8 +3285,53 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "manager", "cashier"],
-      payment_method: ["mpesa", "cash", "card"],
+      cash_movement_type: ["pay_in", "pay_out", "drop"],
+      etims_status: ["pending", "submitting", "signed", "failed"],
+      invoice_match_status: ["matched", "mismatched", "approved"],
+      loyalty_entry_type: [
+        "earn",
+        "redeem",
+        "reverse_earn",
+        "refund_redeem",
+        "return_credit",
+        "expire",
+        "adjust",
+      ],
+      mpesa_request_status: [
+        "pending",
+        "completed",
+        "failed",
+        "cancelled",
+        "timeout",
+      ],
+      payment_method: ["mpesa", "cash", "card", "loyalty"],
+      promotion_type: ["buy_x_get_y", "bundle", "happy_hour", "category_sale"],
+      purchase_order_status: [
+        "draft",
+        "sent",
+        "partially_received",
+        "received",
+        "cancelled",
+      ],
+      sale_conflict_type: [
+        "oversold",
+        "price_changed",
+        "product_unavailable",
+        "promotion_changed",
+        "shift_closed",
+      ],
       sale_status: ["completed", "voided", "pending"],
+      shift_status: ["open", "closed"],
+      stock_movement_type: [
+        "sale",
+        "return",
+        "receipt",
+        "adjustment",
+        "transfer",
+        "stocktake",
+      ],
+      stock_transfer_status: ["draft", "dispatched", "received", "cancelled"],
+      stocktake_status: ["counting", "submitted", "approved", "cancelled"],
     },
   },
 } as const
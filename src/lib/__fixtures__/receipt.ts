@@ -0,0 +1,53 @@
+import type { ReceiptData } from "@/lib/receipt";
+
+// A completed sale with a promotion, a manual discount, two VAT rates and two
+// tenders, one of them giving change
+export const sampleReceipt: ReceiptData = {
+  store: { name: "Mama Njeri Supermarket", location: "Moi Avenue, Nairobi", phone: "0712 345 678", email: null },
+  settings: {
+    currency: "KES",
+    locale: "en-KE",
+    kra_pin: "P051234567X",
+    receipt_header: null,
+    receipt_footer: "Thank you for shopping with us!",
+    receipt_logo_url: null,
+    etims_enabled: false,
+  },
+  receipt_number: "MAMA-01-000042",
+  created_at: "2025-11-03T09:15:00.000Z",
+  status: "completed",
+  cashier_name: "Wanjiru",
+  customer_name: null,
+  items: [
+    {
+      product_name: "Soda 500ml",
+      quantity: 3,
+      unit_price: 70,
+      vat_rate: 16,
+      line_total: 140,
+      promotion_discount: 70,
+      discount_amount: 70,
+      promotion_name: "Buy 2 get 1 free",
+    },
+    {
+      product_name: "Maize Flour 2kg",
+      quantity: 2,
+      unit_price: 175,
+      vat_rate: 0,
+      line_total: 332.5,
+      promotion_discount: 0,
+      discount_amount: 17.5,
+      promotion_name: null,
+    },
+  ],
+  subtotal: 560,
+  vat_amount: 19.31,
+  total_amount: 472.5,
+  payments: [
+    { payment_method: "mpesa", amount: 300, change_amount: 0, reference_number: "SLK4H7R2QX" },
+    { payment_method: "cash", amount: 172.5, change_amount: 27.5, reference_number: null },
+  ],
+  etims: null,
+  loyalty: null,
+  qr_data: "Mama Njeri Supermarket\nReceipt MAMA-01-000042",
+};
@@ -0,0 +1,53 @@
+// Barcode helpers for the POS: matching scanned codes to products, beeps
+// for scan results and camera scanning through the Shape Detection API.
+
+interface ScannableProduct {
+  barcode: string | null;
+  sku: string | null;
+}
+
+// Barcodes match exactly; SKUs are typed by people, so case is ignored
+export const findProductByCode = <T extends ScannableProduct>(products: T[], code: string) => {
+  const value = code.trim();
+  return (
+    products.find((p) => p.barcode === value) ??
+    products.find((p) => p.sku?.toLowerCase() === value.toLowerCase())
+  );
+};
+
+// The Shape Detection API is not in TypeScript's DOM lib yet
+export interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<{ rawValue: string }[]>;
+}
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorInstance;
+
+export const getBarcodeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+// Chrome on Android and ChromeOS, and Safari 17+; desktop Chrome on Windows and Linux has no detector
+export const isCameraScanSupported = () => !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+
+// Short beeps, so a cashier looking at the customer still knows whether the
+// item went through. Browsers only let the AudioContext start after a user gesture.
+
+let audioContext: AudioContext | null = null;
+
+const beep = (frequency: number, durationMs: number, type: OscillatorType) => {
+  try {
+    audioContext ??= new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.type = type;
+    oscillator.frequency.value = frequency;
+    gain.gain.value = 0.1;
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + durationMs / 1000);
+  } catch (error) {
+    console.error("Could not play scan feedback:", error);
+  }
+};
+
+export const scanSucceeded = () => beep(1760, 80, "sine");
+
+export const scanFailed = () => beep(220, 350, "square");
@@ -0,0 +1,9 @@
+import { phoneSearchDigits } from "@/lib/phone";
+
+// PostgREST filter matching a customer by name or by any part of their phone number
+export const customerSearchFilter = (query: string) => {
+  // Strip characters that have meaning in PostgREST filter syntax
+  const term = query.replace(/[,()%*"]/g, " ").trim();
+  const digits = phoneSearchDigits(query);
+  return [`name.ilike.%${term}%`, ...(digits ? [`phone.ilike.%${digits}%`] : [])].join(",");
+};
@@ -0,0 +1,35 @@
+import { readFileSync } from "fs";
+import { describe, expect, it, vi } from "vitest";
+import { encodeReceipt, RasterImage } from "@/lib/escpos";
+import { sampleReceipt } from "@/lib/__fixtures__/receipt";
+
+// receipt.ts also fetches receipts; only its formatting is used here
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+// Golden files hold the expected bytes as hex, 16 bytes to a line
+const hex = (bytes: Uint8Array) =>
+  Array.from({ length: Math.ceil(bytes.length / 16) }, (_, i) =>
+    Array.from(bytes.subarray(i * 16, i * 16 + 16), (b) => b.toString(16).padStart(2, "0")).join(" ")
+  ).join("\n") + "\n";
+
+const golden = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url), "utf8");
+
+// An 8 x 2 dot logo: a black row over a checked one
+const logo: RasterImage = { width: 8, height: 2, data: new Uint8Array([0xff, 0xaa]) };
+
+describe("encodeReceipt", () => {
+  it("matches the 58mm golden receipt", () => {
+    expect(hex(encodeReceipt(sampleReceipt, 58))).toBe(golden("receipt-58mm.hex"));
+  });
+
+  it("matches the 80mm golden receipt with a logo", () => {
+    expect(hex(encodeReceipt(sampleReceipt, 80, logo))).toBe(golden("receipt-80mm-logo.hex"));
+  });
+
+  it("keeps line breaks in the QR code data", () => {
+    const bytes = Array.from(encodeReceipt(sampleReceipt, 58));
+    const data = Array.from(new TextEncoder().encode(sampleReceipt.qr_data));
+    const start = bytes.findIndex((_, i) => data.every((b, j) => bytes[i + j] === b));
+    expect(start).toBeGreaterThan(0);
+  });
+});
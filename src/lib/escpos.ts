@@ -0,0 +1,249 @@
+import { formatAmount, formatMoney } from "@/lib/format";
+import { paymentMethodLabels } from "@/lib/payments";
+import {
+  changeGiven,
+  etimsLines,
+  itemDiscountLines,
+  itemGross,
+  loyaltyLines,
+  PaperWidth,
+  ReceiptData,
+  receiptBanner,
+  receiptDate,
+  receiptDiscount,
+  vatBreakdown,
+} from "@/lib/receipt";
+
+// Raw ESC/POS command stream for 58mm and 80mm thermal printers. The output
+// depends only on the receipt, paper width and logo, so a downloaded .bin can
+// be compared byte for byte against a known-good capture.
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Font A character columns and printable dots per line
+const paperColumns: Record<PaperWidth, number> = { 58: 32, 80: 48 };
+const paperDots: Record<PaperWidth, number> = { 58: 384, 80: 576 };
+
+export interface RasterImage {
+  width: number;
+  height: number;
+  // One bit per dot, rows padded to whole bytes, 1 = black
+  data: Uint8Array;
+}
+
+const init = () => [ESC, 0x40];
+const align = (mode: "left" | "center" | "right") => [ESC, 0x61, { left: 0, center: 1, right: 2 }[mode]];
+const bold = (on: boolean) => [ESC, 0x45, on ? 1 : 0];
+const size = (width: 1 | 2, height: 1 | 2) => [GS, 0x21, ((width - 1) << 4) | (height - 1)];
+const feed = (lines: number) => [ESC, 0x64, lines];
+const cut = () => [GS, 0x56, 0x42, 0x00];
+
+// Printers use single-byte code pages; keep to printable ASCII so every model
+// agrees. QR codes may also carry line breaks.
+const encodeText = (text: string, keepLineBreaks = false) =>
+  Array.from(text.normalize("NFD").replace(/[\u0300-\u036f]/g, ""), (c) => {
+    const code = c.charCodeAt(0);
+    return (code >= 0x20 && code < 0x7f) || (keepLineBreaks && code === LF) ? code : 0x3f;
+  });
+
+const line = (text = "") => [...encodeText(text), LF];
+
+const wrap = (text: string, columns: number) => {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (current && current.length + 1 + word.length > columns) {
+      lines.push(current);
+      current = "";
+    }
+    current = current ? `${current} ${word}` : word;
+    while (current.length > columns) {
+      lines.push(current.slice(0, columns));
+      current = current.slice(columns);
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+const columnsLine = (left: string, right: string, columns: number) => {
+  const space = columns - right.length;
+  const shown = left.length >= space ? left.slice(0, Math.max(0, space - 1)) : left;
+  return shown + " ".repeat(columns - shown.length - right.length) + right;
+};
+
+const rule = (columns: number) => line("-".repeat(columns));
+
+// GS ( k, QR model 2 with error correction level M
+const qrCode = (data: string, moduleSize: number) => {
+  const bytes = encodeText(data, true);
+  const length = bytes.length + 3;
+  return [
+    ...[GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00],
+    ...[GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, moduleSize],
+    ...[GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31],
+    ...[GS, 0x28, 0x6b, length & 0xff, length >> 8, 0x31, 0x50, 0x30, ...bytes],
+    ...[GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30],
+  ];
+};
+
+// GS v 0, normal density raster image
+const raster = (image: RasterImage) => {
+  const widthBytes = image.width / 8;
+  return [
+    GS, 0x76, 0x30, 0x00,
+    widthBytes & 0xff, widthBytes >> 8,
+    image.height & 0xff, image.height >> 8,
+    ...image.data,
+  ];
+};
+
+// Loads an image and thresholds it to black and white dots for the printer
+export const rasterizeImage = (url: string, maxWidth: number, maxHeight = 160): Promise<RasterImage> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onerror = () => reject(new Error("Could not load the receipt logo"));
+    img.onload = () => {
+      const scale = Math.min(1, maxWidth / img.naturalWidth, maxHeight / img.naturalHeight);
+      const width = Math.max(8, Math.floor((img.naturalWidth * scale) / 8) * 8);
+      const height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext("2d")!;
+      ctx.fillStyle = "#fff";
+      ctx.fillRect(0, 0, width, height);
+      ctx.drawImage(img, 0, 0, width, height);
+      const pixels = ctx.getImageData(0, 0, width, height).data;
+
+      const data = new Uint8Array((width / 8) * height);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const i = (y * width + x) * 4;
+          const luminance = 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+          if (luminance < 128) {
+            data[y * (width / 8) + (x >> 3)] |= 0x80 >> (x & 7);
+          }
+        }
+      }
+      resolve({ width, height, data });
+    };
+    img.src = url;
+  });
+
+export const logoMaxWidth = (paperWidth: PaperWidth) => Math.floor((paperDots[paperWidth] * 2) / 3 / 8) * 8;
+
+export const encodeReceipt = (receipt: ReceiptData, paperWidth: PaperWidth, logo: RasterImage | null = null) => {
+  const columns = paperColumns[paperWidth];
+  const amount = (value: number) => formatAmount(value, receipt.settings.locale);
+  const pair = (left: string, right: string) => line(columnsLine(left, right, columns));
+  const textLines = (text: string | null | undefined) =>
+    (text ?? "").split("\n").flatMap((t) => wrap(t, columns).flatMap((w) => line(w)));
+  const banner = receiptBanner(receipt);
+  const change = changeGiven(receipt);
+
+  const bytes: number[] = [
+    ...init(),
+    ...align("center"),
+    ...(logo ? [...raster(logo), LF] : []),
+    ...bold(true),
+    ...size(2, 2),
+    ...wrap(receipt.store.name, columns / 2).flatMap((t) => line(t)),
+    ...size(1, 1),
+    ...bold(false),
+    ...textLines(receipt.store.location),
+    ...textLines(receipt.store.phone),
+    ...(receipt.settings.kra_pin ? line(`KRA PIN: ${receipt.settings.kra_pin}`) : []),
+    ...textLines(receipt.settings.receipt_header),
+    ...align("left"),
+    ...rule(columns),
+    ...pair("Receipt", receipt.receipt_number),
+    ...pair("Date", receiptDate(receipt)),
+    ...(receipt.cashier_name ? pair("Served by", receipt.cashier_name) : []),
+    ...(receipt.customer_name ? pair("Customer", receipt.customer_name) : []),
+    ...(banner ? [...align("center"), ...bold(true), ...line(`*** ${banner} ***`), ...bold(false), ...align("left")] : []),
+    ...rule(columns),
+  ];
+
+  for (const item of receipt.items) {
+    bytes.push(...wrap(item.product_name, columns).flatMap((t) => line(t)));
+    bytes.push(...pair(`  ${item.quantity} x ${amount(Number(item.unit_price))}`, amount(itemGross(item))));
+    for (const [label, value] of itemDiscountLines(item)) {
+      bytes.push(...pair(`  ${label}`, `-${amount(value)}`));
+    }
+  }
+
+  bytes.push(...rule(columns));
+  const discount = receiptDiscount(receipt);
+  if (discount > 0) {
+    bytes.push(...pair("Subtotal", amount(receipt.subtotal)), ...pair("Discounts", `-${amount(discount)}`));
+  }
+
+  bytes.push(
+    ...bold(true),
+    ...size(1, 2),
+    ...pair("TOTAL", formatMoney(receipt.total_amount, receipt.settings, true)),
+    ...size(1, 1),
+    ...bold(false),
+    ...rule(columns)
+  );
+
+  // VAT table: rate, net and VAT in three columns
+  const vatRow = (rate: string, net: string, vat: string) => {
+    const third = Math.floor(columns / 3);
+    return line(rate.padEnd(columns - third * 2) + net.padStart(third) + vat.padStart(third));
+  };
+  bytes.push(...vatRow("VAT", "Net", "VAT"));
+  for (const v of vatBreakdown(receipt.items)) {
+    bytes.push(...vatRow(`${v.vat_rate}%`, amount(v.net), amount(v.vat)));
+  }
+  bytes.push(
+    ...bold(true),
+    ...vatRow("Total", amount(receipt.total_amount - receipt.vat_amount), amount(receipt.vat_amount)),
+    ...bold(false),
+    ...rule(columns)
+  );
+
+  for (const payment of receipt.payments) {
+    bytes.push(
+      ...pair(paymentMethodLabels[payment.payment_method], amount(Number(payment.amount) + Number(payment.change_amount)))
+    );
+    if (payment.reference_number) bytes.push(...line(`  Ref ${payment.reference_number}`));
+  }
+  if (change > 0) {
+    bytes.push(...bold(true), ...pair("Change", amount(change)), ...bold(false));
+  }
+
+  const loyalty = loyaltyLines(receipt);
+  if (loyalty) {
+    bytes.push(...rule(columns));
+    for (const [label, value] of loyalty) bytes.push(...pair(label, value));
+  }
+
+  // Long values such as the signature get a line of their own
+  const etims = etimsLines(receipt);
+  if (etims) {
+    bytes.push(...rule(columns), ...align("center"), ...bold(true), ...line("KRA eTIMS"), ...bold(false), ...align("left"));
+    for (const [label, value] of etims) {
+      bytes.push(
+        ...(label.length + value.length + 1 <= columns ? pair(label, value) : [...line(label), ...textLines(value)])
+      );
+    }
+  }
+
+  bytes.push(
+    ...rule(columns),
+    ...align("center"),
+    ...qrCode(receipt.qr_data, paperWidth === 58 ? 4 : 6),
+    LF,
+    ...textLines(receipt.settings.receipt_footer),
+    ...feed(4),
+    ...cut()
+  );
+
+  return new Uint8Array(bytes);
+};
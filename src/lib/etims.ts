@@ -0,0 +1,17 @@
+import { Enums } from "@/integrations/supabase/types";
+import { invokeFunction } from "@/lib/functions";
+
+export interface EtimsSubmitResult {
+  results: { sale_id: string; status: "signed" | "failed"; error?: string }[];
+}
+
+export const etimsStatusLabels: Record<Enums<"etims_status">, string> = {
+  pending: "Waiting",
+  submitting: "Submitting",
+  signed: "Signed",
+  failed: "Failed, will retry",
+};
+
+// Submits one sale, or every waiting sale of a store, without waiting for the retry delay
+export const submitToEtims = (target: { sale_id: string } | { store_id: string }) =>
+  invokeFunction<EtimsSubmitResult>("etims-submit", target);
@@ -0,0 +1,68 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+
+export type Cell = string | number | null | undefined;
+
+export interface ExportSection {
+  title: string;
+  head: string[];
+  body: Cell[][];
+}
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+const csvCell = (value: Cell) => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (sections: ExportSection[]) =>
+  sections
+    .map((section) =>
+      [[section.title], section.head, ...section.body].map((row) => row.map(csvCell).join(",")).join("\r\n")
+    )
+    .join("\r\n\r\n");
+
+export const downloadCsv = (filename: string, sections: ExportSection[]) => {
+  // The BOM makes Excel open the file as UTF-8
+  downloadBlob(new Blob(["﻿" + toCsv(sections)], { type: "text/csv;charset=utf-8" }), filename);
+};
+
+export const downloadPdf = (filename: string, title: string, subtitle: string, sections: ExportSection[]) => {
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  doc.setFontSize(16);
+  doc.text(title, 40, 40);
+  doc.setFontSize(10);
+  doc.text(subtitle, 40, 58);
+
+  let y = 80;
+  for (const section of sections) {
+    doc.setFontSize(12);
+    doc.text(section.title, 40, y);
+    autoTable(doc, {
+      startY: y + 8,
+      head: [section.head],
+      body: section.body.map((row) => row.map((cell) => (cell === null || cell === undefined ? "" : String(cell)))),
+      styles: { fontSize: 8 },
+      // --primary from index.css
+      headStyles: { fillColor: [21, 165, 193] },
+      margin: { left: 40, right: 40 },
+    });
+    y = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 28;
+    if (y > doc.internal.pageSize.getHeight() - 80) {
+      doc.addPage();
+      y = 40;
+    }
+  }
+
+  doc.save(filename);
+};
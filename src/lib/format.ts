@@ -0,0 +1,22 @@
+export interface MoneyFormat {
+  currency: string;
+  locale: string;
+}
+
+export const DEFAULT_MONEY_FORMAT: MoneyFormat = { currency: "KES", locale: "en-KE" };
+
+// Amounts are shown as "KES 1,234.50": the store's currency code followed by
+// the number in the store's locale, with cents only when there are any.
+export const formatMoney = (
+  amount: number,
+  { currency, locale }: MoneyFormat = DEFAULT_MONEY_FORMAT,
+  fixedDecimals = false
+) =>
+  `${currency} ${Number(amount || 0).toLocaleString(locale, {
+    minimumFractionDigits: fixedDecimals ? 2 : 0,
+    maximumFractionDigits: 2,
+  })}`;
+
+// Bare amounts for receipt columns, where the currency code is shown once
+export const formatAmount = (amount: number, locale = DEFAULT_MONEY_FORMAT.locale) =>
+  Number(amount || 0).toLocaleString(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
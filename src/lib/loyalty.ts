@@ -0,0 +1,17 @@
+import { Enums, Tables } from "@/integrations/supabase/types";
+
+export const loyaltyEntryLabels: Record<Enums<"loyalty_entry_type">, string> = {
+  earn: "Earned",
+  redeem: "Redeemed",
+  reverse_earn: "Earned points reversed",
+  refund_redeem: "Redeemed points returned",
+  return_credit: "Refund to points",
+  expire: "Expired",
+  adjust: "Adjustment",
+};
+
+// A customer is in the highest tier whose threshold their total purchases have reached
+export const tierFor = <T extends Pick<Tables<"loyalty_tiers">, "min_spend">>(tiers: T[], totalPurchases: number) =>
+  tiers
+    .filter((tier) => Number(tier.min_spend) <= totalPurchases)
+    .sort((a, b) => Number(b.min_spend) - Number(a.min_spend))[0] ?? null;
@@ -0,0 +1,84 @@
+// A small promise wrapper around IndexedDB for what the POS needs offline:
+// the product catalogue, promotions and sales waiting to be synced.
+
+const DB_NAME = "safiri-pos";
+const DB_VERSION = 2;
+
+export type OfflineStoreName = "products" | "sales" | "promotions";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore("products", { keyPath: "id" }).createIndex("store_id", "store_id");
+        db.createObjectStore("sales", { keyPath: "id" }).createIndex("store_id", "store_id");
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore("promotions", { keyPath: "id" }).createIndex("store_id", "store_id");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeName: OfflineStoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T> | void
+) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const getAllForStore = <T>(storeName: OfflineStoreName, storeId: string) =>
+  run<T[]>(storeName, "readonly", (store) => store.index("store_id").getAll(storeId));
+
+export const putRecord = <T>(storeName: OfflineStoreName, record: T) =>
+  run(storeName, "readwrite", (store) => {
+    store.put(record);
+  });
+
+export const deleteRecord = (storeName: OfflineStoreName, id: string) =>
+  run(storeName, "readwrite", (store) => {
+    store.delete(id);
+  });
+
+// Swaps a store's cached records for a fresh set in one transaction
+export const replaceForStore = async <T extends { id: string }>(
+  storeName: OfflineStoreName,
+  storeId: string,
+  records: T[]
+) => {
+  const db = await openDb();
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(storeName, "readwrite");
+    const store = transaction.objectStore(storeName);
+    const cursorRequest = store.index("store_id").openCursor(IDBKeyRange.only(storeId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        cursor.delete();
+        cursor.continue();
+      } else {
+        records.forEach((record) => store.put(record));
+      }
+    };
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
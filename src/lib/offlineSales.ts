@@ -0,0 +1,161 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Enums } from "@/integrations/supabase/types";
+import { deleteRecord, getAllForStore, putRecord, replaceForStore } from "@/lib/offlineDb";
+import type { DiscountInput, Promotion } from "@/lib/pricing";
+
+// Sales rung up while the till is offline. Each is kept in IndexedDB with the
+// id it will have on the server, so replaying it through create_sale after a
+// dropped response cannot record it twice.
+
+export interface OfflineSale {
+  id: string;
+  store_id: string;
+  till_id: string | null;
+  customer_id: string | null;
+  customer_name: string | null;
+  cashier_name: string | null;
+  provisional_receipt_number: string;
+  captured_at: string;
+  items: {
+    product_id: string;
+    product_name: string;
+    quantity: number;
+    unit_price: number;
+    vat_rate: number;
+    line_total: number;
+    // The till's promotions stand for offline sales; the server flags any it disagrees with
+    promotion_id: string | null;
+    promotion_name: string | null;
+    promotion_discount: number;
+    discount: DiscountInput | null;
+    manual_discount: number;
+    basket_discount: number;
+  }[];
+  basket_discount: DiscountInput | null;
+  payments: {
+    payment_method: Enums<"payment_method">;
+    amount: number;
+    tendered_amount: number;
+    reference_number?: string;
+  }[];
+  subtotal: number;
+  discount_amount: number;
+  vat_amount: number;
+  total_amount: number;
+  // Rejected sales were refused by the server and need a manager's attention
+  status: "queued" | "rejected";
+  attempts: number;
+  last_error: string | null;
+}
+
+export interface SyncResult {
+  synced: number;
+  conflicts: number;
+  rejected: number;
+}
+
+export const conflictLabels: Record<Enums<"sale_conflict_type">, string> = {
+  oversold: "Oversold",
+  price_changed: "Price changed",
+  product_unavailable: "Product deactivated",
+  promotion_changed: "Promotion changed",
+  shift_closed: "Shift closed",
+};
+
+const DEVICE_KEY = "pos-device-code";
+const SEQUENCE_KEY = "pos-offline-sequence";
+
+// Four characters that tell this device's provisional numbers apart from other tills'
+const deviceCode = () => {
+  let code = localStorage.getItem(DEVICE_KEY);
+  if (!code) {
+    code = crypto.randomUUID().replace(/-/g, "").slice(0, 4).toUpperCase();
+    localStorage.setItem(DEVICE_KEY, code);
+  }
+  return code;
+};
+
+export const nextProvisionalReceiptNumber = () => {
+  const sequence = Number(localStorage.getItem(SEQUENCE_KEY) ?? 0) + 1;
+  localStorage.setItem(SEQUENCE_KEY, String(sequence));
+  return `OFF-${deviceCode()}-${String(sequence).padStart(6, "0")}`;
+};
+
+// fetch rejects with a TypeError whose wording differs per browser
+export const isNetworkError = (error: unknown) => {
+  const message = (error as { message?: string })?.message ?? "";
+  return /Failed to fetch|NetworkError|Load failed|Network request failed/i.test(message);
+};
+
+export const cacheCatalogue = <T extends { id: string }>(storeId: string, products: T[]) =>
+  replaceForStore("products", storeId, products.map((product) => ({ ...product, store_id: storeId })));
+
+export const loadCatalogue = <T>(storeId: string) => getAllForStore<T>("products", storeId);
+
+export const cachePromotions = (storeId: string, promotions: Promotion[]) =>
+  replaceForStore("promotions", storeId, promotions);
+
+export const loadPromotions = (storeId: string) => getAllForStore<Promotion>("promotions", storeId);
+
+// Keeps the cached stock in step with sales made offline
+export const updateCachedProduct = <T extends { id: string }>(storeId: string, product: T) =>
+  putRecord("products", { ...product, store_id: storeId });
+
+export const queueOfflineSale = (sale: OfflineSale) => putRecord("sales", sale);
+
+export const getOfflineSales = async (storeId: string) =>
+  (await getAllForStore<OfflineSale>("sales", storeId)).sort((a, b) => a.captured_at.localeCompare(b.captured_at));
+
+// Puts a rejected sale back in the queue, e.g. after the product it needed was restored
+export const requeueOfflineSale = (sale: OfflineSale) => putRecord("sales", { ...sale, status: "queued" });
+
+// Drops a rejected sale once a manager has dealt with it
+export const discardOfflineSale = (saleId: string) => deleteRecord("sales", saleId);
+
+// Replays queued sales oldest first. A network failure stops the run and
+// leaves the rest queued for next time.
+export const syncOfflineSales = async (storeId: string): Promise<SyncResult> => {
+  const result: SyncResult = { synced: 0, conflicts: 0, rejected: 0 };
+  const queued = (await getOfflineSales(storeId)).filter((sale) => sale.status === "queued");
+
+  for (const sale of queued) {
+    const { data, error } = await supabase.rpc("create_sale", {
+      _store_id: sale.store_id,
+      _items: sale.items.map((item) => ({
+        product_id: item.product_id,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        discount: item.discount,
+        promotion_id: item.promotion_id,
+        promotion_discount: item.promotion_discount,
+      })),
+      _basket_discount: sale.basket_discount ?? undefined,
+      _payments: sale.payments,
+      _customer_id: sale.customer_id ?? undefined,
+      _till_id: sale.till_id ?? undefined,
+      _sale_id: sale.id,
+      _captured_at: sale.captured_at,
+      _provisional_receipt_number: sale.provisional_receipt_number,
+    });
+
+    if (error) {
+      // An access token that expired while offline is refreshed in the background; try again later
+      if (isNetworkError(error) || /JWT/.test(error.message)) break;
+      console.error(`Offline sale ${sale.provisional_receipt_number} was rejected:`, error);
+      await putRecord("sales", { ...sale, status: "rejected", attempts: sale.attempts + 1, last_error: error.message });
+      result.rejected++;
+      continue;
+    }
+
+    await deleteRecord("sales", sale.id);
+    result.synced++;
+
+    const { count } = await supabase
+      .from("sale_sync_conflicts")
+      .select("id", { count: "exact", head: true })
+      .eq("sale_id", data.id);
+    result.conflicts += count ?? 0;
+  }
+
+  return result;
+};
@@ -0,0 +1,12 @@
+import { Constants, Enums } from "@/integrations/supabase/types";
+
+export const paymentMethodLabels: Record<Enums<"payment_method">, string> = {
+  mpesa: "M-Pesa",
+  cash: "Cash",
+  card: "Card",
+  loyalty: "Points",
+};
+
+// Points are offered whenever the loyalty programme is on, so they are not
+// switched on and off with the other tenders
+export const storeTenderMethods = Constants.public.Enums.payment_method.filter((method) => method !== "loyalty");
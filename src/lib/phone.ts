@@ -0,0 +1,21 @@
+// Kenyan mobile numbers. Customers are stored as 2547XXXXXXXX (or 2541...) so
+// the same number typed as 07..., +254 7... or 7... finds the same customer.
+
+export const normalizePhone = (phone: string) => {
+  const match = phone.replace(/\D/g, "").match(/^(?:254|0)?([17]\d{8})$/);
+  return match ? `254${match[1]}` : null;
+};
+
+// 254712345678 -> 0712 345 678
+export const formatPhone = (phone: string) => {
+  const normalized = normalizePhone(phone);
+  if (!normalized) return phone;
+  const local = normalized.slice(3);
+  return `0${local.slice(0, 3)} ${local.slice(3, 6)} ${local.slice(6)}`;
+};
+
+// The part of a partly typed number that can be matched against stored numbers
+export const phoneSearchDigits = (query: string) => {
+  const digits = query.replace(/\D/g, "");
+  return digits.replace(/^(?:254|0)/, "");
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { CartLine, priceCart, Promotion } from "@/lib/pricing";
+
+// These cases pin the cent rounding that create_sale applies on the server;
+// a change here must be made there too.
+
+const at = new Date("2025-11-03T09:15:00.000Z");
+const timeZone = "Africa/Nairobi";
+
+const line = (product_id: string, unit_price: number, quantity = 1, extra: Partial<CartLine> = {}): CartLine => ({
+  product_id,
+  category_id: null,
+  quantity,
+  unit_price,
+  vat_rate: 16,
+  discount: null,
+  ...extra,
+});
+
+const promotion = (fields: Partial<Promotion>): Promotion => ({
+  id: "00000000-0000-0000-0000-000000000001",
+  store_id: "store",
+  name: "Promotion",
+  active: true,
+  promotion_type: "category_sale",
+  product_ids: [],
+  category_id: null,
+  discount_percent: null,
+  buy_quantity: null,
+  get_quantity: null,
+  bundle_quantity: null,
+  bundle_price: null,
+  days_of_week: null,
+  start_time: null,
+  end_time: null,
+  starts_at: null,
+  ends_at: null,
+  created_by: null,
+  created_at: "2025-11-01T00:00:00.000Z",
+  updated_at: "2025-11-01T00:00:00.000Z",
+  ...fields,
+});
+
+const options = { promotions: [], basketDiscount: null, approvalPercent: 10, at, timeZone };
+
+describe("priceCart", () => {
+  it("gives the basket discount's leftover cents to the first lines in product id order", () => {
+    const pricing = priceCart([line("c", 1), line("a", 1), line("b", 1)], {
+      ...options,
+      basketDiscount: { type: "amount", value: 1 },
+      approvalPercent: 50,
+    });
+
+    expect(pricing.lines.map((l) => l.basket_discount)).toEqual([0.33, 0.34, 0.33]);
+    expect(pricing.lines.map((l) => l.line_total)).toEqual([0.67, 0.66, 0.67]);
+    expect(pricing).toMatchObject({ subtotal: 3, discount: 1, total: 2, vat_amount: 0.28, needs_approval: false });
+  });
+
+  it("rounds percentage promotions on the line total, not per unit", () => {
+    const pricing = priceCart([line("a", 0.99, 3, { category_id: "drinks" })], {
+      ...options,
+      promotions: [promotion({ category_id: "drinks", discount_percent: 12.5 })],
+    });
+
+    expect(pricing.lines[0]).toMatchObject({ promotion_discount: 0.37, line_total: 2.6 });
+    expect(pricing.total).toBe(2.6);
+  });
+
+  it("rounds half cents of a manual discount up and asks for approval above the threshold", () => {
+    const pricing = priceCart([line("a", 0.25, 1, { discount: { type: "percent", value: 10 } })], options);
+
+    expect(pricing.lines[0]).toMatchObject({ manual_discount: 0.03, line_total: 0.22 });
+    expect(pricing.needs_approval).toBe(true);
+  });
+
+  it("makes the cheapest unit of each buy-2-get-1 group free", () => {
+    const pricing = priceCart([line("a", 70, 3), line("b", 50, 3)], {
+      ...options,
+      promotions: [promotion({ promotion_type: "buy_x_get_y", product_ids: ["a", "b"], buy_quantity: 2, get_quantity: 1 })],
+    });
+
+    // Dearest first: a a a | b b b, so one a and one b are free
+    expect(pricing.lines.map((l) => l.promotion_discount)).toEqual([70, 50]);
+    expect(pricing.total).toBe(240);
+  });
+});
@@ -0,0 +1,248 @@
+import { Enums, Tables } from "@/integrations/supabase/types";
+
+// Cart pricing, mirroring promotion_discounts, manual_discount_cents and
+// create_sale on the server so the till shows the totals the sale will be
+// recorded at. Everything is worked out in cents, in the same order and with
+// the same rounding as the server.
+
+export type Promotion = Tables<"promotions">;
+
+// A type rather than an interface so it can be sent as JSON
+export type DiscountInput = {
+  type: "percent" | "amount";
+  value: number;
+};
+
+export interface CartLine {
+  product_id: string;
+  category_id: string | null;
+  quantity: number;
+  unit_price: number;
+  vat_rate: number;
+  discount: DiscountInput | null;
+}
+
+export interface PricedLine {
+  promotion_id: string | null;
+  promotion_discount: number;
+  manual_discount: number;
+  basket_discount: number;
+  line_total: number;
+}
+
+export interface CartPricing {
+  lines: PricedLine[];
+  subtotal: number;
+  discount: number;
+  vat_amount: number;
+  total: number;
+  // A manual discount is above the store's approval threshold
+  needs_approval: boolean;
+}
+
+export const promotionTypeLabels: Record<Enums<"promotion_type">, string> = {
+  buy_x_get_y: "Buy X get Y",
+  bundle: "Bundle price",
+  happy_hour: "Happy hour",
+  category_sale: "Category sale",
+};
+
+const cents = (amount: number) => Math.round(amount * 100);
+
+// Byte order, as Postgres sorts ids; localeCompare skips the hyphens
+const compareText = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Day of the week (0 is Sunday) and HH:MM:SS at the store
+const storeClock = (at: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((p) => p.type === type)?.value ?? "";
+  return { day: WEEKDAYS.indexOf(part("weekday")), time: `${part("hour")}:${part("minute")}:${part("second")}` };
+};
+
+// Postgres TIME values may come back as HH:MM or HH:MM:SS
+const fullTime = (time: string) => (time.length === 5 ? `${time}:00` : time.slice(0, 8));
+
+export const isPromotionRunning = (promotion: Promotion, at: Date, timeZone: string) => {
+  if (!promotion.active) return false;
+  if (promotion.starts_at && new Date(promotion.starts_at) > at) return false;
+  if (promotion.ends_at && at >= new Date(promotion.ends_at)) return false;
+  if (promotion.promotion_type !== "happy_hour") return true;
+  if (!promotion.start_time || !promotion.end_time) return false;
+
+  const { day, time } = storeClock(at, timeZone);
+  if (promotion.days_of_week && !promotion.days_of_week.includes(day)) return false;
+
+  const start = fullTime(promotion.start_time);
+  const end = fullTime(promotion.end_time);
+  // A happy hour that ends before it starts runs past midnight
+  return start < end ? time >= start && time < end : time >= start || time < end;
+};
+
+const isQuantityDeal = (promotion: Promotion) =>
+  promotion.promotion_type === "buy_x_get_y" || promotion.promotion_type === "bundle";
+
+// Promotion discount in cents on each line, in the order given
+const promotionDiscounts = (promotions: Promotion[], lines: CartLine[], at: Date, timeZone: string) => {
+  const prices = lines.map((line) => cents(line.unit_price));
+  const discounts = lines.map(() => 0);
+  const promotionIds: (string | null)[] = lines.map(() => null);
+  const claimed = lines.map(() => false);
+
+  const running = promotions
+    .filter((promotion) => isPromotionRunning(promotion, at, timeZone))
+    .sort(
+      (a, b) =>
+        Number(!isQuantityDeal(a)) - Number(!isQuantityDeal(b)) ||
+        (b.discount_percent ?? -1) - (a.discount_percent ?? -1) ||
+        new Date(a.created_at).getTime() - new Date(b.created_at).getTime() ||
+        compareText(a.id, b.id)
+    );
+
+  for (const promotion of running) {
+    const qualifying = lines
+      .map((_, i) => i)
+      .filter(
+        (i) =>
+          !claimed[i] &&
+          (promotion.product_ids.includes(lines[i].product_id) ||
+            (promotion.category_id !== null && lines[i].category_id === promotion.category_id))
+      );
+    if (qualifying.length === 0) continue;
+
+    const found = lines.map(() => 0);
+
+    if (isQuantityDeal(promotion)) {
+      // One entry per unit, dearest first, split into complete groups
+      const units = qualifying
+        .flatMap((i) => Array<number>(lines[i].quantity).fill(i))
+        .sort((a, b) => prices[b] - prices[a] || a - b);
+      const size =
+        promotion.promotion_type === "bundle"
+          ? promotion.bundle_quantity!
+          : promotion.buy_quantity! + promotion.get_quantity!;
+
+      for (let start = 0; start + size <= units.length; start += size) {
+        const group = units.slice(start, start + size);
+        if (promotion.promotion_type === "buy_x_get_y") {
+          // The cheapest units of each group are free
+          group.slice(promotion.buy_quantity!).forEach((i) => (found[i] += prices[i]));
+        } else {
+          // The saving on the group comes off its dearest units first
+          let left = group.reduce((sum, i) => sum + prices[i], 0) - cents(Number(promotion.bundle_price));
+          for (const i of group) {
+            if (left <= 0) break;
+            const take = Math.min(left, prices[i]);
+            found[i] += take;
+            left -= take;
+          }
+        }
+      }
+    } else {
+      const percent = cents(Number(promotion.discount_percent));
+      qualifying.forEach((i) => (found[i] = Math.round((prices[i] * lines[i].quantity * percent) / 10000)));
+    }
+
+    if (found.every((amount) => amount === 0)) continue;
+
+    for (const i of qualifying) {
+      claimed[i] = true;
+      if (found[i] > 0) {
+        discounts[i] = found[i];
+        promotionIds[i] = promotion.id;
+      }
+    }
+  }
+
+  return lines.map((_, i) => ({ promotion_id: promotionIds[i], discount: discounts[i] }));
+};
+
+// Cents taken off base by a cashier's discount
+export const manualDiscountCents = (discount: DiscountInput | null, base: number) => {
+  if (!discount) return 0;
+  return discount.type === "percent"
+    ? Math.round((base * cents(discount.value)) / 10000)
+    : Math.min(cents(discount.value), base);
+};
+
+// Discounts above the store's threshold need a manager's PIN; a null threshold never asks
+export const needsApproval = (discountCents: number, baseCents: number, approvalPercent: number | null) =>
+  approvalPercent !== null && discountCents * 100 > baseCents * approvalPercent;
+
+export const priceCart = (
+  cart: CartLine[],
+  options: {
+    promotions: Promotion[];
+    basketDiscount: DiscountInput | null;
+    approvalPercent: number | null;
+    at: Date;
+    timeZone: string;
+  }
+): CartPricing => {
+  // The server works through lines in product id order, which decides where
+  // quantity deals and leftover basket cents land
+  const order = cart.map((_, i) => i).sort((a, b) => compareText(cart[a].product_id, cart[b].product_id));
+  const lines = order.map((i) => cart[i]);
+  const promotions = promotionDiscounts(options.promotions, lines, options.at, options.timeZone);
+
+  let approval = false;
+  const gross = lines.map((line) => cents(line.unit_price) * line.quantity);
+  const promotionCents = promotions.map((promotion) => promotion.discount);
+  const manualCents = lines.map((line, i) => {
+    const base = gross[i] - promotionCents[i];
+    const manual = manualDiscountCents(line.discount, base);
+    approval ||= needsApproval(manual, base, options.approvalPercent);
+    return manual;
+  });
+  const net = lines.map((_, i) => gross[i] - promotionCents[i] - manualCents[i]);
+
+  // Each line gets its share of the basket discount rounded down, and the
+  // cents left over go one at a time to the first lines with room
+  const basketBase = net.reduce((sum, amount) => sum + amount, 0);
+  const basketTotal = manualDiscountCents(options.basketDiscount, basketBase);
+  const basketCents = net.map((amount) => (basketTotal > 0 ? Math.floor((basketTotal * amount) / basketBase) : 0));
+  if (basketTotal > 0) {
+    approval ||= needsApproval(basketTotal, basketBase, options.approvalPercent);
+    let shared = basketCents.reduce((sum, amount) => sum + amount, 0);
+    for (let i = 0; i < lines.length && shared < basketTotal; i++) {
+      if (basketCents[i] < net[i]) {
+        basketCents[i]++;
+        shared++;
+      }
+    }
+  }
+
+  const priced: PricedLine[] = Array(cart.length);
+  let vat = 0;
+  order.forEach((cartIndex, i) => {
+    const lineTotal = (net[i] - basketCents[i]) / 100;
+    const rate = Number(cart[cartIndex].vat_rate);
+    vat += (lineTotal * rate) / (100 + rate);
+    priced[cartIndex] = {
+      promotion_id: promotions[i].promotion_id,
+      promotion_discount: promotionCents[i] / 100,
+      manual_discount: manualCents[i] / 100,
+      basket_discount: basketCents[i] / 100,
+      line_total: lineTotal,
+    };
+  });
+
+  const subtotalCents = gross.reduce((sum, amount) => sum + amount, 0);
+  const totalCents = net.reduce((sum, amount, i) => sum + amount - basketCents[i], 0);
+  return {
+    lines: priced,
+    subtotal: subtotalCents / 100,
+    discount: (subtotalCents - totalCents) / 100,
+    vat_amount: Math.round(vat * 100) / 100,
+    total: totalCents / 100,
+    needs_approval: approval,
+  };
+};
@@ -0,0 +1,126 @@
+// Sends ESC/POS bytes straight to a thermal printer over WebUSB or Web
+// Serial (Chromium only), with a .bin download where neither is available.
+// The paired connection is remembered per device, since each till has its
+// own printer.
+
+import { downloadBlob } from "@/lib/export";
+
+export type PrinterConnection = "usb" | "serial";
+
+// Just the parts of the WebUSB and Web Serial APIs used here; TypeScript's DOM lib has neither
+interface UsbEndpoint {
+  endpointNumber: number;
+  direction: "in" | "out";
+  type: string;
+}
+interface UsbInterface {
+  interfaceNumber: number;
+  alternate: { interfaceClass: number; endpoints: UsbEndpoint[] };
+}
+interface UsbDevice {
+  productName?: string;
+  configuration: { interfaces: UsbInterface[] } | null;
+  open(): Promise<void>;
+  close(): Promise<void>;
+  selectConfiguration(value: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  releaseInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<unknown>;
+}
+interface SerialPort {
+  writable: WritableStream<Uint8Array> | null;
+  open(options: { baudRate: number }): Promise<void>;
+  close(): Promise<void>;
+}
+interface PrinterNavigator {
+  usb?: {
+    getDevices(): Promise<UsbDevice[]>;
+    requestDevice(options: { filters: { classCode?: number }[] }): Promise<UsbDevice>;
+  };
+  serial?: {
+    getPorts(): Promise<SerialPort[]>;
+    requestPort(): Promise<SerialPort>;
+  };
+}
+
+const STORAGE_KEY = "receipt-printer";
+const USB_PRINTER_CLASS = 7;
+const SERIAL_BAUD_RATE = 9600;
+const USB_CHUNK_SIZE = 4096;
+
+const printerNavigator = () => navigator as unknown as PrinterNavigator;
+
+export const isUsbSupported = () => !!printerNavigator().usb;
+export const isSerialSupported = () => !!printerNavigator().serial;
+
+export const getPrinterConnection = (): PrinterConnection | null => {
+  const value = localStorage.getItem(STORAGE_KEY);
+  return value === "usb" || value === "serial" ? value : null;
+};
+
+export const forgetPrinter = () => localStorage.removeItem(STORAGE_KEY);
+
+// Must be called from a click handler: browsers only show the device picker on a user gesture
+export const pairPrinter = async (connection: PrinterConnection) => {
+  if (connection === "usb") {
+    if (!isUsbSupported()) throw new Error("This browser cannot print over USB");
+    await printerNavigator().usb!.requestDevice({ filters: [{ classCode: USB_PRINTER_CLASS }] });
+  } else {
+    if (!isSerialSupported()) throw new Error("This browser cannot print over a serial port");
+    await printerNavigator().serial!.requestPort();
+  }
+  localStorage.setItem(STORAGE_KEY, connection);
+};
+
+const printUsb = async (bytes: Uint8Array) => {
+  const [device] = await printerNavigator().usb!.getDevices();
+  if (!device) throw new Error("No USB printer paired on this device");
+
+  await device.open();
+  try {
+    if (!device.configuration) await device.selectConfiguration(1);
+    const printerInterface =
+      device.configuration!.interfaces.find((i) => i.alternate.interfaceClass === USB_PRINTER_CLASS) ??
+      device.configuration!.interfaces[0];
+    const endpoint = printerInterface.alternate.endpoints.find((e) => e.direction === "out" && e.type === "bulk");
+    if (!endpoint) throw new Error("The USB printer has no output endpoint");
+
+    await device.claimInterface(printerInterface.interfaceNumber);
+    try {
+      for (let offset = 0; offset < bytes.length; offset += USB_CHUNK_SIZE) {
+        await device.transferOut(endpoint.endpointNumber, bytes.slice(offset, offset + USB_CHUNK_SIZE));
+      }
+    } finally {
+      await device.releaseInterface(printerInterface.interfaceNumber);
+    }
+  } finally {
+    await device.close();
+  }
+};
+
+const printSerial = async (bytes: Uint8Array) => {
+  const [port] = await printerNavigator().serial!.getPorts();
+  if (!port) throw new Error("No serial printer paired on this device");
+
+  await port.open({ baudRate: SERIAL_BAUD_RATE });
+  try {
+    const writer = port.writable!.getWriter();
+    try {
+      await writer.write(bytes);
+    } finally {
+      writer.releaseLock();
+    }
+  } finally {
+    await port.close();
+  }
+};
+
+export const sendToPrinter = async (bytes: Uint8Array) => {
+  const connection = getPrinterConnection();
+  if (connection === "usb" && isUsbSupported()) return printUsb(bytes);
+  if (connection === "serial" && isSerialSupported()) return printSerial(bytes);
+  throw new Error("No receipt printer paired on this device");
+};
+
+export const downloadBytes = (bytes: Uint8Array, filename: string) =>
+  downloadBlob(new Blob([bytes], { type: "application/octet-stream" }), filename);
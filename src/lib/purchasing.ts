@@ -0,0 +1,33 @@
+import { Enums } from "@/integrations/supabase/types";
+
+export const purchaseOrderStatusLabels: Record<Enums<"purchase_order_status">, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_received: "Partly received",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+export const purchaseOrderStatusVariants: Record<
+  Enums<"purchase_order_status">,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  draft: "outline",
+  sent: "default",
+  partially_received: "secondary",
+  received: "secondary",
+  cancelled: "destructive",
+};
+
+export const invoiceMatchLabels: Record<Enums<"invoice_match_status">, string> = {
+  matched: "Matched",
+  mismatched: "Does not match",
+  approved: "Approved",
+};
+
+// One order line as save_purchase_order takes it
+export type PurchaseOrderLineInput = {
+  product_id: string;
+  quantity: number;
+  unit_cost: number;
+};
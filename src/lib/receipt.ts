@@ -0,0 +1,334 @@
+import { format } from "date-fns";
+import QRCode from "qrcode";
+import { supabase } from "@/integrations/supabase/client";
+import { Enums, Tables } from "@/integrations/supabase/types";
+import { formatAmount, formatMoney } from "@/lib/format";
+import { paymentMethodLabels } from "@/lib/payments";
+import type { OfflineSale } from "@/lib/offlineSales";
+
+export type PaperWidth = 58 | 80;
+
+export interface ReceiptData {
+  store: Pick<Tables<"stores">, "name" | "location" | "phone" | "email">;
+  settings: Pick<
+    Tables<"store_settings">,
+    "currency" | "locale" | "kra_pin" | "receipt_header" | "receipt_footer" | "receipt_logo_url" | "etims_enabled"
+  >;
+  receipt_number: string;
+  created_at: string;
+  status: Enums<"sale_status"> | null;
+  cashier_name: string | null;
+  customer_name: string | null;
+  items: {
+    product_name: string;
+    quantity: number;
+    unit_price: number;
+    vat_rate: number;
+    line_total: number;
+    promotion_discount?: number;
+    discount_amount?: number;
+    promotion_name?: string | null;
+  }[];
+  subtotal: number;
+  vat_amount: number;
+  total_amount: number;
+  payments: {
+    payment_method: Enums<"payment_method">;
+    amount: number;
+    change_amount: number;
+    reference_number: string | null;
+  }[];
+  // Control unit details once eTIMS has signed the sale
+  etims: {
+    cu_number: string;
+    cu_invoice_number: string;
+    signature: string;
+    internal_data: string | null;
+    signed_at: string;
+  } | null;
+  // Points earned and redeemed on this sale, and the customer's balance now
+  loyalty?: { earned: number; redeemed: number; balance: number } | null;
+  qr_data: string;
+  reprint?: boolean;
+  // Rung up offline; the final receipt number is assigned when the sale syncs
+  provisional?: boolean;
+}
+
+export interface VatLine {
+  vat_rate: number;
+  gross: number;
+  net: number;
+  vat: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Prices are VAT inclusive, so each rate's VAT is carved out of its gross total
+export const vatBreakdown = (items: ReceiptData["items"]): VatLine[] => {
+  const byRate = new Map<number, number>();
+  for (const item of items) {
+    const rate = Number(item.vat_rate);
+    byRate.set(rate, (byRate.get(rate) ?? 0) + Number(item.line_total));
+  }
+  return [...byRate.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([vat_rate, gross]) => {
+      const vat = round2((gross * vat_rate) / (100 + vat_rate));
+      return { vat_rate, gross: round2(gross), net: round2(gross - vat), vat };
+    });
+};
+
+// Each item prints at full price with its discounts beneath it, so the lines add up to the total
+export const itemGross = (item: ReceiptData["items"][number]) =>
+  round2(Number(item.line_total) + Number(item.discount_amount ?? 0));
+
+export const itemDiscountLines = (item: ReceiptData["items"][number]): [string, number][] => {
+  const promotion = Number(item.promotion_discount ?? 0);
+  const other = round2(Number(item.discount_amount ?? 0) - promotion);
+  const lines: [string, number][] = [];
+  if (promotion > 0) lines.push([item.promotion_name ?? "Promotion", promotion]);
+  if (other > 0) lines.push(["Discount", other]);
+  return lines;
+};
+
+export const receiptDiscount = (receipt: ReceiptData) => round2(receipt.subtotal - receipt.total_amount);
+
+export const receiptDate = (receipt: Pick<ReceiptData, "created_at">) =>
+  format(new Date(receipt.created_at), "dd/MM/yyyy HH:mm");
+
+export const receiptBanner = (receipt: ReceiptData) =>
+  receipt.status === "voided"
+    ? "VOID"
+    : receipt.provisional
+      ? "PROVISIONAL"
+      : receipt.reprint
+        ? "REPRINT"
+        : null;
+
+export const changeGiven = (receipt: ReceiptData) =>
+  receipt.payments.reduce((sum, p) => sum + Number(p.change_amount), 0);
+
+// Label and value rows for the fiscal block, shared by the HTML and ESC/POS layouts
+export const etimsLines = (receipt: ReceiptData): [string, string][] | null => {
+  if (receipt.etims) {
+    return [
+      ["CU Serial No", receipt.etims.cu_number],
+      ["CU Invoice No", receipt.etims.cu_invoice_number],
+      ["Signature", receipt.etims.signature],
+      ...(receipt.etims.internal_data ? [["Internal Data", receipt.etims.internal_data] as [string, string]] : []),
+      ["Signed", receiptDate({ created_at: receipt.etims.signed_at })],
+    ];
+  }
+  return receipt.settings.etims_enabled && receipt.status === "completed"
+    ? [["eTIMS", "Signature pending"]]
+    : null;
+};
+
+// Enough for staff to find the sale again from a customer's copy. Signed
+// sales use the eTIMS verification link instead.
+const defaultQrData = (receipt: Omit<ReceiptData, "qr_data">) =>
+  [
+    receipt.store.name,
+    receipt.settings.kra_pin && `PIN ${receipt.settings.kra_pin}`,
+    `Receipt ${receipt.receipt_number}`,
+    new Date(receipt.created_at).toISOString(),
+    `Total ${formatMoney(receipt.total_amount, receipt.settings, true)}`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+export const loyaltyLines = (receipt: ReceiptData): [string, string][] | null => {
+  if (!receipt.loyalty) return null;
+  const { earned, redeemed, balance } = receipt.loyalty;
+  const lines: [string, string][] = [];
+  if (earned) lines.push(["Points earned", String(earned)]);
+  if (redeemed) lines.push(["Points redeemed", String(redeemed)]);
+  lines.push(["Points balance", String(balance)]);
+  return lines;
+};
+
+export const fetchReceiptData = async (
+  saleId: string,
+  store: ReceiptData["store"],
+  settings: ReceiptData["settings"],
+  reprint = false
+): Promise<ReceiptData> => {
+  const { data: sale, error } = await supabase
+    .from("sales")
+    .select("*, cashier:profiles!sales_cashier_id_fkey(full_name), customer:customers(name, loyalty_points), sale_items(*, promotion:promotions(name)), payments(*), loyalty_transactions(entry_type, points)")
+    .eq("id", saleId)
+    .single();
+
+  if (error) throw error;
+
+  const pointsFor = (type: Enums<"loyalty_entry_type">) =>
+    sale.loyalty_transactions.filter((t) => t.entry_type === type).reduce((sum, t) => sum + t.points, 0);
+
+  const receipt = {
+    store,
+    settings,
+    receipt_number: sale.receipt_number,
+    created_at: sale.created_at,
+    status: sale.status,
+    cashier_name: sale.cashier?.full_name ?? null,
+    customer_name: sale.customer?.name ?? null,
+    items: sale.sale_items.map((item) => ({ ...item, promotion_name: item.promotion?.name ?? null })),
+    subtotal: Number(sale.subtotal),
+    vat_amount: Number(sale.vat_amount),
+    total_amount: Number(sale.total_amount),
+    payments: sale.payments.filter((p) => !p.reversed_at),
+    etims:
+      sale.etims_cu_number && sale.etims_cu_invoice_number && sale.etims_signature && sale.etims_signed_at
+        ? {
+            cu_number: sale.etims_cu_number,
+            cu_invoice_number: sale.etims_cu_invoice_number,
+            signature: sale.etims_signature,
+            internal_data: sale.etims_internal_data,
+            signed_at: sale.etims_signed_at,
+          }
+        : null,
+    loyalty:
+      sale.customer && (sale.loyalty_transactions.length > 0 || sale.customer.loyalty_points !== 0)
+        ? { earned: pointsFor("earn"), redeemed: -pointsFor("redeem"), balance: sale.customer.loyalty_points }
+        : null,
+    reprint,
+  };
+  return { ...receipt, qr_data: sale.etims_qr_data ?? defaultQrData(receipt) };
+};
+
+// Offline sales print from what the till recorded, since the server has not seen them yet
+export const offlineReceiptData = (
+  sale: OfflineSale,
+  store: ReceiptData["store"],
+  settings: ReceiptData["settings"]
+): ReceiptData => {
+  const receipt = {
+    store,
+    settings,
+    receipt_number: sale.provisional_receipt_number,
+    created_at: sale.captured_at,
+    status: "completed" as const,
+    cashier_name: sale.cashier_name,
+    customer_name: sale.customer_name,
+    items: sale.items.map((item) => ({
+      ...item,
+      discount_amount: round2(item.promotion_discount + item.manual_discount + item.basket_discount),
+    })),
+    subtotal: sale.subtotal,
+    vat_amount: sale.vat_amount,
+    total_amount: sale.total_amount,
+    payments: sale.payments.map((p) => ({
+      payment_method: p.payment_method,
+      amount: p.amount,
+      change_amount: p.tendered_amount - p.amount,
+      reference_number: p.reference_number ?? null,
+    })),
+    etims: null,
+    provisional: true,
+  };
+  return { ...receipt, qr_data: defaultQrData(receipt) };
+};
+
+export const receiptQrDataUrl = (receipt: ReceiptData) =>
+  QRCode.toDataURL(receipt.qr_data, { errorCorrectionLevel: "M", margin: 1, width: 160 });
+
+export const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+export const renderReceiptHtml = (receipt: ReceiptData, paperWidth: PaperWidth, qrDataUrl: string | null) => {
+  const amount = (value: number) => formatAmount(value, receipt.settings.locale);
+  const money = (value: number) => formatMoney(value, receipt.settings, true);
+  const row = (left: string, right: string, className = "") =>
+    `<tr class="${className}"><td>${escapeHtml(left)}</td><td class="r">${escapeHtml(right)}</td></tr>`;
+  const lines = (text: string | null | undefined) =>
+    text ? text.split("\n").map((line) => `<div>${escapeHtml(line)}</div>`).join("") : "";
+
+  const items = receipt.items
+    .map(
+      (item) =>
+        `<tr><td colspan="2">${escapeHtml(item.product_name)}</td></tr>` +
+        row(`${item.quantity} x ${amount(Number(item.unit_price))}`, amount(itemGross(item)), "i") +
+        itemDiscountLines(item)
+          .map(([label, value]) => row(label, `-${amount(value)}`, "i"))
+          .join("")
+    )
+    .join("");
+  const discount = receiptDiscount(receipt);
+  const vat = vatBreakdown(receipt.items)
+    .map(
+      (v) =>
+        `<tr><td>${v.vat_rate}%</td><td class="r">${amount(v.net)}</td><td class="r">${amount(v.vat)}</td></tr>`
+    )
+    .join("");
+  const payments = receipt.payments
+    .map(
+      (p) =>
+        row(paymentMethodLabels[p.payment_method], amount(Number(p.amount) + Number(p.change_amount))) +
+        (p.reference_number ? row(`  Ref ${p.reference_number}`, "", "i") : "")
+    )
+    .join("");
+  const change = changeGiven(receipt);
+  const banner = receiptBanner(receipt);
+  const etims = etimsLines(receipt);
+  const loyalty = loyaltyLines(receipt);
+
+  // Printable width is about 72mm on 80mm rolls and 48mm on 58mm rolls
+  const bodyWidth = paperWidth === 58 ? 48 : 72;
+  const fontSize = paperWidth === 58 ? 10 : 12;
+
+  return `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(receipt.receipt_number)}</title>
+<style>
+  @page { size: ${paperWidth}mm auto; margin: 0; }
+  body { width: ${bodyWidth}mm; margin: 2mm auto; font: ${fontSize}px/1.3 monospace; color: #000; }
+  .c { text-align: center; } .r { text-align: right; white-space: nowrap; } .b { font-weight: bold; }
+  .i td:first-child { padding-left: 2ch; } .big { font-size: 1.4em; }
+  table { width: 100%; border-collapse: collapse; } hr { border: 0; border-top: 1px dashed #000; margin: 1mm 0; }
+  img.logo { display: block; margin: 0 auto 1mm; max-width: 60%; max-height: 20mm; }
+  img.qr { display: block; margin: 1mm auto; width: 28mm; height: 28mm; }
+  .s { font-size: 0.85em; } .s td.r { white-space: normal; word-break: break-all; }
+</style></head><body>
+${receipt.settings.receipt_logo_url ? `<img class="logo" src="${escapeHtml(receipt.settings.receipt_logo_url)}" alt="">` : ""}
+<div class="c"><div class="b big">${escapeHtml(receipt.store.name)}</div>${lines(receipt.store.location)}${lines(receipt.store.phone)}
+${receipt.settings.kra_pin ? `<div>KRA PIN: ${escapeHtml(receipt.settings.kra_pin)}</div>` : ""}${lines(receipt.settings.receipt_header)}</div>
+<hr>
+<table>${row("Receipt", receipt.receipt_number)}${row("Date", receiptDate(receipt))}
+${receipt.cashier_name ? row("Served by", receipt.cashier_name) : ""}${receipt.customer_name ? row("Customer", receipt.customer_name) : ""}</table>
+${banner ? `<div class="c b">*** ${banner} ***</div>` : ""}
+<hr><table>${items}</table><hr>
+${discount > 0 ? `<table>${row("Subtotal", amount(receipt.subtotal))}${row("Discounts", `-${amount(discount)}`)}</table>` : ""}
+<table>${row("TOTAL", money(receipt.total_amount), "b big")}</table>
+<table><tr><td>VAT</td><td class="r">Net</td><td class="r">VAT</td></tr>${vat}
+<tr class="b"><td>Total</td><td class="r">${amount(receipt.total_amount - receipt.vat_amount)}</td><td class="r">${amount(receipt.vat_amount)}</td></tr></table>
+<hr><table>${payments}${change > 0 ? row("Change", amount(change), "b") : ""}</table><hr>
+${loyalty ? `<table>${loyalty.map(([label, value]) => row(label, value)).join("")}</table><hr>` : ""}
+${etims ? `<div class="c b">KRA eTIMS</div><table class="s">${etims.map(([label, value]) => row(label, value)).join("")}</table><hr>` : ""}
+${qrDataUrl ? `<img class="qr" src="${qrDataUrl}" alt="">` : ""}
+<div class="c">${lines(receipt.settings.receipt_footer)}</div>
+</body></html>`;
+};
+
+// Prints through a hidden iframe so the POS page itself is left untouched
+export const printHtml = (html: string) => {
+  const frame = document.createElement("iframe");
+  frame.style.position = "fixed";
+  frame.style.width = "0";
+  frame.style.height = "0";
+  frame.style.border = "0";
+  document.body.appendChild(frame);
+
+  const doc = frame.contentDocument!;
+  doc.open();
+  doc.write(html);
+  doc.close();
+
+  const win = frame.contentWindow!;
+  win.onafterprint = () => frame.remove();
+  // Wait for the logo and QR images before opening the print dialog
+  const images = Array.from(doc.images);
+  Promise.all(
+    images.map((img) => (img.complete ? null : new Promise((resolve) => (img.onload = img.onerror = resolve))))
+  ).then(() => {
+    win.focus();
+    win.print();
+  });
+};
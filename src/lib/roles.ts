@@ -0,0 +1,7 @@
+import { AppRole } from "@/hooks/useAuth";
+
+export const roleLabels: Record<AppRole, string> = {
+  admin: "Admin",
+  manager: "Manager",
+  cashier: "Cashier",
+};
@@ -0,0 +1,180 @@
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Enums, Tables } from "@/integrations/supabase/types";
+import { formatAmount } from "@/lib/format";
+import { paymentMethodLabels } from "@/lib/payments";
+import { escapeHtml, PaperWidth } from "@/lib/receipt";
+
+export type Shift = Tables<"till_shifts">;
+
+// Kenyan notes and coins, largest first, as counted into the drawer
+export const DENOMINATIONS = [1000, 500, 200, 100, 50, 20, 10, 5, 1];
+
+// How many of each note and coin, keyed by face value as the database stores them
+export type DenominationCounts = Record<string, number>;
+
+export const countDenominations = (counts: DenominationCounts) =>
+  Math.round(Object.entries(counts).reduce((sum, [value, count]) => sum + Number(value) * count, 0) * 100) / 100;
+
+export const cashMovementLabels: Record<Enums<"cash_movement_type">, string> = {
+  pay_in: "Pay-in",
+  pay_out: "Pay-out",
+  drop: "Cash drop",
+};
+
+// The figures returned by shift_report
+export interface ShiftTotals {
+  sales_count: number;
+  gross_sales: number;
+  discounts: number;
+  net_sales: number;
+  vat: number;
+  voids_count: number;
+  voids_total: number;
+  pending_count: number;
+  payments: Partial<Record<Enums<"payment_method">, number>>;
+  refunds: Partial<Record<Enums<"payment_method">, number>>;
+  returns_total: number;
+  opening_float: number;
+  cash_sales: number;
+  cash_refunds: number;
+  pay_ins: number;
+  pay_outs: number;
+  drops: number;
+  expected_cash: number;
+}
+
+export interface ShiftReportData {
+  shift: Shift;
+  till_name: string;
+  store_name: string;
+  opened_by_name: string | null;
+  closed_by_name: string | null;
+  movements: Tables<"cash_movements">[];
+  totals: ShiftTotals;
+  locale: string;
+}
+
+export const fetchShiftReport = async (
+  shiftId: string,
+  storeName: string,
+  locale: string
+): Promise<ShiftReportData> => {
+  const [shiftResult, totalsResult, movementsResult] = await Promise.all([
+    supabase
+      .from("till_shifts")
+      .select("*, till:tills(name), opener:profiles!till_shifts_opened_by_fkey(full_name), closer:profiles!till_shifts_closed_by_fkey(full_name)")
+      .eq("id", shiftId)
+      .single(),
+    supabase.rpc("shift_report", { _shift_id: shiftId }),
+    supabase.from("cash_movements").select("*").eq("shift_id", shiftId).order("created_at"),
+  ]);
+  if (shiftResult.error) throw shiftResult.error;
+  if (totalsResult.error) throw totalsResult.error;
+  if (movementsResult.error) throw movementsResult.error;
+
+  const { till, opener, closer, ...shift } = shiftResult.data;
+  return {
+    shift,
+    till_name: till?.name ?? "Till",
+    store_name: storeName,
+    opened_by_name: opener?.full_name ?? null,
+    closed_by_name: closer?.full_name ?? null,
+    movements: movementsResult.data,
+    totals: totalsResult.data as unknown as ShiftTotals,
+    locale,
+  };
+};
+
+// X reports are read mid-shift and change nothing; the Z report is the closed shift's
+export const shiftReportKind = (shift: Shift) => (shift.status === "closed" ? "Z" : "X");
+
+export const renderShiftReportHtml = (report: ShiftReportData, paperWidth: PaperWidth) => {
+  const { shift, totals } = report;
+  const amount = (value: number) => formatAmount(value, report.locale);
+  const row = (left: string, right: string, className = "") =>
+    `<tr class="${className}"><td>${escapeHtml(left)}</td><td class="r">${escapeHtml(right)}</td></tr>`;
+  const table = (rows: string[]) => `<table>${rows.join("")}</table>`;
+  const date = (value: string) => format(new Date(value), "dd/MM/yyyy HH:mm");
+  const kind = shiftReportKind(shift);
+
+  const byMethod = (amounts: ShiftTotals["payments"]) =>
+    (Object.entries(amounts) as [Enums<"payment_method">, number][]).map(([method, value]) =>
+      row(paymentMethodLabels[method], amount(value), "i")
+    );
+  const denominations = (counts: DenominationCounts) =>
+    Object.entries(counts)
+      .filter(([, count]) => count > 0)
+      .sort(([a], [b]) => Number(b) - Number(a))
+      .map(([value, count]) => row(`${count} x ${amount(Number(value))}`, amount(Number(value) * count), "i"));
+
+  const movements = report.movements.map((m) =>
+    row(
+      `${format(new Date(m.created_at), "HH:mm")} ${cashMovementLabels[m.movement_type]}${m.reason ? ` ${m.reason}` : ""}`,
+      `${m.movement_type === "pay_in" ? "" : "-"}${amount(Number(m.amount))}`,
+      "i"
+    )
+  );
+  const closing =
+    shift.status === "closed" && shift.closing_denominations
+      ? [
+          "<hr><div class=\"b\">Closing count</div>",
+          table([
+            ...denominations(shift.closing_denominations as DenominationCounts),
+            row("Counted", amount(Number(shift.counted_cash)), "b"),
+            row("Expected", amount(Number(shift.expected_cash))),
+            row(Number(shift.variance) < 0 ? "Short" : "Over", amount(Math.abs(Number(shift.variance))), "b"),
+          ]),
+        ].join("")
+      : "";
+
+  const fontSize = paperWidth === 58 ? 10 : 12;
+  return `<!doctype html><html><head><meta charset="utf-8"><title>${kind} report</title>
+<style>
+  @page { size: ${paperWidth}mm auto; margin: 0; }
+  body { width: ${paperWidth === 58 ? 48 : 72}mm; margin: 2mm auto; font: ${fontSize}px/1.3 monospace; color: #000; }
+  .c { text-align: center; } .r { text-align: right; white-space: nowrap; } .b { font-weight: bold; }
+  .i td:first-child { padding-left: 2ch; } .big { font-size: 1.4em; }
+  table { width: 100%; border-collapse: collapse; } hr { border: 0; border-top: 1px dashed #000; margin: 1mm 0; }
+</style></head><body>
+<div class="c"><div class="b big">${escapeHtml(report.store_name)}</div><div class="b">${kind} REPORT</div>
+${kind === "X" ? "<div>Shift still open</div>" : ""}</div>
+<hr>
+${table([
+  row("Till", report.till_name),
+  row("Shift", `#${shift.shift_number}`),
+  row("Opened", date(shift.opened_at)),
+  report.opened_by_name ? row("By", report.opened_by_name) : "",
+  shift.closed_at ? row("Closed", date(shift.closed_at)) : row("Printed", date(new Date().toISOString())),
+  report.closed_by_name ? row("By", report.closed_by_name) : "",
+])}
+<hr>
+${table([
+  row("Sales", String(totals.sales_count)),
+  row("Gross sales", amount(totals.gross_sales)),
+  totals.discounts > 0 ? row("Discounts", `-${amount(totals.discounts)}`) : "",
+  row("Net sales", amount(totals.net_sales), "b"),
+  row("VAT (incl.)", amount(totals.vat)),
+  totals.pending_count > 0 ? row("Awaiting M-Pesa", String(totals.pending_count)) : "",
+  row(`Voids (${totals.voids_count})`, amount(totals.voids_total)),
+  row("Returns", amount(totals.returns_total)),
+])}
+<hr><div class="b">Takings</div>
+${table(byMethod(totals.payments))}
+${Object.keys(totals.refunds).length > 0 ? `<div class="b">Refunds</div>${table(byMethod(totals.refunds))}` : ""}
+<hr><div class="b">Cash drawer</div>
+${table([
+  row("Opening float", amount(totals.opening_float)),
+  row("Cash sales", amount(totals.cash_sales)),
+  totals.cash_refunds > 0 ? row("Cash refunds", `-${amount(totals.cash_refunds)}`) : "",
+  totals.pay_ins > 0 ? row("Pay-ins", amount(totals.pay_ins)) : "",
+  totals.pay_outs > 0 ? row("Pay-outs", `-${amount(totals.pay_outs)}`) : "",
+  totals.drops > 0 ? row("Cash drops", `-${amount(totals.drops)}`) : "",
+  row("Expected in drawer", amount(totals.expected_cash), "b"),
+])}
+${movements.length > 0 ? table(movements) : ""}
+${closing}
+${shift.notes ? `<hr><div>${escapeHtml(shift.notes)}</div>` : ""}
+<hr><div class="c">End of ${kind} report</div>
+</body></html>`;
+};
@@ -0,0 +1,18 @@
+import { Enums } from "@/integrations/supabase/types";
+
+export const stocktakeStatusLabels: Record<Enums<"stocktake_status">, string> = {
+  counting: "Counting",
+  submitted: "Awaiting approval",
+  approved: "Approved",
+  cancelled: "Cancelled",
+};
+
+export const stocktakeStatusVariants: Record<
+  Enums<"stocktake_status">,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  counting: "default",
+  submitted: "outline",
+  approved: "secondary",
+  cancelled: "destructive",
+};
@@ -0,0 +1,19 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type StoreOption = Pick<Tables<"stores">, "id" | "name">;
+
+// The active stores the user is an admin of, which they can switch between and
+// compare
+export const fetchAdminStores = async (userId: string): Promise<StoreOption[]> => {
+  const { data, error } = await supabase
+    .from("user_roles")
+    .select("store:stores(id, name, active)")
+    .eq("user_id", userId)
+    .eq("role", "admin");
+  if (error) throw error;
+
+  return data
+    .flatMap(({ store }) => (store && store.active !== false ? [{ id: store.id, name: store.name }] : []))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -0,0 +1,34 @@
+// Which till this device is. Receipts are numbered per till when the store's
+// format includes {till}, so each checkout keeps its own choice.
+
+const STORAGE_KEY = "pos-till";
+
+export const getDeviceTillId = () => localStorage.getItem(STORAGE_KEY);
+
+export const setDeviceTillId = (tillId: string) => localStorage.setItem(STORAGE_KEY, tillId);
+
+export interface DocumentNumberSettings {
+  store_code: string;
+  receipt_prefix: string;
+  document_number_digits: number;
+}
+
+// Mirrors next_document_number in the database, for previews in Settings
+export const formatDocumentNumber = (
+  format: string,
+  settings: DocumentNumberSettings,
+  tillCode: string,
+  sequence: number,
+  date = new Date()
+) => {
+  const tokens: Record<string, string> = {
+    "{store}": settings.store_code,
+    "{till}": tillCode,
+    "{seq}": String(sequence).padStart(settings.document_number_digits, "0"),
+    "{prefix}": settings.receipt_prefix,
+    "{yyyy}": String(date.getFullYear()),
+    "{mm}": String(date.getMonth() + 1).padStart(2, "0"),
+    "{dd}": String(date.getDate()).padStart(2, "0"),
+  };
+  return Object.entries(tokens).reduce((result, [token, value]) => result.split(token).join(value), format);
+};
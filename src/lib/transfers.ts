@@ -0,0 +1,24 @@
+import { Enums } from "@/integrations/supabase/types";
+
+export const stockTransferStatusLabels: Record<Enums<"stock_transfer_status">, string> = {
+  draft: "Draft",
+  dispatched: "On the way",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+export const stockTransferStatusVariants: Record<
+  Enums<"stock_transfer_status">,
+  "default" | "secondary" | "destructive" | "outline"
+> = {
+  draft: "outline",
+  dispatched: "default",
+  received: "secondary",
+  cancelled: "destructive",
+};
+
+// One transfer line as save_stock_transfer takes it
+export type StockTransferLineInput = {
+  product_id: string;
+  quantity: number;
+};
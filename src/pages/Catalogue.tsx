@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Database, Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { fetchAdminStores, StoreOption } from "@/lib/stores";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import DataPagination from "@/components/DataPagination";
+import StorePriceDialog, { StorePriceTarget } from "@/components/stores/StorePriceDialog";
+import { toast } from "sonner";
+import { BookOpen, Plus, Search } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type CatalogueItem = Tables<"catalogue_items">;
+type Listing = Database["public"]["Functions"]["catalogue_listings"]["Returns"][number];
+
+const PAGE_SIZE = 20;
+
+const Catalogue = () => {
+  const { user } = useAuth();
+  const { formatCurrency } = useStoreSettings();
+  const [items, setItems] = useState<CatalogueItem[]>([]);
+  const [stores, setStores] = useState<StoreOption[]>([]);
+  // Keyed by catalogue item, then store
+  const [listings, setListings] = useState<Map<string, Map<string, Listing>>>(new Map());
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [priceTarget, setPriceTarget] = useState<StorePriceTarget | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    fetchAdminStores(user.id)
+      .then(setStores)
+      .catch((error) => console.error("Error fetching stores:", error));
+  }, [user]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch]);
+
+  const fetchCatalogue = useCallback(async () => {
+    setLoading(true);
+    try {
+      let query = supabase.from("catalogue_items").select("*", { count: "exact" });
+
+      if (debouncedSearch) {
+        // Strip characters that have meaning in PostgREST filter syntax
+        const term = debouncedSearch.replace(/[,()%*]/g, " ");
+        query = query.or(`name.ilike.%${term}%,sku.ilike.%${term}%,barcode.ilike.%${term}%`);
+      }
+
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, count, error } = await query.order("name").range(from, from + PAGE_SIZE - 1);
+      if (error) throw error;
+
+      const { data: listingData, error: listingError } = await supabase.rpc("catalogue_listings", {
+        _catalogue_item_ids: data.map((item) => item.id),
+      });
+      if (listingError) throw listingError;
+
+      const byItem = new Map<string, Map<string, Listing>>();
+      for (const listing of listingData) {
+        if (!byItem.has(listing.catalogue_item_id)) byItem.set(listing.catalogue_item_id, new Map());
+        byItem.get(listing.catalogue_item_id)!.set(listing.store_id, listing);
+      }
+
+      setItems(data);
+      setListings(byItem);
+      setTotal(count ?? 0);
+    } catch (error) {
+      console.error("Error fetching catalogue:", error);
+      toast.error("Failed to load catalogue");
+    } finally {
+      setLoading(false);
+    }
+  }, [debouncedSearch, page]);
+
+  useEffect(() => {
+    fetchCatalogue();
+  }, [fetchCatalogue]);
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold">Catalogue</h1>
+        <p className="text-muted-foreground mt-1">
+          Products shared by every store, with each store's price and stock. Names, SKUs and barcodes are edited in any
+          store's inventory and change everywhere.
+        </p>
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+            <Input
+              placeholder="Search by name, SKU or barcode..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-12">
+              <BookOpen className="w-10 h-10 mx-auto mb-2 text-muted-foreground" />
+              <p className="text-muted-foreground">No products found.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    {stores.map((s) => (
+                      <TableHead key={s.id} className="text-right whitespace-nowrap">
+                        {s.name}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <p className="font-medium">{item.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {[item.sku, item.barcode].filter(Boolean).join(" · ")}
+                        </p>
+                      </TableCell>
+                      {stores.map((s) => {
+                        const listing = listings.get(item.id)?.get(s.id);
+                        const target = {
+                          catalogue_item_id: item.id,
+                          item_name: item.name,
+                          store_id: s.id,
+                          store_name: s.name,
+                          selling_price: listing ? Number(listing.selling_price) : null,
+                        };
+                        return (
+                          <TableCell key={s.id} className="text-right">
+                            {listing ? (
+                              <button
+                                type="button"
+                                className={cn("text-right hover:underline", !listing.active && "text-muted-foreground")}
+                                title="Set price"
+                                onClick={() => setPriceTarget(target)}
+                              >
+                                <p className="font-medium">{formatCurrency(Number(listing.selling_price), true)}</p>
+                                <p
+                                  className={cn(
+                                    "text-xs text-muted-foreground",
+                                    listing.stock_quantity <= 0 && "text-destructive"
+                                  )}
+                                >
+                                  {listing.active ? `${listing.stock_quantity} in stock` : "Inactive"}
+                                </p>
+                              </button>
+                            ) : (
+                              <button
+                                type="button"
+                                className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-primary"
+                                onClick={() => setPriceTarget(target)}
+                              >
+                                <Plus className="w-3 h-3" />
+                                List
+                              </button>
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+          <DataPagination page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        </CardContent>
+      </Card>
+
+      <StorePriceDialog
+        open={!!priceTarget}
+        onOpenChange={(open) => !open && setPriceTarget(null)}
+        target={priceTarget}
+        onSaved={fetchCatalogue}
+      />
+    </div>
+  );
+};
+
+export default Catalogue;
@@ -0,0 +1,374 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { loyaltyEntryLabels, tierFor } from "@/lib/loyalty";
+import { formatPhone } from "@/lib/phone";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import DataPagination from "@/components/DataPagination";
+import CustomerFormDialog from "@/components/customers/CustomerFormDialog";
+import AdjustPointsDialog from "@/components/customers/AdjustPointsDialog";
+import { toast } from "sonner";
+import { ArrowLeft, Pencil, PlusCircle } from "lucide-react";
+
+type Purchase = Pick<Tables<"sales">, "id" | "receipt_number" | "created_at" | "total_amount" | "status"> & {
+  sale_items: { quantity: number }[];
+  credit_notes: { total_amount: number }[];
+};
+
+type LoyaltyEntry = Tables<"loyalty_transactions"> & {
+  sale: { receipt_number: string } | null;
+};
+
+const statusVariants: Record<string, "secondary" | "destructive" | "outline"> = {
+  completed: "secondary",
+  voided: "destructive",
+  pending: "outline",
+};
+
+const PAGE_SIZE = 20;
+
+const CustomerDetails = () => {
+  const { customerId } = useParams<{ customerId: string }>();
+  const { hasRole } = useAuth();
+  const { store, settings, formatCurrency } = useStoreSettings();
+  const [customer, setCustomer] = useState<Tables<"customers"> | null>(null);
+  const [purchases, setPurchases] = useState<Purchase[]>([]);
+  const [visits, setVisits] = useState<{ count: number; last: string | null }>({ count: 0, last: null });
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [editOpen, setEditOpen] = useState(false);
+  const [loyaltyEntries, setLoyaltyEntries] = useState<LoyaltyEntry[]>([]);
+  const [tiers, setTiers] = useState<Tables<"loyalty_tiers">[]>([]);
+  const [adjustOpen, setAdjustOpen] = useState(false);
+
+  const fetchCustomer = useCallback(async () => {
+    if (!customerId) return;
+    try {
+      const [{ data: customerData, error }, { count, error: countError }, { data: lastSale }] = await Promise.all([
+        supabase.from("customers").select("*").eq("id", customerId).maybeSingle(),
+        supabase
+          .from("sales")
+          .select("id", { count: "exact", head: true })
+          .eq("customer_id", customerId)
+          .eq("status", "completed"),
+        supabase
+          .from("sales")
+          .select("created_at")
+          .eq("customer_id", customerId)
+          .eq("status", "completed")
+          .order("created_at", { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+      ]);
+      if (error) throw error;
+      if (countError) throw countError;
+
+      setCustomer(customerData);
+      setVisits({ count: count ?? 0, last: lastSale?.created_at ?? null });
+    } catch (error) {
+      console.error("Error fetching customer:", error);
+      toast.error("Failed to load customer");
+    } finally {
+      setLoading(false);
+    }
+  }, [customerId]);
+
+  const fetchPurchases = useCallback(async () => {
+    if (!customerId) return;
+    const from = (page - 1) * PAGE_SIZE;
+    const { data, count, error } = await supabase
+      .from("sales")
+      .select("id, receipt_number, created_at, total_amount, status, sale_items(quantity), credit_notes(total_amount)", {
+        count: "exact",
+      })
+      .eq("customer_id", customerId)
+      .order("created_at", { ascending: false })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      console.error("Error fetching purchases:", error);
+      toast.error("Failed to load purchase history");
+      return;
+    }
+    setPurchases(data);
+    setTotal(count ?? 0);
+  }, [customerId, page]);
+
+  const fetchLoyalty = useCallback(async () => {
+    if (!customerId || !store) return;
+    const [{ data: entries, error }, { data: tierData, error: tierError }] = await Promise.all([
+      supabase
+        .from("loyalty_transactions")
+        .select("*, sale:sales(receipt_number)")
+        .eq("customer_id", customerId)
+        .order("created_at", { ascending: false })
+        .limit(50),
+      supabase.from("loyalty_tiers").select("*").eq("store_id", store.id),
+    ]);
+
+    if (error || tierError) {
+      console.error("Error fetching loyalty points:", error ?? tierError);
+      toast.error("Failed to load loyalty points");
+      return;
+    }
+    setLoyaltyEntries(entries);
+    setTiers(tierData);
+  }, [customerId, store]);
+
+  useEffect(() => {
+    fetchCustomer();
+  }, [fetchCustomer]);
+
+  useEffect(() => {
+    if (settings.loyalty_enabled) fetchLoyalty();
+  }, [settings.loyalty_enabled, fetchLoyalty]);
+
+  useEffect(() => {
+    fetchPurchases();
+  }, [fetchPurchases]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Customer not found</h2>
+        <Link to="/customers" className="text-primary hover:underline mt-2 inline-block">
+          Back to customers
+        </Link>
+      </div>
+    );
+  }
+
+  const averageSpend = visits.count > 0 ? Number(customer.total_purchases) / visits.count : 0;
+  const tier = tierFor(tiers, Number(customer.total_purchases));
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link to="/customers">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-3xl font-bold">{customer.name}</h1>
+            <p className="text-muted-foreground mt-1">
+              {formatPhone(customer.phone)}
+              {customer.email && ` · ${customer.email}`}
+            </p>
+            {customer.address && <p className="text-sm text-muted-foreground">{customer.address}</p>}
+          </div>
+        </div>
+        <Button variant="outline" onClick={() => setEditOpen(true)}>
+          <Pencil className="w-4 h-4 mr-2" />
+          Edit
+        </Button>
+      </div>
+
+      <div className={settings.loyalty_enabled ? "grid gap-4 md:grid-cols-4" : "grid gap-4 md:grid-cols-3"}>
+        <Card className="shadow-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Total purchases</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{formatCurrency(Number(customer.total_purchases))}</p>
+            <p className="text-xs text-muted-foreground">After refunds</p>
+          </CardContent>
+        </Card>
+        <Card className="shadow-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Visits</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{visits.count}</p>
+            <p className="text-xs text-muted-foreground">
+              {visits.last ? `Last ${new Date(visits.last).toLocaleDateString()}` : "No purchases yet"}
+            </p>
+          </CardContent>
+        </Card>
+        <Card className="shadow-card">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Average spend</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-2xl font-bold">{formatCurrency(averageSpend)}</p>
+            <p className="text-xs text-muted-foreground">Per visit</p>
+          </CardContent>
+        </Card>
+        {settings.loyalty_enabled && (
+          <Card className="shadow-card">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm font-medium text-muted-foreground">Loyalty points</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold">{customer.loyalty_points}</p>
+              <p className="text-xs text-muted-foreground">
+                Worth {formatCurrency(customer.loyalty_points * Number(settings.loyalty_point_value))}
+                {tier && ` · ${tier.name} tier`}
+              </p>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {settings.loyalty_enabled && (
+        <Card className="shadow-card">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Points history</CardTitle>
+            {hasRole("manager") && (
+              <Button variant="outline" size="sm" onClick={() => setAdjustOpen(true)}>
+                <PlusCircle className="w-4 h-4 mr-2" />
+                Adjust Points
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {loyaltyEntries.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No points earned yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Entry</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead className="text-right">Points</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loyaltyEntries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{new Date(entry.created_at).toLocaleString()}</TableCell>
+                      <TableCell>{loyaltyEntryLabels[entry.entry_type]}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {entry.sale_id && (
+                          <Link to={`/sales/${entry.sale_id}`} className="hover:underline">
+                            {entry.sale?.receipt_number ?? "Sale"}
+                          </Link>
+                        )}
+                        {entry.sale_id && entry.reason && " · "}
+                        {entry.reason}
+                        {entry.expires_at && entry.remaining > 0 && (
+                          <span className="block text-xs">
+                            {entry.remaining} expire {new Date(entry.expires_at).toLocaleDateString()}
+                          </span>
+                        )}
+                      </TableCell>
+                      <TableCell
+                        className={entry.points > 0 ? "text-right font-medium text-success" : "text-right font-medium"}
+                      >
+                        {entry.points > 0 ? `+${entry.points}` : entry.points}
+                      </TableCell>
+                      <TableCell className="text-right">{entry.balance_after}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>Purchase history</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {purchases.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No purchases yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Receipt</TableHead>
+                  <TableHead className="text-right">Items</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {purchases.map((sale) => {
+                  const refunded = sale.credit_notes.reduce((sum, note) => sum + Number(note.total_amount), 0);
+                  return (
+                    <TableRow key={sale.id}>
+                      <TableCell>{new Date(sale.created_at).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Link to={`/sales/${sale.id}`} className="font-medium hover:underline">
+                          {sale.receipt_number}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {sale.sale_items.reduce((sum, item) => sum + item.quantity, 0)}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[sale.status ?? "completed"]} className="capitalize">
+                          {sale.status}
+                        </Badge>
+                        {refunded > 0 && (
+                          <Badge variant="outline" className="ml-2">
+                            {formatCurrency(refunded)} refunded
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatCurrency(Number(sale.total_amount))}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          <DataPagination page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        </CardContent>
+      </Card>
+
+      {store && (
+        <CustomerFormDialog
+          open={editOpen}
+          onOpenChange={setEditOpen}
+          storeId={store.id}
+          customer={customer}
+          onSaved={setCustomer}
+        />
+      )}
+
+      <AdjustPointsDialog
+        open={adjustOpen}
+        onOpenChange={setAdjustOpen}
+        customer={customer}
+        onAdjusted={() => {
+          fetchCustomer();
+          fetchLoyalty();
+        }}
+      />
+    </div>
+  );
+};
+
+export default CustomerDetails;
@@ -0,0 +1,279 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { customerSearchFilter } from "@/lib/customers";
+import { formatPhone } from "@/lib/phone";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import DataPagination from "@/components/DataPagination";
+import CustomerFormDialog from "@/components/customers/CustomerFormDialog";
+import { toast } from "sonner";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  Contact,
+  History,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Search,
+  Trash2,
+} from "lucide-react";
+
+type Customer = Tables<"customers">;
+type SortColumn = "name" | "total_purchases" | "created_at";
+
+const PAGE_SIZE = 20;
+
+const Customers = () => {
+  const { hasRole } = useAuth();
+  const { store, formatCurrency } = useStoreSettings();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [sort, setSort] = useState<{ column: SortColumn; ascending: boolean }>({ column: "name", ascending: true });
+  const [page, setPage] = useState(1);
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+
+  // Any staff member can add and edit customers; deleting is for managers
+  const canDelete = hasRole("manager");
+  const storeId = store?.id;
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, sort]);
+
+  const fetchCustomers = useCallback(async () => {
+    if (!storeId) return;
+
+    setLoading(true);
+    try {
+      let query = supabase
+        .from("customers")
+        .select("*", { count: "exact" })
+        .eq("store_id", storeId);
+
+      if (debouncedSearch) {
+        query = query.or(customerSearchFilter(debouncedSearch));
+      }
+
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, count, error } = await query
+        .order(sort.column, { ascending: sort.ascending })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      setCustomers(data || []);
+      setTotal(count ?? 0);
+    } catch (error) {
+      console.error("Error fetching customers:", error);
+      toast.error("Failed to load customers");
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId, debouncedSearch, sort, page]);
+
+  useEffect(() => {
+    fetchCustomers();
+  }, [fetchCustomers]);
+
+  const toggleSort = (column: SortColumn) => {
+    setSort((current) =>
+      current.column === column
+        ? { column, ascending: !current.ascending }
+        : { column, ascending: column === "name" }
+    );
+  };
+
+  const deleteCustomer = async (customer: Customer) => {
+    const { error } = await supabase.from("customers").delete().eq("id", customer.id);
+
+    if (error) {
+      console.error("Error deleting customer:", error);
+      // Sales keep their customer, so customers with purchases cannot be removed
+      toast.error(
+        error.code === "23503" ? `${customer.name} has purchases and cannot be deleted` : "Failed to delete customer"
+      );
+      return;
+    }
+    toast.success(`${customer.name} deleted`);
+    fetchCustomers();
+  };
+
+  const sortHeader = (column: SortColumn, label: string, className?: string) => {
+    const Icon = sort.column !== column ? ArrowUpDown : sort.ascending ? ArrowUp : ArrowDown;
+    return (
+      <TableHead className={className}>
+        <button className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => toggleSort(column)}>
+          {label}
+          <Icon className="w-3 h-3" />
+        </button>
+      </TableHead>
+    );
+  };
+
+  if (!store) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Customers</h2>
+        <p className="text-muted-foreground mt-2">Your account is not assigned to a store yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Customers</h1>
+          <p className="text-muted-foreground mt-1">Customer contacts and their purchase history.</p>
+        </div>
+        <Button
+          onClick={() => {
+            setEditingCustomer(null);
+            setFormOpen(true);
+          }}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Customer
+        </Button>
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+            <Input
+              placeholder="Search by phone or name..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : customers.length === 0 ? (
+            <div className="text-center py-12">
+              <Contact className="w-10 h-10 mx-auto mb-2 text-muted-foreground" />
+              <p className="text-muted-foreground">No customers found.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {sortHeader("name", "Customer")}
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Email</TableHead>
+                  {sortHeader("created_at", "Added")}
+                  {sortHeader("total_purchases", "Total purchases", "text-right")}
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {customers.map((customer) => (
+                  <TableRow key={customer.id}>
+                    <TableCell>
+                      <Link to={`/customers/${customer.id}`} className="font-medium hover:underline">
+                        {customer.name}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{formatPhone(customer.phone)}</TableCell>
+                    <TableCell className="text-muted-foreground">{customer.email || "—"}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {new Date(customer.created_at).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatCurrency(Number(customer.total_purchases))}
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button size="icon" variant="ghost" className="h-8 w-8">
+                            <MoreHorizontal className="w-4 h-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem asChild>
+                            <Link to={`/customers/${customer.id}`}>
+                              <History className="w-4 h-4 mr-2" />
+                              Purchase history
+                            </Link>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => {
+                              setEditingCustomer(customer);
+                              setFormOpen(true);
+                            }}
+                          >
+                            <Pencil className="w-4 h-4 mr-2" />
+                            Edit
+                          </DropdownMenuItem>
+                          {canDelete && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem className="text-destructive" onClick={() => deleteCustomer(customer)}>
+                                <Trash2 className="w-4 h-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <DataPagination page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        </CardContent>
+      </Card>
+
+      <CustomerFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        storeId={store.id}
+        customer={editingCustomer}
+        onSaved={fetchCustomers}
+      />
+    </div>
+  );
+};
+
+export default Customers;
@@ -3,9 +3,11 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { DollarSign, ShoppingCart, Package, TrendingUp, FileText } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
 
 const Dashboard = () => {
   const { user } = useAuth();
+  const { store, settings, formatCurrency } = useStoreSettings();
   const [stats, setStats] = useState({
     todaySales: 0,
     todayTransactions: 0,
@@ -52,7 +54,7 @@ const Dashboard = () => {
           .eq("store_id", profile.store_id)
           .eq("active", true);
 
-        const lowStockCount = products?.filter(p => p.stock_quantity <= p.reorder_level).length || 0;
+        const lowStockCount = products?.filter(p => p.stock_quantity <= (p.reorder_level ?? settings.default_reorder_level)).length || 0;
         const totalProductCount = products?.length || 0;
 
         setStats({
@@ -69,12 +71,12 @@ const Dashboard = () => {
     };
 
     fetchDashboardData();
-  }, [user]);
+  }, [user, settings.default_reorder_level]);
 
   const statCards = [
     {
       title: "Today's Sales",
-      value: `KES ${stats.todaySales.toLocaleString()}`,
+      value: formatCurrency(stats.todaySales),
       icon: DollarSign,
       color: "text-success",
       bgColor: "bg-success/10",
@@ -110,6 +112,17 @@ const Dashboard = () => {
     );
   }
 
+  if (!store) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Dashboard</h2>
+        <p className="text-muted-foreground mt-2">
+          Your account is not assigned to a store yet. Ask an admin to add you to one.
+        </p>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-8">
       <div>
@@ -0,0 +1,425 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import DataPagination from "@/components/DataPagination";
+import ProductFormDialog from "@/components/inventory/ProductFormDialog";
+import StockAdjustDialog from "@/components/inventory/StockAdjustDialog";
+import CategoryManager from "@/components/inventory/CategoryManager";
+import { toast } from "sonner";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  FolderTree,
+  History,
+  MoreHorizontal,
+  Package,
+  Pencil,
+  Plus,
+  Power,
+  Search,
+  SlidersHorizontal,
+} from "lucide-react";
+
+type Product = Tables<"products"> & { category: { name: string } | null };
+type SortColumn = "name" | "sku" | "selling_price" | "cost_price" | "stock_quantity";
+
+const PAGE_SIZE = 20;
+
+const Inventory = () => {
+  const { user, hasRole } = useAuth();
+  const { settings, formatCurrency } = useStoreSettings();
+  const [storeId, setStoreId] = useState<string | null>(null);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [categories, setCategories] = useState<Tables<"categories">[]>([]);
+  const [suppliers, setSuppliers] = useState<Pick<Tables<"suppliers">, "id" | "name">[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState<"active" | "inactive" | "all">("active");
+  const [sort, setSort] = useState<{ column: SortColumn; ascending: boolean }>({ column: "name", ascending: true });
+  const [page, setPage] = useState(1);
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [adjustingProduct, setAdjustingProduct] = useState<Product | null>(null);
+  const [categoriesOpen, setCategoriesOpen] = useState(false);
+
+  // Product, price and stock changes are limited to managers by RLS
+  const canManage = hasRole("manager");
+
+  useEffect(() => {
+    const fetchStore = async () => {
+      if (!user) return;
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("store_id")
+        .eq("id", user.id)
+        .single();
+
+      if (profile?.store_id) {
+        setStoreId(profile.store_id);
+      } else {
+        setLoading(false);
+      }
+    };
+
+    fetchStore();
+  }, [user]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [search]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, categoryFilter, statusFilter, sort]);
+
+  const fetchCategories = useCallback(async () => {
+    if (!storeId) return;
+    const { data } = await supabase
+      .from("categories")
+      .select("*")
+      .eq("store_id", storeId)
+      .order("name");
+    setCategories(data || []);
+  }, [storeId]);
+
+  // Suppliers are managed by managers, who are the only ones editing products
+  useEffect(() => {
+    if (!storeId || !canManage) return;
+    supabase
+      .from("suppliers")
+      .select("id, name")
+      .eq("store_id", storeId)
+      .eq("active", true)
+      .order("name")
+      .then(({ data }) => setSuppliers(data || []));
+  }, [storeId, canManage]);
+
+  const fetchProducts = useCallback(async () => {
+    if (!storeId) return;
+
+    setLoading(true);
+    try {
+      let query = supabase
+        .from("products")
+        .select("*, category:categories(name)", { count: "exact" })
+        .eq("store_id", storeId);
+
+      if (debouncedSearch) {
+        // Strip characters that have meaning in PostgREST filter syntax
+        const term = debouncedSearch.replace(/[,()%*]/g, " ");
+        query = query.or(`name.ilike.%${term}%,sku.ilike.%${term}%,barcode.ilike.%${term}%`);
+      }
+      if (categoryFilter !== "all") {
+        query = query.eq("category_id", categoryFilter);
+      }
+      if (statusFilter !== "all") {
+        query = query.eq("active", statusFilter === "active");
+      }
+
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, count, error } = await query
+        .order(sort.column, { ascending: sort.ascending })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      setProducts((data as Product[]) || []);
+      setTotal(count ?? 0);
+    } catch (error) {
+      console.error("Error fetching products:", error);
+      toast.error("Failed to load products");
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId, debouncedSearch, categoryFilter, statusFilter, sort, page]);
+
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  useEffect(() => {
+    fetchProducts();
+  }, [fetchProducts]);
+
+  const toggleSort = (column: SortColumn) => {
+    setSort((current) =>
+      current.column === column
+        ? { column, ascending: !current.ascending }
+        : { column, ascending: true }
+    );
+  };
+
+  const toggleActive = async (product: Product) => {
+    const { error } = await supabase
+      .from("products")
+      .update({ active: !product.active })
+      .eq("id", product.id);
+
+    if (error) {
+      console.error("Error updating product:", error);
+      toast.error("Failed to update product");
+      return;
+    }
+    toast.success(`${product.name} ${product.active ? "deactivated" : "reactivated"}`);
+    fetchProducts();
+  };
+
+  const sortHeader = (column: SortColumn, label: string, className?: string) => {
+    const Icon = sort.column !== column ? ArrowUpDown : sort.ascending ? ArrowUp : ArrowDown;
+    return (
+      <TableHead className={className}>
+        <button className="inline-flex items-center gap-1 hover:text-foreground" onClick={() => toggleSort(column)}>
+          {label}
+          <Icon className="w-3 h-3" />
+        </button>
+      </TableHead>
+    );
+  };
+
+  if (!loading && !storeId) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Inventory</h2>
+        <p className="text-muted-foreground mt-2">Your account is not assigned to a store yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Inventory</h1>
+          <p className="text-muted-foreground mt-1">
+            Manage products, pricing, categories and stock levels.
+          </p>
+        </div>
+        {canManage && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setCategoriesOpen(true)}>
+              <FolderTree className="w-4 h-4 mr-2" />
+              Categories
+            </Button>
+            <Button
+              onClick={() => {
+                setEditingProduct(null);
+                setFormOpen(true);
+              }}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Product
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+              <Input
+                placeholder="Search by name, SKU or barcode..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={categoryFilter} onValueChange={setCategoryFilter}>
+              <SelectTrigger className="md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All categories</SelectItem>
+                {categories.map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as typeof statusFilter)}>
+              <SelectTrigger className="md:w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="inactive">Inactive</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : products.length === 0 ? (
+            <div className="text-center py-12">
+              <Package className="w-10 h-10 mx-auto mb-2 text-muted-foreground" />
+              <p className="text-muted-foreground">No products found.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {sortHeader("name", "Product")}
+                  {sortHeader("sku", "SKU")}
+                  <TableHead>Category</TableHead>
+                  {sortHeader("cost_price", "Cost", "text-right")}
+                  {sortHeader("selling_price", "Price", "text-right")}
+                  {sortHeader("stock_quantity", "Stock", "text-right")}
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {products.map((product) => {
+                  const lowStock = product.stock_quantity <= (product.reorder_level ?? settings.default_reorder_level);
+                  return (
+                    <TableRow key={product.id} className={product.active ? "" : "opacity-60"}>
+                      <TableCell>
+                        <p className="font-medium">{product.name}</p>
+                        {product.barcode && (
+                          <p className="text-xs text-muted-foreground">{product.barcode}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">{product.sku || "—"}</TableCell>
+                      <TableCell>{product.category?.name ?? "Uncategorised"}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(Number(product.cost_price))}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatCurrency(Number(product.selling_price))}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={lowStock ? "destructive" : "secondary"}>
+                          {product.stock_quantity}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={product.active ? "outline" : "secondary"}>
+                          {product.active ? "Active" : "Inactive"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button size="icon" variant="ghost" className="h-8 w-8">
+                              <MoreHorizontal className="w-4 h-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem asChild>
+                              <Link to={`/inventory/${product.id}/history`}>
+                                <History className="w-4 h-4 mr-2" />
+                                Stock history
+                              </Link>
+                            </DropdownMenuItem>
+                            {canManage && (
+                              <>
+                                <DropdownMenuItem onClick={() => setAdjustingProduct(product)}>
+                                  <SlidersHorizontal className="w-4 h-4 mr-2" />
+                                  Adjust stock
+                                </DropdownMenuItem>
+                                <DropdownMenuItem
+                                  onClick={() => {
+                                    setEditingProduct(product);
+                                    setFormOpen(true);
+                                  }}
+                                >
+                                  <Pencil className="w-4 h-4 mr-2" />
+                                  Edit
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem onClick={() => toggleActive(product)}>
+                                  <Power className="w-4 h-4 mr-2" />
+                                  {product.active ? "Deactivate" : "Reactivate"}
+                                </DropdownMenuItem>
+                              </>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          <DataPagination page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        </CardContent>
+      </Card>
+
+      {storeId && (
+        <>
+          <ProductFormDialog
+            open={formOpen}
+            onOpenChange={setFormOpen}
+            storeId={storeId}
+            categories={categories}
+            suppliers={suppliers}
+            product={editingProduct}
+            onSaved={fetchProducts}
+          />
+          <CategoryManager
+            open={categoriesOpen}
+            onOpenChange={setCategoriesOpen}
+            storeId={storeId}
+            categories={categories}
+            onChanged={() => {
+              fetchCategories();
+              fetchProducts();
+            }}
+          />
+        </>
+      )}
+      <StockAdjustDialog
+        product={adjustingProduct}
+        onOpenChange={(open) => !open && setAdjustingProduct(null)}
+        onAdjusted={fetchProducts}
+      />
+    </div>
+  );
+};
+
+export default Inventory;
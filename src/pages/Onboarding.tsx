@@ -0,0 +1,268 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { toast } from "sonner";
+import { ArrowLeft, ArrowRight, Loader2, Store } from "lucide-react";
+
+const onboardingSchema = z.object({
+  name: z.string().trim().min(2, { message: "Store name must be at least 2 characters" }),
+  location: z.string().trim().optional(),
+  phone: z.string().trim().optional(),
+  kra_pin: z.union([
+    z.literal(""),
+    z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z]\d{9}[A-Za-z]$/, { message: "KRA PINs look like P051234567X" }),
+  ]),
+  seed_categories: z.boolean(),
+  seed_products: z.boolean(),
+});
+
+type OnboardingValues = z.infer<typeof onboardingSchema>;
+
+const steps: { title: string; description: string; fields: (keyof OnboardingValues)[] }[] = [
+  { title: "Your store", description: "Tell us where you trade.", fields: ["name", "location", "phone"] },
+  { title: "Tax details", description: "Your KRA PIN is printed on receipts.", fields: ["kra_pin"] },
+  { title: "Catalogue", description: "Start empty or with a few examples.", fields: ["seed_categories", "seed_products"] },
+];
+
+const Onboarding = () => {
+  const navigate = useNavigate();
+  const { user, roles, loading: authLoading, refreshRoles } = useAuth();
+  const { store, loading: storeLoading, refresh } = useStoreSettings();
+  const [step, setStep] = useState(0);
+
+  const form = useForm<OnboardingValues>({
+    resolver: zodResolver(onboardingSchema),
+    defaultValues: {
+      name: "",
+      location: "",
+      phone: "",
+      kra_pin: "",
+      seed_categories: true,
+      seed_products: false,
+    },
+  });
+
+  useEffect(() => {
+    if (authLoading || storeLoading) return;
+    if (!user) {
+      navigate("/auth");
+    } else if (store || roles.length > 0) {
+      navigate("/");
+    }
+  }, [user, roles, store, authLoading, storeLoading, navigate]);
+
+  const next = async () => {
+    if (await form.trigger(steps[step].fields)) {
+      setStep(step + 1);
+    }
+  };
+
+  const onSubmit = async (values: OnboardingValues) => {
+    const { error } = await supabase.rpc("create_store_for_user", {
+      _name: values.name,
+      _location: values.location || undefined,
+      _phone: values.phone || undefined,
+      _kra_pin: values.kra_pin || undefined,
+      _seed_categories: values.seed_categories,
+      _seed_products: values.seed_products,
+    });
+
+    if (error) {
+      console.error("Error creating store:", error);
+      toast.error(`Failed to create store: ${error.message}`);
+      return;
+    }
+
+    await Promise.all([refreshRoles(), refresh()]);
+    toast.success(`${values.name} is ready`);
+    navigate("/");
+  };
+
+  if (authLoading || storeLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const current = steps[step];
+  const isLastStep = step === steps.length - 1;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 via-background to-success/10 p-4">
+      <Card className="w-full max-w-lg shadow-elevated">
+        <CardHeader className="space-y-1 text-center">
+          <div className="flex justify-center mb-4">
+            <div className="w-16 h-16 rounded-2xl bg-gradient-to-br from-primary to-success flex items-center justify-center">
+              <Store className="w-8 h-8 text-white" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl font-bold">{current.title}</CardTitle>
+          <CardDescription>{current.description}</CardDescription>
+          <div className="pt-4 space-y-1">
+            <Progress value={((step + 1) / steps.length) * 100} />
+            <p className="text-xs text-muted-foreground">
+              Step {step + 1} of {steps.length}
+            </p>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (isLastStep) {
+                  form.handleSubmit(onSubmit)(e);
+                } else {
+                  next();
+                }
+              }}
+              className="space-y-4"
+            >
+              {step === 0 && (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Store name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g. Mama Njeri Supermarket" autoFocus {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="location"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Location</FormLabel>
+                        <FormControl>
+                          <Input placeholder="e.g. Moi Avenue, Nairobi" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="phone"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Phone</FormLabel>
+                        <FormControl>
+                          <Input type="tel" placeholder="07XX XXX XXX" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+
+              {step === 1 && (
+                <FormField
+                  control={form.control}
+                  name="kra_pin"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>KRA PIN</FormLabel>
+                      <FormControl>
+                        <Input placeholder="P051234567X" autoFocus {...field} />
+                      </FormControl>
+                      <FormDescription>Optional. You can add it later in Settings.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              {step === 2 && (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="seed_categories"
+                    render={({ field }) => (
+                      <FormItem className="flex items-start gap-3 space-y-0 rounded-lg border p-4">
+                        <FormControl>
+                          <Checkbox
+                            checked={field.value || form.watch("seed_products")}
+                            disabled={form.watch("seed_products")}
+                            onCheckedChange={field.onChange}
+                          />
+                        </FormControl>
+                        <div className="space-y-1">
+                          <FormLabel>Create common categories</FormLabel>
+                          <FormDescription>Beverages, Groceries, Household, Personal Care and Snacks</FormDescription>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="seed_products"
+                    render={({ field }) => (
+                      <FormItem className="flex items-start gap-3 space-y-0 rounded-lg border p-4">
+                        <FormControl>
+                          <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                        <div className="space-y-1">
+                          <FormLabel>Add sample products</FormLabel>
+                          <FormDescription>
+                            A handful of everyday items with stock, so you can try a sale straight away
+                          </FormDescription>
+                        </div>
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+
+              <div className="flex gap-2 pt-2">
+                {step > 0 && (
+                  <Button type="button" variant="outline" onClick={() => setStep(step - 1)}>
+                    <ArrowLeft className="w-4 h-4 mr-2" />
+                    Back
+                  </Button>
+                )}
+                <Button type="submit" className="flex-1" disabled={form.formState.isSubmitting}>
+                  {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {isLastStep ? "Create Store" : "Continue"}
+                  {!isLastStep && <ArrowRight className="w-4 h-4 ml-2" />}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Onboarding;
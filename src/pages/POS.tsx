@@ -1,6 +1,9 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useNavigate } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,7 +11,36 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { toast } from "sonner";
-import { Search, Minus, Plus, Trash2, CreditCard, Smartphone, Banknote } from "lucide-react";
+import { Camera, Search, Minus, Percent, Plus, Tag, Trash2, Undo2, Vault, Wallet, WifiOff } from "lucide-react";
+import TenderDialog, { Tender } from "@/components/pos/TenderDialog";
+import AwaitingPaymentDialog from "@/components/pos/AwaitingPaymentDialog";
+import FindSaleDialog from "@/components/pos/FindSaleDialog";
+import ReceiptDialog from "@/components/sales/ReceiptDialog";
+import TillSelect from "@/components/pos/TillSelect";
+import CustomerPicker, { SaleCustomer } from "@/components/pos/CustomerPicker";
+import { getDeviceTillId } from "@/lib/tills";
+import { submitToEtims } from "@/lib/etims";
+import { findProductByCode, isCameraScanSupported, scanFailed, scanSucceeded } from "@/lib/barcode";
+import { useBarcodeScanner } from "@/hooks/useBarcodeScanner";
+import CameraScanDialog from "@/components/pos/CameraScanDialog";
+import DiscountDialog from "@/components/pos/DiscountDialog";
+import { DiscountInput, priceCart, Promotion } from "@/lib/pricing";
+import { ReceiptData, offlineReceiptData } from "@/lib/receipt";
+import { Shift } from "@/lib/shifts";
+import ShiftMenu from "@/components/shifts/ShiftMenu";
+import OpenShiftDialog from "@/components/shifts/OpenShiftDialog";
+import ShiftReportDialog from "@/components/shifts/ShiftReportDialog";
+import {
+  cacheCatalogue,
+  cachePromotions,
+  isNetworkError,
+  loadCatalogue,
+  loadPromotions,
+  nextProvisionalReceiptNumber,
+  OfflineSale,
+  queueOfflineSale,
+  updateCachedProduct,
+} from "@/lib/offlineSales";
 
 interface Product {
   id: string;
@@ -16,49 +48,149 @@ interface Product {
   selling_price: number;
   stock_quantity: number;
   vat_rate: number;
+  category_id: string | null;
+  barcode: string | null;
+  sku: string | null;
 }
 
 interface CartItem extends Product {
   quantity: number;
-  line_total: number;
+  discount: DiscountInput | null;
 }
 
 const POS = () => {
+  const navigate = useNavigate();
   const { user } = useAuth();
+  const { store, settings, formatCurrency } = useStoreSettings();
+  const { online, refreshQueue } = useOfflineSync();
+  const storeId = store?.id ?? null;
   const [products, setProducts] = useState<Product[]>([]);
+  // True while the product list comes from this device's saved copy
+  const [usingCachedCatalogue, setUsingCachedCatalogue] = useState(false);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
   const [cart, setCart] = useState<CartItem[]>([]);
+  const [basketDiscount, setBasketDiscount] = useState<DiscountInput | null>(null);
+  // Entered when a discount needs approval; the server checks it with the sale
+  const [approvalPin, setApprovalPin] = useState<string | null>(null);
+  // A product id, or "basket" for a discount on the whole sale
+  const [discountTarget, setDiscountTarget] = useState<string | null>(null);
+  // Happy hours start and end while the till is open
+  const [now, setNow] = useState(() => new Date());
+  const [customer, setCustomer] = useState<SaleCustomer | null>(null);
+  // The attached customer's redeemable points, when the loyalty programme is on
+  const [loyaltyPoints, setLoyaltyPoints] = useState<number | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [loading, setLoading] = useState(false);
-  const [storeId, setStoreId] = useState<string | null>(null);
+  const [tenderOpen, setTenderOpen] = useState(false);
+  const [pendingSale, setPendingSale] = useState<{ id: string; receipt_number: string } | null>(null);
+  const [findSaleOpen, setFindSaleOpen] = useState(false);
+  const [receiptSaleId, setReceiptSaleId] = useState<string | null>(null);
+  const [localReceipt, setLocalReceipt] = useState<ReceiptData | null>(null);
+  const [tillId, setTillId] = useState<string | null>(getDeviceTillId);
+  // The till's open shift: null when there is none, undefined until known or while offline
+  const [shift, setShift] = useState<Shift | null | undefined>(undefined);
+  const [openShiftOpen, setOpenShiftOpen] = useState(false);
+  const [reportShiftId, setReportShiftId] = useState<string | null>(null);
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const [unknownCode, setUnknownCode] = useState<string | null>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+
+  // Each successful load is saved on the device so the till can keep selling offline
+  const fetchProducts = async (storeId: string) => {
+    const { data: productsData, error } = await supabase
+      .from("products")
+      .select("id, name, selling_price, stock_quantity, vat_rate, category_id, barcode, sku")
+      .eq("store_id", storeId)
+      .eq("active", true)
+      .order("name");
+
+    if (productsData) {
+      setProducts(productsData);
+      setUsingCachedCatalogue(false);
+      cacheCatalogue(storeId, productsData).catch((cacheError) =>
+        console.error("Error caching products:", cacheError)
+      );
+      return;
+    }
+
+    console.error("Error fetching products:", error);
+    try {
+      const cached = await loadCatalogue<Product>(storeId);
+      setProducts(cached.sort((a, b) => a.name.localeCompare(b.name)));
+      setUsingCachedCatalogue(true);
+    } catch (cacheError) {
+      console.error("Error loading cached products:", cacheError);
+      toast.error("Failed to load products");
+    }
+  };
+
+  const fetchPromotions = async (storeId: string) => {
+    const { data, error } = await supabase.from("promotions").select("*").eq("store_id", storeId).eq("active", true);
+
+    if (data) {
+      setPromotions(data);
+      cachePromotions(storeId, data).catch((cacheError) => console.error("Error caching promotions:", cacheError));
+      return;
+    }
+
+    console.error("Error fetching promotions:", error);
+    try {
+      setPromotions(await loadPromotions(storeId));
+    } catch (cacheError) {
+      console.error("Error loading cached promotions:", cacheError);
+    }
+  };
+
+  useEffect(() => {
+    if (storeId) {
+      fetchProducts(storeId);
+      fetchPromotions(storeId);
+    }
+  }, [storeId]);
+
+  const fetchShift = async (tillId: string) => {
+    const { data, error } = await supabase
+      .from("till_shifts")
+      .select("*")
+      .eq("till_id", tillId)
+      .eq("status", "open")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching shift:", error);
+      setShift(undefined);
+      return;
+    }
+    setShift(data);
+  };
+
+  useEffect(() => {
+    setShift(undefined);
+    if (tillId && online) fetchShift(tillId);
+  }, [tillId, online]);
 
   useEffect(() => {
-    const fetchStoreAndProducts = async () => {
-      if (!user) return;
-
-      const { data: profile } = await supabase
-        .from("profiles")
-        .select("store_id")
-        .eq("id", user.id)
-        .single();
-
-      if (profile?.store_id) {
-        setStoreId(profile.store_id);
-
-        const { data: productsData } = await supabase
-          .from("products")
-          .select("id, name, selling_price, stock_quantity, vat_rate")
-          .eq("store_id", profile.store_id)
-          .eq("active", true)
-          .order("name");
-
-        if (productsData) {
-          setProducts(productsData);
-        }
+    const interval = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Checked again each time payment opens, since points expire and change at other tills
+  useEffect(() => {
+    setLoyaltyPoints(null);
+    if (!customer || !settings.loyalty_enabled || !online || !tenderOpen) return;
+
+    let cancelled = false;
+    supabase.rpc("loyalty_balance", { _customer_id: customer.id }).then(({ data, error }) => {
+      if (error) {
+        console.error("Error fetching loyalty balance:", error);
+        return;
       }
+      if (!cancelled) setLoyaltyPoints(data);
+    });
+    return () => {
+      cancelled = true;
     };
-
-    fetchStoreAndProducts();
-  }, [user]);
+  }, [customer, settings.loyalty_enabled, online, tenderOpen]);
 
   const addToCart = (product: Product) => {
     const existingItem = cart.find(item => item.id === product.id);
@@ -66,28 +198,61 @@ const POS = () => {
     if (existingItem) {
       if (existingItem.quantity >= product.stock_quantity) {
         toast.error("Not enough stock available");
-        return;
+        return false;
       }
       updateQuantity(product.id, existingItem.quantity + 1);
     } else {
+      if (product.stock_quantity <= 0) {
+        toast.error(`${product.name} is out of stock`);
+        return false;
+      }
       const newItem: CartItem = {
         ...product,
         quantity: 1,
-        line_total: Number(product.selling_price),
+        discount: null,
       };
       setCart([...cart, newItem]);
     }
+    return true;
   };
 
+  const handleScan = (code: string) => {
+    // Scans typed into the search box land there too; take them back out
+    setSearchQuery((query) => (query.endsWith(code) ? query.slice(0, -code.length) : query));
+
+    const product = findProductByCode(products, code);
+    if (product && addToCart(product)) {
+      scanSucceeded();
+      setUnknownCode(null);
+      return;
+    }
+
+    scanFailed();
+    if (!product) {
+      setUnknownCode(code);
+      toast.error(`No product with barcode or SKU ${code}`);
+    }
+  };
+
+  useBarcodeScanner({
+    enabled:
+      !tenderOpen &&
+      !pendingSale &&
+      !findSaleOpen &&
+      !receiptSaleId &&
+      !localReceipt &&
+      !cameraOpen &&
+      !discountTarget &&
+      !openShiftOpen &&
+      !reportShiftId,
+    onScan: handleScan,
+    allowIn: searchInputRef,
+  });
+
   const updateQuantity = (productId: string, newQuantity: number) => {
     setCart(cart.map(item => {
       if (item.id === productId) {
-        const quantity = Math.max(0, newQuantity);
-        return {
-          ...item,
-          quantity,
-          line_total: Number(item.selling_price) * quantity,
-        };
+        return { ...item, quantity: Math.max(0, newQuantity) };
       }
       return item;
     }).filter(item => item.quantity > 0));
@@ -97,16 +262,116 @@ const POS = () => {
     setCart(cart.filter(item => item.id !== productId));
   };
 
-  const calculateTotals = () => {
-    const subtotal = cart.reduce((sum, item) => sum + item.line_total, 0);
-    const vatAmount = cart.reduce((sum, item) => {
-      const itemVat = (item.line_total * item.vat_rate) / (100 + item.vat_rate);
-      return sum + itemVat;
-    }, 0);
-    return { subtotal, vatAmount, total: subtotal };
+  const applyDiscount = (discount: DiscountInput | null, managerPin?: string) => {
+    if (discountTarget === "basket") {
+      setBasketDiscount(discount);
+    } else {
+      setCart(cart.map((item) => (item.id === discountTarget ? { ...item, discount } : item)));
+    }
+    if (managerPin) setApprovalPin(managerPin);
+  };
+
+  const clearSale = () => {
+    setCart([]);
+    setCustomer(null);
+    setBasketDiscount(null);
+    setApprovalPin(null);
+  };
+
+  // Promotions and discounts are worked out the same way the server will
+  const pricing = priceCart(
+    cart.map((item) => ({
+      product_id: item.id,
+      category_id: item.category_id,
+      quantity: item.quantity,
+      unit_price: Number(item.selling_price),
+      vat_rate: Number(item.vat_rate),
+      discount: item.discount,
+    })),
+    {
+      promotions,
+      basketDiscount,
+      approvalPercent:
+        settings.discount_approval_percent === null ? null : Number(settings.discount_approval_percent),
+      at: now,
+      timeZone: settings.timezone,
+    }
+  );
+  const promotionNames = new Map(promotions.map((promotion) => [promotion.id, promotion.name]));
+
+  // Sign the sale before showing the receipt so the printout carries the
+  // eTIMS details. Failures stay queued and are retried on the server.
+  const fiscalise = async (saleId: string) => {
+    if (!settings.etims_enabled) return;
+    try {
+      await submitToEtims({ sale_id: saleId });
+    } catch (error) {
+      console.error("eTIMS submission error:", error);
+    }
   };
 
-  const handleCheckout = async (paymentMethod: 'mpesa' | 'cash' | 'card') => {
+  // Records the sale on this device to be synced later, with a provisional receipt
+  const captureOffline = async (saleId: string, tenders: Tender[]) => {
+    // A manager's PIN can only be checked by the server
+    if (pricing.needs_approval) {
+      toast.error(`Discounts above ${settings.discount_approval_percent}% need the till to be online`);
+      return;
+    }
+
+    const sale: OfflineSale = {
+      id: saleId,
+      store_id: storeId!,
+      till_id: tillId,
+      customer_id: customer?.id ?? null,
+      customer_name: customer?.name ?? null,
+      cashier_name: user?.user_metadata?.full_name ?? null,
+      provisional_receipt_number: nextProvisionalReceiptNumber(),
+      captured_at: new Date().toISOString(),
+      items: cart.map((item, index) => ({
+        product_id: item.id,
+        product_name: item.name,
+        quantity: item.quantity,
+        unit_price: Number(item.selling_price),
+        vat_rate: Number(item.vat_rate),
+        ...pricing.lines[index],
+        promotion_name: promotionNames.get(pricing.lines[index].promotion_id ?? "") ?? null,
+        discount: item.discount,
+      })),
+      basket_discount: basketDiscount,
+      payments: tenders.map((tender) => ({
+        payment_method: tender.payment_method,
+        amount: tender.amount,
+        tendered_amount: tender.tendered_amount,
+        reference_number: tender.reference_number,
+      })),
+      subtotal: pricing.subtotal,
+      discount_amount: pricing.discount,
+      vat_amount: pricing.vat_amount,
+      total_amount: pricing.total,
+      status: "queued",
+      attempts: 0,
+      last_error: null,
+    };
+
+    await queueOfflineSale(sale);
+
+    const sold = new Map(cart.map((item) => [item.id, item.quantity]));
+    const remaining = products.map((product) =>
+      sold.has(product.id) ? { ...product, stock_quantity: product.stock_quantity - sold.get(product.id)! } : product
+    );
+    setProducts(remaining);
+    await Promise.all(
+      remaining.filter((product) => sold.has(product.id)).map((product) => updateCachedProduct(storeId!, product))
+    ).catch((error) => console.error("Error updating cached stock:", error));
+
+    setTenderOpen(false);
+    clearSale();
+    refreshQueue();
+    toast.success(`Sale saved offline. Provisional receipt: ${sale.provisional_receipt_number}`);
+    setLocalReceipt(offlineReceiptData(sale, store!, settings));
+  };
+
+  const handleCheckout = async (tenders: Tender[]) => {
     if (cart.length === 0) {
       toast.error("Cart is empty");
       return;
@@ -117,91 +382,139 @@ const POS = () => {
       return;
     }
 
+    // The id is chosen here so a sale whose response was lost can be safely resent
+    const saleId = crypto.randomUUID();
+    // Prompts and point balances can only be checked by the server
+    const needsServer = tenders.some((tender) => tender.payer_phone || tender.payment_method === "loyalty");
+
     setLoading(true);
     try {
-      const { subtotal, vatAmount, total } = calculateTotals();
-      const receiptNumber = `RCP-${Date.now()}`;
-
-      // Create sale
-      const { data: sale, error: saleError } = await supabase
-        .from("sales")
-        .insert({
-          receipt_number: receiptNumber,
-          store_id: storeId,
-          cashier_id: user!.id,
-          subtotal,
-          vat_amount: vatAmount,
-          total_amount: total,
-          status: "completed",
-        })
-        .select()
-        .single();
-
-      if (saleError) throw saleError;
-
-      // Create sale items
-      const saleItems = cart.map(item => ({
-        sale_id: sale.id,
-        product_id: item.id,
-        product_name: item.name,
-        quantity: item.quantity,
-        unit_price: item.selling_price,
-        vat_rate: item.vat_rate,
-        line_total: item.line_total,
-      }));
-
-      const { error: itemsError } = await supabase
-        .from("sale_items")
-        .insert(saleItems);
-
-      if (itemsError) throw itemsError;
-
-      // Create payment
-      const { error: paymentError } = await supabase
-        .from("payments")
-        .insert({
-          sale_id: sale.id,
-          payment_method: paymentMethod,
-          amount: total,
-        });
-
-      if (paymentError) throw paymentError;
-
-      // Update stock quantities
-      for (const item of cart) {
-        await supabase
-          .from("products")
-          .update({ stock_quantity: item.stock_quantity - item.quantity })
-          .eq("id", item.id);
+      if (!online) {
+        await captureOffline(saleId, tenders);
+        return;
+      }
+
+      // Sale, items, payment and stock update are written in one transaction
+      const { data: sale, error } = await supabase.rpc("create_sale", {
+        _store_id: storeId,
+        _items: cart.map(item => ({
+          product_id: item.id,
+          quantity: item.quantity,
+          discount: item.discount,
+        })),
+        _basket_discount: basketDiscount ?? undefined,
+        _manager_pin: approvalPin ?? undefined,
+        _payments: tenders.map(tender => ({
+          payment_method: tender.payment_method,
+          amount: tender.amount,
+          tendered_amount: tender.tendered_amount,
+          reference_number: tender.reference_number,
+          payer_phone: tender.payer_phone,
+        })),
+        _customer_id: customer?.id,
+        _till_id: tillId ?? undefined,
+        _sale_id: saleId,
+      });
+
+      if (error && isNetworkError(error) && !needsServer) {
+        await captureOffline(saleId, tenders);
+        return;
       }
+      if (error?.code === "28P01") setApprovalPin(null);
+      if (error) throw error;
+
+      setTenderOpen(false);
 
-      toast.success(`Sale completed! Receipt: ${receiptNumber}`);
-      setCart([]);
-      
-      // Refresh products
-      const { data: productsData } = await supabase
-        .from("products")
-        .select("id, name, selling_price, stock_quantity, vat_rate")
-        .eq("store_id", storeId)
-        .eq("active", true)
-        .order("name");
-
-      if (productsData) {
-        setProducts(productsData);
+      // STK push payments keep the sale pending until M-Pesa confirms
+      if (sale.status === "pending") {
+        setPendingSale({ id: sale.id, receipt_number: sale.receipt_number });
+        return;
       }
+
+      const change = tenders.reduce((sum, t) => sum + t.tendered_amount - t.amount, 0);
+      toast.success(
+        change > 0
+          ? `Sale completed! Receipt: ${sale.receipt_number}. Change: ${formatCurrency(change)}`
+          : `Sale completed! Receipt: ${sale.receipt_number}`,
+        { action: { label: "View", onClick: () => navigate(`/sales/${sale.id}`) } }
+      );
+      clearSale();
+      await fiscalise(sale.id);
+      setReceiptSaleId(sale.id);
     } catch (error) {
       console.error("Checkout error:", error);
-      toast.error("Failed to complete sale");
+      const message = (error as { message?: string })?.message;
+      toast.error(message ? `Failed to complete sale: ${message}` : "Failed to complete sale");
     } finally {
       setLoading(false);
+      // Refresh products so stock and prices reflect the server
+      if (navigator.onLine) {
+        fetchProducts(storeId);
+        fetchPromotions(storeId);
+        if (tillId) fetchShift(tillId);
+      }
     }
   };
 
-  const filteredProducts = products.filter(p =>
-    p.name.toLowerCase().includes(searchQuery.toLowerCase())
-  );
+  const handlePendingResolved = async (status: "completed" | "voided", message?: string) => {
+    const sale = pendingSale;
+    setPendingSale(null);
+    if (storeId) fetchProducts(storeId);
+    if (!sale) return;
+
+    if (status === "completed") {
+      toast.success(`M-Pesa payment confirmed! Receipt: ${sale.receipt_number}`);
+      clearSale();
+      await fiscalise(sale.id);
+      setReceiptSaleId(sale.id);
+    } else {
+      toast.error(message ? `Sale not completed: ${message}` : "M-Pesa payment was not completed");
+    }
+  };
 
-  const { subtotal, vatAmount, total } = calculateTotals();
+  const filteredProducts = products.filter(p => {
+    const query = searchQuery.toLowerCase();
+    return (
+      p.name.toLowerCase().includes(query) ||
+      p.barcode?.includes(searchQuery) ||
+      p.sku?.toLowerCase().includes(query)
+    );
+  });
+
+  const { subtotal, discount, vat_amount: vatAmount, total } = pricing;
+  const discountItem = cart.find((item) => item.id === discountTarget);
+  const discountBase =
+    discountTarget === "basket"
+      ? pricing.lines.reduce((sum, line) => sum + line.line_total + line.basket_discount, 0)
+      : discountItem
+        ? Number(discountItem.selling_price) * discountItem.quantity -
+          pricing.lines[cart.indexOf(discountItem)].promotion_discount
+        : 0;
+
+  const openTender = () => {
+    // Offline sales join a shift when they sync
+    if (online && shift === null) {
+      toast.error("Open a shift on this till before selling");
+      setOpenShiftOpen(true);
+      return;
+    }
+    if (pricing.needs_approval && !approvalPin) {
+      toast.error(`Discounts above ${settings.discount_approval_percent}% need a manager's PIN`);
+      return;
+    }
+    setTenderOpen(true);
+  };
+
+  if (!store) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Point of Sale</h2>
+        <p className="text-muted-foreground mt-2">
+          Your account is not assigned to a store yet. Ask an admin to add you to one.
+        </p>
+      </div>
+    );
+  }
 
   return (
     <div className="h-[calc(100vh-4rem)] grid grid-cols-2 gap-6">
@@ -209,15 +522,48 @@ const POS = () => {
       <Card className="flex flex-col">
         <CardHeader>
           <CardTitle>Products</CardTitle>
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-            <Input
-              placeholder="Search products..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="pl-10"
-            />
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+              <Input
+                ref={searchInputRef}
+                placeholder="Search or scan products..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            {isCameraScanSupported() && (
+              <Button variant="outline" size="icon" onClick={() => setCameraOpen(true)} title="Scan with camera">
+                <Camera className="w-4 h-4" />
+              </Button>
+            )}
           </div>
+          {(!online || usingCachedCatalogue) && (
+            <div className="flex items-center gap-2 rounded-md border border-warning bg-warning/10 px-3 py-2 text-sm">
+              <WifiOff className="w-4 h-4" />
+              <span>
+                {online ? "Showing the saved catalogue." : "Offline."} Sales are saved on this device and synced later.
+              </span>
+            </div>
+          )}
+          {online && shift === null && tillId && (
+            <div className="flex items-center justify-between rounded-md border border-warning bg-warning/10 px-3 py-2 text-sm">
+              <span>No shift is open on this till.</span>
+              <Button size="sm" className="h-7" onClick={() => setOpenShiftOpen(true)}>
+                <Vault className="w-4 h-4 mr-2" />
+                Open Shift
+              </Button>
+            </div>
+          )}
+          {unknownCode && (
+            <div className="flex items-center justify-between rounded-md border border-destructive bg-destructive/10 px-3 py-2 text-sm text-destructive animate-in fade-in">
+              <span>Unknown code {unknownCode}</span>
+              <Button variant="ghost" size="sm" className="h-6" onClick={() => setUnknownCode(null)}>
+                Dismiss
+              </Button>
+            </div>
+          )}
         </CardHeader>
         <CardContent className="flex-1 overflow-hidden">
           <ScrollArea className="h-full pr-4">
@@ -231,7 +577,7 @@ const POS = () => {
                 >
                   <h3 className="font-semibold text-sm mb-1">{product.name}</h3>
                   <p className="text-lg font-bold text-primary">
-                    KES {Number(product.selling_price).toLocaleString()}
+                    {formatCurrency(Number(product.selling_price))}
                   </p>
                   <Badge variant={product.stock_quantity > 0 ? "secondary" : "destructive"} className="mt-2">
                     Stock: {product.stock_quantity}
@@ -245,54 +591,94 @@ const POS = () => {
 
       {/* Cart Section */}
       <Card className="flex flex-col">
-        <CardHeader>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
           <CardTitle>Current Sale</CardTitle>
+          <div className="flex items-center gap-2">
+            <TillSelect storeId={store.id} value={tillId} onChange={setTillId} />
+            {shift && (
+              <ShiftMenu shift={shift} onChanged={() => tillId && fetchShift(tillId)} onShowReport={setReportShiftId} />
+            )}
+            <Button variant="outline" size="sm" onClick={() => setFindSaleOpen(true)}>
+              <Undo2 className="w-4 h-4 mr-2" />
+              Void / Return
+            </Button>
+          </div>
         </CardHeader>
         <CardContent className="flex-1 flex flex-col">
+          <div className="mb-4">
+            <CustomerPicker storeId={store.id} customer={customer} onChange={setCustomer} />
+          </div>
           <ScrollArea className="flex-1 mb-4">
             <div className="space-y-2">
-              {cart.map((item) => (
-                <div key={item.id} className="flex items-center gap-2 p-3 rounded-lg bg-accent">
-                  <div className="flex-1">
-                    <p className="font-medium">{item.name}</p>
-                    <p className="text-sm text-muted-foreground">
-                      KES {Number(item.selling_price).toLocaleString()} each
-                    </p>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Button
-                      size="icon"
-                      variant="outline"
-                      className="h-8 w-8"
-                      onClick={() => updateQuantity(item.id, item.quantity - 1)}
-                    >
-                      <Minus className="w-3 h-3" />
-                    </Button>
-                    <span className="w-8 text-center font-medium">{item.quantity}</span>
-                    <Button
-                      size="icon"
-                      variant="outline"
-                      className="h-8 w-8"
-                      onClick={() => updateQuantity(item.id, item.quantity + 1)}
-                    >
-                      <Plus className="w-3 h-3" />
-                    </Button>
-                    <Button
-                      size="icon"
-                      variant="ghost"
-                      className="h-8 w-8 text-destructive"
-                      onClick={() => removeFromCart(item.id)}
-                    >
-                      <Trash2 className="w-3 h-3" />
-                    </Button>
+              {cart.map((item, index) => {
+                const line = pricing.lines[index];
+                const lineDiscount = line.promotion_discount + line.manual_discount;
+                return (
+                  <div key={item.id} className="flex items-center gap-2 p-3 rounded-lg bg-accent">
+                    <div className="flex-1">
+                      <p className="font-medium">{item.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {formatCurrency(Number(item.selling_price))} each
+                      </p>
+                      {line.promotion_id && (
+                        <p className="flex items-center gap-1 text-xs text-success">
+                          <Tag className="w-3 h-3" />
+                          {promotionNames.get(line.promotion_id)} −{formatCurrency(line.promotion_discount)}
+                        </p>
+                      )}
+                      {line.manual_discount > 0 && (
+                        <p className="text-xs text-success">Discount −{formatCurrency(line.manual_discount)}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Button
+                        size="icon"
+                        variant="outline"
+                        className="h-8 w-8"
+                        onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                      >
+                        <Minus className="w-3 h-3" />
+                      </Button>
+                      <span className="w-8 text-center font-medium">{item.quantity}</span>
+                      <Button
+                        size="icon"
+                        variant="outline"
+                        className="h-8 w-8"
+                        onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                      >
+                        <Plus className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        onClick={() => setDiscountTarget(item.id)}
+                        title="Discount"
+                      >
+                        <Percent className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 text-destructive"
+                        onClick={() => removeFromCart(item.id)}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                    <div className="text-right w-24">
+                      {lineDiscount > 0 && (
+                        <p className="text-xs text-muted-foreground line-through">
+                          {formatCurrency(Number(item.selling_price) * item.quantity)}
+                        </p>
+                      )}
+                      <p className="font-bold">
+                        {formatCurrency(line.line_total + line.basket_discount)}
+                      </p>
+                    </div>
                   </div>
-                  <div className="text-right w-24">
-                    <p className="font-bold">
-                      KES {item.line_total.toLocaleString()}
-                    </p>
-                  </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </ScrollArea>
 
@@ -301,47 +687,91 @@ const POS = () => {
           <div className="space-y-2 mb-4">
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Subtotal</span>
-              <span className="font-medium">KES {subtotal.toLocaleString()}</span>
+              <span className="font-medium">{formatCurrency(subtotal)}</span>
             </div>
+            {discount > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Discounts</span>
+                <span className="font-medium text-success">−{formatCurrency(discount)}</span>
+              </div>
+            )}
             <div className="flex justify-between text-sm">
-              <span className="text-muted-foreground">VAT (16%)</span>
-              <span className="font-medium">KES {vatAmount.toLocaleString()}</span>
+              <span className="text-muted-foreground">VAT (incl.)</span>
+              <span className="font-medium">{formatCurrency(vatAmount)}</span>
             </div>
             <Separator />
             <div className="flex justify-between text-lg font-bold">
               <span>Total</span>
-              <span className="text-success">KES {total.toLocaleString()}</span>
+              <span className="text-success">{formatCurrency(total)}</span>
             </div>
           </div>
 
-          <div className="grid grid-cols-3 gap-2">
-            <Button
-              onClick={() => handleCheckout('mpesa')}
-              disabled={loading || cart.length === 0}
-              className="bg-success hover:bg-success/90"
-            >
-              <Smartphone className="w-4 h-4 mr-2" />
-              M-Pesa
-            </Button>
+          <div className="flex gap-2">
             <Button
-              onClick={() => handleCheckout('cash')}
+              size="lg"
+              variant="outline"
+              onClick={() => setDiscountTarget("basket")}
               disabled={loading || cart.length === 0}
-              variant="secondary"
             >
-              <Banknote className="w-4 h-4 mr-2" />
-              Cash
+              <Percent className="w-4 h-4 mr-2" />
+              {basketDiscount ? "Edit Discount" : "Discount"}
             </Button>
             <Button
-              onClick={() => handleCheckout('card')}
+              size="lg"
+              onClick={openTender}
               disabled={loading || cart.length === 0}
-              variant="outline"
+              className="flex-1 bg-success hover:bg-success/90"
             >
-              <CreditCard className="w-4 h-4 mr-2" />
-              Card
+              <Wallet className="w-4 h-4 mr-2" />
+              Charge {formatCurrency(total)}
             </Button>
           </div>
         </CardContent>
       </Card>
+
+      <TenderDialog
+        open={tenderOpen}
+        onOpenChange={setTenderOpen}
+        total={total}
+        processing={loading}
+        offline={!online}
+        loyaltyPoints={loyaltyPoints}
+        onComplete={handleCheckout}
+      />
+
+      <DiscountDialog
+        open={discountTarget !== null}
+        onOpenChange={(open) => !open && setDiscountTarget(null)}
+        title={discountTarget === "basket" ? "the whole sale" : discountItem?.name ?? ""}
+        base={discountBase}
+        discount={discountTarget === "basket" ? basketDiscount : discountItem?.discount ?? null}
+        approved={approvalPin !== null}
+        offline={!online}
+        onApply={applyDiscount}
+      />
+
+      <AwaitingPaymentDialog sale={pendingSale} onResolved={handlePendingResolved} />
+
+      <FindSaleDialog open={findSaleOpen} onOpenChange={setFindSaleOpen} />
+
+      {tillId && (
+        <OpenShiftDialog open={openShiftOpen} onOpenChange={setOpenShiftOpen} tillId={tillId} onOpened={setShift} />
+      )}
+
+      <ShiftReportDialog shiftId={reportShiftId} onOpenChange={(open) => !open && setReportShiftId(null)} />
+
+      <CameraScanDialog open={cameraOpen} onOpenChange={setCameraOpen} onScan={handleScan} />
+
+      <ReceiptDialog
+        saleId={receiptSaleId}
+        localReceipt={localReceipt}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReceiptSaleId(null);
+            setLocalReceipt(null);
+          }
+        }}
+      />
     </div>
   );
 };
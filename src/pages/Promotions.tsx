@@ -0,0 +1,241 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { isPromotionRunning, Promotion, promotionTypeLabels } from "@/lib/pricing";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import PromotionFormDialog from "@/components/promotions/PromotionFormDialog";
+import { toast } from "sonner";
+import { Pencil, Plus, Tag, Trash2 } from "lucide-react";
+
+const DAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const Promotions = () => {
+  const { store, settings, formatCurrency } = useStoreSettings();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [categories, setCategories] = useState<Tables<"categories">[]>([]);
+  const [products, setProducts] = useState<Pick<Tables<"products">, "id" | "name" | "selling_price">[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const storeId = store?.id;
+
+  const fetchPromotions = useCallback(async () => {
+    if (!storeId) return;
+
+    setLoading(true);
+    try {
+      const [promotionsResult, categoriesResult, productsResult] = await Promise.all([
+        supabase.from("promotions").select("*").eq("store_id", storeId).order("created_at", { ascending: false }),
+        supabase.from("categories").select("*").eq("store_id", storeId).order("name"),
+        supabase.from("products").select("id, name, selling_price").eq("store_id", storeId).eq("active", true).order("name"),
+      ]);
+      if (promotionsResult.error) throw promotionsResult.error;
+      if (categoriesResult.error) throw categoriesResult.error;
+      if (productsResult.error) throw productsResult.error;
+
+      setPromotions(promotionsResult.data);
+      setCategories(categoriesResult.data);
+      setProducts(productsResult.data);
+    } catch (error) {
+      console.error("Error fetching promotions:", error);
+      toast.error("Failed to load promotions");
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId]);
+
+  useEffect(() => {
+    fetchPromotions();
+  }, [fetchPromotions]);
+
+  const describe = (promotion: Promotion) => {
+    switch (promotion.promotion_type) {
+      case "buy_x_get_y":
+        return `Buy ${promotion.buy_quantity}, get ${promotion.get_quantity} free`;
+      case "bundle":
+        return `${promotion.bundle_quantity} for ${formatCurrency(Number(promotion.bundle_price))}`;
+      case "happy_hour": {
+        const days =
+          promotion.days_of_week && promotion.days_of_week.length < 7
+            ? ` on ${promotion.days_of_week.map((day) => DAYS[day]).join(", ")}`
+            : " daily";
+        return `${Number(promotion.discount_percent)}% off, ${promotion.start_time?.slice(0, 5)}–${promotion.end_time?.slice(0, 5)}${days}`;
+      }
+      case "category_sale":
+        return `${Number(promotion.discount_percent)}% off`;
+    }
+  };
+
+  const appliesTo = (promotion: Promotion) => {
+    const category = categories.find((c) => c.id === promotion.category_id);
+    const parts = [];
+    if (category) parts.push(category.name);
+    if (promotion.product_ids.length > 0) {
+      parts.push(`${promotion.product_ids.length} product${promotion.product_ids.length === 1 ? "" : "s"}`);
+    }
+    return parts.join(" + ");
+  };
+
+  const status = (promotion: Promotion) => {
+    const now = new Date();
+    if (!promotion.active) return <Badge variant="outline">Off</Badge>;
+    if (promotion.ends_at && new Date(promotion.ends_at) <= now) return <Badge variant="outline">Ended</Badge>;
+    if (promotion.starts_at && new Date(promotion.starts_at) > now) return <Badge variant="secondary">Scheduled</Badge>;
+    return isPromotionRunning(promotion, now, settings.timezone) ? (
+      <Badge className="bg-success hover:bg-success/90">Running</Badge>
+    ) : (
+      <Badge variant="secondary">Waiting for happy hour</Badge>
+    );
+  };
+
+  const toggleActive = async (promotion: Promotion, active: boolean) => {
+    const { error } = await supabase.from("promotions").update({ active }).eq("id", promotion.id);
+    if (error) {
+      console.error("Error updating promotion:", error);
+      toast.error("Failed to update promotion");
+      return;
+    }
+    setPromotions((current) => current.map((p) => (p.id === promotion.id ? { ...p, active } : p)));
+  };
+
+  const deletePromotion = async (promotion: Promotion) => {
+    const { error } = await supabase.from("promotions").delete().eq("id", promotion.id);
+    if (error) {
+      console.error("Error deleting promotion:", error);
+      toast.error("Failed to delete promotion");
+      return;
+    }
+    toast.success(`${promotion.name} deleted`);
+    fetchPromotions();
+  };
+
+  if (!store) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Promotions</h2>
+        <p className="text-muted-foreground mt-2">Your account is not assigned to a store yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Promotions</h1>
+          <p className="text-muted-foreground mt-1">
+            Multi-buys, bundles, happy hours and category sales, applied automatically at the till.
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            setEditingPromotion(null);
+            setFormOpen(true);
+          }}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Promotion
+        </Button>
+      </div>
+
+      <Card className="shadow-card">
+        <CardContent className="pt-6">
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : promotions.length === 0 ? (
+            <div className="text-center py-12">
+              <Tag className="w-10 h-10 mx-auto mb-2 text-muted-foreground" />
+              <p className="text-muted-foreground">No promotions yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Promotion</TableHead>
+                  <TableHead>Deal</TableHead>
+                  <TableHead>Applies to</TableHead>
+                  <TableHead>Runs</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="w-12">On</TableHead>
+                  <TableHead className="w-24"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promotions.map((promotion) => (
+                  <TableRow key={promotion.id}>
+                    <TableCell>
+                      <p className="font-medium">{promotion.name}</p>
+                      <p className="text-xs text-muted-foreground">{promotionTypeLabels[promotion.promotion_type]}</p>
+                    </TableCell>
+                    <TableCell>{describe(promotion)}</TableCell>
+                    <TableCell className="text-muted-foreground">{appliesTo(promotion)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {promotion.starts_at ? new Date(promotion.starts_at).toLocaleString() : "Now"}
+                      {" – "}
+                      {promotion.ends_at ? new Date(promotion.ends_at).toLocaleString() : "No end"}
+                    </TableCell>
+                    <TableCell>{status(promotion)}</TableCell>
+                    <TableCell>
+                      <Switch checked={promotion.active} onCheckedChange={(active) => toggleActive(promotion, active)} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          title="Edit"
+                          onClick={() => {
+                            setEditingPromotion(promotion);
+                            setFormOpen(true);
+                          }}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8 text-destructive"
+                          title="Delete"
+                          onClick={() => deletePromotion(promotion)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <PromotionFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        storeId={store.id}
+        categories={categories}
+        products={products}
+        promotion={editingPromotion}
+        onSaved={fetchPromotions}
+      />
+    </div>
+  );
+};
+
+export default Promotions;
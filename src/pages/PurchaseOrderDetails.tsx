@@ -0,0 +1,480 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Enums, Tables } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { invoiceMatchLabels, purchaseOrderStatusLabels, purchaseOrderStatusVariants } from "@/lib/purchasing";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import PurchaseOrderFormDialog, { OrderableProduct } from "@/components/purchasing/PurchaseOrderFormDialog";
+import ReceiveGoodsDialog from "@/components/purchasing/ReceiveGoodsDialog";
+import SupplierInvoiceDialog from "@/components/purchasing/SupplierInvoiceDialog";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ArrowLeft, Ban, CheckCircle2, FileCheck, PackageCheck, Pencil, Send } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type PurchaseOrderWithItems = Tables<"purchase_orders"> & {
+  supplier: Pick<Tables<"suppliers">, "name" | "phone" | "email"> | null;
+  items: (Tables<"purchase_order_items"> & { product: { name: string; sku: string | null } | null })[];
+};
+
+type GoodsReceivedNote = Tables<"goods_received_notes"> & {
+  receiver: { full_name: string } | null;
+  items: Pick<Tables<"goods_received_items">, "quantity" | "unit_cost">[];
+};
+
+type SupplierInvoice = Tables<"supplier_invoices"> & {
+  items: Tables<"supplier_invoice_items">[];
+};
+
+const PurchaseOrderDetails = () => {
+  const { purchaseOrderId } = useParams<{ purchaseOrderId: string }>();
+  const { store, formatCurrency } = useStoreSettings();
+  const [order, setOrder] = useState<PurchaseOrderWithItems | null>(null);
+  const [notes, setNotes] = useState<GoodsReceivedNote[]>([]);
+  const [invoices, setInvoices] = useState<SupplierInvoice[]>([]);
+  const [suppliers, setSuppliers] = useState<Pick<Tables<"suppliers">, "id" | "name">[]>([]);
+  const [products, setProducts] = useState<OrderableProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [editOpen, setEditOpen] = useState(false);
+  const [receiveOpen, setReceiveOpen] = useState(false);
+  const [invoiceOpen, setInvoiceOpen] = useState(false);
+  const storeId = store?.id;
+  const isDraft = order?.status === "draft";
+
+  const fetchOrder = useCallback(async () => {
+    if (!purchaseOrderId) return;
+    try {
+      const [orderResult, notesResult, invoicesResult] = await Promise.all([
+        supabase
+          .from("purchase_orders")
+          .select("*, supplier:suppliers(name, phone, email), items:purchase_order_items(*, product:products(name, sku))")
+          .eq("id", purchaseOrderId)
+          .maybeSingle(),
+        supabase
+          .from("goods_received_notes")
+          .select("*, receiver:profiles!goods_received_notes_received_by_fkey(full_name), items:goods_received_items(quantity, unit_cost)")
+          .eq("purchase_order_id", purchaseOrderId)
+          .order("received_at", { ascending: false }),
+        supabase
+          .from("supplier_invoices")
+          .select("*, items:supplier_invoice_items(*)")
+          .eq("purchase_order_id", purchaseOrderId)
+          .order("created_at", { ascending: false }),
+      ]);
+      if (orderResult.error) throw orderResult.error;
+      if (notesResult.error) throw notesResult.error;
+      if (invoicesResult.error) throw invoicesResult.error;
+
+      setOrder(orderResult.data);
+      setNotes(notesResult.data);
+      setInvoices(invoicesResult.data);
+    } catch (error) {
+      console.error("Error fetching purchase order:", error);
+      toast.error("Failed to load purchase order");
+    } finally {
+      setLoading(false);
+    }
+  }, [purchaseOrderId]);
+
+  useEffect(() => {
+    fetchOrder();
+  }, [fetchOrder]);
+
+  // Suppliers and products are only needed while the order can still be edited
+  useEffect(() => {
+    if (!storeId || !isDraft) return;
+    Promise.all([
+      supabase.from("suppliers").select("id, name").eq("store_id", storeId).eq("active", true).order("name"),
+      supabase
+        .from("products")
+        .select("id, name, sku, cost_price, stock_quantity")
+        .eq("store_id", storeId)
+        .eq("active", true)
+        .order("name"),
+    ]).then(([suppliersResult, productsResult]) => {
+      if (suppliersResult.error || productsResult.error) {
+        console.error("Error fetching suppliers and products:", suppliersResult.error ?? productsResult.error);
+        return;
+      }
+      setSuppliers(suppliersResult.data);
+      setProducts(productsResult.data);
+    });
+  }, [storeId, isDraft]);
+
+  const invoicedQuantities = useMemo(() => {
+    const totals = new Map<string, number>();
+    for (const invoice of invoices) {
+      for (const item of invoice.items) {
+        totals.set(item.purchase_order_item_id, (totals.get(item.purchase_order_item_id) ?? 0) + item.quantity);
+      }
+    }
+    return totals;
+  }, [invoices]);
+
+  // Memoised so the dialogs only reset their inputs when the order changes
+  const receivableItems = useMemo(
+    () =>
+      (order?.items ?? []).map((item) => ({
+        id: item.id,
+        product_name: item.product?.name ?? "Product",
+        quantity: item.quantity,
+        received_quantity: item.received_quantity,
+        unit_cost: Number(item.unit_cost),
+      })),
+    [order]
+  );
+
+  const invoiceableItems = useMemo(
+    () =>
+      receivableItems.map((item) => ({
+        ...item,
+        invoiced_quantity: invoicedQuantities.get(item.id) ?? 0,
+      })),
+    [receivableItems, invoicedQuantities]
+  );
+
+  const editableOrder = useMemo(
+    () =>
+      order && {
+        ...order,
+        items: order.items.map((item) => ({
+          product_id: item.product_id,
+          quantity: item.quantity,
+          unit_cost: Number(item.unit_cost),
+        })),
+      },
+    [order]
+  );
+
+  const setStatus = async (status: Enums<"purchase_order_status">, message: string) => {
+    if (!order) return;
+    setUpdating(true);
+    const { error } = await supabase.rpc("set_purchase_order_status", {
+      _purchase_order_id: order.id,
+      _status: status,
+    });
+    setUpdating(false);
+
+    if (error) {
+      console.error("Error updating purchase order:", error);
+      toast.error(`Failed to update ${order.po_number}: ${error.message}`);
+      return;
+    }
+    toast.success(message);
+    fetchOrder();
+  };
+
+  const approveInvoice = async (invoice: SupplierInvoice) => {
+    const { error } = await supabase.rpc("approve_supplier_invoice", { _supplier_invoice_id: invoice.id });
+    if (error) {
+      console.error("Error approving supplier invoice:", error);
+      toast.error(`Failed to approve invoice: ${error.message}`);
+      return;
+    }
+    toast.success(`Invoice ${invoice.invoice_number} approved`);
+    fetchOrder();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!order) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Purchase order not found</h2>
+        <Link to="/purchase-orders" className="text-primary hover:underline mt-2 inline-block">
+          Back to purchase orders
+        </Link>
+      </div>
+    );
+  }
+
+  const canReceive = order.status === "sent" || order.status === "partially_received";
+  const canInvoice = order.status !== "draft" && order.status !== "cancelled" && notes.length > 0;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link to="/purchase-orders">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </Link>
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold font-mono">{order.po_number}</h1>
+              <Badge variant={purchaseOrderStatusVariants[order.status]}>{purchaseOrderStatusLabels[order.status]}</Badge>
+            </div>
+            <p className="text-muted-foreground mt-1">
+              {order.supplier?.name}
+              {order.supplier?.phone && ` · ${order.supplier.phone}`}
+              {order.supplier?.email && ` · ${order.supplier.email}`}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              Raised {format(new Date(order.created_at), "dd MMM yyyy")}
+              {order.sent_at && ` · Sent ${format(new Date(order.sent_at), "dd MMM yyyy")}`}
+              {order.expected_at && ` · Expected ${format(new Date(order.expected_at), "dd MMM yyyy")}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          {isDraft && (
+            <>
+              <Button variant="outline" onClick={() => setEditOpen(true)}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Edit
+              </Button>
+              <Button disabled={updating} onClick={() => setStatus("sent", `${order.po_number} marked as sent`)}>
+                <Send className="w-4 h-4 mr-2" />
+                Mark as Sent
+              </Button>
+            </>
+          )}
+          {canReceive && (
+            <Button onClick={() => setReceiveOpen(true)}>
+              <PackageCheck className="w-4 h-4 mr-2" />
+              Receive Goods
+            </Button>
+          )}
+          {canInvoice && (
+            <Button variant="outline" onClick={() => setInvoiceOpen(true)}>
+              <FileCheck className="w-4 h-4 mr-2" />
+              Record Invoice
+            </Button>
+          )}
+          {order.status === "partially_received" && (
+            <Button
+              variant="outline"
+              disabled={updating}
+              onClick={() => setStatus("received", `${order.po_number} closed, nothing more is expected`)}
+            >
+              <CheckCircle2 className="w-4 h-4 mr-2" />
+              Close as Received
+            </Button>
+          )}
+          {(order.status === "draft" || order.status === "sent") && (
+            <Button
+              variant="destructive"
+              disabled={updating}
+              onClick={() => setStatus("cancelled", `${order.po_number} cancelled`)}
+            >
+              <Ban className="w-4 h-4 mr-2" />
+              Cancel Order
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>Items</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Ordered</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+                <TableHead className="text-right">Invoiced</TableHead>
+                <TableHead className="text-right">Unit cost</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {order.items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <p className="font-medium">{item.product?.name}</p>
+                    {item.product?.sku && <p className="text-xs text-muted-foreground">{item.product.sku}</p>}
+                  </TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                  <TableCell
+                    className={cn(
+                      "text-right",
+                      item.received_quantity > 0 && item.received_quantity < item.quantity && "text-warning"
+                    )}
+                  >
+                    {item.received_quantity}
+                  </TableCell>
+                  <TableCell className="text-right">{invoicedQuantities.get(item.id) ?? 0}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(Number(item.unit_cost), true)}</TableCell>
+                  <TableCell className="text-right font-medium">
+                    {formatCurrency(item.quantity * Number(item.unit_cost), true)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="flex justify-end text-lg font-bold">Total {formatCurrency(Number(order.total_amount), true)}</div>
+          {order.notes && <p className="text-sm text-muted-foreground">{order.notes}</p>}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Goods received</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {notes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing received yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>GRN</TableHead>
+                    <TableHead>Received</TableHead>
+                    <TableHead className="text-right">Units</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {notes.map((note) => (
+                    <TableRow key={note.id}>
+                      <TableCell>
+                        <p className="font-mono font-medium">{note.grn_number}</p>
+                        {note.delivery_reference && (
+                          <p className="text-xs text-muted-foreground">Delivery note {note.delivery_reference}</p>
+                        )}
+                        {note.notes && <p className="text-xs text-muted-foreground">{note.notes}</p>}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <p>{format(new Date(note.received_at), "dd MMM yyyy HH:mm")}</p>
+                        <p className="text-muted-foreground">{note.receiver?.full_name}</p>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {note.items.reduce((sum, item) => sum + item.quantity, 0)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(
+                          note.items.reduce((sum, item) => sum + item.quantity * Number(item.unit_cost), 0),
+                          true
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Supplier invoices</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {invoices.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No invoices recorded.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Match</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="w-24"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invoices.map((invoice) => {
+                    const mismatches = invoice.items.filter((item) => !item.matched);
+                    return (
+                      <TableRow key={invoice.id}>
+                        <TableCell>
+                          <p className="font-medium">{invoice.invoice_number}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {format(new Date(invoice.invoice_date), "dd MMM yyyy")}
+                          </p>
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={invoice.match_status === "mismatched" ? "destructive" : "secondary"}
+                            className={invoice.match_status === "matched" ? "bg-success hover:bg-success/90" : undefined}
+                          >
+                            {invoiceMatchLabels[invoice.match_status]}
+                          </Badge>
+                          {mismatches.length > 0 && (
+                            <ul className="mt-1 text-xs text-muted-foreground">
+                              {mismatches.map((item) => {
+                                const line = order.items.find((i) => i.id === item.purchase_order_item_id);
+                                return (
+                                  <li key={item.id}>
+                                    {line?.product?.name}: {item.quantity} × {formatCurrency(Number(item.unit_cost), true)},
+                                    expected {item.expected_quantity} × {formatCurrency(Number(item.expected_unit_cost), true)}
+                                  </li>
+                                );
+                              })}
+                            </ul>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-medium">
+                          {formatCurrency(Number(invoice.total_amount), true)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {invoice.match_status === "mismatched" && (
+                            <Button size="sm" variant="outline" onClick={() => approveInvoice(invoice)}>
+                              Approve
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {isDraft && (
+        <PurchaseOrderFormDialog
+          open={editOpen}
+          onOpenChange={setEditOpen}
+          suppliers={suppliers}
+          products={products}
+          order={editableOrder}
+          onSaved={fetchOrder}
+        />
+      )}
+
+      <ReceiveGoodsDialog
+        open={receiveOpen}
+        onOpenChange={setReceiveOpen}
+        order={order}
+        items={receivableItems}
+        onReceived={fetchOrder}
+      />
+
+      <SupplierInvoiceDialog
+        open={invoiceOpen}
+        onOpenChange={setInvoiceOpen}
+        order={order}
+        items={invoiceableItems}
+        onRecorded={fetchOrder}
+      />
+    </div>
+  );
+};
+
+export default PurchaseOrderDetails;
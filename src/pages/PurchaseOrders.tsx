@@ -0,0 +1,215 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants, Enums, Tables } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { purchaseOrderStatusLabels, purchaseOrderStatusVariants } from "@/lib/purchasing";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import DataPagination from "@/components/DataPagination";
+import PurchaseOrderFormDialog, { OrderableProduct } from "@/components/purchasing/PurchaseOrderFormDialog";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ClipboardList, Plus } from "lucide-react";
+
+type PurchaseOrderRow = Tables<"purchase_orders"> & {
+  supplier: { name: string } | null;
+};
+
+const PAGE_SIZE = 20;
+
+const PurchaseOrders = () => {
+  const { store, formatCurrency } = useStoreSettings();
+  const navigate = useNavigate();
+  const [orders, setOrders] = useState<PurchaseOrderRow[]>([]);
+  const [suppliers, setSuppliers] = useState<Pick<Tables<"suppliers">, "id" | "name">[]>([]);
+  const [products, setProducts] = useState<OrderableProduct[]>([]);
+  const [statusFilter, setStatusFilter] = useState<"all" | Enums<"purchase_order_status">>("all");
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const storeId = store?.id;
+
+  useEffect(() => {
+    if (!storeId) return;
+    Promise.all([
+      supabase.from("suppliers").select("id, name").eq("store_id", storeId).eq("active", true).order("name"),
+      supabase
+        .from("products")
+        .select("id, name, sku, cost_price, stock_quantity")
+        .eq("store_id", storeId)
+        .eq("active", true)
+        .order("name"),
+    ]).then(([suppliersResult, productsResult]) => {
+      if (suppliersResult.error || productsResult.error) {
+        console.error("Error fetching suppliers and products:", suppliersResult.error ?? productsResult.error);
+        return;
+      }
+      setSuppliers(suppliersResult.data);
+      setProducts(productsResult.data);
+    });
+  }, [storeId]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [statusFilter]);
+
+  const fetchOrders = useCallback(async () => {
+    if (!storeId) return;
+
+    setLoading(true);
+    try {
+      let query = supabase
+        .from("purchase_orders")
+        .select("*, supplier:suppliers(name)", { count: "exact" })
+        .eq("store_id", storeId);
+
+      if (statusFilter !== "all") {
+        query = query.eq("status", statusFilter);
+      }
+
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, count, error } = await query
+        .order("created_at", { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      setOrders(data || []);
+      setTotal(count ?? 0);
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+      toast.error("Failed to load purchase orders");
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId, statusFilter, page]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  if (!store) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Purchase Orders</h2>
+        <p className="text-muted-foreground mt-2">Your account is not assigned to a store yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Purchase Orders</h1>
+          <p className="text-muted-foreground mt-1">Stock ordered from suppliers, what has arrived and what was billed.</p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All orders</SelectItem>
+              {Constants.public.Enums.purchase_order_status.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {purchaseOrderStatusLabels[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => {
+              if (suppliers.length === 0) {
+                toast.error("Add a supplier before raising a purchase order");
+                return;
+              }
+              setFormOpen(true);
+            }}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Purchase Order
+          </Button>
+        </div>
+      </div>
+
+      <Card className="shadow-card">
+        <CardContent className="pt-6">
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : orders.length === 0 ? (
+            <div className="text-center py-12">
+              <ClipboardList className="w-10 h-10 mx-auto mb-2 text-muted-foreground" />
+              <p className="text-muted-foreground">No purchase orders found.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Raised</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.map((order) => (
+                  <TableRow key={order.id}>
+                    <TableCell>
+                      <Link to={`/purchase-orders/${order.id}`} className="font-mono font-medium hover:underline">
+                        {order.po_number}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{order.supplier?.name}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(new Date(order.created_at), "dd MMM yyyy")}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {order.expected_at ? format(new Date(order.expected_at), "dd MMM yyyy") : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={purchaseOrderStatusVariants[order.status]}>
+                        {purchaseOrderStatusLabels[order.status]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatCurrency(Number(order.total_amount))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          <DataPagination page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        </CardContent>
+      </Card>
+
+      <PurchaseOrderFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        suppliers={suppliers}
+        products={products}
+        order={null}
+        onSaved={(order) => navigate(`/purchase-orders/${order.id}`)}
+      />
+    </div>
+  );
+};
+
+export default PurchaseOrders;
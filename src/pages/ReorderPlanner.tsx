@@ -0,0 +1,307 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { ClipboardList, Loader2, PackageCheck } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type Suggestion = Tables<"reorder_suggestions">;
+
+const NO_SUPPLIER = "none";
+
+const ReorderPlanner = () => {
+  const { store, settings, formatCurrency } = useStoreSettings();
+  const navigate = useNavigate();
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [suppliers, setSuppliers] = useState<Pick<Tables<"suppliers">, "id" | "name">[]>([]);
+  const [showAll, setShowAll] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  // Per product: whether to order it, how many and from whom
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [supplierIds, setSupplierIds] = useState<Record<string, string>>({});
+  const storeId = store?.id;
+
+  useEffect(() => {
+    if (!storeId) return;
+    supabase
+      .from("suppliers")
+      .select("id, name")
+      .eq("store_id", storeId)
+      .eq("active", true)
+      .order("name")
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching suppliers:", error);
+          return;
+        }
+        setSuppliers(data);
+      });
+  }, [storeId]);
+
+  const fetchSuggestions = useCallback(async () => {
+    if (!storeId) return;
+
+    setLoading(true);
+    try {
+      let query = supabase.from("reorder_suggestions").select("*").eq("store_id", storeId);
+      if (!showAll) {
+        query = query.eq("needs_reorder", true);
+      }
+
+      const { data, error } = await query
+        .order("days_of_cover", { ascending: true, nullsFirst: false })
+        .order("name");
+      if (error) throw error;
+
+      setSuggestions(data);
+      setQuantities(Object.fromEntries(data.map((row) => [row.product_id, row.suggested_quantity ?? 0])));
+      setSupplierIds(Object.fromEntries(data.map((row) => [row.product_id, row.supplier_id ?? NO_SUPPLIER])));
+      setSelected(
+        Object.fromEntries(
+          data.map((row) => [row.product_id, !!row.needs_reorder && (row.suggested_quantity ?? 0) > 0 && !!row.supplier_id])
+        )
+      );
+    } catch (error) {
+      console.error("Error fetching reorder suggestions:", error);
+      toast.error("Failed to load reorder suggestions");
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId, showAll]);
+
+  useEffect(() => {
+    fetchSuggestions();
+  }, [fetchSuggestions]);
+
+  const lines = suggestions.filter((row) => row.product_id && selected[row.product_id]);
+  const supplierCount = new Set(lines.map((row) => supplierIds[row.product_id!])).size;
+  const orderTotal = lines.reduce(
+    (sum, row) => sum + (quantities[row.product_id!] ?? 0) * Number(row.cost_price ?? 0),
+    0
+  );
+
+  const createOrders = async () => {
+    if (lines.length === 0) {
+      toast.error("Choose at least one product to order");
+      return;
+    }
+    if (lines.some((row) => supplierIds[row.product_id!] === NO_SUPPLIER)) {
+      toast.error("Choose a supplier for every product being ordered");
+      return;
+    }
+    if (lines.some((row) => (quantities[row.product_id!] ?? 0) <= 0)) {
+      toast.error("Quantities must be above zero");
+      return;
+    }
+
+    setCreating(true);
+    const { data: orders, error } = await supabase.rpc("create_reorder_purchase_orders", {
+      _items: lines.map((row) => ({
+        product_id: row.product_id,
+        supplier_id: supplierIds[row.product_id!],
+        quantity: quantities[row.product_id!],
+        unit_cost: Number(row.cost_price ?? 0),
+      })),
+    });
+    setCreating(false);
+
+    if (error) {
+      console.error("Error creating purchase orders:", error);
+      toast.error(`Failed to create purchase orders: ${error.message}`);
+      return;
+    }
+
+    if (orders.length === 1) {
+      toast.success(`${orders[0].po_number} saved as a draft`);
+      navigate(`/purchase-orders/${orders[0].id}`);
+    } else {
+      toast.success(`${orders.length} draft purchase orders created: ${orders.map((o) => o.po_number).join(", ")}`);
+      navigate("/purchase-orders");
+    }
+  };
+
+  if (!store) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Reorder</h2>
+        <p className="text-muted-foreground mt-2">Your account is not assigned to a store yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Reorder</h1>
+          <p className="text-muted-foreground mt-1">
+            Sales are averaged over the last {settings.reorder_sales_days} days, and suggested orders cover{" "}
+            {settings.reorder_cover_days} days of sales after they arrive.{" "}
+            <Link to="/settings" className="text-primary hover:underline">
+              Change
+            </Link>
+          </p>
+        </div>
+        <Button onClick={createOrders} disabled={creating || lines.length === 0}>
+          {creating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ClipboardList className="w-4 h-4 mr-2" />}
+          Create Draft Orders
+        </Button>
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <p className="text-sm text-muted-foreground">
+            {lines.length === 0
+              ? "Tick the products to order."
+              : `${lines.length} product${lines.length === 1 ? "" : "s"} from ${supplierCount} supplier${
+                  supplierCount === 1 ? "" : "s"
+                }, about ${formatCurrency(orderTotal)} at current cost`}
+          </p>
+          <div className="flex items-center gap-2">
+            <Switch id="show-all" checked={showAll} onCheckedChange={setShowAll} />
+            <Label htmlFor="show-all">Show all products</Label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : suggestions.length === 0 ? (
+            <div className="text-center py-12">
+              <PackageCheck className="w-10 h-10 mx-auto mb-2 text-muted-foreground" />
+              <p className="text-muted-foreground">Nothing needs reordering.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10"></TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="w-48">Supplier</TableHead>
+                  <TableHead className="text-right">Stock</TableHead>
+                  <TableHead className="text-right">Reorder level</TableHead>
+                  <TableHead className="text-right">On order</TableHead>
+                  <TableHead className="text-right">Sold per day</TableHead>
+                  <TableHead className="text-right">Days of cover</TableHead>
+                  <TableHead className="w-24">Order</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {suggestions.map((row) => {
+                  const productId = row.product_id!;
+                  const supplierId = supplierIds[productId] ?? NO_SUPPLIER;
+                  // The lead time is the usual supplier's; another supplier's is not known here
+                  const leadTime = supplierId === row.supplier_id ? row.lead_time_days : null;
+                  const runsOut = row.days_of_cover !== null && leadTime !== null && Number(row.days_of_cover) <= leadTime;
+                  return (
+                    <TableRow key={productId}>
+                      <TableCell>
+                        <Checkbox
+                          checked={selected[productId] ?? false}
+                          onCheckedChange={(checked) => setSelected({ ...selected, [productId]: checked === true })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-medium">{row.name}</p>
+                        {row.sku && <p className="text-xs text-muted-foreground">{row.sku}</p>}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={supplierId}
+                          onValueChange={(value) => setSupplierIds({ ...supplierIds, [productId]: value })}
+                        >
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_SUPPLIER}>No supplier</SelectItem>
+                            {suppliers.map((supplier) => (
+                              <SelectItem key={supplier.id} value={supplier.id}>
+                                {supplier.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {leadTime !== null && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            Delivers in {leadTime} day{leadTime === 1 ? "" : "s"}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell
+                        className={cn(
+                          "text-right font-medium",
+                          (row.stock_quantity ?? 0) <= (row.reorder_level ?? 0) && "text-destructive"
+                        )}
+                      >
+                        {row.stock_quantity}
+                      </TableCell>
+                      <TableCell className="text-right">{row.reorder_level}</TableCell>
+                      <TableCell className="text-right">{row.on_order || "—"}</TableCell>
+                      <TableCell className="text-right">
+                        {Number(row.average_daily_sales ?? 0).toLocaleString(settings.locale, { maximumFractionDigits: 2 })}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {row.days_of_cover === null ? (
+                          <span className="text-muted-foreground">No sales</span>
+                        ) : (
+                          <>
+                            {Number(row.days_of_cover).toLocaleString(settings.locale, { maximumFractionDigits: 1 })}
+                            {runsOut && (
+                              <Badge variant="destructive" className="ml-2">
+                                Runs out before delivery
+                              </Badge>
+                            )}
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="1"
+                          className="h-8"
+                          value={quantities[productId] ?? 0}
+                          onChange={(e) =>
+                            setQuantities({
+                              ...quantities,
+                              [productId]: Math.max(0, Math.floor(Number(e.target.value) || 0)),
+                            })
+                          }
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ReorderPlanner;
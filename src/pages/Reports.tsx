@@ -0,0 +1,584 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { addDays, format, startOfMonth, subDays } from "date-fns";
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { downloadCsv, downloadPdf, ExportSection } from "@/lib/export";
+import { toast } from "sonner";
+import { DollarSign, FileDown, FileSpreadsheet, Percent, Receipt, ShoppingBag } from "lucide-react";
+
+interface SalesReport {
+  summary: {
+    transactions: number;
+    gross_sales: number;
+    vat_amount: number;
+    items_sold: number;
+    cost_of_goods: number;
+    credit_notes: number;
+    refunds: number;
+    refund_vat: number;
+  };
+  by_day: { day: string; transactions: number; gross_sales: number }[];
+  by_hour: { hour: number; transactions: number; gross_sales: number }[];
+  by_cashier: { cashier_id: string; cashier_name: string; transactions: number; gross_sales: number }[];
+  by_payment_method: { payment_method: string; transactions: number; amount: number }[];
+  by_category: {
+    category_id: string | null;
+    category_name: string;
+    quantity: number;
+    gross_sales: number;
+    cost_of_goods: number;
+    gross_margin: number;
+  }[];
+  products: {
+    product_id: string;
+    name: string;
+    stock_quantity: number;
+    quantity: number;
+    gross_sales: number;
+    cost_of_goods: number;
+    gross_margin: number;
+    last_sold_at: string | null;
+  }[];
+  vat_summary: { vat_rate: number; gross_sales: number; net_sales: number; vat_amount: number }[];
+}
+
+const paymentLabels: Record<string, string> = { mpesa: "M-Pesa", cash: "Cash", card: "Card" };
+const pieColors = ["hsl(var(--success))", "hsl(var(--primary))", "hsl(var(--warning))"];
+
+const salesChartConfig = {
+  gross_sales: { label: "Sales", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const paymentChartConfig = {
+  mpesa: { label: "M-Pesa", color: pieColors[0] },
+  cash: { label: "Cash", color: pieColors[1] },
+  card: { label: "Card", color: pieColors[2] },
+} satisfies ChartConfig;
+
+const TOP_PRODUCTS = 10;
+
+const Reports = () => {
+  const { user } = useAuth();
+  const { store, settings, formatCurrency } = useStoreSettings();
+  const [storeId, setStoreId] = useState<string | null>(null);
+  const [from, setFrom] = useState(format(subDays(new Date(), 6), "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [report, setReport] = useState<SalesReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchStore = async () => {
+      if (!user) return;
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("store_id")
+        .eq("id", user.id)
+        .single();
+
+      if (profile?.store_id) {
+        setStoreId(profile.store_id);
+      } else {
+        setLoading(false);
+      }
+    };
+
+    fetchStore();
+  }, [user]);
+
+  const money = (value: number) => formatCurrency(Number(value), true);
+
+  const fetchReport = useCallback(async () => {
+    if (!storeId || !from || !to) return;
+
+    setLoading(true);
+    try {
+      // The end date is inclusive, so query up to the start of the next day
+      const { data, error } = await supabase.rpc("sales_report", {
+        _store_id: storeId,
+        _from: new Date(`${from}T00:00:00`).toISOString(),
+        _to: addDays(new Date(`${to}T00:00:00`), 1).toISOString(),
+        _tz: settings.timezone,
+      });
+
+      if (error) throw error;
+      setReport(data as unknown as SalesReport);
+    } catch (error) {
+      console.error("Error fetching report:", error);
+      toast.error("Failed to load report");
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId, from, to, settings.timezone]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  const setPreset = (preset: "today" | "7d" | "30d" | "month") => {
+    const today = new Date();
+    setTo(format(today, "yyyy-MM-dd"));
+    if (preset === "today") setFrom(format(today, "yyyy-MM-dd"));
+    if (preset === "7d") setFrom(format(subDays(today, 6), "yyyy-MM-dd"));
+    if (preset === "30d") setFrom(format(subDays(today, 29), "yyyy-MM-dd"));
+    if (preset === "month") setFrom(format(startOfMonth(today), "yyyy-MM-dd"));
+  };
+
+  const derived = useMemo(() => {
+    if (!report) return null;
+    const { summary } = report;
+    const netSales = Number(summary.gross_sales) - Number(summary.vat_amount);
+    const grossMargin = netSales - Number(summary.cost_of_goods);
+    const sold = report.products.filter((p) => Number(p.quantity) > 0);
+    return {
+      netSales,
+      grossMargin,
+      marginPercent: netSales > 0 ? (grossMargin / netSales) * 100 : 0,
+      averageBasket: summary.transactions > 0 ? Number(summary.gross_sales) / summary.transactions : 0,
+      topProducts: sold.slice(0, TOP_PRODUCTS),
+      slowProducts: [...report.products]
+        .sort((a, b) => Number(a.quantity) - Number(b.quantity) || b.stock_quantity - a.stock_quantity)
+        .slice(0, TOP_PRODUCTS),
+      byHour: Array.from({ length: 24 }, (_, hour) => ({
+        hour: `${hour.toString().padStart(2, "0")}:00`,
+        gross_sales: Number(report.by_hour.find((h) => h.hour === hour)?.gross_sales ?? 0),
+      })),
+    };
+  }, [report]);
+
+  const exportSections = (): ExportSection[] => {
+    if (!report || !derived) return [];
+    return [
+      {
+        title: "Summary",
+        head: ["Metric", "Value"],
+        body: [
+          ["Transactions", report.summary.transactions],
+          ["Gross sales", Number(report.summary.gross_sales).toFixed(2)],
+          ["VAT", Number(report.summary.vat_amount).toFixed(2)],
+          ["Net sales", derived.netSales.toFixed(2)],
+          ["Cost of goods", Number(report.summary.cost_of_goods).toFixed(2)],
+          ["Gross margin", derived.grossMargin.toFixed(2)],
+          ["Items sold", report.summary.items_sold],
+          ["Credit notes", report.summary.credit_notes],
+          ["Refunds", Number(report.summary.refunds).toFixed(2)],
+          ["Refunded VAT", Number(report.summary.refund_vat).toFixed(2)],
+        ],
+      },
+      {
+        title: "Sales by day",
+        head: ["Date", "Transactions", "Gross sales"],
+        body: report.by_day.map((d) => [d.day, d.transactions, Number(d.gross_sales).toFixed(2)]),
+      },
+      {
+        title: "Sales by hour",
+        head: ["Hour", "Transactions", "Gross sales"],
+        body: report.by_hour.map((h) => [`${h.hour}:00`, h.transactions, Number(h.gross_sales).toFixed(2)]),
+      },
+      {
+        title: "Sales by cashier",
+        head: ["Cashier", "Transactions", "Gross sales"],
+        body: report.by_cashier.map((c) => [c.cashier_name, c.transactions, Number(c.gross_sales).toFixed(2)]),
+      },
+      {
+        title: "Sales by payment method",
+        head: ["Method", "Transactions", "Amount"],
+        body: report.by_payment_method.map((p) => [
+          paymentLabels[p.payment_method] ?? p.payment_method,
+          p.transactions,
+          Number(p.amount).toFixed(2),
+        ]),
+      },
+      {
+        title: "Sales by category",
+        head: ["Category", "Qty", "Gross sales", "Cost", "Margin"],
+        body: report.by_category.map((c) => [
+          c.category_name,
+          c.quantity,
+          Number(c.gross_sales).toFixed(2),
+          Number(c.cost_of_goods).toFixed(2),
+          Number(c.gross_margin).toFixed(2),
+        ]),
+      },
+      {
+        title: "Product performance",
+        head: ["Product", "Qty sold", "Gross sales", "Cost", "Margin", "Stock"],
+        body: report.products.map((p) => [
+          p.name,
+          p.quantity,
+          Number(p.gross_sales).toFixed(2),
+          Number(p.cost_of_goods).toFixed(2),
+          Number(p.gross_margin).toFixed(2),
+          p.stock_quantity,
+        ]),
+      },
+      {
+        title: "VAT summary",
+        head: ["VAT rate", "Gross sales", "Net sales", "VAT"],
+        body: report.vat_summary.map((v) => [
+          `${Number(v.vat_rate)}%`,
+          Number(v.gross_sales).toFixed(2),
+          Number(v.net_sales).toFixed(2),
+          Number(v.vat_amount).toFixed(2),
+        ]),
+      },
+    ];
+  };
+
+  const handleExportCsv = () => downloadCsv(`sales-report-${from}-to-${to}.csv`, exportSections());
+
+  const handleExportPdf = () =>
+    downloadPdf(`sales-report-${from}-to-${to}.pdf`, "Sales Report", `${store?.name ? `${store.name} · ` : ""}${from} to ${to}`, exportSections());
+
+  if (!loading && !storeId) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Reports</h2>
+        <p className="text-muted-foreground mt-2">Your account is not assigned to a store yet.</p>
+      </div>
+    );
+  }
+
+  const statCards = report && derived
+    ? [
+        { title: "Gross Sales", value: money(report.summary.gross_sales), icon: DollarSign, color: "text-success", bgColor: "bg-success/10" },
+        { title: "Transactions", value: report.summary.transactions, icon: Receipt, color: "text-primary", bgColor: "bg-primary/10" },
+        { title: "Average Basket", value: money(derived.averageBasket), icon: ShoppingBag, color: "text-accent-foreground", bgColor: "bg-accent" },
+        { title: "Gross Margin", value: `${money(derived.grossMargin)} (${derived.marginPercent.toFixed(1)}%)`, icon: Percent, color: "text-warning", bgColor: "bg-warning/10" },
+      ]
+    : [];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Reports</h1>
+          <p className="text-muted-foreground mt-1">Sales, margin and VAT for a date range.</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="report-from">From</Label>
+            <Input id="report-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="report-to">To</Label>
+            <Input id="report-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+          <Button variant="outline" onClick={() => setPreset("today")}>Today</Button>
+          <Button variant="outline" onClick={() => setPreset("7d")}>7 days</Button>
+          <Button variant="outline" onClick={() => setPreset("30d")}>30 days</Button>
+          <Button variant="outline" onClick={() => setPreset("month")}>This month</Button>
+          <Button variant="secondary" onClick={handleExportCsv} disabled={!report}>
+            <FileSpreadsheet className="w-4 h-4 mr-2" />
+            CSV
+          </Button>
+          <Button variant="secondary" onClick={handleExportPdf} disabled={!report}>
+            <FileDown className="w-4 h-4 mr-2" />
+            PDF
+          </Button>
+        </div>
+      </div>
+
+      {loading || !report || !derived ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+            {statCards.map((stat) => {
+              const Icon = stat.icon;
+              return (
+                <Card key={stat.title} className="shadow-card">
+                  <CardHeader className="flex flex-row items-center justify-between pb-2">
+                    <CardTitle className="text-sm font-medium text-muted-foreground">{stat.title}</CardTitle>
+                    <div className={`p-2 rounded-lg ${stat.bgColor}`}>
+                      <Icon className={`w-4 h-4 ${stat.color}`} />
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="text-2xl font-bold">{stat.value}</div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+
+          <Tabs defaultValue="sales">
+            <TabsList>
+              <TabsTrigger value="sales">Sales</TabsTrigger>
+              <TabsTrigger value="cashiers">Cashiers</TabsTrigger>
+              <TabsTrigger value="payments">Payments</TabsTrigger>
+              <TabsTrigger value="categories">Categories</TabsTrigger>
+              <TabsTrigger value="products">Products</TabsTrigger>
+              <TabsTrigger value="vat">VAT</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="sales" className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card className="shadow-card">
+                <CardHeader>
+                  <CardTitle>Sales by day</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={salesChartConfig} className="h-72 w-full">
+                    <BarChart data={report.by_day.map((d) => ({ ...d, gross_sales: Number(d.gross_sales) }))}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="day" tickLine={false} axisLine={false} tickFormatter={(d) => format(new Date(d), "d MMM")} />
+                      <YAxis tickLine={false} axisLine={false} width={70} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="gross_sales" fill="var(--color-gross_sales)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+              <Card className="shadow-card">
+                <CardHeader>
+                  <CardTitle>Sales by hour of day</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={salesChartConfig} className="h-72 w-full">
+                    <BarChart data={derived.byHour}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="hour" tickLine={false} axisLine={false} interval={2} />
+                      <YAxis tickLine={false} axisLine={false} width={70} />
+                      <ChartTooltip content={<ChartTooltipContent />} />
+                      <Bar dataKey="gross_sales" fill="var(--color-gross_sales)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="cashiers">
+              <Card className="shadow-card">
+                <CardContent className="pt-6">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Cashier</TableHead>
+                        <TableHead className="text-right">Transactions</TableHead>
+                        <TableHead className="text-right">Average basket</TableHead>
+                        <TableHead className="text-right">Gross sales</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.by_cashier.map((c) => (
+                        <TableRow key={c.cashier_id}>
+                          <TableCell className="font-medium">{c.cashier_name}</TableCell>
+                          <TableCell className="text-right">{c.transactions}</TableCell>
+                          <TableCell className="text-right">{money(Number(c.gross_sales) / c.transactions)}</TableCell>
+                          <TableCell className="text-right font-medium">{money(c.gross_sales)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="payments" className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card className="shadow-card">
+                <CardHeader>
+                  <CardTitle>Payment mix</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ChartContainer config={paymentChartConfig} className="h-72 w-full">
+                    <PieChart>
+                      <ChartTooltip content={<ChartTooltipContent nameKey="payment_method" hideLabel />} />
+                      <Pie
+                        data={report.by_payment_method.map((p) => ({ ...p, amount: Number(p.amount) }))}
+                        dataKey="amount"
+                        nameKey="payment_method"
+                        innerRadius={60}
+                      >
+                        {report.by_payment_method.map((p) => (
+                          <Cell key={p.payment_method} fill={`var(--color-${p.payment_method})`} />
+                        ))}
+                      </Pie>
+                      <ChartLegend content={<ChartLegendContent nameKey="payment_method" />} />
+                    </PieChart>
+                  </ChartContainer>
+                </CardContent>
+              </Card>
+              <Card className="shadow-card">
+                <CardContent className="pt-6">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Method</TableHead>
+                        <TableHead className="text-right">Transactions</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.by_payment_method.map((p) => (
+                        <TableRow key={p.payment_method}>
+                          <TableCell className="font-medium">{paymentLabels[p.payment_method] ?? p.payment_method}</TableCell>
+                          <TableCell className="text-right">{p.transactions}</TableCell>
+                          <TableCell className="text-right font-medium">{money(p.amount)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="categories">
+              <Card className="shadow-card">
+                <CardContent className="pt-6">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Category</TableHead>
+                        <TableHead className="text-right">Qty</TableHead>
+                        <TableHead className="text-right">Gross sales</TableHead>
+                        <TableHead className="text-right">Cost</TableHead>
+                        <TableHead className="text-right">Margin</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.by_category.map((c) => (
+                        <TableRow key={c.category_id ?? "none"}>
+                          <TableCell className="font-medium">{c.category_name}</TableCell>
+                          <TableCell className="text-right">{c.quantity}</TableCell>
+                          <TableCell className="text-right">{money(c.gross_sales)}</TableCell>
+                          <TableCell className="text-right">{money(c.cost_of_goods)}</TableCell>
+                          <TableCell className="text-right font-medium">{money(c.gross_margin)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="products" className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {[
+                { title: "Top sellers", rows: derived.topProducts },
+                { title: "Slow movers", rows: derived.slowProducts },
+              ].map(({ title, rows }) => (
+                <Card key={title} className="shadow-card">
+                  <CardHeader>
+                    <CardTitle>{title}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Product</TableHead>
+                          <TableHead className="text-right">Sold</TableHead>
+                          <TableHead className="text-right">Margin</TableHead>
+                          <TableHead className="text-right">Stock</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rows.map((p) => (
+                          <TableRow key={p.product_id}>
+                            <TableCell>
+                              <p className="font-medium">{p.name}</p>
+                              <p className="text-xs text-muted-foreground">
+                                {p.last_sold_at ? `Last sold ${format(new Date(p.last_sold_at), "d MMM")}` : "Not sold in range"}
+                              </p>
+                            </TableCell>
+                            <TableCell className="text-right">{p.quantity}</TableCell>
+                            <TableCell className="text-right">{money(p.gross_margin)}</TableCell>
+                            <TableCell className="text-right">{p.stock_quantity}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              ))}
+            </TabsContent>
+
+            <TabsContent value="vat">
+              <Card className="shadow-card">
+                <CardContent className="pt-6">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>VAT rate</TableHead>
+                        <TableHead className="text-right">Gross sales</TableHead>
+                        <TableHead className="text-right">Net sales</TableHead>
+                        <TableHead className="text-right">VAT</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.vat_summary.map((v) => (
+                        <TableRow key={v.vat_rate}>
+                          <TableCell className="font-medium">{Number(v.vat_rate)}%</TableCell>
+                          <TableCell className="text-right">{money(v.gross_sales)}</TableCell>
+                          <TableCell className="text-right">{money(v.net_sales)}</TableCell>
+                          <TableCell className="text-right font-medium">{money(v.vat_amount)}</TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow className="font-bold">
+                        <TableCell>Total</TableCell>
+                        <TableCell className="text-right">{money(report.summary.gross_sales)}</TableCell>
+                        <TableCell className="text-right">{money(derived.netSales)}</TableCell>
+                        <TableCell className="text-right">{money(report.summary.vat_amount)}</TableCell>
+                      </TableRow>
+                      {report.summary.credit_notes > 0 && (
+                        <>
+                          <TableRow>
+                            <TableCell>Less credit notes ({report.summary.credit_notes})</TableCell>
+                            <TableCell className="text-right">-{money(report.summary.refunds)}</TableCell>
+                            <TableCell className="text-right">
+                              -{money(Number(report.summary.refunds) - Number(report.summary.refund_vat))}
+                            </TableCell>
+                            <TableCell className="text-right">-{money(report.summary.refund_vat)}</TableCell>
+                          </TableRow>
+                          <TableRow className="font-bold">
+                            <TableCell>VAT payable</TableCell>
+                            <TableCell className="text-right">
+                              {money(Number(report.summary.gross_sales) - Number(report.summary.refunds))}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {money(
+                                derived.netSales - (Number(report.summary.refunds) - Number(report.summary.refund_vat))
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {money(Number(report.summary.vat_amount) - Number(report.summary.refund_vat))}
+                            </TableCell>
+                          </TableRow>
+                        </>
+                      )}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Reports;
@@ -0,0 +1,31 @@
+import { Link, useParams } from "react-router-dom";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import SaleDetail from "@/components/sales/SaleDetail";
+import { ArrowLeft } from "lucide-react";
+
+const SaleDetails = () => {
+  const { saleId } = useParams<{ saleId: string }>();
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center gap-4">
+        <Link to="/sales">
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold">Sale</h1>
+          <p className="text-muted-foreground mt-1">Receipt details, voids and returns</p>
+        </div>
+      </div>
+
+      <Card className="shadow-card">
+        <CardContent className="pt-6">{saleId && <SaleDetail saleId={saleId} />}</CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default SaleDetails;
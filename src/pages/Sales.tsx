@@ -0,0 +1,348 @@
+import { useCallback, useEffect, useState } from "react";
+import { format, subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants, Enums, Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { paymentMethodLabels } from "@/lib/payments";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import DataPagination from "@/components/DataPagination";
+import SaleDetail from "@/components/sales/SaleDetail";
+import { toast } from "sonner";
+import { Receipt, Search } from "lucide-react";
+
+type SaleRow = Tables<"sales"> & {
+  cashier: { full_name: string } | null;
+  customer: { name: string; phone: string } | null;
+  payments: { payment_method: Enums<"payment_method">; reversed_at: string | null }[];
+};
+
+const statusVariants: Record<string, "secondary" | "destructive" | "outline"> = {
+  completed: "secondary",
+  voided: "destructive",
+  pending: "outline",
+};
+
+const PAGE_SIZE = 25;
+
+const Sales = () => {
+  const { user } = useAuth();
+  const { formatCurrency } = useStoreSettings();
+  const [storeId, setStoreId] = useState<string | null>(null);
+  const [cashiers, setCashiers] = useState<{ id: string; full_name: string }[]>([]);
+  const [sales, setSales] = useState<SaleRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const [from, setFrom] = useState(format(subDays(new Date(), 6), "yyyy-MM-dd"));
+  const [to, setTo] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [receiptSearch, setReceiptSearch] = useState("");
+  const [customerSearch, setCustomerSearch] = useState("");
+  const [debouncedReceipt, setDebouncedReceipt] = useState("");
+  const [debouncedCustomer, setDebouncedCustomer] = useState("");
+  const [cashierFilter, setCashierFilter] = useState("all");
+  const [methodFilter, setMethodFilter] = useState("all");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [page, setPage] = useState(1);
+  const [selectedSaleId, setSelectedSaleId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchStore = async () => {
+      if (!user) return;
+
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("store_id")
+        .eq("id", user.id)
+        .single();
+
+      if (profile?.store_id) {
+        setStoreId(profile.store_id);
+        const { data: staff } = await supabase
+          .from("profiles")
+          .select("id, full_name")
+          .eq("store_id", profile.store_id)
+          .order("full_name");
+        setCashiers(staff || []);
+      } else {
+        setLoading(false);
+      }
+    };
+
+    fetchStore();
+  }, [user]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setDebouncedReceipt(receiptSearch.trim());
+      setDebouncedCustomer(customerSearch.trim());
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [receiptSearch, customerSearch]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [from, to, debouncedReceipt, debouncedCustomer, cashierFilter, methodFilter, statusFilter]);
+
+  const fetchSales = useCallback(async () => {
+    if (!storeId || !from || !to) return;
+
+    setLoading(true);
+    try {
+      let customerIds: string[] | null = null;
+      if (debouncedCustomer) {
+        // Strip characters that have meaning in PostgREST filter syntax
+        const term = debouncedCustomer.replace(/[,()%*]/g, " ");
+        const { data: customers, error } = await supabase
+          .from("customers")
+          .select("id")
+          .eq("store_id", storeId)
+          .or(`name.ilike.%${term}%,phone.ilike.%${term}%`)
+          .limit(100);
+        if (error) throw error;
+        customerIds = (customers || []).map((c) => c.id);
+        if (customerIds.length === 0) {
+          setSales([]);
+          setTotal(0);
+          return;
+        }
+      }
+
+      // The inner-joined alias only narrows the sales; the full payments list is still returned
+      const select =
+        "*, cashier:profiles!sales_cashier_id_fkey(full_name), customer:customers(name, phone), payments(payment_method, reversed_at)" +
+        (methodFilter !== "all" ? ", payment_filter:payments!inner(payment_method)" : "");
+
+      let query = supabase
+        .from("sales")
+        .select(select, { count: "exact" })
+        .eq("store_id", storeId)
+        .gte("created_at", new Date(`${from}T00:00:00`).toISOString())
+        .lte("created_at", new Date(`${to}T23:59:59.999`).toISOString());
+
+      if (debouncedReceipt) {
+        // Offline sales can also be found by the provisional number on their first receipt
+        const pattern = `"%${debouncedReceipt.replace(/[%*"]/g, "")}%"`;
+        query = query.or(`receipt_number.ilike.${pattern},provisional_receipt_number.ilike.${pattern}`);
+      }
+      if (cashierFilter !== "all") {
+        query = query.eq("cashier_id", cashierFilter);
+      }
+      if (statusFilter !== "all") {
+        query = query.eq("status", statusFilter as Enums<"sale_status">);
+      }
+      if (methodFilter !== "all") {
+        query = query.eq("payment_filter.payment_method", methodFilter);
+      }
+      if (customerIds) {
+        query = query.in("customer_id", customerIds);
+      }
+
+      const start = (page - 1) * PAGE_SIZE;
+      const { data, count, error } = await query
+        .order("created_at", { ascending: false })
+        .range(start, start + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      setSales((data as unknown as SaleRow[]) || []);
+      setTotal(count ?? 0);
+    } catch (error) {
+      console.error("Error fetching sales:", error);
+      toast.error("Failed to load sales");
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId, from, to, debouncedReceipt, debouncedCustomer, cashierFilter, methodFilter, statusFilter, page]);
+
+  useEffect(() => {
+    fetchSales();
+  }, [fetchSales]);
+
+  if (!loading && !storeId) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Sales</h2>
+        <p className="text-muted-foreground mt-2">Your account is not assigned to a store yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-col lg:flex-row lg:items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Sales</h1>
+          <p className="text-muted-foreground mt-1">Find past sales to reprint, void or return.</p>
+        </div>
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="sales-from">From</Label>
+            <Input id="sales-from" type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="sales-to">To</Label>
+            <Input id="sales-to" type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap gap-3">
+            <div className="relative flex-1 min-w-[180px]">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Receipt number..."
+                value={receiptSearch}
+                onChange={(e) => setReceiptSearch(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Input
+              placeholder="Customer name or phone..."
+              value={customerSearch}
+              onChange={(e) => setCustomerSearch(e.target.value)}
+              className="flex-1 min-w-[180px]"
+            />
+            <Select value={cashierFilter} onValueChange={setCashierFilter}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All cashiers</SelectItem>
+                {cashiers.map((cashier) => (
+                  <SelectItem key={cashier.id} value={cashier.id}>
+                    {cashier.full_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={methodFilter} onValueChange={setMethodFilter}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All payments</SelectItem>
+                {Constants.public.Enums.payment_method.map((method) => (
+                  <SelectItem key={method} value={method}>
+                    {paymentMethodLabels[method]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {Constants.public.Enums.sale_status.map((status) => (
+                  <SelectItem key={status} value={status} className="capitalize">
+                    {status}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : sales.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Receipt className="w-12 h-12 mx-auto mb-2 opacity-50" />
+              <p>No sales match these filters</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Receipt</TableHead>
+                  <TableHead>Cashier</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Payment</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sales.map((sale) => (
+                  <TableRow key={sale.id} className="cursor-pointer" onClick={() => setSelectedSaleId(sale.id)}>
+                    <TableCell className="whitespace-nowrap">{new Date(sale.created_at).toLocaleString()}</TableCell>
+                    <TableCell className="font-medium">{sale.receipt_number}</TableCell>
+                    <TableCell>{sale.cashier?.full_name ?? "—"}</TableCell>
+                    <TableCell>
+                      {sale.customer ? (
+                        <>
+                          <p>{sale.customer.name}</p>
+                          <p className="text-xs text-muted-foreground">{sale.customer.phone}</p>
+                        </>
+                      ) : (
+                        <span className="text-muted-foreground">Walk-in</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {[...new Set(sale.payments.map((p) => p.payment_method))].map((method) => (
+                          <Badge key={method} variant="outline">
+                            {paymentMethodLabels[method]}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={statusVariants[sale.status ?? "completed"]} className="capitalize">
+                        {sale.status}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatCurrency(Number(sale.total_amount), true)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          <DataPagination page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        </CardContent>
+      </Card>
+
+      <Sheet open={!!selectedSaleId} onOpenChange={(open) => !open && setSelectedSaleId(null)}>
+        <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Sale details</SheetTitle>
+            <SheetDescription>Items, payments and any voids or returns.</SheetDescription>
+          </SheetHeader>
+          <div className="mt-6">
+            {selectedSaleId && <SaleDetail saleId={selectedSaleId} onChanged={fetchSales} />}
+          </div>
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+};
+
+export default Sales;
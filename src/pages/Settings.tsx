@@ -0,0 +1,901 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { formatMoney } from "@/lib/format";
+import { paymentMethodLabels, storeTenderMethods } from "@/lib/payments";
+import { formatDocumentNumber } from "@/lib/tills";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import ManagerPinCard from "@/components/settings/ManagerPinCard";
+import TillsCard from "@/components/settings/TillsCard";
+import EtimsQueueCard from "@/components/settings/EtimsQueueCard";
+import LoyaltyTiersCard from "@/components/settings/LoyaltyTiersCard";
+import { toast } from "sonner";
+import { ImagePlus, Loader2, Trash2 } from "lucide-react";
+
+const isValidLocale = (locale: string) => {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+const isValidTimezone = (timezone: string) => {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const settingsSchema = z.object({
+  name: z.string().trim().min(2, { message: "Store name must be at least 2 characters" }),
+  location: z.string().trim().optional(),
+  phone: z.string().trim().optional(),
+  email: z.union([z.literal(""), z.string().trim().email({ message: "Enter a valid email address" })]),
+  currency: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z]{3}$/, { message: "Use a 3-letter currency code, e.g. KES" })
+    .transform((value) => value.toUpperCase()),
+  locale: z.string().trim().refine(isValidLocale, { message: "Unknown locale, e.g. en-KE" }),
+  timezone: z.string().trim().refine(isValidTimezone, { message: "Unknown time zone, e.g. Africa/Nairobi" }),
+  default_vat_rate: z.coerce.number().min(0).max(100, { message: "VAT rate must be between 0 and 100" }),
+  kra_pin: z.union([
+    z.literal(""),
+    z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z]\d{9}[A-Za-z]$/, { message: "KRA PINs look like P051234567X" })
+      .transform((value) => value.toUpperCase()),
+  ]),
+  receipt_header: z.string().optional(),
+  receipt_footer: z.string().optional(),
+  receipt_paper_width: z.enum(["58", "80"]),
+  receipt_logo_url: z.string(),
+  receipt_prefix: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z0-9-]{1,10}$/, { message: "Up to 10 letters, digits or dashes" }),
+  store_code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9]{1,8}$/, { message: "Up to 8 letters or digits" }),
+  receipt_number_format: z
+    .string()
+    .trim()
+    .refine((value) => value.includes("{seq}"), {
+      message: "The format must include {seq} so receipt numbers stay unique",
+    }),
+  credit_note_number_format: z
+    .string()
+    .trim()
+    .refine((value) => value.includes("{seq}"), {
+      message: "The format must include {seq} so credit note numbers stay unique",
+    }),
+  document_number_digits: z.coerce
+    .number()
+    .int()
+    .min(3, { message: "Use 3 to 10 digits" })
+    .max(10, { message: "Use 3 to 10 digits" }),
+  default_reorder_level: z.coerce.number().int().min(0, { message: "Reorder level cannot be negative" }),
+  reorder_sales_days: z.coerce
+    .number()
+    .int()
+    .min(7, { message: "Use 7 to 365 days" })
+    .max(365, { message: "Use 7 to 365 days" }),
+  reorder_cover_days: z.coerce
+    .number()
+    .int()
+    .min(1, { message: "Use 1 to 180 days" })
+    .max(180, { message: "Use 1 to 180 days" }),
+  discount_approval_percent: z.union([
+    z.literal(""),
+    z.coerce.number().min(0, { message: "Use 0 to 100" }).max(100, { message: "Use 0 to 100" }),
+  ]),
+  enabled_payment_methods: z
+    .array(z.enum(Constants.public.Enums.payment_method))
+    .min(1, { message: "Enable at least one payment method" }),
+  etims_enabled: z.boolean(),
+  etims_branch_id: z.string().trim().regex(/^\d{2}$/, { message: "Two digits, 00 for the head office" }),
+  etims_device_serial: z.string().trim(),
+  loyalty_enabled: z.boolean(),
+  loyalty_spend_per_point: z.coerce.number().positive({ message: "Enter an amount above zero" }),
+  loyalty_point_value: z.coerce.number().positive({ message: "Enter an amount above zero" }),
+  loyalty_min_redemption: z.coerce.number().int().min(0, { message: "Cannot be negative" }),
+  loyalty_expiry_months: z.union([
+    z.literal(""),
+    z.coerce.number().int().min(1, { message: "Use 1 to 120 months" }).max(120, { message: "Use 1 to 120 months" }),
+  ]),
+}).superRefine((values, ctx) => {
+  if (!values.etims_enabled) return;
+  if (!values.kra_pin) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["kra_pin"], message: "eTIMS needs the store's KRA PIN" });
+  }
+  if (!values.etims_device_serial) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["etims_device_serial"],
+      message: "Enter the device serial registered with KRA",
+    });
+  }
+});
+
+type SettingsFormValues = z.infer<typeof settingsSchema>;
+
+const Settings = () => {
+  const { store, settings, loading, refresh } = useStoreSettings();
+  const [uploadingLogo, setUploadingLogo] = useState(false);
+
+  const form = useForm<SettingsFormValues>({
+    resolver: zodResolver(settingsSchema),
+  });
+
+  const [storeCode, receiptPrefix, digits] = form.watch(["store_code", "receipt_prefix", "document_number_digits"]);
+  const numberPreview = (format: string | undefined) =>
+    formatDocumentNumber(
+      format ?? "",
+      {
+        store_code: storeCode?.toUpperCase() ?? "",
+        receipt_prefix: receiptPrefix ?? "",
+        document_number_digits: Number(digits) || 0,
+      },
+      "01",
+      1
+    );
+
+  useEffect(() => {
+    if (!store) return;
+    form.reset({
+      name: store.name,
+      location: store.location ?? "",
+      phone: store.phone ?? "",
+      email: store.email ?? "",
+      currency: settings.currency,
+      locale: settings.locale,
+      timezone: settings.timezone,
+      default_vat_rate: Number(settings.default_vat_rate),
+      kra_pin: settings.kra_pin ?? "",
+      receipt_header: settings.receipt_header ?? "",
+      receipt_footer: settings.receipt_footer ?? "",
+      receipt_paper_width: settings.receipt_paper_width === 58 ? "58" : "80",
+      receipt_logo_url: settings.receipt_logo_url ?? "",
+      receipt_prefix: settings.receipt_prefix,
+      store_code: settings.store_code,
+      receipt_number_format: settings.receipt_number_format,
+      credit_note_number_format: settings.credit_note_number_format,
+      document_number_digits: settings.document_number_digits,
+      default_reorder_level: settings.default_reorder_level,
+      reorder_sales_days: settings.reorder_sales_days,
+      reorder_cover_days: settings.reorder_cover_days,
+      discount_approval_percent:
+        settings.discount_approval_percent === null ? "" : Number(settings.discount_approval_percent),
+      enabled_payment_methods: settings.enabled_payment_methods,
+      etims_enabled: settings.etims_enabled,
+      etims_branch_id: settings.etims_branch_id,
+      etims_device_serial: settings.etims_device_serial ?? "",
+      loyalty_enabled: settings.loyalty_enabled,
+      loyalty_spend_per_point: Number(settings.loyalty_spend_per_point),
+      loyalty_point_value: Number(settings.loyalty_point_value),
+      loyalty_min_redemption: settings.loyalty_min_redemption,
+      loyalty_expiry_months: settings.loyalty_expiry_months ?? "",
+    });
+  }, [store, settings, form]);
+
+  const onSubmit = async (values: SettingsFormValues) => {
+    if (!store) return;
+
+    try {
+      const { error: storeError } = await supabase
+        .from("stores")
+        .update({
+          name: values.name,
+          location: values.location || null,
+          phone: values.phone || null,
+          email: values.email || null,
+        })
+        .eq("id", store.id);
+      if (storeError) throw storeError;
+
+      const { error: settingsError } = await supabase
+        .from("store_settings")
+        .update({
+          currency: values.currency,
+          locale: values.locale,
+          timezone: values.timezone,
+          default_vat_rate: values.default_vat_rate,
+          kra_pin: values.kra_pin || null,
+          receipt_header: values.receipt_header || null,
+          receipt_footer: values.receipt_footer || null,
+          receipt_paper_width: Number(values.receipt_paper_width),
+          receipt_logo_url: values.receipt_logo_url || null,
+          receipt_prefix: values.receipt_prefix,
+          store_code: values.store_code,
+          receipt_number_format: values.receipt_number_format,
+          credit_note_number_format: values.credit_note_number_format,
+          document_number_digits: values.document_number_digits,
+          default_reorder_level: values.default_reorder_level,
+          reorder_sales_days: values.reorder_sales_days,
+          reorder_cover_days: values.reorder_cover_days,
+          discount_approval_percent: values.discount_approval_percent === "" ? null : values.discount_approval_percent,
+          enabled_payment_methods: values.enabled_payment_methods,
+          etims_enabled: values.etims_enabled,
+          etims_branch_id: values.etims_branch_id,
+          etims_device_serial: values.etims_device_serial || null,
+          loyalty_enabled: values.loyalty_enabled,
+          loyalty_spend_per_point: values.loyalty_spend_per_point,
+          loyalty_point_value: values.loyalty_point_value,
+          loyalty_min_redemption: values.loyalty_min_redemption,
+          loyalty_expiry_months: values.loyalty_expiry_months === "" ? null : values.loyalty_expiry_months,
+        })
+        .eq("store_id", store.id);
+      if (settingsError) throw settingsError;
+
+      toast.success("Settings saved");
+      await refresh();
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      toast.error("Failed to save settings");
+    }
+  };
+
+  const uploadLogo = async (file: File) => {
+    if (!store) return;
+    if (!file.type.startsWith("image/")) {
+      toast.error("Choose an image file");
+      return;
+    }
+
+    setUploadingLogo(true);
+    const extension = file.name.split(".").pop()?.toLowerCase() || "png";
+    const path = `${store.id}/receipt-logo-${Date.now()}.${extension}`;
+    const { error } = await supabase.storage.from("store-assets").upload(path, file, { upsert: true });
+    setUploadingLogo(false);
+
+    if (error) {
+      console.error("Error uploading logo:", error);
+      toast.error(`Failed to upload logo: ${error.message}`);
+      return;
+    }
+
+    const { data } = supabase.storage.from("store-assets").getPublicUrl(path);
+    form.setValue("receipt_logo_url", data.publicUrl, { shouldDirty: true });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!store) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Settings</h2>
+        <p className="text-muted-foreground mt-2">Your account is not assigned to a store yet.</p>
+      </div>
+    );
+  }
+
+  const previewCurrency = form.watch("currency");
+  const previewLocale = form.watch("locale");
+  const pricePreview =
+    previewCurrency && previewLocale && isValidLocale(previewLocale)
+      ? formatMoney(1234.5, { currency: previewCurrency.toUpperCase(), locale: previewLocale }, true)
+      : null;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold">Settings</h1>
+        <p className="text-muted-foreground mt-1">Configure your store, receipts, tax and payment options.</p>
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <fieldset disabled={form.formState.isSubmitting} className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Store details</CardTitle>
+                <CardDescription>Shown in the sidebar and printed at the top of receipts.</CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Store name</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="location"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Location</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g. Moi Avenue, Nairobi" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="phone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone</FormLabel>
+                      <FormControl>
+                        <Input type="tel" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="email"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Email</FormLabel>
+                      <FormControl>
+                        <Input type="email" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Regional</CardTitle>
+                <CardDescription>
+                  How amounts and dates are displayed.
+                  {pricePreview && ` Prices will look like ${pricePreview}.`}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-3">
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <FormControl>
+                        <Input maxLength={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="locale"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Locale</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="timezone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Time zone</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormDescription>Used to group sales by day in reports</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Tax</CardTitle>
+                <CardDescription>Prices are VAT inclusive. The rate below is the default for new products.</CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="default_vat_rate"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Default VAT rate (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min="0" max="100" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="kra_pin"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>KRA PIN</FormLabel>
+                      <FormControl>
+                        <Input placeholder="P051234567X" {...field} />
+                      </FormControl>
+                      <FormDescription>Printed on receipts</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="etims_enabled"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-3 md:col-span-2">
+                      <div className="space-y-0.5">
+                        <FormLabel>Submit sales to KRA eTIMS</FormLabel>
+                        <FormDescription>Completed sales are signed by the eTIMS control unit</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="etims_branch_id"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>eTIMS branch ID</FormLabel>
+                      <FormControl>
+                        <Input placeholder="00" maxLength={2} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="etims_device_serial"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>eTIMS device serial</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormDescription>As registered for this store's OSCU</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Receipts</CardTitle>
+                <CardDescription>Receipt layout, text and numbering for new sales.</CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="store_code"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Store code</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormDescription>Replaces {"{store}"} in receipt and credit note numbers</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="receipt_prefix"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Receipt prefix</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormDescription>Replaces {"{prefix}"}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="receipt_number_format"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Receipt number format</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormDescription>Next receipt looks like {numberPreview(field.value)}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="credit_note_number_format"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Credit note number format</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormDescription>Next credit note looks like {numberPreview(field.value)}</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="document_number_digits"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sequence digits</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={3} max={10} {...field} />
+                      </FormControl>
+                      <FormDescription>
+                        Placeholders: {"{store}"}, {"{till}"}, {"{seq}"}, {"{prefix}"}, {"{yyyy}"}, {"{mm}"}, {"{dd}"}.
+                        With {"{till}"} each till counts separately.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="receipt_paper_width"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Paper width</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="80">80mm</SelectItem>
+                          <SelectItem value="58">58mm</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>The thermal roll loaded in your receipt printers.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="receipt_logo_url"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Logo</FormLabel>
+                      <div className="flex items-center gap-3">
+                        {field.value ? (
+                          <img src={field.value} alt="Receipt logo" className="h-10 max-w-[8rem] object-contain" />
+                        ) : (
+                          <span className="text-sm text-muted-foreground">No logo</span>
+                        )}
+                        <Button type="button" variant="outline" size="sm" disabled={uploadingLogo} asChild>
+                          <label className="cursor-pointer">
+                            {uploadingLogo ? (
+                              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                            ) : (
+                              <ImagePlus className="w-4 h-4 mr-2" />
+                            )}
+                            Upload
+                            <input
+                              type="file"
+                              accept="image/*"
+                              className="hidden"
+                              onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) uploadLogo(file);
+                                e.target.value = "";
+                              }}
+                            />
+                          </label>
+                        </Button>
+                        {field.value && (
+                          <Button type="button" variant="ghost" size="icon" onClick={() => field.onChange("")}>
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                      <FormDescription>Printed in black and white at the top of receipts.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="receipt_header"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Receipt header</FormLabel>
+                      <FormControl>
+                        <Textarea rows={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="receipt_footer"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Receipt footer</FormLabel>
+                      <FormControl>
+                        <Textarea rows={3} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Inventory</CardTitle>
+                <CardDescription>Defaults for new products and how reorder suggestions are worked out.</CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="default_reorder_level"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Low-stock threshold</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="1" min="0" {...field} />
+                      </FormControl>
+                      <FormDescription>Products at or below this level are flagged as low stock</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="reorder_sales_days"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sales history for reordering (days)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="1" min="7" max="365" {...field} />
+                      </FormControl>
+                      <FormDescription>Average daily sales are worked out over this many days</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="reorder_cover_days"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Order cover (days)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="1" min="1" max="180" {...field} />
+                      </FormControl>
+                      <FormDescription>Suggested orders last this long after they arrive, on top of the reorder level</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Discounts</CardTitle>
+                <CardDescription>Discounts cashiers give by hand at the till. Promotions need no approval.</CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="discount_approval_percent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Manager approval above (%)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min="0" max="100" placeholder="Never" {...field} />
+                      </FormControl>
+                      <FormDescription>Larger line or sale discounts need a manager's PIN; leave blank to never ask</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Payment methods</CardTitle>
+                <CardDescription>Tenders offered at the POS.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <FormField
+                  control={form.control}
+                  name="enabled_payment_methods"
+                  render={({ field }) => (
+                    <FormItem className="space-y-3">
+                      {storeTenderMethods.map((method) => (
+                        <div key={method} className="flex items-center justify-between rounded-lg border p-3">
+                          <span className="font-medium">{paymentMethodLabels[method]}</span>
+                          <Switch
+                            checked={field.value?.includes(method)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? storeTenderMethods.filter(
+                                      (m) => m === method || field.value?.includes(m)
+                                    )
+                                  : field.value?.filter((m) => m !== method)
+                              )
+                            }
+                          />
+                        </div>
+                      ))}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Loyalty</CardTitle>
+                <CardDescription>
+                  Customers attached to a sale earn points on what they spend and can pay with them at the till.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="loyalty_enabled"
+                  render={({ field }) => (
+                    <FormItem className="flex items-center justify-between rounded-lg border p-3 md:col-span-2">
+                      <div className="space-y-0.5">
+                        <FormLabel>Loyalty points</FormLabel>
+                        <FormDescription>Earn points on sales and accept them as a tender</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="loyalty_spend_per_point"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Spend per point</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min="0.01" {...field} />
+                      </FormControl>
+                      <FormDescription>Customers earn one point for every {settings.currency} {field.value} spent</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="loyalty_point_value"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Point value</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" min="0.01" {...field} />
+                      </FormControl>
+                      <FormDescription>What one point is worth when redeemed</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="loyalty_min_redemption"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Minimum redemption</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="1" min="0" {...field} />
+                      </FormControl>
+                      <FormDescription>Fewest points that can be redeemed on a sale</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="loyalty_expiry_months"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Points expire after (months)</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="1" min="1" max="120" placeholder="Never" {...field} />
+                      </FormControl>
+                      <FormDescription>Unspent points expire this long after they were earned</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </CardContent>
+            </Card>
+          </fieldset>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={form.formState.isSubmitting}>
+              {form.formState.isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Settings
+            </Button>
+          </div>
+        </form>
+      </Form>
+
+      {settings.etims_enabled && <EtimsQueueCard />}
+
+      <TillsCard />
+
+      {settings.loyalty_enabled && <LoyaltyTiersCard />}
+
+      <ManagerPinCard />
+    </div>
+  );
+};
+
+export default Settings;
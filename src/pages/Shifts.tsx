@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import DataPagination from "@/components/DataPagination";
+import ShiftReportDialog from "@/components/shifts/ShiftReportDialog";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { FileText, Vault } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type ShiftRow = Tables<"till_shifts"> & {
+  till: { name: string } | null;
+  opener: { full_name: string } | null;
+  closer: { full_name: string } | null;
+};
+
+const PAGE_SIZE = 20;
+
+const Shifts = () => {
+  const { store, formatCurrency } = useStoreSettings();
+  const [shifts, setShifts] = useState<ShiftRow[]>([]);
+  const [tills, setTills] = useState<Tables<"tills">[]>([]);
+  const [tillFilter, setTillFilter] = useState("all");
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [reportShiftId, setReportShiftId] = useState<string | null>(null);
+  const storeId = store?.id;
+
+  useEffect(() => {
+    if (!storeId) return;
+    supabase
+      .from("tills")
+      .select("*")
+      .eq("store_id", storeId)
+      .order("code")
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching tills:", error);
+          return;
+        }
+        setTills(data);
+      });
+  }, [storeId]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [tillFilter]);
+
+  const fetchShifts = useCallback(async () => {
+    if (!storeId) return;
+
+    setLoading(true);
+    try {
+      let query = supabase
+        .from("till_shifts")
+        .select(
+          "*, till:tills(name), opener:profiles!till_shifts_opened_by_fkey(full_name), closer:profiles!till_shifts_closed_by_fkey(full_name)",
+          { count: "exact" }
+        )
+        .eq("store_id", storeId);
+
+      if (tillFilter !== "all") {
+        query = query.eq("till_id", tillFilter);
+      }
+
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, count, error } = await query
+        .order("opened_at", { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      setShifts(data || []);
+      setTotal(count ?? 0);
+    } catch (error) {
+      console.error("Error fetching shifts:", error);
+      toast.error("Failed to load shifts");
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId, tillFilter, page]);
+
+  useEffect(() => {
+    fetchShifts();
+  }, [fetchShifts]);
+
+  if (!store) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Shifts</h2>
+        <p className="text-muted-foreground mt-2">Your account is not assigned to a store yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Shifts</h1>
+          <p className="text-muted-foreground mt-1">
+            Cash drawer sessions per till, with the float, counted cash and any variance.
+          </p>
+        </div>
+        {tills.length > 1 && (
+          <Select value={tillFilter} onValueChange={setTillFilter}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All tills</SelectItem>
+              {tills.map((till) => (
+                <SelectItem key={till.id} value={till.id}>
+                  {till.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <Card className="shadow-card">
+        <CardContent className="pt-6">
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : shifts.length === 0 ? (
+            <div className="text-center py-12">
+              <Vault className="w-10 h-10 mx-auto mb-2 text-muted-foreground" />
+              <p className="text-muted-foreground">No shifts yet. Shifts are opened from the POS.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Shift</TableHead>
+                  <TableHead>Opened</TableHead>
+                  <TableHead>Closed</TableHead>
+                  <TableHead className="text-right">Float</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">Counted</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shifts.map((shift) => {
+                  const variance = shift.variance === null ? null : Number(shift.variance);
+                  return (
+                    <TableRow key={shift.id}>
+                      <TableCell>
+                        <p className="font-medium">
+                          {shift.till?.name ?? "Till"} #{shift.shift_number}
+                        </p>
+                        {shift.status === "open" && <Badge variant="secondary">Open</Badge>}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <p>{format(new Date(shift.opened_at), "dd MMM yyyy HH:mm")}</p>
+                        <p className="text-muted-foreground">{shift.opener?.full_name}</p>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {shift.closed_at && (
+                          <>
+                            <p>{format(new Date(shift.closed_at), "dd MMM yyyy HH:mm")}</p>
+                            <p className="text-muted-foreground">{shift.closer?.full_name}</p>
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(Number(shift.opening_float))}</TableCell>
+                      <TableCell className="text-right">
+                        {shift.expected_cash !== null && formatCurrency(Number(shift.expected_cash))}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {shift.counted_cash !== null && formatCurrency(Number(shift.counted_cash))}
+                      </TableCell>
+                      <TableCell
+                        className={cn(
+                          "text-right font-medium",
+                          variance !== null && variance < 0 && "text-destructive",
+                          variance !== null && variance > 0 && "text-warning"
+                        )}
+                      >
+                        {variance !== null &&
+                          (variance === 0 ? "—" : `${variance > 0 ? "+" : "−"}${formatCurrency(Math.abs(variance))}`)}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          title={shift.status === "open" ? "X report" : "Z report"}
+                          onClick={() => setReportShiftId(shift.id)}
+                        >
+                          <FileText className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+          <DataPagination page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        </CardContent>
+      </Card>
+
+      <ShiftReportDialog shiftId={reportShiftId} onOpenChange={(open) => !open && setReportShiftId(null)} />
+    </div>
+  );
+};
+
+export default Shifts;
@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { invokeFunction } from "@/lib/functions";
+import { roleLabels } from "@/lib/roles";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import StaffFormDialog, { StaffMember } from "@/components/staff/StaffFormDialog";
+import { toast } from "sonner";
+import { Pencil, Search, UserPlus, Users } from "lucide-react";
+
+const Staff = () => {
+  const { user } = useAuth();
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [stores, setStores] = useState<Tables<"stores">[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [storeFilter, setStoreFilter] = useState("all");
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingMember, setEditingMember] = useState<StaffMember | null>(null);
+
+  const fetchStaff = useCallback(async () => {
+    setLoading(true);
+    try {
+      // Only the stores the admin runs, and the staff in them
+      const { staff, stores } = await invokeFunction<{ staff: StaffMember[]; stores: Tables<"stores">[] }>(
+        "manage-staff",
+        { action: "list" }
+      );
+      setStaff(staff);
+      setStores(stores);
+    } catch (error) {
+      console.error("Error fetching staff:", error);
+      toast.error("Failed to load staff");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStaff();
+  }, [fetchStaff]);
+
+  const storeNames = useMemo(() => new Map(stores.map((s) => [s.id, s.name])), [stores]);
+
+  const filteredStaff = staff.filter((member) => {
+    const query = search.trim().toLowerCase();
+    const matchesSearch =
+      !query ||
+      member.full_name.toLowerCase().includes(query) ||
+      member.email?.toLowerCase().includes(query) ||
+      member.phone?.includes(query);
+    const matchesStore =
+      storeFilter === "all" || (storeFilter === "none" ? !member.store_id : member.store_id === storeFilter);
+    return matchesSearch && matchesStore;
+  });
+
+  const unassignedCount = staff.filter((m) => !m.store_id && m.active).length;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Staff</h1>
+          <p className="text-muted-foreground mt-1">
+            Invite staff, assign them to stores and control what they can do.
+          </p>
+        </div>
+        <Button
+          onClick={() => {
+            setEditingMember(null);
+            setFormOpen(true);
+          }}
+        >
+          <UserPlus className="w-4 h-4 mr-2" />
+          Invite Staff
+        </Button>
+      </div>
+
+      {unassignedCount > 0 && (
+        <div className="rounded-lg border border-warning/50 bg-warning/10 p-4 text-sm">
+          {unassignedCount} active account(s) are not assigned to a store and cannot use the POS yet.
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex flex-wrap gap-3">
+            <div className="relative flex-1 min-w-[200px]">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by name, email or phone..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={storeFilter} onValueChange={setStoreFilter}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All stores</SelectItem>
+                <SelectItem value="none">Not assigned</SelectItem>
+                {stores.map((store) => (
+                  <SelectItem key={store.id} value={store.id}>
+                    {store.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : filteredStaff.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              <Users className="w-12 h-12 mx-auto mb-2 opacity-50" />
+              <p>No staff found</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Store</TableHead>
+                  <TableHead>Roles</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last sign-in</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredStaff.map((member) => (
+                  <TableRow key={member.id} className={member.active ? undefined : "opacity-60"}>
+                    <TableCell>
+                      <p className="font-medium">
+                        {member.full_name}
+                        {member.id === user?.id && <span className="text-muted-foreground font-normal"> (you)</span>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{member.email ?? member.phone}</p>
+                    </TableCell>
+                    <TableCell>
+                      {member.store_id ? (
+                        storeNames.get(member.store_id) ?? "Unknown store"
+                      ) : (
+                        <span className="text-muted-foreground">Not assigned</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {member.roles.length === 0 && <span className="text-muted-foreground">None</span>}
+                        {member.roles.map((role) => (
+                          <Badge key={role} variant={role === "admin" ? "default" : "secondary"}>
+                            {roleLabels[role]}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {!member.active ? (
+                        <Badge variant="destructive">Deactivated</Badge>
+                      ) : member.pending_invite ? (
+                        <Badge variant="outline">Invited</Badge>
+                      ) : (
+                        <Badge variant="secondary">Active</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {member.last_sign_in_at
+                        ? formatDistanceToNow(new Date(member.last_sign_in_at), { addSuffix: true })
+                        : "Never"}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => {
+                          setEditingMember(member);
+                          setFormOpen(true);
+                        }}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <StaffFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        stores={stores}
+        member={editingMember}
+        isSelf={editingMember?.id === user?.id}
+        onSaved={fetchStaff}
+      />
+    </div>
+  );
+};
+
+export default Staff;
@@ -0,0 +1,137 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ArrowLeft } from "lucide-react";
+
+type Movement = Tables<"stock_movement_history">;
+
+const movementLabels: Record<string, string> = {
+  sale: "Sale",
+  return: "Return",
+  receipt: "Goods received",
+  adjustment: "Adjustment",
+  transfer: "Transfer",
+  stocktake: "Stocktake",
+};
+
+const StockHistory = () => {
+  const { productId } = useParams<{ productId: string }>();
+  const [product, setProduct] = useState<{ name: string; stock_quantity: number } | null>(null);
+  const [movements, setMovements] = useState<Movement[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      if (!productId) return;
+
+      try {
+        const { data: productData } = await supabase
+          .from("products")
+          .select("name, stock_quantity")
+          .eq("id", productId)
+          .single();
+
+        setProduct(productData);
+
+        const { data: movementData } = await supabase
+          .from("stock_movement_history")
+          .select("*")
+          .eq("product_id", productId)
+          .order("created_at", { ascending: false })
+          .limit(200);
+
+        setMovements(movementData || []);
+      } catch (error) {
+        console.error("Error fetching stock history:", error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [productId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center gap-4">
+        <Link to="/inventory">
+          <Button variant="ghost" size="icon">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-3xl font-bold">{product?.name ?? "Product"}</h1>
+          <p className="text-muted-foreground mt-1">
+            Stock movement history · Current stock: {product?.stock_quantity ?? 0}
+          </p>
+        </div>
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>Movements</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {movements.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No stock movements recorded yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {movements.map((movement) => (
+                  <TableRow key={movement.id}>
+                    <TableCell>{new Date(movement.created_at!).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">
+                        {movementLabels[movement.movement_type!] ?? movement.movement_type}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{movement.reason || "—"}</TableCell>
+                    <TableCell>{movement.created_by_name || "System"}</TableCell>
+                    <TableCell
+                      className={`text-right font-medium ${movement.quantity! > 0 ? "text-success" : "text-destructive"}`}
+                    >
+                      {movement.quantity! > 0 ? `+${movement.quantity}` : movement.quantity}
+                    </TableCell>
+                    <TableCell className="text-right">{movement.balance_after}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StockHistory;
@@ -0,0 +1,483 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Enums, Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { useBarcodeScanner } from "@/hooks/useBarcodeScanner";
+import { findProductByCode, isCameraScanSupported, scanFailed, scanSucceeded } from "@/lib/barcode";
+import { stocktakeStatusLabels, stocktakeStatusVariants } from "@/lib/stocktakes";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import CameraScanDialog from "@/components/pos/CameraScanDialog";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ArrowLeft, Ban, Camera, CheckCircle2, RotateCcw, Search, Send } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+// Expected quantities and variances are only loaded for managers
+type StocktakeItem = Omit<Tables<"stocktake_items">, "expected_quantity" | "variance"> & {
+  expected_quantity?: number;
+  variance?: number | null;
+  product: Pick<Tables<"products">, "name" | "sku" | "barcode"> | null;
+};
+
+type ItemUpdate = Partial<StocktakeItem> & { id: string };
+
+type StocktakeWithItems = Tables<"stocktakes"> & {
+  category: { name: string } | null;
+  starter: { full_name: string } | null;
+  submitter: { full_name: string } | null;
+  approver: { full_name: string } | null;
+  items: StocktakeItem[];
+};
+
+type ItemFilter = "all" | "uncounted" | "variances";
+
+const fetchExpected = async (stocktakeId: string, productId?: string) => {
+  const { data, error } = await supabase.rpc("stocktake_expected_quantities", {
+    _stocktake_id: stocktakeId,
+    _product_id: productId,
+  });
+  if (error) throw error;
+  return new Map<string, ItemUpdate>(data.map((row) => [row.id, row]));
+};
+
+const StocktakeDetails = () => {
+  const { stocktakeId } = useParams<{ stocktakeId: string }>();
+  const { hasRole } = useAuth();
+  const { formatCurrency } = useStoreSettings();
+  const [stocktake, setStocktake] = useState<StocktakeWithItems | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [search, setSearch] = useState("");
+  const [filter, setFilter] = useState<ItemFilter>("all");
+  // Counts being typed, keyed by item, until the field loses focus
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [cameraOpen, setCameraOpen] = useState(false);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const canManage = hasRole("manager");
+
+  const fetchStocktake = useCallback(async () => {
+    if (!stocktakeId) return;
+    try {
+      const { data, error } = await supabase
+        .from("stocktakes")
+        .select(
+          "*, category:categories(name), starter:profiles!stocktakes_started_by_fkey(full_name), submitter:profiles!stocktakes_submitted_by_fkey(full_name), approver:profiles!stocktakes_approved_by_fkey(full_name), items:stocktake_items(id, stocktake_id, product_id, cost_price, counted_quantity, counted_by, counted_at, product:products(name, sku, barcode))"
+        )
+        .eq("id", stocktakeId)
+        .maybeSingle();
+      if (error) throw error;
+
+      if (data) {
+        data.items.sort((a, b) => (a.product?.name ?? "").localeCompare(b.product?.name ?? ""));
+      }
+      if (data && canManage) {
+        const expected = await fetchExpected(data.id);
+        setStocktake({ ...data, items: data.items.map((item) => ({ ...item, ...expected.get(item.id) })) });
+      } else {
+        setStocktake(data);
+      }
+      setDrafts({});
+    } catch (error) {
+      console.error("Error fetching stocktake:", error);
+      toast.error("Failed to load stocktake");
+    } finally {
+      setLoading(false);
+    }
+  }, [stocktakeId, canManage]);
+
+  useEffect(() => {
+    fetchStocktake();
+  }, [fetchStocktake]);
+
+  const counting = stocktake?.status === "counting";
+
+  const updateItem = (updated: ItemUpdate) => {
+    setStocktake((current) =>
+      current && {
+        ...current,
+        items: current.items.map((item) => (item.id === updated.id ? { ...item, ...updated } : item)),
+      }
+    );
+  };
+
+  const recordCount = async (item: StocktakeItem, quantity: number, add: boolean) => {
+    if (!stocktake) return null;
+    const { data, error } = await supabase
+      .rpc("record_stocktake_count", {
+        _stocktake_id: stocktake.id,
+        _product_id: item.product_id,
+        _quantity: quantity,
+        _add: add,
+      })
+      .single();
+
+    if (error) {
+      console.error("Error recording count:", error);
+      toast.error(`Failed to record count: ${error.message}`);
+      return null;
+    }
+    updateItem(data);
+    // Counting takes the expected quantity afresh from current stock
+    if (canManage) {
+      const expected = await fetchExpected(stocktake.id, item.product_id).catch(() => null);
+      const update = expected?.get(item.id);
+      if (update) updateItem(update);
+    }
+    return data;
+  };
+
+  const saveDraft = async (item: StocktakeItem) => {
+    const value = drafts[item.id];
+    if (value === undefined) return;
+
+    setDrafts((current) => {
+      const next = { ...current };
+      delete next[item.id];
+      return next;
+    });
+    if (value.trim() === "") return;
+
+    const quantity = Math.max(0, Math.floor(Number(value) || 0));
+    if (quantity !== item.counted_quantity) {
+      await recordCount(item, quantity, false);
+    }
+  };
+
+  // Each scan counts one more of the product
+  const handleScan = async (code: string) => {
+    if (!stocktake) return;
+    setSearch((query) => (query.endsWith(code) ? query.slice(0, -code.length) : query));
+
+    const item = findProductByCode(
+      stocktake.items.map((i) => ({ ...i, barcode: i.product?.barcode ?? null, sku: i.product?.sku ?? null })),
+      code
+    );
+    if (!item) {
+      scanFailed();
+      toast.error(`No product in this stocktake with barcode or SKU ${code}`);
+      return;
+    }
+
+    const updated = await recordCount(item, 1, true);
+    if (updated) {
+      scanSucceeded();
+      toast.success(`${item.product?.name}: ${updated.counted_quantity} counted`);
+    } else {
+      scanFailed();
+    }
+  };
+
+  useBarcodeScanner({
+    enabled: counting && !cameraOpen,
+    onScan: handleScan,
+    allowIn: searchInputRef,
+  });
+
+  const setStatus = async (status: Enums<"stocktake_status">, message: string) => {
+    if (!stocktake) return;
+    setUpdating(true);
+    const { error } = await supabase.rpc("set_stocktake_status", {
+      _stocktake_id: stocktake.id,
+      _status: status,
+    });
+    setUpdating(false);
+
+    if (error) {
+      console.error("Error updating stocktake:", error);
+      toast.error(`Failed to update ${stocktake.stocktake_number}: ${error.message}`);
+      return;
+    }
+    toast.success(message);
+    fetchStocktake();
+  };
+
+  const approve = async () => {
+    if (!stocktake) return;
+    setUpdating(true);
+    const { error } = await supabase.rpc("approve_stocktake", { _stocktake_id: stocktake.id });
+    setUpdating(false);
+
+    if (error) {
+      console.error("Error approving stocktake:", error);
+      toast.error(`Failed to approve ${stocktake.stocktake_number}: ${error.message}`);
+      return;
+    }
+    toast.success(`${stocktake.stocktake_number} approved, stock updated`);
+    fetchStocktake();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!stocktake) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Stocktake not found</h2>
+        <Link to="/stocktakes" className="text-primary hover:underline mt-2 inline-block">
+          Back to stocktakes
+        </Link>
+      </div>
+    );
+  }
+
+  // Staff count blind, so the expected figures cannot sway them
+  const showExpected = canManage;
+  const counted = stocktake.items.filter((item) => item.counted_quantity !== null);
+  const unitVariance = counted.reduce((sum, item) => sum + (item.variance ?? 0), 0);
+  const valueVariance = counted.reduce((sum, item) => sum + (item.variance ?? 0) * Number(item.cost_price), 0);
+  const shortfall = counted.reduce(
+    (sum, item) => sum + Math.min(item.variance ?? 0, 0) * Number(item.cost_price),
+    0
+  );
+
+  const term = search.trim().toLowerCase();
+  const visibleItems = stocktake.items.filter(
+    (item) =>
+      (!term ||
+        item.product?.name.toLowerCase().includes(term) ||
+        item.product?.sku?.toLowerCase().includes(term) ||
+        item.product?.barcode?.includes(term)) &&
+      (filter === "all" ||
+        (filter === "uncounted" && item.counted_quantity === null) ||
+        (filter === "variances" && showExpected && (item.variance ?? 0) !== 0))
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link to="/stocktakes">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </Link>
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold font-mono">{stocktake.stocktake_number}</h1>
+              <Badge variant={stocktakeStatusVariants[stocktake.status]}>
+                {stocktakeStatusLabels[stocktake.status]}
+              </Badge>
+            </div>
+            <p className="text-muted-foreground mt-1">
+              {stocktake.category_id ? stocktake.category?.name : "Every product"}
+              {stocktake.notes && ` · ${stocktake.notes}`}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              Started {format(new Date(stocktake.started_at), "dd MMM yyyy HH:mm")} by {stocktake.starter?.full_name}
+              {stocktake.submitted_at &&
+                ` · Submitted ${format(new Date(stocktake.submitted_at), "dd MMM yyyy HH:mm")} by ${stocktake.submitter?.full_name}`}
+              {stocktake.approved_at &&
+                ` · Approved ${format(new Date(stocktake.approved_at), "dd MMM yyyy HH:mm")} by ${stocktake.approver?.full_name}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          {counting && (
+            <Button
+              disabled={updating || counted.length === 0}
+              onClick={() => setStatus("submitted", `${stocktake.stocktake_number} submitted for approval`)}
+            >
+              <Send className="w-4 h-4 mr-2" />
+              Submit Count
+            </Button>
+          )}
+          {canManage && stocktake.status === "submitted" && (
+            <>
+              <Button
+                variant="outline"
+                disabled={updating}
+                onClick={() => setStatus("counting", `${stocktake.stocktake_number} reopened for counting`)}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Recount
+              </Button>
+              <Button disabled={updating} onClick={approve}>
+                <CheckCircle2 className="w-4 h-4 mr-2" />
+                Approve &amp; Adjust Stock
+              </Button>
+            </>
+          )}
+          {canManage && (counting || stocktake.status === "submitted") && (
+            <Button
+              variant="destructive"
+              disabled={updating}
+              onClick={() => setStatus("cancelled", `${stocktake.stocktake_number} cancelled`)}
+            >
+              <Ban className="w-4 h-4 mr-2" />
+              Cancel
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="shadow-card">
+          <CardContent className="pt-6">
+            <p className="text-sm text-muted-foreground">Counted</p>
+            <p className="text-2xl font-bold">
+              {counted.length} of {stocktake.items.length}
+            </p>
+          </CardContent>
+        </Card>
+        {showExpected && (
+          <>
+            <Card className="shadow-card">
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Net variance</p>
+                <p className={cn("text-2xl font-bold", valueVariance < 0 && "text-destructive")}>
+                  {formatCurrency(valueVariance, true)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {unitVariance > 0 && "+"}
+                  {unitVariance} unit{Math.abs(unitVariance) === 1 ? "" : "s"} at cost
+                </p>
+              </CardContent>
+            </Card>
+            <Card className="shadow-card">
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Shortfall</p>
+                <p className={cn("text-2xl font-bold", shortfall < 0 && "text-destructive")}>
+                  {formatCurrency(shortfall, true)}
+                </p>
+                <p className="text-xs text-muted-foreground">Value of stock found missing</p>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+              <Input
+                ref={searchInputRef}
+                placeholder={counting ? "Search or scan products..." : "Search products..."}
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            {counting && isCameraScanSupported() && (
+              <Button variant="outline" size="icon" onClick={() => setCameraOpen(true)} title="Scan with camera">
+                <Camera className="w-4 h-4" />
+              </Button>
+            )}
+            <Select value={filter} onValueChange={(value) => setFilter(value as ItemFilter)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All products</SelectItem>
+                <SelectItem value="uncounted">Not counted</SelectItem>
+                {showExpected && <SelectItem value="variances">With a variance</SelectItem>}
+              </SelectContent>
+            </Select>
+          </div>
+          {counting && (
+            <p className="text-sm text-muted-foreground">
+              Type each count, or scan items one at a time to add them. Products left uncounted keep their current
+              stock.
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {visibleItems.length === 0 ? (
+            <p className="text-center py-12 text-muted-foreground">No products found.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  {showExpected && <TableHead className="text-right">Expected</TableHead>}
+                  <TableHead className={counting ? "w-28" : "text-right"}>Counted</TableHead>
+                  {showExpected && (
+                    <>
+                      <TableHead className="text-right">Variance</TableHead>
+                      <TableHead className="text-right">Unit cost</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
+                    </>
+                  )}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleItems.map((item) => {
+                  const variance = item.variance ?? 0;
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <p className="font-medium">{item.product?.name}</p>
+                        {item.product?.sku && <p className="text-xs text-muted-foreground">{item.product.sku}</p>}
+                      </TableCell>
+                      {showExpected && <TableCell className="text-right">{item.expected_quantity}</TableCell>}
+                      <TableCell className={counting ? undefined : "text-right"}>
+                        {counting ? (
+                          <Input
+                            type="number"
+                            min="0"
+                            step="1"
+                            className="h-8"
+                            placeholder="—"
+                            value={drafts[item.id] ?? item.counted_quantity ?? ""}
+                            onChange={(e) => setDrafts({ ...drafts, [item.id]: e.target.value })}
+                            onBlur={() => saveDraft(item)}
+                            onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                          />
+                        ) : (
+                          item.counted_quantity ?? <span className="text-muted-foreground">Not counted</span>
+                        )}
+                      </TableCell>
+                      {showExpected && (
+                        <>
+                          <TableCell
+                            className={cn(
+                              "text-right font-medium",
+                              variance < 0 && "text-destructive",
+                              variance > 0 && "text-success"
+                            )}
+                          >
+                            {item.counted_quantity === null ? "—" : `${variance > 0 ? "+" : ""}${variance}`}
+                          </TableCell>
+                          <TableCell className="text-right">{formatCurrency(Number(item.cost_price), true)}</TableCell>
+                          <TableCell className={cn("text-right", variance < 0 && "text-destructive")}>
+                            {item.counted_quantity === null || variance === 0
+                              ? "—"
+                              : formatCurrency(variance * Number(item.cost_price), true)}
+                          </TableCell>
+                        </>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <CameraScanDialog open={cameraOpen} onOpenChange={setCameraOpen} onScan={handleScan} />
+    </div>
+  );
+};
+
+export default StocktakeDetails;
@@ -0,0 +1,181 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { stocktakeStatusLabels, stocktakeStatusVariants } from "@/lib/stocktakes";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import DataPagination from "@/components/DataPagination";
+import StartStocktakeDialog from "@/components/stocktakes/StartStocktakeDialog";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ClipboardCheck, Plus } from "lucide-react";
+
+type StocktakeRow = Tables<"stocktakes"> & {
+  category: { name: string } | null;
+  starter: { full_name: string } | null;
+};
+
+const PAGE_SIZE = 20;
+
+const Stocktakes = () => {
+  const { hasRole } = useAuth();
+  const { store } = useStoreSettings();
+  const navigate = useNavigate();
+  const [stocktakes, setStocktakes] = useState<StocktakeRow[]>([]);
+  const [categories, setCategories] = useState<Pick<Tables<"categories">, "id" | "name">[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [startOpen, setStartOpen] = useState(false);
+  const canManage = hasRole("manager");
+  const storeId = store?.id;
+
+  useEffect(() => {
+    if (!storeId || !canManage) return;
+    supabase
+      .from("categories")
+      .select("id, name")
+      .eq("store_id", storeId)
+      .order("name")
+      .then(({ data, error }) => {
+        if (error) {
+          console.error("Error fetching categories:", error);
+          return;
+        }
+        setCategories(data);
+      });
+  }, [storeId, canManage]);
+
+  const fetchStocktakes = useCallback(async () => {
+    if (!storeId) return;
+
+    setLoading(true);
+    try {
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, count, error } = await supabase
+        .from("stocktakes")
+        .select(
+          "*, category:categories(name), starter:profiles!stocktakes_started_by_fkey(full_name)",
+          { count: "exact" }
+        )
+        .eq("store_id", storeId)
+        .order("started_at", { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      setStocktakes(data || []);
+      setTotal(count ?? 0);
+    } catch (error) {
+      console.error("Error fetching stocktakes:", error);
+      toast.error("Failed to load stocktakes");
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId, page]);
+
+  useEffect(() => {
+    fetchStocktakes();
+  }, [fetchStocktakes]);
+
+  if (!store) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Stocktakes</h2>
+        <p className="text-muted-foreground mt-2">Your account is not assigned to a store yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Stocktakes</h1>
+          <p className="text-muted-foreground mt-1">Count what is on the shelves and correct the stock records.</p>
+        </div>
+        {canManage && (
+          <Button onClick={() => setStartOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Stocktake
+          </Button>
+        )}
+      </div>
+
+      <Card className="shadow-card">
+        <CardContent className="pt-6">
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : stocktakes.length === 0 ? (
+            <div className="text-center py-12">
+              <ClipboardCheck className="w-10 h-10 mx-auto mb-2 text-muted-foreground" />
+              <p className="text-muted-foreground">No stocktakes yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stocktake</TableHead>
+                  <TableHead>Counting</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Approved</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stocktakes.map((stocktake) => (
+                  <TableRow key={stocktake.id}>
+                    <TableCell>
+                      <Link to={`/stocktakes/${stocktake.id}`} className="font-mono font-medium hover:underline">
+                        {stocktake.stocktake_number}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{stocktake.category_id ? stocktake.category?.name : "Every product"}</TableCell>
+                    <TableCell className="text-sm">
+                      <p>{format(new Date(stocktake.started_at), "dd MMM yyyy HH:mm")}</p>
+                      <p className="text-muted-foreground">{stocktake.starter?.full_name}</p>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {stocktake.approved_at ? format(new Date(stocktake.approved_at), "dd MMM yyyy HH:mm") : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={stocktakeStatusVariants[stocktake.status]}>
+                        {stocktakeStatusLabels[stocktake.status]}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          <DataPagination page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <StartStocktakeDialog
+          open={startOpen}
+          onOpenChange={setStartOpen}
+          categories={categories}
+          onStarted={(stocktake) => navigate(`/stocktakes/${stocktake.id}`)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Stocktakes;
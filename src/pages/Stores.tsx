@@ -0,0 +1,210 @@
+import { useCallback, useEffect, useState } from "react";
+import { startOfDay, subDays } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import StoreFormDialog from "@/components/stores/StoreFormDialog";
+import { toast } from "sonner";
+import { Building2, Plus } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type StoreSummary = Database["public"]["Functions"]["store_summaries"]["Returns"][number];
+
+type Period = "today" | "7" | "30";
+
+const periodStart = (period: Period) =>
+  period === "today" ? startOfDay(new Date()) : startOfDay(subDays(new Date(), Number(period) - 1));
+
+const Stores = () => {
+  const { store, switchStore, formatCurrency } = useStoreSettings();
+  const [summaries, setSummaries] = useState<StoreSummary[]>([]);
+  const [period, setPeriod] = useState<Period>("today");
+  const [loading, setLoading] = useState(true);
+  const [switchingTo, setSwitchingTo] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+
+  const fetchSummaries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.rpc("store_summaries", {
+        _from: periodStart(period).toISOString(),
+      });
+      if (error) throw error;
+      setSummaries(data);
+    } catch (error) {
+      console.error("Error fetching store summaries:", error);
+      toast.error("Failed to load stores");
+    } finally {
+      setLoading(false);
+    }
+  }, [period]);
+
+  useEffect(() => {
+    fetchSummaries();
+  }, [fetchSummaries]);
+
+  const handleSwitch = async (summary: StoreSummary) => {
+    setSwitchingTo(summary.store_id);
+    try {
+      await switchStore(summary.store_id);
+      toast.success(`Switched to ${summary.store_name}`);
+    } catch (error) {
+      console.error("Error switching store:", error);
+      toast.error("Failed to switch store");
+      setSwitchingTo(null);
+    }
+  };
+
+  const totals = summaries.reduce(
+    (sum, row) => ({
+      sales_count: sum.sales_count + row.sales_count,
+      sales_total: sum.sales_total + Number(row.sales_total),
+      stock_units: sum.stock_units + row.stock_units,
+      stock_value: sum.stock_value + Number(row.stock_value),
+      low_stock_count: sum.low_stock_count + row.low_stock_count,
+      transfers_in_transit: sum.transfers_in_transit + row.transfers_in_transit,
+    }),
+    { sales_count: 0, sales_total: 0, stock_units: 0, stock_value: 0, low_stock_count: 0, transfers_in_transit: 0 }
+  );
+
+  const totalCards = [
+    { title: "Sales", value: formatCurrency(totals.sales_total) },
+    { title: "Transactions", value: totals.sales_count },
+    { title: "Stock at cost", value: formatCurrency(totals.stock_value) },
+    { title: "Transfers on the way", value: totals.transfers_in_transit },
+  ];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Stores</h1>
+          <p className="text-muted-foreground mt-1">Every store side by side, and all of them added together.</p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={period} onValueChange={(value) => setPeriod(value as Period)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="today">Today</SelectItem>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setFormOpen(true)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Store
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+        {totalCards.map((card) => (
+          <Card key={card.title} className="shadow-card">
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground">{card.title}</p>
+              <p className="text-2xl font-bold">{card.value}</p>
+              <p className="text-xs text-muted-foreground">All stores</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card className="shadow-card">
+        <CardContent className="pt-6">
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : summaries.length === 0 ? (
+            <div className="text-center py-12">
+              <Building2 className="w-10 h-10 mx-auto mb-2 text-muted-foreground" />
+              <p className="text-muted-foreground">No stores yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Store</TableHead>
+                  <TableHead className="text-right">Sales</TableHead>
+                  <TableHead className="text-right">Transactions</TableHead>
+                  <TableHead className="text-right">Stock units</TableHead>
+                  <TableHead className="text-right">Stock at cost</TableHead>
+                  <TableHead className="text-right">Low stock</TableHead>
+                  <TableHead className="text-right">Incoming transfers</TableHead>
+                  <TableHead className="w-28"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summaries.map((row) => (
+                  <TableRow key={row.store_id} className={row.active ? undefined : "text-muted-foreground"}>
+                    <TableCell className="font-medium">
+                      {row.store_name}
+                      {!row.active && (
+                        <Badge variant="outline" className="ml-2">
+                          Inactive
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(row.sales_total))}</TableCell>
+                    <TableCell className="text-right">{row.sales_count}</TableCell>
+                    <TableCell className="text-right">{row.stock_units}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(row.stock_value))}</TableCell>
+                    <TableCell className={cn("text-right", row.low_stock_count > 0 && "text-warning")}>
+                      {row.low_stock_count}
+                    </TableCell>
+                    <TableCell className="text-right">{row.transfers_in_transit || "—"}</TableCell>
+                    <TableCell className="text-right">
+                      {row.store_id === store?.id ? (
+                        <Badge variant="secondary">Current</Badge>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!row.active || switchingTo !== null}
+                          onClick={() => handleSwitch(row)}
+                        >
+                          Switch
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell>All stores</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.sales_total)}</TableCell>
+                  <TableCell className="text-right">{totals.sales_count}</TableCell>
+                  <TableCell className="text-right">{totals.stock_units}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(totals.stock_value)}</TableCell>
+                  <TableCell className="text-right">{totals.low_stock_count}</TableCell>
+                  <TableCell className="text-right">{totals.transfers_in_transit || "—"}</TableCell>
+                  <TableCell></TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <StoreFormDialog open={formOpen} onOpenChange={setFormOpen} onSaved={fetchSummaries} />
+    </div>
+  );
+};
+
+export default Stores;
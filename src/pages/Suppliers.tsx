@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { formatPhone } from "@/lib/phone";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import SupplierFormDialog from "@/components/purchasing/SupplierFormDialog";
+import { toast } from "sonner";
+import { Pencil, Plus, Search, Truck } from "lucide-react";
+
+type Supplier = Tables<"suppliers">;
+
+const Suppliers = () => {
+  const { store } = useStoreSettings();
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState("");
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const storeId = store?.id;
+
+  const fetchSuppliers = useCallback(async () => {
+    if (!storeId) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.from("suppliers").select("*").eq("store_id", storeId).order("name");
+      if (error) throw error;
+      setSuppliers(data);
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+      toast.error("Failed to load suppliers");
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId]);
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, [fetchSuppliers]);
+
+  // Suppliers with orders cannot be deleted, so they are switched off instead
+  const toggleActive = async (supplier: Supplier, active: boolean) => {
+    const { error } = await supabase.from("suppliers").update({ active }).eq("id", supplier.id);
+    if (error) {
+      console.error("Error updating supplier:", error);
+      toast.error("Failed to update supplier");
+      return;
+    }
+    setSuppliers((current) => current.map((s) => (s.id === supplier.id ? { ...s, active } : s)));
+  };
+
+  if (!store) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Suppliers</h2>
+        <p className="text-muted-foreground mt-2">Your account is not assigned to a store yet.</p>
+      </div>
+    );
+  }
+
+  const term = search.trim().toLowerCase();
+  const visibleSuppliers = suppliers.filter(
+    (supplier) =>
+      !term ||
+      supplier.name.toLowerCase().includes(term) ||
+      supplier.contact_name?.toLowerCase().includes(term) ||
+      supplier.phone?.includes(term)
+  );
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Suppliers</h1>
+          <p className="text-muted-foreground mt-1">The businesses you order stock from.</p>
+        </div>
+        <Button
+          onClick={() => {
+            setEditingSupplier(null);
+            setFormOpen(true);
+          }}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Supplier
+        </Button>
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+            <Input
+              placeholder="Search by name, contact or phone..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-10"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : visibleSuppliers.length === 0 ? (
+            <div className="text-center py-12">
+              <Truck className="w-10 h-10 mx-auto mb-2 text-muted-foreground" />
+              <p className="text-muted-foreground">
+                {suppliers.length === 0 ? "No suppliers yet." : "No suppliers found."}
+              </p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead>Contact</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>KRA PIN</TableHead>
+                  <TableHead className="text-right">Lead time</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleSuppliers.map((supplier) => (
+                  <TableRow key={supplier.id} className={supplier.active ? undefined : "text-muted-foreground"}>
+                    <TableCell>
+                      <p className="font-medium">{supplier.name}</p>
+                      {supplier.email && <p className="text-xs text-muted-foreground">{supplier.email}</p>}
+                    </TableCell>
+                    <TableCell>{supplier.contact_name || "—"}</TableCell>
+                    <TableCell>{supplier.phone ? formatPhone(supplier.phone) : "—"}</TableCell>
+                    <TableCell className="font-mono text-sm">{supplier.kra_pin || "—"}</TableCell>
+                    <TableCell className="text-right">
+                      {supplier.lead_time_days} day{supplier.lead_time_days === 1 ? "" : "s"}
+                    </TableCell>
+                    <TableCell>
+                      <Switch checked={supplier.active} onCheckedChange={(active) => toggleActive(supplier, active)} />
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8"
+                        title="Edit"
+                        onClick={() => {
+                          setEditingSupplier(supplier);
+                          setFormOpen(true);
+                        }}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <SupplierFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        storeId={store.id}
+        supplier={editingSupplier}
+        onSaved={fetchSuppliers}
+      />
+    </div>
+  );
+};
+
+export default Suppliers;
@@ -0,0 +1,291 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { stockTransferStatusLabels, stockTransferStatusVariants } from "@/lib/transfers";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import StockTransferFormDialog, { TransferableProduct } from "@/components/transfers/StockTransferFormDialog";
+import ReceiveTransferDialog from "@/components/transfers/ReceiveTransferDialog";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ArrowLeft, Ban, PackageCheck, Pencil, Send } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type StockTransferWithItems = Tables<"stock_transfers"> & {
+  from_store: { name: string } | null;
+  to_store: { name: string } | null;
+  dispatcher: { full_name: string } | null;
+  receiver: { full_name: string } | null;
+  items: (Tables<"stock_transfer_items"> & { catalogue_item: { name: string; sku: string | null } | null })[];
+};
+
+const TransferDetails = () => {
+  const { transferId } = useParams<{ transferId: string }>();
+  const { store } = useStoreSettings();
+  const [transfer, setTransfer] = useState<StockTransferWithItems | null>(null);
+  const [stores, setStores] = useState<Pick<Tables<"stores">, "id" | "name">[]>([]);
+  const [products, setProducts] = useState<TransferableProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [editOpen, setEditOpen] = useState(false);
+  const [receiveOpen, setReceiveOpen] = useState(false);
+  const storeId = store?.id;
+  const isSender = !!transfer && transfer.from_store_id === storeId;
+  const isDraft = transfer?.status === "draft";
+
+  const fetchTransfer = useCallback(async () => {
+    if (!transferId) return;
+    try {
+      const { data, error } = await supabase
+        .from("stock_transfers")
+        .select(
+          "*, from_store:stores!stock_transfers_from_store_id_fkey(name), to_store:stores!stock_transfers_to_store_id_fkey(name), dispatcher:profiles!stock_transfers_dispatched_by_fkey(full_name), receiver:profiles!stock_transfers_received_by_fkey(full_name), items:stock_transfer_items(*, catalogue_item:catalogue_items(name, sku))"
+        )
+        .eq("id", transferId)
+        .maybeSingle();
+      if (error) throw error;
+      setTransfer(data);
+    } catch (error) {
+      console.error("Error fetching stock transfer:", error);
+      toast.error("Failed to load transfer");
+    } finally {
+      setLoading(false);
+    }
+  }, [transferId]);
+
+  useEffect(() => {
+    fetchTransfer();
+  }, [fetchTransfer]);
+
+  // Stores and products are only needed while the sending store can still edit the draft
+  useEffect(() => {
+    if (!storeId || !isDraft || !isSender) return;
+    Promise.all([
+      supabase.from("stores").select("id, name").eq("active", true).neq("id", storeId).order("name"),
+      supabase
+        .from("products")
+        .select("id, name, sku, stock_quantity")
+        .eq("store_id", storeId)
+        .eq("active", true)
+        .order("name"),
+    ]).then(([storesResult, productsResult]) => {
+      if (storesResult.error || productsResult.error) {
+        console.error("Error fetching stores and products:", storesResult.error ?? productsResult.error);
+        return;
+      }
+      setStores(storesResult.data);
+      setProducts(productsResult.data);
+    });
+  }, [storeId, isDraft, isSender]);
+
+  // Memoised so the dialogs only reset their inputs when the transfer changes
+  const arrivingItems = useMemo(
+    () =>
+      (transfer?.items ?? []).map((item) => ({
+        id: item.id,
+        product_name: item.catalogue_item?.name ?? "Product",
+        quantity: item.quantity,
+      })),
+    [transfer]
+  );
+
+  const editableTransfer = useMemo(
+    () =>
+      transfer && {
+        ...transfer,
+        items: transfer.items.map((item) => ({ product_id: item.from_product_id, quantity: item.quantity })),
+      },
+    [transfer]
+  );
+
+  const dispatchTransfer = async () => {
+    if (!transfer) return;
+    setUpdating(true);
+    const { error } = await supabase.rpc("dispatch_stock_transfer", { _stock_transfer_id: transfer.id });
+    setUpdating(false);
+
+    if (error) {
+      console.error("Error dispatching stock transfer:", error);
+      toast.error(`Failed to dispatch ${transfer.transfer_number}: ${error.message}`);
+      return;
+    }
+    toast.success(`${transfer.transfer_number} dispatched, stock deducted`);
+    fetchTransfer();
+  };
+
+  const cancelTransfer = async () => {
+    if (!transfer) return;
+    setUpdating(true);
+    const { error } = await supabase.rpc("cancel_stock_transfer", { _stock_transfer_id: transfer.id });
+    setUpdating(false);
+
+    if (error) {
+      console.error("Error cancelling stock transfer:", error);
+      toast.error(`Failed to cancel ${transfer.transfer_number}: ${error.message}`);
+      return;
+    }
+    toast.success(`${transfer.transfer_number} cancelled`);
+    fetchTransfer();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!transfer) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Transfer not found</h2>
+        <Link to="/transfers" className="text-primary hover:underline mt-2 inline-block">
+          Back to transfers
+        </Link>
+      </div>
+    );
+  }
+
+  const canReceive = transfer.status === "dispatched" && transfer.to_store_id === storeId;
+  const isReceived = transfer.status === "received";
+  const sentUnits = transfer.items.reduce((sum, item) => sum + item.quantity, 0);
+  const receivedUnits = transfer.items.reduce((sum, item) => sum + (item.received_quantity ?? 0), 0);
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link to="/transfers">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </Link>
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-3xl font-bold font-mono">{transfer.transfer_number}</h1>
+              <Badge variant={stockTransferStatusVariants[transfer.status]}>
+                {stockTransferStatusLabels[transfer.status]}
+              </Badge>
+            </div>
+            <p className="text-muted-foreground mt-1">
+              {transfer.from_store?.name} → {transfer.to_store?.name}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              Raised {format(new Date(transfer.created_at), "dd MMM yyyy")}
+              {transfer.dispatched_at &&
+                ` · Dispatched ${format(new Date(transfer.dispatched_at), "dd MMM yyyy HH:mm")}${
+                  transfer.dispatcher ? ` by ${transfer.dispatcher.full_name}` : ""
+                }`}
+              {transfer.received_at &&
+                ` · Received ${format(new Date(transfer.received_at), "dd MMM yyyy HH:mm")}${
+                  transfer.receiver ? ` by ${transfer.receiver.full_name}` : ""
+                }`}
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap justify-end gap-2">
+          {isDraft && isSender && (
+            <>
+              <Button variant="outline" onClick={() => setEditOpen(true)}>
+                <Pencil className="w-4 h-4 mr-2" />
+                Edit
+              </Button>
+              <Button disabled={updating} onClick={dispatchTransfer}>
+                <Send className="w-4 h-4 mr-2" />
+                Dispatch
+              </Button>
+              <Button variant="destructive" disabled={updating} onClick={cancelTransfer}>
+                <Ban className="w-4 h-4 mr-2" />
+                Cancel Transfer
+              </Button>
+            </>
+          )}
+          {canReceive && (
+            <Button onClick={() => setReceiveOpen(true)}>
+              <PackageCheck className="w-4 h-4 mr-2" />
+              Receive
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>Items</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Product</TableHead>
+                <TableHead className="text-right">Sent</TableHead>
+                <TableHead className="text-right">Received</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {transfer.items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>
+                    <p className="font-medium">{item.catalogue_item?.name}</p>
+                    {item.catalogue_item?.sku && (
+                      <p className="text-xs text-muted-foreground">{item.catalogue_item.sku}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{item.quantity}</TableCell>
+                  <TableCell
+                    className={cn(
+                      "text-right",
+                      item.received_quantity !== null && item.received_quantity < item.quantity && "text-warning"
+                    )}
+                  >
+                    {item.received_quantity ?? "—"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          <div className="flex justify-end gap-6 text-lg font-bold">
+            <span>Sent {sentUnits}</span>
+            {isReceived && (
+              <span className={receivedUnits < sentUnits ? "text-warning" : undefined}>Received {receivedUnits}</span>
+            )}
+          </div>
+          {transfer.notes && <p className="text-sm text-muted-foreground">{transfer.notes}</p>}
+        </CardContent>
+      </Card>
+
+      {isDraft && isSender && (
+        <StockTransferFormDialog
+          open={editOpen}
+          onOpenChange={setEditOpen}
+          stores={stores}
+          products={products}
+          transfer={editableTransfer}
+          onSaved={fetchTransfer}
+        />
+      )}
+
+      <ReceiveTransferDialog
+        open={receiveOpen}
+        onOpenChange={setReceiveOpen}
+        transfer={transfer}
+        items={arrivingItems}
+        onReceived={fetchTransfer}
+      />
+    </div>
+  );
+};
+
+export default TransferDetails;
@@ -0,0 +1,224 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useStoreSettings } from "@/hooks/useStoreSettings";
+import { stockTransferStatusLabels, stockTransferStatusVariants } from "@/lib/transfers";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import DataPagination from "@/components/DataPagination";
+import StockTransferFormDialog, { TransferableProduct } from "@/components/transfers/StockTransferFormDialog";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ArrowLeftRight, Plus } from "lucide-react";
+
+type StockTransferRow = Tables<"stock_transfers"> & {
+  from_store: { name: string } | null;
+  to_store: { name: string } | null;
+};
+
+type Direction = "all" | "outgoing" | "incoming";
+
+const PAGE_SIZE = 20;
+
+const Transfers = () => {
+  const { store } = useStoreSettings();
+  const navigate = useNavigate();
+  const [transfers, setTransfers] = useState<StockTransferRow[]>([]);
+  const [stores, setStores] = useState<Pick<Tables<"stores">, "id" | "name">[]>([]);
+  const [products, setProducts] = useState<TransferableProduct[]>([]);
+  const [direction, setDirection] = useState<Direction>("all");
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [formOpen, setFormOpen] = useState(false);
+  const storeId = store?.id;
+
+  useEffect(() => {
+    if (!storeId) return;
+    Promise.all([
+      supabase.from("stores").select("id, name").eq("active", true).neq("id", storeId).order("name"),
+      supabase
+        .from("products")
+        .select("id, name, sku, stock_quantity")
+        .eq("store_id", storeId)
+        .eq("active", true)
+        .order("name"),
+    ]).then(([storesResult, productsResult]) => {
+      if (storesResult.error || productsResult.error) {
+        console.error("Error fetching stores and products:", storesResult.error ?? productsResult.error);
+        return;
+      }
+      setStores(storesResult.data);
+      setProducts(productsResult.data);
+    });
+  }, [storeId]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [direction]);
+
+  const fetchTransfers = useCallback(async () => {
+    if (!storeId) return;
+
+    setLoading(true);
+    try {
+      let query = supabase
+        .from("stock_transfers")
+        .select(
+          "*, from_store:stores!stock_transfers_from_store_id_fkey(name), to_store:stores!stock_transfers_to_store_id_fkey(name)",
+          { count: "exact" }
+        );
+
+      if (direction === "outgoing") {
+        query = query.eq("from_store_id", storeId);
+      } else if (direction === "incoming") {
+        // The other store's drafts are not ours to see until they are sent
+        query = query.eq("to_store_id", storeId).neq("status", "draft");
+      } else {
+        query = query.or(`from_store_id.eq.${storeId},and(to_store_id.eq.${storeId},status.neq.draft)`);
+      }
+
+      const from = (page - 1) * PAGE_SIZE;
+      const { data, count, error } = await query
+        .order("created_at", { ascending: false })
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) throw error;
+
+      setTransfers(data || []);
+      setTotal(count ?? 0);
+    } catch (error) {
+      console.error("Error fetching stock transfers:", error);
+      toast.error("Failed to load transfers");
+    } finally {
+      setLoading(false);
+    }
+  }, [storeId, direction, page]);
+
+  useEffect(() => {
+    fetchTransfers();
+  }, [fetchTransfers]);
+
+  if (!store) {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-2xl font-bold">Transfers</h2>
+        <p className="text-muted-foreground mt-2">Your account is not assigned to a store yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Transfers</h1>
+          <p className="text-muted-foreground mt-1">Stock sent to and received from the other stores.</p>
+        </div>
+        <div className="flex gap-2">
+          <Select value={direction} onValueChange={(value) => setDirection(value as Direction)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All transfers</SelectItem>
+              <SelectItem value="outgoing">Outgoing</SelectItem>
+              <SelectItem value="incoming">Incoming</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            onClick={() => {
+              if (stores.length === 0) {
+                toast.error("There is no other store to send stock to");
+                return;
+              }
+              setFormOpen(true);
+            }}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Transfer
+          </Button>
+        </div>
+      </div>
+
+      <Card className="shadow-card">
+        <CardContent className="pt-6">
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : transfers.length === 0 ? (
+            <div className="text-center py-12">
+              <ArrowLeftRight className="w-10 h-10 mx-auto mb-2 text-muted-foreground" />
+              <p className="text-muted-foreground">No transfers found.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Transfer</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Raised</TableHead>
+                  <TableHead>Dispatched</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transfers.map((transfer) => (
+                  <TableRow key={transfer.id}>
+                    <TableCell>
+                      <Link to={`/transfers/${transfer.id}`} className="font-mono font-medium hover:underline">
+                        {transfer.transfer_number}
+                      </Link>
+                    </TableCell>
+                    <TableCell className={transfer.from_store_id === storeId ? "font-medium" : undefined}>
+                      {transfer.from_store?.name}
+                    </TableCell>
+                    <TableCell className={transfer.to_store_id === storeId ? "font-medium" : undefined}>
+                      {transfer.to_store?.name}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(new Date(transfer.created_at), "dd MMM yyyy")}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {transfer.dispatched_at ? format(new Date(transfer.dispatched_at), "dd MMM yyyy") : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={stockTransferStatusVariants[transfer.status]}>
+                        {stockTransferStatusLabels[transfer.status]}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          <DataPagination page={page} pageSize={PAGE_SIZE} total={total} onPageChange={setPage} />
+        </CardContent>
+      </Card>
+
+      <StockTransferFormDialog
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        stores={stores}
+        products={products}
+        transfer={null}
+        onSaved={(transfer) => navigate(`/transfers/${transfer.id}`)}
+      />
+    </div>
+  );
+};
+
+export default Transfers;
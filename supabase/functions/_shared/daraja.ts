@@ -0,0 +1,111 @@
+// Minimal Safaricom Daraja client for Lipa na M-Pesa Online (STK Push).
+// DARAJA_BASE_URL points at the sandbox by default; set it to the
+// daraja-mock function URL for local development and testing.
+
+const baseUrl = () =>
+  (Deno.env.get("DARAJA_BASE_URL") ?? "https://sandbox.safaricom.co.ke").replace(/\/$/, "");
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`Missing environment variable ${name}`);
+  }
+  return value;
+};
+
+export interface StkPushResponse {
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResponseCode: string;
+  ResponseDescription: string;
+  CustomerMessage: string;
+}
+
+export interface StkCallbackItem {
+  Name: string;
+  Value?: string | number;
+}
+
+export interface StkCallback {
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResultCode: number;
+  ResultDesc: string;
+  CallbackMetadata?: { Item: StkCallbackItem[] };
+}
+
+// Accepts 07XXXXXXXX, 01XXXXXXXX, 7XXXXXXXX, +2547XXXXXXXX and 2547XXXXXXXX
+export const normalizePhone = (phone: string): string | null => {
+  const digits = phone.replace(/\D/g, "");
+  const match = digits.match(/^(?:254|0)?([17]\d{8})$/);
+  return match ? `254${match[1]}` : null;
+};
+
+// Daraja expects yyyyMMddHHmmss in East Africa Time
+export const darajaTimestamp = (date = new Date()) => {
+  const eat = new Date(date.getTime() + 3 * 60 * 60 * 1000);
+  return eat.toISOString().replace(/[-:TZ.]/g, "").slice(0, 14);
+};
+
+const getAccessToken = async () => {
+  const credentials = btoa(`${requireEnv("MPESA_CONSUMER_KEY")}:${requireEnv("MPESA_CONSUMER_SECRET")}`);
+  const response = await fetch(`${baseUrl()}/oauth/v1/generate?grant_type=client_credentials`, {
+    headers: { Authorization: `Basic ${credentials}` },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Daraja authentication failed (${response.status})`);
+  }
+
+  const { access_token } = await response.json();
+  return access_token as string;
+};
+
+export const initiateStkPush = async ({
+  phone,
+  amount,
+  accountReference,
+  description,
+}: {
+  phone: string;
+  amount: number;
+  accountReference: string;
+  description: string;
+}): Promise<StkPushResponse> => {
+  const shortcode = requireEnv("MPESA_SHORTCODE");
+  const timestamp = darajaTimestamp();
+  const password = btoa(`${shortcode}${requireEnv("MPESA_PASSKEY")}${timestamp}`);
+  const token = await getAccessToken();
+
+  const response = await fetch(`${baseUrl()}/mpesa/stkpush/v1/processrequest`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      BusinessShortCode: shortcode,
+      Password: password,
+      Timestamp: timestamp,
+      TransactionType: Deno.env.get("MPESA_TRANSACTION_TYPE") ?? "CustomerPayBillOnline",
+      Amount: amount,
+      PartyA: phone,
+      PartyB: Deno.env.get("MPESA_PARTY_B") ?? shortcode,
+      PhoneNumber: phone,
+      CallBackURL: requireEnv("MPESA_CALLBACK_URL"),
+      AccountReference: accountReference.slice(0, 12),
+      TransactionDesc: description.slice(0, 13),
+    }),
+  });
+
+  const body = await response.json();
+
+  if (!response.ok || body.ResponseCode !== "0") {
+    throw new Error(body.errorMessage ?? body.ResponseDescription ?? `STK push failed (${response.status})`);
+  }
+
+  return body as StkPushResponse;
+};
+
+export const callbackValue = (callback: StkCallback, name: string) =>
+  callback.CallbackMetadata?.Item.find((item) => item.Name === name)?.Value;
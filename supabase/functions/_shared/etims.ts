@@ -0,0 +1,223 @@
+// Minimal KRA eTIMS OSCU (online sales control unit) client for sales
+// invoices. ETIMS_BASE_URL points at the KRA sandbox by default; set it to
+// the etims-mock function URL for local development and testing.
+
+const baseUrl = () =>
+  (Deno.env.get("ETIMS_BASE_URL") ?? "https://etims-api-sbx.kra.go.ke/etims-api").replace(/\/$/, "");
+
+// Printed as a QR code; customers scan it to verify the invoice with KRA
+const receiptUrl = () =>
+  Deno.env.get("ETIMS_RECEIPT_URL") ??
+  "https://etims-sbx.kra.go.ke/common/link/etims/receipt/indexEtimsReceiptData";
+
+export interface EtimsDevice {
+  tin: string;
+  branchId: string;
+  deviceSerial: string;
+}
+
+export interface EtimsSale {
+  invoiceNumber: number;
+  receiptNumber: string;
+  createdAt: string;
+  cashierId: string;
+  cashierName: string;
+  customerName: string | null;
+  paymentMethod: string;
+  items: {
+    productId: string;
+    sku: string | null;
+    name: string;
+    quantity: number;
+    unitPrice: number;
+    vatRate: number;
+    // Net of discountAmount
+    lineTotal: number;
+    discountAmount: number;
+  }[];
+}
+
+export interface EtimsSignature {
+  cu_number: string;
+  cu_invoice_number: string;
+  signature: string;
+  internal_data: string;
+  qr_data: string;
+  signed_at: string;
+}
+
+interface OscuResponse<T> {
+  resultCd: string;
+  resultMsg: string;
+  resultDt: string;
+  data: T | null;
+}
+
+// KRA tax types: A exempt, B 16% standard, C 0% zero rated, D non-VAT, E 8%
+const taxTypes: Record<number, string> = { 16: "B", 0: "C", 8: "E" };
+const TAX_TYPE_CODES = ["A", "B", "C", "D", "E"] as const;
+const taxRates: Record<string, number> = { A: 0, B: 16, C: 0, D: 0, E: 8 };
+
+// OSCU payment type codes
+const paymentTypes: Record<string, string> = { cash: "01", card: "05", mpesa: "06" };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// eTIMS dates are yyyyMMddHHmmss in East Africa Time
+const etimsDateTime = (date: Date) => {
+  const eat = new Date(date.getTime() + 3 * 60 * 60 * 1000);
+  return eat.toISOString().replace(/[-:TZ.]/g, "").slice(0, 14);
+};
+
+export class EtimsError extends Error {
+  constructor(message: string, public resultCode?: string) {
+    super(message);
+  }
+}
+
+const post = async <T>(path: string, headers: Record<string, string>, body: unknown) => {
+  const response = await fetch(`${baseUrl()}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    throw new EtimsError(`eTIMS request failed (${response.status})`);
+  }
+
+  const result = (await response.json()) as OscuResponse<T>;
+  if (result.resultCd !== "000") {
+    throw new EtimsError(`${result.resultMsg} (${result.resultCd})`, result.resultCd);
+  }
+  return result;
+};
+
+// Returns the communication key the OSCU expects on every later request
+export const initializeDevice = async (device: EtimsDevice) => {
+  const result = await post<{ info: { cmcKey: string } }>(
+    "/selectInitOsdcInfo",
+    {},
+    { tin: device.tin, bhfId: device.branchId, dvcSrlNo: device.deviceSerial }
+  );
+  if (!result.data?.info?.cmcKey) {
+    throw new EtimsError("eTIMS did not return a communication key");
+  }
+  return result.data.info.cmcKey;
+};
+
+export const taxTypeFor = (vatRate: number) => {
+  const taxType = taxTypes[Number(vatRate)];
+  if (!taxType) {
+    throw new EtimsError(`eTIMS has no tax type for a VAT rate of ${vatRate}%`);
+  }
+  return taxType;
+};
+
+// Prices are VAT inclusive, and so are eTIMS taxable amounts. Discounts are
+// reported against the full supply amount and tax is charged on what is left.
+export const buildSalePayload = (sale: EtimsSale) => {
+  const itemClass = Deno.env.get("ETIMS_ITEM_CLASS_CODE") ?? "5059690800";
+  const confirmed = new Date(sale.createdAt);
+
+  const itemList = sale.items.map((item, index) => {
+    const taxType = taxTypeFor(item.vatRate);
+    const taxAmount = round2((item.lineTotal * item.vatRate) / (100 + item.vatRate));
+    const supplyAmount = round2(item.lineTotal + item.discountAmount);
+    return {
+      itemSeq: index + 1,
+      itemCd: item.sku || item.productId.replace(/-/g, "").slice(0, 20).toUpperCase(),
+      itemClsCd: itemClass,
+      itemNm: item.name,
+      pkgUnitCd: "NT",
+      pkg: item.quantity,
+      qtyUnitCd: "U",
+      qty: item.quantity,
+      prc: item.unitPrice,
+      splyAmt: supplyAmount,
+      dcRt: supplyAmount > 0 ? round2((item.discountAmount / supplyAmount) * 100) : 0,
+      dcAmt: item.discountAmount,
+      taxTyCd: taxType,
+      taxblAmt: item.lineTotal,
+      taxAmt: taxAmount,
+      totAmt: item.lineTotal,
+    };
+  });
+
+  const totals = Object.fromEntries(
+    TAX_TYPE_CODES.flatMap((code) => {
+      const lines = itemList.filter((item) => item.taxTyCd === code);
+      return [
+        [`taxblAmt${code}`, round2(lines.reduce((sum, item) => sum + item.taxblAmt, 0))],
+        [`taxRt${code}`, taxRates[code]],
+        [`taxAmt${code}`, round2(lines.reduce((sum, item) => sum + item.taxAmt, 0))],
+      ];
+    })
+  );
+  const totalTaxable = round2(itemList.reduce((sum, item) => sum + item.taxblAmt, 0));
+  const totalTax = round2(itemList.reduce((sum, item) => sum + item.taxAmt, 0));
+
+  return {
+    invcNo: sale.invoiceNumber,
+    orgInvcNo: 0,
+    custNm: sale.customerName,
+    salesTyCd: "N",
+    rcptTyCd: "S",
+    pmtTyCd: paymentTypes[sale.paymentMethod] ?? "07",
+    salesSttsCd: "02",
+    cfmDt: etimsDateTime(confirmed),
+    salesDt: etimsDateTime(confirmed).slice(0, 8),
+    totItemCnt: itemList.length,
+    ...totals,
+    totTaxblAmt: totalTaxable,
+    totTaxAmt: totalTax,
+    totAmt: totalTaxable,
+    prchrAcptcYn: "N",
+    remark: sale.receiptNumber,
+    regrId: sale.cashierId,
+    regrNm: sale.cashierName,
+    modrId: sale.cashierId,
+    modrNm: sale.cashierName,
+    receipt: {
+      custMblNo: null,
+      rptNo: sale.invoiceNumber,
+      trdeNm: "",
+      adrs: "",
+      topMsg: "",
+      btmMsg: "",
+      prchrAcptcYn: "N",
+    },
+    itemList,
+  };
+};
+
+export const submitSale = async (device: EtimsDevice, communicationKey: string, sale: EtimsSale) => {
+  const result = await post<{
+    rcptNo: number;
+    intrlData: string;
+    rcptSign: string;
+    totRcptNo: number;
+    vsdcRcptPbctDate: string;
+    sdcId: string;
+    mrcNo: string;
+  }>(
+    "/saveTrnsSalesOsdc",
+    { tin: device.tin, bhfId: device.branchId, cmcKey: communicationKey },
+    { tin: device.tin, bhfId: device.branchId, ...buildSalePayload(sale) }
+  );
+
+  const data = result.data;
+  if (!data?.rcptSign || !data.sdcId) {
+    throw new EtimsError("eTIMS did not sign the invoice");
+  }
+
+  const signature: EtimsSignature = {
+    cu_number: data.sdcId,
+    cu_invoice_number: `${data.sdcId}/${data.rcptNo}`,
+    signature: data.rcptSign,
+    internal_data: data.intrlData,
+    qr_data: `${receiptUrl()}?Data=${device.tin}${device.branchId}${data.rcptSign}`,
+    signed_at: new Date().toISOString(),
+  };
+  return signature;
+};
@@ -0,0 +1,121 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+// Local stand-in for the Safaricom Daraja API, for development and testing.
+// Point DARAJA_BASE_URL at this function (e.g.
+// http://localhost:54321/functions/v1/daraja-mock) and STK pushes will be
+// answered here, followed by a callback to the request's CallBackURL after
+// DARAJA_MOCK_CALLBACK_DELAY_MS (default 3000).
+//
+// The outcome is chosen by the last digits of the customer phone number:
+//   ...000  customer cancels the prompt (ResultCode 1032)
+//   ...111  insufficient funds (ResultCode 1)
+//   ...222  no callback is ever sent, so the till times out
+//   other   payment succeeds with a generated receipt number
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const randomCode = (length: number) => {
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+  return Array.from(crypto.getRandomValues(new Uint8Array(length)))
+    .map((byte) => alphabet[byte % alphabet.length])
+    .join("");
+};
+
+const sendCallback = async (url: string, body: unknown) => {
+  const delay = Number(Deno.env.get("DARAJA_MOCK_CALLBACK_DELAY_MS") ?? 3000);
+  await new Promise((resolve) => setTimeout(resolve, delay));
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    console.log(`daraja-mock: callback delivered (${response.status})`);
+  } catch (error) {
+    console.error("daraja-mock: callback failed", error);
+  }
+};
+
+const stkCallback = (request: Record<string, string | number>, merchantRequestId: string, checkoutRequestId: string) => {
+  const phone = String(request.PhoneNumber);
+  const base = { MerchantRequestID: merchantRequestId, CheckoutRequestID: checkoutRequestId };
+
+  if (phone.endsWith("000")) {
+    return { ...base, ResultCode: 1032, ResultDesc: "Request cancelled by user" };
+  }
+  if (phone.endsWith("111")) {
+    return { ...base, ResultCode: 1, ResultDesc: "The balance is insufficient for the transaction" };
+  }
+
+  return {
+    ...base,
+    ResultCode: 0,
+    ResultDesc: "The service request is processed successfully.",
+    CallbackMetadata: {
+      Item: [
+        { Name: "Amount", Value: Number(request.Amount) },
+        { Name: "MpesaReceiptNumber", Value: randomCode(10) },
+        { Name: "TransactionDate", Value: Number(String(request.Timestamp)) },
+        { Name: "PhoneNumber", Value: Number(phone) },
+      ],
+    },
+  };
+};
+
+serve(async (req) => {
+  const path = new URL(req.url).pathname;
+
+  if (path.endsWith("/oauth/v1/generate")) {
+    if (!req.headers.get("Authorization")?.startsWith("Basic ")) {
+      return json({ errorCode: "400.008.01", errorMessage: "Invalid Authentication passed" }, 400);
+    }
+    return json({ access_token: `mock-${randomCode(24)}`, expires_in: "3599" });
+  }
+
+  if (path.endsWith("/mpesa/stkpush/v1/processrequest") && req.method === "POST") {
+    if (!req.headers.get("Authorization")?.startsWith("Bearer ")) {
+      return json({ errorCode: "404.001.03", errorMessage: "Invalid Access Token" }, 401);
+    }
+
+    const request = await req.json();
+    const required = [
+      "BusinessShortCode", "Password", "Timestamp", "TransactionType", "Amount",
+      "PartyA", "PartyB", "PhoneNumber", "CallBackURL", "AccountReference",
+    ];
+    const missing = required.filter((field) => request[field] === undefined || request[field] === "");
+    if (missing.length > 0) {
+      return json({ errorCode: "400.002.02", errorMessage: `Bad Request - Invalid ${missing[0]}` }, 400);
+    }
+    if (!/^2547\d{8}$|^2541\d{8}$/.test(String(request.PhoneNumber))) {
+      return json({ errorCode: "400.002.02", errorMessage: "Bad Request - Invalid PhoneNumber" }, 400);
+    }
+
+    const merchantRequestId = `${randomCode(5)}-${randomCode(8)}-1`;
+    const checkoutRequestId = `ws_CO_${Date.now()}${randomCode(6)}`;
+
+    if (!String(request.PhoneNumber).endsWith("222")) {
+      const delivery = sendCallback(String(request.CallBackURL), {
+        Body: { stkCallback: stkCallback(request, merchantRequestId, checkoutRequestId) },
+      });
+      if (typeof EdgeRuntime !== "undefined") {
+        EdgeRuntime.waitUntil(delivery);
+      }
+    }
+
+    return json({
+      MerchantRequestID: merchantRequestId,
+      CheckoutRequestID: checkoutRequestId,
+      ResponseCode: "0",
+      ResponseDescription: "Success. Request accepted for processing",
+      CustomerMessage: "Success. Request accepted for processing",
+    });
+  }
+
+  return json({ errorCode: "404.001.01", errorMessage: "Resource not found" }, 404);
+});
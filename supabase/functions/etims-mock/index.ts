@@ -0,0 +1,102 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+// Local stand-in for the KRA eTIMS OSCU API, for development and testing.
+// Point ETIMS_BASE_URL at this function (e.g.
+// http://localhost:54321/functions/v1/etims-mock) and invoices will be
+// checked and signed here with made-up control unit data.
+//
+// The outcome is chosen by the device serial configured in Settings:
+//   ...FAIL   every invoice is rejected with a server error, to exercise retries
+//   ...FLAKY  roughly every other invoice is rejected
+//   other     invoices are signed
+// Invoices whose totals do not add up are rejected whatever the serial.
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+const resultDt = () => new Date().toISOString().replace(/[-:TZ.]/g, "").slice(0, 14);
+
+const reply = (resultCd: string, resultMsg: string, data: unknown = null) =>
+  json({ resultCd, resultMsg, resultDt: resultDt(), data });
+
+const randomCode = (length: number) => {
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+  return Array.from(crypto.getRandomValues(new Uint8Array(length)))
+    .map((byte) => alphabet[byte % alphabet.length])
+    .join("");
+};
+
+// Communication keys handed out by selectInitOsdcInfo, keyed by tin and branch
+const devices = new Map<string, { serial: string; cmcKey: string }>();
+const receiptCounters = new Map<string, number>();
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+serve(async (req) => {
+  const path = new URL(req.url).pathname;
+  if (req.method !== "POST") {
+    return reply("999", "Method not allowed");
+  }
+
+  const request = await req.json().catch(() => null);
+  if (!request?.tin || !request?.bhfId) {
+    return reply("910", "Request parameter error: tin and bhfId are required");
+  }
+  const deviceKey = `${request.tin}-${request.bhfId}`;
+
+  if (path.endsWith("/selectInitOsdcInfo")) {
+    if (!/^[A-Z][0-9]{9}[A-Z]$/i.test(request.tin) || !request.dvcSrlNo) {
+      return reply("901", "It is not a valid device");
+    }
+    const device = devices.get(deviceKey) ?? { serial: String(request.dvcSrlNo), cmcKey: randomCode(32) };
+    devices.set(deviceKey, device);
+    return reply("000", "It is succeeded", {
+      info: {
+        tin: request.tin,
+        bhfId: request.bhfId,
+        sdcId: `KRACU${String(request.dvcSrlNo).replace(/\W/g, "").slice(-10).padStart(10, "0")}`,
+        mrcNo: `KRA${randomCode(8)}`,
+        cmcKey: device.cmcKey,
+      },
+    });
+  }
+
+  if (path.endsWith("/saveTrnsSalesOsdc")) {
+    const device = devices.get(deviceKey);
+    if (!device || req.headers.get("cmcKey") !== device.cmcKey) {
+      return reply("902", "This device is not initialized");
+    }
+
+    if (device.serial.toUpperCase().endsWith("FAIL") || (device.serial.toUpperCase().endsWith("FLAKY") && Math.random() < 0.5)) {
+      return json({ error: "Service temporarily unavailable" }, 503);
+    }
+
+    const items: { taxblAmt: number; taxAmt: number; totAmt: number }[] = request.itemList ?? [];
+    const itemTotal = round2(items.reduce((sum, item) => sum + Number(item.totAmt), 0));
+    const itemTax = round2(items.reduce((sum, item) => sum + Number(item.taxAmt), 0));
+    if (!Number.isInteger(request.invcNo) || items.length === 0 || request.totItemCnt !== items.length) {
+      return reply("910", "Request parameter error: invcNo and itemList are required");
+    }
+    if (itemTotal !== round2(request.totAmt) || itemTax !== round2(request.totTaxAmt)) {
+      return reply("921", "Sales invoice totals do not match the item list");
+    }
+
+    const receiptNo = (receiptCounters.get(deviceKey) ?? 0) + 1;
+    receiptCounters.set(deviceKey, receiptNo);
+
+    return reply("000", "It is succeeded", {
+      rcptNo: receiptNo,
+      intrlData: randomCode(26),
+      rcptSign: randomCode(16),
+      totRcptNo: receiptNo,
+      vsdcRcptPbctDate: resultDt(),
+      sdcId: `KRACU${device.serial.replace(/\W/g, "").slice(-10).padStart(10, "0")}`,
+      mrcNo: `KRA${deviceKey.replace(/\W/g, "").slice(-8)}`,
+    });
+  }
+
+  return reply("999", "Resource not found");
+});
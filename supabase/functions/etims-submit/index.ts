@@ -0,0 +1,162 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { EtimsDevice, EtimsSale, initializeDevice, submitSale } from "../_shared/etims.ts";
+
+// Works through the eTIMS queue. Two ways in:
+//   - a scheduled run with ?token=<ETIMS_QUEUE_TOKEN> submits everything due
+//   - a signed-in user with { sale_id } or { store_id } pushes that sale or
+//     store's waiting submissions through straight away (the POS does this
+//     after each sale so the receipt can carry the signature)
+const BATCH_SIZE = 25;
+
+interface Submission {
+  id: string;
+  sale_id: string;
+  store_id: string;
+  invoice_number: number;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const loadSale = async (admin: SupabaseClient, submission: Submission): Promise<EtimsSale> => {
+  const { data: sale, error } = await admin
+    .from("sales")
+    .select(
+      "receipt_number, created_at, cashier_id, cashier:profiles!sales_cashier_id_fkey(full_name), customer:customers(name), sale_items(product_id, product_name, quantity, unit_price, vat_rate, line_total, discount_amount, product:products(sku)), payments(payment_method, amount)"
+    )
+    .eq("id", submission.sale_id)
+    .single();
+  if (error) throw error;
+
+  // eTIMS takes one payment type; report the largest tender
+  const [mainPayment] = [...sale.payments].sort((a, b) => Number(b.amount) - Number(a.amount));
+
+  return {
+    invoiceNumber: submission.invoice_number,
+    receiptNumber: sale.receipt_number,
+    createdAt: sale.created_at,
+    cashierId: sale.cashier_id,
+    cashierName: sale.cashier?.full_name ?? "Cashier",
+    customerName: sale.customer?.name ?? null,
+    paymentMethod: mainPayment?.payment_method ?? "cash",
+    items: sale.sale_items.map((item) => ({
+      productId: item.product_id,
+      sku: item.product?.sku ?? null,
+      name: item.product_name,
+      quantity: item.quantity,
+      unitPrice: Number(item.unit_price),
+      vatRate: Number(item.vat_rate),
+      lineTotal: Number(item.line_total),
+      discountAmount: Number(item.discount_amount),
+    })),
+  };
+};
+
+const loadDevice = async (admin: SupabaseClient, storeId: string): Promise<EtimsDevice> => {
+  const { data: settings, error } = await admin
+    .from("store_settings")
+    .select("kra_pin, etims_branch_id, etims_device_serial")
+    .eq("store_id", storeId)
+    .single();
+  if (error) throw error;
+  if (!settings.kra_pin || !settings.etims_device_serial) {
+    throw new Error("Set the KRA PIN and eTIMS device serial in Settings");
+  }
+  return { tin: settings.kra_pin, branchId: settings.etims_branch_id, deviceSerial: settings.etims_device_serial };
+};
+
+const processSubmissions = async (admin: SupabaseClient, submissions: Submission[]) => {
+  const devices = new Map<string, { device: EtimsDevice; key: string }>();
+  const results = [];
+
+  for (const submission of submissions) {
+    try {
+      let device = devices.get(submission.store_id);
+      if (!device) {
+        const config = await loadDevice(admin, submission.store_id);
+        device = { device: config, key: await initializeDevice(config) };
+        devices.set(submission.store_id, device);
+      }
+
+      const signature = await submitSale(device.device, device.key, await loadSale(admin, submission));
+      const { error } = await admin.rpc("record_etims_result", { _submission_id: submission.id, _result: signature });
+      if (error) throw error;
+      results.push({ sale_id: submission.sale_id, status: "signed" });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`eTIMS submission ${submission.id} failed:`, message);
+      const { error: recordError } = await admin.rpc("record_etims_result", {
+        _submission_id: submission.id,
+        _result: null,
+        _error: message,
+      });
+      if (recordError) console.error("Could not record eTIMS failure:", recordError);
+      results.push({ sale_id: submission.sale_id, status: "failed", error: message });
+    }
+  }
+
+  return results;
+};
+
+// Only lets a user through for sales and stores they can already see
+const authorizeUser = async (req: Request, body: { sale_id?: string; store_id?: string }) => {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) throw new HttpError(401, "Not authenticated");
+
+  const userClient = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: authHeader } },
+  });
+
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) throw new HttpError(401, "Not authenticated");
+
+  if (body.sale_id) {
+    const { data } = await userClient.from("sales").select("id").eq("id", body.sale_id).maybeSingle();
+    if (!data) throw new HttpError(404, "Sale not found");
+    return;
+  }
+  if (body.store_id) {
+    const { data } = await userClient.from("stores").select("id").eq("id", body.store_id).maybeSingle();
+    if (!data) throw new HttpError(404, "Store not found");
+    return;
+  }
+  throw new HttpError(400, "sale_id or store_id is required");
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  try {
+    const token = new URL(req.url).searchParams.get("token");
+    const scheduled = !!token && token === Deno.env.get("ETIMS_QUEUE_TOKEN");
+    const body = scheduled ? {} : await req.json().catch(() => ({}));
+
+    if (!scheduled) {
+      await authorizeUser(req, body);
+    }
+
+    const { data: submissions, error } = await admin.rpc("claim_etims_submissions", {
+      _limit: BATCH_SIZE,
+      _sale_id: body.sale_id ?? null,
+      _store_id: body.store_id ?? null,
+    });
+    if (error) throw error;
+
+    return jsonResponse({ results: await processSubmissions(admin, submissions ?? []) });
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("eTIMS queue error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "eTIMS submission failed" }, 500);
+  }
+});
@@ -0,0 +1,278 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+
+// Admin-only staff management. Profiles, store assignment and roles are written
+// with the service role here so that the client never needs those privileges.
+const ROLES = ["admin", "manager", "cashier"] as const;
+type Role = (typeof ROLES)[number];
+
+// Deactivated accounts are banned in Auth so they cannot sign in or refresh sessions
+const BAN_DURATION = "876000h";
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const parseRoles = (value: unknown): Role[] => {
+  if (!Array.isArray(value) || value.some((role) => !ROLES.includes(role))) {
+    throw new HttpError(400, "roles must be a list of admin, manager or cashier");
+  }
+  return [...new Set(value as Role[])];
+};
+
+// Admins manage staff in the stores they are an admin of, and nowhere else
+const adminStoreIds = async (admin: SupabaseClient, userId: string) => {
+  const { data, error } = await admin.from("user_roles").select("store_id").eq("user_id", userId).eq("role", "admin");
+  if (error) throw error;
+  return (data ?? []).map((r) => r.store_id as string);
+};
+
+const assertStore = (storeIds: string[], storeId: unknown) => {
+  if (storeId === null) return null;
+  if (typeof storeId !== "string") {
+    throw new HttpError(400, "store_id is required");
+  }
+  if (!storeIds.includes(storeId)) {
+    throw new HttpError(404, "Store not found");
+  }
+  return storeId;
+};
+
+// Roles are granted in the staff member's store. Moving to another store
+// drops the roles held in the old one, except admin roles, which let admins
+// of several stores switch between them; leaving every store drops them all.
+// Roles in stores the caller does not run are left alone.
+const setRoles = async (
+  admin: SupabaseClient,
+  storeIds: string[],
+  userId: string,
+  storeId: string | null,
+  roles: Role[]
+) => {
+  let elsewhere = admin.from("user_roles").delete().eq("user_id", userId).in("store_id", storeIds);
+  if (storeId) {
+    elsewhere = elsewhere.neq("store_id", storeId).neq("role", "admin");
+  }
+  const { error: elsewhereError } = await elsewhere;
+  if (elsewhereError) throw elsewhereError;
+  if (!storeId) return;
+
+  let revoke = admin.from("user_roles").delete().eq("user_id", userId).eq("store_id", storeId);
+  if (roles.length) {
+    revoke = revoke.not("role", "in", `(${roles.join(",")})`);
+  }
+  const { error: deleteError } = await revoke;
+  if (deleteError) throw deleteError;
+
+  if (roles.length) {
+    const { error } = await admin
+      .from("user_roles")
+      .upsert(roles.map((role) => ({ user_id: userId, role, store_id: storeId })), {
+        onConflict: "user_id,role,store_id",
+        ignoreDuplicates: true,
+      });
+    if (error) throw error;
+  }
+};
+
+const listStaff = async (admin: SupabaseClient, storeIds: string[]) => {
+  const [{ data: stores, error: storesError }, { data: profiles, error: profilesError }] = await Promise.all([
+    admin.from("stores").select("*").in("id", storeIds).order("name"),
+    admin
+      .from("profiles")
+      .select("id, full_name, phone, store_id, active, created_at")
+      .in("store_id", storeIds)
+      .order("full_name"),
+  ]);
+  if (storesError) throw storesError;
+  if (profilesError) throw profilesError;
+
+  const staffIds = new Set((profiles ?? []).map((profile) => profile.id));
+  const { data: roles, error: rolesError } = await admin
+    .from("user_roles")
+    .select("user_id, role, store_id")
+    .in("store_id", storeIds);
+  if (rolesError) throw rolesError;
+
+  // Auth users can only be listed all together; keep just this staff
+  const users = new Map<string, { email?: string; last_sign_in_at?: string; invited_at?: string; email_confirmed_at?: string }>();
+  for (let page = 1; ; page++) {
+    const { data, error } = await admin.auth.admin.listUsers({ page, perPage: 1000 });
+    if (error) throw error;
+    for (const user of data.users) {
+      if (staffIds.has(user.id)) users.set(user.id, user);
+    }
+    if (data.users.length < 1000) break;
+  }
+
+  const staff = (profiles ?? []).map((profile) => {
+    const user = users.get(profile.id);
+    return {
+      ...profile,
+      email: user?.email ?? null,
+      last_sign_in_at: user?.last_sign_in_at ?? null,
+      invited_at: user?.invited_at ?? null,
+      // Invited users who have not yet accepted have no confirmed email
+      pending_invite: !!user?.invited_at && !user?.email_confirmed_at,
+      roles: (roles ?? [])
+        .filter((r) => r.user_id === profile.id && r.store_id === profile.store_id)
+        .map((r) => r.role),
+    };
+  });
+
+  return { staff, stores: stores ?? [] };
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const userClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+    const admin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const storeIds = await adminStoreIds(admin, user.id);
+    if (!storeIds.length) {
+      return jsonResponse({ error: "Only admins can manage staff" }, 403);
+    }
+
+    const body = await req.json();
+
+    switch (body.action) {
+      case "list": {
+        return jsonResponse(await listStaff(admin, storeIds));
+      }
+
+      case "invite": {
+        const email = String(body.email ?? "").trim().toLowerCase();
+        const fullName = String(body.full_name ?? "").trim();
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+          throw new HttpError(400, "A valid email is required");
+        }
+        if (fullName.length < 2) {
+          throw new HttpError(400, "full_name is required");
+        }
+        // Invited staff join one of the caller's stores
+        const storeId = assertStore(storeIds, body.store_id ?? undefined);
+        const roles = parseRoles(body.roles ?? ["cashier"]);
+
+        const { data, error } = await admin.auth.admin.inviteUserByEmail(email, {
+          data: { full_name: fullName },
+          redirectTo: req.headers.get("origin") ?? undefined,
+        });
+        if (error) {
+          if (/already.*registered|already exists/i.test(error.message)) {
+            throw new HttpError(409, "A user with this email already exists");
+          }
+          throw error;
+        }
+
+        // handle_new_user has already created the profile
+        const { error: profileError } = await admin
+          .from("profiles")
+          .update({ store_id: storeId })
+          .eq("id", data.user.id);
+        if (profileError) throw profileError;
+
+        await setRoles(admin, storeIds, data.user.id, storeId, roles);
+
+        return jsonResponse({ user_id: data.user.id }, 201);
+      }
+
+      case "update": {
+        const userId = String(body.user_id ?? "");
+        const { data: profile } = await admin
+          .from("profiles")
+          .select("id, store_id")
+          .eq("id", userId)
+          .maybeSingle();
+        if (!profile?.store_id || !storeIds.includes(profile.store_id)) {
+          throw new HttpError(404, "Staff member not found");
+        }
+
+        const isSelf = userId === user.id;
+        const changes: { store_id?: string | null; active?: boolean } = {};
+
+        if ("store_id" in body) {
+          changes.store_id = assertStore(storeIds, body.store_id);
+        }
+        if ("active" in body) {
+          if (typeof body.active !== "boolean") {
+            throw new HttpError(400, "active must be true or false");
+          }
+          if (isSelf && !body.active) {
+            throw new HttpError(409, "You cannot deactivate your own account");
+          }
+          changes.active = body.active;
+        }
+
+        let roles: Role[] | undefined;
+        if ("roles" in body) {
+          roles = parseRoles(body.roles);
+          if (isSelf && !roles.includes("admin")) {
+            throw new HttpError(409, "You cannot remove your own admin role");
+          }
+        }
+
+        if (Object.keys(changes).length) {
+          const { error } = await admin.from("profiles").update(changes).eq("id", userId);
+          if (error) throw error;
+        }
+
+        if (changes.active !== undefined) {
+          const { error } = await admin.auth.admin.updateUserById(userId, {
+            ban_duration: changes.active ? "none" : BAN_DURATION,
+          });
+          if (error) throw error;
+        }
+
+        if (roles || changes.store_id !== undefined) {
+          // Roles carry over to the new store unless new ones were given
+          const storeId = changes.store_id !== undefined ? changes.store_id : profile.store_id;
+          if (!roles) {
+            const { data: current, error } = await admin
+              .from("user_roles")
+              .select("role")
+              .eq("user_id", userId)
+              .eq("store_id", profile.store_id);
+            if (error) throw error;
+            roles = (current ?? []).map((r) => r.role);
+          }
+          await setRoles(admin, storeIds, userId, storeId, roles);
+        }
+
+        return jsonResponse({ user_id: userId });
+      }
+
+      default:
+        return jsonResponse({ error: "Unknown action" }, 400);
+    }
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return jsonResponse({ error: error.message }, error.status);
+    }
+    console.error("Manage staff error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Staff update failed" }, 500);
+  }
+});
@@ -0,0 +1,84 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+import { callbackValue, StkCallback } from "../_shared/daraja.ts";
+
+// Daraja posts STK results here. Daraja does not sign callbacks, so the URL
+// registered in MPESA_CALLBACK_URL carries a shared token we check first.
+const acknowledge = () =>
+  new Response(JSON.stringify({ ResultCode: 0, ResultDesc: "Accepted" }), {
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Result codes Daraja uses when the customer did not complete the prompt
+const cancelledCodes = new Set([1032]);
+const timeoutCodes = new Set([1037, 1019]);
+
+serve(async (req) => {
+  const token = new URL(req.url).searchParams.get("token");
+  if (!token || token !== Deno.env.get("MPESA_CALLBACK_TOKEN")) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  const admin = createClient(
+    Deno.env.get("SUPABASE_URL")!,
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+  );
+
+  try {
+    const payload = await req.json();
+    const callback: StkCallback | undefined = payload?.Body?.stkCallback;
+
+    if (!callback?.CheckoutRequestID) {
+      return new Response("Bad Request", { status: 400 });
+    }
+
+    const { data: transaction } = await admin
+      .from("mpesa_transactions")
+      .select("id, sale_id, status")
+      .eq("checkout_request_id", callback.CheckoutRequestID)
+      .single();
+
+    // Unknown requests are acknowledged so Daraja stops retrying
+    if (!transaction) {
+      return acknowledge();
+    }
+
+    // Successes always go to confirm_mpesa_payment, even for a sale the till has
+    // since cancelled: the customer has paid, so it records the refund owed
+    if (Number(callback.ResultCode) === 0) {
+      const receipt = String(callbackValue(callback, "MpesaReceiptNumber") ?? "");
+      const amount = Number(callbackValue(callback, "Amount"));
+      const { error } = await admin.rpc("confirm_mpesa_payment", {
+        _checkout_request_id: callback.CheckoutRequestID,
+        _receipt_number: receipt,
+        _amount: Number.isFinite(amount) ? amount : null,
+        _result_desc: callback.ResultDesc,
+      });
+      if (error) throw error;
+    } else if (transaction.status === "pending") {
+      const resultCode = Number(callback.ResultCode);
+      const status = cancelledCodes.has(resultCode)
+        ? "cancelled"
+        : timeoutCodes.has(resultCode)
+          ? "timeout"
+          : "failed";
+
+      await admin
+        .from("mpesa_transactions")
+        .update({ result_code: resultCode, result_desc: callback.ResultDesc })
+        .eq("id", transaction.id);
+
+      const { error } = await admin.rpc("cancel_pending_sale", {
+        _sale_id: transaction.sale_id,
+        _status: status,
+        _reason: `M-Pesa: ${callback.ResultDesc}`,
+      });
+      if (error) throw error;
+    }
+
+    return acknowledge();
+  } catch (error) {
+    console.error("M-Pesa callback error:", error);
+    return new Response("Internal Server Error", { status: 500 });
+  }
+});
@@ -0,0 +1,111 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.76.1";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { initiateStkPush, normalizePhone } from "../_shared/daraja.ts";
+
+// Sends an STK Push prompt for a pending M-Pesa payment created by create_sale.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const userClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } }
+    );
+    const admin = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: "Not authenticated" }, 401);
+    }
+
+    const { payment_id } = await req.json();
+    if (!payment_id) {
+      return jsonResponse({ error: "payment_id is required" }, 400);
+    }
+
+    // Reading through the user's client enforces the sales RLS store check
+    const { data: payment } = await userClient
+      .from("payments")
+      .select("id, amount, payment_method, payer_phone, reference_number, sale:sales(id, store_id, receipt_number, status)")
+      .eq("id", payment_id)
+      .single();
+
+    if (!payment || !payment.sale) {
+      return jsonResponse({ error: "Payment not found" }, 404);
+    }
+
+    if (payment.payment_method !== "mpesa" || payment.reference_number || payment.sale.status !== "pending") {
+      return jsonResponse({ error: "Payment is not awaiting M-Pesa confirmation" }, 409);
+    }
+
+    // One prompt at a time; a second would leave the customer two to approve
+    const { data: pending } = await admin
+      .from("mpesa_transactions")
+      .select("id")
+      .eq("payment_id", payment.id)
+      .eq("status", "pending")
+      .limit(1);
+
+    if (pending?.length) {
+      return jsonResponse({ error: "An M-Pesa prompt for this payment is still pending" }, 409);
+    }
+
+    const phone = normalizePhone(payment.payer_phone ?? "");
+    if (!phone) {
+      return jsonResponse({ error: "Invalid M-Pesa phone number" }, 400);
+    }
+
+    const amount = Number(payment.amount);
+    if (!Number.isInteger(amount)) {
+      return jsonResponse({ error: "M-Pesa amounts must be whole shillings" }, 400);
+    }
+
+    const stk = await initiateStkPush({
+      phone,
+      amount,
+      accountReference: payment.sale.receipt_number,
+      description: "Payment",
+    });
+
+    const { data: transaction, error } = await admin
+      .from("mpesa_transactions")
+      .insert({
+        payment_id: payment.id,
+        sale_id: payment.sale.id,
+        store_id: payment.sale.store_id,
+        phone_number: phone,
+        amount,
+        merchant_request_id: stk.MerchantRequestID,
+        checkout_request_id: stk.CheckoutRequestID,
+      })
+      .select()
+      .single();
+
+    // Another push for the same payment got in first
+    if (error?.code === "23505") {
+      return jsonResponse({ error: "An M-Pesa prompt for this payment is still pending" }, 409);
+    }
+    if (error) throw error;
+
+    return jsonResponse({
+      transaction_id: transaction.id,
+      checkout_request_id: stk.CheckoutRequestID,
+      customer_message: stk.CustomerMessage,
+    });
+  } catch (error) {
+    console.error("STK push error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "STK push failed" }, 502);
+  }
+});
@@ -0,0 +1,341 @@
+-- Stock movement ledger: every change to products.stock_quantity is recorded
+-- as a signed delta, and stock_quantity is only ever written by the ledger.
+CREATE TYPE public.stock_movement_type AS ENUM (
+  'sale', 'return', 'receipt', 'adjustment', 'transfer', 'stocktake'
+);
+
+CREATE TABLE public.stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  store_id UUID REFERENCES public.stores(id) NOT NULL,
+  movement_type stock_movement_type NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity <> 0),
+  balance_after INTEGER NOT NULL DEFAULT 0,
+  reference_type TEXT,
+  reference_id UUID,
+  reason TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view store stock movements"
+  ON public.stock_movements FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Managers and admins can record stock movements"
+  ON public.stock_movements FOR INSERT
+  WITH CHECK (
+    public.has_role(auth.uid(), 'admin') OR 
+    public.has_role(auth.uid(), 'manager')
+  );
+
+CREATE INDEX idx_stock_movements_product_id ON public.stock_movements(product_id, created_at);
+CREATE INDEX idx_stock_movements_store_id ON public.stock_movements(store_id);
+CREATE INDEX idx_stock_movements_reference ON public.stock_movements(reference_type, reference_id);
+
+-- Opening balances for existing products, recorded before the triggers exist
+INSERT INTO public.stock_movements (
+  product_id, store_id, movement_type, quantity, balance_after, reference_type, reason
+)
+SELECT id, store_id, 'adjustment', stock_quantity, stock_quantity, 'opening_balance', 'Opening balance'
+FROM public.products
+WHERE stock_quantity <> 0;
+
+-- Apply a movement to its product and record the resulting balance
+CREATE OR REPLACE FUNCTION public.apply_stock_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.created_by := COALESCE(NEW.created_by, auth.uid());
+
+  -- Opening balances describe stock the product was created with
+  IF NEW.reference_type = 'opening_balance' THEN
+    NEW.balance_after := NEW.quantity;
+    RETURN NEW;
+  END IF;
+
+  PERFORM set_config('app.stock_ledger', 'on', true);
+
+  UPDATE public.products
+  SET stock_quantity = stock_quantity + NEW.quantity
+  WHERE id = NEW.product_id
+  RETURNING stock_quantity INTO NEW.balance_after;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', NEW.product_id USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('app.stock_ledger', 'off', true);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_stock_movement BEFORE INSERT ON public.stock_movements
+  FOR EACH ROW EXECUTE FUNCTION public.apply_stock_movement();
+
+-- Reject direct writes to stock_quantity that bypass the ledger
+CREATE OR REPLACE FUNCTION public.guard_stock_quantity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.stock_quantity IS DISTINCT FROM OLD.stock_quantity
+    AND COALESCE(current_setting('app.stock_ledger', true), 'off') <> 'on' THEN
+    RAISE EXCEPTION 'stock_quantity is maintained by stock_movements; record a movement instead'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_products_stock_quantity BEFORE UPDATE ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.guard_stock_quantity();
+
+-- Products created with stock get a matching opening balance
+CREATE OR REPLACE FUNCTION public.record_opening_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stock_quantity <> 0 THEN
+    INSERT INTO public.stock_movements (
+      product_id, store_id, movement_type, quantity, reference_type, reason
+    )
+    VALUES (
+      NEW.id, NEW.store_id, 'adjustment', NEW.stock_quantity, 'opening_balance', 'Opening balance'
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_products_opening_stock AFTER INSERT ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.record_opening_stock();
+
+-- Manual stock changes by managers, e.g. damages or corrections
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+  _product_id UUID,
+  _quantity INTEGER,
+  _reason TEXT,
+  _movement_type stock_movement_type DEFAULT 'adjustment'
+)
+RETURNS public.stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _movement public.stock_movements;
+  _store_id UUID;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers and admins can adjust stock' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required for stock adjustments' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT store_id INTO _store_id
+  FROM public.products
+  WHERE id = _product_id
+    AND store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', _product_id USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    product_id, store_id, movement_type, quantity, reason, created_by
+  )
+  VALUES (_product_id, _store_id, _movement_type, _quantity, trim(_reason), auth.uid())
+  RETURNING * INTO _movement;
+
+  IF _movement.balance_after < 0 THEN
+    RAISE EXCEPTION 'Adjustment would leave negative stock (%)', _movement.balance_after
+      USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN _movement;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.adjust_stock(UUID, INTEGER, TEXT, stock_movement_type) TO authenticated;
+
+-- Per-product movement history with product and user names
+CREATE VIEW public.stock_movement_history
+WITH (security_invoker = true) AS
+SELECT
+  m.id,
+  m.product_id,
+  p.name AS product_name,
+  m.store_id,
+  m.movement_type,
+  m.quantity,
+  m.balance_after,
+  m.reference_type,
+  m.reference_id,
+  m.reason,
+  m.created_by,
+  pr.full_name AS created_by_name,
+  m.created_at
+FROM public.stock_movements m
+JOIN public.products p ON p.id = m.product_id
+LEFT JOIN public.profiles pr ON pr.id = m.created_by;
+
+-- Products whose stock_quantity has drifted from the ledger
+CREATE VIEW public.stock_reconciliation
+WITH (security_invoker = true) AS
+SELECT
+  p.id AS product_id,
+  p.store_id,
+  p.name,
+  p.stock_quantity,
+  COALESCE(SUM(m.quantity), 0)::INTEGER AS ledger_quantity,
+  p.stock_quantity - COALESCE(SUM(m.quantity), 0)::INTEGER AS difference
+FROM public.products p
+LEFT JOIN public.stock_movements m ON m.product_id = p.id
+GROUP BY p.id, p.store_id, p.name, p.stock_quantity;
+
+-- Checkout now records its stock decrement in the ledger
+CREATE OR REPLACE FUNCTION public.create_sale(
+  _store_id UUID,
+  _items JSONB,
+  _payments JSONB,
+  _customer_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.sales
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cashier_id UUID := auth.uid();
+  _sale public.sales;
+  _item JSONB;
+  _payment JSONB;
+  _product public.products;
+  _quantity INTEGER;
+  _line_total DECIMAL(10,2);
+  _subtotal DECIMAL(10,2) := 0;
+  _vat_amount DECIMAL(10,2) := 0;
+  _paid DECIMAL(10,2) := 0;
+BEGIN
+  IF _cashier_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _cashier_id AND store_id = _store_id AND COALESCE(active, true)
+  ) THEN
+    RAISE EXCEPTION 'User is not assigned to this store' USING ERRCODE = '42501';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF _payments IS NULL OR jsonb_typeof(_payments) <> 'array' OR jsonb_array_length(_payments) = 0 THEN
+    RAISE EXCEPTION 'No payment provided' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.sales (
+    receipt_number, store_id, customer_id, cashier_id,
+    subtotal, vat_amount, total_amount, status, notes
+  )
+  VALUES (
+    'RCP-' || (extract(epoch FROM clock_timestamp()) * 1000)::BIGINT,
+    _store_id, _customer_id, _cashier_id,
+    0, 0, 0, 'completed', _notes
+  )
+  RETURNING * INTO _sale;
+
+  -- Lock products in a stable order so concurrent tills cannot deadlock
+  FOR _item IN
+    SELECT value FROM jsonb_array_elements(_items) ORDER BY value->>'product_id'
+  LOOP
+    _quantity := (_item->>'quantity')::INTEGER;
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', _item->>'product_id' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO _product
+    FROM public.products
+    WHERE id = (_item->>'product_id')::UUID
+      AND store_id = _store_id
+      AND COALESCE(active, true)
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % is not available', _item->>'product_id' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _product.stock_quantity < _quantity THEN
+      RAISE EXCEPTION 'Not enough stock for %: % available', _product.name, _product.stock_quantity
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    _line_total := _product.selling_price * _quantity;
+    _subtotal := _subtotal + _line_total;
+    _vat_amount := _vat_amount
+      + (_line_total * COALESCE(_product.vat_rate, 0)) / (100 + COALESCE(_product.vat_rate, 0));
+
+    INSERT INTO public.sale_items (
+      sale_id, product_id, product_name, quantity, unit_price, vat_rate, line_total
+    )
+    VALUES (
+      _sale.id, _product.id, _product.name, _quantity,
+      _product.selling_price, COALESCE(_product.vat_rate, 0), _line_total
+    );
+
+    INSERT INTO public.stock_movements (
+      product_id, store_id, movement_type, quantity, reference_type, reference_id, created_by
+    )
+    VALUES (_product.id, _store_id, 'sale', -_quantity, 'sale', _sale.id, _cashier_id);
+  END LOOP;
+
+  FOR _payment IN SELECT value FROM jsonb_array_elements(_payments)
+  LOOP
+    IF (_payment->>'amount')::DECIMAL(10,2) IS NULL OR (_payment->>'amount')::DECIMAL(10,2) <= 0 THEN
+      RAISE EXCEPTION 'Invalid payment amount' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.payments (sale_id, payment_method, amount, reference_number)
+    VALUES (
+      _sale.id,
+      (_payment->>'payment_method')::payment_method,
+      (_payment->>'amount')::DECIMAL(10,2),
+      NULLIF(_payment->>'reference_number', '')
+    );
+
+    _paid := _paid + (_payment->>'amount')::DECIMAL(10,2);
+  END LOOP;
+
+  IF _paid <> _subtotal THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', _paid, _subtotal USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.sales
+  SET subtotal = _subtotal,
+      vat_amount = round(_vat_amount, 2),
+      total_amount = _subtotal
+  WHERE id = _sale.id
+  RETURNING * INTO _sale;
+
+  RETURN _sale;
+END;
+$$;
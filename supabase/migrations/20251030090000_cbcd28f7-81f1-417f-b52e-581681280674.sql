@@ -0,0 +1,155 @@
+-- Split and mixed-tender payments: a sale may be settled by several tenders,
+-- each stored as its own payments row. Cash tenders record what the customer
+-- handed over and the change given back.
+ALTER TABLE public.payments
+  ADD COLUMN tendered_amount DECIMAL(10,2),
+  ADD COLUMN change_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+UPDATE public.payments SET tendered_amount = amount WHERE tendered_amount IS NULL;
+
+CREATE OR REPLACE FUNCTION public.create_sale(
+  _store_id UUID,
+  _items JSONB,
+  _payments JSONB,
+  _customer_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.sales
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cashier_id UUID := auth.uid();
+  _sale public.sales;
+  _item JSONB;
+  _payment JSONB;
+  _product public.products;
+  _quantity INTEGER;
+  _line_total DECIMAL(10,2);
+  _subtotal DECIMAL(10,2) := 0;
+  _vat_amount DECIMAL(10,2) := 0;
+  _paid DECIMAL(10,2) := 0;
+  _amount DECIMAL(10,2);
+  _tendered DECIMAL(10,2);
+BEGIN
+  IF _cashier_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _cashier_id AND store_id = _store_id AND COALESCE(active, true)
+  ) THEN
+    RAISE EXCEPTION 'User is not assigned to this store' USING ERRCODE = '42501';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF _payments IS NULL OR jsonb_typeof(_payments) <> 'array' OR jsonb_array_length(_payments) = 0 THEN
+    RAISE EXCEPTION 'No payment provided' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.sales (
+    receipt_number, store_id, customer_id, cashier_id,
+    subtotal, vat_amount, total_amount, status, notes
+  )
+  VALUES (
+    'RCP-' || (extract(epoch FROM clock_timestamp()) * 1000)::BIGINT,
+    _store_id, _customer_id, _cashier_id,
+    0, 0, 0, 'completed', _notes
+  )
+  RETURNING * INTO _sale;
+
+  -- Lock products in a stable order so concurrent tills cannot deadlock
+  FOR _item IN
+    SELECT value FROM jsonb_array_elements(_items) ORDER BY value->>'product_id'
+  LOOP
+    _quantity := (_item->>'quantity')::INTEGER;
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', _item->>'product_id' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO _product
+    FROM public.products
+    WHERE id = (_item->>'product_id')::UUID
+      AND store_id = _store_id
+      AND COALESCE(active, true)
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % is not available', _item->>'product_id' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _product.stock_quantity < _quantity THEN
+      RAISE EXCEPTION 'Not enough stock for %: % available', _product.name, _product.stock_quantity
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    _line_total := _product.selling_price * _quantity;
+    _subtotal := _subtotal + _line_total;
+    _vat_amount := _vat_amount
+      + (_line_total * COALESCE(_product.vat_rate, 0)) / (100 + COALESCE(_product.vat_rate, 0));
+
+    INSERT INTO public.sale_items (
+      sale_id, product_id, product_name, quantity, unit_price, vat_rate, line_total
+    )
+    VALUES (
+      _sale.id, _product.id, _product.name, _quantity,
+      _product.selling_price, COALESCE(_product.vat_rate, 0), _line_total
+    );
+
+    INSERT INTO public.stock_movements (
+      product_id, store_id, movement_type, quantity, reference_type, reference_id, created_by
+    )
+    VALUES (_product.id, _store_id, 'sale', -_quantity, 'sale', _sale.id, _cashier_id);
+  END LOOP;
+
+  FOR _payment IN SELECT value FROM jsonb_array_elements(_payments)
+  LOOP
+    _amount := (_payment->>'amount')::DECIMAL(10,2);
+    _tendered := COALESCE((_payment->>'tendered_amount')::DECIMAL(10,2), _amount);
+
+    IF _amount IS NULL OR _amount <= 0 THEN
+      RAISE EXCEPTION 'Invalid payment amount' USING ERRCODE = '22023';
+    END IF;
+
+    -- Only cash can be over-tendered; the difference is handed back as change
+    IF _tendered < _amount
+      OR (_tendered > _amount AND _payment->>'payment_method' <> 'cash') THEN
+      RAISE EXCEPTION 'Invalid tendered amount for % payment', _payment->>'payment_method'
+        USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.payments (
+      sale_id, payment_method, amount, tendered_amount, change_amount, reference_number
+    )
+    VALUES (
+      _sale.id,
+      (_payment->>'payment_method')::payment_method,
+      _amount,
+      _tendered,
+      _tendered - _amount,
+      NULLIF(_payment->>'reference_number', '')
+    );
+
+    _paid := _paid + _amount;
+  END LOOP;
+
+  IF _paid <> _subtotal THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', _paid, _subtotal USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.sales
+  SET subtotal = _subtotal,
+      vat_amount = round(_vat_amount, 2),
+      total_amount = _subtotal
+  WHERE id = _sale.id
+  RETURNING * INTO _sale;
+
+  RETURN _sale;
+END;
+$$;
@@ -0,0 +1,321 @@
+-- M-Pesa STK Push: sales paid by M-Pesa without a receipt code stay pending
+-- until Daraja calls back with the result, or until they time out.
+CREATE TYPE public.mpesa_request_status AS ENUM (
+  'pending', 'completed', 'failed', 'cancelled', 'timeout'
+);
+
+ALTER TABLE public.payments ADD COLUMN payer_phone TEXT;
+
+CREATE TABLE public.mpesa_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id UUID REFERENCES public.payments(id) ON DELETE CASCADE NOT NULL,
+  sale_id UUID REFERENCES public.sales(id) ON DELETE CASCADE NOT NULL,
+  store_id UUID REFERENCES public.stores(id) NOT NULL,
+  phone_number TEXT NOT NULL,
+  amount DECIMAL(10,2) NOT NULL,
+  merchant_request_id TEXT,
+  checkout_request_id TEXT UNIQUE,
+  status mpesa_request_status NOT NULL DEFAULT 'pending',
+  result_code INTEGER,
+  result_desc TEXT,
+  mpesa_receipt_number TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.mpesa_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the mpesa edge functions using the service role
+CREATE POLICY "Users can view store mpesa transactions"
+  ON public.mpesa_transactions FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+CREATE TRIGGER update_mpesa_transactions_updated_at BEFORE UPDATE ON public.mpesa_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_mpesa_transactions_sale_id ON public.mpesa_transactions(sale_id);
+CREATE INDEX idx_mpesa_transactions_payment_id ON public.mpesa_transactions(payment_id);
+
+-- Record a successful STK callback and complete the sale once every
+-- M-Pesa payment on it has a receipt code
+CREATE OR REPLACE FUNCTION public.confirm_mpesa_payment(
+  _checkout_request_id TEXT,
+  _receipt_number TEXT,
+  _result_desc TEXT DEFAULT NULL
+)
+RETURNS public.sales
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transaction public.mpesa_transactions;
+  _sale public.sales;
+BEGIN
+  SELECT * INTO _transaction
+  FROM public.mpesa_transactions
+  WHERE checkout_request_id = _checkout_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown checkout request %', _checkout_request_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO _sale FROM public.sales WHERE id = _transaction.sale_id FOR UPDATE;
+
+  UPDATE public.mpesa_transactions
+  SET status = 'completed',
+      result_code = 0,
+      result_desc = CASE
+        WHEN _sale.status = 'pending' THEN _result_desc
+        ELSE 'Received after the sale was ' || _sale.status || '; refund required'
+      END,
+      mpesa_receipt_number = _receipt_number
+  WHERE id = _transaction.id;
+
+  IF _sale.status <> 'pending' THEN
+    RETURN _sale;
+  END IF;
+
+  UPDATE public.payments
+  SET reference_number = _receipt_number
+  WHERE id = _transaction.payment_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE sale_id = _sale.id AND payment_method = 'mpesa' AND reference_number IS NULL
+  ) THEN
+    UPDATE public.sales SET status = 'completed' WHERE id = _sale.id
+    RETURNING * INTO _sale;
+  END IF;
+
+  RETURN _sale;
+END;
+$$;
+
+-- Void a sale still awaiting M-Pesa and put its stock back. Called by the
+-- callback on failure, and by the till when the customer cancels or the
+-- prompt times out.
+CREATE OR REPLACE FUNCTION public.cancel_pending_sale(
+  _sale_id UUID,
+  _status mpesa_request_status DEFAULT 'cancelled',
+  _reason TEXT DEFAULT NULL
+)
+RETURNS public.sales
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sale public.sales;
+  _item public.sale_items;
+BEGIN
+  SELECT * INTO _sale FROM public.sales WHERE id = _sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale % not found', _sale_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- auth.uid() is NULL when called with the service role from the callback
+  IF auth.uid() IS NOT NULL
+    AND _sale.cashier_id <> auth.uid()
+    AND NOT (
+      (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+      AND _sale.store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    ) THEN
+    RAISE EXCEPTION 'Not allowed to cancel this sale' USING ERRCODE = '42501';
+  END IF;
+
+  IF _sale.status <> 'pending' THEN
+    RETURN _sale;
+  END IF;
+
+  UPDATE public.mpesa_transactions
+  SET status = _status,
+      result_desc = COALESCE(result_desc, _reason)
+  WHERE sale_id = _sale_id AND status = 'pending';
+
+  FOR _item IN SELECT * FROM public.sale_items WHERE sale_id = _sale_id
+  LOOP
+    INSERT INTO public.stock_movements (
+      product_id, store_id, movement_type, quantity, reference_type, reference_id, reason, created_by
+    )
+    VALUES (
+      _item.product_id, _sale.store_id, 'return', _item.quantity, 'sale', _sale_id,
+      'M-Pesa payment not completed', auth.uid()
+    );
+  END LOOP;
+
+  UPDATE public.sales
+  SET status = 'voided',
+      notes = concat_ws(E'\n', notes, COALESCE(_reason, 'M-Pesa payment ' || _status))
+  WHERE id = _sale_id
+  RETURNING * INTO _sale;
+
+  RETURN _sale;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.confirm_mpesa_payment(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.cancel_pending_sale(UUID, mpesa_request_status, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_pending_sale(UUID, mpesa_request_status, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.create_sale(
+  _store_id UUID,
+  _items JSONB,
+  _payments JSONB,
+  _customer_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.sales
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cashier_id UUID := auth.uid();
+  _sale public.sales;
+  _item JSONB;
+  _payment JSONB;
+  _product public.products;
+  _quantity INTEGER;
+  _line_total DECIMAL(10,2);
+  _subtotal DECIMAL(10,2) := 0;
+  _vat_amount DECIMAL(10,2) := 0;
+  _paid DECIMAL(10,2) := 0;
+  _amount DECIMAL(10,2);
+  _tendered DECIMAL(10,2);
+  _awaiting_mpesa BOOLEAN := false;
+BEGIN
+  IF _cashier_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _cashier_id AND store_id = _store_id AND COALESCE(active, true)
+  ) THEN
+    RAISE EXCEPTION 'User is not assigned to this store' USING ERRCODE = '42501';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF _payments IS NULL OR jsonb_typeof(_payments) <> 'array' OR jsonb_array_length(_payments) = 0 THEN
+    RAISE EXCEPTION 'No payment provided' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.sales (
+    receipt_number, store_id, customer_id, cashier_id,
+    subtotal, vat_amount, total_amount, status, notes
+  )
+  VALUES (
+    'RCP-' || (extract(epoch FROM clock_timestamp()) * 1000)::BIGINT,
+    _store_id, _customer_id, _cashier_id,
+    0, 0, 0, 'completed', _notes
+  )
+  RETURNING * INTO _sale;
+
+  -- Lock products in a stable order so concurrent tills cannot deadlock
+  FOR _item IN
+    SELECT value FROM jsonb_array_elements(_items) ORDER BY value->>'product_id'
+  LOOP
+    _quantity := (_item->>'quantity')::INTEGER;
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', _item->>'product_id' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO _product
+    FROM public.products
+    WHERE id = (_item->>'product_id')::UUID
+      AND store_id = _store_id
+      AND COALESCE(active, true)
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % is not available', _item->>'product_id' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _product.stock_quantity < _quantity THEN
+      RAISE EXCEPTION 'Not enough stock for %: % available', _product.name, _product.stock_quantity
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    _line_total := _product.selling_price * _quantity;
+    _subtotal := _subtotal + _line_total;
+    _vat_amount := _vat_amount
+      + (_line_total * COALESCE(_product.vat_rate, 0)) / (100 + COALESCE(_product.vat_rate, 0));
+
+    INSERT INTO public.sale_items (
+      sale_id, product_id, product_name, quantity, unit_price, vat_rate, line_total
+    )
+    VALUES (
+      _sale.id, _product.id, _product.name, _quantity,
+      _product.selling_price, COALESCE(_product.vat_rate, 0), _line_total
+    );
+
+    INSERT INTO public.stock_movements (
+      product_id, store_id, movement_type, quantity, reference_type, reference_id, created_by
+    )
+    VALUES (_product.id, _store_id, 'sale', -_quantity, 'sale', _sale.id, _cashier_id);
+  END LOOP;
+
+  FOR _payment IN SELECT value FROM jsonb_array_elements(_payments)
+  LOOP
+    _amount := (_payment->>'amount')::DECIMAL(10,2);
+    _tendered := COALESCE((_payment->>'tendered_amount')::DECIMAL(10,2), _amount);
+
+    IF _amount IS NULL OR _amount <= 0 THEN
+      RAISE EXCEPTION 'Invalid payment amount' USING ERRCODE = '22023';
+    END IF;
+
+    -- Only cash can be over-tendered; the difference is handed back as change
+    IF _tendered < _amount
+      OR (_tendered > _amount AND _payment->>'payment_method' <> 'cash') THEN
+      RAISE EXCEPTION 'Invalid tendered amount for % payment', _payment->>'payment_method'
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- M-Pesa without a receipt code is confirmed later by an STK push
+    IF _payment->>'payment_method' = 'mpesa' AND NULLIF(_payment->>'reference_number', '') IS NULL THEN
+      IF NULLIF(_payment->>'payer_phone', '') IS NULL THEN
+        RAISE EXCEPTION 'M-Pesa payments need a phone number or a receipt code' USING ERRCODE = '22023';
+      END IF;
+      _awaiting_mpesa := true;
+    END IF;
+
+    INSERT INTO public.payments (
+      sale_id, payment_method, amount, tendered_amount, change_amount, reference_number, payer_phone
+    )
+    VALUES (
+      _sale.id,
+      (_payment->>'payment_method')::payment_method,
+      _amount,
+      _tendered,
+      _tendered - _amount,
+      NULLIF(_payment->>'reference_number', ''),
+      NULLIF(_payment->>'payer_phone', '')
+    );
+
+    _paid := _paid + _amount;
+  END LOOP;
+
+  IF _paid <> _subtotal THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', _paid, _subtotal USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.sales
+  SET subtotal = _subtotal,
+      vat_amount = round(_vat_amount, 2),
+      total_amount = _subtotal,
+      status = CASE WHEN _awaiting_mpesa THEN 'pending'::sale_status ELSE 'completed'::sale_status END
+  WHERE id = _sale.id
+  RETURNING * INTO _sale;
+
+  RETURN _sale;
+END;
+$$;
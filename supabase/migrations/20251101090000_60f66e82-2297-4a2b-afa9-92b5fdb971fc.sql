@@ -0,0 +1,142 @@
+-- Sales reporting over a date range. Returns every report section in one
+-- JSON document so the Reports page needs a single round trip. Runs as the
+-- caller, so the existing store RLS on sales, sale_items and payments applies.
+CREATE OR REPLACE FUNCTION public.sales_report(
+  _store_id UUID,
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _tz TEXT DEFAULT 'Africa/Nairobi'
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH completed AS (
+    SELECT s.*
+    FROM public.sales s
+    WHERE s.store_id = _store_id
+      AND s.status = 'completed'
+      AND s.created_at >= _from
+      AND s.created_at < _to
+  ),
+  items AS (
+    SELECT
+      si.*,
+      s.created_at AS sold_at,
+      p.cost_price,
+      p.category_id,
+      COALESCE(c.name, 'Uncategorised') AS category_name,
+      si.quantity * p.cost_price AS line_cost,
+      si.line_total * si.vat_rate / (100 + si.vat_rate) AS line_vat
+    FROM completed s
+    JOIN public.sale_items si ON si.sale_id = s.id
+    JOIN public.products p ON p.id = si.product_id
+    LEFT JOIN public.categories c ON c.id = p.category_id
+  )
+  SELECT jsonb_build_object(
+    'summary', (
+      SELECT jsonb_build_object(
+        'transactions', (SELECT count(*) FROM completed),
+        'gross_sales', (SELECT COALESCE(sum(total_amount), 0) FROM completed),
+        'vat_amount', (SELECT COALESCE(sum(vat_amount), 0) FROM completed),
+        'items_sold', COALESCE(sum(quantity), 0),
+        'cost_of_goods', COALESCE(round(sum(line_cost), 2), 0)
+      )
+      FROM items
+    ),
+    'by_day', COALESCE((
+      SELECT jsonb_agg(row_to_json(d) ORDER BY d.day)
+      FROM (
+        SELECT
+          to_char(date_trunc('day', created_at AT TIME ZONE _tz), 'YYYY-MM-DD') AS day,
+          count(*) AS transactions,
+          sum(total_amount) AS gross_sales
+        FROM completed
+        GROUP BY 1
+      ) d
+    ), '[]'::jsonb),
+    'by_hour', COALESCE((
+      SELECT jsonb_agg(row_to_json(h) ORDER BY h.hour)
+      FROM (
+        SELECT
+          extract(hour FROM created_at AT TIME ZONE _tz)::INTEGER AS hour,
+          count(*) AS transactions,
+          sum(total_amount) AS gross_sales
+        FROM completed
+        GROUP BY 1
+      ) h
+    ), '[]'::jsonb),
+    'by_cashier', COALESCE((
+      SELECT jsonb_agg(row_to_json(c) ORDER BY c.gross_sales DESC)
+      FROM (
+        SELECT
+          s.cashier_id,
+          COALESCE(pr.full_name, 'Unknown') AS cashier_name,
+          count(*) AS transactions,
+          sum(s.total_amount) AS gross_sales
+        FROM completed s
+        LEFT JOIN public.profiles pr ON pr.id = s.cashier_id
+        GROUP BY s.cashier_id, pr.full_name
+      ) c
+    ), '[]'::jsonb),
+    'by_payment_method', COALESCE((
+      SELECT jsonb_agg(row_to_json(pm) ORDER BY pm.amount DESC)
+      FROM (
+        SELECT
+          p.payment_method,
+          count(DISTINCT p.sale_id) AS transactions,
+          sum(p.amount) AS amount
+        FROM completed s
+        JOIN public.payments p ON p.sale_id = s.id
+        GROUP BY p.payment_method
+      ) pm
+    ), '[]'::jsonb),
+    'by_category', COALESCE((
+      SELECT jsonb_agg(row_to_json(cat) ORDER BY cat.gross_sales DESC)
+      FROM (
+        SELECT
+          category_id,
+          category_name,
+          sum(quantity) AS quantity,
+          sum(line_total) AS gross_sales,
+          round(sum(line_cost), 2) AS cost_of_goods,
+          round(sum(line_total - line_vat - line_cost), 2) AS gross_margin
+        FROM items
+        GROUP BY category_id, category_name
+      ) cat
+    ), '[]'::jsonb),
+    'products', COALESCE((
+      SELECT jsonb_agg(row_to_json(pp) ORDER BY pp.quantity DESC, pp.name)
+      FROM (
+        SELECT
+          p.id AS product_id,
+          p.name,
+          p.stock_quantity,
+          COALESCE(sum(i.quantity), 0) AS quantity,
+          COALESCE(sum(i.line_total), 0) AS gross_sales,
+          COALESCE(round(sum(i.line_cost), 2), 0) AS cost_of_goods,
+          COALESCE(round(sum(i.line_total - i.line_vat - i.line_cost), 2), 0) AS gross_margin,
+          max(i.sold_at) AS last_sold_at
+        FROM public.products p
+        LEFT JOIN items i ON i.product_id = p.id
+        WHERE p.store_id = _store_id AND COALESCE(p.active, true)
+        GROUP BY p.id, p.name, p.stock_quantity
+      ) pp
+    ), '[]'::jsonb),
+    'vat_summary', COALESCE((
+      SELECT jsonb_agg(row_to_json(v) ORDER BY v.vat_rate DESC)
+      FROM (
+        SELECT
+          vat_rate,
+          sum(line_total) AS gross_sales,
+          round(sum(line_total - line_vat), 2) AS net_sales,
+          round(sum(line_vat), 2) AS vat_amount
+        FROM items
+        GROUP BY vat_rate
+      ) v
+    ), '[]'::jsonb)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.sales_report(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated;
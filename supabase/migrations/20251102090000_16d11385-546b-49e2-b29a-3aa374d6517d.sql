@@ -0,0 +1,268 @@
+-- Per-store configuration used by the app instead of hard-coded literals:
+-- currency and locale, tax defaults, receipt text and numbering, low-stock
+-- defaults and which payment methods the till offers.
+CREATE TABLE public.store_settings (
+  store_id UUID PRIMARY KEY REFERENCES public.stores(id) ON DELETE CASCADE,
+  currency TEXT NOT NULL DEFAULT 'KES',
+  locale TEXT NOT NULL DEFAULT 'en-KE',
+  timezone TEXT NOT NULL DEFAULT 'Africa/Nairobi',
+  default_vat_rate DECIMAL(5,2) NOT NULL DEFAULT 16.00,
+  kra_pin TEXT,
+  receipt_header TEXT,
+  receipt_footer TEXT DEFAULT 'Thank you for shopping with us!',
+  receipt_prefix TEXT NOT NULL DEFAULT 'RCP',
+  receipt_number_format TEXT NOT NULL DEFAULT '{prefix}-{timestamp}',
+  default_reorder_level INTEGER NOT NULL DEFAULT 10,
+  enabled_payment_methods payment_method[] NOT NULL DEFAULT ARRAY['mpesa', 'cash', 'card']::payment_method[],
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (cardinality(enabled_payment_methods) > 0),
+  CHECK (default_vat_rate >= 0 AND default_vat_rate <= 100)
+);
+
+ALTER TABLE public.store_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view store settings"
+  ON public.store_settings FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Managers and admins can update store settings"
+  ON public.store_settings FOR UPDATE
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+  );
+
+CREATE TRIGGER update_store_settings_updated_at BEFORE UPDATE ON public.store_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.store_settings (store_id)
+SELECT id FROM public.stores
+ON CONFLICT (store_id) DO NOTHING;
+
+-- Every store gets a settings row with the defaults
+CREATE OR REPLACE FUNCTION public.handle_new_store()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.store_settings (store_id)
+  VALUES (NEW.id)
+  ON CONFLICT (store_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_store_created
+  AFTER INSERT ON public.stores
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_store();
+
+-- Managers may update their own store's details, not just admins
+CREATE POLICY "Managers can update their store"
+  ON public.stores FOR UPDATE
+  USING (
+    id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    AND public.has_role(auth.uid(), 'manager')
+  );
+
+-- Build a receipt number from the store's receipt_number_format.
+-- Supported tokens: {prefix}, {timestamp}, {yyyy}, {mm}, {dd}
+CREATE OR REPLACE FUNCTION public.next_receipt_number(_store_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.store_settings;
+  _now TIMESTAMPTZ := clock_timestamp();
+  _local TIMESTAMP;
+  _result TEXT;
+BEGIN
+  SELECT * INTO _settings FROM public.store_settings WHERE store_id = _store_id;
+
+  _result := COALESCE(_settings.receipt_number_format, '{prefix}-{timestamp}');
+  _local := _now AT TIME ZONE COALESCE(_settings.timezone, 'Africa/Nairobi');
+
+  _result := replace(_result, '{prefix}', COALESCE(_settings.receipt_prefix, 'RCP'));
+  _result := replace(_result, '{timestamp}', ((extract(epoch FROM _now) * 1000)::BIGINT)::TEXT);
+  _result := replace(_result, '{yyyy}', to_char(_local, 'YYYY'));
+  _result := replace(_result, '{mm}', to_char(_local, 'MM'));
+  _result := replace(_result, '{dd}', to_char(_local, 'DD'));
+
+  RETURN _result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_sale(
+  _store_id UUID,
+  _items JSONB,
+  _payments JSONB,
+  _customer_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.sales
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cashier_id UUID := auth.uid();
+  _sale public.sales;
+  _item JSONB;
+  _payment JSONB;
+  _product public.products;
+  _quantity INTEGER;
+  _line_total DECIMAL(10,2);
+  _subtotal DECIMAL(10,2) := 0;
+  _vat_amount DECIMAL(10,2) := 0;
+  _paid DECIMAL(10,2) := 0;
+  _amount DECIMAL(10,2);
+  _tendered DECIMAL(10,2);
+  _awaiting_mpesa BOOLEAN := false;
+  _enabled_methods payment_method[];
+BEGIN
+  IF _cashier_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _cashier_id AND store_id = _store_id AND COALESCE(active, true)
+  ) THEN
+    RAISE EXCEPTION 'User is not assigned to this store' USING ERRCODE = '42501';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF _payments IS NULL OR jsonb_typeof(_payments) <> 'array' OR jsonb_array_length(_payments) = 0 THEN
+    RAISE EXCEPTION 'No payment provided' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT enabled_payment_methods INTO _enabled_methods
+  FROM public.store_settings
+  WHERE store_id = _store_id;
+
+  INSERT INTO public.sales (
+    receipt_number, store_id, customer_id, cashier_id,
+    subtotal, vat_amount, total_amount, status, notes
+  )
+  VALUES (
+    public.next_receipt_number(_store_id),
+    _store_id, _customer_id, _cashier_id,
+    0, 0, 0, 'completed', _notes
+  )
+  RETURNING * INTO _sale;
+
+  -- Lock products in a stable order so concurrent tills cannot deadlock
+  FOR _item IN
+    SELECT value FROM jsonb_array_elements(_items) ORDER BY value->>'product_id'
+  LOOP
+    _quantity := (_item->>'quantity')::INTEGER;
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', _item->>'product_id' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO _product
+    FROM public.products
+    WHERE id = (_item->>'product_id')::UUID
+      AND store_id = _store_id
+      AND COALESCE(active, true)
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % is not available', _item->>'product_id' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _product.stock_quantity < _quantity THEN
+      RAISE EXCEPTION 'Not enough stock for %: % available', _product.name, _product.stock_quantity
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    _line_total := _product.selling_price * _quantity;
+    _subtotal := _subtotal + _line_total;
+    _vat_amount := _vat_amount
+      + (_line_total * COALESCE(_product.vat_rate, 0)) / (100 + COALESCE(_product.vat_rate, 0));
+
+    INSERT INTO public.sale_items (
+      sale_id, product_id, product_name, quantity, unit_price, vat_rate, line_total
+    )
+    VALUES (
+      _sale.id, _product.id, _product.name, _quantity,
+      _product.selling_price, COALESCE(_product.vat_rate, 0), _line_total
+    );
+
+    INSERT INTO public.stock_movements (
+      product_id, store_id, movement_type, quantity, reference_type, reference_id, created_by
+    )
+    VALUES (_product.id, _store_id, 'sale', -_quantity, 'sale', _sale.id, _cashier_id);
+  END LOOP;
+
+  FOR _payment IN SELECT value FROM jsonb_array_elements(_payments)
+  LOOP
+    _amount := (_payment->>'amount')::DECIMAL(10,2);
+    _tendered := COALESCE((_payment->>'tendered_amount')::DECIMAL(10,2), _amount);
+
+    IF _amount IS NULL OR _amount <= 0 THEN
+      RAISE EXCEPTION 'Invalid payment amount' USING ERRCODE = '22023';
+    END IF;
+
+    IF _enabled_methods IS NOT NULL
+      AND NOT ((_payment->>'payment_method')::payment_method = ANY (_enabled_methods)) THEN
+      RAISE EXCEPTION '% payments are not enabled for this store', _payment->>'payment_method'
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- Only cash can be over-tendered; the difference is handed back as change
+    IF _tendered < _amount
+      OR (_tendered > _amount AND _payment->>'payment_method' <> 'cash') THEN
+      RAISE EXCEPTION 'Invalid tendered amount for % payment', _payment->>'payment_method'
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- M-Pesa without a receipt code is confirmed later by an STK push
+    IF _payment->>'payment_method' = 'mpesa' AND NULLIF(_payment->>'reference_number', '') IS NULL THEN
+      IF NULLIF(_payment->>'payer_phone', '') IS NULL THEN
+        RAISE EXCEPTION 'M-Pesa payments need a phone number or a receipt code' USING ERRCODE = '22023';
+      END IF;
+      _awaiting_mpesa := true;
+    END IF;
+
+    INSERT INTO public.payments (
+      sale_id, payment_method, amount, tendered_amount, change_amount, reference_number, payer_phone
+    )
+    VALUES (
+      _sale.id,
+      (_payment->>'payment_method')::payment_method,
+      _amount,
+      _tendered,
+      _tendered - _amount,
+      NULLIF(_payment->>'reference_number', ''),
+      NULLIF(_payment->>'payer_phone', '')
+    );
+
+    _paid := _paid + _amount;
+  END LOOP;
+
+  IF _paid <> _subtotal THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', _paid, _subtotal USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.sales
+  SET subtotal = _subtotal,
+      vat_amount = round(_vat_amount, 2),
+      total_amount = _subtotal,
+      status = CASE WHEN _awaiting_mpesa THEN 'pending'::sale_status ELSE 'completed'::sale_status END
+  WHERE id = _sale.id
+  RETURNING * INTO _sale;
+
+  RETURN _sale;
+END;
+$$;
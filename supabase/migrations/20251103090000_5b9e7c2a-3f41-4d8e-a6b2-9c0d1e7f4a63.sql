@@ -0,0 +1,30 @@
+-- Staff management runs through the manage-staff edge function with the
+-- service role. Users can still edit their own name and phone, but store
+-- assignment and the active flag are reserved for admins.
+CREATE OR REPLACE FUNCTION public.guard_profile_admin_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- auth.uid() is NULL for the service role
+  IF auth.uid() IS NOT NULL
+    AND NOT public.has_role(auth.uid(), 'admin')
+    AND (NEW.store_id IS DISTINCT FROM OLD.store_id OR NEW.active IS DISTINCT FROM OLD.active) THEN
+    RAISE EXCEPTION 'Only admins can change store assignment or account status' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profile_admin_fields
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_profile_admin_fields();
+
+UPDATE public.profiles SET active = true WHERE active IS NULL;
+ALTER TABLE public.profiles ALTER COLUMN active SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_store_id ON public.profiles(store_id);
+CREATE INDEX IF NOT EXISTS idx_user_roles_user_id ON public.user_roles(user_id);
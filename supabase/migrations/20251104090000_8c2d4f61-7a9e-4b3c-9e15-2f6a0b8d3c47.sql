@@ -0,0 +1,88 @@
+-- First-run onboarding: a freshly signed-up user with no store and no roles
+-- creates their store and becomes its admin. Invited staff already have a
+-- store or roles and cannot use this.
+CREATE OR REPLACE FUNCTION public.create_store_for_user(
+  _name TEXT,
+  _location TEXT DEFAULT NULL,
+  _phone TEXT DEFAULT NULL,
+  _kra_pin TEXT DEFAULT NULL,
+  _seed_categories BOOLEAN DEFAULT false,
+  _seed_products BOOLEAN DEFAULT false
+)
+RETURNS public.stores
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _store public.stores;
+  _category_ids JSONB := '{}'::JSONB;
+  _category TEXT;
+  _category_id UUID;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF length(trim(COALESCE(_name, ''))) < 2 THEN
+    RAISE EXCEPTION 'Store name must be at least 2 characters' USING ERRCODE = '22023';
+  END IF;
+
+  IF _kra_pin IS NOT NULL AND _kra_pin !~* '^[A-Z][0-9]{9}[A-Z]$' THEN
+    RAISE EXCEPTION 'Invalid KRA PIN' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1 FROM public.profiles WHERE id = _user_id AND store_id IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your account already belongs to a store' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _user_id) THEN
+    RAISE EXCEPTION 'Ask an admin to assign you to a store' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.stores (name, location, phone)
+  VALUES (trim(_name), NULLIF(trim(_location), ''), NULLIF(trim(_phone), ''))
+  RETURNING * INTO _store;
+
+  -- on_store_created has inserted the default settings row
+  UPDATE public.store_settings
+  SET kra_pin = upper(_kra_pin)
+  WHERE store_id = _store.id;
+
+  -- Grant the role first so guard_profile_admin_fields allows the store change
+  INSERT INTO public.user_roles (user_id, role) VALUES (_user_id, 'admin');
+  UPDATE public.profiles SET store_id = _store.id WHERE id = _user_id;
+
+  IF _seed_categories OR _seed_products THEN
+    FOREACH _category IN ARRAY ARRAY['Beverages', 'Groceries', 'Household', 'Personal Care', 'Snacks'] LOOP
+      INSERT INTO public.categories (name, store_id)
+      VALUES (_category, _store.id)
+      RETURNING id INTO _category_id;
+      _category_ids := _category_ids || jsonb_build_object(_category, _category_id);
+    END LOOP;
+  END IF;
+
+  -- Sample products start with opening stock recorded by record_opening_stock
+  IF _seed_products THEN
+    INSERT INTO public.products (store_id, category_id, name, sku, cost_price, selling_price, vat_rate, stock_quantity)
+    SELECT _store.id, (_category_ids->>p.category)::UUID, p.name, p.sku, p.cost_price, p.selling_price, p.vat_rate, p.stock_quantity
+    FROM (VALUES
+      ('Beverages', 'Soda 500ml', 'BEV-001', 45, 70, 16, 48),
+      ('Beverages', 'Mineral Water 1L', 'BEV-002', 40, 60, 16, 36),
+      ('Groceries', 'Maize Flour 2kg', 'GRO-001', 140, 175, 0, 30),
+      ('Groceries', 'Sugar 1kg', 'GRO-002', 150, 180, 16, 30),
+      ('Groceries', 'Cooking Oil 1L', 'GRO-003', 280, 340, 16, 20),
+      ('Household', 'Bar Soap 800g', 'HOU-001', 180, 230, 16, 24),
+      ('Personal Care', 'Toothpaste 100ml', 'PER-001', 110, 150, 16, 24),
+      ('Snacks', 'Potato Crisps 100g', 'SNA-001', 60, 90, 16, 40)
+    ) AS p(category, name, sku, cost_price, selling_price, vat_rate, stock_quantity);
+  END IF;
+
+  RETURN _store;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_store_for_user(TEXT, TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_store_for_user(TEXT, TEXT, TEXT, TEXT, BOOLEAN, BOOLEAN) TO authenticated;
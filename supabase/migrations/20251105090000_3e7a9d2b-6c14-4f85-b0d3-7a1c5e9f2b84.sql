@@ -0,0 +1,486 @@
+-- Voids and returns. Both need a manager's PIN typed at the till, reverse
+-- stock through the ledger and leave an audit trail on the sale. Returns
+-- produce a credit note linked to the original receipt.
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+ALTER TABLE public.sales
+  ADD COLUMN voided_at TIMESTAMPTZ,
+  ADD COLUMN voided_by UUID REFERENCES public.profiles(id),
+  ADD COLUMN void_approved_by UUID REFERENCES public.profiles(id),
+  ADD COLUMN void_reason TEXT;
+
+-- Set when a void hands the tender back to the customer
+ALTER TABLE public.payments ADD COLUMN reversed_at TIMESTAMPTZ;
+
+-- Hashed approval PINs for managers and admins. No policies: only the
+-- functions below can read or write them.
+CREATE TABLE public.manager_pins (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.manager_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE public.credit_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_number TEXT UNIQUE NOT NULL,
+  store_id UUID REFERENCES public.stores(id) NOT NULL,
+  sale_id UUID REFERENCES public.sales(id) NOT NULL,
+  total_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  vat_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  refund_method payment_method NOT NULL,
+  reason TEXT NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) NOT NULL,
+  approved_by UUID REFERENCES public.profiles(id) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.credit_note_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_id UUID REFERENCES public.credit_notes(id) ON DELETE CASCADE NOT NULL,
+  sale_item_id UUID REFERENCES public.sale_items(id) NOT NULL,
+  product_id UUID REFERENCES public.products(id) NOT NULL,
+  product_name TEXT NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL(10,2) NOT NULL,
+  vat_rate DECIMAL(5,2) NOT NULL,
+  line_total DECIMAL(10,2) NOT NULL,
+  restocked BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.credit_note_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view store credit notes"
+  ON public.credit_notes FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Users can view credit note items"
+  ON public.credit_note_items FOR SELECT
+  USING (
+    credit_note_id IN (
+      SELECT id FROM public.credit_notes
+      WHERE store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    )
+  );
+
+CREATE INDEX idx_credit_notes_sale_id ON public.credit_notes(sale_id);
+CREATE INDEX idx_credit_notes_store_id ON public.credit_notes(store_id, created_at);
+CREATE INDEX idx_credit_note_items_sale_item_id ON public.credit_note_items(sale_item_id);
+
+-- Managers and admins set their own approval PIN
+CREATE OR REPLACE FUNCTION public.set_manager_pin(_pin TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers and admins can set an approval PIN' USING ERRCODE = '42501';
+  END IF;
+
+  IF _pin IS NULL OR _pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 8 digits' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.manager_pins (user_id, pin_hash)
+  VALUES (auth.uid(), extensions.crypt(_pin, extensions.gen_salt('bf')))
+  ON CONFLICT (user_id) DO UPDATE
+  SET pin_hash = EXCLUDED.pin_hash, updated_at = now();
+END;
+$$;
+
+-- Manager approval PINs are personal; let the UI know whether one is set
+CREATE OR REPLACE FUNCTION public.has_manager_pin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.manager_pins WHERE user_id = auth.uid())
+$$;
+
+-- Returns the active manager of the store (or admin) whose PIN matches
+CREATE OR REPLACE FUNCTION public.verify_manager_pin(_store_id UUID, _pin TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT mp.user_id
+  FROM public.manager_pins mp
+  JOIN public.profiles pr ON pr.id = mp.user_id
+  WHERE pr.active
+    AND (
+      public.has_role(mp.user_id, 'admin')
+      OR (public.has_role(mp.user_id, 'manager') AND pr.store_id = _store_id)
+    )
+    AND mp.pin_hash = extensions.crypt(_pin, mp.pin_hash)
+  LIMIT 1
+$$;
+
+CREATE OR REPLACE FUNCTION public.void_sale(
+  _sale_id UUID,
+  _reason TEXT,
+  _manager_pin TEXT
+)
+RETURNS public.sales
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sale public.sales;
+  _item public.sale_items;
+  _approver UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _sale FROM public.sales WHERE id = _sale_id FOR UPDATE;
+
+  IF NOT FOUND OR _sale.store_id NOT IN (SELECT store_id FROM public.profiles WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Sale % not found', _sale_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _sale.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed sales can be voided' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.credit_notes WHERE sale_id = _sale_id) THEN
+    RAISE EXCEPTION 'Items on this sale have been returned; return the remaining items instead'
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF length(trim(COALESCE(_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to void a sale' USING ERRCODE = '22023';
+  END IF;
+
+  _approver := public.verify_manager_pin(_sale.store_id, _manager_pin);
+  IF _approver IS NULL THEN
+    RAISE EXCEPTION 'Invalid manager PIN' USING ERRCODE = '28P01';
+  END IF;
+
+  FOR _item IN SELECT * FROM public.sale_items WHERE sale_id = _sale_id
+  LOOP
+    INSERT INTO public.stock_movements (
+      product_id, store_id, movement_type, quantity, reference_type, reference_id, reason, created_by
+    )
+    VALUES (
+      _item.product_id, _sale.store_id, 'return', _item.quantity, 'void', _sale_id,
+      'Void: ' || trim(_reason), auth.uid()
+    );
+  END LOOP;
+
+  UPDATE public.payments
+  SET reversed_at = now()
+  WHERE sale_id = _sale_id AND reversed_at IS NULL;
+
+  UPDATE public.sales
+  SET status = 'voided',
+      voided_at = now(),
+      voided_by = auth.uid(),
+      void_approved_by = _approver,
+      void_reason = trim(_reason)
+  WHERE id = _sale_id
+  RETURNING * INTO _sale;
+
+  RETURN _sale;
+END;
+$$;
+
+-- Partial or full return of a completed sale.
+-- _items: [{ "sale_item_id": uuid, "quantity": int, "restock": bool }]
+-- Items not restocked (e.g. damaged) are refunded without going back on the shelf.
+CREATE OR REPLACE FUNCTION public.create_return(
+  _sale_id UUID,
+  _items JSONB,
+  _reason TEXT,
+  _refund_method payment_method,
+  _manager_pin TEXT
+)
+RETURNS public.credit_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sale public.sales;
+  _credit_note public.credit_notes;
+  _item JSONB;
+  _sale_item public.sale_items;
+  _approver UUID;
+  _quantity INTEGER;
+  _returned INTEGER;
+  _restock BOOLEAN;
+  _line_total DECIMAL(10,2);
+  _total DECIMAL(10,2) := 0;
+  _vat DECIMAL(10,2) := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Locking the sale serialises concurrent returns against it
+  SELECT * INTO _sale FROM public.sales WHERE id = _sale_id FOR UPDATE;
+
+  IF NOT FOUND OR _sale.store_id NOT IN (SELECT store_id FROM public.profiles WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Sale % not found', _sale_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _sale.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed sales can be returned' USING ERRCODE = '22023';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return' USING ERRCODE = '22023';
+  END IF;
+
+  IF length(trim(COALESCE(_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required for returns' USING ERRCODE = '22023';
+  END IF;
+
+  _approver := public.verify_manager_pin(_sale.store_id, _manager_pin);
+  IF _approver IS NULL THEN
+    RAISE EXCEPTION 'Invalid manager PIN' USING ERRCODE = '28P01';
+  END IF;
+
+  INSERT INTO public.credit_notes (
+    credit_note_number, store_id, sale_id, refund_method, reason, created_by, approved_by
+  )
+  VALUES (
+    'CN-' || ((extract(epoch FROM clock_timestamp()) * 1000)::BIGINT)::TEXT,
+    _sale.store_id, _sale_id, _refund_method, trim(_reason), auth.uid(), _approver
+  )
+  RETURNING * INTO _credit_note;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := (_item->>'quantity')::INTEGER;
+    _restock := COALESCE((_item->>'restock')::BOOLEAN, true);
+
+    SELECT * INTO _sale_item
+    FROM public.sale_items
+    WHERE id = (_item->>'sale_item_id')::UUID AND sale_id = _sale_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not on this sale', _item->>'sale_item_id' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid return quantity for %', _sale_item.product_name USING ERRCODE = '22023';
+    END IF;
+
+    -- Includes lines already inserted for this credit note
+    SELECT COALESCE(sum(quantity), 0) INTO _returned
+    FROM public.credit_note_items
+    WHERE sale_item_id = _sale_item.id;
+
+    IF _returned + _quantity > _sale_item.quantity THEN
+      RAISE EXCEPTION 'Only % of % can still be returned', _sale_item.quantity - _returned, _sale_item.product_name
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- Refund at the price actually paid for the line
+    _line_total := round(_sale_item.line_total * _quantity / _sale_item.quantity, 2);
+
+    INSERT INTO public.credit_note_items (
+      credit_note_id, sale_item_id, product_id, product_name,
+      quantity, unit_price, vat_rate, line_total, restocked
+    )
+    VALUES (
+      _credit_note.id, _sale_item.id, _sale_item.product_id, _sale_item.product_name,
+      _quantity, _sale_item.unit_price, _sale_item.vat_rate, _line_total, _restock
+    );
+
+    IF _restock THEN
+      INSERT INTO public.stock_movements (
+        product_id, store_id, movement_type, quantity, reference_type, reference_id, reason, created_by
+      )
+      VALUES (
+        _sale_item.product_id, _sale.store_id, 'return', _quantity, 'credit_note', _credit_note.id,
+        'Return on ' || _sale.receipt_number || ': ' || trim(_reason), auth.uid()
+      );
+    END IF;
+
+    _total := _total + _line_total;
+    _vat := _vat + round(_line_total * _sale_item.vat_rate / (100 + _sale_item.vat_rate), 2);
+  END LOOP;
+
+  UPDATE public.credit_notes
+  SET total_amount = _total,
+      vat_amount = _vat
+  WHERE id = _credit_note.id
+  RETURNING * INTO _credit_note;
+
+  RETURN _credit_note;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_manager_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.set_manager_pin(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.void_sale(UUID, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.create_return(UUID, JSONB, TEXT, payment_method, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.set_manager_pin(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_manager_pin() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.void_sale(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_return(UUID, JSONB, TEXT, payment_method, TEXT) TO authenticated;
+
+-- Credit notes issued in the period are reported alongside sales
+CREATE OR REPLACE FUNCTION public.sales_report(
+  _store_id UUID,
+  _from TIMESTAMPTZ,
+  _to TIMESTAMPTZ,
+  _tz TEXT DEFAULT 'Africa/Nairobi'
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH completed AS (
+    SELECT s.*
+    FROM public.sales s
+    WHERE s.store_id = _store_id
+      AND s.status = 'completed'
+      AND s.created_at >= _from
+      AND s.created_at < _to
+  ),
+  refunds AS (
+    SELECT cn.*
+    FROM public.credit_notes cn
+    WHERE cn.store_id = _store_id
+      AND cn.created_at >= _from
+      AND cn.created_at < _to
+  ),
+  items AS (
+    SELECT
+      si.*,
+      s.created_at AS sold_at,
+      p.cost_price,
+      p.category_id,
+      COALESCE(c.name, 'Uncategorised') AS category_name,
+      si.quantity * p.cost_price AS line_cost,
+      si.line_total * si.vat_rate / (100 + si.vat_rate) AS line_vat
+    FROM completed s
+    JOIN public.sale_items si ON si.sale_id = s.id
+    JOIN public.products p ON p.id = si.product_id
+    LEFT JOIN public.categories c ON c.id = p.category_id
+  )
+  SELECT jsonb_build_object(
+    'summary', (
+      SELECT jsonb_build_object(
+        'transactions', (SELECT count(*) FROM completed),
+        'gross_sales', (SELECT COALESCE(sum(total_amount), 0) FROM completed),
+        'vat_amount', (SELECT COALESCE(sum(vat_amount), 0) FROM completed),
+        'items_sold', COALESCE(sum(quantity), 0),
+        'cost_of_goods', COALESCE(round(sum(line_cost), 2), 0),
+        'credit_notes', (SELECT count(*) FROM refunds),
+        'refunds', (SELECT COALESCE(sum(total_amount), 0) FROM refunds),
+        'refund_vat', (SELECT COALESCE(sum(vat_amount), 0) FROM refunds)
+      )
+      FROM items
+    ),
+    'by_day', COALESCE((
+      SELECT jsonb_agg(row_to_json(d) ORDER BY d.day)
+      FROM (
+        SELECT
+          to_char(date_trunc('day', created_at AT TIME ZONE _tz), 'YYYY-MM-DD') AS day,
+          count(*) AS transactions,
+          sum(total_amount) AS gross_sales
+        FROM completed
+        GROUP BY 1
+      ) d
+    ), '[]'::jsonb),
+    'by_hour', COALESCE((
+      SELECT jsonb_agg(row_to_json(h) ORDER BY h.hour)
+      FROM (
+        SELECT
+          extract(hour FROM created_at AT TIME ZONE _tz)::INTEGER AS hour,
+          count(*) AS transactions,
+          sum(total_amount) AS gross_sales
+        FROM completed
+        GROUP BY 1
+      ) h
+    ), '[]'::jsonb),
+    'by_cashier', COALESCE((
+      SELECT jsonb_agg(row_to_json(c) ORDER BY c.gross_sales DESC)
+      FROM (
+        SELECT
+          s.cashier_id,
+          COALESCE(pr.full_name, 'Unknown') AS cashier_name,
+          count(*) AS transactions,
+          sum(s.total_amount) AS gross_sales
+        FROM completed s
+        LEFT JOIN public.profiles pr ON pr.id = s.cashier_id
+        GROUP BY s.cashier_id, pr.full_name
+      ) c
+    ), '[]'::jsonb),
+    'by_payment_method', COALESCE((
+      SELECT jsonb_agg(row_to_json(pm) ORDER BY pm.amount DESC)
+      FROM (
+        SELECT
+          p.payment_method,
+          count(DISTINCT p.sale_id) AS transactions,
+          sum(p.amount) AS amount
+        FROM completed s
+        JOIN public.payments p ON p.sale_id = s.id
+        GROUP BY p.payment_method
+      ) pm
+    ), '[]'::jsonb),
+    'by_category', COALESCE((
+      SELECT jsonb_agg(row_to_json(cat) ORDER BY cat.gross_sales DESC)
+      FROM (
+        SELECT
+          category_id,
+          category_name,
+          sum(quantity) AS quantity,
+          sum(line_total) AS gross_sales,
+          round(sum(line_cost), 2) AS cost_of_goods,
+          round(sum(line_total - line_vat - line_cost), 2) AS gross_margin
+        FROM items
+        GROUP BY category_id, category_name
+      ) cat
+    ), '[]'::jsonb),
+    'products', COALESCE((
+      SELECT jsonb_agg(row_to_json(pp) ORDER BY pp.quantity DESC, pp.name)
+      FROM (
+        SELECT
+          p.id AS product_id,
+          p.name,
+          p.stock_quantity,
+          COALESCE(sum(i.quantity), 0) AS quantity,
+          COALESCE(sum(i.line_total), 0) AS gross_sales,
+          COALESCE(round(sum(i.line_cost), 2), 0) AS cost_of_goods,
+          COALESCE(round(sum(i.line_total - i.line_vat - i.line_cost), 2), 0) AS gross_margin,
+          max(i.sold_at) AS last_sold_at
+        FROM public.products p
+        LEFT JOIN items i ON i.product_id = p.id
+        WHERE p.store_id = _store_id AND COALESCE(p.active, true)
+        GROUP BY p.id, p.name, p.stock_quantity
+      ) pp
+    ), '[]'::jsonb),
+    'vat_summary', COALESCE((
+      SELECT jsonb_agg(row_to_json(v) ORDER BY v.vat_rate DESC)
+      FROM (
+        SELECT
+          vat_rate,
+          sum(line_total) AS gross_sales,
+          round(sum(line_total - line_vat), 2) AS net_sales,
+          round(sum(line_vat), 2) AS vat_amount
+        FROM items
+        GROUP BY vat_rate
+      ) v
+    ), '[]'::jsonb)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.sales_report(UUID, TIMESTAMPTZ, TIMESTAMPTZ, TEXT) TO authenticated;
@@ -0,0 +1,5 @@
+-- Sales journal filters by store and date, cashier and customer
+CREATE INDEX IF NOT EXISTS idx_sales_store_created_at ON public.sales(store_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sales_cashier_id ON public.sales(cashier_id);
+CREATE INDEX IF NOT EXISTS idx_sales_customer_id ON public.sales(customer_id);
+CREATE INDEX IF NOT EXISTS idx_payments_payment_method ON public.payments(payment_method, sale_id);
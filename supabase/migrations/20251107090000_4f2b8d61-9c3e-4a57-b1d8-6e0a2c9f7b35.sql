@@ -0,0 +1,37 @@
+-- Receipt layout: paper roll width and an optional logo printed at the top
+ALTER TABLE public.store_settings
+  ADD COLUMN receipt_paper_width SMALLINT NOT NULL DEFAULT 80,
+  ADD COLUMN receipt_logo_url TEXT,
+  ADD CONSTRAINT store_settings_receipt_paper_width_check CHECK (receipt_paper_width IN (58, 80));
+
+-- Public bucket for store logos, one folder per store
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('store-assets', 'store-assets', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Managers and admins can upload store assets"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'store-assets'
+    AND (storage.foldername(name))[1] IN (SELECT store_id::TEXT FROM public.profiles WHERE id = auth.uid())
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+  );
+
+CREATE POLICY "Managers and admins can replace store assets"
+  ON storage.objects FOR UPDATE
+  TO authenticated
+  USING (
+    bucket_id = 'store-assets'
+    AND (storage.foldername(name))[1] IN (SELECT store_id::TEXT FROM public.profiles WHERE id = auth.uid())
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+  );
+
+CREATE POLICY "Managers and admins can delete store assets"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'store-assets'
+    AND (storage.foldername(name))[1] IN (SELECT store_id::TEXT FROM public.profiles WHERE id = auth.uid())
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+  );
@@ -0,0 +1,550 @@
+-- Sequential, gap-free receipt and credit note numbers. Each store has a
+-- counter per series (and per till when the format includes {till}) that is
+-- bumped inside the transaction creating the document, so a failed sale
+-- rolls its number back and no two documents share one.
+
+-- Tills identify the point of sale a document was issued from
+CREATE TABLE public.tills (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE NOT NULL,
+  code TEXT NOT NULL CHECK (code ~ '^[A-Z0-9]{1,6}$'),
+  name TEXT NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (store_id, code)
+);
+
+ALTER TABLE public.tills ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view store tills"
+  ON public.tills FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Managers and admins can add tills"
+  ON public.tills FOR INSERT
+  WITH CHECK (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+  );
+
+-- Tills are deactivated rather than deleted so old receipts keep their till
+CREATE POLICY "Managers and admins can update tills"
+  ON public.tills FOR UPDATE
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+  );
+
+CREATE TRIGGER update_tills_updated_at BEFORE UPDATE ON public.tills
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.tills (store_id, code, name)
+SELECT id, '01', 'Till 1' FROM public.stores
+ON CONFLICT (store_id, code) DO NOTHING;
+
+ALTER TABLE public.sales ADD COLUMN till_id UUID REFERENCES public.tills(id);
+ALTER TABLE public.credit_notes ADD COLUMN till_id UUID REFERENCES public.tills(id);
+
+-- Store codes are not unique across stores, so numbers only are within one
+ALTER TABLE public.sales
+  DROP CONSTRAINT sales_receipt_number_key,
+  ADD CONSTRAINT sales_store_id_receipt_number_key UNIQUE (store_id, receipt_number);
+ALTER TABLE public.credit_notes
+  DROP CONSTRAINT credit_notes_credit_note_number_key,
+  ADD CONSTRAINT credit_notes_store_id_credit_note_number_key UNIQUE (store_id, credit_note_number);
+
+-- Derive a short code from the store name, e.g. 'Mama Mboga Shop' -> 'MAMA'
+CREATE OR REPLACE FUNCTION public.default_store_code(_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(NULLIF(upper(left(regexp_replace(COALESCE(_name, ''), '[^A-Za-z0-9]', '', 'g'), 4)), ''), 'STORE')
+$$;
+
+ALTER TABLE public.store_settings
+  ADD COLUMN store_code TEXT NOT NULL DEFAULT 'STORE' CHECK (store_code ~ '^[A-Z0-9]{1,8}$'),
+  ADD COLUMN credit_note_number_format TEXT NOT NULL DEFAULT 'CN-{store}-{till}-{seq}',
+  ADD COLUMN document_number_digits SMALLINT NOT NULL DEFAULT 6 CHECK (document_number_digits BETWEEN 3 AND 10),
+  ALTER COLUMN receipt_number_format SET DEFAULT '{store}-{till}-{seq}';
+
+-- Timestamp-based formats cannot be sequential; move them to the new default
+UPDATE public.store_settings ss
+SET store_code = public.default_store_code(s.name),
+    receipt_number_format = CASE
+      WHEN ss.receipt_number_format LIKE '%{seq}%' THEN ss.receipt_number_format
+      ELSE '{store}-{till}-{seq}'
+    END
+FROM public.stores s
+WHERE s.id = ss.store_id;
+
+ALTER TABLE public.store_settings
+  ADD CONSTRAINT store_settings_receipt_number_format_check CHECK (receipt_number_format LIKE '%{seq}%'),
+  ADD CONSTRAINT store_settings_credit_note_number_format_check CHECK (credit_note_number_format LIKE '%{seq}%');
+
+-- Every store gets a settings row with the defaults and a first till
+CREATE OR REPLACE FUNCTION public.handle_new_store()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.store_settings (store_id, store_code)
+  VALUES (NEW.id, public.default_store_code(NEW.name))
+  ON CONFLICT (store_id) DO NOTHING;
+
+  INSERT INTO public.tills (store_id, code, name)
+  VALUES (NEW.id, '01', 'Till 1')
+  ON CONFLICT (store_id, code) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+-- Last number issued per store, series and till. Rows are only written by
+-- next_document_number; the row lock it takes is held until the issuing
+-- transaction ends, which is what keeps the series free of gaps.
+CREATE TABLE public.document_counters (
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE NOT NULL,
+  series TEXT NOT NULL CHECK (series IN ('receipt', 'credit_note')),
+  -- Till code when the format numbers each till separately, '' for store-wide
+  scope TEXT NOT NULL DEFAULT '',
+  last_number BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (store_id, series, scope)
+);
+
+ALTER TABLE public.document_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view store document counters"
+  ON public.document_counters FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+-- Issue the next number in a series from the store's format.
+-- Supported tokens: {store}, {till}, {seq}, {prefix}, {yyyy}, {mm}, {dd}
+CREATE OR REPLACE FUNCTION public.next_document_number(_store_id UUID, _series TEXT, _till_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.store_settings;
+  _till_code TEXT;
+  _scope TEXT := '';
+  _number BIGINT;
+  _local TIMESTAMP;
+  _result TEXT;
+BEGIN
+  SELECT * INTO _settings FROM public.store_settings WHERE store_id = _store_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Store % has no settings', _store_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT code INTO _till_code FROM public.tills WHERE id = _till_id AND store_id = _store_id;
+
+  _result := CASE _series
+    WHEN 'receipt' THEN _settings.receipt_number_format
+    WHEN 'credit_note' THEN _settings.credit_note_number_format
+  END;
+  IF _result IS NULL THEN
+    RAISE EXCEPTION 'Unknown document series %', _series USING ERRCODE = '22023';
+  END IF;
+
+  IF _result LIKE '%{till}%' THEN
+    IF _till_code IS NULL THEN
+      RAISE EXCEPTION 'A till is required to number this document' USING ERRCODE = '22023';
+    END IF;
+    _scope := _till_code;
+  END IF;
+
+  INSERT INTO public.document_counters AS c (store_id, series, scope, last_number)
+  VALUES (_store_id, _series, _scope, 1)
+  ON CONFLICT (store_id, series, scope)
+  DO UPDATE SET last_number = c.last_number + 1, updated_at = now()
+  RETURNING last_number INTO _number;
+
+  _local := now() AT TIME ZONE _settings.timezone;
+
+  _result := replace(_result, '{store}', _settings.store_code);
+  _result := replace(_result, '{till}', COALESCE(_till_code, ''));
+  _result := replace(_result, '{seq}', lpad(_number::TEXT, _settings.document_number_digits, '0'));
+  _result := replace(_result, '{prefix}', _settings.receipt_prefix);
+  _result := replace(_result, '{yyyy}', to_char(_local, 'YYYY'));
+  _result := replace(_result, '{mm}', to_char(_local, 'MM'));
+  _result := replace(_result, '{dd}', to_char(_local, 'DD'));
+
+  RETURN _result;
+END;
+$$;
+
+-- Falls back to the store's first active till when none is given
+CREATE OR REPLACE FUNCTION public.resolve_till(_store_id UUID, _till_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+BEGIN
+  IF _till_id IS NOT NULL THEN
+    SELECT id INTO _id FROM public.tills WHERE id = _till_id AND store_id = _store_id AND active;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Till % is not available', _till_id USING ERRCODE = 'P0002';
+    END IF;
+    RETURN _id;
+  END IF;
+
+  SELECT id INTO _id FROM public.tills WHERE store_id = _store_id AND active ORDER BY code LIMIT 1;
+  RETURN _id;
+END;
+$$;
+
+-- Numbers are always issued here, whatever path inserts the document
+CREATE OR REPLACE FUNCTION public.assign_sale_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.till_id := public.resolve_till(NEW.store_id, NEW.till_id);
+  NEW.receipt_number := public.next_document_number(NEW.store_id, 'receipt', NEW.till_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_credit_note_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.till_id := public.resolve_till(NEW.store_id, NEW.till_id);
+  NEW.credit_note_number := public.next_document_number(NEW.store_id, 'credit_note', NEW.till_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_sale_number BEFORE INSERT ON public.sales
+  FOR EACH ROW EXECUTE FUNCTION public.assign_sale_number();
+
+CREATE TRIGGER assign_credit_note_number BEFORE INSERT ON public.credit_notes
+  FOR EACH ROW EXECUTE FUNCTION public.assign_credit_note_number();
+
+DROP FUNCTION public.next_receipt_number(UUID);
+DROP FUNCTION public.create_sale(UUID, JSONB, JSONB, UUID, TEXT);
+DROP FUNCTION public.create_return(UUID, JSONB, TEXT, payment_method, TEXT);
+
+CREATE FUNCTION public.create_sale(
+  _store_id UUID,
+  _items JSONB,
+  _payments JSONB,
+  _customer_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _till_id UUID DEFAULT NULL
+)
+RETURNS public.sales
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cashier_id UUID := auth.uid();
+  _sale public.sales;
+  _item JSONB;
+  _payment JSONB;
+  _product public.products;
+  _quantity INTEGER;
+  _line_total DECIMAL(10,2);
+  _subtotal DECIMAL(10,2) := 0;
+  _vat_amount DECIMAL(10,2) := 0;
+  _paid DECIMAL(10,2) := 0;
+  _amount DECIMAL(10,2);
+  _tendered DECIMAL(10,2);
+  _awaiting_mpesa BOOLEAN := false;
+  _enabled_methods payment_method[];
+BEGIN
+  IF _cashier_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _cashier_id AND store_id = _store_id AND COALESCE(active, true)
+  ) THEN
+    RAISE EXCEPTION 'User is not assigned to this store' USING ERRCODE = '42501';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF _payments IS NULL OR jsonb_typeof(_payments) <> 'array' OR jsonb_array_length(_payments) = 0 THEN
+    RAISE EXCEPTION 'No payment provided' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT enabled_payment_methods INTO _enabled_methods
+  FROM public.store_settings
+  WHERE store_id = _store_id;
+
+  -- assign_sale_number fills in the till and receipt number
+  INSERT INTO public.sales (
+    store_id, till_id, customer_id, cashier_id,
+    subtotal, vat_amount, total_amount, status, notes
+  )
+  VALUES (
+    _store_id, _till_id, _customer_id, _cashier_id,
+    0, 0, 0, 'completed', _notes
+  )
+  RETURNING * INTO _sale;
+
+  -- Lock products in a stable order so concurrent tills cannot deadlock
+  FOR _item IN
+    SELECT value FROM jsonb_array_elements(_items) ORDER BY value->>'product_id'
+  LOOP
+    _quantity := (_item->>'quantity')::INTEGER;
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', _item->>'product_id' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO _product
+    FROM public.products
+    WHERE id = (_item->>'product_id')::UUID
+      AND store_id = _store_id
+      AND COALESCE(active, true)
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % is not available', _item->>'product_id' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _product.stock_quantity < _quantity THEN
+      RAISE EXCEPTION 'Not enough stock for %: % available', _product.name, _product.stock_quantity
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    _line_total := _product.selling_price * _quantity;
+    _subtotal := _subtotal + _line_total;
+    _vat_amount := _vat_amount
+      + (_line_total * COALESCE(_product.vat_rate, 0)) / (100 + COALESCE(_product.vat_rate, 0));
+
+    INSERT INTO public.sale_items (
+      sale_id, product_id, product_name, quantity, unit_price, vat_rate, line_total
+    )
+    VALUES (
+      _sale.id, _product.id, _product.name, _quantity,
+      _product.selling_price, COALESCE(_product.vat_rate, 0), _line_total
+    );
+
+    INSERT INTO public.stock_movements (
+      product_id, store_id, movement_type, quantity, reference_type, reference_id, created_by
+    )
+    VALUES (_product.id, _store_id, 'sale', -_quantity, 'sale', _sale.id, _cashier_id);
+  END LOOP;
+
+  FOR _payment IN SELECT value FROM jsonb_array_elements(_payments)
+  LOOP
+    _amount := (_payment->>'amount')::DECIMAL(10,2);
+    _tendered := COALESCE((_payment->>'tendered_amount')::DECIMAL(10,2), _amount);
+
+    IF _amount IS NULL OR _amount <= 0 THEN
+      RAISE EXCEPTION 'Invalid payment amount' USING ERRCODE = '22023';
+    END IF;
+
+    IF _enabled_methods IS NOT NULL
+      AND NOT ((_payment->>'payment_method')::payment_method = ANY (_enabled_methods)) THEN
+      RAISE EXCEPTION '% payments are not enabled for this store', _payment->>'payment_method'
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- Only cash can be over-tendered; the difference is handed back as change
+    IF _tendered < _amount
+      OR (_tendered > _amount AND _payment->>'payment_method' <> 'cash') THEN
+      RAISE EXCEPTION 'Invalid tendered amount for % payment', _payment->>'payment_method'
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- M-Pesa without a receipt code is confirmed later by an STK push
+    IF _payment->>'payment_method' = 'mpesa' AND NULLIF(_payment->>'reference_number', '') IS NULL THEN
+      IF NULLIF(_payment->>'payer_phone', '') IS NULL THEN
+        RAISE EXCEPTION 'M-Pesa payments need a phone number or a receipt code' USING ERRCODE = '22023';
+      END IF;
+      _awaiting_mpesa := true;
+    END IF;
+
+    INSERT INTO public.payments (
+      sale_id, payment_method, amount, tendered_amount, change_amount, reference_number, payer_phone
+    )
+    VALUES (
+      _sale.id,
+      (_payment->>'payment_method')::payment_method,
+      _amount,
+      _tendered,
+      _tendered - _amount,
+      NULLIF(_payment->>'reference_number', ''),
+      NULLIF(_payment->>'payer_phone', '')
+    );
+
+    _paid := _paid + _amount;
+  END LOOP;
+
+  IF _paid <> _subtotal THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', _paid, _subtotal USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.sales
+  SET subtotal = _subtotal,
+      vat_amount = round(_vat_amount, 2),
+      total_amount = _subtotal,
+      status = CASE WHEN _awaiting_mpesa THEN 'pending'::sale_status ELSE 'completed'::sale_status END
+  WHERE id = _sale.id
+  RETURNING * INTO _sale;
+
+  RETURN _sale;
+END;
+$$;
+
+-- Partial or full return of a completed sale.
+-- _items: [{ "sale_item_id": uuid, "quantity": int, "restock": bool }]
+-- Items not restocked (e.g. damaged) are refunded without going back on the shelf.
+CREATE FUNCTION public.create_return(
+  _sale_id UUID,
+  _items JSONB,
+  _reason TEXT,
+  _refund_method payment_method,
+  _manager_pin TEXT,
+  _till_id UUID DEFAULT NULL
+)
+RETURNS public.credit_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sale public.sales;
+  _credit_note public.credit_notes;
+  _item JSONB;
+  _sale_item public.sale_items;
+  _approver UUID;
+  _quantity INTEGER;
+  _returned INTEGER;
+  _restock BOOLEAN;
+  _line_total DECIMAL(10,2);
+  _total DECIMAL(10,2) := 0;
+  _vat DECIMAL(10,2) := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Locking the sale serialises concurrent returns against it
+  SELECT * INTO _sale FROM public.sales WHERE id = _sale_id FOR UPDATE;
+
+  IF NOT FOUND OR _sale.store_id NOT IN (SELECT store_id FROM public.profiles WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Sale % not found', _sale_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _sale.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed sales can be returned' USING ERRCODE = '22023';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return' USING ERRCODE = '22023';
+  END IF;
+
+  IF length(trim(COALESCE(_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required for returns' USING ERRCODE = '22023';
+  END IF;
+
+  _approver := public.verify_manager_pin(_sale.store_id, _manager_pin);
+  IF _approver IS NULL THEN
+    RAISE EXCEPTION 'Invalid manager PIN' USING ERRCODE = '28P01';
+  END IF;
+
+  -- assign_credit_note_number fills in the till and credit note number
+  INSERT INTO public.credit_notes (
+    store_id, till_id, sale_id, refund_method, reason, created_by, approved_by
+  )
+  VALUES (
+    _sale.store_id, _till_id, _sale_id, _refund_method, trim(_reason), auth.uid(), _approver
+  )
+  RETURNING * INTO _credit_note;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := (_item->>'quantity')::INTEGER;
+    _restock := COALESCE((_item->>'restock')::BOOLEAN, true);
+
+    SELECT * INTO _sale_item
+    FROM public.sale_items
+    WHERE id = (_item->>'sale_item_id')::UUID AND sale_id = _sale_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not on this sale', _item->>'sale_item_id' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid return quantity for %', _sale_item.product_name USING ERRCODE = '22023';
+    END IF;
+
+    -- Includes lines already inserted for this credit note
+    SELECT COALESCE(sum(quantity), 0) INTO _returned
+    FROM public.credit_note_items
+    WHERE sale_item_id = _sale_item.id;
+
+    IF _returned + _quantity > _sale_item.quantity THEN
+      RAISE EXCEPTION 'Only % of % can still be returned', _sale_item.quantity - _returned, _sale_item.product_name
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- Refund at the price actually paid for the line
+    _line_total := round(_sale_item.line_total * _quantity / _sale_item.quantity, 2);
+
+    INSERT INTO public.credit_note_items (
+      credit_note_id, sale_item_id, product_id, product_name,
+      quantity, unit_price, vat_rate, line_total, restocked
+    )
+    VALUES (
+      _credit_note.id, _sale_item.id, _sale_item.product_id, _sale_item.product_name,
+      _quantity, _sale_item.unit_price, _sale_item.vat_rate, _line_total, _restock
+    );
+
+    IF _restock THEN
+      INSERT INTO public.stock_movements (
+        product_id, store_id, movement_type, quantity, reference_type, reference_id, reason, created_by
+      )
+      VALUES (
+        _sale_item.product_id, _sale.store_id, 'return', _quantity, 'credit_note', _credit_note.id,
+        'Return on ' || _sale.receipt_number || ': ' || trim(_reason), auth.uid()
+      );
+    END IF;
+
+    _total := _total + _line_total;
+    _vat := _vat + round(_line_total * _sale_item.vat_rate / (100 + _sale_item.vat_rate), 2);
+  END LOOP;
+
+  UPDATE public.credit_notes
+  SET total_amount = _total,
+      vat_amount = _vat
+  WHERE id = _credit_note.id
+  RETURNING * INTO _credit_note;
+
+  RETURN _credit_note;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.next_document_number(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.resolve_till(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.create_sale(UUID, JSONB, JSONB, UUID, TEXT, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.create_return(UUID, JSONB, TEXT, payment_method, TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_sale(UUID, JSONB, JSONB, UUID, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_return(UUID, JSONB, TEXT, payment_method, TEXT, UUID) TO authenticated;
@@ -0,0 +1,181 @@
+-- KRA eTIMS fiscalisation. Completed sales of stores with eTIMS enabled are
+-- queued here and submitted to the OSCU by the etims-submit edge function,
+-- which writes the control unit's signature back onto the sale. Failed
+-- submissions are retried with a growing delay.
+CREATE TYPE public.etims_status AS ENUM ('pending', 'submitting', 'signed', 'failed');
+
+ALTER TABLE public.store_settings
+  ADD COLUMN etims_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN etims_branch_id TEXT NOT NULL DEFAULT '00' CHECK (etims_branch_id ~ '^[0-9]{2}$'),
+  ADD COLUMN etims_device_serial TEXT,
+  ADD CONSTRAINT store_settings_etims_check
+    CHECK (NOT etims_enabled OR (kra_pin IS NOT NULL AND etims_device_serial IS NOT NULL));
+
+-- What the control unit returned, as printed on the receipt
+ALTER TABLE public.sales
+  ADD COLUMN etims_cu_number TEXT,
+  ADD COLUMN etims_cu_invoice_number TEXT,
+  ADD COLUMN etims_signature TEXT,
+  ADD COLUMN etims_internal_data TEXT,
+  ADD COLUMN etims_qr_data TEXT,
+  ADD COLUMN etims_signed_at TIMESTAMPTZ;
+
+CREATE TABLE public.etims_submissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id UUID UNIQUE REFERENCES public.sales(id) ON DELETE CASCADE NOT NULL,
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE NOT NULL,
+  -- eTIMS wants a numeric invoice number, issued in order per store
+  invoice_number BIGINT NOT NULL,
+  status etims_status NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  next_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (store_id, invoice_number)
+);
+
+CREATE INDEX idx_etims_submissions_due ON public.etims_submissions(status, next_attempt_at);
+
+ALTER TABLE public.etims_submissions ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the functions below
+CREATE POLICY "Users can view store eTIMS submissions"
+  ON public.etims_submissions FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+CREATE TRIGGER update_etims_submissions_updated_at BEFORE UPDATE ON public.etims_submissions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.document_counters
+  DROP CONSTRAINT document_counters_series_check,
+  ADD CONSTRAINT document_counters_series_check CHECK (series IN ('receipt', 'credit_note', 'etims_invoice'));
+
+-- Runs at commit, once create_sale or an M-Pesa confirmation has settled the
+-- sale's final status, so pending and failed sales are never queued
+CREATE OR REPLACE FUNCTION public.enqueue_etims_submission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sale public.sales;
+  _number BIGINT;
+BEGIN
+  SELECT * INTO _sale FROM public.sales WHERE id = NEW.id;
+
+  IF _sale.status IS DISTINCT FROM 'completed'
+    OR NOT EXISTS (SELECT 1 FROM public.store_settings WHERE store_id = _sale.store_id AND etims_enabled)
+    OR EXISTS (SELECT 1 FROM public.etims_submissions WHERE sale_id = _sale.id) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.document_counters AS c (store_id, series, scope, last_number)
+  VALUES (_sale.store_id, 'etims_invoice', '', 1)
+  ON CONFLICT (store_id, series, scope)
+  DO UPDATE SET last_number = c.last_number + 1, updated_at = now()
+  RETURNING last_number INTO _number;
+
+  INSERT INTO public.etims_submissions (sale_id, store_id, invoice_number)
+  VALUES (_sale.id, _sale.store_id, _number);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER enqueue_etims_submission
+  AFTER INSERT OR UPDATE OF status ON public.sales
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.enqueue_etims_submission();
+
+-- Claims submissions for the edge function. With a sale or store given, the
+-- retry delay is skipped so staff can push a submission through by hand.
+-- Rows left in 'submitting' by a crashed run are picked up again after five minutes.
+CREATE OR REPLACE FUNCTION public.claim_etims_submissions(
+  _limit INTEGER,
+  _sale_id UUID DEFAULT NULL,
+  _store_id UUID DEFAULT NULL
+)
+RETURNS SETOF public.etims_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.etims_submissions s
+  SET status = 'submitting',
+      attempts = s.attempts + 1
+  WHERE s.id IN (
+    SELECT q.id
+    FROM public.etims_submissions q
+    WHERE (_sale_id IS NULL OR q.sale_id = _sale_id)
+      AND (_store_id IS NULL OR q.store_id = _store_id)
+      AND (
+        (q.status IN ('pending', 'failed')
+          AND (q.next_attempt_at <= now() OR _sale_id IS NOT NULL OR _store_id IS NOT NULL))
+        OR (q.status = 'submitting' AND q.updated_at < now() - interval '5 minutes')
+      )
+    ORDER BY q.invoice_number
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING s.*;
+END;
+$$;
+
+-- _result: { cu_number, cu_invoice_number, signature, internal_data, qr_data, signed_at }
+-- On error the next attempt is delayed 1, 2, 4 ... minutes, capped at an hour.
+CREATE OR REPLACE FUNCTION public.record_etims_result(
+  _submission_id UUID,
+  _result JSONB,
+  _error TEXT DEFAULT NULL
+)
+RETURNS public.etims_submissions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _submission public.etims_submissions;
+BEGIN
+  SELECT * INTO _submission FROM public.etims_submissions WHERE id = _submission_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'eTIMS submission % not found', _submission_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _error IS NOT NULL THEN
+    UPDATE public.etims_submissions
+    SET status = 'failed',
+        last_error = _error,
+        next_attempt_at = now() + least(power(2, greatest(attempts - 1, 0)), 60) * interval '1 minute'
+    WHERE id = _submission_id
+    RETURNING * INTO _submission;
+    RETURN _submission;
+  END IF;
+
+  UPDATE public.sales
+  SET etims_cu_number = _result->>'cu_number',
+      etims_cu_invoice_number = _result->>'cu_invoice_number',
+      etims_signature = _result->>'signature',
+      etims_internal_data = _result->>'internal_data',
+      etims_qr_data = _result->>'qr_data',
+      etims_signed_at = COALESCE((_result->>'signed_at')::TIMESTAMPTZ, now())
+  WHERE id = _submission.sale_id;
+
+  UPDATE public.etims_submissions
+  SET status = 'signed',
+      last_error = NULL
+  WHERE id = _submission_id
+  RETURNING * INTO _submission;
+
+  RETURN _submission;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_etims_submissions(INTEGER, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_etims_result(UUID, JSONB, TEXT) FROM PUBLIC, anon, authenticated;
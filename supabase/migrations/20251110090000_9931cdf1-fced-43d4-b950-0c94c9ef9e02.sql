@@ -0,0 +1,276 @@
+-- Offline POS. Tills that lose their connection keep selling from a cached
+-- catalogue and replay the sales later through create_sale, which takes the
+-- till's own sale id so a replay can never record a sale twice. Stock and
+-- price mismatches found on replay are recorded as conflicts for a manager.
+ALTER TABLE public.sales
+  -- When the till rang the sale up offline; null for sales made online
+  ADD COLUMN captured_offline_at TIMESTAMPTZ,
+  -- The number printed on the offline receipt, until the sale is synced
+  ADD COLUMN provisional_receipt_number TEXT;
+
+CREATE INDEX idx_sales_provisional_receipt_number ON public.sales(provisional_receipt_number)
+  WHERE provisional_receipt_number IS NOT NULL;
+
+CREATE TYPE public.sale_conflict_type AS ENUM ('oversold', 'price_changed', 'product_unavailable');
+
+CREATE TABLE public.sale_sync_conflicts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id UUID REFERENCES public.sales(id) ON DELETE CASCADE NOT NULL,
+  store_id UUID REFERENCES public.stores(id) NOT NULL,
+  product_id UUID REFERENCES public.products(id) NOT NULL,
+  conflict_type sale_conflict_type NOT NULL,
+  quantity INTEGER NOT NULL,
+  -- Stock on hand when the sale was synced, for oversold lines
+  available INTEGER,
+  expected_price DECIMAL(10,2),
+  charged_price DECIMAL(10,2),
+  resolved_at TIMESTAMPTZ,
+  resolved_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sale_sync_conflicts_open ON public.sale_sync_conflicts(store_id, created_at)
+  WHERE resolved_at IS NULL;
+CREATE INDEX idx_sale_sync_conflicts_sale_id ON public.sale_sync_conflicts(sale_id);
+
+ALTER TABLE public.sale_sync_conflicts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view store sync conflicts"
+  ON public.sale_sync_conflicts FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+-- Managers mark conflicts resolved once stock has been counted or corrected
+CREATE POLICY "Managers and admins can resolve sync conflicts"
+  ON public.sale_sync_conflicts FOR UPDATE
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+  );
+
+DROP FUNCTION public.create_sale(UUID, JSONB, JSONB, UUID, TEXT, UUID);
+
+-- _sale_id makes the call idempotent: tills generate it up front and can
+-- safely resend after a dropped connection. _captured_at marks a sale rung up
+-- offline; see the conflict handling below.
+CREATE FUNCTION public.create_sale(
+  _store_id UUID,
+  _items JSONB,
+  _payments JSONB,
+  _customer_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _till_id UUID DEFAULT NULL,
+  _sale_id UUID DEFAULT NULL,
+  _captured_at TIMESTAMPTZ DEFAULT NULL,
+  _provisional_receipt_number TEXT DEFAULT NULL
+)
+RETURNS public.sales
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cashier_id UUID := auth.uid();
+  _sale public.sales;
+  _item JSONB;
+  _payment JSONB;
+  _product public.products;
+  _quantity INTEGER;
+  _unit_price DECIMAL(10,2);
+  _line_total DECIMAL(10,2);
+  _subtotal DECIMAL(10,2) := 0;
+  _vat_amount DECIMAL(10,2) := 0;
+  _paid DECIMAL(10,2) := 0;
+  _amount DECIMAL(10,2);
+  _tendered DECIMAL(10,2);
+  _awaiting_mpesa BOOLEAN := false;
+  _enabled_methods payment_method[];
+  _offline BOOLEAN := _captured_at IS NOT NULL;
+BEGIN
+  IF _cashier_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _cashier_id AND store_id = _store_id AND COALESCE(active, true)
+  ) THEN
+    RAISE EXCEPTION 'User is not assigned to this store' USING ERRCODE = '42501';
+  END IF;
+
+  -- Replaying a sale that already reached the server returns it unchanged
+  IF _sale_id IS NOT NULL THEN
+    SELECT * INTO _sale FROM public.sales WHERE id = _sale_id;
+    IF FOUND THEN
+      IF _sale.store_id <> _store_id OR _sale.cashier_id <> _cashier_id THEN
+        RAISE EXCEPTION 'Sale % already exists', _sale_id USING ERRCODE = '23505';
+      END IF;
+      RETURN _sale;
+    END IF;
+  END IF;
+
+  IF _offline AND (_captured_at > now() + interval '5 minutes' OR _captured_at < now() - interval '30 days') THEN
+    RAISE EXCEPTION 'Offline sale time % is out of range', _captured_at USING ERRCODE = '22023';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF _payments IS NULL OR jsonb_typeof(_payments) <> 'array' OR jsonb_array_length(_payments) = 0 THEN
+    RAISE EXCEPTION 'No payment provided' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT enabled_payment_methods INTO _enabled_methods
+  FROM public.store_settings
+  WHERE store_id = _store_id;
+
+  -- assign_sale_number fills in the till and receipt number
+  INSERT INTO public.sales (
+    id, store_id, till_id, customer_id, cashier_id,
+    subtotal, vat_amount, total_amount, status, notes,
+    created_at, captured_offline_at, provisional_receipt_number
+  )
+  VALUES (
+    COALESCE(_sale_id, gen_random_uuid()), _store_id, _till_id, _customer_id, _cashier_id,
+    0, 0, 0, 'completed', _notes,
+    COALESCE(_captured_at, now()), _captured_at, NULLIF(_provisional_receipt_number, '')
+  )
+  RETURNING * INTO _sale;
+
+  -- Lock products in a stable order so concurrent tills cannot deadlock
+  FOR _item IN
+    SELECT value FROM jsonb_array_elements(_items) ORDER BY value->>'product_id'
+  LOOP
+    _quantity := (_item->>'quantity')::INTEGER;
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', _item->>'product_id' USING ERRCODE = '22023';
+    END IF;
+
+    -- Offline sales have already left the shop, so products deactivated since still count
+    SELECT * INTO _product
+    FROM public.products
+    WHERE id = (_item->>'product_id')::UUID
+      AND store_id = _store_id
+      AND (_offline OR COALESCE(active, true))
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % is not available', _item->>'product_id' USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Offline, the customer paid the price the till had cached; shortfalls and
+    -- price changes are recorded for a manager instead of rejecting the sale
+    _unit_price := _product.selling_price;
+    IF _offline THEN
+      _unit_price := COALESCE((_item->>'unit_price')::DECIMAL(10,2), _product.selling_price);
+
+      IF NOT COALESCE(_product.active, true) THEN
+        INSERT INTO public.sale_sync_conflicts (sale_id, store_id, product_id, conflict_type, quantity)
+        VALUES (_sale.id, _store_id, _product.id, 'product_unavailable', _quantity);
+      END IF;
+
+      IF _product.stock_quantity < _quantity THEN
+        INSERT INTO public.sale_sync_conflicts (sale_id, store_id, product_id, conflict_type, quantity, available)
+        VALUES (_sale.id, _store_id, _product.id, 'oversold', _quantity, _product.stock_quantity);
+      END IF;
+
+      IF _unit_price <> _product.selling_price THEN
+        INSERT INTO public.sale_sync_conflicts (
+          sale_id, store_id, product_id, conflict_type, quantity, expected_price, charged_price
+        )
+        VALUES (_sale.id, _store_id, _product.id, 'price_changed', _quantity, _product.selling_price, _unit_price);
+      END IF;
+    ELSIF _product.stock_quantity < _quantity THEN
+      RAISE EXCEPTION 'Not enough stock for %: % available', _product.name, _product.stock_quantity
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    _line_total := _unit_price * _quantity;
+    _subtotal := _subtotal + _line_total;
+    _vat_amount := _vat_amount
+      + (_line_total * COALESCE(_product.vat_rate, 0)) / (100 + COALESCE(_product.vat_rate, 0));
+
+    INSERT INTO public.sale_items (
+      sale_id, product_id, product_name, quantity, unit_price, vat_rate, line_total
+    )
+    VALUES (
+      _sale.id, _product.id, _product.name, _quantity,
+      _unit_price, COALESCE(_product.vat_rate, 0), _line_total
+    );
+
+    INSERT INTO public.stock_movements (
+      product_id, store_id, movement_type, quantity, reference_type, reference_id, created_by
+    )
+    VALUES (_product.id, _store_id, 'sale', -_quantity, 'sale', _sale.id, _cashier_id);
+  END LOOP;
+
+  FOR _payment IN SELECT value FROM jsonb_array_elements(_payments)
+  LOOP
+    _amount := (_payment->>'amount')::DECIMAL(10,2);
+    _tendered := COALESCE((_payment->>'tendered_amount')::DECIMAL(10,2), _amount);
+
+    IF _amount IS NULL OR _amount <= 0 THEN
+      RAISE EXCEPTION 'Invalid payment amount' USING ERRCODE = '22023';
+    END IF;
+
+    IF _enabled_methods IS NOT NULL
+      AND NOT ((_payment->>'payment_method')::payment_method = ANY (_enabled_methods)) THEN
+      RAISE EXCEPTION '% payments are not enabled for this store', _payment->>'payment_method'
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- Only cash can be over-tendered; the difference is handed back as change
+    IF _tendered < _amount
+      OR (_tendered > _amount AND _payment->>'payment_method' <> 'cash') THEN
+      RAISE EXCEPTION 'Invalid tendered amount for % payment', _payment->>'payment_method'
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- M-Pesa without a receipt code is confirmed later by an STK push
+    IF _payment->>'payment_method' = 'mpesa' AND NULLIF(_payment->>'reference_number', '') IS NULL THEN
+      IF _offline THEN
+        RAISE EXCEPTION 'Offline M-Pesa payments need the M-Pesa receipt code' USING ERRCODE = '22023';
+      END IF;
+      IF NULLIF(_payment->>'payer_phone', '') IS NULL THEN
+        RAISE EXCEPTION 'M-Pesa payments need a phone number or a receipt code' USING ERRCODE = '22023';
+      END IF;
+      _awaiting_mpesa := true;
+    END IF;
+
+    INSERT INTO public.payments (
+      sale_id, payment_method, amount, tendered_amount, change_amount, reference_number, payer_phone
+    )
+    VALUES (
+      _sale.id,
+      (_payment->>'payment_method')::payment_method,
+      _amount,
+      _tendered,
+      _tendered - _amount,
+      NULLIF(_payment->>'reference_number', ''),
+      NULLIF(_payment->>'payer_phone', '')
+    );
+
+    _paid := _paid + _amount;
+  END LOOP;
+
+  IF _paid <> _subtotal THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', _paid, _subtotal USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.sales
+  SET subtotal = _subtotal,
+      vat_amount = round(_vat_amount, 2),
+      total_amount = _subtotal,
+      status = CASE WHEN _awaiting_mpesa THEN 'pending'::sale_status ELSE 'completed'::sale_status END
+  WHERE id = _sale.id
+  RETURNING * INTO _sale;
+
+  RETURN _sale;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_sale(UUID, JSONB, JSONB, UUID, TEXT, UUID, UUID, TIMESTAMPTZ, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_sale(UUID, JSONB, JSONB, UUID, TEXT, UUID, UUID, TIMESTAMPTZ, TEXT) TO authenticated;
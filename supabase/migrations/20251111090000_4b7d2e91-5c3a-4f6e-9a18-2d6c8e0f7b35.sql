@@ -0,0 +1,149 @@
+-- Customers. Tills look customers up by phone and attach them to sales;
+-- total_purchases is kept in step with their completed sales and refunds.
+
+-- The original policy let any signed-in user manage every store's customers
+DROP POLICY "All authenticated users can manage customers" ON public.customers;
+
+CREATE POLICY "Users can add store customers"
+  ON public.customers FOR INSERT
+  WITH CHECK (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Users can update store customers"
+  ON public.customers FOR UPDATE
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Managers and admins can delete customers"
+  ON public.customers FOR DELETE
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+  );
+
+-- Phones are stored as 2547XXXXXXXX so one customer is one row per store
+ALTER TABLE public.customers
+  ALTER COLUMN store_id SET NOT NULL,
+  ALTER COLUMN total_purchases SET NOT NULL,
+  ADD CONSTRAINT customers_store_id_phone_key UNIQUE (store_id, phone);
+
+CREATE INDEX idx_sales_customer_id ON public.sales(customer_id) WHERE customer_id IS NOT NULL;
+
+-- Completed sales less refunds given on credit notes
+CREATE OR REPLACE FUNCTION public.refresh_customer_total_purchases(_customer_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM set_config('app.customer_totals', 'on', true);
+
+  UPDATE public.customers c
+  SET total_purchases = COALESCE((
+      SELECT SUM(s.total_amount) FROM public.sales s
+      WHERE s.customer_id = c.id AND s.status = 'completed'
+    ), 0) - COALESCE((
+      SELECT SUM(cn.total_amount) FROM public.credit_notes cn
+      JOIN public.sales s ON s.id = cn.sale_id
+      WHERE s.customer_id = c.id AND s.status = 'completed'
+    ), 0)
+  WHERE c.id = _customer_id;
+
+  PERFORM set_config('app.customer_totals', 'off', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_customer_total_purchases(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Reject direct writes to total_purchases; new customers start at zero
+CREATE OR REPLACE FUNCTION public.guard_customer_total_purchases()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.total_purchases := 0;
+  ELSIF NEW.total_purchases IS DISTINCT FROM OLD.total_purchases
+    AND COALESCE(current_setting('app.customer_totals', true), 'off') <> 'on' THEN
+    RAISE EXCEPTION 'total_purchases is maintained from sales' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_customers_total_purchases BEFORE INSERT OR UPDATE ON public.customers
+  FOR EACH ROW EXECUTE FUNCTION public.guard_customer_total_purchases();
+
+-- Sales can only be attached to the store's own customers
+CREATE OR REPLACE FUNCTION public.check_sale_customer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.customer_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.customers WHERE id = NEW.customer_id AND store_id = NEW.store_id
+  ) THEN
+    RAISE EXCEPTION 'Customer % is not in this store', NEW.customer_id USING ERRCODE = '22023';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_sales_customer BEFORE INSERT OR UPDATE OF customer_id ON public.sales
+  FOR EACH ROW EXECUTE FUNCTION public.check_sale_customer();
+
+CREATE OR REPLACE FUNCTION public.sync_sale_customer_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.customer_id IS DISTINCT FROM NEW.customer_id AND OLD.customer_id IS NOT NULL THEN
+    PERFORM public.refresh_customer_total_purchases(OLD.customer_id);
+  END IF;
+  IF NEW.customer_id IS NOT NULL THEN
+    PERFORM public.refresh_customer_total_purchases(NEW.customer_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- create_sale fills in the total and status after inserting, so updates count too
+CREATE TRIGGER sync_sales_customer_totals
+  AFTER INSERT OR UPDATE OF status, customer_id, total_amount ON public.sales
+  FOR EACH ROW EXECUTE FUNCTION public.sync_sale_customer_totals();
+
+CREATE OR REPLACE FUNCTION public.sync_credit_note_customer_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id UUID;
+BEGIN
+  SELECT customer_id INTO _customer_id FROM public.sales WHERE id = NEW.sale_id;
+  IF _customer_id IS NOT NULL THEN
+    PERFORM public.refresh_customer_total_purchases(_customer_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+-- create_return inserts the note first and fills in its total afterwards
+CREATE TRIGGER sync_credit_notes_customer_totals
+  AFTER INSERT OR UPDATE OF total_amount ON public.credit_notes
+  FOR EACH ROW EXECUTE FUNCTION public.sync_credit_note_customer_totals();
+
+REVOKE EXECUTE ON FUNCTION public.check_sale_customer() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_sale_customer_totals() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_credit_note_customer_totals() FROM PUBLIC, anon, authenticated;
+
+-- Bring existing customers up to date
+SELECT public.refresh_customer_total_purchases(id) FROM public.customers;
@@ -0,0 +1,755 @@
+-- Loyalty programme. Customers earn points on what they spend, can pay with
+-- them at the till, and move up tiers that earn faster. Every change to a
+-- balance is a row in loyalty_transactions, the same way stock works.
+
+-- Used from plpgsql only, which does not resolve the new value until it runs
+ALTER TYPE public.payment_method ADD VALUE IF NOT EXISTS 'loyalty';
+
+ALTER TABLE public.store_settings
+  ADD COLUMN loyalty_enabled BOOLEAN NOT NULL DEFAULT false,
+  -- One point for every this much spent
+  ADD COLUMN loyalty_spend_per_point DECIMAL(10,2) NOT NULL DEFAULT 100
+    CHECK (loyalty_spend_per_point > 0),
+  -- What a point is worth when redeemed
+  ADD COLUMN loyalty_point_value DECIMAL(10,2) NOT NULL DEFAULT 1
+    CHECK (loyalty_point_value > 0),
+  ADD COLUMN loyalty_min_redemption INTEGER NOT NULL DEFAULT 0
+    CHECK (loyalty_min_redemption >= 0),
+  -- Points expire this many months after they were earned; null keeps them forever
+  ADD COLUMN loyalty_expiry_months INTEGER
+    CHECK (loyalty_expiry_months IS NULL OR loyalty_expiry_months BETWEEN 1 AND 120);
+
+ALTER TABLE public.customers
+  ADD COLUMN loyalty_points INTEGER NOT NULL DEFAULT 0;
+
+-- Tiers are reached on total purchases and multiply the points earned
+CREATE TABLE public.loyalty_tiers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  min_spend DECIMAL(12,2) NOT NULL CHECK (min_spend >= 0),
+  earn_multiplier DECIMAL(4,2) NOT NULL DEFAULT 1 CHECK (earn_multiplier > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (store_id, name),
+  UNIQUE (store_id, min_spend)
+);
+
+CREATE TRIGGER update_loyalty_tiers_updated_at BEFORE UPDATE ON public.loyalty_tiers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.loyalty_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view store loyalty tiers"
+  ON public.loyalty_tiers FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Managers and admins can manage loyalty tiers"
+  ON public.loyalty_tiers FOR ALL
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+  );
+
+CREATE TYPE public.loyalty_entry_type AS ENUM (
+  'earn', 'redeem', 'reverse_earn', 'refund_redeem', 'return_credit', 'expire', 'adjust'
+);
+
+CREATE TABLE public.loyalty_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID REFERENCES public.stores(id) NOT NULL,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE CASCADE NOT NULL,
+  entry_type loyalty_entry_type NOT NULL,
+  points INTEGER NOT NULL CHECK (points <> 0),
+  balance_after INTEGER NOT NULL DEFAULT 0,
+  -- The part of a credit not yet spent, which is what expires
+  remaining INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ,
+  sale_id UUID REFERENCES public.sales(id),
+  credit_note_id UUID REFERENCES public.credit_notes(id),
+  reason TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_loyalty_transactions_customer ON public.loyalty_transactions(customer_id, created_at);
+CREATE INDEX idx_loyalty_transactions_sale_id ON public.loyalty_transactions(sale_id) WHERE sale_id IS NOT NULL;
+CREATE INDEX idx_loyalty_transactions_unspent ON public.loyalty_transactions(customer_id, expires_at)
+  WHERE remaining > 0;
+
+ALTER TABLE public.loyalty_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by the functions below
+CREATE POLICY "Users can view store loyalty transactions"
+  ON public.loyalty_transactions FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+-- Applies an entry to the customer's balance. Debits spend the oldest
+-- credits first so that what expires is what was left unspent.
+CREATE OR REPLACE FUNCTION public.apply_loyalty_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance INTEGER;
+  _to_spend INTEGER;
+  _credit RECORD;
+BEGIN
+  SELECT loyalty_points INTO _balance FROM public.customers WHERE id = NEW.customer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', NEW.customer_id USING ERRCODE = 'P0002';
+  END IF;
+
+  _balance := _balance + NEW.points;
+  NEW.balance_after := _balance;
+
+  IF NEW.points > 0 THEN
+    -- A balance left negative by a reversal is paid off first
+    NEW.remaining := GREATEST(0, LEAST(NEW.points, _balance));
+  ELSE
+    NEW.remaining := 0;
+    _to_spend := -NEW.points;
+    -- expire_customer_loyalty_points has already cleared what it expires
+    IF NEW.entry_type <> 'expire' THEN
+      FOR _credit IN
+        SELECT id, remaining FROM public.loyalty_transactions
+        WHERE customer_id = NEW.customer_id AND remaining > 0
+        ORDER BY expires_at NULLS LAST, created_at
+        FOR UPDATE
+      LOOP
+        EXIT WHEN _to_spend = 0;
+        UPDATE public.loyalty_transactions
+        SET remaining = remaining - LEAST(_credit.remaining, _to_spend)
+        WHERE id = _credit.id;
+        _to_spend := _to_spend - LEAST(_credit.remaining, _to_spend);
+      END LOOP;
+    END IF;
+  END IF;
+
+  PERFORM set_config('app.loyalty_ledger', 'on', true);
+  UPDATE public.customers SET loyalty_points = _balance WHERE id = NEW.customer_id;
+  PERFORM set_config('app.loyalty_ledger', 'off', true);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_loyalty_transaction BEFORE INSERT ON public.loyalty_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.apply_loyalty_transaction();
+
+-- Reject direct writes to loyalty_points that bypass the ledger
+CREATE OR REPLACE FUNCTION public.guard_customer_loyalty_points()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.loyalty_points := 0;
+  ELSIF NEW.loyalty_points IS DISTINCT FROM OLD.loyalty_points
+    AND COALESCE(current_setting('app.loyalty_ledger', true), 'off') <> 'on' THEN
+    RAISE EXCEPTION 'loyalty_points is maintained by loyalty_transactions' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_customers_loyalty_points BEFORE INSERT OR UPDATE ON public.customers
+  FOR EACH ROW EXECUTE FUNCTION public.guard_customer_loyalty_points();
+
+CREATE OR REPLACE FUNCTION public.loyalty_expiry(_store_id UUID)
+RETURNS TIMESTAMPTZ
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE WHEN loyalty_expiry_months IS NOT NULL THEN now() + make_interval(months => loyalty_expiry_months) END
+  FROM public.store_settings
+  WHERE store_id = _store_id;
+$$;
+
+-- Writes off a customer's unspent points that have passed their expiry date
+CREATE OR REPLACE FUNCTION public.expire_customer_loyalty_points(_customer_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expired INTEGER;
+  _store_id UUID;
+BEGIN
+  WITH expired AS (
+    SELECT id, remaining FROM public.loyalty_transactions
+    WHERE customer_id = _customer_id AND remaining > 0 AND expires_at <= now()
+    FOR UPDATE
+  ), cleared AS (
+    UPDATE public.loyalty_transactions t
+    SET remaining = 0
+    FROM expired
+    WHERE t.id = expired.id
+    RETURNING expired.remaining
+  )
+  SELECT COALESCE(sum(remaining), 0) INTO _expired FROM cleared;
+
+  IF _expired > 0 THEN
+    SELECT store_id INTO _store_id FROM public.customers WHERE id = _customer_id;
+    INSERT INTO public.loyalty_transactions (store_id, customer_id, entry_type, points, reason)
+    VALUES (_store_id, _customer_id, 'expire', -_expired, 'Points expired');
+  END IF;
+
+  RETURN _expired;
+END;
+$$;
+
+-- For a scheduled job; balances are also brought up to date whenever a
+-- customer redeems or is looked up at the till
+CREATE OR REPLACE FUNCTION public.expire_loyalty_points()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer_id UUID;
+  _count INTEGER := 0;
+BEGIN
+  FOR _customer_id IN
+    SELECT DISTINCT customer_id FROM public.loyalty_transactions
+    WHERE remaining > 0 AND expires_at <= now()
+  LOOP
+    PERFORM public.expire_customer_loyalty_points(_customer_id);
+    _count := _count + 1;
+  END LOOP;
+  RETURN _count;
+END;
+$$;
+
+-- The customer's balance after expiring old points
+CREATE OR REPLACE FUNCTION public.loyalty_balance(_customer_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _balance INTEGER;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.customers
+    WHERE id = _customer_id
+      AND store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Customer % not found', _customer_id USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM public.expire_customer_loyalty_points(_customer_id);
+  SELECT loyalty_points INTO _balance FROM public.customers WHERE id = _customer_id;
+  RETURN _balance;
+END;
+$$;
+
+-- Goodwill credits and corrections by a manager
+CREATE OR REPLACE FUNCTION public.adjust_loyalty_points(_customer_id UUID, _points INTEGER, _reason TEXT)
+RETURNS public.loyalty_transactions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _customer public.customers;
+  _entry public.loyalty_transactions;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _customer FROM public.customers
+  WHERE id = _customer_id
+    AND store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid());
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', _customer_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers can adjust loyalty points' USING ERRCODE = '42501';
+  END IF;
+
+  IF COALESCE(_points, 0) = 0 THEN
+    RAISE EXCEPTION 'Enter the number of points to add or remove' USING ERRCODE = '22023';
+  END IF;
+  IF length(trim(COALESCE(_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required for adjustments' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.loyalty_transactions (
+    store_id, customer_id, entry_type, points, expires_at, reason, created_by
+  )
+  VALUES (
+    _customer.store_id, _customer_id, 'adjust', _points,
+    CASE WHEN _points > 0 THEN public.loyalty_expiry(_customer.store_id) END,
+    trim(_reason), auth.uid()
+  )
+  RETURNING * INTO _entry;
+
+  RETURN _entry;
+END;
+$$;
+
+-- Runs at commit, once the sale's final status and totals are known. Completed
+-- sales earn points on what was not paid with points; voided sales (including
+-- cancelled M-Pesa prompts) hand back what they earned and redeemed.
+CREATE OR REPLACE FUNCTION public.sync_sale_loyalty()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sale public.sales;
+  _settings public.store_settings;
+  _eligible DECIMAL(10,2);
+  _multiplier DECIMAL(4,2);
+  _points INTEGER;
+BEGIN
+  SELECT * INTO _sale FROM public.sales WHERE id = NEW.id;
+  IF _sale.customer_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF _sale.status = 'completed' THEN
+    SELECT * INTO _settings FROM public.store_settings WHERE store_id = _sale.store_id;
+    IF NOT COALESCE(_settings.loyalty_enabled, false)
+      OR EXISTS (SELECT 1 FROM public.loyalty_transactions WHERE sale_id = _sale.id AND entry_type = 'earn') THEN
+      RETURN NULL;
+    END IF;
+
+    SELECT _sale.total_amount - COALESCE(sum(amount), 0) INTO _eligible
+    FROM public.payments
+    WHERE sale_id = _sale.id AND payment_method = 'loyalty' AND reversed_at IS NULL;
+
+    SELECT COALESCE((
+      SELECT t.earn_multiplier FROM public.loyalty_tiers t
+      JOIN public.customers c ON c.store_id = t.store_id
+      WHERE c.id = _sale.customer_id AND t.min_spend <= c.total_purchases
+      ORDER BY t.min_spend DESC
+      LIMIT 1
+    ), 1) INTO _multiplier;
+
+    _points := floor(_eligible / _settings.loyalty_spend_per_point * _multiplier);
+    IF _points > 0 THEN
+      INSERT INTO public.loyalty_transactions (
+        store_id, customer_id, sale_id, entry_type, points, expires_at, created_by
+      )
+      VALUES (
+        _sale.store_id, _sale.customer_id, _sale.id, 'earn', _points,
+        public.loyalty_expiry(_sale.store_id), _sale.cashier_id
+      );
+    END IF;
+  ELSIF _sale.status = 'voided' THEN
+    SELECT COALESCE(sum(points), 0) INTO _points
+    FROM public.loyalty_transactions
+    WHERE sale_id = _sale.id AND entry_type IN ('earn', 'reverse_earn');
+    IF _points > 0 THEN
+      INSERT INTO public.loyalty_transactions (
+        store_id, customer_id, sale_id, entry_type, points, reason, created_by
+      )
+      VALUES (
+        _sale.store_id, _sale.customer_id, _sale.id, 'reverse_earn', -_points,
+        'Sale ' || _sale.receipt_number || ' voided', _sale.void_approved_by
+      );
+    END IF;
+
+    SELECT COALESCE(sum(points), 0) INTO _points
+    FROM public.loyalty_transactions
+    WHERE sale_id = _sale.id AND entry_type IN ('redeem', 'refund_redeem');
+    IF _points < 0 THEN
+      INSERT INTO public.loyalty_transactions (
+        store_id, customer_id, sale_id, entry_type, points, expires_at, reason, created_by
+      )
+      VALUES (
+        _sale.store_id, _sale.customer_id, _sale.id, 'refund_redeem', -_points,
+        public.loyalty_expiry(_sale.store_id), 'Sale ' || _sale.receipt_number || ' voided', _sale.void_approved_by
+      );
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER sync_sale_loyalty
+  AFTER INSERT OR UPDATE OF status ON public.sales
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.sync_sale_loyalty();
+
+-- Refunds to points need a customer to credit
+CREATE OR REPLACE FUNCTION public.check_credit_note_loyalty()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.refund_method = 'loyalty' AND NOT EXISTS (
+    SELECT 1 FROM public.sales s
+    JOIN public.store_settings st ON st.store_id = s.store_id
+    WHERE s.id = NEW.sale_id AND s.customer_id IS NOT NULL AND st.loyalty_enabled
+  ) THEN
+    RAISE EXCEPTION 'Only sales with a customer can be refunded to points' USING ERRCODE = '22023';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_credit_notes_loyalty BEFORE INSERT ON public.credit_notes
+  FOR EACH ROW EXECUTE FUNCTION public.check_credit_note_loyalty();
+
+-- Runs at commit, once create_return has totalled the note. Points earned on
+-- the sale are taken back in proportion to what has been returned so far, and
+-- refunds to points are credited at the redemption value.
+CREATE OR REPLACE FUNCTION public.sync_credit_note_loyalty()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _note public.credit_notes;
+  _sale public.sales;
+  _settings public.store_settings;
+  _earned INTEGER;
+  _reversed INTEGER;
+  _returned DECIMAL(10,2);
+  _points INTEGER;
+BEGIN
+  SELECT * INTO _note FROM public.credit_notes WHERE id = NEW.id;
+  SELECT * INTO _sale FROM public.sales WHERE id = _note.sale_id;
+  IF _sale.customer_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.loyalty_transactions WHERE credit_note_id = _note.id) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(sum(points) FILTER (WHERE entry_type = 'earn'), 0),
+         COALESCE(-sum(points) FILTER (WHERE entry_type = 'reverse_earn'), 0)
+  INTO _earned, _reversed
+  FROM public.loyalty_transactions
+  WHERE sale_id = _sale.id;
+
+  SELECT COALESCE(sum(total_amount), 0) INTO _returned
+  FROM public.credit_notes
+  WHERE sale_id = _sale.id;
+
+  IF _earned > 0 AND _sale.total_amount > 0 THEN
+    _points := LEAST(_earned, round(_earned * _returned / _sale.total_amount)) - _reversed;
+    IF _points > 0 THEN
+      INSERT INTO public.loyalty_transactions (
+        store_id, customer_id, sale_id, credit_note_id, entry_type, points, reason, created_by
+      )
+      VALUES (
+        _sale.store_id, _sale.customer_id, _sale.id, _note.id, 'reverse_earn', -_points,
+        'Return ' || _note.credit_note_number, _note.created_by
+      );
+    END IF;
+  END IF;
+
+  IF _note.refund_method = 'loyalty' THEN
+    SELECT * INTO _settings FROM public.store_settings WHERE store_id = _sale.store_id;
+    _points := round(_note.total_amount / _settings.loyalty_point_value);
+    IF _points > 0 THEN
+      INSERT INTO public.loyalty_transactions (
+        store_id, customer_id, sale_id, credit_note_id, entry_type, points, expires_at, reason, created_by
+      )
+      VALUES (
+        _sale.store_id, _sale.customer_id, _sale.id, _note.id, 'return_credit', _points,
+        public.loyalty_expiry(_sale.store_id), 'Refund on ' || _note.credit_note_number, _note.created_by
+      );
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER sync_credit_note_loyalty
+  AFTER INSERT ON public.credit_notes
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW EXECUTE FUNCTION public.sync_credit_note_loyalty();
+
+CREATE OR REPLACE FUNCTION public.create_sale(
+  _store_id UUID,
+  _items JSONB,
+  _payments JSONB,
+  _customer_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _till_id UUID DEFAULT NULL,
+  _sale_id UUID DEFAULT NULL,
+  _captured_at TIMESTAMPTZ DEFAULT NULL,
+  _provisional_receipt_number TEXT DEFAULT NULL
+)
+RETURNS public.sales
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cashier_id UUID := auth.uid();
+  _sale public.sales;
+  _item JSONB;
+  _payment JSONB;
+  _product public.products;
+  _quantity INTEGER;
+  _unit_price DECIMAL(10,2);
+  _line_total DECIMAL(10,2);
+  _subtotal DECIMAL(10,2) := 0;
+  _vat_amount DECIMAL(10,2) := 0;
+  _paid DECIMAL(10,2) := 0;
+  _amount DECIMAL(10,2);
+  _tendered DECIMAL(10,2);
+  _awaiting_mpesa BOOLEAN := false;
+  _settings public.store_settings;
+  _points INTEGER;
+  _balance INTEGER;
+  _reference TEXT;
+  _offline BOOLEAN := _captured_at IS NOT NULL;
+BEGIN
+  IF _cashier_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _cashier_id AND store_id = _store_id AND COALESCE(active, true)
+  ) THEN
+    RAISE EXCEPTION 'User is not assigned to this store' USING ERRCODE = '42501';
+  END IF;
+
+  -- Replaying a sale that already reached the server returns it unchanged
+  IF _sale_id IS NOT NULL THEN
+    SELECT * INTO _sale FROM public.sales WHERE id = _sale_id;
+    IF FOUND THEN
+      IF _sale.store_id <> _store_id OR _sale.cashier_id <> _cashier_id THEN
+        RAISE EXCEPTION 'Sale % already exists', _sale_id USING ERRCODE = '23505';
+      END IF;
+      RETURN _sale;
+    END IF;
+  END IF;
+
+  IF _offline AND (_captured_at > now() + interval '5 minutes' OR _captured_at < now() - interval '30 days') THEN
+    RAISE EXCEPTION 'Offline sale time % is out of range', _captured_at USING ERRCODE = '22023';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF _payments IS NULL OR jsonb_typeof(_payments) <> 'array' OR jsonb_array_length(_payments) = 0 THEN
+    RAISE EXCEPTION 'No payment provided' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _settings
+  FROM public.store_settings
+  WHERE store_id = _store_id;
+
+  -- assign_sale_number fills in the till and receipt number
+  INSERT INTO public.sales (
+    id, store_id, till_id, customer_id, cashier_id,
+    subtotal, vat_amount, total_amount, status, notes,
+    created_at, captured_offline_at, provisional_receipt_number
+  )
+  VALUES (
+    COALESCE(_sale_id, gen_random_uuid()), _store_id, _till_id, _customer_id, _cashier_id,
+    0, 0, 0, 'completed', _notes,
+    COALESCE(_captured_at, now()), _captured_at, NULLIF(_provisional_receipt_number, '')
+  )
+  RETURNING * INTO _sale;
+
+  -- Lock products in a stable order so concurrent tills cannot deadlock
+  FOR _item IN
+    SELECT value FROM jsonb_array_elements(_items) ORDER BY value->>'product_id'
+  LOOP
+    _quantity := (_item->>'quantity')::INTEGER;
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', _item->>'product_id' USING ERRCODE = '22023';
+    END IF;
+
+    -- Offline sales have already left the shop, so products deactivated since still count
+    SELECT * INTO _product
+    FROM public.products
+    WHERE id = (_item->>'product_id')::UUID
+      AND store_id = _store_id
+      AND (_offline OR COALESCE(active, true))
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % is not available', _item->>'product_id' USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Offline, the customer paid the price the till had cached; shortfalls and
+    -- price changes are recorded for a manager instead of rejecting the sale
+    _unit_price := _product.selling_price;
+    IF _offline THEN
+      _unit_price := COALESCE((_item->>'unit_price')::DECIMAL(10,2), _product.selling_price);
+
+      IF NOT COALESCE(_product.active, true) THEN
+        INSERT INTO public.sale_sync_conflicts (sale_id, store_id, product_id, conflict_type, quantity)
+        VALUES (_sale.id, _store_id, _product.id, 'product_unavailable', _quantity);
+      END IF;
+
+      IF _product.stock_quantity < _quantity THEN
+        INSERT INTO public.sale_sync_conflicts (sale_id, store_id, product_id, conflict_type, quantity, available)
+        VALUES (_sale.id, _store_id, _product.id, 'oversold', _quantity, _product.stock_quantity);
+      END IF;
+
+      IF _unit_price <> _product.selling_price THEN
+        INSERT INTO public.sale_sync_conflicts (
+          sale_id, store_id, product_id, conflict_type, quantity, expected_price, charged_price
+        )
+        VALUES (_sale.id, _store_id, _product.id, 'price_changed', _quantity, _product.selling_price, _unit_price);
+      END IF;
+    ELSIF _product.stock_quantity < _quantity THEN
+      RAISE EXCEPTION 'Not enough stock for %: % available', _product.name, _product.stock_quantity
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    _line_total := _unit_price * _quantity;
+    _subtotal := _subtotal + _line_total;
+    _vat_amount := _vat_amount
+      + (_line_total * COALESCE(_product.vat_rate, 0)) / (100 + COALESCE(_product.vat_rate, 0));
+
+    INSERT INTO public.sale_items (
+      sale_id, product_id, product_name, quantity, unit_price, vat_rate, line_total
+    )
+    VALUES (
+      _sale.id, _product.id, _product.name, _quantity,
+      _unit_price, COALESCE(_product.vat_rate, 0), _line_total
+    );
+
+    INSERT INTO public.stock_movements (
+      product_id, store_id, movement_type, quantity, reference_type, reference_id, created_by
+    )
+    VALUES (_product.id, _store_id, 'sale', -_quantity, 'sale', _sale.id, _cashier_id);
+  END LOOP;
+
+  FOR _payment IN SELECT value FROM jsonb_array_elements(_payments)
+  LOOP
+    _amount := (_payment->>'amount')::DECIMAL(10,2);
+    _tendered := COALESCE((_payment->>'tendered_amount')::DECIMAL(10,2), _amount);
+
+    IF _amount IS NULL OR _amount <= 0 THEN
+      RAISE EXCEPTION 'Invalid payment amount' USING ERRCODE = '22023';
+    END IF;
+
+    -- Points are a tender whenever the loyalty programme is on
+    IF _settings.enabled_payment_methods IS NOT NULL
+      AND _payment->>'payment_method' <> 'loyalty'
+      AND NOT ((_payment->>'payment_method')::payment_method = ANY (_settings.enabled_payment_methods)) THEN
+      RAISE EXCEPTION '% payments are not enabled for this store', _payment->>'payment_method'
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- Only cash can be over-tendered; the difference is handed back as change
+    IF _tendered < _amount
+      OR (_tendered > _amount AND _payment->>'payment_method' <> 'cash') THEN
+      RAISE EXCEPTION 'Invalid tendered amount for % payment', _payment->>'payment_method'
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- M-Pesa without a receipt code is confirmed later by an STK push
+    IF _payment->>'payment_method' = 'mpesa' AND NULLIF(_payment->>'reference_number', '') IS NULL THEN
+      IF _offline THEN
+        RAISE EXCEPTION 'Offline M-Pesa payments need the M-Pesa receipt code' USING ERRCODE = '22023';
+      END IF;
+      IF NULLIF(_payment->>'payer_phone', '') IS NULL THEN
+        RAISE EXCEPTION 'M-Pesa payments need a phone number or a receipt code' USING ERRCODE = '22023';
+      END IF;
+      _awaiting_mpesa := true;
+    END IF;
+
+    _reference := NULLIF(_payment->>'reference_number', '');
+
+    -- Redeemed points leave the customer's balance straight away; a void or a
+    -- cancelled M-Pesa prompt gives them back
+    IF _payment->>'payment_method' = 'loyalty' THEN
+      IF _customer_id IS NULL THEN
+        RAISE EXCEPTION 'Points can only be redeemed on a sale with a customer' USING ERRCODE = '22023';
+      END IF;
+      IF NOT COALESCE(_settings.loyalty_enabled, false) THEN
+        RAISE EXCEPTION 'The loyalty programme is not enabled' USING ERRCODE = '22023';
+      END IF;
+
+      _points := round(_amount / _settings.loyalty_point_value);
+      IF _points * _settings.loyalty_point_value <> _amount THEN
+        RAISE EXCEPTION 'Points must be redeemed in whole points of %', _settings.loyalty_point_value
+          USING ERRCODE = '22023';
+      END IF;
+      IF _points < _settings.loyalty_min_redemption THEN
+        RAISE EXCEPTION 'At least % points must be redeemed at a time', _settings.loyalty_min_redemption
+          USING ERRCODE = '22023';
+      END IF;
+
+      PERFORM public.expire_customer_loyalty_points(_customer_id);
+      SELECT loyalty_points INTO _balance FROM public.customers WHERE id = _customer_id FOR UPDATE;
+      IF _balance < _points THEN
+        RAISE EXCEPTION 'Only % points available', _balance USING ERRCODE = 'P0001';
+      END IF;
+
+      INSERT INTO public.loyalty_transactions (store_id, customer_id, sale_id, entry_type, points, created_by)
+      VALUES (_store_id, _customer_id, _sale.id, 'redeem', -_points, _cashier_id);
+      _reference := _points || ' points';
+    END IF;
+
+    INSERT INTO public.payments (
+      sale_id, payment_method, amount, tendered_amount, change_amount, reference_number, payer_phone
+    )
+    VALUES (
+      _sale.id,
+      (_payment->>'payment_method')::payment_method,
+      _amount,
+      _tendered,
+      _tendered - _amount,
+      _reference,
+      NULLIF(_payment->>'payer_phone', '')
+    );
+
+    _paid := _paid + _amount;
+  END LOOP;
+
+  IF _paid <> _subtotal THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', _paid, _subtotal USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.sales
+  SET subtotal = _subtotal,
+      vat_amount = round(_vat_amount, 2),
+      total_amount = _subtotal,
+      status = CASE WHEN _awaiting_mpesa THEN 'pending'::sale_status ELSE 'completed'::sale_status END
+  WHERE id = _sale.id
+  RETURNING * INTO _sale;
+
+  RETURN _sale;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_loyalty_transaction() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.loyalty_expiry(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_customer_loyalty_points(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.expire_loyalty_points() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_sale_loyalty() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_credit_note_loyalty() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_credit_note_loyalty() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.loyalty_balance(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.adjust_loyalty_points(UUID, INTEGER, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.loyalty_balance(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.adjust_loyalty_points(UUID, INTEGER, TEXT) TO authenticated;
@@ -0,0 +1,423 @@
+-- Cash drawer shifts. A till sells inside an open shift: it is opened with a
+-- counted float, cash is paid in, paid out and dropped to the safe during it,
+-- and it is closed with a count by denomination. The difference between what
+-- the drawer should hold and what was counted is kept as the shift's variance,
+-- and a closed shift's sales can no longer be voided.
+
+CREATE TYPE public.shift_status AS ENUM ('open', 'closed');
+CREATE TYPE public.cash_movement_type AS ENUM ('pay_in', 'pay_out', 'drop');
+
+CREATE TABLE public.till_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE NOT NULL,
+  till_id UUID REFERENCES public.tills(id) NOT NULL,
+  -- Counts up per till; printed on the Z report
+  shift_number INTEGER NOT NULL,
+  status shift_status NOT NULL DEFAULT 'open',
+  opened_by UUID REFERENCES public.profiles(id) NOT NULL,
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- { "1000": 2, "50": 10 }: how many of each note and coin
+  opening_denominations JSONB NOT NULL DEFAULT '{}',
+  opening_float DECIMAL(10,2) NOT NULL CHECK (opening_float >= 0),
+  closed_by UUID REFERENCES public.profiles(id),
+  closed_at TIMESTAMPTZ,
+  closing_denominations JSONB,
+  counted_cash DECIMAL(10,2),
+  expected_cash DECIMAL(10,2),
+  variance DECIMAL(10,2) GENERATED ALWAYS AS (counted_cash - expected_cash) STORED,
+  notes TEXT,
+  UNIQUE (till_id, shift_number),
+  CHECK ((status = 'closed') = (closed_at IS NOT NULL AND counted_cash IS NOT NULL AND expected_cash IS NOT NULL))
+);
+
+-- One open shift per till
+CREATE UNIQUE INDEX idx_till_shifts_open ON public.till_shifts(till_id) WHERE status = 'open';
+CREATE INDEX idx_till_shifts_store_id ON public.till_shifts(store_id, opened_at DESC);
+
+ALTER TABLE public.till_shifts ENABLE ROW LEVEL SECURITY;
+
+-- Shifts are opened and closed through open_shift and close_shift
+CREATE POLICY "Users can view store shifts"
+  ON public.till_shifts FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+CREATE TABLE public.cash_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE NOT NULL,
+  shift_id UUID REFERENCES public.till_shifts(id) ON DELETE CASCADE NOT NULL,
+  movement_type cash_movement_type NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  reason TEXT,
+  created_by UUID REFERENCES public.profiles(id) NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_cash_movements_shift_id ON public.cash_movements(shift_id);
+
+ALTER TABLE public.cash_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view store cash movements"
+  ON public.cash_movements FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+ALTER TABLE public.sales ADD COLUMN shift_id UUID REFERENCES public.till_shifts(id);
+ALTER TABLE public.credit_notes ADD COLUMN shift_id UUID REFERENCES public.till_shifts(id);
+
+CREATE INDEX idx_sales_shift_id ON public.sales(shift_id);
+CREATE INDEX idx_credit_notes_shift_id ON public.credit_notes(shift_id);
+
+-- Total of a { "denomination": count } object
+CREATE OR REPLACE FUNCTION public.count_denominations(_denominations JSONB)
+RETURNS DECIMAL(10,2)
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  _entry RECORD;
+  _count NUMERIC;
+  _total DECIMAL(10,2) := 0;
+BEGIN
+  IF _denominations IS NULL OR jsonb_typeof(_denominations) <> 'object' THEN
+    RAISE EXCEPTION 'Enter the count for each note and coin' USING ERRCODE = '22023';
+  END IF;
+
+  FOR _entry IN SELECT key, value FROM jsonb_each(_denominations)
+  LOOP
+    IF _entry.key !~ '^\d+(\.\d{1,2})?$' OR _entry.key::NUMERIC <= 0 THEN
+      RAISE EXCEPTION 'Invalid denomination %', _entry.key USING ERRCODE = '22023';
+    END IF;
+    IF jsonb_typeof(_entry.value) <> 'number' THEN
+      RAISE EXCEPTION 'Invalid count for %', _entry.key USING ERRCODE = '22023';
+    END IF;
+    _count := (_entry.value::TEXT)::NUMERIC;
+    IF _count < 0 OR _count <> trunc(_count) THEN
+      RAISE EXCEPTION 'Invalid count for %', _entry.key USING ERRCODE = '22023';
+    END IF;
+    _total := _total + _entry.key::NUMERIC * _count;
+  END LOOP;
+
+  RETURN _total;
+END;
+$$;
+
+-- Sales and credit notes join the open shift on their till. A sale rung up
+-- offline joins whichever shift is open when it syncs, or none, so that it is
+-- never lost; only online sales and cash refunds need a shift to be open.
+CREATE OR REPLACE FUNCTION public.assign_document_shift()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _required BOOLEAN;
+BEGIN
+  SELECT id INTO NEW.shift_id
+  FROM public.till_shifts
+  WHERE till_id = NEW.till_id AND status = 'open';
+
+  -- Fields are only read on the table that has them
+  IF TG_TABLE_NAME = 'sales' THEN
+    _required := NEW.captured_offline_at IS NULL;
+  ELSE
+    _required := NEW.refund_method = 'cash';
+  END IF;
+
+  IF NEW.shift_id IS NULL AND _required THEN
+    RAISE EXCEPTION 'Open a shift on this till first' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire after assign_sale_number and assign_credit_note_number, which resolve the till
+CREATE TRIGGER assign_sale_shift BEFORE INSERT ON public.sales
+  FOR EACH ROW EXECUTE FUNCTION public.assign_document_shift();
+
+CREATE TRIGGER assign_credit_note_shift BEFORE INSERT ON public.credit_notes
+  FOR EACH ROW EXECUTE FUNCTION public.assign_document_shift();
+
+-- A closed shift's takings are final: its sales cannot be voided or re-priced
+CREATE OR REPLACE FUNCTION public.guard_closed_shift_sale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.shift_id IS NOT NULL
+    AND (NEW.status IS DISTINCT FROM OLD.status OR NEW.total_amount IS DISTINCT FROM OLD.total_amount
+      OR NEW.shift_id IS DISTINCT FROM OLD.shift_id)
+    AND EXISTS (SELECT 1 FROM public.till_shifts WHERE id = OLD.shift_id AND status = 'closed') THEN
+    RAISE EXCEPTION 'Sale % belongs to a closed shift', OLD.receipt_number USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_sales_closed_shift BEFORE UPDATE ON public.sales
+  FOR EACH ROW EXECUTE FUNCTION public.guard_closed_shift_sale();
+
+-- Figures for the X (mid-shift) and Z (closing) reports
+CREATE OR REPLACE FUNCTION public.shift_totals(_shift_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shift public.till_shifts;
+  _sales JSONB;
+  _payments JSONB;
+  _refunds JSONB;
+  _movements JSONB;
+  _cash_sales DECIMAL(10,2);
+  _cash_refunds DECIMAL(10,2);
+  _expected DECIMAL(10,2);
+BEGIN
+  SELECT * INTO _shift FROM public.till_shifts WHERE id = _shift_id;
+
+  SELECT jsonb_build_object(
+    'sales_count', count(*) FILTER (WHERE status = 'completed'),
+    'gross_sales', COALESCE(sum(subtotal) FILTER (WHERE status = 'completed'), 0),
+    'discounts', COALESCE(sum(discount_amount) FILTER (WHERE status = 'completed'), 0),
+    'net_sales', COALESCE(sum(total_amount) FILTER (WHERE status = 'completed'), 0),
+    'vat', COALESCE(sum(vat_amount) FILTER (WHERE status = 'completed'), 0),
+    'voids_count', count(*) FILTER (WHERE voided_at IS NOT NULL),
+    'voids_total', COALESCE(sum(total_amount) FILTER (WHERE voided_at IS NOT NULL), 0),
+    'pending_count', count(*) FILTER (WHERE status = 'pending')
+  ) INTO _sales
+  FROM public.sales
+  WHERE shift_id = _shift_id;
+
+  SELECT COALESCE(jsonb_object_agg(payment_method, total), '{}') INTO _payments
+  FROM (
+    SELECT p.payment_method, sum(p.amount) AS total
+    FROM public.payments p
+    JOIN public.sales s ON s.id = p.sale_id
+    WHERE s.shift_id = _shift_id AND s.status = 'completed' AND p.reversed_at IS NULL
+    GROUP BY p.payment_method
+  ) t;
+
+  SELECT COALESCE(jsonb_object_agg(refund_method, total), '{}') INTO _refunds
+  FROM (
+    SELECT refund_method, sum(total_amount) AS total
+    FROM public.credit_notes
+    WHERE shift_id = _shift_id
+    GROUP BY refund_method
+  ) t;
+
+  SELECT jsonb_build_object(
+    'pay_ins', COALESCE(sum(amount) FILTER (WHERE movement_type = 'pay_in'), 0),
+    'pay_outs', COALESCE(sum(amount) FILTER (WHERE movement_type = 'pay_out'), 0),
+    'drops', COALESCE(sum(amount) FILTER (WHERE movement_type = 'drop'), 0)
+  ) INTO _movements
+  FROM public.cash_movements
+  WHERE shift_id = _shift_id;
+
+  _cash_sales := COALESCE((_payments->>'cash')::DECIMAL(10,2), 0);
+  _cash_refunds := COALESCE((_refunds->>'cash')::DECIMAL(10,2), 0);
+  _expected := _shift.opening_float + _cash_sales - _cash_refunds
+    + (_movements->>'pay_ins')::DECIMAL(10,2)
+    - (_movements->>'pay_outs')::DECIMAL(10,2)
+    - (_movements->>'drops')::DECIMAL(10,2);
+
+  RETURN _sales || _movements || jsonb_build_object(
+    'payments', _payments,
+    'refunds', _refunds,
+    'returns_total', COALESCE((SELECT sum(value::TEXT::NUMERIC) FROM jsonb_each(_refunds)), 0),
+    'opening_float', _shift.opening_float,
+    'cash_sales', _cash_sales,
+    'cash_refunds', _cash_refunds,
+    'expected_cash', _expected
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.open_shift(_till_id UUID, _denominations JSONB)
+RETURNS public.till_shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _till public.tills;
+  _shift public.till_shifts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Locking the till serialises shift numbers and the one-open-shift check
+  SELECT * INTO _till FROM public.tills
+  WHERE id = _till_id
+    AND active
+    AND store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid() AND COALESCE(active, true))
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Till % is not available', _till_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.till_shifts WHERE till_id = _till_id AND status = 'open') THEN
+    RAISE EXCEPTION '% already has an open shift', _till.name USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.till_shifts (
+    store_id, till_id, shift_number, opened_by, opening_denominations, opening_float
+  )
+  VALUES (
+    _till.store_id, _till_id,
+    COALESCE((SELECT max(shift_number) FROM public.till_shifts WHERE till_id = _till_id), 0) + 1,
+    auth.uid(), _denominations, public.count_denominations(_denominations)
+  )
+  RETURNING * INTO _shift;
+
+  RETURN _shift;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_cash_movement(
+  _shift_id UUID,
+  _movement_type cash_movement_type,
+  _amount DECIMAL,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS public.cash_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shift public.till_shifts;
+  _movement public.cash_movements;
+  _in_drawer DECIMAL(10,2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _shift FROM public.till_shifts
+  WHERE id = _shift_id
+    AND store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid() AND COALESCE(active, true))
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift % not found', _shift_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _shift.status <> 'open' THEN
+    RAISE EXCEPTION 'This shift is closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Enter an amount above zero' USING ERRCODE = '22023';
+  END IF;
+
+  IF _movement_type <> 'drop' AND length(trim(COALESCE(_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required for pay-ins and pay-outs' USING ERRCODE = '22023';
+  END IF;
+
+  -- Only cash that is in the drawer can leave it
+  IF _movement_type <> 'pay_in' THEN
+    _in_drawer := (public.shift_totals(_shift_id)->>'expected_cash')::DECIMAL(10,2);
+    IF _amount > _in_drawer THEN
+      RAISE EXCEPTION 'The drawer should only hold %', _in_drawer USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  INSERT INTO public.cash_movements (store_id, shift_id, movement_type, amount, reason, created_by)
+  VALUES (_shift.store_id, _shift_id, _movement_type, round(_amount, 2), NULLIF(trim(_reason), ''), auth.uid())
+  RETURNING * INTO _movement;
+
+  RETURN _movement;
+END;
+$$;
+
+-- Closes with a blind count: the expected figure is only worked out here
+CREATE OR REPLACE FUNCTION public.close_shift(_shift_id UUID, _denominations JSONB, _notes TEXT DEFAULT NULL)
+RETURNS public.till_shifts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shift public.till_shifts;
+  _totals JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO _shift FROM public.till_shifts
+  WHERE id = _shift_id
+    AND store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid() AND COALESCE(active, true))
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift % not found', _shift_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _shift.status <> 'open' THEN
+    RAISE EXCEPTION 'This shift is already closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF _shift.opened_by <> auth.uid()
+    AND NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only the cashier who opened the shift or a manager can close it' USING ERRCODE = '42501';
+  END IF;
+
+  _totals := public.shift_totals(_shift_id);
+  IF (_totals->>'pending_count')::INTEGER > 0 THEN
+    RAISE EXCEPTION 'Sales awaiting M-Pesa must be completed or cancelled first' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.till_shifts
+  SET status = 'closed',
+      closed_by = auth.uid(),
+      closed_at = now(),
+      closing_denominations = _denominations,
+      counted_cash = public.count_denominations(_denominations),
+      expected_cash = (_totals->>'expected_cash')::DECIMAL(10,2),
+      notes = NULLIF(trim(_notes), '')
+  WHERE id = _shift_id
+  RETURNING * INTO _shift;
+
+  RETURN _shift;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.shift_report(_shift_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.till_shifts
+    WHERE id = _shift_id
+      AND store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Shift % not found', _shift_id USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN public.shift_totals(_shift_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.count_denominations(JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.shift_totals(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.open_shift(UUID, JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.record_cash_movement(UUID, cash_movement_type, DECIMAL, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.close_shift(UUID, JSONB, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.shift_report(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.open_shift(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_cash_movement(UUID, cash_movement_type, DECIMAL, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.close_shift(UUID, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.shift_report(UUID) TO authenticated;
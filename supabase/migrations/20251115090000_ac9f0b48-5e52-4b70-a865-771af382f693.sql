@@ -0,0 +1,659 @@
+-- Suppliers, purchase orders and goods receiving. A purchase order goes from
+-- draft to sent, and is received against in one or more goods-received notes
+-- (GRNs). Each GRN adds stock through the ledger and moves the product's cost
+-- to the weighted average of what was in stock and what arrived. Supplier
+-- invoices are matched line by line against what was ordered and received.
+
+CREATE TABLE public.suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  contact_name TEXT,
+  phone TEXT,
+  email TEXT,
+  kra_pin TEXT,
+  address TEXT,
+  notes TEXT,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_suppliers_store_id ON public.suppliers(store_id);
+
+CREATE TRIGGER update_suppliers_updated_at BEFORE UPDATE ON public.suppliers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view store suppliers"
+  ON public.suppliers FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Managers and admins can manage suppliers"
+  ON public.suppliers FOR ALL
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+  );
+
+CREATE TYPE public.purchase_order_status AS ENUM (
+  'draft', 'sent', 'partially_received', 'received', 'cancelled'
+);
+
+-- Orders, GRNs and invoices are written through the functions below, which
+-- keep received quantities, stock and costs in step
+CREATE TABLE public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE NOT NULL,
+  supplier_id UUID REFERENCES public.suppliers(id) NOT NULL,
+  po_number TEXT NOT NULL,
+  status purchase_order_status NOT NULL DEFAULT 'draft',
+  expected_at DATE,
+  notes TEXT,
+  total_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  sent_at TIMESTAMPTZ,
+  UNIQUE (store_id, po_number)
+);
+
+CREATE INDEX idx_purchase_orders_store_id ON public.purchase_orders(store_id, created_at DESC);
+CREATE INDEX idx_purchase_orders_supplier_id ON public.purchase_orders(supplier_id);
+
+CREATE TRIGGER update_purchase_orders_updated_at BEFORE UPDATE ON public.purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID REFERENCES public.purchase_orders(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  -- Agreed cost per unit, on the same basis as products.cost_price
+  unit_cost DECIMAL(10,2) NOT NULL CHECK (unit_cost >= 0),
+  received_quantity INTEGER NOT NULL DEFAULT 0 CHECK (received_quantity >= 0),
+  UNIQUE (purchase_order_id, product_id)
+);
+
+CREATE INDEX idx_purchase_order_items_product_id ON public.purchase_order_items(product_id);
+
+CREATE TABLE public.goods_received_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE NOT NULL,
+  purchase_order_id UUID REFERENCES public.purchase_orders(id) NOT NULL,
+  grn_number TEXT NOT NULL,
+  -- The supplier's delivery note number
+  delivery_reference TEXT,
+  notes TEXT,
+  received_by UUID REFERENCES public.profiles(id),
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (store_id, grn_number)
+);
+
+CREATE INDEX idx_goods_received_notes_purchase_order_id ON public.goods_received_notes(purchase_order_id);
+
+CREATE TABLE public.goods_received_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  goods_received_note_id UUID REFERENCES public.goods_received_notes(id) ON DELETE CASCADE NOT NULL,
+  purchase_order_item_id UUID REFERENCES public.purchase_order_items(id) NOT NULL,
+  product_id UUID REFERENCES public.products(id) NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_cost DECIMAL(10,2) NOT NULL CHECK (unit_cost >= 0)
+);
+
+CREATE INDEX idx_goods_received_items_note_id ON public.goods_received_items(goods_received_note_id);
+
+CREATE TYPE public.invoice_match_status AS ENUM ('matched', 'mismatched', 'approved');
+
+CREATE TABLE public.supplier_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE NOT NULL,
+  supplier_id UUID REFERENCES public.suppliers(id) NOT NULL,
+  purchase_order_id UUID REFERENCES public.purchase_orders(id) NOT NULL,
+  invoice_number TEXT NOT NULL CHECK (length(trim(invoice_number)) > 0),
+  invoice_date DATE NOT NULL,
+  total_amount DECIMAL(10,2) NOT NULL,
+  match_status invoice_match_status NOT NULL,
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- A manager accepting an invoice that does not match
+  approved_by UUID REFERENCES public.profiles(id),
+  approved_at TIMESTAMPTZ,
+  UNIQUE (supplier_id, invoice_number)
+);
+
+CREATE INDEX idx_supplier_invoices_purchase_order_id ON public.supplier_invoices(purchase_order_id);
+
+-- What was invoiced, next to what had been received and not yet invoiced and
+-- the agreed cost when the invoice was recorded
+CREATE TABLE public.supplier_invoice_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_invoice_id UUID REFERENCES public.supplier_invoices(id) ON DELETE CASCADE NOT NULL,
+  purchase_order_item_id UUID REFERENCES public.purchase_order_items(id) NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity >= 0),
+  unit_cost DECIMAL(10,2) NOT NULL CHECK (unit_cost >= 0),
+  expected_quantity INTEGER NOT NULL,
+  expected_unit_cost DECIMAL(10,2) NOT NULL,
+  matched BOOLEAN GENERATED ALWAYS AS (quantity = expected_quantity AND unit_cost = expected_unit_cost) STORED
+);
+
+CREATE INDEX idx_supplier_invoice_items_invoice_id ON public.supplier_invoice_items(supplier_invoice_id);
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goods_received_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.goods_received_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.supplier_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.supplier_invoice_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view store purchase orders"
+  ON public.purchase_orders FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Users can view store purchase order items"
+  ON public.purchase_order_items FOR SELECT
+  USING (
+    purchase_order_id IN (
+      SELECT id FROM public.purchase_orders
+      WHERE store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can view store goods received notes"
+  ON public.goods_received_notes FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Users can view store goods received items"
+  ON public.goods_received_items FOR SELECT
+  USING (
+    goods_received_note_id IN (
+      SELECT id FROM public.goods_received_notes
+      WHERE store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can view store supplier invoices"
+  ON public.supplier_invoices FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Users can view store supplier invoice items"
+  ON public.supplier_invoice_items FOR SELECT
+  USING (
+    supplier_invoice_id IN (
+      SELECT id FROM public.supplier_invoices
+      WHERE store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    )
+  );
+
+-- Purchase orders and GRNs are numbered store-wide, e.g. PO-MAMA-000012
+ALTER TABLE public.document_counters
+  DROP CONSTRAINT document_counters_series_check,
+  ADD CONSTRAINT document_counters_series_check
+    CHECK (series IN ('receipt', 'credit_note', 'purchase_order', 'goods_received'));
+
+CREATE OR REPLACE FUNCTION public.next_document_number(_store_id UUID, _series TEXT, _till_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.store_settings;
+  _till_code TEXT;
+  _scope TEXT := '';
+  _number BIGINT;
+  _local TIMESTAMP;
+  _result TEXT;
+BEGIN
+  SELECT * INTO _settings FROM public.store_settings WHERE store_id = _store_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Store % has no settings', _store_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT code INTO _till_code FROM public.tills WHERE id = _till_id AND store_id = _store_id;
+
+  _result := CASE _series
+    WHEN 'receipt' THEN _settings.receipt_number_format
+    WHEN 'credit_note' THEN _settings.credit_note_number_format
+    WHEN 'purchase_order' THEN 'PO-{store}-{seq}'
+    WHEN 'goods_received' THEN 'GRN-{store}-{seq}'
+  END;
+  IF _result IS NULL THEN
+    RAISE EXCEPTION 'Unknown document series %', _series USING ERRCODE = '22023';
+  END IF;
+
+  IF _result LIKE '%{till}%' THEN
+    IF _till_code IS NULL THEN
+      RAISE EXCEPTION 'A till is required to number this document' USING ERRCODE = '22023';
+    END IF;
+    _scope := _till_code;
+  END IF;
+
+  INSERT INTO public.document_counters AS c (store_id, series, scope, last_number)
+  VALUES (_store_id, _series, _scope, 1)
+  ON CONFLICT (store_id, series, scope)
+  DO UPDATE SET last_number = c.last_number + 1, updated_at = now()
+  RETURNING last_number INTO _number;
+
+  _local := now() AT TIME ZONE _settings.timezone;
+
+  _result := replace(_result, '{store}', _settings.store_code);
+  _result := replace(_result, '{till}', COALESCE(_till_code, ''));
+  _result := replace(_result, '{seq}', lpad(_number::TEXT, _settings.document_number_digits, '0'));
+  _result := replace(_result, '{prefix}', _settings.receipt_prefix);
+  _result := replace(_result, '{yyyy}', to_char(_local, 'YYYY'));
+  _result := replace(_result, '{mm}', to_char(_local, 'MM'));
+  _result := replace(_result, '{dd}', to_char(_local, 'DD'));
+
+  RETURN _result;
+END;
+$$;
+
+-- Creates a draft, or replaces the lines and details of an existing one.
+-- _items: [{ "product_id": uuid, "quantity": int, "unit_cost": number }]
+CREATE OR REPLACE FUNCTION public.save_purchase_order(
+  _supplier_id UUID,
+  _items JSONB,
+  _purchase_order_id UUID DEFAULT NULL,
+  _expected_at DATE DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.purchase_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.purchase_orders;
+  _supplier public.suppliers;
+  _item JSONB;
+  _quantity INTEGER;
+  _unit_cost DECIMAL(10,2);
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers and admins can manage purchase orders' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _supplier FROM public.suppliers
+  WHERE id = _supplier_id
+    AND store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid());
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Supplier % not found', _supplier_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one product to the order' USING ERRCODE = '22023';
+  END IF;
+
+  IF _purchase_order_id IS NULL THEN
+    INSERT INTO public.purchase_orders (store_id, supplier_id, po_number, expected_at, notes, created_by)
+    VALUES (
+      _supplier.store_id, _supplier_id,
+      public.next_document_number(_supplier.store_id, 'purchase_order', NULL),
+      _expected_at, NULLIF(trim(_notes), ''), auth.uid()
+    )
+    RETURNING * INTO _order;
+  ELSE
+    SELECT * INTO _order FROM public.purchase_orders
+    WHERE id = _purchase_order_id AND store_id = _supplier.store_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order % not found', _purchase_order_id USING ERRCODE = 'P0002';
+    END IF;
+    IF _order.status <> 'draft' THEN
+      RAISE EXCEPTION '% has been sent and can no longer be edited', _order.po_number USING ERRCODE = '22023';
+    END IF;
+
+    DELETE FROM public.purchase_order_items WHERE purchase_order_id = _order.id;
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := (_item->>'quantity')::INTEGER;
+    _unit_cost := round((_item->>'unit_cost')::DECIMAL, 2);
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantities must be above zero' USING ERRCODE = '22023';
+    END IF;
+    IF _unit_cost IS NULL OR _unit_cost < 0 THEN
+      RAISE EXCEPTION 'Unit costs cannot be negative' USING ERRCODE = '22023';
+    END IF;
+    IF NOT EXISTS (
+      SELECT 1 FROM public.products
+      WHERE id = (_item->>'product_id')::UUID AND store_id = _order.store_id
+    ) THEN
+      RAISE EXCEPTION 'Product % not found', _item->>'product_id' USING ERRCODE = 'P0002';
+    END IF;
+
+    INSERT INTO public.purchase_order_items (purchase_order_id, product_id, quantity, unit_cost)
+    VALUES (_order.id, (_item->>'product_id')::UUID, _quantity, _unit_cost);
+  END LOOP;
+
+  UPDATE public.purchase_orders
+  SET supplier_id = _supplier_id,
+      expected_at = _expected_at,
+      notes = NULLIF(trim(_notes), ''),
+      total_amount = (
+        SELECT COALESCE(sum(quantity * unit_cost), 0)
+        FROM public.purchase_order_items
+        WHERE purchase_order_id = _order.id
+      )
+  WHERE id = _order.id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$;
+
+-- Drafts are sent or cancelled; an order that is partly received can be
+-- closed as received when the rest will not come
+CREATE OR REPLACE FUNCTION public.set_purchase_order_status(_purchase_order_id UUID, _status purchase_order_status)
+RETURNS public.purchase_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.purchase_orders;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers and admins can manage purchase orders' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _order FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+    AND store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % not found', _purchase_order_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT (
+    (_order.status = 'draft' AND _status IN ('sent', 'cancelled'))
+    OR (_order.status = 'sent' AND _status = 'cancelled')
+    OR (_order.status = 'partially_received' AND _status = 'received')
+  ) THEN
+    RAISE EXCEPTION '% cannot be marked % while it is %', _order.po_number, _status, _order.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET status = _status,
+      sent_at = CASE WHEN _status = 'sent' THEN now() ELSE sent_at END
+  WHERE id = _purchase_order_id
+  RETURNING * INTO _order;
+
+  RETURN _order;
+END;
+$$;
+
+-- Records a delivery against a sent order. Stock goes up through the ledger
+-- and each product's cost becomes the weighted average of the stock on hand
+-- and the delivery. Negative stock counts as none when averaging.
+-- _items: [{ "purchase_order_item_id": uuid, "quantity": int, "unit_cost": number }],
+-- where unit_cost defaults to the ordered cost
+CREATE OR REPLACE FUNCTION public.receive_goods(
+  _purchase_order_id UUID,
+  _items JSONB,
+  _delivery_reference TEXT DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.goods_received_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.purchase_orders;
+  _note public.goods_received_notes;
+  _item JSONB;
+  _line public.purchase_order_items;
+  _product public.products;
+  _quantity INTEGER;
+  _unit_cost DECIMAL(10,2);
+  _on_hand INTEGER;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers and admins can receive goods' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _order FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+    AND store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % not found', _purchase_order_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _order.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Goods can only be received against a sent order' USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Enter the quantity received for at least one product' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.goods_received_notes (
+    store_id, purchase_order_id, grn_number, delivery_reference, notes, received_by
+  )
+  VALUES (
+    _order.store_id, _order.id,
+    public.next_document_number(_order.store_id, 'goods_received', NULL),
+    NULLIF(trim(_delivery_reference), ''), NULLIF(trim(_notes), ''), auth.uid()
+  )
+  RETURNING * INTO _note;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    SELECT * INTO _line FROM public.purchase_order_items
+    WHERE id = (_item->>'purchase_order_item_id')::UUID AND purchase_order_id = _order.id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line % is not on %', _item->>'purchase_order_item_id', _order.po_number
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    _quantity := (_item->>'quantity')::INTEGER;
+    _unit_cost := round(COALESCE((_item->>'unit_cost')::DECIMAL, _line.unit_cost), 2);
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantities received must be above zero' USING ERRCODE = '22023';
+    END IF;
+    IF _unit_cost < 0 THEN
+      RAISE EXCEPTION 'Unit costs cannot be negative' USING ERRCODE = '22023';
+    END IF;
+    IF _line.received_quantity + _quantity > _line.quantity THEN
+      RAISE EXCEPTION 'More received than ordered (% of %)', _line.received_quantity + _quantity, _line.quantity
+        USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO _product FROM public.products WHERE id = _line.product_id FOR UPDATE;
+
+    _on_hand := GREATEST(_product.stock_quantity, 0);
+    UPDATE public.products
+    SET cost_price = round((_on_hand * cost_price + _quantity * _unit_cost) / (_on_hand + _quantity), 2)
+    WHERE id = _product.id;
+
+    INSERT INTO public.stock_movements (
+      product_id, store_id, movement_type, quantity, reference_type, reference_id, reason, created_by
+    )
+    VALUES (
+      _product.id, _order.store_id, 'receipt', _quantity, 'goods_received_note', _note.id,
+      _note.grn_number, auth.uid()
+    );
+
+    INSERT INTO public.goods_received_items (
+      goods_received_note_id, purchase_order_item_id, product_id, quantity, unit_cost
+    )
+    VALUES (_note.id, _line.id, _product.id, _quantity, _unit_cost);
+
+    UPDATE public.purchase_order_items
+    SET received_quantity = received_quantity + _quantity
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.purchase_orders
+  SET status = CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.purchase_order_items
+      WHERE purchase_order_id = _order.id AND received_quantity < quantity
+    ) THEN 'partially_received'::purchase_order_status
+    ELSE 'received'::purchase_order_status
+  END
+  WHERE id = _order.id;
+
+  RETURN _note;
+END;
+$$;
+
+-- Records a supplier's invoice for an order. Each line is matched against the
+-- quantity received and not yet invoiced, and the cost agreed on the order;
+-- any difference leaves the invoice mismatched until a manager approves it.
+-- _items: [{ "purchase_order_item_id": uuid, "quantity": int, "unit_cost": number }]
+CREATE OR REPLACE FUNCTION public.record_supplier_invoice(
+  _purchase_order_id UUID,
+  _invoice_number TEXT,
+  _invoice_date DATE,
+  _items JSONB,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.supplier_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _order public.purchase_orders;
+  _invoice public.supplier_invoices;
+  _item JSONB;
+  _line public.purchase_order_items;
+  _invoiced INTEGER;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers and admins can record supplier invoices' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _order FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+    AND store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % not found', _purchase_order_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _order.status IN ('draft', 'cancelled') THEN
+    RAISE EXCEPTION 'Invoices can only be recorded against a sent order' USING ERRCODE = '22023';
+  END IF;
+
+  IF COALESCE(trim(_invoice_number), '') = '' OR _invoice_date IS NULL THEN
+    RAISE EXCEPTION 'Enter the invoice number and date' USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Enter at least one invoice line' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.supplier_invoices (
+    store_id, supplier_id, purchase_order_id, invoice_number, invoice_date, total_amount,
+    match_status, notes, created_by
+  )
+  VALUES (
+    _order.store_id, _order.supplier_id, _order.id, trim(_invoice_number), _invoice_date, 0,
+    'matched', NULLIF(trim(_notes), ''), auth.uid()
+  )
+  RETURNING * INTO _invoice;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    SELECT * INTO _line FROM public.purchase_order_items
+    WHERE id = (_item->>'purchase_order_item_id')::UUID AND purchase_order_id = _order.id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line % is not on %', _item->>'purchase_order_item_id', _order.po_number
+        USING ERRCODE = 'P0002';
+    END IF;
+
+    IF (_item->>'quantity')::INTEGER < 0 OR (_item->>'unit_cost')::DECIMAL < 0 THEN
+      RAISE EXCEPTION 'Invoice quantities and costs cannot be negative' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT COALESCE(sum(ii.quantity), 0) INTO _invoiced
+    FROM public.supplier_invoice_items ii
+    WHERE ii.purchase_order_item_id = _line.id;
+
+    INSERT INTO public.supplier_invoice_items (
+      supplier_invoice_id, purchase_order_item_id, quantity, unit_cost, expected_quantity, expected_unit_cost
+    )
+    VALUES (
+      _invoice.id, _line.id, (_item->>'quantity')::INTEGER, round((_item->>'unit_cost')::DECIMAL, 2),
+      GREATEST(_line.received_quantity - _invoiced, 0), _line.unit_cost
+    );
+  END LOOP;
+
+  UPDATE public.supplier_invoices
+  SET total_amount = (
+        SELECT COALESCE(sum(quantity * unit_cost), 0)
+        FROM public.supplier_invoice_items
+        WHERE supplier_invoice_id = _invoice.id
+      ),
+      match_status = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM public.supplier_invoice_items
+          WHERE supplier_invoice_id = _invoice.id AND NOT matched
+        ) THEN 'mismatched'::invoice_match_status
+        ELSE 'matched'::invoice_match_status
+      END
+  WHERE id = _invoice.id
+  RETURNING * INTO _invoice;
+
+  RETURN _invoice;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.approve_supplier_invoice(_supplier_invoice_id UUID)
+RETURNS public.supplier_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invoice public.supplier_invoices;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers and admins can approve supplier invoices' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.supplier_invoices
+  SET match_status = 'approved',
+      approved_by = auth.uid(),
+      approved_at = now()
+  WHERE id = _supplier_invoice_id
+    AND match_status = 'mismatched'
+    AND store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  RETURNING * INTO _invoice;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No mismatched invoice % to approve', _supplier_invoice_id USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN _invoice;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_purchase_order(UUID, JSONB, UUID, DATE, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_purchase_order_status(UUID, purchase_order_status) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.receive_goods(UUID, JSONB, TEXT, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.record_supplier_invoice(UUID, TEXT, DATE, JSONB, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.approve_supplier_invoice(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.save_purchase_order(UUID, JSONB, UUID, DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_purchase_order_status(UUID, purchase_order_status) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.receive_goods(UUID, JSONB, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_supplier_invoice(UUID, TEXT, DATE, JSONB, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_supplier_invoice(UUID) TO authenticated;
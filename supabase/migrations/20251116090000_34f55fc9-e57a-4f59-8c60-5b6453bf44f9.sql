@@ -0,0 +1,148 @@
+-- Reorder planning. Each product can name the supplier it is usually bought
+-- from, and each supplier how many days it takes to deliver. Sales velocity
+-- comes from the store's recent completed sales.
+
+ALTER TABLE public.suppliers
+  ADD COLUMN lead_time_days INTEGER NOT NULL DEFAULT 7 CHECK (lead_time_days BETWEEN 0 AND 365);
+
+ALTER TABLE public.products
+  ADD COLUMN supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_products_supplier_id ON public.products(supplier_id);
+
+-- How many days of sales to average over, and how many days of stock an order
+-- should cover once it arrives
+ALTER TABLE public.store_settings
+  ADD COLUMN reorder_sales_days INTEGER NOT NULL DEFAULT 30 CHECK (reorder_sales_days BETWEEN 7 AND 365),
+  ADD COLUMN reorder_cover_days INTEGER NOT NULL DEFAULT 14 CHECK (reorder_cover_days BETWEEN 1 AND 180);
+
+-- One row per active product. The suggested quantity brings stock, once the
+-- order arrives after the supplier's lead time, back up to the reorder level
+-- plus the cover days' worth of sales, allowing for what is already on order.
+CREATE VIEW public.reorder_suggestions
+WITH (security_invoker = true) AS
+WITH sold AS (
+  SELECT si.product_id, SUM(si.quantity)::INTEGER AS units_sold
+  FROM public.sale_items si
+  JOIN public.sales s ON s.id = si.sale_id
+  JOIN public.store_settings ss ON ss.store_id = s.store_id
+  WHERE s.status = 'completed'
+    AND s.created_at >= now() - make_interval(days => ss.reorder_sales_days)
+  GROUP BY si.product_id
+),
+on_order AS (
+  SELECT poi.product_id, SUM(poi.quantity - poi.received_quantity)::INTEGER AS quantity
+  FROM public.purchase_order_items poi
+  JOIN public.purchase_orders po ON po.id = poi.purchase_order_id
+  WHERE po.status IN ('draft', 'sent', 'partially_received')
+  GROUP BY poi.product_id
+),
+velocity AS (
+  SELECT
+    p.id AS product_id,
+    p.store_id,
+    p.name,
+    p.sku,
+    p.stock_quantity,
+    COALESCE(p.reorder_level, ss.default_reorder_level) AS reorder_level,
+    p.cost_price,
+    p.supplier_id,
+    sup.name AS supplier_name,
+    COALESCE(sup.lead_time_days, 0) AS lead_time_days,
+    ss.reorder_cover_days AS cover_days,
+    COALESCE(sold.units_sold, 0) AS units_sold,
+    COALESCE(sold.units_sold, 0)::DECIMAL / ss.reorder_sales_days AS average_daily_sales,
+    COALESCE(on_order.quantity, 0) AS on_order
+  FROM public.products p
+  JOIN public.store_settings ss ON ss.store_id = p.store_id
+  LEFT JOIN public.suppliers sup ON sup.id = p.supplier_id
+  LEFT JOIN sold ON sold.product_id = p.id
+  LEFT JOIN on_order ON on_order.product_id = p.id
+  WHERE p.active IS NOT FALSE
+)
+SELECT
+  product_id,
+  store_id,
+  name,
+  sku,
+  stock_quantity,
+  reorder_level,
+  cost_price,
+  supplier_id,
+  supplier_name,
+  lead_time_days,
+  units_sold,
+  round(average_daily_sales, 2) AS average_daily_sales,
+  -- NULL when nothing has sold, as the stock would last indefinitely
+  CASE
+    WHEN average_daily_sales > 0 THEN round(GREATEST(stock_quantity, 0) / average_daily_sales, 1)
+  END AS days_of_cover,
+  on_order,
+  GREATEST(
+    ceil(average_daily_sales * (lead_time_days + cover_days))::INTEGER
+      + reorder_level - GREATEST(stock_quantity, 0) - on_order,
+    0
+  ) AS suggested_quantity,
+  (
+    stock_quantity <= reorder_level
+    OR (average_daily_sales > 0 AND GREATEST(stock_quantity, 0) / average_daily_sales <= lead_time_days)
+  ) AS needs_reorder
+FROM velocity;
+
+-- Turns reorder suggestions into draft purchase orders, one per supplier,
+-- expected after that supplier's lead time.
+-- _items: [{ "product_id": uuid, "supplier_id": uuid, "quantity": int, "unit_cost": number }]
+CREATE OR REPLACE FUNCTION public.create_reorder_purchase_orders(_items JSONB)
+RETURNS SETOF public.purchase_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _supplier public.suppliers;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers and admins can manage purchase orders' USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one product to order' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM jsonb_array_elements(_items) i WHERE COALESCE(i->>'supplier_id', '') = '') THEN
+    RAISE EXCEPTION 'Choose a supplier for every product' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_items) i
+    WHERE NOT EXISTS (SELECT 1 FROM public.suppliers s WHERE s.id = (i->>'supplier_id')::UUID)
+  ) THEN
+    RAISE EXCEPTION 'Supplier not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR _supplier IN
+    SELECT s.* FROM public.suppliers s
+    WHERE s.id IN (SELECT DISTINCT (i->>'supplier_id')::UUID FROM jsonb_array_elements(_items) i)
+    ORDER BY s.name
+  LOOP
+    RETURN NEXT public.save_purchase_order(
+      _supplier.id,
+      (
+        SELECT jsonb_agg(jsonb_build_object(
+          'product_id', i->>'product_id',
+          'quantity', i->'quantity',
+          'unit_cost', i->'unit_cost'
+        ))
+        FROM jsonb_array_elements(_items) i
+        WHERE (i->>'supplier_id')::UUID = _supplier.id
+      ),
+      NULL,
+      current_date + _supplier.lead_time_days,
+      'Raised from reorder suggestions'
+    );
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_reorder_purchase_orders(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.create_reorder_purchase_orders(JSONB) TO authenticated;
@@ -0,0 +1,332 @@
+-- Stocktakes. Starting one snapshots the expected quantity and cost of every
+-- active product in scope, the whole store or one category. Staff enter or
+-- scan what is on the shelves; once a manager approves the count, each
+-- difference is posted to the stock ledger as a 'stocktake' movement.
+--
+-- Differences are applied on top of current stock rather than overwriting it,
+-- so sales rung up while the count is under way are not lost.
+
+CREATE TYPE public.stocktake_status AS ENUM ('counting', 'submitted', 'approved', 'cancelled');
+
+CREATE TABLE public.stocktakes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE NOT NULL,
+  stocktake_number TEXT NOT NULL,
+  -- NULL for a full stocktake
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  status stocktake_status NOT NULL DEFAULT 'counting',
+  notes TEXT,
+  started_by UUID REFERENCES public.profiles(id),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  submitted_by UUID REFERENCES public.profiles(id),
+  submitted_at TIMESTAMPTZ,
+  approved_by UUID REFERENCES public.profiles(id),
+  approved_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (store_id, stocktake_number)
+);
+
+CREATE INDEX idx_stocktakes_store_id ON public.stocktakes(store_id, started_at DESC);
+
+-- One count at a time per store, so no product is counted twice over
+CREATE UNIQUE INDEX idx_stocktakes_one_open_per_store
+  ON public.stocktakes(store_id) WHERE status IN ('counting', 'submitted');
+
+CREATE TRIGGER update_stocktakes_updated_at BEFORE UPDATE ON public.stocktakes
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.stocktake_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stocktake_id UUID REFERENCES public.stocktakes(id) ON DELETE CASCADE NOT NULL,
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE NOT NULL,
+  expected_quantity INTEGER NOT NULL,
+  cost_price DECIMAL(10,2) NOT NULL,
+  -- NULL until counted; uncounted products are left as they are
+  counted_quantity INTEGER CHECK (counted_quantity >= 0),
+  variance INTEGER GENERATED ALWAYS AS (counted_quantity - expected_quantity) STORED,
+  counted_by UUID REFERENCES public.profiles(id),
+  counted_at TIMESTAMPTZ,
+  UNIQUE (stocktake_id, product_id)
+);
+
+ALTER TABLE public.stocktakes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stocktake_items ENABLE ROW LEVEL SECURITY;
+
+-- Written through the functions below
+CREATE POLICY "Users can view store stocktakes"
+  ON public.stocktakes FOR SELECT
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Users can view store stocktake items"
+  ON public.stocktake_items FOR SELECT
+  USING (
+    stocktake_id IN (
+      SELECT id FROM public.stocktakes
+      WHERE store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    )
+  );
+
+-- Stocktakes are numbered store-wide, e.g. ST-MAMA-000003
+ALTER TABLE public.document_counters
+  DROP CONSTRAINT document_counters_series_check,
+  ADD CONSTRAINT document_counters_series_check
+    CHECK (series IN ('receipt', 'credit_note', 'purchase_order', 'goods_received', 'stocktake'));
+
+CREATE OR REPLACE FUNCTION public.next_document_number(_store_id UUID, _series TEXT, _till_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.store_settings;
+  _till_code TEXT;
+  _scope TEXT := '';
+  _number BIGINT;
+  _local TIMESTAMP;
+  _result TEXT;
+BEGIN
+  SELECT * INTO _settings FROM public.store_settings WHERE store_id = _store_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Store % has no settings', _store_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT code INTO _till_code FROM public.tills WHERE id = _till_id AND store_id = _store_id;
+
+  _result := CASE _series
+    WHEN 'receipt' THEN _settings.receipt_number_format
+    WHEN 'credit_note' THEN _settings.credit_note_number_format
+    WHEN 'purchase_order' THEN 'PO-{store}-{seq}'
+    WHEN 'goods_received' THEN 'GRN-{store}-{seq}'
+    WHEN 'stocktake' THEN 'ST-{store}-{seq}'
+  END;
+  IF _result IS NULL THEN
+    RAISE EXCEPTION 'Unknown document series %', _series USING ERRCODE = '22023';
+  END IF;
+
+  IF _result LIKE '%{till}%' THEN
+    IF _till_code IS NULL THEN
+      RAISE EXCEPTION 'A till is required to number this document' USING ERRCODE = '22023';
+    END IF;
+    _scope := _till_code;
+  END IF;
+
+  INSERT INTO public.document_counters AS c (store_id, series, scope, last_number)
+  VALUES (_store_id, _series, _scope, 1)
+  ON CONFLICT (store_id, series, scope)
+  DO UPDATE SET last_number = c.last_number + 1, updated_at = now()
+  RETURNING last_number INTO _number;
+
+  _local := now() AT TIME ZONE _settings.timezone;
+
+  _result := replace(_result, '{store}', _settings.store_code);
+  _result := replace(_result, '{till}', COALESCE(_till_code, ''));
+  _result := replace(_result, '{seq}', lpad(_number::TEXT, _settings.document_number_digits, '0'));
+  _result := replace(_result, '{prefix}', _settings.receipt_prefix);
+  _result := replace(_result, '{yyyy}', to_char(_local, 'YYYY'));
+  _result := replace(_result, '{mm}', to_char(_local, 'MM'));
+  _result := replace(_result, '{dd}', to_char(_local, 'DD'));
+
+  RETURN _result;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.start_stocktake(_category_id UUID DEFAULT NULL, _notes TEXT DEFAULT NULL)
+RETURNS public.stocktakes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _store_id UUID;
+  _stocktake public.stocktakes;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers and admins can start a stocktake' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT store_id INTO _store_id FROM public.profiles WHERE id = auth.uid();
+  IF _store_id IS NULL THEN
+    RAISE EXCEPTION 'Your account is not assigned to a store' USING ERRCODE = '42501';
+  END IF;
+
+  IF _category_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM public.categories WHERE id = _category_id AND store_id = _store_id) THEN
+    RAISE EXCEPTION 'Category % not found', _category_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.stocktakes WHERE store_id = _store_id AND status IN ('counting', 'submitted')
+  ) THEN
+    RAISE EXCEPTION 'A stocktake is already in progress; finish or cancel it first' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.stocktakes (store_id, stocktake_number, category_id, notes, started_by)
+  VALUES (
+    _store_id, public.next_document_number(_store_id, 'stocktake', NULL), _category_id,
+    NULLIF(trim(_notes), ''), auth.uid()
+  )
+  RETURNING * INTO _stocktake;
+
+  INSERT INTO public.stocktake_items (stocktake_id, product_id, expected_quantity, cost_price)
+  SELECT _stocktake.id, p.id, p.stock_quantity, p.cost_price
+  FROM public.products p
+  WHERE p.store_id = _store_id
+    AND p.active IS NOT FALSE
+    AND (_category_id IS NULL OR p.category_id = _category_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'There are no products to count' USING ERRCODE = '22023';
+  END IF;
+
+  RETURN _stocktake;
+END;
+$$;
+
+-- Sets a product's count, or with _add adds to it, as each scan of a barcode does
+CREATE OR REPLACE FUNCTION public.record_stocktake_count(
+  _stocktake_id UUID,
+  _product_id UUID,
+  _quantity INTEGER,
+  _add BOOLEAN DEFAULT false
+)
+RETURNS public.stocktake_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _stocktake public.stocktakes;
+  _item public.stocktake_items;
+BEGIN
+  SELECT * INTO _stocktake FROM public.stocktakes
+  WHERE id = _stocktake_id
+    AND store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid());
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake % not found', _stocktake_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _stocktake.status <> 'counting' THEN
+    RAISE EXCEPTION '% is no longer being counted', _stocktake.stocktake_number USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.stocktake_items
+  SET counted_quantity = CASE WHEN _add THEN COALESCE(counted_quantity, 0) + _quantity ELSE _quantity END,
+      counted_by = auth.uid(),
+      counted_at = now()
+  WHERE stocktake_id = _stocktake.id AND product_id = _product_id
+  RETURNING * INTO _item;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That product is not part of %', _stocktake.stocktake_number USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN _item;
+END;
+$$;
+
+-- Counting -> submitted by whoever finished counting; submitted or counting ->
+-- cancelled by a manager. Submitted counts can be reopened for a recount.
+CREATE OR REPLACE FUNCTION public.set_stocktake_status(_stocktake_id UUID, _status stocktake_status)
+RETURNS public.stocktakes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _stocktake public.stocktakes;
+  _is_manager BOOLEAN := public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager');
+BEGIN
+  SELECT * INTO _stocktake FROM public.stocktakes
+  WHERE id = _stocktake_id
+    AND store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake % not found', _stocktake_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _status IN ('cancelled', 'counting') AND NOT _is_manager THEN
+    RAISE EXCEPTION 'Only managers and admins can reopen or cancel a stocktake' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT (
+    (_stocktake.status = 'counting' AND _status IN ('submitted', 'cancelled'))
+    OR (_stocktake.status = 'submitted' AND _status IN ('counting', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION '% cannot be marked % while it is %', _stocktake.stocktake_number, _status, _stocktake.status
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF _status = 'submitted' AND NOT EXISTS (
+    SELECT 1 FROM public.stocktake_items WHERE stocktake_id = _stocktake.id AND counted_quantity IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'Count at least one product before submitting' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.stocktakes
+  SET status = _status,
+      submitted_by = CASE WHEN _status = 'submitted' THEN auth.uid() ELSE submitted_by END,
+      submitted_at = CASE WHEN _status = 'submitted' THEN now() ELSE submitted_at END
+  WHERE id = _stocktake.id
+  RETURNING * INTO _stocktake;
+
+  RETURN _stocktake;
+END;
+$$;
+
+-- Posts every counted difference to the ledger and closes the stocktake
+CREATE OR REPLACE FUNCTION public.approve_stocktake(_stocktake_id UUID)
+RETURNS public.stocktakes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _stocktake public.stocktakes;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers and admins can approve a stocktake' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _stocktake FROM public.stocktakes
+  WHERE id = _stocktake_id
+    AND store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake % not found', _stocktake_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _stocktake.status <> 'submitted' THEN
+    RAISE EXCEPTION 'Only a submitted stocktake can be approved' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    product_id, store_id, movement_type, quantity, reference_type, reference_id, reason, created_by
+  )
+  SELECT i.product_id, _stocktake.store_id, 'stocktake', i.variance, 'stocktake', _stocktake.id,
+    _stocktake.stocktake_number, auth.uid()
+  FROM public.stocktake_items i
+  WHERE i.stocktake_id = _stocktake.id AND i.variance <> 0
+  ORDER BY i.product_id;
+
+  UPDATE public.stocktakes
+  SET status = 'approved',
+      approved_by = auth.uid(),
+      approved_at = now()
+  WHERE id = _stocktake.id
+  RETURNING * INTO _stocktake;
+
+  RETURN _stocktake;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.start_stocktake(UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.record_stocktake_count(UUID, UUID, INTEGER, BOOLEAN) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_stocktake_status(UUID, stocktake_status) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.approve_stocktake(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.start_stocktake(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_stocktake_count(UUID, UUID, INTEGER, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_stocktake_status(UUID, stocktake_status) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_stocktake(UUID) TO authenticated;
@@ -0,0 +1,737 @@
+-- Multi-store. Admins already oversee every store; they now move between
+-- them by switching the store on their own profile, and can compare them
+-- side by side through store_summaries.
+--
+-- Products are listed from a master catalogue shared by all stores. Each
+-- store's products row is its listing of a catalogue item and keeps that
+-- store's price, cost, stock and reorder settings; the name, SKU, barcode and
+-- description belong to the catalogue item and are kept the same everywhere.
+-- Stock moves between stores on transfer orders, out of the sending store
+-- when dispatched and into the receiving store when it confirms receipt.
+
+CREATE TABLE public.catalogue_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  sku TEXT,
+  barcode TEXT,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_catalogue_items_updated_at BEFORE UPDATE ON public.catalogue_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.products
+  ADD COLUMN catalogue_item_id UUID REFERENCES public.catalogue_items(id) ON DELETE RESTRICT;
+
+-- Existing products become catalogue items. The same item in different
+-- stores is recognised by its barcode, or failing that its SKU, as long as
+-- no other product in the same store shares it; the most recently edited
+-- product's details are kept for the shared item.
+ALTER TABLE public.catalogue_items ADD COLUMN link_key TEXT;
+
+CREATE TEMPORARY TABLE product_link_keys AS
+SELECT
+  p.id,
+  p.name,
+  p.sku,
+  p.barcode,
+  p.description,
+  p.updated_at,
+  CASE
+    WHEN NULLIF(trim(p.barcode), '') IS NOT NULL
+      AND count(*) OVER (PARTITION BY p.store_id, trim(p.barcode)) = 1
+      THEN 'barcode:' || trim(p.barcode)
+    WHEN NULLIF(trim(p.sku), '') IS NOT NULL
+      AND count(*) OVER (PARTITION BY p.store_id, upper(trim(p.sku))) = 1
+      THEN 'sku:' || upper(trim(p.sku))
+    ELSE 'product:' || p.id
+  END AS link_key
+FROM public.products p;
+
+INSERT INTO public.catalogue_items (name, sku, barcode, description, link_key)
+SELECT DISTINCT ON (link_key) name, sku, barcode, description, link_key
+FROM product_link_keys
+ORDER BY link_key, updated_at DESC;
+
+UPDATE public.products p
+SET catalogue_item_id = c.id,
+    name = c.name,
+    sku = c.sku,
+    barcode = c.barcode,
+    description = c.description
+FROM product_link_keys k
+JOIN public.catalogue_items c ON c.link_key = k.link_key
+WHERE p.id = k.id;
+
+DROP TABLE product_link_keys;
+ALTER TABLE public.catalogue_items DROP COLUMN link_key;
+
+ALTER TABLE public.products ALTER COLUMN catalogue_item_id SET NOT NULL;
+
+-- A store lists each catalogue item once
+CREATE UNIQUE INDEX idx_products_store_catalogue_item ON public.products(store_id, catalogue_item_id);
+CREATE INDEX idx_products_catalogue_item_id ON public.products(catalogue_item_id);
+
+-- Products created in a store without a catalogue item add one; products
+-- listed from the catalogue take its details
+CREATE OR REPLACE FUNCTION public.link_product_to_catalogue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.catalogue_item_id IS NULL THEN
+    INSERT INTO public.catalogue_items (name, sku, barcode, description)
+    VALUES (NEW.name, NEW.sku, NEW.barcode, NEW.description)
+    RETURNING id INTO NEW.catalogue_item_id;
+  ELSE
+    SELECT name, sku, barcode, description
+    INTO NEW.name, NEW.sku, NEW.barcode, NEW.description
+    FROM public.catalogue_items
+    WHERE id = NEW.catalogue_item_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER link_products_to_catalogue BEFORE INSERT ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.link_product_to_catalogue();
+
+-- Editing a product's details in one store edits the catalogue item, which
+-- passes them on to the other stores. The IS DISTINCT FROM checks stop the
+-- two triggers from calling each other again.
+CREATE OR REPLACE FUNCTION public.sync_catalogue_item_from_product()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.catalogue_items
+  SET name = NEW.name,
+      sku = NEW.sku,
+      barcode = NEW.barcode,
+      description = NEW.description
+  WHERE id = NEW.catalogue_item_id
+    AND (name, sku, barcode, description) IS DISTINCT FROM (NEW.name, NEW.sku, NEW.barcode, NEW.description);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_products_to_catalogue
+  AFTER UPDATE OF name, sku, barcode, description ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.sync_catalogue_item_from_product();
+
+CREATE OR REPLACE FUNCTION public.sync_products_from_catalogue_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.products
+  SET name = NEW.name,
+      sku = NEW.sku,
+      barcode = NEW.barcode,
+      description = NEW.description
+  WHERE catalogue_item_id = NEW.id
+    AND (name, sku, barcode, description) IS DISTINCT FROM (NEW.name, NEW.sku, NEW.barcode, NEW.description);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_catalogue_items_to_products AFTER UPDATE ON public.catalogue_items
+  FOR EACH ROW EXECUTE FUNCTION public.sync_products_from_catalogue_item();
+
+ALTER TABLE public.catalogue_items ENABLE ROW LEVEL SECURITY;
+
+-- The catalogue is shared, so every signed-in user may read it; items are
+-- added by the trigger above
+CREATE POLICY "Users can view the catalogue"
+  ON public.catalogue_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update the catalogue"
+  ON public.catalogue_items FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- Managers need the other stores' names to send them stock
+CREATE POLICY "Managers can view all stores"
+  ON public.stores FOR SELECT
+  USING (public.has_role(auth.uid(), 'manager'));
+
+-- Every store's listings of the given catalogue items, for the catalogue page
+CREATE OR REPLACE FUNCTION public.catalogue_listings(_catalogue_item_ids UUID[])
+RETURNS TABLE (
+  catalogue_item_id UUID,
+  store_id UUID,
+  product_id UUID,
+  selling_price NUMERIC,
+  cost_price NUMERIC,
+  stock_quantity INTEGER,
+  active BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view every store''s listings' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.catalogue_item_id, p.store_id, p.id, p.selling_price, p.cost_price, p.stock_quantity, p.active IS NOT FALSE
+  FROM public.products p
+  WHERE p.catalogue_item_id = ANY(_catalogue_item_ids);
+END;
+$$;
+
+-- Sets a store's price for a catalogue item, listing the item in that store
+-- first if it is not sold there yet. New listings start with no stock and
+-- take their cost and VAT rate from the most recently updated listing.
+CREATE OR REPLACE FUNCTION public.set_catalogue_store_price(
+  _catalogue_item_id UUID,
+  _store_id UUID,
+  _selling_price NUMERIC
+)
+RETURNS public.products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item public.catalogue_items;
+  _product public.products;
+  _template public.products;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can set prices across stores' USING ERRCODE = '42501';
+  END IF;
+
+  IF _selling_price IS NULL OR _selling_price < 0 THEN
+    RAISE EXCEPTION 'Price cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _item FROM public.catalogue_items WHERE id = _catalogue_item_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Catalogue item % not found', _catalogue_item_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.stores WHERE id = _store_id) THEN
+    RAISE EXCEPTION 'Store % not found', _store_id USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.products
+  SET selling_price = round(_selling_price, 2),
+      active = true
+  WHERE store_id = _store_id AND catalogue_item_id = _item.id
+  RETURNING * INTO _product;
+
+  IF NOT FOUND THEN
+    SELECT * INTO _template FROM public.products
+    WHERE catalogue_item_id = _item.id
+    ORDER BY updated_at DESC
+    LIMIT 1;
+
+    INSERT INTO public.products (
+      store_id, catalogue_item_id, name, selling_price, cost_price, vat_rate, stock_quantity
+    )
+    VALUES (
+      _store_id, _item.id, _item.name, round(_selling_price, 2),
+      COALESCE(_template.cost_price, 0), COALESCE(_template.vat_rate, 16), 0
+    )
+    RETURNING * INTO _product;
+  END IF;
+
+  RETURN _product;
+END;
+$$;
+
+CREATE TYPE public.stock_transfer_status AS ENUM ('draft', 'dispatched', 'received', 'cancelled');
+
+CREATE TABLE public.stock_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transfer_number TEXT NOT NULL,
+  from_store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE NOT NULL,
+  to_store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE NOT NULL,
+  status stock_transfer_status NOT NULL DEFAULT 'draft',
+  notes TEXT,
+  created_by UUID REFERENCES public.profiles(id),
+  dispatched_by UUID REFERENCES public.profiles(id),
+  dispatched_at TIMESTAMPTZ,
+  received_by UUID REFERENCES public.profiles(id),
+  received_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (from_store_id, transfer_number),
+  CHECK (from_store_id <> to_store_id)
+);
+
+CREATE INDEX idx_stock_transfers_from_store_id ON public.stock_transfers(from_store_id, created_at DESC);
+CREATE INDEX idx_stock_transfers_to_store_id ON public.stock_transfers(to_store_id, created_at DESC);
+
+CREATE TRIGGER update_stock_transfers_updated_at BEFORE UPDATE ON public.stock_transfers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.stock_transfer_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stock_transfer_id UUID REFERENCES public.stock_transfers(id) ON DELETE CASCADE NOT NULL,
+  catalogue_item_id UUID REFERENCES public.catalogue_items(id) NOT NULL,
+  from_product_id UUID REFERENCES public.products(id) NOT NULL,
+  -- Set on receipt, when the item is listed in the receiving store if need be
+  to_product_id UUID REFERENCES public.products(id),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  -- NULL until received; anything short was lost on the way
+  received_quantity INTEGER CHECK (received_quantity BETWEEN 0 AND quantity),
+  UNIQUE (stock_transfer_id, catalogue_item_id)
+);
+
+CREATE INDEX idx_stock_transfer_items_stock_transfer_id ON public.stock_transfer_items(stock_transfer_id);
+
+ALTER TABLE public.stock_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_transfer_items ENABLE ROW LEVEL SECURITY;
+
+-- Both stores can see a transfer. Written through the functions below.
+CREATE POLICY "Users can view store stock transfers"
+  ON public.stock_transfers FOR SELECT
+  USING (
+    from_store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    OR to_store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  );
+
+CREATE POLICY "Users can view store stock transfer items"
+  ON public.stock_transfer_items FOR SELECT
+  USING (
+    stock_transfer_id IN (
+      SELECT id FROM public.stock_transfers
+      WHERE from_store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+        OR to_store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    )
+  );
+
+-- Transfers are numbered by the sending store, e.g. TR-MAMA-000004
+ALTER TABLE public.document_counters
+  DROP CONSTRAINT document_counters_series_check,
+  ADD CONSTRAINT document_counters_series_check
+    CHECK (series IN ('receipt', 'credit_note', 'purchase_order', 'goods_received', 'stocktake', 'stock_transfer'));
+
+CREATE OR REPLACE FUNCTION public.next_document_number(_store_id UUID, _series TEXT, _till_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.store_settings;
+  _till_code TEXT;
+  _scope TEXT := '';
+  _number BIGINT;
+  _local TIMESTAMP;
+  _result TEXT;
+BEGIN
+  SELECT * INTO _settings FROM public.store_settings WHERE store_id = _store_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Store % has no settings', _store_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT code INTO _till_code FROM public.tills WHERE id = _till_id AND store_id = _store_id;
+
+  _result := CASE _series
+    WHEN 'receipt' THEN _settings.receipt_number_format
+    WHEN 'credit_note' THEN _settings.credit_note_number_format
+    WHEN 'purchase_order' THEN 'PO-{store}-{seq}'
+    WHEN 'goods_received' THEN 'GRN-{store}-{seq}'
+    WHEN 'stocktake' THEN 'ST-{store}-{seq}'
+    WHEN 'stock_transfer' THEN 'TR-{store}-{seq}'
+  END;
+  IF _result IS NULL THEN
+    RAISE EXCEPTION 'Unknown document series %', _series USING ERRCODE = '22023';
+  END IF;
+
+  IF _result LIKE '%{till}%' THEN
+    IF _till_code IS NULL THEN
+      RAISE EXCEPTION 'A till is required to number this document' USING ERRCODE = '22023';
+    END IF;
+    _scope := _till_code;
+  END IF;
+
+  INSERT INTO public.document_counters AS c (store_id, series, scope, last_number)
+  VALUES (_store_id, _series, _scope, 1)
+  ON CONFLICT (store_id, series, scope)
+  DO UPDATE SET last_number = c.last_number + 1, updated_at = now()
+  RETURNING last_number INTO _number;
+
+  _local := now() AT TIME ZONE _settings.timezone;
+
+  _result := replace(_result, '{store}', _settings.store_code);
+  _result := replace(_result, '{till}', COALESCE(_till_code, ''));
+  _result := replace(_result, '{seq}', lpad(_number::TEXT, _settings.document_number_digits, '0'));
+  _result := replace(_result, '{prefix}', _settings.receipt_prefix);
+  _result := replace(_result, '{yyyy}', to_char(_local, 'YYYY'));
+  _result := replace(_result, '{mm}', to_char(_local, 'MM'));
+  _result := replace(_result, '{dd}', to_char(_local, 'DD'));
+
+  RETURN _result;
+END;
+$$;
+
+-- Creates a draft transfer out of the user's store, or replaces the lines
+-- and details of an existing draft.
+-- _items: [{ "product_id": uuid, "quantity": int }]
+CREATE OR REPLACE FUNCTION public.save_stock_transfer(
+  _to_store_id UUID,
+  _items JSONB,
+  _stock_transfer_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.stock_transfers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _store_id UUID;
+  _transfer public.stock_transfers;
+  _item JSONB;
+  _quantity INTEGER;
+  _product public.products;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers and admins can manage stock transfers' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT store_id INTO _store_id FROM public.profiles WHERE id = auth.uid();
+  IF _store_id IS NULL THEN
+    RAISE EXCEPTION 'Your account is not assigned to a store' USING ERRCODE = '42501';
+  END IF;
+
+  IF _to_store_id = _store_id THEN
+    RAISE EXCEPTION 'Choose another store to send the stock to' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.stores WHERE id = _to_store_id AND active IS NOT FALSE) THEN
+    RAISE EXCEPTION 'Store % not found', _to_store_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one product to the transfer' USING ERRCODE = '22023';
+  END IF;
+
+  IF _stock_transfer_id IS NULL THEN
+    INSERT INTO public.stock_transfers (transfer_number, from_store_id, to_store_id, notes, created_by)
+    VALUES (
+      public.next_document_number(_store_id, 'stock_transfer', NULL), _store_id, _to_store_id,
+      NULLIF(trim(_notes), ''), auth.uid()
+    )
+    RETURNING * INTO _transfer;
+  ELSE
+    SELECT * INTO _transfer FROM public.stock_transfers
+    WHERE id = _stock_transfer_id AND from_store_id = _store_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Stock transfer % not found', _stock_transfer_id USING ERRCODE = 'P0002';
+    END IF;
+    IF _transfer.status <> 'draft' THEN
+      RAISE EXCEPTION '% has been dispatched and can no longer be edited', _transfer.transfer_number
+        USING ERRCODE = '22023';
+    END IF;
+
+    DELETE FROM public.stock_transfer_items WHERE stock_transfer_id = _transfer.id;
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := (_item->>'quantity')::INTEGER;
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantities must be above zero' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO _product FROM public.products
+    WHERE id = (_item->>'product_id')::UUID AND store_id = _store_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % not found', _item->>'product_id' USING ERRCODE = 'P0002';
+    END IF;
+
+    INSERT INTO public.stock_transfer_items (stock_transfer_id, catalogue_item_id, from_product_id, quantity)
+    VALUES (_transfer.id, _product.catalogue_item_id, _product.id, _quantity);
+  END LOOP;
+
+  UPDATE public.stock_transfers
+  SET to_store_id = _to_store_id,
+      notes = NULLIF(trim(_notes), '')
+  WHERE id = _transfer.id
+  RETURNING * INTO _transfer;
+
+  RETURN _transfer;
+END;
+$$;
+
+-- Takes the stock out of the sending store. Stock cannot go below zero.
+CREATE OR REPLACE FUNCTION public.dispatch_stock_transfer(_stock_transfer_id UUID)
+RETURNS public.stock_transfers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transfer public.stock_transfers;
+  _line public.stock_transfer_items;
+  _movement public.stock_movements;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers and admins can manage stock transfers' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _transfer FROM public.stock_transfers
+  WHERE id = _stock_transfer_id
+    AND from_store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock transfer % not found', _stock_transfer_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _transfer.status <> 'draft' THEN
+    RAISE EXCEPTION '% has already been dispatched', _transfer.transfer_number USING ERRCODE = '22023';
+  END IF;
+
+  FOR _line IN
+    SELECT * FROM public.stock_transfer_items WHERE stock_transfer_id = _transfer.id ORDER BY from_product_id
+  LOOP
+    INSERT INTO public.stock_movements (
+      product_id, store_id, movement_type, quantity, reference_type, reference_id, reason, created_by
+    )
+    VALUES (
+      _line.from_product_id, _transfer.from_store_id, 'transfer', -_line.quantity, 'stock_transfer', _transfer.id,
+      _transfer.transfer_number, auth.uid()
+    )
+    RETURNING * INTO _movement;
+
+    IF _movement.balance_after < 0 THEN
+      RAISE EXCEPTION 'Not enough stock of % to send % (% on hand)',
+        (SELECT name FROM public.products WHERE id = _line.from_product_id),
+        _line.quantity, _movement.balance_after + _line.quantity
+        USING ERRCODE = 'P0001';
+    END IF;
+  END LOOP;
+
+  UPDATE public.stock_transfers
+  SET status = 'dispatched',
+      dispatched_by = auth.uid(),
+      dispatched_at = now()
+  WHERE id = _transfer.id
+  RETURNING * INTO _transfer;
+
+  RETURN _transfer;
+END;
+$$;
+
+-- Confirms what arrived and adds it to the receiving store's stock, listing
+-- items it does not sell yet at the sending store's price and cost.
+-- _items: [{ "stock_transfer_item_id": uuid, "quantity": int }]; lines left
+-- out are taken as having arrived in full
+CREATE OR REPLACE FUNCTION public.receive_stock_transfer(_stock_transfer_id UUID, _items JSONB DEFAULT '[]')
+RETURNS public.stock_transfers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transfer public.stock_transfers;
+  _line public.stock_transfer_items;
+  _quantity INTEGER;
+  _to_product_id UUID;
+  _source public.products;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers and admins can manage stock transfers' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _transfer FROM public.stock_transfers
+  WHERE id = _stock_transfer_id
+    AND to_store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock transfer % not found', _stock_transfer_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _transfer.status <> 'dispatched' THEN
+    RAISE EXCEPTION '% is not on its way', _transfer.transfer_number USING ERRCODE = '22023';
+  END IF;
+
+  IF jsonb_typeof(_items) <> 'array' THEN
+    RAISE EXCEPTION 'Items must be a list' USING ERRCODE = '22023';
+  END IF;
+
+  FOR _line IN
+    SELECT * FROM public.stock_transfer_items WHERE stock_transfer_id = _transfer.id ORDER BY from_product_id
+  LOOP
+    SELECT COALESCE((
+      SELECT (i->>'quantity')::INTEGER FROM jsonb_array_elements(_items) i
+      WHERE (i->>'stock_transfer_item_id')::UUID = _line.id
+    ), _line.quantity) INTO _quantity;
+
+    IF _quantity < 0 OR _quantity > _line.quantity THEN
+      RAISE EXCEPTION 'Received quantities must be between 0 and what was sent' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT id INTO _to_product_id FROM public.products
+    WHERE store_id = _transfer.to_store_id AND catalogue_item_id = _line.catalogue_item_id;
+
+    IF _to_product_id IS NULL THEN
+      SELECT * INTO _source FROM public.products WHERE id = _line.from_product_id;
+      INSERT INTO public.products (
+        store_id, catalogue_item_id, name, selling_price, cost_price, vat_rate, reorder_level, stock_quantity
+      )
+      VALUES (
+        _transfer.to_store_id, _line.catalogue_item_id, _source.name, _source.selling_price, _source.cost_price,
+        _source.vat_rate, _source.reorder_level, 0
+      )
+      RETURNING id INTO _to_product_id;
+    END IF;
+
+    IF _quantity > 0 THEN
+      INSERT INTO public.stock_movements (
+        product_id, store_id, movement_type, quantity, reference_type, reference_id, reason, created_by
+      )
+      VALUES (
+        _to_product_id, _transfer.to_store_id, 'transfer', _quantity, 'stock_transfer', _transfer.id,
+        _transfer.transfer_number, auth.uid()
+      );
+    END IF;
+
+    UPDATE public.stock_transfer_items
+    SET to_product_id = _to_product_id,
+        received_quantity = _quantity
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.stock_transfers
+  SET status = 'received',
+      received_by = auth.uid(),
+      received_at = now()
+  WHERE id = _transfer.id
+  RETURNING * INTO _transfer;
+
+  RETURN _transfer;
+END;
+$$;
+
+-- Only drafts can be cancelled; dispatched stock has already left the store
+CREATE OR REPLACE FUNCTION public.cancel_stock_transfer(_stock_transfer_id UUID)
+RETURNS public.stock_transfers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transfer public.stock_transfers;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers and admins can manage stock transfers' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO _transfer FROM public.stock_transfers
+  WHERE id = _stock_transfer_id
+    AND from_store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock transfer % not found', _stock_transfer_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _transfer.status <> 'draft' THEN
+    RAISE EXCEPTION '% has been dispatched and can no longer be cancelled', _transfer.transfer_number
+      USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.stock_transfers SET status = 'cancelled' WHERE id = _transfer.id RETURNING * INTO _transfer;
+
+  RETURN _transfer;
+END;
+$$;
+
+-- Sales and stock per store, for comparing stores and adding them up
+CREATE OR REPLACE FUNCTION public.store_summaries(_from TIMESTAMPTZ, _to TIMESTAMPTZ DEFAULT now())
+RETURNS TABLE (
+  store_id UUID,
+  store_name TEXT,
+  active BOOLEAN,
+  sales_count INTEGER,
+  sales_total NUMERIC,
+  stock_units INTEGER,
+  stock_value NUMERIC,
+  low_stock_count INTEGER,
+  transfers_in_transit INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can compare stores' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH sold AS (
+    SELECT sl.store_id, count(*)::INTEGER AS sales_count, sum(sl.total_amount) AS sales_total
+    FROM public.sales sl
+    WHERE sl.status = 'completed' AND sl.created_at >= _from AND sl.created_at < _to
+    GROUP BY sl.store_id
+  ),
+  stock AS (
+    SELECT
+      p.store_id,
+      sum(GREATEST(p.stock_quantity, 0))::INTEGER AS units,
+      sum(GREATEST(p.stock_quantity, 0) * p.cost_price) AS value,
+      (count(*) FILTER (WHERE p.stock_quantity <= COALESCE(p.reorder_level, ss.default_reorder_level)))::INTEGER AS low
+    FROM public.products p
+    JOIN public.store_settings ss ON ss.store_id = p.store_id
+    WHERE p.active IS NOT FALSE
+    GROUP BY p.store_id
+  ),
+  in_transit AS (
+    SELECT t.to_store_id, count(*)::INTEGER AS transfers
+    FROM public.stock_transfers t
+    WHERE t.status = 'dispatched'
+    GROUP BY t.to_store_id
+  )
+  SELECT
+    s.id,
+    s.name,
+    s.active IS NOT FALSE,
+    COALESCE(sold.sales_count, 0),
+    COALESCE(sold.sales_total, 0),
+    COALESCE(stock.units, 0),
+    COALESCE(stock.value, 0),
+    COALESCE(stock.low, 0),
+    COALESCE(in_transit.transfers, 0)
+  FROM public.stores s
+  LEFT JOIN sold ON sold.store_id = s.id
+  LEFT JOIN stock ON stock.store_id = s.id
+  LEFT JOIN in_transit ON in_transit.to_store_id = s.id
+  ORDER BY s.name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.catalogue_listings(UUID[]) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_catalogue_store_price(UUID, UUID, NUMERIC) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.save_stock_transfer(UUID, JSONB, UUID, TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.dispatch_stock_transfer(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.receive_stock_transfer(UUID, JSONB) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.cancel_stock_transfer(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.store_summaries(TIMESTAMPTZ, TIMESTAMPTZ) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.catalogue_listings(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_catalogue_store_price(UUID, UUID, NUMERIC) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.save_stock_transfer(UUID, JSONB, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.dispatch_stock_transfer(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.receive_stock_transfer(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_stock_transfer(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.store_summaries(TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
@@ -0,0 +1,383 @@
+-- Sales, their items and payments are only written by create_sale and the
+-- other SECURITY DEFINER functions, which validate prices, stock and tenders
+-- and record the stock movement. Clients can no longer insert them directly.
+DROP POLICY "All authenticated users can create sales" ON public.sales;
+DROP POLICY "All authenticated users can create sale items" ON public.sale_items;
+DROP POLICY "All authenticated users can create payments" ON public.payments;
+
+-- create_sale as before, now also checking that the customer belongs to the
+-- store the sale is made in
+
+-- _items: [{ "product_id": uuid, "quantity": int, "discount": { "type", "value" },
+--            offline only: "unit_price", "promotion_id", "promotion_discount" }]
+-- _basket_discount: { "type": "percent" | "amount", "value": number }, shared
+-- across the lines in proportion to what is left on each after line discounts.
+CREATE OR REPLACE FUNCTION public.create_sale(
+  _store_id UUID,
+  _items JSONB,
+  _payments JSONB,
+  _customer_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _till_id UUID DEFAULT NULL,
+  _sale_id UUID DEFAULT NULL,
+  _captured_at TIMESTAMPTZ DEFAULT NULL,
+  _provisional_receipt_number TEXT DEFAULT NULL,
+  _basket_discount JSONB DEFAULT NULL,
+  _manager_pin TEXT DEFAULT NULL
+)
+RETURNS public.sales
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _cashier_id UUID := auth.uid();
+  _sale public.sales;
+  _item JSONB;
+  _payment JSONB;
+  _product public.products;
+  _quantity INTEGER;
+  _unit_price DECIMAL(10,2);
+  _line_total DECIMAL(10,2);
+  _subtotal DECIMAL(10,2) := 0;
+  _total DECIMAL(10,2) := 0;
+  _vat_amount DECIMAL(10,2) := 0;
+  _paid DECIMAL(10,2) := 0;
+  _amount DECIMAL(10,2);
+  _tendered DECIMAL(10,2);
+  _awaiting_mpesa BOOLEAN := false;
+  _settings public.store_settings;
+  _points INTEGER;
+  _balance INTEGER;
+  _reference TEXT;
+  _offline BOOLEAN := _captured_at IS NOT NULL;
+  _lines JSONB := '[]';
+  _products public.products[];
+  _promotions JSONB;
+  _count INTEGER;
+  _i INTEGER;
+  _gross BIGINT[];
+  _promotion_cents BIGINT[];
+  _promotion_ids UUID[];
+  _manual_cents BIGINT[];
+  _basket_cents BIGINT[];
+  _net BIGINT;
+  _basket_base BIGINT := 0;
+  _basket_total BIGINT := 0;
+  _shared BIGINT := 0;
+  _needs_approval BOOLEAN := false;
+  _approver UUID;
+BEGIN
+  IF _cashier_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = _cashier_id AND store_id = _store_id AND COALESCE(active, true)
+  ) THEN
+    RAISE EXCEPTION 'User is not assigned to this store' USING ERRCODE = '42501';
+  END IF;
+
+  IF _customer_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM public.customers WHERE id = _customer_id AND store_id = _store_id) THEN
+    RAISE EXCEPTION 'Customer % not found', _customer_id USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Replaying a sale that already reached the server returns it unchanged
+  IF _sale_id IS NOT NULL THEN
+    SELECT * INTO _sale FROM public.sales WHERE id = _sale_id;
+    IF FOUND THEN
+      IF _sale.store_id <> _store_id OR _sale.cashier_id <> _cashier_id THEN
+        RAISE EXCEPTION 'Sale % already exists', _sale_id USING ERRCODE = '23505';
+      END IF;
+      RETURN _sale;
+    END IF;
+  END IF;
+
+  IF _offline AND (_captured_at > now() + interval '5 minutes' OR _captured_at < now() - interval '30 days') THEN
+    RAISE EXCEPTION 'Offline sale time % is out of range', _captured_at USING ERRCODE = '22023';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Cart is empty' USING ERRCODE = '22023';
+  END IF;
+
+  IF _payments IS NULL OR jsonb_typeof(_payments) <> 'array' OR jsonb_array_length(_payments) = 0 THEN
+    RAISE EXCEPTION 'No payment provided' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _settings
+  FROM public.store_settings
+  WHERE store_id = _store_id;
+
+  -- assign_sale_number fills in the till and receipt number
+  INSERT INTO public.sales (
+    id, store_id, till_id, customer_id, cashier_id,
+    subtotal, vat_amount, total_amount, status, notes,
+    created_at, captured_offline_at, provisional_receipt_number
+  )
+  VALUES (
+    COALESCE(_sale_id, gen_random_uuid()), _store_id, _till_id, _customer_id, _cashier_id,
+    0, 0, 0, 'completed', _notes,
+    COALESCE(_captured_at, now()), _captured_at, NULLIF(_provisional_receipt_number, '')
+  )
+  RETURNING * INTO _sale;
+
+  -- Lock products in a stable order so concurrent tills cannot deadlock
+  FOR _item IN
+    SELECT value FROM jsonb_array_elements(_items) ORDER BY value->>'product_id'
+  LOOP
+    _quantity := (_item->>'quantity')::INTEGER;
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for product %', _item->>'product_id' USING ERRCODE = '22023';
+    END IF;
+
+    -- Offline sales have already left the shop, so products deactivated since still count
+    SELECT * INTO _product
+    FROM public.products
+    WHERE id = (_item->>'product_id')::UUID
+      AND store_id = _store_id
+      AND (_offline OR COALESCE(active, true))
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % is not available', _item->>'product_id' USING ERRCODE = 'P0002';
+    END IF;
+
+    -- Offline, the customer paid the price the till had cached; shortfalls and
+    -- price changes are recorded for a manager instead of rejecting the sale
+    _unit_price := _product.selling_price;
+    IF _offline THEN
+      _unit_price := COALESCE((_item->>'unit_price')::DECIMAL(10,2), _product.selling_price);
+
+      IF NOT COALESCE(_product.active, true) THEN
+        INSERT INTO public.sale_sync_conflicts (sale_id, store_id, product_id, conflict_type, quantity)
+        VALUES (_sale.id, _store_id, _product.id, 'product_unavailable', _quantity);
+      END IF;
+
+      IF _product.stock_quantity < _quantity THEN
+        INSERT INTO public.sale_sync_conflicts (sale_id, store_id, product_id, conflict_type, quantity, available)
+        VALUES (_sale.id, _store_id, _product.id, 'oversold', _quantity, _product.stock_quantity);
+      END IF;
+
+      IF _unit_price <> _product.selling_price THEN
+        INSERT INTO public.sale_sync_conflicts (
+          sale_id, store_id, product_id, conflict_type, quantity, expected_price, charged_price
+        )
+        VALUES (_sale.id, _store_id, _product.id, 'price_changed', _quantity, _product.selling_price, _unit_price);
+      END IF;
+    ELSIF _product.stock_quantity < _quantity THEN
+      RAISE EXCEPTION 'Not enough stock for %: % available', _product.name, _product.stock_quantity
+        USING ERRCODE = 'P0001';
+    END IF;
+
+    _products := _products || _product;
+    _lines := _lines || jsonb_build_object(
+      'product_id', _product.id,
+      'category_id', _product.category_id,
+      'quantity', _quantity,
+      'unit_price', _unit_price,
+      'discount', _item->'discount',
+      'promotion_id', _item->'promotion_id',
+      'promotion_discount', _item->'promotion_discount'
+    );
+  END LOOP;
+
+  _count := jsonb_array_length(_lines);
+  _promotions := public.promotion_discounts(_store_id, _lines, COALESCE(_captured_at, now()));
+
+  FOR _i IN 1.._count LOOP
+    _item := _lines->(_i - 1);
+    _gross[_i] := round((_item->>'unit_price')::NUMERIC * 100) * (_item->>'quantity')::INTEGER;
+    _promotion_cents[_i] := round((_promotions->(_i - 1)->>'discount')::NUMERIC * 100);
+    _promotion_ids[_i] := (_promotions->(_i - 1)->>'promotion_id')::UUID;
+
+    -- Offline, the till's promotions stand; differences are left for a manager
+    IF _offline THEN
+      _net := LEAST(round(COALESCE((_item->>'promotion_discount')::NUMERIC, 0) * 100), _gross[_i]);
+      IF _net <> _promotion_cents[_i] THEN
+        INSERT INTO public.sale_sync_conflicts (
+          sale_id, store_id, product_id, conflict_type, quantity, expected_price, charged_price
+        )
+        VALUES (
+          _sale.id, _store_id, _products[_i].id, 'promotion_changed', (_item->>'quantity')::INTEGER,
+          (_gross[_i] - _promotion_cents[_i]) / 100.0, (_gross[_i] - _net) / 100.0
+        );
+      END IF;
+      _promotion_cents[_i] := _net;
+      _promotion_ids[_i] := (
+        SELECT id FROM public.promotions WHERE id = (_item->>'promotion_id')::UUID AND store_id = _store_id
+      );
+    END IF;
+
+    _manual_cents[_i] := public.manual_discount_cents(_item->'discount', _gross[_i] - _promotion_cents[_i]);
+    IF _settings.discount_approval_percent IS NOT NULL
+      AND _manual_cents[_i] * 100 > (_gross[_i] - _promotion_cents[_i]) * _settings.discount_approval_percent THEN
+      _needs_approval := true;
+    END IF;
+
+    _basket_base := _basket_base + _gross[_i] - _promotion_cents[_i] - _manual_cents[_i];
+    _basket_cents[_i] := 0;
+  END LOOP;
+
+  -- Each line gets its share of the basket discount rounded down, and the
+  -- cents left over go one at a time to the first lines with room
+  _basket_total := public.manual_discount_cents(_basket_discount, _basket_base);
+  IF _basket_total > 0 THEN
+    IF _settings.discount_approval_percent IS NOT NULL
+      AND _basket_total * 100 > _basket_base * _settings.discount_approval_percent THEN
+      _needs_approval := true;
+    END IF;
+
+    FOR _i IN 1.._count LOOP
+      _net := _gross[_i] - _promotion_cents[_i] - _manual_cents[_i];
+      _basket_cents[_i] := (_basket_total * _net) / _basket_base;
+      _shared := _shared + _basket_cents[_i];
+    END LOOP;
+    FOR _i IN 1.._count LOOP
+      EXIT WHEN _shared = _basket_total;
+      _net := _gross[_i] - _promotion_cents[_i] - _manual_cents[_i];
+      IF _basket_cents[_i] < _net THEN
+        _basket_cents[_i] := _basket_cents[_i] + 1;
+        _shared := _shared + 1;
+      END IF;
+    END LOOP;
+  END IF;
+
+  IF _needs_approval THEN
+    _approver := public.verify_manager_pin(_store_id, _manager_pin);
+    IF _approver IS NULL THEN
+      RAISE EXCEPTION 'Discounts above % need a manager''s PIN', trim_scale(_settings.discount_approval_percent) || '%'
+        USING ERRCODE = '28P01';
+    END IF;
+  END IF;
+
+  FOR _i IN 1.._count LOOP
+    _item := _lines->(_i - 1);
+    _product := _products[_i];
+    _line_total := (_gross[_i] - _promotion_cents[_i] - _manual_cents[_i] - _basket_cents[_i]) / 100.0;
+    _subtotal := _subtotal + _gross[_i] / 100.0;
+    _total := _total + _line_total;
+    _vat_amount := _vat_amount
+      + (_line_total * COALESCE(_product.vat_rate, 0)) / (100 + COALESCE(_product.vat_rate, 0));
+
+    INSERT INTO public.sale_items (
+      sale_id, product_id, product_name, quantity, unit_price, vat_rate, line_total,
+      promotion_id, promotion_discount, manual_discount, basket_discount
+    )
+    VALUES (
+      _sale.id, _product.id, _product.name, (_item->>'quantity')::INTEGER,
+      (_item->>'unit_price')::DECIMAL(10,2), COALESCE(_product.vat_rate, 0), _line_total,
+      _promotion_ids[_i], _promotion_cents[_i] / 100.0, _manual_cents[_i] / 100.0, _basket_cents[_i] / 100.0
+    );
+
+    INSERT INTO public.stock_movements (
+      product_id, store_id, movement_type, quantity, reference_type, reference_id, created_by
+    )
+    VALUES (_product.id, _store_id, 'sale', -(_item->>'quantity')::INTEGER, 'sale', _sale.id, _cashier_id);
+  END LOOP;
+
+  FOR _payment IN SELECT value FROM jsonb_array_elements(_payments)
+  LOOP
+    _amount := (_payment->>'amount')::DECIMAL(10,2);
+    _tendered := COALESCE((_payment->>'tendered_amount')::DECIMAL(10,2), _amount);
+
+    IF _amount IS NULL OR _amount <= 0 THEN
+      RAISE EXCEPTION 'Invalid payment amount' USING ERRCODE = '22023';
+    END IF;
+
+    -- Points are a tender whenever the loyalty programme is on
+    IF _settings.enabled_payment_methods IS NOT NULL
+      AND _payment->>'payment_method' <> 'loyalty'
+      AND NOT ((_payment->>'payment_method')::payment_method = ANY (_settings.enabled_payment_methods)) THEN
+      RAISE EXCEPTION '% payments are not enabled for this store', _payment->>'payment_method'
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- Only cash can be over-tendered; the difference is handed back as change
+    IF _tendered < _amount
+      OR (_tendered > _amount AND _payment->>'payment_method' <> 'cash') THEN
+      RAISE EXCEPTION 'Invalid tendered amount for % payment', _payment->>'payment_method'
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- M-Pesa without a receipt code is confirmed later by an STK push
+    IF _payment->>'payment_method' = 'mpesa' AND NULLIF(_payment->>'reference_number', '') IS NULL THEN
+      IF _offline THEN
+        RAISE EXCEPTION 'Offline M-Pesa payments need the M-Pesa receipt code' USING ERRCODE = '22023';
+      END IF;
+      IF NULLIF(_payment->>'payer_phone', '') IS NULL THEN
+        RAISE EXCEPTION 'M-Pesa payments need a phone number or a receipt code' USING ERRCODE = '22023';
+      END IF;
+      _awaiting_mpesa := true;
+    END IF;
+
+    _reference := NULLIF(_payment->>'reference_number', '');
+
+    -- Redeemed points leave the customer's balance straight away; a void or a
+    -- cancelled M-Pesa prompt gives them back
+    IF _payment->>'payment_method' = 'loyalty' THEN
+      IF _customer_id IS NULL THEN
+        RAISE EXCEPTION 'Points can only be redeemed on a sale with a customer' USING ERRCODE = '22023';
+      END IF;
+      IF NOT COALESCE(_settings.loyalty_enabled, false) THEN
+        RAISE EXCEPTION 'The loyalty programme is not enabled' USING ERRCODE = '22023';
+      END IF;
+
+      _points := round(_amount / _settings.loyalty_point_value);
+      IF _points * _settings.loyalty_point_value <> _amount THEN
+        RAISE EXCEPTION 'Points must be redeemed in whole points of %', _settings.loyalty_point_value
+          USING ERRCODE = '22023';
+      END IF;
+      IF _points < _settings.loyalty_min_redemption THEN
+        RAISE EXCEPTION 'At least % points must be redeemed at a time', _settings.loyalty_min_redemption
+          USING ERRCODE = '22023';
+      END IF;
+
+      PERFORM public.expire_customer_loyalty_points(_customer_id);
+      SELECT loyalty_points INTO _balance FROM public.customers WHERE id = _customer_id FOR UPDATE;
+      IF _balance < _points THEN
+        RAISE EXCEPTION 'Only % points available', _balance USING ERRCODE = 'P0001';
+      END IF;
+
+      INSERT INTO public.loyalty_transactions (store_id, customer_id, sale_id, entry_type, points, created_by)
+      VALUES (_store_id, _customer_id, _sale.id, 'redeem', -_points, _cashier_id);
+      _reference := _points || ' points';
+    END IF;
+
+    INSERT INTO public.payments (
+      sale_id, payment_method, amount, tendered_amount, change_amount, reference_number, payer_phone
+    )
+    VALUES (
+      _sale.id,
+      (_payment->>'payment_method')::payment_method,
+      _amount,
+      _tendered,
+      _tendered - _amount,
+      _reference,
+      NULLIF(_payment->>'payer_phone', '')
+    );
+
+    _paid := _paid + _amount;
+  END LOOP;
+
+  IF _paid <> _total THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', _paid, _total USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.sales
+  SET subtotal = _subtotal,
+      discount_amount = _subtotal - _total,
+      discount_approved_by = _approver,
+      vat_amount = round(_vat_amount, 2),
+      total_amount = _total,
+      status = CASE WHEN _awaiting_mpesa THEN 'pending'::sale_status ELSE 'completed'::sale_status END
+  WHERE id = _sale.id
+  RETURNING * INTO _sale;
+
+  RETURN _sale;
+END;
+$$;
+
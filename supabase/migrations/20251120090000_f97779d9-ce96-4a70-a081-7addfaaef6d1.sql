@@ -0,0 +1,14 @@
+-- Managers record movements for their own store's products only. Opening
+-- balances are written by record_opening_stock when a product is created;
+-- apply_stock_movement does not touch stock for them, so a client-inserted
+-- one would put the ledger out of step with stock_quantity.
+DROP POLICY "Managers and admins can record stock movements" ON public.stock_movements;
+
+CREATE POLICY "Managers and admins can record stock movements"
+  ON public.stock_movements FOR INSERT
+  WITH CHECK (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    AND product_id IN (SELECT id FROM public.products WHERE store_id = stock_movements.store_id)
+    AND reference_type IS DISTINCT FROM 'opening_balance'
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+  );
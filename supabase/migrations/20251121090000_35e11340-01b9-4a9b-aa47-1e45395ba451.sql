@@ -0,0 +1,79 @@
+-- Every successful STK callback is now passed here, including ones that
+-- arrive after the till cancelled the sale or the prompt timed out, so money
+-- taken for a voided sale is always recorded for a refund. The amount Daraja
+-- reports must match the request before the sale is completed; a payment of
+-- the wrong amount voids the sale and is likewise left for a refund.
+DROP FUNCTION public.confirm_mpesa_payment(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.confirm_mpesa_payment(
+  _checkout_request_id TEXT,
+  _receipt_number TEXT,
+  _amount NUMERIC,
+  _result_desc TEXT DEFAULT NULL
+)
+RETURNS public.sales
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transaction public.mpesa_transactions;
+  _sale public.sales;
+  _amount_matches BOOLEAN;
+BEGIN
+  SELECT * INTO _transaction
+  FROM public.mpesa_transactions
+  WHERE checkout_request_id = _checkout_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown checkout request %', _checkout_request_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO _sale FROM public.sales WHERE id = _transaction.sale_id FOR UPDATE;
+
+  -- Daraja retries callbacks it did not see acknowledged
+  IF _transaction.status = 'completed' THEN
+    RETURN _sale;
+  END IF;
+
+  _amount_matches := _amount IS NOT NULL AND _amount = _transaction.amount;
+
+  UPDATE public.mpesa_transactions
+  SET status = 'completed',
+      result_code = 0,
+      result_desc = CASE
+        WHEN _sale.status <> 'pending' THEN 'Received after the sale was ' || _sale.status || '; refund required'
+        WHEN NOT _amount_matches THEN
+          'Received ' || COALESCE(_amount::TEXT, 'an unknown amount') || ' but ' || _transaction.amount
+            || ' was requested; refund required'
+        ELSE _result_desc
+      END,
+      mpesa_receipt_number = _receipt_number
+  WHERE id = _transaction.id;
+
+  IF _sale.status <> 'pending' THEN
+    RETURN _sale;
+  END IF;
+
+  IF NOT _amount_matches THEN
+    RETURN public.cancel_pending_sale(_sale.id, 'failed', 'M-Pesa paid amount did not match the sale');
+  END IF;
+
+  UPDATE public.payments
+  SET reference_number = _receipt_number
+  WHERE id = _transaction.payment_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE sale_id = _sale.id AND payment_method = 'mpesa' AND reference_number IS NULL
+  ) THEN
+    UPDATE public.sales SET status = 'completed' WHERE id = _sale.id
+    RETURNING * INTO _sale;
+  END IF;
+
+  RETURN _sale;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.confirm_mpesa_payment(TEXT, TEXT, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,244 @@
+-- Roles belong to a store. Until now an admin was an admin everywhere, and
+-- onboarding hands the admin role to anyone who signs up, so every new
+-- business could read and change every other one. Each role is now granted
+-- in one store; someone who runs several stores holds the admin role in each
+-- of them.
+
+ALTER TABLE public.user_roles
+  ADD COLUMN store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE;
+
+-- Existing roles apply to the store the user works in. Roles of users with
+-- no store gave access to nothing but other stores, so they are removed.
+UPDATE public.user_roles ur
+SET store_id = p.store_id
+FROM public.profiles p
+WHERE p.id = ur.user_id;
+
+DELETE FROM public.user_roles WHERE store_id IS NULL;
+
+ALTER TABLE public.user_roles
+  ALTER COLUMN store_id SET NOT NULL,
+  DROP CONSTRAINT user_roles_user_id_role_key,
+  ADD CONSTRAINT user_roles_user_id_role_store_id_key UNIQUE (user_id, role, store_id);
+
+CREATE INDEX idx_user_roles_store_id ON public.user_roles(store_id);
+
+-- Whether the user holds the role in the store they are working in. Every
+-- check that pairs has_role with the user's own store is therefore limited
+-- to that store.
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role app_role)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles ur
+    JOIN public.profiles p ON p.id = ur.user_id AND p.store_id = ur.store_id
+    WHERE ur.user_id = _user_id
+      AND ur.role = _role
+  )
+$$;
+
+-- Whether the user holds the role in a given store, wherever they are working
+CREATE OR REPLACE FUNCTION public.has_store_role(_user_id UUID, _role app_role, _store_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_roles
+    WHERE user_id = _user_id
+      AND role = _role
+      AND store_id = _store_id
+  )
+$$;
+
+-- The original policies below applied to every store
+DROP POLICY "Admins can manage all stores" ON public.stores;
+
+CREATE POLICY "Admins can manage their stores"
+  ON public.stores FOR ALL
+  USING (public.has_store_role(auth.uid(), 'admin', id));
+
+DROP POLICY "Admins can manage roles" ON public.user_roles;
+
+CREATE POLICY "Admins can manage their stores' roles"
+  ON public.user_roles FOR ALL
+  USING (public.has_store_role(auth.uid(), 'admin', store_id));
+
+DROP POLICY "Managers and admins can manage products" ON public.products;
+
+CREATE POLICY "Managers and admins can manage store products"
+  ON public.products FOR ALL
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+  );
+
+DROP POLICY "Managers and admins can manage categories" ON public.categories;
+
+CREATE POLICY "Managers and admins can manage store categories"
+  ON public.categories FOR ALL
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+  );
+
+DROP POLICY "Managers and admins can void sales" ON public.sales;
+
+CREATE POLICY "Managers and admins can void store sales"
+  ON public.sales FOR UPDATE
+  USING (
+    store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid())
+    AND (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+  );
+
+-- Store assignment and account status are changed by an admin of the store
+-- the profile is in, or, for a profile with no store yet, of the store it
+-- moves to
+CREATE OR REPLACE FUNCTION public.guard_profile_admin_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- auth.uid() is NULL for the service role
+  IF auth.uid() IS NOT NULL
+    AND NOT public.has_store_role(auth.uid(), 'admin', COALESCE(OLD.store_id, NEW.store_id))
+    AND (NEW.store_id IS DISTINCT FROM OLD.store_id OR NEW.active IS DISTINCT FROM OLD.active) THEN
+    RAISE EXCEPTION 'Only admins can change store assignment or account status' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Onboarding makes the new user an admin of the store they create, and of no other
+CREATE OR REPLACE FUNCTION public.create_store_for_user(
+  _name TEXT,
+  _location TEXT DEFAULT NULL,
+  _phone TEXT DEFAULT NULL,
+  _kra_pin TEXT DEFAULT NULL,
+  _seed_categories BOOLEAN DEFAULT false,
+  _seed_products BOOLEAN DEFAULT false
+)
+RETURNS public.stores
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _store public.stores;
+  _category_ids JSONB := '{}'::JSONB;
+  _category TEXT;
+  _category_id UUID;
+BEGIN
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF length(trim(COALESCE(_name, ''))) < 2 THEN
+    RAISE EXCEPTION 'Store name must be at least 2 characters' USING ERRCODE = '22023';
+  END IF;
+
+  IF _kra_pin IS NOT NULL AND _kra_pin !~* '^[A-Z][0-9]{9}[A-Z]$' THEN
+    RAISE EXCEPTION 'Invalid KRA PIN' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM 1 FROM public.profiles WHERE id = _user_id AND store_id IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Your account already belongs to a store' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _user_id) THEN
+    RAISE EXCEPTION 'Ask an admin to assign you to a store' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.stores (name, location, phone)
+  VALUES (trim(_name), NULLIF(trim(_location), ''), NULLIF(trim(_phone), ''))
+  RETURNING * INTO _store;
+
+  -- on_store_created has inserted the default settings row
+  UPDATE public.store_settings
+  SET kra_pin = upper(_kra_pin)
+  WHERE store_id = _store.id;
+
+  -- Grant the role first so guard_profile_admin_fields allows the store change
+  INSERT INTO public.user_roles (user_id, role, store_id) VALUES (_user_id, 'admin', _store.id);
+  UPDATE public.profiles SET store_id = _store.id WHERE id = _user_id;
+
+  IF _seed_categories OR _seed_products THEN
+    FOREACH _category IN ARRAY ARRAY['Beverages', 'Groceries', 'Household', 'Personal Care', 'Snacks'] LOOP
+      INSERT INTO public.categories (name, store_id)
+      VALUES (_category, _store.id)
+      RETURNING id INTO _category_id;
+      _category_ids := _category_ids || jsonb_build_object(_category, _category_id);
+    END LOOP;
+  END IF;
+
+  -- Sample products start with opening stock recorded by record_opening_stock
+  IF _seed_products THEN
+    INSERT INTO public.products (store_id, category_id, name, sku, cost_price, selling_price, vat_rate, stock_quantity)
+    SELECT _store.id, (_category_ids->>p.category)::UUID, p.name, p.sku, p.cost_price, p.selling_price, p.vat_rate, p.stock_quantity
+    FROM (VALUES
+      ('Beverages', 'Soda 500ml', 'BEV-001', 45, 70, 16, 48),
+      ('Beverages', 'Mineral Water 1L', 'BEV-002', 40, 60, 16, 36),
+      ('Groceries', 'Maize Flour 2kg', 'GRO-001', 140, 175, 0, 30),
+      ('Groceries', 'Sugar 1kg', 'GRO-002', 150, 180, 16, 30),
+      ('Groceries', 'Cooking Oil 1L', 'GRO-003', 280, 340, 16, 20),
+      ('Household', 'Bar Soap 800g', 'HOU-001', 180, 230, 16, 24),
+      ('Personal Care', 'Toothpaste 100ml', 'PER-001', 110, 150, 16, 24),
+      ('Snacks', 'Potato Crisps 100g', 'SNA-001', 60, 90, 16, 40)
+    ) AS p(category, name, sku, cost_price, selling_price, vat_rate, stock_quantity);
+  END IF;
+
+  RETURN _store;
+END;
+$$;
+
+-- An admin opens another store and becomes its admin; the store starts with
+-- the default settings and a till from on_store_created
+CREATE OR REPLACE FUNCTION public.create_store(
+  _name TEXT,
+  _location TEXT DEFAULT NULL,
+  _phone TEXT DEFAULT NULL,
+  _email TEXT DEFAULT NULL
+)
+RETURNS public.stores
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _store public.stores;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can add stores' USING ERRCODE = '42501';
+  END IF;
+
+  IF length(trim(COALESCE(_name, ''))) < 2 THEN
+    RAISE EXCEPTION 'Store name must be at least 2 characters' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.stores (name, location, phone, email)
+  VALUES (trim(_name), NULLIF(trim(_location), ''), NULLIF(trim(_phone), ''), NULLIF(trim(_email), ''))
+  RETURNING * INTO _store;
+
+  INSERT INTO public.user_roles (user_id, role, store_id) VALUES (auth.uid(), 'admin', _store.id);
+
+  RETURN _store;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.has_store_role(UUID, app_role, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.create_store(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_store_role(UUID, app_role, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_store(TEXT, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,32 @@
+-- Moving a profile between stores needs the caller to be an admin of both
+-- stores, so an admin can only move themselves or their staff among the
+-- stores they run. Activating or deactivating an account needs an admin of
+-- the store it works in.
+CREATE OR REPLACE FUNCTION public.guard_profile_admin_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- auth.uid() is NULL for the service role
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.store_id IS DISTINCT FROM OLD.store_id
+    AND (
+      (OLD.store_id IS NOT NULL AND NOT public.has_store_role(auth.uid(), 'admin', OLD.store_id))
+      OR (NEW.store_id IS NOT NULL AND NOT public.has_store_role(auth.uid(), 'admin', NEW.store_id))
+    ) THEN
+    RAISE EXCEPTION 'Only admins of both stores can change store assignment' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.active IS DISTINCT FROM OLD.active
+    AND (OLD.store_id IS NULL OR NOT public.has_store_role(auth.uid(), 'admin', OLD.store_id)) THEN
+    RAISE EXCEPTION 'Only admins of the store can change account status' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
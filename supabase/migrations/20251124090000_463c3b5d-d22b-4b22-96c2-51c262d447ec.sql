@@ -0,0 +1,157 @@
+-- Returns the active manager or admin of the store whose PIN matches. Admins
+-- approve only in the store they are working in, like managers.
+CREATE OR REPLACE FUNCTION public.verify_manager_pin(_store_id UUID, _pin TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT mp.user_id
+  FROM public.manager_pins mp
+  JOIN public.profiles pr ON pr.id = mp.user_id
+  WHERE pr.active
+    AND pr.store_id = _store_id
+    AND (
+      public.has_store_role(mp.user_id, 'admin', _store_id)
+      OR public.has_store_role(mp.user_id, 'manager', _store_id)
+    )
+    AND mp.pin_hash = extensions.crypt(_pin, mp.pin_hash)
+  LIMIT 1
+$$;
+
+-- Refunds go back by a tender the sale was paid with, so an M-Pesa sale cannot
+-- be refunded in cash. Points are store credit and can be given for any sale
+-- with a customer.
+CREATE OR REPLACE FUNCTION public.create_return(
+  _sale_id UUID,
+  _items JSONB,
+  _reason TEXT,
+  _refund_method payment_method,
+  _manager_pin TEXT,
+  _till_id UUID DEFAULT NULL
+)
+RETURNS public.credit_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sale public.sales;
+  _credit_note public.credit_notes;
+  _item JSONB;
+  _sale_item public.sale_items;
+  _approver UUID;
+  _quantity INTEGER;
+  _returned INTEGER;
+  _restock BOOLEAN;
+  _line_total DECIMAL(10,2);
+  _total DECIMAL(10,2) := 0;
+  _vat DECIMAL(10,2) := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Locking the sale serialises concurrent returns against it
+  SELECT * INTO _sale FROM public.sales WHERE id = _sale_id FOR UPDATE;
+
+  IF NOT FOUND OR _sale.store_id NOT IN (SELECT store_id FROM public.profiles WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Sale % not found', _sale_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _sale.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed sales can be returned' USING ERRCODE = '22023';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return' USING ERRCODE = '22023';
+  END IF;
+
+  IF length(trim(COALESCE(_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required for returns' USING ERRCODE = '22023';
+  END IF;
+
+  IF _refund_method <> 'loyalty' AND NOT EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE sale_id = _sale_id AND payment_method = _refund_method AND reversed_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'This sale was not paid by %', _refund_method USING ERRCODE = '22023';
+  END IF;
+
+  _approver := public.verify_manager_pin(_sale.store_id, _manager_pin);
+  IF _approver IS NULL THEN
+    RAISE EXCEPTION 'Invalid manager PIN' USING ERRCODE = '28P01';
+  END IF;
+
+  -- assign_credit_note_number fills in the till and credit note number
+  INSERT INTO public.credit_notes (
+    store_id, till_id, sale_id, refund_method, reason, created_by, approved_by
+  )
+  VALUES (
+    _sale.store_id, _till_id, _sale_id, _refund_method, trim(_reason), auth.uid(), _approver
+  )
+  RETURNING * INTO _credit_note;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := (_item->>'quantity')::INTEGER;
+    _restock := COALESCE((_item->>'restock')::BOOLEAN, true);
+
+    SELECT * INTO _sale_item
+    FROM public.sale_items
+    WHERE id = (_item->>'sale_item_id')::UUID AND sale_id = _sale_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not on this sale', _item->>'sale_item_id' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid return quantity for %', _sale_item.product_name USING ERRCODE = '22023';
+    END IF;
+
+    -- Includes lines already inserted for this credit note
+    SELECT COALESCE(sum(quantity), 0) INTO _returned
+    FROM public.credit_note_items
+    WHERE sale_item_id = _sale_item.id;
+
+    IF _returned + _quantity > _sale_item.quantity THEN
+      RAISE EXCEPTION 'Only % of % can still be returned', _sale_item.quantity - _returned, _sale_item.product_name
+        USING ERRCODE = '22023';
+    END IF;
+
+    -- Refund at the price actually paid for the line
+    _line_total := round(_sale_item.line_total * _quantity / _sale_item.quantity, 2);
+
+    INSERT INTO public.credit_note_items (
+      credit_note_id, sale_item_id, product_id, product_name,
+      quantity, unit_price, vat_rate, line_total, restocked
+    )
+    VALUES (
+      _credit_note.id, _sale_item.id, _sale_item.product_id, _sale_item.product_name,
+      _quantity, _sale_item.unit_price, _sale_item.vat_rate, _line_total, _restock
+    );
+
+    IF _restock THEN
+      INSERT INTO public.stock_movements (
+        product_id, store_id, movement_type, quantity, reference_type, reference_id, reason, created_by
+      )
+      VALUES (
+        _sale_item.product_id, _sale.store_id, 'return', _quantity, 'credit_note', _credit_note.id,
+        'Return on ' || _sale.receipt_number || ': ' || trim(_reason), auth.uid()
+      );
+    END IF;
+
+    _total := _total + _line_total;
+    _vat := _vat + round(_line_total * _sale_item.vat_rate / (100 + _sale_item.vat_rate), 2);
+  END LOOP;
+
+  UPDATE public.credit_notes
+  SET total_amount = _total,
+      vat_amount = _vat
+  WHERE id = _credit_note.id
+  RETURNING * INTO _credit_note;
+
+  RETURN _credit_note;
+END;
+$$;
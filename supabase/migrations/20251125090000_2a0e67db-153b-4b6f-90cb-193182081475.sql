@@ -0,0 +1,43 @@
+-- Sales and credit notes join the open shift on their till. A sale rung up
+-- offline joins the shift that was open on its till when it was rung up, even
+-- if that shift has closed since, or none, so that it is never lost; only
+-- online sales and cash refunds need a shift to be open.
+CREATE OR REPLACE FUNCTION public.assign_document_shift()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _required BOOLEAN;
+  _captured_at TIMESTAMPTZ;
+BEGIN
+  -- Fields are only read on the table that has them
+  IF TG_TABLE_NAME = 'sales' THEN
+    _captured_at := NEW.captured_offline_at;
+    _required := _captured_at IS NULL;
+  ELSE
+    _required := NEW.refund_method = 'cash';
+  END IF;
+
+  IF _captured_at IS NULL THEN
+    SELECT id INTO NEW.shift_id
+    FROM public.till_shifts
+    WHERE till_id = NEW.till_id AND status = 'open';
+  ELSE
+    SELECT id INTO NEW.shift_id
+    FROM public.till_shifts
+    WHERE till_id = NEW.till_id
+      AND opened_at <= _captured_at
+      AND (closed_at IS NULL OR closed_at > _captured_at)
+    ORDER BY opened_at DESC
+    LIMIT 1;
+  END IF;
+
+  IF NEW.shift_id IS NULL AND _required THEN
+    RAISE EXCEPTION 'Open a shift on this till first' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
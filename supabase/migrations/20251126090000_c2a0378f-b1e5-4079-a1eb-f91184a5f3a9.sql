@@ -0,0 +1,47 @@
+-- Sets a product's count, or with _add adds to it, as each scan of a barcode
+-- does. The expected quantity is taken again from current stock whenever a
+-- product is counted, so sales and other movements between the start of the
+-- stocktake and the count are not deducted a second time when the variance
+-- is posted.
+CREATE OR REPLACE FUNCTION public.record_stocktake_count(
+  _stocktake_id UUID,
+  _product_id UUID,
+  _quantity INTEGER,
+  _add BOOLEAN DEFAULT false
+)
+RETURNS public.stocktake_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _stocktake public.stocktakes;
+  _item public.stocktake_items;
+BEGIN
+  SELECT * INTO _stocktake FROM public.stocktakes
+  WHERE id = _stocktake_id
+    AND store_id IN (SELECT store_id FROM public.profiles WHERE id = auth.uid());
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake % not found', _stocktake_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _stocktake.status <> 'counting' THEN
+    RAISE EXCEPTION '% is no longer being counted', _stocktake.stocktake_number USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.stocktake_items i
+  SET counted_quantity = CASE WHEN _add THEN COALESCE(i.counted_quantity, 0) + _quantity ELSE _quantity END,
+      expected_quantity = p.stock_quantity,
+      counted_by = auth.uid(),
+      counted_at = now()
+  FROM public.products p
+  WHERE i.stocktake_id = _stocktake.id AND i.product_id = _product_id AND p.id = i.product_id
+  RETURNING i.* INTO _item;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That product is not part of %', _stocktake.stocktake_number USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN _item;
+END;
+$$;
@@ -0,0 +1,451 @@
+-- Stores are only tied together through the people who run them. Admins see,
+-- compare, price and switch between the stores they are an admin of, and
+-- managers send stock only to stores that share an admin with their own.
+-- A catalogue item is shared only by such linked stores.
+
+-- The store itself and every store that shares an admin with it
+CREATE OR REPLACE FUNCTION public.linked_store_ids(_store_id UUID)
+RETURNS SETOF UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _store_id
+  UNION
+  SELECT other.store_id
+  FROM public.user_roles own
+  JOIN public.user_roles other ON other.user_id = own.user_id AND other.role = 'admin'
+  WHERE own.store_id = _store_id AND own.role = 'admin'
+$$;
+
+-- Whether the user may read a catalogue item: it is listed in the store they
+-- work in or in a store they are an admin of
+CREATE OR REPLACE FUNCTION public.can_view_catalogue_item(_user_id UUID, _catalogue_item_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.products p
+    WHERE p.catalogue_item_id = _catalogue_item_id
+      AND (
+        p.store_id IN (SELECT store_id FROM public.profiles WHERE id = _user_id)
+        OR public.has_store_role(_user_id, 'admin', p.store_id)
+      )
+  )
+$$;
+
+-- Whether the user may change a catalogue item's details: they are an admin
+-- of every store that lists it
+CREATE OR REPLACE FUNCTION public.can_edit_catalogue_item(_user_id UUID, _catalogue_item_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM public.products p
+    WHERE p.catalogue_item_id = _catalogue_item_id
+      AND NOT public.has_store_role(_user_id, 'admin', p.store_id)
+  )
+$$;
+
+-- Until now every store could see every other. Managers see the stores they
+-- can send stock to.
+DROP POLICY "Managers can view all stores" ON public.stores;
+
+CREATE POLICY "Managers can view linked stores"
+  ON public.stores FOR SELECT
+  USING (
+    (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager'))
+    AND id IN (
+      SELECT public.linked_store_ids(store_id) FROM public.profiles WHERE id = auth.uid()
+    )
+  );
+
+-- The catalogue was built by matching barcodes and SKUs across all stores,
+-- so unrelated businesses ended up sharing items. Listings in stores that are
+-- not linked to the item's other listings get an item of their own; linked
+-- stores are grouped by the first store linked to each.
+CREATE TEMPORARY TABLE catalogue_groups AS
+SELECT
+  p.id AS product_id,
+  p.catalogue_item_id,
+  (SELECT min(l::TEXT) FROM public.linked_store_ids(p.store_id) l) AS group_key
+FROM public.products p;
+
+CREATE TEMPORARY TABLE catalogue_splits AS
+SELECT g.catalogue_item_id, g.group_key, gen_random_uuid() AS new_id
+FROM (
+  SELECT DISTINCT catalogue_item_id, group_key
+  FROM catalogue_groups cg
+  WHERE group_key > (SELECT min(group_key) FROM catalogue_groups WHERE catalogue_item_id = cg.catalogue_item_id)
+) g;
+
+INSERT INTO public.catalogue_items (id, name, sku, barcode, description)
+SELECT s.new_id, c.name, c.sku, c.barcode, c.description
+FROM catalogue_splits s
+JOIN public.catalogue_items c ON c.id = s.catalogue_item_id;
+
+UPDATE public.products p
+SET catalogue_item_id = s.new_id
+FROM catalogue_groups g
+JOIN catalogue_splits s ON s.catalogue_item_id = g.catalogue_item_id AND s.group_key = g.group_key
+WHERE p.id = g.product_id;
+
+UPDATE public.stock_transfer_items t
+SET catalogue_item_id = p.catalogue_item_id
+FROM public.products p
+WHERE p.id = t.from_product_id AND t.catalogue_item_id <> p.catalogue_item_id;
+
+DROP TABLE catalogue_splits;
+DROP TABLE catalogue_groups;
+
+DROP POLICY "Users can view the catalogue" ON public.catalogue_items;
+
+CREATE POLICY "Users can view their stores' catalogue"
+  ON public.catalogue_items FOR SELECT
+  USING (public.can_view_catalogue_item(auth.uid(), id));
+
+DROP POLICY "Admins can update the catalogue" ON public.catalogue_items;
+
+CREATE POLICY "Admins can update their stores' catalogue"
+  ON public.catalogue_items FOR UPDATE
+  USING (public.can_edit_catalogue_item(auth.uid(), id));
+
+-- Products created in a store without a catalogue item add one; products
+-- listed from the catalogue take its details, and only from items already
+-- listed in a linked store
+CREATE OR REPLACE FUNCTION public.link_product_to_catalogue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.catalogue_item_id IS NULL THEN
+    INSERT INTO public.catalogue_items (name, sku, barcode, description)
+    VALUES (NEW.name, NEW.sku, NEW.barcode, NEW.description)
+    RETURNING id INTO NEW.catalogue_item_id;
+  ELSE
+    SELECT name, sku, barcode, description
+    INTO NEW.name, NEW.sku, NEW.barcode, NEW.description
+    FROM public.catalogue_items
+    WHERE id = NEW.catalogue_item_id
+      AND id IN (
+        SELECT catalogue_item_id FROM public.products WHERE store_id IN (SELECT public.linked_store_ids(NEW.store_id))
+      );
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Catalogue item % not found', NEW.catalogue_item_id USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Editing a product's details in one store edits the catalogue item, which
+-- passes them on to the other stores. Details of an item listed in other
+-- stores as well can only be changed by an admin of all of them. The IS
+-- DISTINCT FROM checks stop the two triggers from calling each other again.
+CREATE OR REPLACE FUNCTION public.sync_catalogue_item_from_product()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.catalogue_items
+    WHERE id = NEW.catalogue_item_id
+      AND (name, sku, barcode, description) IS DISTINCT FROM (NEW.name, NEW.sku, NEW.barcode, NEW.description)
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  -- auth.uid() is NULL for the service role
+  IF auth.uid() IS NOT NULL
+    AND EXISTS (
+      SELECT 1 FROM public.products
+      WHERE catalogue_item_id = NEW.catalogue_item_id AND store_id <> NEW.store_id
+    )
+    AND NOT public.can_edit_catalogue_item(auth.uid(), NEW.catalogue_item_id) THEN
+    RAISE EXCEPTION '% is sold in other stores; only an admin of all of them can change its details', OLD.name
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.catalogue_items
+  SET name = NEW.name,
+      sku = NEW.sku,
+      barcode = NEW.barcode,
+      description = NEW.description
+  WHERE id = NEW.catalogue_item_id;
+  RETURN NEW;
+END;
+$$;
+
+-- The given catalogue items' listings in the stores the user is an admin of,
+-- for the catalogue page
+CREATE OR REPLACE FUNCTION public.catalogue_listings(_catalogue_item_ids UUID[])
+RETURNS TABLE (
+  catalogue_item_id UUID,
+  store_id UUID,
+  product_id UUID,
+  selling_price NUMERIC,
+  cost_price NUMERIC,
+  stock_quantity INTEGER,
+  active BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view store listings' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.catalogue_item_id, p.store_id, p.id, p.selling_price, p.cost_price, p.stock_quantity, p.active IS NOT FALSE
+  FROM public.products p
+  WHERE p.catalogue_item_id = ANY(_catalogue_item_ids)
+    AND public.has_store_role(auth.uid(), 'admin', p.store_id);
+END;
+$$;
+
+-- Sets a store's price for a catalogue item, listing the item in that store
+-- first if it is not sold there yet. The item must already be listed in a
+-- linked store. New listings start with no stock and take their cost and VAT
+-- rate from the most recently updated linked listing.
+CREATE OR REPLACE FUNCTION public.set_catalogue_store_price(
+  _catalogue_item_id UUID,
+  _store_id UUID,
+  _selling_price NUMERIC
+)
+RETURNS public.products
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _item public.catalogue_items;
+  _product public.products;
+  _template public.products;
+BEGIN
+  IF NOT public.has_store_role(auth.uid(), 'admin', _store_id) THEN
+    RAISE EXCEPTION 'Only admins of the store can set its prices' USING ERRCODE = '42501';
+  END IF;
+
+  IF _selling_price IS NULL OR _selling_price < 0 THEN
+    RAISE EXCEPTION 'Price cannot be negative' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO _item FROM public.catalogue_items
+  WHERE id = _catalogue_item_id
+    AND id IN (
+      SELECT catalogue_item_id FROM public.products WHERE store_id IN (SELECT public.linked_store_ids(_store_id))
+    );
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Catalogue item % not found', _catalogue_item_id USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.products
+  SET selling_price = round(_selling_price, 2),
+      active = true
+  WHERE store_id = _store_id AND catalogue_item_id = _item.id
+  RETURNING * INTO _product;
+
+  IF NOT FOUND THEN
+    SELECT * INTO _template FROM public.products
+    WHERE catalogue_item_id = _item.id AND store_id IN (SELECT public.linked_store_ids(_store_id))
+    ORDER BY updated_at DESC
+    LIMIT 1;
+
+    INSERT INTO public.products (
+      store_id, catalogue_item_id, name, selling_price, cost_price, vat_rate, stock_quantity
+    )
+    VALUES (
+      _store_id, _item.id, _item.name, round(_selling_price, 2),
+      COALESCE(_template.cost_price, 0), COALESCE(_template.vat_rate, 16), 0
+    )
+    RETURNING * INTO _product;
+  END IF;
+
+  RETURN _product;
+END;
+$$;
+
+-- Creates a draft transfer out of the user's store to a linked store, or
+-- replaces the lines and details of an existing draft.
+-- _items: [{ "product_id": uuid, "quantity": int }]
+CREATE OR REPLACE FUNCTION public.save_stock_transfer(
+  _to_store_id UUID,
+  _items JSONB,
+  _stock_transfer_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.stock_transfers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _store_id UUID;
+  _transfer public.stock_transfers;
+  _item JSONB;
+  _quantity INTEGER;
+  _product public.products;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers and admins can manage stock transfers' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT store_id INTO _store_id FROM public.profiles WHERE id = auth.uid();
+  IF _store_id IS NULL THEN
+    RAISE EXCEPTION 'Your account is not assigned to a store' USING ERRCODE = '42501';
+  END IF;
+
+  IF _to_store_id = _store_id THEN
+    RAISE EXCEPTION 'Choose another store to send the stock to' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.stores
+    WHERE id = _to_store_id AND active IS NOT FALSE AND id IN (SELECT public.linked_store_ids(_store_id))
+  ) THEN
+    RAISE EXCEPTION 'Store % not found', _to_store_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one product to the transfer' USING ERRCODE = '22023';
+  END IF;
+
+  IF _stock_transfer_id IS NULL THEN
+    INSERT INTO public.stock_transfers (transfer_number, from_store_id, to_store_id, notes, created_by)
+    VALUES (
+      public.next_document_number(_store_id, 'stock_transfer', NULL), _store_id, _to_store_id,
+      NULLIF(trim(_notes), ''), auth.uid()
+    )
+    RETURNING * INTO _transfer;
+  ELSE
+    SELECT * INTO _transfer FROM public.stock_transfers
+    WHERE id = _stock_transfer_id AND from_store_id = _store_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Stock transfer % not found', _stock_transfer_id USING ERRCODE = 'P0002';
+    END IF;
+    IF _transfer.status <> 'draft' THEN
+      RAISE EXCEPTION '% has been dispatched and can no longer be edited', _transfer.transfer_number
+        USING ERRCODE = '22023';
+    END IF;
+
+    DELETE FROM public.stock_transfer_items WHERE stock_transfer_id = _transfer.id;
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := (_item->>'quantity')::INTEGER;
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantities must be above zero' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT * INTO _product FROM public.products
+    WHERE id = (_item->>'product_id')::UUID AND store_id = _store_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % not found', _item->>'product_id' USING ERRCODE = 'P0002';
+    END IF;
+
+    INSERT INTO public.stock_transfer_items (stock_transfer_id, catalogue_item_id, from_product_id, quantity)
+    VALUES (_transfer.id, _product.catalogue_item_id, _product.id, _quantity);
+  END LOOP;
+
+  UPDATE public.stock_transfers
+  SET to_store_id = _to_store_id,
+      notes = NULLIF(trim(_notes), '')
+  WHERE id = _transfer.id
+  RETURNING * INTO _transfer;
+
+  RETURN _transfer;
+END;
+$$;
+
+-- Sales and stock for each store the user is an admin of, for comparing
+-- stores and adding them up
+CREATE OR REPLACE FUNCTION public.store_summaries(_from TIMESTAMPTZ, _to TIMESTAMPTZ DEFAULT now())
+RETURNS TABLE (
+  store_id UUID,
+  store_name TEXT,
+  active BOOLEAN,
+  sales_count INTEGER,
+  sales_total NUMERIC,
+  stock_units INTEGER,
+  stock_value NUMERIC,
+  low_stock_count INTEGER,
+  transfers_in_transit INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can compare stores' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  WITH sold AS (
+    SELECT sl.store_id, count(*)::INTEGER AS sales_count, sum(sl.total_amount) AS sales_total
+    FROM public.sales sl
+    WHERE sl.status = 'completed' AND sl.created_at >= _from AND sl.created_at < _to
+    GROUP BY sl.store_id
+  ),
+  stock AS (
+    SELECT
+      p.store_id,
+      sum(GREATEST(p.stock_quantity, 0))::INTEGER AS units,
+      sum(GREATEST(p.stock_quantity, 0) * p.cost_price) AS value,
+      (count(*) FILTER (WHERE p.stock_quantity <= COALESCE(p.reorder_level, ss.default_reorder_level)))::INTEGER AS low
+    FROM public.products p
+    JOIN public.store_settings ss ON ss.store_id = p.store_id
+    WHERE p.active IS NOT FALSE
+    GROUP BY p.store_id
+  ),
+  in_transit AS (
+    SELECT t.to_store_id, count(*)::INTEGER AS transfers
+    FROM public.stock_transfers t
+    WHERE t.status = 'dispatched'
+    GROUP BY t.to_store_id
+  )
+  SELECT
+    s.id,
+    s.name,
+    s.active IS NOT FALSE,
+    COALESCE(sold.sales_count, 0),
+    COALESCE(sold.sales_total, 0),
+    COALESCE(stock.units, 0),
+    COALESCE(stock.value, 0),
+    COALESCE(stock.low, 0),
+    COALESCE(in_transit.transfers, 0)
+  FROM public.stores s
+  LEFT JOIN sold ON sold.store_id = s.id
+  LEFT JOIN stock ON stock.store_id = s.id
+  LEFT JOIN in_transit ON in_transit.to_store_id = s.id
+  WHERE public.has_store_role(auth.uid(), 'admin', s.id)
+  ORDER BY s.name;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.linked_store_ids(UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.can_view_catalogue_item(UUID, UUID) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.can_edit_catalogue_item(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.linked_store_ids(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_view_catalogue_item(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_edit_catalogue_item(UUID, UUID) TO authenticated;
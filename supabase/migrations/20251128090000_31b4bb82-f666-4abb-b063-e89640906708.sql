@@ -0,0 +1,9 @@
+-- The purchasing, stocktake and transfer migrations each re-created the
+-- series check without 'etims_invoice', which enqueue_etims_submission numbers
+-- signed sales with. Put it back alongside every series in use.
+ALTER TABLE public.document_counters
+  DROP CONSTRAINT document_counters_series_check,
+  ADD CONSTRAINT document_counters_series_check
+    CHECK (series IN (
+      'receipt', 'credit_note', 'etims_invoice', 'purchase_order', 'goods_received', 'stocktake', 'stock_transfer'
+    ));
@@ -0,0 +1,79 @@
+-- A sale rung up offline that syncs after the shift it was rung up in has
+-- closed no longer joins that shift. The shift's cash has already been counted,
+-- and create_sale could not settle the sale's totals on it anyway, as
+-- guard_closed_shift_sale refuses changes to a closed shift's sales. The sale
+-- joins no shift and is recorded as a conflict for a manager to reconcile
+-- against the closed shift's count.
+ALTER TYPE public.sale_conflict_type ADD VALUE 'shift_closed';
+
+ALTER TABLE public.sale_sync_conflicts
+  -- Shift conflicts are about the whole sale rather than one product
+  ALTER COLUMN product_id DROP NOT NULL,
+  ALTER COLUMN quantity DROP NOT NULL,
+  -- The closed shift the sale was rung up in, for shift_closed
+  ADD COLUMN shift_id UUID REFERENCES public.till_shifts(id);
+
+CREATE OR REPLACE FUNCTION public.assign_document_shift()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _required BOOLEAN;
+  _captured_at TIMESTAMPTZ;
+BEGIN
+  -- Fields are only read on the table that has them
+  IF TG_TABLE_NAME = 'sales' THEN
+    _captured_at := NEW.captured_offline_at;
+    _required := _captured_at IS NULL;
+  ELSE
+    _required := NEW.refund_method = 'cash';
+  END IF;
+
+  -- An offline sale only joins the open shift if it was rung up in it
+  SELECT id INTO NEW.shift_id
+  FROM public.till_shifts
+  WHERE till_id = NEW.till_id
+    AND status = 'open'
+    AND (_captured_at IS NULL OR opened_at <= _captured_at);
+
+  IF NEW.shift_id IS NULL AND _required THEN
+    RAISE EXCEPTION 'Open a shift on this till first' USING ERRCODE = 'P0001';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.flag_late_offline_sale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _shift_id UUID;
+BEGIN
+  SELECT id INTO _shift_id
+  FROM public.till_shifts
+  WHERE till_id = NEW.till_id
+    AND status = 'closed'
+    AND opened_at <= NEW.captured_offline_at
+    AND closed_at > NEW.captured_offline_at
+  ORDER BY opened_at DESC
+  LIMIT 1;
+
+  IF _shift_id IS NOT NULL THEN
+    INSERT INTO public.sale_sync_conflicts (sale_id, store_id, conflict_type, shift_id)
+    VALUES (NEW.id, NEW.store_id, 'shift_closed', _shift_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER flag_late_offline_sale AFTER INSERT ON public.sales
+  FOR EACH ROW
+  WHEN (NEW.captured_offline_at IS NOT NULL AND NEW.shift_id IS NULL)
+  EXECUTE FUNCTION public.flag_late_offline_sale();
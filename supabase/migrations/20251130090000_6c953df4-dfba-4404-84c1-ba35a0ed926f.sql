@@ -0,0 +1,5 @@
+-- Voids go through void_sale, which checks the manager's PIN, the shift and
+-- the stock and points to put back. Managers can no longer update sales
+-- directly, which let them change totals and statuses with none of those
+-- checks.
+DROP POLICY "Managers and admins can void store sales" ON public.sales;
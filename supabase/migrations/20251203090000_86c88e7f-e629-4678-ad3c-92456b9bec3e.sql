@@ -0,0 +1,166 @@
+-- create_return as before, with two limits on the amount refunded. Each
+-- tender refunds at most what was paid with it, less what it has already
+-- refunded on the sale, and a line's refunds never add up to more than the
+-- line: the last units returned get whatever is left of it.
+CREATE OR REPLACE FUNCTION public.create_return(
+  _sale_id UUID,
+  _items JSONB,
+  _reason TEXT,
+  _refund_method payment_method,
+  _manager_pin TEXT,
+  _till_id UUID DEFAULT NULL
+)
+RETURNS public.credit_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sale public.sales;
+  _credit_note public.credit_notes;
+  _item JSONB;
+  _sale_item public.sale_items;
+  _approver UUID;
+  _quantity INTEGER;
+  _returned INTEGER;
+  _restock BOOLEAN;
+  _line_total DECIMAL(10,2);
+  _total DECIMAL(10,2) := 0;
+  _vat DECIMAL(10,2) := 0;
+  _refunded DECIMAL(10,2);
+  _refundable DECIMAL(10,2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Locking the sale serialises concurrent returns against it
+  SELECT * INTO _sale FROM public.sales WHERE id = _sale_id FOR UPDATE;
+
+  IF NOT FOUND OR _sale.store_id NOT IN (SELECT store_id FROM public.profiles WHERE id = auth.uid()) THEN
+    RAISE EXCEPTION 'Sale % not found', _sale_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _sale.status <> 'completed' THEN
+    RAISE EXCEPTION 'Only completed sales can be returned' USING ERRCODE = '22023';
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return' USING ERRCODE = '22023';
+  END IF;
+
+  IF length(trim(COALESCE(_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required for returns' USING ERRCODE = '22023';
+  END IF;
+
+  IF _refund_method <> 'loyalty' AND NOT EXISTS (
+    SELECT 1 FROM public.payments
+    WHERE sale_id = _sale_id AND payment_method = _refund_method AND reversed_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'This sale was not paid by %', _refund_method USING ERRCODE = '22023';
+  END IF;
+
+  _approver := public.verify_manager_pin(_sale.store_id, _manager_pin);
+  IF _approver IS NULL THEN
+    RAISE EXCEPTION 'Invalid manager PIN' USING ERRCODE = '28P01';
+  END IF;
+
+  -- assign_credit_note_number fills in the till and credit note number
+  INSERT INTO public.credit_notes (
+    store_id, till_id, sale_id, refund_method, reason, created_by, approved_by
+  )
+  VALUES (
+    _sale.store_id, _till_id, _sale_id, _refund_method, trim(_reason), auth.uid(), _approver
+  )
+  RETURNING * INTO _credit_note;
+
+  FOR _item IN SELECT value FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := (_item->>'quantity')::INTEGER;
+    _restock := COALESCE((_item->>'restock')::BOOLEAN, true);
+
+    SELECT * INTO _sale_item
+    FROM public.sale_items
+    WHERE id = (_item->>'sale_item_id')::UUID AND sale_id = _sale_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item % is not on this sale', _item->>'sale_item_id' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid return quantity for %', _sale_item.product_name USING ERRCODE = '22023';
+    END IF;
+
+    -- Includes lines already inserted for this credit note
+    SELECT COALESCE(sum(quantity), 0) INTO _returned
+    FROM public.credit_note_items
+    WHERE sale_item_id = _sale_item.id;
+
+    IF _returned + _quantity > _sale_item.quantity THEN
+      RAISE EXCEPTION 'Only % of % can still be returned', _sale_item.quantity - _returned, _sale_item.product_name
+        USING ERRCODE = '22023';
+    END IF;
+
+    SELECT COALESCE(sum(line_total), 0) INTO _refunded
+    FROM public.credit_note_items
+    WHERE sale_item_id = _sale_item.id;
+
+    -- Refund at the price actually paid for the line. Rounded shares can add
+    -- up to more than the line, so the last units get what is left of it.
+    IF _returned + _quantity = _sale_item.quantity THEN
+      _line_total := _sale_item.line_total - _refunded;
+    ELSE
+      _line_total := LEAST(
+        round(_sale_item.line_total * _quantity / _sale_item.quantity, 2),
+        _sale_item.line_total - _refunded
+      );
+    END IF;
+
+    INSERT INTO public.credit_note_items (
+      credit_note_id, sale_item_id, product_id, product_name,
+      quantity, unit_price, vat_rate, line_total, restocked
+    )
+    VALUES (
+      _credit_note.id, _sale_item.id, _sale_item.product_id, _sale_item.product_name,
+      _quantity, _sale_item.unit_price, _sale_item.vat_rate, _line_total, _restock
+    );
+
+    IF _restock THEN
+      INSERT INTO public.stock_movements (
+        product_id, store_id, movement_type, quantity, reference_type, reference_id, reason, created_by
+      )
+      VALUES (
+        _sale_item.product_id, _sale.store_id, 'return', _quantity, 'credit_note', _credit_note.id,
+        'Return on ' || _sale.receipt_number || ': ' || trim(_reason), auth.uid()
+      );
+    END IF;
+
+    _total := _total + _line_total;
+    _vat := _vat + round(_line_total * _sale_item.vat_rate / (100 + _sale_item.vat_rate), 2);
+  END LOOP;
+
+  -- A tender can give back no more than was paid with it, less earlier refunds
+  IF _refund_method <> 'loyalty' THEN
+    SELECT COALESCE(sum(amount), 0) INTO _refundable
+    FROM public.payments
+    WHERE sale_id = _sale_id AND payment_method = _refund_method AND reversed_at IS NULL;
+
+    SELECT _refundable - COALESCE(sum(total_amount), 0) INTO _refundable
+    FROM public.credit_notes
+    WHERE sale_id = _sale_id AND refund_method = _refund_method AND id <> _credit_note.id;
+
+    IF _total > _refundable THEN
+      RAISE EXCEPTION 'Only % can still be refunded by %', GREATEST(_refundable, 0), _refund_method
+        USING ERRCODE = '22023';
+    END IF;
+  END IF;
+
+  UPDATE public.credit_notes
+  SET total_amount = _total,
+      vat_amount = _vat
+  WHERE id = _credit_note.id
+  RETURNING * INTO _credit_note;
+
+  RETURN _credit_note;
+END;
+$$;
@@ -0,0 +1,85 @@
+-- Sales awaiting M-Pesa expire on the server as well as at the till. The till
+-- gives up after 90 seconds, but if it is closed or loses its connection while
+-- waiting, the sale would stay pending with its stock held. A sale still
+-- pending at expires_at is cancelled by expire_pending_sales, which runs every
+-- minute where pg_cron is installed.
+ALTER TABLE public.sales
+  -- When a sale awaiting M-Pesa is given up on; null for other sales
+  ADD COLUMN expires_at TIMESTAMPTZ;
+
+CREATE INDEX idx_sales_expires_at ON public.sales(expires_at) WHERE status = 'pending';
+
+-- A little longer than the till waits, so the till's own timeout normally wins
+CREATE OR REPLACE FUNCTION public.set_pending_sale_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'pending' AND (TG_OP = 'INSERT' OR OLD.status <> 'pending') THEN
+    NEW.expires_at := now() + interval '2 minutes';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_pending_sale_expiry BEFORE INSERT OR UPDATE OF status ON public.sales
+  FOR EACH ROW EXECUTE FUNCTION public.set_pending_sale_expiry();
+
+UPDATE public.sales
+SET expires_at = now() + interval '2 minutes'
+WHERE status = 'pending';
+
+-- For a scheduled job. A sale that cannot be cancelled is left for the next
+-- run rather than holding up the others.
+CREATE OR REPLACE FUNCTION public.expire_pending_sales()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sale_id UUID;
+  _count INTEGER := 0;
+BEGIN
+  FOR _sale_id IN
+    SELECT id FROM public.sales
+    WHERE status = 'pending' AND expires_at <= now()
+  LOOP
+    BEGIN
+      PERFORM public.cancel_pending_sale(_sale_id, 'timeout', 'M-Pesa prompt expired');
+      _count := _count + 1;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Could not expire sale %: %', _sale_id, SQLERRM;
+    END;
+  END LOOP;
+  RETURN _count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_pending_sales() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('expire-pending-sales', '* * * * *', 'select public.expire_pending_sales()');
+  END IF;
+END;
+$$;
+
+-- One STK prompt per payment at a time. Older duplicates left by repeated
+-- pushes are superseded by the latest.
+UPDATE public.mpesa_transactions t
+SET status = 'cancelled',
+    result_desc = COALESCE(result_desc, 'Superseded by a later prompt')
+WHERE status = 'pending'
+  AND EXISTS (
+    SELECT 1 FROM public.mpesa_transactions later
+    WHERE later.payment_id = t.payment_id
+      AND later.status = 'pending'
+      AND (later.created_at, later.id) > (t.created_at, t.id)
+  );
+
+CREATE UNIQUE INDEX idx_mpesa_transactions_pending_payment ON public.mpesa_transactions(payment_id)
+  WHERE status = 'pending';
@@ -0,0 +1,103 @@
+-- Staff count blind on the server as well as on screen. Expected quantities
+-- and variances can no longer be read from stocktake_items directly, nor are
+-- they returned by record_stocktake_count; managers and admins read them
+-- through stocktake_expected_quantities.
+REVOKE SELECT ON public.stocktake_items FROM anon, authenticated;
+GRANT SELECT (id, stocktake_id, product_id, cost_price, counted_quantity, counted_by, counted_at)
+  ON public.stocktake_items TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.stocktake_expected_quantities(
+  _stocktake_id UUID,
+  _product_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  product_id UUID,
+  expected_quantity INTEGER,
+  variance INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'admin') OR public.has_role(auth.uid(), 'manager')) THEN
+    RAISE EXCEPTION 'Only managers and admins can see expected quantities' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.stocktakes
+    WHERE stocktakes.id = _stocktake_id
+      AND store_id IN (SELECT store_id FROM public.profiles WHERE profiles.id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Stocktake % not found', _stocktake_id USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT i.id, i.product_id, i.expected_quantity, i.variance
+  FROM public.stocktake_items i
+  WHERE i.stocktake_id = _stocktake_id
+    AND (_product_id IS NULL OR i.product_id = _product_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.stocktake_expected_quantities(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.stocktake_expected_quantities(UUID, UUID) TO authenticated;
+
+-- As before, returning the count without the expected quantity
+DROP FUNCTION public.record_stocktake_count(UUID, UUID, INTEGER, BOOLEAN);
+
+CREATE FUNCTION public.record_stocktake_count(
+  _stocktake_id UUID,
+  _product_id UUID,
+  _quantity INTEGER,
+  _add BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+  id UUID,
+  stocktake_id UUID,
+  product_id UUID,
+  counted_quantity INTEGER,
+  counted_by UUID,
+  counted_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _stocktake public.stocktakes;
+  _item public.stocktake_items;
+BEGIN
+  SELECT * INTO _stocktake FROM public.stocktakes s
+  WHERE s.id = _stocktake_id
+    AND s.store_id IN (SELECT p.store_id FROM public.profiles p WHERE p.id = auth.uid());
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stocktake % not found', _stocktake_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF _stocktake.status <> 'counting' THEN
+    RAISE EXCEPTION '% is no longer being counted', _stocktake.stocktake_number USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.stocktake_items i
+  SET counted_quantity = CASE WHEN _add THEN COALESCE(i.counted_quantity, 0) + _quantity ELSE _quantity END,
+      expected_quantity = p.stock_quantity,
+      counted_by = auth.uid(),
+      counted_at = now()
+  FROM public.products p
+  WHERE i.stocktake_id = _stocktake.id AND i.product_id = _product_id AND p.id = i.product_id
+  RETURNING i.* INTO _item;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That product is not part of %', _stocktake.stocktake_number USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN QUERY
+  SELECT _item.id, _item.stocktake_id, _item.product_id, _item.counted_quantity, _item.counted_by, _item.counted_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_stocktake_count(UUID, UUID, INTEGER, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_stocktake_count(UUID, UUID, INTEGER, BOOLEAN) TO authenticated;
@@ -0,0 +1,101 @@
+-- Offline sales that sync after their shift has closed. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+SELECT plan(6);
+
+INSERT INTO auth.users (id, email)
+VALUES ('11111111-1111-1111-1111-111111111111', 'cashier@example.com');
+
+INSERT INTO public.stores (id, name)
+VALUES ('22222222-2222-2222-2222-222222222222', 'Test Store');
+
+UPDATE public.profiles
+SET store_id = '22222222-2222-2222-2222-222222222222'
+WHERE id = '11111111-1111-1111-1111-111111111111';
+
+INSERT INTO public.user_roles (user_id, role, store_id)
+VALUES ('11111111-1111-1111-1111-111111111111', 'cashier', '22222222-2222-2222-2222-222222222222');
+
+INSERT INTO public.tills (id, store_id, code, name)
+VALUES ('33333333-3333-3333-3333-333333333333', '22222222-2222-2222-2222-222222222222', 'T1', 'Till 1');
+
+INSERT INTO public.products (id, store_id, name, selling_price, stock_quantity, vat_rate)
+VALUES ('44444444-4444-4444-4444-444444444444', '22222222-2222-2222-2222-222222222222', 'Soda', 100, 10, 16);
+
+-- Shift 1 ran from three hours ago until an hour ago; shift 2 is open now
+INSERT INTO public.till_shifts (
+  id, store_id, till_id, shift_number, status, opened_by, opened_at, opening_float,
+  closed_by, closed_at, counted_cash, expected_cash
+)
+VALUES
+  ('55555555-5555-5555-5555-555555555551', '22222222-2222-2222-2222-222222222222',
+   '33333333-3333-3333-3333-333333333333', 1, 'closed', '11111111-1111-1111-1111-111111111111',
+   now() - interval '3 hours', 0, '11111111-1111-1111-1111-111111111111', now() - interval '1 hour', 0, 0),
+  ('55555555-5555-5555-5555-555555555552', '22222222-2222-2222-2222-222222222222',
+   '33333333-3333-3333-3333-333333333333', 2, 'open', '11111111-1111-1111-1111-111111111111',
+   now() - interval '30 minutes', 0, NULL, NULL, NULL, NULL);
+
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$
+    SELECT public.create_sale(
+      _store_id := '22222222-2222-2222-2222-222222222222',
+      _items := '[{"product_id": "44444444-4444-4444-4444-444444444444", "quantity": 1, "unit_price": 100}]',
+      _payments := '[{"payment_method": "cash", "amount": 100}]',
+      _till_id := '33333333-3333-3333-3333-333333333333',
+      _sale_id := '66666666-6666-6666-6666-666666666661',
+      _captured_at := now() - interval '2 hours',
+      _provisional_receipt_number := 'OFF-TEST-000001'
+    )
+  $$,
+  'a sale rung up in a shift that has since closed still syncs'
+);
+
+SELECT lives_ok(
+  $$
+    SELECT public.create_sale(
+      _store_id := '22222222-2222-2222-2222-222222222222',
+      _items := '[{"product_id": "44444444-4444-4444-4444-444444444444", "quantity": 1, "unit_price": 100}]',
+      _payments := '[{"payment_method": "cash", "amount": 100}]',
+      _till_id := '33333333-3333-3333-3333-333333333333',
+      _sale_id := '66666666-6666-6666-6666-666666666662',
+      _captured_at := now() - interval '10 minutes',
+      _provisional_receipt_number := 'OFF-TEST-000002'
+    )
+  $$,
+  'a sale rung up in the open shift syncs'
+);
+
+RESET ROLE;
+
+SELECT results_eq(
+  $$ SELECT status::TEXT, total_amount, shift_id FROM public.sales WHERE id = '66666666-6666-6666-6666-666666666661' $$,
+  $$ VALUES ('completed', 100.00::DECIMAL(10,2), NULL::UUID) $$,
+  'the late sale is settled and joins no shift'
+);
+
+SELECT results_eq(
+  $$
+    SELECT conflict_type::TEXT, shift_id, product_id
+    FROM public.sale_sync_conflicts
+    WHERE sale_id = '66666666-6666-6666-6666-666666666661'
+  $$,
+  $$ VALUES ('shift_closed', '55555555-5555-5555-5555-555555555551'::UUID, NULL::UUID) $$,
+  'the late sale is flagged against the closed shift'
+);
+
+SELECT is(
+  (SELECT shift_id FROM public.sales WHERE id = '66666666-6666-6666-6666-666666666662'),
+  '55555555-5555-5555-5555-555555555552'::UUID,
+  'a sale rung up in the open shift joins it'
+);
+
+SELECT is_empty(
+  $$ SELECT 1 FROM public.sale_sync_conflicts WHERE sale_id = '66666666-6666-6666-6666-666666666662' $$,
+  'a sale rung up in the open shift is not flagged'
+);
+
+SELECT * FROM finish();
+ROLLBACK;